@@ -8,6 +8,7 @@ import {
   structureTypeToSingularTitle,
   generateAACommands,
   generateAACustom,
+  aaTierCollisionWarnings,
   generateTotalDiscoveredCustom,
   rewardDisplayFromCeExecuteLine,
   structuresFoundTierSpecs,
@@ -16,6 +17,7 @@ import {
 } from './aaGenerator'
 
 import type { RegionRecord } from './types'
+import { resolveRewardEconomy } from './shared/rewardEconomy'
 
 describe('calculateTiers', () => {
   it('67 villages', () => {
@@ -126,6 +128,36 @@ describe('generateAACommands hyphenated ids', () => {
   })
 })
 
+describe('generateAACommands region reward overrides', () => {
+  it('replaces Message and Experience but keeps structure claimblocks', () => {
+    const regions: RegionRecord[] = [
+      {
+        world: 'overworld',
+        id: 'sky_spire',
+        kind: 'region',
+        discover: { method: 'on_enter', recipeId: 'region' },
+        rewards: { aaMessage: 'You reached the Sky Spire!', aaExperience: 1000 },
+      },
+      {
+        world: 'overworld',
+        id: 'deep_city',
+        kind: 'structure',
+        structureType: 'ancient_city',
+        discover: { method: 'on_enter', recipeId: 'none' },
+        rewards: { aaExperience: 900 },
+      },
+    ]
+    const cmds = generateAACommands(regions)
+    expect(cmds.discoverSkySpire?.Message).toBe('You reached the Sky Spire!')
+    expect(cmds.discoverSkySpire?.Reward).toEqual({ Experience: 1000 })
+    expect(cmds.discoverDeepCity?.Message).toBe('You found Deep City')
+    expect(cmds.discoverDeepCity?.Reward).toEqual({
+      Experience: 900,
+      Command: { Execute: ['acb PLAYER +50'], Display: '50 claimblocks' },
+    })
+  })
+})
+
 describe('rewardDisplayFromCeExecuteLine', () => {
   it('maps get_book_* to enchant labels with Roman levels', () => {
     expect(rewardDisplayFromCeExecuteLine('ce call get_book_respiration_3 player:PLAYER')).toBe('Respiration III')
@@ -392,6 +424,102 @@ describe('structure AA generation', () => {
   })
 })
 
+describe('custom reward economy', () => {
+  const economy = resolveRewardEconomy({
+    tierTemplates: { nerves_discovered: ['all'] } as never,
+    structures: { trail_ruins: { xp: 40, claimBlocks: 5, setDifficulty: 1 } },
+    structureSetXpBase: 100,
+    structureSetClaimBlocksBase: 10,
+    structuresFoundClaimBlocks: { ten: 1, milestone: 2, all: 3 },
+  })
+
+  it('uses per-server structure discovery rewards', () => {
+    const regions: RegionRecord[] = [
+      {
+        world: 'overworld',
+        id: 'rootbound_fragment',
+        kind: 'structure',
+        structureType: 'trail_ruins',
+        discover: { method: 'on_enter', recipeId: 'none' },
+      },
+    ]
+    const cmds = generateAACommands(regions, economy)
+    expect(cmds.discoverRootboundFragment.Reward).toEqual({
+      Experience: 40,
+      Command: { Execute: ['acb PLAYER +5'], Display: '5 claimblocks' },
+    })
+  })
+
+  it('uses per-server tier goals, set bases and structures_found claimblocks', () => {
+    const regions: RegionRecord[] = [
+      ...['a', 'b', 'c', 'd'].map((id) => ({
+        world: 'overworld' as const,
+        id: `trail_${id}`,
+        kind: 'structure' as const,
+        structureType: 'trail_ruins',
+        discover: { method: 'on_enter' as const, recipeId: 'none' as const },
+      })),
+      ...['a', 'b', 'c'].map((id) => ({
+        world: 'overworld' as const,
+        id: `nerve_of_${id}`,
+        kind: 'nerve' as const,
+        discover: { method: 'on_enter' as const, recipeId: 'nerve' as const },
+      })),
+    ]
+    const template = {
+      Custom: {
+        nerves_discovered: { 1: { Message: 'One Nerve', Name: 'n', DisplayName: 'A', Type: 'normal' } },
+        structures_found: { 1: { Message: 'x', Name: 's', DisplayName: 'S', Type: 'normal' } },
+      },
+    }
+    const families = { trail_ruins: { label: 'Trail Ruins', counter: 'trail_ruins_found' } }
+    const custom = generateAACustom(regions, template, families, '{SERVER_NAME}', economy)
+    expect(Object.keys(custom.nerves_discovered)).toEqual(['3'])
+    expect(custom.trail_ruins_found[4].Reward.Experience).toBe(200)
+    expect(custom.trail_ruins_found[4].Reward.Command.Display).toBe('20 claimblocks')
+    expect(custom.structures_found[2].Reward.Command.Display).toBe('2 claimblocks')
+    expect(custom.structures_found[4].Reward.Command.Display).toBe('3 claimblocks')
+  })
+})
+
+describe('tier markers and collision warnings', () => {
+  const villages: RegionRecord[] = Array.from({ length: 40 }, (_, i) => ({
+    world: 'overworld' as const,
+    id: `village_${i + 1}`,
+    kind: 'village' as const,
+    discover: { method: 'on_enter' as const, recipeId: 'village' as const },
+  }))
+  const template = {
+    Custom: {
+      villages_discovered: {
+        1: { Message: 'You discovered 1 villages', Name: 'v1', DisplayName: 'A', Type: 'normal' },
+        _quarter: { Message: 'A quarter of the villages', Name: 'vq', DisplayName: 'Quarter', Type: 'rare' },
+        40: { Message: 'You discovered all the villages!', Name: 'v40', DisplayName: 'C', Type: 'rare' },
+      },
+    },
+  }
+  const economy = resolveRewardEconomy({
+    tierTemplates: { villages_discovered: [1, 12, 'quarter', 'all'] } as never,
+  })
+
+  it('uses the _quarter template entry for quarter milestones', () => {
+    const custom = generateAACustom(regions(), template, undefined, '{SERVER_NAME}', economy)
+    expect(Object.keys(custom.villages_discovered)).toEqual(['1', '10', '40'])
+    expect(custom.villages_discovered[10].DisplayName).toBe('Quarter')
+    expect(custom.villages_discovered[10].Name).toBe('villages_discovered_10')
+  })
+
+  it('lists dropped tiers for the build report', () => {
+    expect(aaTierCollisionWarnings(regions(), template, economy)).toEqual([
+      'AA villages_discovered: tier 12 dropped: within 5 of quarter (10)',
+    ])
+  })
+
+  function regions(): RegionRecord[] {
+    return villages
+  }
+})
+
 describe('structuresFoundTierSpecs', () => {
   it('total 140: half at 70 beats every-10; quarter at 35; three quarters at 105 beats ten', () => {
     const specs = structuresFoundTierSpecs(140)
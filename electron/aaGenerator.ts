@@ -1,8 +1,30 @@
 const yaml = require('yaml')
 
-import type { RegionRecord } from './types'
-import { snakeToTitleCase, splitRegionIdWords } from './shared/stringFormatters'
+import type {
+  RegionRecord,
+  RewardEconomy,
+  RewardTierCategory,
+  RewardTierMarker,
+  TotalDiscoveredTier,
+} from './types'
+import { generateCommandId, snakeToTitleCase, splitRegionIdWords } from './shared/stringFormatters'
+import {
+  DEFAULT_REWARD_ECONOMY,
+  REWARD_TIER_CATEGORIES,
+  calculateStructureSetClaimBlocks,
+  calculateStructureSetXP,
+  calculateTiers,
+  countStructuresByType,
+  countTierCategoryTotals,
+  describeTierDecision,
+  explainTiers,
+  explainTotalDiscoveredGoals,
+} from './shared/rewardEconomy'
+import type { TierCalculationOptions } from './shared/rewardEconomy'
 import { computeRegionCounts } from './utils/regionStats'
+import { assertOwnedKey, stripOwnedForMerge } from './shared/ownershipManifest'
+import { AA_OWNERSHIP } from './shared/ownershipManifests'
+import { patchYamlSource } from './utils/yamlSourcePatch'
 
 interface AACommand {
   Goal: string
@@ -23,125 +45,23 @@ type AACommandsSection = {
   [commandId: string]: AACommand
 }
 
-// Tier can be a fixed number or a dynamic marker
-type TierMarker = number | 'half' | 'all'
-
 interface TierTemplate {
-  tiers: TierMarker[]
+  tiers: RewardTierMarker[]
   category: string // e.g., 'villages_discovered'
 }
 
-interface TierCalculationOptions {
-  halfRounding?: 'floor' | 'ceil'
-  preserveFixedTiers?: number[]
+function defaultTierTemplate(category: RewardTierCategory): TierTemplate {
+  return { tiers: DEFAULT_REWARD_ECONOMY.tierTemplates[category], category }
 }
 
-// Tier templates for each category
-// Villages: even increments of 10, plus special half and all milestones
-const VILLAGES_TEMPLATE: TierTemplate = {
-  tiers: [1, 10, 20, 30, 40, 50, 60, 'half', 'all'],
-  category: 'villages_discovered',
-}
-
-const REGIONS_TEMPLATE: TierTemplate = {
-  tiers: [2, 'half', 'all'],
-  category: 'regions_discovered',
-}
-
-const HEARTS_TEMPLATE: TierTemplate = {
-  tiers: [1, 'half', 'all'],
-  category: 'hearts_discovered',
-}
-
-const NERVES_TEMPLATE: TierTemplate = {
-  tiers: [1, 'half', 'all'],
-  category: 'nerves_discovered',
-}
-
-const NETHER_REGIONS_TEMPLATE: TierTemplate = {
-  tiers: [1, 'half', 'all'],
-  category: 'nether_regions_discovered',
-}
-
-const NETHER_HEARTS_TEMPLATE: TierTemplate = {
-  tiers: [1, 'half', 'all'],
-  category: 'nether_hearts_discovered',
-}
-
-const STRUCTURE_DISCOVERY_XP: Record<string, number> = {
-  pillager_outpost: 80,
-  shipwreck: 80,
-  desert_pyramid: 100,
-  desert_well: 110,
-  buried_treasure: 130,
-  jungle_temple: 150,
-  ocean_ruin: 80,
-  igloo: 180,
-  trail_ruins: 200,
-  swamp_hut: 130,
-  woodland_mansion: 350,
-  ancient_city: 500,
-}
-
-/** Per-structure claimblocks (AdvancedAchievements Reward.Command); PLAYER is substituted by AA */
-const STRUCTURE_DISCOVERY_CLAIM_BLOCKS: Record<string, number> = {
-  pillager_outpost: 10,
-  shipwreck: 10,
-  desert_pyramid: 12,
-  desert_well: 13,
-  buried_treasure: 15,
-  jungle_temple: 18,
-  ocean_ruin: 10,
-  igloo: 22,
-  trail_ruins: 25,
-  swamp_hut: 15,
-  woodland_mansion: 35,
-  ancient_city: 50,
-}
-
-const STRUCTURE_SET_DIFFICULTY: Record<string, number> = {
-  pillager_outpost: 1.0,
-  shipwreck: 1.0,
-  desert_pyramid: 1.1,
-  desert_well: 1.2,
-  buried_treasure: 1.35,
-  jungle_temple: 1.5,
-  ocean_ruin: 1.0,
-  igloo: 1.8,
-  trail_ruins: 2.0,
-  swamp_hut: 1.35,
-  woodland_mansion: 2.75,
-  ancient_city: 3.5,
-}
-
-const STRUCTURE_SET_XP_BASE = 250
-
-/** Same scaling as set XP (difficulty × √n); tuned for claimblock magnitudes */
-const STRUCTURE_SET_CLAIM_BLOCKS_BASE = 20
-
-function getStructureSetDifficulty(structureType: string): number {
-  if (!(structureType in STRUCTURE_SET_DIFFICULTY)) {
-    throw new Error(`Unknown structure type: ${structureType}`)
-  }
-  return STRUCTURE_SET_DIFFICULTY[structureType]
-}
-
-function calculateStructureSetXP(structureType: string, quantity: number): number {
-  if (quantity <= 0) return 0
-  const difficulty = getStructureSetDifficulty(structureType)
-  const xp = STRUCTURE_SET_XP_BASE * difficulty * Math.sqrt(quantity)
-  return Math.round(xp)
-}
-
-function calculateStructureSetClaimBlocks(structureType: string, quantity: number): number {
-  if (quantity <= 0) return 0
-  const difficulty = getStructureSetDifficulty(structureType)
-  const blocks = STRUCTURE_SET_CLAIM_BLOCKS_BASE * difficulty * Math.sqrt(quantity)
-  return Math.round(blocks)
-}
-
-const HALF_COLLISION_THRESHOLD = 5
-const ALL_COLLISION_THRESHOLD = 4
+// Default tier templates (per-server values come from the reward economy)
+const VILLAGES_TEMPLATE = defaultTierTemplate('villages_discovered')
+const REGIONS_TEMPLATE = defaultTierTemplate('regions_discovered')
+const HEARTS_TEMPLATE = defaultTierTemplate('hearts_discovered')
+const NETHER_REGIONS_TEMPLATE = defaultTierTemplate('nether_regions_discovered')
+const NETHER_HEARTS_TEMPLATE = defaultTierTemplate('nether_hearts_discovered')
+const END_REGIONS_TEMPLATE = defaultTierTemplate('end_regions_discovered')
+const END_HEARTS_TEMPLATE = defaultTierTemplate('end_hearts_discovered')
 
 /** Roman numerals I–X for enchant / potion stack labels */
 function toRomanLevel(n: number): string {
@@ -264,70 +184,6 @@ function ensureRewardCommandDisplayFromCeCalls(entry: any): void {
   cmd.Display = parts.join(' and ')
 }
 
-/**
- * Calculate actual tier numbers from a template and total count
- * Rules:
- * 1. Drop any fixed tier >= total
- * 2. Drop fixed tier if within HALF_COLLISION_THRESHOLD of half (avoids e.g. 20 and 21 back-to-back)
- * 3. Drop highest remaining fixed tier if within ALL_COLLISION_THRESHOLD of total
- * 4. Calculate 'half' = floor(total/2) and 'all' = total
- */
-function calculateTiers(
-  template: TierTemplate,
-  total: number,
-  options: TierCalculationOptions = {}
-): number[] {
-  if (total <= 0) return []
-
-  const half = (options.halfRounding ?? 'floor') === 'ceil'
-    ? Math.ceil(total / 2)
-    : Math.floor(total / 2)
-
-  const resolvedTiers: { value: number; isFixed: boolean }[] = []
-
-  for (const tier of template.tiers) {
-    if (tier === 'half') {
-      resolvedTiers.push({ value: half, isFixed: false })
-    } else if (tier === 'all') {
-      resolvedTiers.push({ value: total, isFixed: false })
-    } else {
-      resolvedTiers.push({ value: tier, isFixed: true })
-    }
-  }
-
-  let filtered = resolvedTiers.filter(t => !t.isFixed || t.value < total)
-
-  filtered = filtered.filter(t => {
-    if (!t.isFixed) return true
-    if (options.preserveFixedTiers?.includes(t.value)) return true
-    if (Math.abs(t.value - half) <= HALF_COLLISION_THRESHOLD) return false
-    return true
-  })
-
-  const fixedTiers = filtered.filter(t => t.isFixed)
-  if (fixedTiers.length > 0) {
-    const highestFixed = Math.max(...fixedTiers.map(t => t.value))
-    if (total - highestFixed <= ALL_COLLISION_THRESHOLD) {
-      const indexToRemove = filtered.findIndex(t => t.isFixed && t.value === highestFixed)
-      if (indexToRemove !== -1) {
-        filtered.splice(indexToRemove, 1)
-      }
-    }
-  }
-
-  let values = [...new Set(filtered.map(t => t.value))].sort((a, b) => a - b)
-
-  if (half === total && values.includes(half)) {
-    values = values.filter(v => v === total || v < half)
-  }
-
-  if (total >= 1 && values.includes(0)) {
-    values = values.filter(v => v > 0)
-  }
-
-  return values
-}
-
 /**
  * Convert snake_case to PascalCase
  * Examples:
@@ -369,32 +225,6 @@ function getRegionName(regionId: string, kind: string): string {
   return snakeToTitleCase(name)
 }
 
-/**
- * Generate AA Command ID from region ID
- * Pattern: discover + PascalCase(regionId)
- * 
- * Special rules:
- * - Hearts: Capitalize all words including "of" (heart_of_warriotos -> discoverHeartOfWarriotos)
- * - Nether regions with "of": "of" stays lowercase in the middle
- *   (ebon_of_wither -> discoverEbonofWither)
- */
-function generateCommandId(regionId: string): string {
-  const parts = splitRegionIdWords(regionId)
-
-  const capitalizeOfInId = regionId.startsWith('heart_of_') || regionId.startsWith('nerve_of_')
-
-  const convertedParts = parts.map((part, index) => {
-    if (!capitalizeOfInId && index > 0 && part.toLowerCase() === 'of') {
-      return 'of'
-    }
-    // Capitalize first letter, lowercase rest (this will capitalize "Of" in hearts)
-    return part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()
-  })
-  
-  const pascalCase = convertedParts.join('')
-  return 'discover' + pascalCase
-}
-
 /**
  * Generate Display Name from region ID
  * Default: Title Case derived from id
@@ -423,8 +253,12 @@ export function structureTypeToSingularTitle(structureType: string): string {
 
 /**
  * Generate AA Commands section from region records
+ * @param economy Structure discovery XP / claimblocks (default: built-in reward economy)
  */
-export function generateAACommands(regions: RegionRecord[]): AACommandsSection {
+export function generateAACommands(
+  regions: RegionRecord[],
+  economy: RewardEconomy = DEFAULT_REWARD_ECONOMY
+): AACommandsSection {
   const commands: AACommandsSection = {}
   
   const activeRegions = regions.filter(
@@ -460,7 +294,12 @@ export function generateAACommands(regions: RegionRecord[]): AACommandsSection {
     } else if (region.kind === 'heart') {
       goal = `Discover the Heart of ${regionName}`
       message = `You discovered the Heart of ${regionName}`
-      displayName = region.world === 'nether' ? 'Nether Heart Discovery' : 'Heart Discovery'
+      displayName =
+        region.world === 'nether'
+          ? 'Nether Heart Discovery'
+          : region.world === 'end'
+            ? 'End Heart Discovery'
+            : 'Heart Discovery'
     } else if (region.kind === 'nerve') {
       goal = `Discover the Nerve of ${regionName}`
       message = `You discovered the Nerve of ${regionName}`
@@ -475,6 +314,10 @@ export function generateAACommands(regions: RegionRecord[]): AACommandsSection {
         goal = `Discover ${regionName} Nether Region`
         message = `You discovered the nether region of ${regionName}`
         displayName = 'Nether Region Discovery'
+      } else if (region.world === 'end') {
+        goal = `Discover ${regionName} End Region`
+        message = `You discovered the end region of ${regionName}`
+        displayName = 'End Region Discovery'
       } else {
         goal = `Discover ${regionName} Region`
         message = `You discovered the region of ${regionName}`
@@ -496,18 +339,22 @@ export function generateAACommands(regions: RegionRecord[]): AACommandsSection {
       Type: 'normal',
     }
     if (region.kind === 'structure' && region.structureType) {
-      const xp = STRUCTURE_DISCOVERY_XP[region.structureType]
-      const claimBlocks = STRUCTURE_DISCOVERY_CLAIM_BLOCKS[region.structureType]
-      if (typeof xp === 'number') {
-        entry.Reward = { Experience: xp }
-        if (typeof claimBlocks === 'number') {
-          entry.Reward.Command = {
-            Execute: [`acb PLAYER +${claimBlocks}`],
-            Display: `${claimBlocks} claimblocks`,
-          }
+      const rewards = economy.structures[region.structureType]
+      if (rewards) {
+        entry.Reward = { Experience: rewards.xp }
+        entry.Reward.Command = {
+          Execute: [`acb PLAYER +${rewards.claimBlocks}`],
+          Display: `${rewards.claimBlocks} claimblocks`,
         }
       }
     }
+    // Per-region overrides win over kind defaults
+    if (region.rewards?.aaMessage) {
+      entry.Message = region.rewards.aaMessage
+    }
+    if (region.rewards?.aaExperience !== undefined) {
+      entry.Reward = { ...entry.Reward, Experience: region.rewards.aaExperience }
+    }
     appendLegendAlertExecute(entry)
     commands[commandId] = entry
   }
@@ -515,38 +362,13 @@ export function generateAACommands(regions: RegionRecord[]): AACommandsSection {
   return commands
 }
 
-/**
- * Count regions by kind from profile.regions
- */
-function countRegionsByKind(regions: RegionRecord[]): {
-  villages: number
-  regions: number
-  hearts: number
-  nerves: number
-  netherRegions: number
-  netherHearts: number
-} {
-  // Overworld categories are generated separately from nether categories.
-  const overworldRegions = regions.filter(r => r.world === 'overworld')
-  const netherRegions = regions.filter(r => r.world === 'nether')
-  
-  return {
-    villages: overworldRegions.filter(r => r.kind === 'village').length,
-    regions: overworldRegions.filter(r => r.kind === 'region').length,
-    hearts: overworldRegions.filter(r => r.kind === 'heart').length,
-    nerves: overworldRegions.filter(r => r.kind === 'nerve').length,
-    netherRegions: netherRegions.filter(r => r.kind === 'region').length,
-    netherHearts: netherRegions.filter(r => r.kind === 'heart').length,
-  }
-}
-
 /**
  * Generate Custom achievements category from template and calculated tiers
  */
 function generateCustomCategory(
   templateCategory: Record<string, any>,
   calculatedTiers: number[],
-  template: TierTemplate,
+  markers: Map<number, RewardTierMarker>,
   total: number,
   categoryName: string,
   options: TierCalculationOptions = {}
@@ -572,11 +394,17 @@ function generateCustomCategory(
     const isAllTier = tierValue === total && i === calculatedTiers.length - 1
     const isHalfTier = tierValue === half && !isAllTier
 
+    const marker = markers.get(tierValue)
+
     let templateEntry: any
     if (isAllTier && hasAllTemplate) {
       templateEntry = templateCategory['_all']
     } else if (isHalfTier && hasHalfTemplate) {
       templateEntry = templateCategory['_half']
+    } else if (marker === 'quarter' && '_quarter' in templateCategory) {
+      templateEntry = templateCategory['_quarter']
+    } else if (marker === 'three_quarter' && '_threeQuarter' in templateCategory) {
+      templateEntry = templateCategory['_threeQuarter']
     } else if (isAllTier && allTemplateKey != null) {
       templateEntry = templateCategory[allTemplateKey]
     } else if (isHalfTier) {
@@ -638,6 +466,14 @@ function generateCustomCategory(
           entry.Message = oddCeilHalf
             ? 'You discovered more than half of all Nether Hearts!'
             : 'You discovered half of all Nether Hearts!'
+        } else if (categoryName === 'end_regions_discovered') {
+          entry.Message = oddCeilHalf
+            ? 'You discovered more than half of all End regions!'
+            : 'You discovered half of all End regions!'
+        } else if (categoryName === 'end_hearts_discovered') {
+          entry.Message = oddCeilHalf
+            ? 'You discovered more than half of all End Hearts!'
+            : 'You discovered half of all End Hearts!'
         }
       }
     }
@@ -754,44 +590,17 @@ export function structuresFoundTenDisplayNames(total: number): Record<number, st
   return Object.fromEntries(buildStructuresFoundTenDisplayNames(total))
 }
 
-const TOTAL_DISCOVERED_PERCENTS = [10, 20, 25, 30, 40, 50, 60, 70, 75, 80, 90, 100] as const
-
-const TOTAL_DISCOVERED_TITLES = [
-  'Wanderer',
-  'Scout',
-  'Seeker',
-  'Pathfinder',
-  'Wayfarer',
-  'Trailblazer',
-  'Pioneer',
-  'Outrider',
-  'Vanguard',
-  'Chronicler',
-  'Cartographer',
-  'Legend',
-] as const
-
 /** Custom.total_discovered tiers: percent milestones vs exploration total (TAB / CE denominator). */
 export function generateTotalDiscoveredCustom(
   explorationTotal: number,
-  serverName: string
+  serverName: string,
+  tiers: TotalDiscoveredTier[] = DEFAULT_REWARD_ECONOMY.totalDiscoveredTiers
 ): Record<number, any> | null {
-  if (explorationTotal <= 0) return null
-  if (TOTAL_DISCOVERED_TITLES.length !== TOTAL_DISCOVERED_PERCENTS.length) {
-    throw new Error('TOTAL_DISCOVERED_TITLES and TOTAL_DISCOVERED_PERCENTS must match in length')
-  }
-
+  const { goals } = explainTotalDiscoveredGoals(tiers, explorationTotal)
   const categoryName = 'total_discovered'
-  let lastGoal = 0
   const result: Record<number, any> = {}
 
-  for (let i = 0; i < TOTAL_DISCOVERED_PERCENTS.length; i++) {
-    const p = TOTAL_DISCOVERED_PERCENTS[i]
-    const title = TOTAL_DISCOVERED_TITLES[i]
-    let goal = Math.max(1, Math.ceil((explorationTotal * p) / 100))
-    if (goal <= lastGoal) goal = lastGoal + 1
-    if (goal > explorationTotal) break
-
+  for (const { percent: p, title, goal } of goals) {
     const article = indefiniteArticleFor(title)
     result[goal] = {
       Message: `${p}% of ${serverName} explored!`,
@@ -807,7 +616,6 @@ export function generateTotalDiscoveredCustom(
         },
       },
     }
-    lastGoal = goal
   }
 
   return Object.keys(result).length > 0 ? result : null
@@ -845,7 +653,8 @@ function pickStructuresFoundTemplateEntry(
 
 function generateStructuresFoundCustom(
   templateCategory: Record<string, any>,
-  total: number
+  total: number,
+  claimBlocks: RewardEconomy['structuresFoundClaimBlocks']
 ): { [tier: number]: any } | null {
   if (total <= 0 || !templateCategory || typeof templateCategory !== 'object') return null
 
@@ -865,7 +674,7 @@ function generateStructuresFoundCustom(
     entry.Name = `${categoryName}_${value}`
 
     const claim =
-      source === 'ten' ? 100 : source === 'all' ? 500 : 200
+      source === 'ten' ? claimBlocks.ten : source === 'all' ? claimBlocks.all : claimBlocks.milestone
     entry.Reward = {
       Command: {
         Execute: [`acb PLAYER +${claim}`],
@@ -906,17 +715,6 @@ function generateStructuresFoundCustom(
 
 export type StructureFamiliesMap = Record<string, { label: string; counter: string }>
 
-function countStructureTotalsByType(regions: RegionRecord[]): Record<string, number> {
-  const byType: Record<string, number> = {}
-  for (const r of regions) {
-    if (r.kind !== 'structure' || r.discover.method === 'disabled') continue
-    const t = r.structureType
-    if (!t) continue
-    byType[t] = (byType[t] ?? 0) + 1
-  }
-  return byType
-}
-
 function countStructureSites(regions: RegionRecord[]): number {
   let n = 0
   for (const r of regions) {
@@ -943,114 +741,44 @@ function warnStructureFamiliesMismatch(regions: RegionRecord[], structureFamilie
 /**
  * Generate the owned Custom section categories based on region counts
  * @param serverName Resolved world/server label for messages (default placeholder for tests)
+ * @param economy Tier goals and structure rewards (default: built-in reward economy)
  */
 export function generateAACustom(
   regions: RegionRecord[],
   templateConfig: any,
   structureFamilies?: StructureFamiliesMap,
-  serverName: string = '{SERVER_NAME}'
+  serverName: string = '{SERVER_NAME}',
+  economy: RewardEconomy = DEFAULT_REWARD_ECONOMY
 ): { [category: string]: { [tier: number]: any } } {
   warnStructureFamiliesMismatch(regions, structureFamilies)
 
-  const counts = countRegionsByKind(regions)
+  const totals = countTierCategoryTotals(regions)
   const explorationTotal = computeRegionCounts(regions).total
   const result: { [category: string]: { [tier: number]: any } } = {}
   
   const templateCustom = templateConfig.Custom || {}
   
-  // Generate villages_discovered if villages exist
-  if (counts.villages > 0 && templateCustom.villages_discovered) {
-    const tiers = calculateTiers(VILLAGES_TEMPLATE, counts.villages)
+  // One tiered category per region kind and world, when the server has any and the template defines it
+  for (const { category, options } of REWARD_TIER_CATEGORIES) {
+    const total = totals[category]
+    if (total <= 0 || !templateCustom[category]) continue
+    const template: TierTemplate = { tiers: economy.tierTemplates[category], category }
+    const { tiers, decisions } = explainTiers(template, total, options, economy.tierCollision)
     if (tiers.length > 0) {
-      result.villages_discovered = generateCustomCategory(
-        templateCustom.villages_discovered,
+      const markers = new Map(decisions.filter((d) => d.kept).map((d) => [d.value, d.marker]))
+      result[category] = generateCustomCategory(
+        templateCustom[category],
         tiers,
-        VILLAGES_TEMPLATE,
-        counts.villages,
-        'villages_discovered'
-      )
-    }
-  }
-  
-  // Generate regions_discovered if regions exist
-  if (counts.regions > 0 && templateCustom.regions_discovered) {
-    const tiers = calculateTiers(REGIONS_TEMPLATE, counts.regions)
-    if (tiers.length > 0) {
-      result.regions_discovered = generateCustomCategory(
-        templateCustom.regions_discovered,
-        tiers,
-        REGIONS_TEMPLATE,
-        counts.regions,
-        'regions_discovered'
-      )
-    }
-  }
-  
-  // Generate hearts_discovered if hearts exist
-  if (counts.hearts > 0 && templateCustom.hearts_discovered) {
-    const tiers = calculateTiers(HEARTS_TEMPLATE, counts.hearts)
-    if (tiers.length > 0) {
-      result.hearts_discovered = generateCustomCategory(
-        templateCustom.hearts_discovered,
-        tiers,
-        HEARTS_TEMPLATE,
-        counts.hearts,
-        'hearts_discovered'
-      )
-    }
-  }
-
-  if (counts.nerves > 0 && templateCustom.nerves_discovered) {
-    const tiers = calculateTiers(NERVES_TEMPLATE, counts.nerves)
-    if (tiers.length > 0) {
-      result.nerves_discovered = generateCustomCategory(
-        templateCustom.nerves_discovered,
-        tiers,
-        NERVES_TEMPLATE,
-        counts.nerves,
-        'nerves_discovered'
-      )
-    }
-  }
-
-  // Generate nether_regions_discovered if nether regions exist
-  if (counts.netherRegions > 0 && templateCustom.nether_regions_discovered) {
-    const tiers = calculateTiers(NETHER_REGIONS_TEMPLATE, counts.netherRegions, {
-      halfRounding: 'ceil',
-      preserveFixedTiers: [1],
-    })
-    if (tiers.length > 0) {
-      result.nether_regions_discovered = generateCustomCategory(
-        templateCustom.nether_regions_discovered,
-        tiers,
-        NETHER_REGIONS_TEMPLATE,
-        counts.netherRegions,
-        'nether_regions_discovered',
-        { halfRounding: 'ceil' }
-      )
-    }
-  }
-
-  // Generate nether_hearts_discovered if nether hearts exist
-  if (counts.netherHearts > 0 && templateCustom.nether_hearts_discovered) {
-    const tiers = calculateTiers(NETHER_HEARTS_TEMPLATE, counts.netherHearts, {
-      halfRounding: 'ceil',
-      preserveFixedTiers: [1],
-    })
-    if (tiers.length > 0) {
-      result.nether_hearts_discovered = generateCustomCategory(
-        templateCustom.nether_hearts_discovered,
-        tiers,
-        NETHER_HEARTS_TEMPLATE,
-        counts.netherHearts,
-        'nether_hearts_discovered',
-        { halfRounding: 'ceil' }
+        markers,
+        total,
+        category,
+        options
       )
     }
   }
 
   if (explorationTotal > 0 && templateCustom.total_discovered != null) {
-    const td = generateTotalDiscoveredCustom(explorationTotal, serverName)
+    const td = generateTotalDiscoveredCustom(explorationTotal, serverName, economy.totalDiscoveredTiers)
     if (td) {
       result.total_discovered = td
     }
@@ -1058,14 +786,18 @@ export function generateAACustom(
 
   const structureSitesTotal = countStructureSites(regions)
   if (structureSitesTotal > 0 && templateCustom.structures_found) {
-    const sf = generateStructuresFoundCustom(templateCustom.structures_found, structureSitesTotal)
+    const sf = generateStructuresFoundCustom(
+      templateCustom.structures_found,
+      structureSitesTotal,
+      economy.structuresFoundClaimBlocks
+    )
     if (sf) {
       result.structures_found = sf
     }
   }
 
   if (structureFamilies && Object.keys(structureFamilies).length > 0) {
-    const byType = countStructureTotalsByType(regions)
+    const byType = countStructuresByType(regions)
     for (const structureType of Object.keys(byType).sort()) {
       const n = byType[structureType]
       if (n <= 0) continue
@@ -1073,8 +805,8 @@ export function generateAACustom(
       if (!fam?.counter || !fam.label) continue
       const { counter, label } = fam
       const singularLabel = structureTypeToSingularTitle(structureType)
-      const setXp = calculateStructureSetXP(structureType, n)
-      const setClaimBlocks = calculateStructureSetClaimBlocks(structureType, n)
+      const setXp = calculateStructureSetXP(economy, structureType, n)
+      const setClaimBlocks = calculateStructureSetClaimBlocks(economy, structureType, n)
       const structureEntry: Record<string, unknown> = {
         Message: `All ${label} Found!`,
         Name: `${counter}_${n}`,
@@ -1096,6 +828,33 @@ export function generateAACustom(
   return result
 }
 
+/**
+ * Build report warnings: every tier marker dropped by the collision rules, and total_discovered
+ * milestones that moved or were skipped, for the categories the template defines.
+ */
+export function aaTierCollisionWarnings(
+  regions: RegionRecord[],
+  templateConfig: any,
+  economy: RewardEconomy = DEFAULT_REWARD_ECONOMY
+): string[] {
+  const templateCustom = templateConfig?.Custom || {}
+  const totals = countTierCategoryTotals(regions)
+  const warnings: string[] = []
+  for (const { category, options } of REWARD_TIER_CATEGORIES) {
+    const total = totals[category]
+    if (total <= 0 || !templateCustom[category]) continue
+    const { decisions } = explainTiers({ tiers: economy.tierTemplates[category] }, total, options, economy.tierCollision)
+    for (const decision of decisions) {
+      if (!decision.kept) warnings.push(`AA ${category}: ${describeTierDecision(decision)}`)
+    }
+  }
+  if (templateCustom.total_discovered != null) {
+    const { notes } = explainTotalDiscoveredGoals(economy.totalDiscoveredTiers, computeRegionCounts(regions).total)
+    for (const note of notes) warnings.push(`AA total_discovered: ${note}`)
+  }
+  return warnings
+}
+
 /**
  * Merge AA Commands and Custom sections into existing AA config
  * Replaces Commands section entirely and merges Custom section (owned categories only)
@@ -1108,7 +867,7 @@ export function mergeAAConfig(
   // Read existing config
   const fs = require('fs')
   const content = fs.readFileSync(existingConfigPath, 'utf-8')
-  const config = yaml.parse(content)
+  const config = stripOwnedForMerge(AA_OWNERSHIP, yaml.parse(content))
   
   // Replace Commands section
   config.Commands = newCommands
@@ -1119,13 +878,14 @@ export function mergeAAConfig(
       config.Custom = {}
     }
     for (const category of Object.keys(newCustom).sort()) {
+      assertOwnedKey(AA_OWNERSHIP, ['Custom', category])
       config.Custom[category] = newCustom[category]
     }
   }
   appendLegendAlertsInCustom(config.Custom)
   
   const { YAML_STRINGIFY_OPTIONS } = require('./utils/yamlOptions')
-  return yaml.stringify(config, YAML_STRINGIFY_OPTIONS)
+  return patchYamlSource(content, config, YAML_STRINGIFY_OPTIONS)
 }
 
 // Export tier calculation and command ID for testing and ceGenerator
@@ -1136,12 +896,15 @@ export {
   HEARTS_TEMPLATE,
   NETHER_REGIONS_TEMPLATE,
   NETHER_HEARTS_TEMPLATE,
+  END_REGIONS_TEMPLATE,
+  END_HEARTS_TEMPLATE,
   generateCommandId,
 }
 
 module.exports = {
   generateAACommands,
   generateAACustom,
+  aaTierCollisionWarnings,
   generateTotalDiscoveredCustom,
   mergeAAConfig,
   generateCommandId,
@@ -1152,6 +915,8 @@ module.exports = {
   HEARTS_TEMPLATE,
   NETHER_REGIONS_TEMPLATE,
   NETHER_HEARTS_TEMPLATE,
+  END_REGIONS_TEMPLATE,
+  END_HEARTS_TEMPLATE,
   structureTypeToSingularTitle,
   rewardDisplayFromCeExecuteLine,
 }
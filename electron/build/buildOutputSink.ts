@@ -0,0 +1,53 @@
+/**
+ * Destination for every file a build emits. The disk sink writes (creating parent folders);
+ * the recording sink keeps output-folder files in memory for dry-run previews.
+ */
+const fs = require('fs')
+const path = require('path')
+
+import type { GeneratorVersionKey } from '../types'
+
+/** `output` = the chosen output / plugins folder; `build` = the saved copy under builds/<buildId>/. */
+export type BuildOutputTarget = 'output' | 'build'
+
+export interface BuildOutputSink {
+  writeText(plugin: GeneratorVersionKey, target: BuildOutputTarget, filePath: string, content: string): void
+  /** Byte-for-byte copy (binary bundles such as the LuckPerms .gz export). */
+  copyFile(plugin: GeneratorVersionKey, target: BuildOutputTarget, sourcePath: string, filePath: string): void
+}
+
+export interface RecordedBuildOutput {
+  plugin: GeneratorVersionKey
+  filePath: string
+  /** Text content; absent for binary copies. */
+  content?: string
+  /** Source of a binary copy. */
+  sourcePath?: string
+}
+
+export function createDiskOutputSink(): BuildOutputSink {
+  return {
+    writeText(_plugin, _target, filePath, content) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, content, 'utf-8')
+    },
+    copyFile(_plugin, _target, sourcePath, filePath) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.copyFileSync(sourcePath, filePath)
+    },
+  }
+}
+
+/** Records output-folder files only; build copies are dropped (nothing touches disk). */
+export function createRecordingOutputSink(): BuildOutputSink & { outputs: RecordedBuildOutput[] } {
+  const outputs: RecordedBuildOutput[] = []
+  return {
+    outputs,
+    writeText(plugin, target, filePath, content) {
+      if (target === 'output') outputs.push({ plugin, filePath, content })
+    },
+    copyFile(plugin, target, sourcePath, filePath) {
+      if (target === 'output') outputs.push({ plugin, filePath, sourcePath })
+    },
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { ServerProfile } from '../types'
+import { setDataDirectory } from '../storage'
+import { collectViolations } from '../diffValidator'
+import { createRecordingOutputSink } from './buildOutputSink'
+import type { TemplateGeneratorSpec } from './buildPluginConfig'
+import { runPluginBuild } from './buildPluginConfig'
+
+const driftingSpec: TemplateGeneratorSpec = {
+  id: 'tab',
+  generate: () => ({ content: 'kept: 2\n' }),
+  validate: () => ({
+    valid: false,
+    error: 'Non-owned sections changed in TAB config',
+    violations: collectViolations({ kept: 1 }, { kept: 2 }),
+  }),
+}
+
+const profile = { id: 's1', name: 'S1' } as ServerProfile
+const tabPath = join(process.cwd(), 'reference', 'plugin config files', 'to be bundled', 'tab-config.yml')
+const context = { serverId: 's1', buildId: 'build-1', serverNameSanitized: 's1', propagate: false }
+
+describe('runPluginBuild diff gate', () => {
+  let dataDir: string
+  beforeAll(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'plugin-build-'))
+    setDataDirectory(dataDir)
+  })
+  afterAll(() => {
+    setDataDirectory(null)
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('fails with a fingerprinted violation report and writes nothing', () => {
+    const sink = createRecordingOutputSink()
+    const result = runPluginBuild(driftingSpec, profile, { outDir: '/out', tabPath }, { ...context, sink })
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.diffGate?.violations).toEqual([
+      { path: ['kept'], kind: 'changed', before: 1, after: 2, coveringRule: 'kept' },
+    ])
+    expect(result.diffGate?.fingerprint).toMatch(/^[0-9a-f]{12}$/)
+    expect(sink.outputs).toEqual([])
+  })
+
+  it('builds once the matching fingerprint is accepted, and only that one', () => {
+    const failed = runPluginBuild(driftingSpec, profile, { outDir: '/out', tabPath }, context)
+    if (failed.success || !failed.diffGate) throw new Error('expected a diff-gate failure')
+    const { fingerprint } = failed.diffGate
+
+    const staleInputs = { outDir: '/out', tabPath, acceptDrift: { tab: 'abc' } }
+    const stale = runPluginBuild(driftingSpec, profile, staleInputs, context)
+    expect(stale.success).toBe(false)
+
+    const sink = createRecordingOutputSink()
+    const accepted = runPluginBuild(
+      driftingSpec,
+      profile,
+      { outDir: '/out', tabPath, acceptDrift: { tab: fingerprint } },
+      { ...context, sink }
+    )
+    expect(accepted.success).toBe(true)
+    if (!accepted.success) return
+    expect(accepted.acceptedDrift).toEqual(failed.diffGate)
+    expect(sink.outputs).toHaveLength(1)
+  })
+})
@@ -1,71 +1,51 @@
 /**
- * Build plugin config: generate content for each plugin type and optionally run validation + write.
- * Used by the build-configs IPC handler to avoid repeated per-plugin blocks.
+ * Template-merge generators (AA, CE, TAB, LM, LM CustomDrops, MyCommand, CommandWhitelist):
+ * resolve the template, merge the owned sections in, run the diff gate and write the output.
+ * Each plugin's generate / validate functions live in its module under ./generators.
  */
-const fs = require('fs')
 const path = require('path')
-const yaml = require('yaml')
-const {
+const { readFileSync } = require('fs')
+import {
   resolveConfigPath,
   getPluginOutputPaths,
-  getCEEventFragmentPropagatedRelativePath,
-  getCEEventFragmentFlatName,
-} = require('../utils/configPathResolver')
-const { ensureBuildDirectory } = require('../storage')
-const { generateAACommands, generateAACustom, mergeAAConfig } = require('../aaGenerator')
-const {
-  generateOwnedCEEvents,
-  buildCEConfigBundle,
-  getStartRegionAachId,
-  CE_EVENT_FRAGMENT_BASENAMES,
-} = require('../ceGenerator')
-const { generateOwnedTABSections, mergeTABConfig } = require('../tabGenerator')
-const { generateOwnedLMRules, mergeLMConfig } = require('../lmGenerator')
-const { resolveDropTablesForServer, allLibraryTableNames } = require('../dropTableResolve')
-const { loadBundledItemIndex } = require('../itemIndex')
-const {
-  generateOwnedLMCustomDropTables,
-  mergeLMCustomDropsConfig,
-} = require('../lmCustomDropsGenerator')
-const { generateMCConfig } = require('../mcGenerator')
-const { generateCWConfig } = require('../cwGenerator')
-const {
-  validateAADiff,
-  validateCEDiff,
-  validateTABDiff,
-  validateLMDiff,
-  validateLMCustomDropsDiff,
-} = require('../diffValidator')
-const { prependGeneratorVersionHeader } = require('../utils/generatorVersionHeader')
+  getPluginFlatSuffix,
+  PLUGIN_OUTPUT_RELATIVE,
+} from '../utils/configPathResolver'
+import { getBuildDirectory } from '../storage'
+import { diffGateFingerprint } from '../diffValidator'
+import type { DiffValidationResult } from '../diffValidator'
+import { prependGeneratorVersionHeader } from '../utils/generatorVersionHeader'
+import { hashTemplateContent, resolvePinnedTemplate } from '../templateLibrary'
 
-import type { PluginType, ServerProfile, BuildTarget } from '../types'
-import { resolveConfigServerName } from '../shared/resolveConfigServerName'
+import type {
+  PluginType,
+  ServerProfile,
+  BuildTarget,
+  ConfigSource,
+  DiffGateReport,
+  GeneratorVersionKey,
+} from '../types'
+import type { GeneratorToggleKey, GeneratorPathKey } from '../shared/generatorCatalog'
+import { getGeneratorDescriptor } from '../shared/generatorCatalog'
+import type { PmGeneratedEntry } from '../utils/pmGeneratedPaths'
+import type { EmittedFile, GeneratorEmitResult, GeneratorModule } from './generatorModule'
+import { mapFixedBuildFiles } from './generatorModule'
+import type { BuildOutputSink } from './buildOutputSink'
+import { createDiskOutputSink } from './buildOutputSink'
 
-export interface BuildInputs {
-  generateAA?: boolean
-  generateCE?: boolean
-  generateTAB?: boolean
-  generateLM?: boolean
-  generateLMCustomDrops?: boolean
-  generateMC?: boolean
-  generateCW?: boolean
-  aaPath?: string
-  cePath?: string
-  tabPath?: string
-  lmPath?: string
-  lmCustomDropsPath?: string
-  mcPath?: string
+/** Generator toggles and template / source paths, plus the options every build shares. */
+export interface BuildInputs
+  extends Partial<Record<GeneratorToggleKey, boolean>>,
+    Partial<Record<GeneratorPathKey, string>> {
   mcTebexSubdomain?: string
-  cwPath?: string
   buildTarget?: BuildTarget
   outDir: string
   propagateToPluginFolders?: boolean
+  /** Diff-gate fingerprints accepted for this build only (plugin → fingerprint). */
+  acceptDrift?: Partial<Record<GeneratorVersionKey, string>>
 }
 
-export interface ConfigSource {
-  path: string
-  isDefault: boolean
-}
+export type { ConfigSource }
 
 export interface BuildPluginContext {
   serverId: string
@@ -82,13 +62,37 @@ export interface BuildPluginContext {
   buildNote?: string
   /** When true, header includes `emit=test`. */
   testEmit?: boolean
+  /** Where emitted files go; defaults to writing to disk. */
+  sink?: BuildOutputSink
+}
+
+/** Output of a template generator before the diff gate and header. */
+export interface GeneratedConfig {
+  content: string
+  warnings?: string[]
+  /** Extra files written next to the main config (`<server>-<suffix>` when flat). */
+  extraFiles?: Array<{ suffix: string; relativePath: string; content: string }>
+  /** Keys the generator owns this build, for generators whose owned set is data-driven. */
+  ownedKeys?: string[]
+}
+
+export interface TemplateGeneratorSpec {
+  id: PluginType
+  /** Merge the owned sections into the template at `configPath`. */
+  generate(profile: ServerProfile, inputs: BuildInputs, configPath: string): GeneratedConfig
+  /** Diff gate: everything outside the owned sections must match the template. Omit for whole-file generators. */
+  validate?(configPath: string, content: string, generated: GeneratedConfig): DiffValidationResult
+  /** Files beyond the main config for folder compare (e.g. CE event fragments). */
+  extraCompareEntries?(): PmGeneratedEntry[]
+  /** Files beyond the main config saved with each build, for mapping build files back to plugin paths. */
+  extraBuildFiles?(): EmittedFile[]
 }
 
 function isDefaultPath(userPath: string | undefined): boolean {
   return !userPath || userPath.trim().length === 0
 }
 
-function resolveDiscordInviteUrl(profile: ServerProfile): string {
+export function resolveDiscordInviteUrl(profile: ServerProfile): string {
   const target: BuildTarget = profile.build?.buildTarget === 'live' ? 'live' : 'next'
   return String(
     profile.discordSrvByTarget?.[target]?.discordInviteUrl ??
@@ -98,7 +102,7 @@ function resolveDiscordInviteUrl(profile: ServerProfile): string {
 }
 
 /** Region has lore book or description text. */
-function serverProfileHasLore(profile: ServerProfile): boolean {
+export function serverProfileHasLore(profile: ServerProfile): boolean {
   return (profile.regions || []).some(
     (r: { loreBookDescription?: string; description?: string }) =>
       Boolean((r.loreBookDescription ?? r.description)?.trim())
@@ -106,172 +110,67 @@ function serverProfileHasLore(profile: ServerProfile): boolean {
 }
 
 /**
- * Generate config content for a single plugin. Does not validate or write.
- * CE also returns `ceEventFragments` for `ConditionalEvents/events/*.yml`.
+ * Template for one plugin: an explicit path input wins, then the profile's template library pin
+ * for its build target, then the bundled default.
  */
-export function buildPluginContent(
-  type: PluginType,
+export function resolveTemplateSource(
+  spec: TemplateGeneratorSpec,
   profile: ServerProfile,
   inputs: BuildInputs
-): {
-  content: string
-  configPath: string
-  isDefault: boolean
-  ceEventFragments?: Record<string, string>
-  warnings?: string[]
-  ownedDropTables?: string[]
-} {
-  const pathInput = type === 'aa' ? inputs.aaPath
-    : type === 'ce' ? inputs.cePath
-    : type === 'tab' ? inputs.tabPath
-    : type === 'lm' ? inputs.lmPath
-    : type === 'lmcd' ? inputs.lmCustomDropsPath
-    : type === 'mc' ? inputs.mcPath
-    : inputs.cwPath
-  const configPath = resolveConfigPath(type, pathInput)
-  const isDefault = isDefaultPath(pathInput)
-  const configServerName = resolveConfigServerName(profile)
-
-  switch (type) {
-    case 'aa': {
-      const newCommands = generateAACommands(profile.regions)
-      const templateContent = fs.readFileSync(configPath, 'utf-8')
-      const templateConfig = yaml.parse(templateContent)
-      const newCustom = generateAACustom(
-        profile.regions,
-        templateConfig,
-        profile.regionsMeta?.structureFamilies,
-        configServerName
-      )
-      const content = mergeAAConfig(configPath, newCommands, newCustom)
-      return { content, configPath, isDefault }
-    }
-    case 'ce': {
-      const ownedEvents = generateOwnedCEEvents(
-        profile.regions,
-        profile.onboarding,
-        profile.regionsMeta?.levelledMobs?.regionBands,
-        profile.regionsMeta?.structureFamilies
-      )
-      const bundle = buildCEConfigBundle(configPath, ownedEvents, profile.regions || [])
-      let content = bundle.mainYaml
-      const ceEventFragments: Record<string, string> = {}
-      const startAach = getStartRegionAachId(profile.onboarding, profile.regions)
-      for (const basename of CE_EVENT_FRAGMENT_BASENAMES) {
-        let body = bundle.eventFragmentYamls[basename]
-        body = body.replace(/\{SERVER_NAME\}/g, configServerName)
-        body = body.replace(/\{START_REGION_AACH\}/g, startAach)
-        ceEventFragments[basename] = body
-      }
-      content = content.replace(/\{SERVER_NAME\}/g, configServerName)
-      content = content.replace(/\{START_REGION_AACH\}/g, startAach)
-      return { content, configPath, isDefault, ceEventFragments }
-    }
-    case 'tab': {
-      const discordInvite = resolveDiscordInviteUrl(profile)
-      const ownedTABSections = generateOwnedTABSections(
-        profile.regions,
-        configServerName,
-        profile.regionsMeta?.levelledMobs?.regionBands,
-        discordInvite,
-        profile.regionsMeta?.structureFamilies
-      )
-      const content = mergeTABConfig(configPath, ownedTABSections)
-      return { content, configPath, isDefault }
-    }
-    case 'lm': {
-      const ownedLMRules = generateOwnedLMRules(profile.regions, profile.regionsMeta?.levelledMobs)
-      const content = mergeLMConfig(configPath, ownedLMRules)
-      return {
-        content,
-        configPath,
-        isDefault,
-      }
-    }
-    case 'mc': {
-      const hasLore = serverProfileHasLore(profile)
-      const content = generateMCConfig(
-        configPath,
-        configServerName,
-        String(inputs.mcTebexSubdomain ?? profile.build?.mcTebexSubdomain ?? ''),
-        profile.regions || [],
-        hasLore
-      )
-      return { content, configPath, isDefault }
-    }
-    case 'lmcd': {
-      const { warnings: indexWarnings } = loadBundledItemIndex()
-      const { resolved, warnings: resolveWarnings } = resolveDropTablesForServer(profile)
-      const generated = generateOwnedLMCustomDropTables(resolved)
-      const ownedDropTables = allLibraryTableNames()
-      const content = mergeLMCustomDropsConfig(configPath, generated, ownedDropTables)
-      return {
-        content,
-        configPath,
-        isDefault,
-        warnings: [...indexWarnings, ...resolveWarnings, ...generated.warnings],
-        ownedDropTables,
-      }
-    }
-    case 'cw': {
-      const discordInvite = resolveDiscordInviteUrl(profile)
-      const hasLore = serverProfileHasLore(profile)
-      const content = generateCWConfig(configPath, discordInvite, hasLore)
-      return { content, configPath, isDefault }
-    }
-    default: {
-      const _: never = type
-      throw new Error(`Unknown plugin type: ${type}`)
-    }
+): ConfigSource {
+  const { pathKey } = getGeneratorDescriptor(spec.id)
+  const pathInput = pathKey ? inputs[pathKey] : undefined
+  const pinned = isDefaultPath(pathInput) ? resolvePinnedTemplate(profile, spec.id) : null
+  const configPath = pinned ? pinned.path : resolveConfigPath(spec.id, pathInput)
+  return {
+    path: configPath,
+    isDefault: isDefaultPath(pathInput) && !pinned,
+    sha256: hashTemplateContent(readFileSync(configPath, 'utf-8')),
+    ...(pinned ? { template: { id: pinned.entry.id, name: pinned.entry.name, version: pinned.version.version } } : {}),
   }
 }
 
-function validatePluginDiff(
-  type: PluginType,
-  configPath: string,
-  content: string,
-  ownedDropTables?: string[]
-): { valid: boolean; error?: string } {
-  switch (type) {
-    case 'aa':
-      return validateAADiff(configPath, content)
-    case 'ce':
-      return validateCEDiff(configPath, content)
-    case 'tab':
-      return validateTABDiff(configPath, content)
-    case 'lm':
-      return validateLMDiff(configPath, content)
-    case 'lmcd':
-      return validateLMCustomDropsDiff(configPath, content, ownedDropTables ?? [])
-    case 'mc':
-    case 'cw':
-      return { valid: true }
-    default: {
-      const _: never = type
-      return { valid: true }
-    }
-  }
+/** Generate config content for a single template plugin. Does not validate or write. */
+export function buildPluginContent(
+  spec: TemplateGeneratorSpec,
+  profile: ServerProfile,
+  inputs: BuildInputs
+): GeneratedConfig & { configPath: string; isDefault: boolean; source: ConfigSource } {
+  const source = resolveTemplateSource(spec, profile, inputs)
+  const { path: configPath, isDefault } = source
+  return { ...spec.generate(profile, inputs, configPath), configPath, isDefault, source }
 }
 
 /**
- * Generate content, validate diff, and write output for a single plugin.
- * Returns error message on failure; otherwise returns configSource.
+ * Generate content, validate diff, and write output for a single template plugin.
+ * Returns error message (and the gate's violations) on failure; otherwise returns configSource.
+ * Drift whose fingerprint is in `inputs.acceptDrift` passes and is returned as `acceptedDrift`.
  */
 export function runPluginBuild(
-  type: PluginType,
+  spec: TemplateGeneratorSpec,
   profile: ServerProfile,
   inputs: BuildInputs,
   context: BuildPluginContext
-): { success: true; configSource: ConfigSource; warnings: string[] } | { success: false; error: string } {
+): GeneratorEmitResult {
+  const type = spec.id
   try {
-    const { content, configPath, isDefault, ceEventFragments, warnings, ownedDropTables } = buildPluginContent(
-      type,
-      profile,
-      inputs
-    )
-    const validation = validatePluginDiff(type, configPath, content, ownedDropTables)
+    const generated = buildPluginContent(spec, profile, inputs)
+    const { content, configPath, isDefault } = generated
+    const validation: DiffValidationResult = spec.validate
+      ? spec.validate(configPath, content, generated)
+      : { valid: true }
+    let acceptedDrift: DiffGateReport | undefined
     if (!validation.valid) {
-      return { success: false, error: validation.error || `${type.toUpperCase()} diff validation failed` }
+      const error = validation.error || `${type.toUpperCase()} diff validation failed`
+      if (!validation.violations?.length) return { success: false, error }
+      const diffGate: DiffGateReport = {
+        plugin: type,
+        templatePath: configPath,
+        violations: validation.violations,
+        fingerprint: diffGateFingerprint(type, validation.violations),
+      }
+      if (inputs.acceptDrift?.[type] !== diffGate.fingerprint) return { success: false, error, diffGate }
+      acceptedDrift = diffGate
     }
     const nextRaw = context.nextGeneratorVersion
     const nextVersion =
@@ -286,7 +185,8 @@ export function runPluginBuild(
       testEmit: context.testEmit,
     }
     const contentToWrite = prependGeneratorVersionHeader(content, headerArgs)
-    const buildDir = ensureBuildDirectory(context.serverId, context.buildId)
+    const sink = context.sink ?? createDiskOutputSink()
+    const buildDir = getBuildDirectory(context.serverId, context.buildId)
     const { outputPath, buildPath } = getPluginOutputPaths(
       type,
       inputs.outDir,
@@ -294,34 +194,59 @@ export function runPluginBuild(
       context.serverNameSanitized,
       context.propagate
     )
-    if (context.propagate) {
-      fs.mkdirSync(path.dirname(outputPath), { recursive: true })
-    }
-    fs.writeFileSync(outputPath, contentToWrite, 'utf-8')
-    fs.writeFileSync(buildPath, contentToWrite, 'utf-8')
+    sink.writeText(type, 'output', outputPath, contentToWrite)
+    sink.writeText(type, 'build', buildPath, contentToWrite)
 
-    if (type === 'ce' && ceEventFragments) {
-      const sn = context.serverNameSanitized
-      for (const basename of CE_EVENT_FRAGMENT_BASENAMES) {
-        const fragBody = ceEventFragments[basename]
-        const fragToWrite = prependGeneratorVersionHeader(fragBody, headerArgs)
-        const fragBuildPath = path.join(buildDir, getCEEventFragmentFlatName(sn, basename))
-        const fragOutputPath = context.propagate
-          ? path.join(inputs.outDir, getCEEventFragmentPropagatedRelativePath(basename))
-          : path.join(inputs.outDir, getCEEventFragmentFlatName(sn, basename))
-        fs.mkdirSync(path.dirname(fragOutputPath), { recursive: true })
-        fs.writeFileSync(fragOutputPath, fragToWrite, 'utf-8')
-        fs.writeFileSync(fragBuildPath, fragToWrite, 'utf-8')
-      }
+    for (const extra of generated.extraFiles ?? []) {
+      const extraToWrite = prependGeneratorVersionHeader(extra.content, headerArgs)
+      const flatName = `${context.serverNameSanitized}-${extra.suffix}`
+      const extraOutputPath = context.propagate
+        ? path.join(inputs.outDir, extra.relativePath)
+        : path.join(inputs.outDir, flatName)
+      sink.writeText(type, 'output', extraOutputPath, extraToWrite)
+      sink.writeText(type, 'build', path.join(buildDir, flatName), extraToWrite)
     }
 
     return {
       success: true,
-      configSource: { path: configPath, isDefault },
-      warnings: warnings ?? [],
+      configSource: generated.source,
+      warnings: generated.warnings ?? [],
+      ...(acceptedDrift ? { acceptedDrift } : {}),
     }
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err)
     return { success: false, error: message }
   }
 }
+
+/** Registry module for a template plugin: emit runs the template pipeline above. */
+export function templateGenerator(spec: TemplateGeneratorSpec): GeneratorModule {
+  return {
+    id: spec.id,
+    emit: (ctx) =>
+      runPluginBuild(spec, ctx.profile, ctx.inputs, {
+        serverId: ctx.serverId,
+        buildId: ctx.buildId,
+        serverNameSanitized: ctx.serverNameSanitized,
+        propagate: ctx.propagate,
+        profileId: ctx.serverId,
+        generatedAt: ctx.generatedAt,
+        nextGeneratorVersion: ctx.nextGeneratorVersion,
+        buildNote: ctx.buildNote,
+        testEmit: ctx.testEmit,
+        sink: ctx.sink,
+      }),
+    compareEntries: () => {
+      const { label } = getGeneratorDescriptor(spec.id)
+      return [
+        { id: spec.id, label, relativePath: PLUGIN_OUTPUT_RELATIVE[spec.id] },
+        ...(spec.extraCompareEntries?.() ?? []),
+      ]
+    },
+    mapBuildFile: (flatSuffix) =>
+      mapFixedBuildFiles([
+        { flatSuffix: getPluginFlatSuffix(spec.id), relativePath: PLUGIN_OUTPUT_RELATIVE[spec.id] },
+        ...(spec.extraBuildFiles?.() ?? []),
+      ])(flatSuffix),
+  }
+}
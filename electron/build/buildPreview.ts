@@ -0,0 +1,46 @@
+/**
+ * Dry-run build preview: run the selected generators in memory and diff each emitted file
+ * against what currently sits in the output / plugins folder.
+ */
+import type { BuildPreviewResult } from '../types'
+import { createRecordingOutputSink } from './buildOutputSink'
+import { diffRecordedOutputs } from './buildPreviewDiff'
+import type { BuildRequestInputs } from './runBuild'
+import { executeBuild } from './runBuild'
+
+export function previewBuild(serverId: string, inputs: BuildRequestInputs): BuildPreviewResult {
+  const sink = createRecordingOutputSink()
+  const outcome = executeBuild(serverId, inputs, { sink, dryRun: true })
+  if (!outcome.success) {
+    return {
+      success: false,
+      error: outcome.error,
+      ...(outcome.diffGate ? { diffGate: outcome.diffGate } : {}),
+      files: [],
+      warnings: [],
+      summary: { added: 0, changed: 0, unchanged: 0 },
+    }
+  }
+  try {
+    const files = diffRecordedOutputs(sink.outputs, inputs.outDir)
+    return {
+      success: true,
+      files,
+      warnings: outcome.report?.warnings ?? [],
+      summary: {
+        added: files.filter((f) => f.status === 'added').length,
+        changed: files.filter((f) => f.status === 'changed').length,
+        unchanged: files.filter((f) => f.status === 'unchanged').length,
+      },
+    }
+  } catch (error: unknown) {
+    const err = error as Error
+    return {
+      success: false,
+      error: err.message || 'Failed to compare preview with output folder',
+      files: [],
+      warnings: [],
+      summary: { added: 0, changed: 0, unchanged: 0 },
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { mkdtempSync, writeFileSync, rmSync, mkdirSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { describe, it, expect } from 'vitest'
+import { diffRecordedOutputs } from './buildPreviewDiff'
+import { createRecordingOutputSink } from './buildOutputSink'
+
+describe('createRecordingOutputSink', () => {
+  it('records output-folder files and drops build copies', () => {
+    const sink = createRecordingOutputSink()
+    sink.writeText('aa', 'output', '/out/a.yml', 'a: 1\n')
+    sink.writeText('aa', 'build', '/builds/x/a.yml', 'a: 1\n')
+    sink.copyFile('luckperms', 'output', '/src/lp.json.gz', '/out/lp.json.gz')
+    expect(sink.outputs).toEqual([
+      { plugin: 'aa', filePath: '/out/a.yml', content: 'a: 1\n' },
+      { plugin: 'luckperms', filePath: '/out/lp.json.gz', sourcePath: '/src/lp.json.gz' },
+    ])
+  })
+})
+
+describe('diffRecordedOutputs', () => {
+  it('classifies added, changed and unchanged files', () => {
+    const outDir = mkdtempSync(join(tmpdir(), 'build-preview-'))
+    try {
+      mkdirSync(join(outDir, 'TAB'))
+      writeFileSync(join(outDir, 'TAB', 'config.yml'), '# mc-plugin-manager: tab v1\nheader: old\n', 'utf-8')
+      writeFileSync(join(outDir, 'rules.yml'), '# mc-plugin-manager: lm v3\nrules: []\n', 'utf-8')
+
+      const files = diffRecordedOutputs(
+        [
+          { plugin: 'aa', filePath: join(outDir, 'aa.yml'), content: 'a: 1\n' },
+          {
+            plugin: 'tab',
+            filePath: join(outDir, 'TAB', 'config.yml'),
+            content: '# mc-plugin-manager: tab v2\nheader: new\n',
+          },
+          { plugin: 'lm', filePath: join(outDir, 'rules.yml'), content: '# mc-plugin-manager: lm v4\nrules: []\n' },
+        ],
+        outDir
+      )
+
+      expect(files.map((f) => [f.relativePath, f.status])).toEqual([
+        ['aa.yml', 'added'],
+        ['TAB/config.yml', 'changed'],
+        ['rules.yml', 'unchanged'],
+      ])
+      expect(files[1].unifiedDiff).toContain('-header: old')
+      expect(files[1].unifiedDiff).toContain('+header: new')
+      expect(files[2].unifiedDiff).toBeUndefined()
+    } finally {
+      rmSync(outDir, { recursive: true, force: true })
+    }
+  })
+
+  it('compares binary copies byte for byte', () => {
+    const outDir = mkdtempSync(join(tmpdir(), 'build-preview-'))
+    try {
+      const source = join(outDir, 'source.gz')
+      writeFileSync(source, Buffer.from([1, 2, 3]))
+      writeFileSync(join(outDir, 'same.gz'), Buffer.from([1, 2, 3]))
+      writeFileSync(join(outDir, 'other.gz'), Buffer.from([9]))
+
+      const files = diffRecordedOutputs(
+        [
+          { plugin: 'luckperms', filePath: join(outDir, 'same.gz'), sourcePath: source },
+          { plugin: 'luckperms', filePath: join(outDir, 'other.gz'), sourcePath: source },
+          { plugin: 'luckperms', filePath: join(outDir, 'new.gz'), sourcePath: source },
+        ],
+        outDir
+      )
+      expect(files.map((f) => f.status)).toEqual(['unchanged', 'changed', 'added'])
+      expect(files.every((f) => f.binary && !f.unifiedDiff)).toBe(true)
+    } finally {
+      rmSync(outDir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * Per-file comparison of a dry-run build's recorded outputs with the output / plugins folder,
+ * using the same normalization and unified-diff format as the plugin folder compare.
+ */
+const path = require('path')
+const { existsSync, readFileSync } = require('fs')
+const { createTwoFilesPatch } = require('diff')
+
+import type { BuildPreviewFile } from '../types'
+import type { RecordedBuildOutput } from './buildOutputSink'
+import { normalizeForCompare } from '../utils/comparePmPluginFolders'
+
+function toDisplayRelative(outDir: string, filePath: string): string {
+  return path.relative(outDir, filePath).replace(/\\/g, '/')
+}
+
+/** Compare recorded outputs with the files on disk (generator header lines ignored). */
+export function diffRecordedOutputs(outputs: RecordedBuildOutput[], outDir: string): BuildPreviewFile[] {
+  const files: BuildPreviewFile[] = []
+  for (const out of outputs) {
+    const relativePath = toDisplayRelative(outDir, out.filePath)
+    const exists = existsSync(out.filePath)
+    const base = { plugin: out.plugin, outputPath: out.filePath, relativePath }
+
+    if (out.content === undefined) {
+      const same =
+        exists &&
+        out.sourcePath !== undefined &&
+        Buffer.compare(readFileSync(out.sourcePath), readFileSync(out.filePath)) === 0
+      files.push({ ...base, binary: true, status: !exists ? 'added' : same ? 'unchanged' : 'changed' })
+      continue
+    }
+
+    const next = normalizeForCompare(out.content)
+    const current = exists ? normalizeForCompare(readFileSync(out.filePath, 'utf-8')) : ''
+    if (exists && current === next) {
+      files.push({ ...base, status: 'unchanged' })
+      continue
+    }
+    files.push({
+      ...base,
+      status: exists ? 'changed' : 'added',
+      unifiedDiff: createTwoFilesPatch(relativePath, relativePath, current, next, 'Current', 'Generated'),
+    })
+  }
+  return files
+}
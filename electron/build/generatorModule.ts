@@ -0,0 +1,118 @@
+/**
+ * Contract between runBuild and one plugin generator, plus the emit helpers every generator
+ * shares (header stamping per the catalog's header mode, output + build-copy writes).
+ */
+const path = require('path')
+import {
+  prependGeneratorVersionHeader,
+  stripGeneratorVersionCommentLines,
+} from '../utils/generatorVersionHeader'
+
+import type { BuildTarget, DiffGateReport, GeneratorVersionKey, ServerProfile } from '../types'
+import type { BuildOutputSink } from './buildOutputSink'
+import type { ConfigSource } from './buildPluginConfig'
+import type { BuildRequestInputs } from './runBuild'
+import type { PmGeneratedEntry } from '../utils/pmGeneratedPaths'
+import type { BuildFileMappingContext } from '../utils/buildFileMapping'
+import { getGeneratorDescriptor } from '../shared/generatorCatalog'
+
+export interface GeneratorEmitContext {
+  /** Loaded profile; generators may record the inputs they used (saved after a real build). */
+  profile: ServerProfile
+  inputs: BuildRequestInputs
+  serverId: string
+  buildId: string
+  /** builds/<buildId>/ — saved copies use flat names here. */
+  buildDir: string
+  buildTarget: BuildTarget
+  configServerName: string
+  serverNameSanitized: string
+  propagate: boolean
+  nextGeneratorVersion: number
+  generatedAt: string
+  buildNote?: string
+  testEmit: boolean
+  sink: BuildOutputSink
+}
+
+export type GeneratorEmitResult =
+  | { success: true; configSource: ConfigSource; warnings?: string[]; acceptedDrift?: DiffGateReport }
+  | { success: false; error: string; diffGate?: DiffGateReport }
+
+export interface GeneratorModule {
+  id: GeneratorVersionKey
+  /** Generate and write every file for this plugin; validation failures return an error. */
+  emit(ctx: GeneratorEmitContext): GeneratorEmitResult
+  /** Propagated files this plugin owns, for folder compare. Throws when a bundle cannot be listed. */
+  compareEntries(): PmGeneratedEntry[]
+  /**
+   * Propagated path of a file this plugin saves under builds/<buildId>/, given its name after
+   * `<server>-`; null when the file is not one of this plugin's. Drives build restore and drift check.
+   */
+  mapBuildFile(flatSuffix: string, ctx: BuildFileMappingContext): string | null
+}
+
+/** Where one emitted file lands: `relativePath` under the plugins root, `<server>-<flatSuffix>` otherwise. */
+export interface EmittedFile {
+  relativePath: string
+  flatSuffix: string
+}
+
+/** `mapBuildFile` for a plugin whose saved files are a fixed list. */
+export function mapFixedBuildFiles(files: EmittedFile[]): (flatSuffix: string) => string | null {
+  return (flatSuffix) => files.find((f) => f.flatSuffix === flatSuffix)?.relativePath ?? null
+}
+
+/** Header arguments for the generator's emitted files. */
+export function generatorHeaderArgs(id: GeneratorVersionKey, ctx: GeneratorEmitContext) {
+  return {
+    plugin: id,
+    profileId: ctx.serverId,
+    buildId: ctx.buildId,
+    nextVersion: ctx.nextGeneratorVersion,
+    generatedAt: ctx.generatedAt,
+    buildNote: ctx.buildNote,
+    testEmit: ctx.testEmit,
+  }
+}
+
+/** Apply the catalog header mode to one text file. */
+export function stampContent(id: GeneratorVersionKey, ctx: GeneratorEmitContext, content: string): string {
+  const { header } = getGeneratorDescriptor(id)
+  if (header === 'none') return content
+  const body = header === 'restamp' ? stripGeneratorVersionCommentLines(content) : content
+  return prependGeneratorVersionHeader(body, generatorHeaderArgs(id, ctx))
+}
+
+function flatNameFor(ctx: GeneratorEmitContext, file: EmittedFile): string {
+  return `${ctx.serverNameSanitized}-${file.flatSuffix}`
+}
+
+function outputPathFor(ctx: GeneratorEmitContext, file: EmittedFile): string {
+  return ctx.propagate
+    ? path.join(ctx.inputs.outDir, file.relativePath)
+    : path.join(ctx.inputs.outDir, flatNameFor(ctx, file))
+}
+
+/** Stamp text per the header mode, then write it to the output folder and the build copy. */
+export function emitText(
+  id: GeneratorVersionKey,
+  ctx: GeneratorEmitContext,
+  file: EmittedFile,
+  content: string
+): void {
+  const stamped = stampContent(id, ctx, content)
+  ctx.sink.writeText(id, 'output', outputPathFor(ctx, file), stamped)
+  ctx.sink.writeText(id, 'build', path.join(ctx.buildDir, flatNameFor(ctx, file)), stamped)
+}
+
+/** Copy a bundled file byte-for-byte to the output folder and the build copy. */
+export function emitCopy(
+  id: GeneratorVersionKey,
+  ctx: GeneratorEmitContext,
+  file: EmittedFile,
+  sourcePath: string
+): void {
+  ctx.sink.copyFile(id, 'output', sourcePath, outputPathFor(ctx, file))
+  ctx.sink.copyFile(id, 'build', sourcePath, path.join(ctx.buildDir, flatNameFor(ctx, file)))
+}
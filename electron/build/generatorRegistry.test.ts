@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { GENERATORS, getGeneratorDescriptor } from '../shared/generatorCatalog'
+import { PLUGIN_TYPES } from '../types'
+import { GENERATOR_MODULES } from './generatorRegistry'
+
+describe('generator registry', () => {
+  it('has exactly one module per catalog entry, with matching ids', () => {
+    expect(Object.keys(GENERATOR_MODULES).sort()).toEqual(GENERATORS.map((g) => g.id).sort())
+    for (const [id, module] of Object.entries(GENERATOR_MODULES)) {
+      expect(module.id).toBe(id)
+    }
+  })
+
+  it('uses unique build toggles and path inputs', () => {
+    const toggles = GENERATORS.map((g) => g.generateKey)
+    const paths = GENERATORS.flatMap((g) => (g.pathKey ? [g.pathKey] : []))
+    expect(new Set(toggles).size).toBe(toggles.length)
+    expect(new Set(paths).size).toBe(paths.length)
+  })
+
+  it('declares a template and output path for every template plugin', () => {
+    for (const type of PLUGIN_TYPES) {
+      const descriptor = getGeneratorDescriptor(type)
+      expect(descriptor.template).toMatch(/\.yml$/)
+      expect(descriptor.outputRelative).toBeTruthy()
+      expect(descriptor.pathKey).toBeTruthy()
+    }
+  })
+
+  it('lists CE event fragments alongside the main config for folder compare', () => {
+    const paths = GENERATOR_MODULES.ce.compareEntries().map((e) => e.relativePath.replace(/\\/g, '/'))
+    expect(paths[0]).toBe('ConditionalEvents/config.yml')
+    expect(paths.slice(1).every((p) => p.startsWith('ConditionalEvents/events/'))).toBe(true)
+    expect(paths.length).toBeGreaterThan(1)
+  })
+
+  it('throws for an unknown generator id', () => {
+    expect(() => getGeneratorDescriptor('nope' as never)).toThrow('Unknown generator: nope')
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Every plugin generator, keyed by generator id. Static metadata (labels, toggles, templates,
+ * output paths, ownership, header mode) lives in the shared generator catalog; this adds the
+ * main-process behaviour. Adding a plugin: a catalog entry, a module under ./generators and a
+ * line here.
+ */
+import type { GeneratorVersionKey } from '../types'
+import type { GeneratorEmitContext, GeneratorEmitResult, GeneratorModule } from './generatorModule'
+import { getGeneratorDescriptor } from '../shared/generatorCatalog'
+import { aaModule } from './generators/aa'
+import { ceModule } from './generators/ce'
+import { tabModule } from './generators/tab'
+import { lmModule } from './generators/lm'
+import { lmcdModule } from './generators/lmcd'
+import { mcModule } from './generators/mc'
+import { cwModule } from './generators/cw'
+import { discordsrvModule } from './generators/discordsrv'
+import { essentialsModule } from './generators/essentials'
+import { bookguiModule } from './generators/bookgui'
+import { griefpreventionModule } from './generators/griefprevention'
+import { crazycratesModule } from './generators/crazycrates'
+import { luckpermsModule } from './generators/luckperms'
+import { placeholderapiModule } from './generators/placeholderapi'
+import {
+  worldguardregionsModule,
+  worldguardregionsnetherModule,
+  worldguardregionsendModule,
+} from './generators/worldGuardRegions'
+import { webmapModule } from './generators/webmap'
+
+export const GENERATOR_MODULES: Record<GeneratorVersionKey, GeneratorModule> = {
+  aa: aaModule,
+  ce: ceModule,
+  tab: tabModule,
+  lm: lmModule,
+  lmcd: lmcdModule,
+  mc: mcModule,
+  cw: cwModule,
+  discordsrv: discordsrvModule,
+  essentials: essentialsModule,
+  bookgui: bookguiModule,
+  griefprevention: griefpreventionModule,
+  crazycrates: crazycratesModule,
+  luckperms: luckpermsModule,
+  placeholderapi: placeholderapiModule,
+  worldguardregions: worldguardregionsModule,
+  worldguardregionsnether: worldguardregionsnetherModule,
+  worldguardregionsend: worldguardregionsendModule,
+  webmap: webmapModule,
+}
+
+/** Run one generator; thrown errors (unreadable bundles, bad YAML) become a failed result. */
+export function runGenerator(id: GeneratorVersionKey, ctx: GeneratorEmitContext): GeneratorEmitResult {
+  try {
+    return GENERATOR_MODULES[id].emit(ctx)
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { success: false, error: message || `${getGeneratorDescriptor(id).label} generation failed` }
+  }
+}
@@ -0,0 +1,29 @@
+/** AdvancedAchievements: discovery commands and Custom tiers merged into config.yml. */
+const fs = require('fs')
+const yaml = require('yaml')
+import { generateAACommands, generateAACustom, aaTierCollisionWarnings, mergeAAConfig } from '../../aaGenerator'
+import { validateAADiff } from '../../diffValidator'
+
+import { resolveConfigServerName } from '../../shared/resolveConfigServerName'
+import { resolveRewardEconomy } from '../../shared/rewardEconomy'
+import { templateGenerator } from '../buildPluginConfig'
+
+export const aaModule = templateGenerator({
+  id: 'aa',
+  generate(profile, _inputs, configPath) {
+    const economy = resolveRewardEconomy(profile.rewardEconomy)
+    const newCommands = generateAACommands(profile.regions, economy)
+    const templateConfig = yaml.parse(fs.readFileSync(configPath, 'utf-8'))
+    const newCustom = generateAACustom(
+      profile.regions,
+      templateConfig,
+      profile.regionsMeta?.structureFamilies,
+      resolveConfigServerName(profile),
+      economy
+    )
+    const content = mergeAAConfig(configPath, newCommands, newCustom)
+    const warnings = aaTierCollisionWarnings(profile.regions, templateConfig, economy)
+    return { content, warnings }
+  },
+  validate: (configPath, content) => validateAADiff(configPath, content),
+})
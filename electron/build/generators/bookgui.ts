@@ -0,0 +1,41 @@
+/** BookGUI: bundled guide books with the server name filled in (output folder only, no build copy). */
+const fs = require('fs')
+const path = require('path')
+
+import { getGuideBooksSourceDir } from '../../utils/guideBooksDir'
+import { serverProfileHasLore } from '../buildPluginConfig'
+import type { GeneratorModule } from '../generatorModule'
+import { stampContent } from '../generatorModule'
+
+const BOOKS_DIR = path.join('BookGUI', 'books')
+const LORE_GUIDE = 'guide_lore.yml'
+
+function listGuideBooks(): string[] {
+  return fs.readdirSync(getGuideBooksSourceDir()).filter((f: string) => f.endsWith('.yml'))
+}
+
+export const bookguiModule: GeneratorModule = {
+  id: 'bookgui',
+  emit(ctx) {
+    const guideBooksDir = getGuideBooksSourceDir()
+    const hasLore = serverProfileHasLore(ctx.profile)
+    const booksToWrite = listGuideBooks().filter((f) => hasLore || f !== LORE_GUIDE)
+    for (const filename of booksToWrite) {
+      const content = fs.readFileSync(path.join(guideBooksDir, filename), 'utf-8')
+      const substituted = content.replace(/\{SERVER_NAME\}/g, ctx.configServerName)
+      const outputPath = path.join(ctx.inputs.outDir, BOOKS_DIR, filename)
+      ctx.sink.writeText('bookgui', 'output', outputPath, stampContent('bookgui', ctx, substituted))
+    }
+    return { success: true, configSource: { path: 'Bundled guide books', isDefault: true } }
+  },
+  compareEntries: () =>
+    listGuideBooks()
+      .sort()
+      .map((filename) => ({
+        id: `bookgui:${filename}`,
+        label: `BookGUI (${filename})`,
+        relativePath: path.join(BOOKS_DIR, filename),
+      })),
+  // Guide books go to the output folder only; builds keep no copy to map back.
+  mapBuildFile: () => null,
+}
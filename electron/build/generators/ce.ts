@@ -0,0 +1,54 @@
+/** ConditionalEvents: owned discovery / first-join events in config.yml plus the events/ fragments. */
+import {
+  generateOwnedCEEvents,
+  buildCEConfigBundle,
+  getStartRegionAachId,
+  CE_EVENT_FRAGMENT_BASENAMES,
+} from '../../ceGenerator'
+import { validateCEDiff } from '../../diffValidator'
+import { getCEEventFragmentPropagatedRelativePath } from '../../utils/configPathResolver'
+
+import { resolveConfigServerName } from '../../shared/resolveConfigServerName'
+import { resolveCeRecipes } from '../../shared/ceRecipes'
+import { resolveRegionRewardCrates } from '../../crateResolve'
+import { templateGenerator } from '../buildPluginConfig'
+
+const EVENT_FRAGMENT_FILES = CE_EVENT_FRAGMENT_BASENAMES.map((basename) => ({
+  basename,
+  flatSuffix: `ce-events-${basename}.yml`,
+  relativePath: getCEEventFragmentPropagatedRelativePath(basename),
+}))
+
+export const ceModule = templateGenerator({
+  id: 'ce',
+  generate(profile, _inputs, configPath) {
+    const configServerName = resolveConfigServerName(profile)
+    const { crateStems, warnings } = resolveRegionRewardCrates(profile)
+    const ownedEvents = generateOwnedCEEvents(
+      profile.regions,
+      profile.onboarding,
+      profile.regionsMeta?.levelledMobs?.regionBands,
+      profile.regionsMeta?.structureFamilies,
+      resolveCeRecipes(profile.ceRecipes),
+      crateStems
+    )
+    const bundle = buildCEConfigBundle(configPath, ownedEvents, profile.regions || [])
+    const startAach = getStartRegionAachId(profile.onboarding, profile.regions)
+    const substitute = (body: string) =>
+      body.replace(/\{SERVER_NAME\}/g, configServerName).replace(/\{START_REGION_AACH\}/g, startAach)
+    const extraFiles = EVENT_FRAGMENT_FILES.map((file) => ({
+      suffix: file.flatSuffix,
+      relativePath: file.relativePath,
+      content: substitute(bundle.eventFragmentYamls[file.basename]),
+    }))
+    return { content: substitute(bundle.mainYaml), warnings, extraFiles }
+  },
+  validate: (configPath, content) => validateCEDiff(configPath, content),
+  extraCompareEntries: () =>
+    EVENT_FRAGMENT_FILES.map((file) => ({
+      id: `ce-events-${file.basename}`,
+      label: `ConditionalEvents (events/${file.basename}.yml)`,
+      relativePath: file.relativePath,
+    })),
+  extraBuildFiles: () => EVENT_FRAGMENT_FILES,
+})
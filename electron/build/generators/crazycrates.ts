@@ -0,0 +1,76 @@
+/** CrazyCrates: bundled config.yml plus one crates/ file per crate resolved for the server. */
+const fs = require('fs')
+const path = require('path')
+
+import {
+  CRAZY_CRATES_MAIN_TEMPLATE,
+  CRAZY_CRATES_BUNDLED_CRATE_STEMS,
+  getCrazyCratesBundledTemplatePath,
+} from '../../utils/crazyCratesBundledConfig'
+import { resolveCrazyCratesForServer } from '../../crateResolve'
+import { buildCrateYamlFromTemplate } from '../../crateYamlFromTemplate'
+import { loadCrateLibrary } from '../../crateLibrary'
+import type { GeneratorModule } from '../generatorModule'
+import { emitText, mapFixedBuildFiles } from '../generatorModule'
+
+const CONFIG_FILE = { relativePath: path.join('CrazyCrates', 'config.yml'), flatSuffix: 'crazycrates-config.yml' }
+
+const CRATE_FLAT_SUFFIX = /^crazycrates-crate-(.+)\.yml$/
+
+function crateFile(stem: string) {
+  return {
+    relativePath: path.join('CrazyCrates', 'crates', `${stem}.yml`),
+    flatSuffix: `crazycrates-crate-${stem}.yml`,
+  }
+}
+
+export const crazycratesModule: GeneratorModule = {
+  id: 'crazycrates',
+  emit(ctx) {
+    const warnings: string[] = []
+    const mainRaw = fs.readFileSync(getCrazyCratesBundledTemplatePath(CRAZY_CRATES_MAIN_TEMPLATE), 'utf-8')
+    emitText('crazycrates', ctx, CONFIG_FILE, mainRaw)
+
+    const { crates: resolvedCrates, warnings: crateResolveWarnings } = resolveCrazyCratesForServer(ctx.profile)
+    warnings.push(...crateResolveWarnings)
+    for (const row of resolvedCrates) {
+      const { yaml: crateYaml, warnings: crateTplWarnings } = buildCrateYamlFromTemplate({
+        libraryEntry: row.libraryEntry ?? null,
+        legacyStem: row.legacyStem,
+      })
+      warnings.push(...crateTplWarnings)
+      emitText('crazycrates', ctx, crateFile(row.outputStem), crateYaml)
+    }
+    return {
+      success: true,
+      configSource: { path: 'Bundled CrazyCrates templates', isDefault: true },
+      warnings,
+    }
+  },
+  compareEntries: () => {
+    const crateStems = new Set<string>(CRAZY_CRATES_BUNDLED_CRATE_STEMS)
+    try {
+      for (const e of loadCrateLibrary()) {
+        const s = e.outputStem.trim()
+        if (s.length > 0) crateStems.add(s)
+      }
+    } catch {
+      /* Electron app unavailable (e.g. vitest) — bundled stems only */
+    }
+    const crates = [...crateStems]
+      .sort((a, b) => a.localeCompare(b))
+      .map((stem) => ({
+        id: `crazycrates-crate-${stem}`,
+        label: `CrazyCrates (crates/${stem}.yml)`,
+        relativePath: crateFile(stem).relativePath,
+      }))
+    return [
+      { id: 'crazycrates-config', label: 'CrazyCrates (config.yml)', relativePath: CONFIG_FILE.relativePath },
+      ...crates,
+    ]
+  },
+  mapBuildFile: (flatSuffix) => {
+    const crate = CRATE_FLAT_SUFFIX.exec(flatSuffix)
+    return crate ? crateFile(crate[1]).relativePath : mapFixedBuildFiles([CONFIG_FILE])(flatSuffix)
+  },
+}
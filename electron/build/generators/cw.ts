@@ -0,0 +1,11 @@
+/** CommandWhitelist: config.yml regenerated from the template. */
+import { generateCWConfig } from '../../cwGenerator'
+
+import { resolveDiscordInviteUrl, serverProfileHasLore, templateGenerator } from '../buildPluginConfig'
+
+export const cwModule = templateGenerator({
+  id: 'cw',
+  generate(profile, _inputs, configPath) {
+    return { content: generateCWConfig(configPath, resolveDiscordInviteUrl(profile), serverProfileHasLore(profile)) }
+  },
+})
@@ -0,0 +1,52 @@
+/** DiscordSRV: bundled config.yml / messages.yml with the bot token and channel IDs filled in. */
+const path = require('path')
+import {
+  readDiscordSrvTemplatePaths,
+  generateDiscordSrvConfigContent,
+  readDiscordSrvMessagesContent,
+} from '../../discordSrvGenerator'
+
+import type { DiscordSrvSettings } from '../../types'
+import type { GeneratorModule } from '../generatorModule'
+import { emitText, mapFixedBuildFiles } from '../generatorModule'
+
+const CONFIG_FILE = { relativePath: path.join('DiscordSRV', 'config.yml'), flatSuffix: 'discordsrv-config.yml' }
+const MESSAGES_FILE = { relativePath: path.join('DiscordSRV', 'messages.yml'), flatSuffix: 'discordsrv-messages.yml' }
+
+export const discordsrvModule: GeneratorModule = {
+  id: 'discordsrv',
+  emit(ctx) {
+    const { inputs, profile } = ctx
+    const targetDiscordSrv = profile.discordSrvByTarget?.[ctx.buildTarget]
+    const pick = (key: keyof DiscordSrvSettings) =>
+      (inputs.discordSrv?.[key] ?? targetDiscordSrv?.[key] ?? profile.discordSrv?.[key] ?? '').trim()
+    const merged: Required<DiscordSrvSettings> = {
+      botToken: pick('botToken'),
+      globalChannelId: pick('globalChannelId'),
+      statusChannelId: pick('statusChannelId'),
+      consoleChannelId: pick('consoleChannelId'),
+      discordInviteUrl: pick('discordInviteUrl'),
+    }
+    const missing: string[] = []
+    if (!merged.botToken) missing.push('bot token')
+    if (!merged.globalChannelId) missing.push('global channel ID')
+    if (!merged.statusChannelId) missing.push('status channel ID')
+    if (!merged.discordInviteUrl) missing.push('Discord invite URL')
+    if (missing.length > 0) {
+      return { success: false, error: `DiscordSRV requires: ${missing.join(', ')}` }
+    }
+    const { configPath: srvConfigTpl, messagesPath: srvMessagesTpl } = readDiscordSrvTemplatePaths()
+    emitText('discordsrv', ctx, CONFIG_FILE, generateDiscordSrvConfigContent(srvConfigTpl, merged))
+    emitText('discordsrv', ctx, MESSAGES_FILE, readDiscordSrvMessagesContent(srvMessagesTpl))
+    profile.discordSrvByTarget = {
+      ...(profile.discordSrvByTarget ?? {}),
+      [ctx.buildTarget]: { ...merged },
+    }
+    return { success: true, configSource: { path: 'Bundled DiscordSRV templates', isDefault: true } }
+  },
+  compareEntries: () => [
+    { id: 'discordsrv-config', label: 'DiscordSRV (config.yml)', relativePath: CONFIG_FILE.relativePath },
+    { id: 'discordsrv-messages', label: 'DiscordSRV (messages.yml)', relativePath: MESSAGES_FILE.relativePath },
+  ],
+  mapBuildFile: mapFixedBuildFiles([CONFIG_FILE, MESSAGES_FILE]),
+}
@@ -0,0 +1,37 @@
+/** EssentialsX: bundled config.yml and rules.txt. */
+const fs = require('fs')
+const path = require('path')
+const { existsSync } = require('fs')
+
+import { getBundledBasePath, isPackagedApp } from '../../utils/electronApp'
+import type { GeneratorModule } from '../generatorModule'
+import { emitText, mapFixedBuildFiles } from '../generatorModule'
+
+const CONFIG_FILE = { relativePath: path.join('essentials', 'config.yml'), flatSuffix: 'essentials-config.yml' }
+const RULES_FILE = { relativePath: path.join('essentials', 'rules.txt'), flatSuffix: 'essentials-rules.txt' }
+
+function essentialsTemplatesBase(): string {
+  return isPackagedApp()
+    ? path.join(getBundledBasePath(path.join(__dirname, '..', '..')), 'dist-electron', 'assets', 'templates')
+    : path.join(__dirname, '..', '..', 'assets', 'templates')
+}
+
+export const essentialsModule: GeneratorModule = {
+  id: 'essentials',
+  emit(ctx) {
+    const templatesBase = essentialsTemplatesBase()
+    const configTemplate = path.join(templatesBase, 'essentials-config.yml')
+    const rulesTemplate = path.join(templatesBase, 'essentials-rules.txt')
+    if (!existsSync(configTemplate) || !existsSync(rulesTemplate)) {
+      return { success: false, error: `Bundled EssentialsX templates not found in: ${templatesBase}` }
+    }
+    emitText('essentials', ctx, CONFIG_FILE, fs.readFileSync(configTemplate, 'utf-8'))
+    emitText('essentials', ctx, RULES_FILE, fs.readFileSync(rulesTemplate, 'utf-8'))
+    return { success: true, configSource: { path: 'Bundled EssentialsX templates', isDefault: true } }
+  },
+  compareEntries: () => [
+    { id: 'essentials-config', label: 'EssentialsX (config.yml)', relativePath: CONFIG_FILE.relativePath },
+    { id: 'essentials-rules', label: 'EssentialsX (rules.txt)', relativePath: RULES_FILE.relativePath },
+  ],
+  mapBuildFile: mapFixedBuildFiles([CONFIG_FILE, RULES_FILE]),
+}
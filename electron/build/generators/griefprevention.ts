@@ -0,0 +1,24 @@
+/** GriefPreventionData: bundled config.yml. */
+const fs = require('fs')
+const path = require('path')
+
+import { getGriefPreventionBundledConfigPath } from '../../utils/griefPreventionBundledConfig'
+import type { GeneratorModule } from '../generatorModule'
+import { emitText, mapFixedBuildFiles } from '../generatorModule'
+
+const CONFIG_FILE = {
+  relativePath: path.join('GriefPreventionData', 'config.yml'),
+  flatSuffix: 'griefpreventiondata-config.yml',
+}
+
+export const griefpreventionModule: GeneratorModule = {
+  id: 'griefprevention',
+  emit(ctx) {
+    emitText('griefprevention', ctx, CONFIG_FILE, fs.readFileSync(getGriefPreventionBundledConfigPath(), 'utf-8'))
+    return { success: true, configSource: { path: 'Bundled GriefPreventionData template', isDefault: true } }
+  },
+  compareEntries: () => [
+    { id: 'griefprevention', label: 'GriefPreventionData (config.yml)', relativePath: CONFIG_FILE.relativePath },
+  ],
+  mapBuildFile: mapFixedBuildFiles([CONFIG_FILE]),
+}
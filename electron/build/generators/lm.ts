@@ -0,0 +1,14 @@
+/** LevelledMobs: village and region-band custom rules merged into rules.yml. */
+import { generateOwnedLMRules, mergeLMConfig } from '../../lmGenerator'
+import { validateLMDiff } from '../../diffValidator'
+
+import { templateGenerator } from '../buildPluginConfig'
+
+export const lmModule = templateGenerator({
+  id: 'lm',
+  generate(profile, _inputs, configPath) {
+    const ownedLMRules = generateOwnedLMRules(profile.regions, profile.regionsMeta?.levelledMobs)
+    return { content: mergeLMConfig(configPath, ownedLMRules) }
+  },
+  validate: (configPath, content) => validateLMDiff(configPath, content),
+})
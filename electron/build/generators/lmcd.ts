@@ -0,0 +1,28 @@
+/** LevelledMobs CustomDrops: library drop tables merged into customdrops.yml. */
+import { resolveDropTablesForServer, allLibraryTableNames } from '../../dropTableResolve'
+import { loadBundledItemIndex } from '../../itemIndex'
+import {
+  generateOwnedLMCustomDropTables,
+  mergeLMCustomDropsConfig,
+} from '../../lmCustomDropsGenerator'
+import { validateLMCustomDropsDiff } from '../../diffValidator'
+
+import { templateGenerator } from '../buildPluginConfig'
+
+export const lmcdModule = templateGenerator({
+  id: 'lmcd',
+  generate(profile, _inputs, configPath) {
+    const { warnings: indexWarnings } = loadBundledItemIndex()
+    const { resolved, warnings: resolveWarnings } = resolveDropTablesForServer(profile)
+    const generated = generateOwnedLMCustomDropTables(resolved)
+    // Every library table is owned, so tables unassigned since the last build are removed.
+    const ownedKeys = allLibraryTableNames()
+    return {
+      content: mergeLMCustomDropsConfig(configPath, generated, ownedKeys),
+      warnings: [...indexWarnings, ...resolveWarnings, ...generated.warnings],
+      ownedKeys,
+    }
+  },
+  validate: (configPath, content, generated) =>
+    validateLMCustomDropsDiff(configPath, content, generated.ownedKeys ?? []),
+})
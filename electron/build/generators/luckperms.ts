@@ -0,0 +1,30 @@
+/** LuckPerms: bundled permissions export, copied byte-for-byte. */
+const path = require('path')
+
+import {
+  getLuckPermsBundledExportPath,
+  LUCKPERMS_BUNDLED_EXPORT_FILENAME,
+} from '../../utils/luckPermsBundledExport'
+import type { GeneratorModule } from '../generatorModule'
+import { emitCopy, mapFixedBuildFiles } from '../generatorModule'
+
+const EXPORT_FILE = {
+  relativePath: path.join('LuckPerms', LUCKPERMS_BUNDLED_EXPORT_FILENAME),
+  flatSuffix: `luckperms-${LUCKPERMS_BUNDLED_EXPORT_FILENAME}`,
+}
+
+export const luckpermsModule: GeneratorModule = {
+  id: 'luckperms',
+  emit(ctx) {
+    emitCopy('luckperms', ctx, EXPORT_FILE, getLuckPermsBundledExportPath())
+    return { success: true, configSource: { path: 'Bundled LuckPerms export (.gz)', isDefault: true } }
+  },
+  compareEntries: () => [
+    {
+      id: 'luckperms-exploration-gz',
+      label: `LuckPerms (${LUCKPERMS_BUNDLED_EXPORT_FILENAME})`,
+      relativePath: EXPORT_FILE.relativePath,
+    },
+  ],
+  mapBuildFile: mapFixedBuildFiles([EXPORT_FILE]),
+}
@@ -0,0 +1,32 @@
+/** MyCommand: commands.yml regenerated from the template (Tebex store link, region commands). */
+import { generateMCConfig } from '../../mcGenerator'
+
+import { resolveConfigServerName } from '../../shared/resolveConfigServerName'
+import { serverProfileHasLore, templateGenerator } from '../buildPluginConfig'
+import type { GeneratorModule } from '../generatorModule'
+
+const mcTemplate = templateGenerator({
+  id: 'mc',
+  generate(profile, inputs, configPath) {
+    const content = generateMCConfig(
+      configPath,
+      resolveConfigServerName(profile),
+      String(inputs.mcTebexSubdomain ?? profile.build?.mcTebexSubdomain ?? ''),
+      profile.regions || [],
+      serverProfileHasLore(profile)
+    )
+    return { content }
+  },
+})
+
+export const mcModule: GeneratorModule = {
+  ...mcTemplate,
+  emit(ctx) {
+    const subdomain = String(ctx.inputs.mcTebexSubdomain ?? '').trim()
+    if (!subdomain) {
+      return { success: false, error: 'MyCommand requires a Tebex subdomain (for https://[subdomain].tebex.io)' }
+    }
+    ctx.profile.build.mcTebexSubdomain = subdomain
+    return mcTemplate.emit(ctx)
+  },
+}
@@ -0,0 +1,47 @@
+/** PlaceholderAPI: bundled config and expansions (YAML stamped, everything else copied). */
+const path = require('path')
+const fs = require('fs')
+
+import {
+  getPlaceholderApiBundledRoot,
+  listPlaceholderApiBundledRelativePaths,
+} from '../../utils/placeholderApiBundledDir'
+import type { GeneratorModule } from '../generatorModule'
+import { emitCopy, emitText } from '../generatorModule'
+
+function bundledFile(rel: string) {
+  return {
+    relativePath: path.join('PlaceholderAPI', rel),
+    flatSuffix: `placeholderapi-${rel.replace(/[/\\]/g, '-')}`,
+  }
+}
+
+export const placeholderapiModule: GeneratorModule = {
+  id: 'placeholderapi',
+  emit(ctx) {
+    const bundledRoot = getPlaceholderApiBundledRoot()
+    for (const rel of listPlaceholderApiBundledRelativePaths()) {
+      const srcPath = path.join(bundledRoot, rel)
+      const ext = path.extname(rel).toLowerCase()
+      if (ext === '.yml' || ext === '.yaml') {
+        emitText('placeholderapi', ctx, bundledFile(rel), fs.readFileSync(srcPath, 'utf-8'))
+      } else {
+        emitCopy('placeholderapi', ctx, bundledFile(rel), srcPath)
+      }
+    }
+    return { success: true, configSource: { path: 'Bundled PlaceholderAPI templates', isDefault: true } }
+  },
+  compareEntries: () =>
+    listPlaceholderApiBundledRelativePaths().map((rel) => {
+      const displayRel = rel.replace(/\\/g, '/')
+      return {
+        id: `placeholderapi:${displayRel.replace(/\//g, '-')}`,
+        label: `PlaceholderAPI (${displayRel})`,
+        relativePath: bundledFile(rel).relativePath,
+      }
+    }),
+  mapBuildFile: (flatSuffix, ctx) => {
+    const rel = ctx.placeholderApiRelativePaths.find((r) => bundledFile(r).flatSuffix === flatSuffix)
+    return rel ? bundledFile(rel).relativePath : null
+  },
+}
@@ -0,0 +1,21 @@
+/** TAB: header/footer, scoreboards and region conditions merged into config.yml. */
+import { generateOwnedTABSections, mergeTABConfig } from '../../tabGenerator'
+import { validateTABDiff } from '../../diffValidator'
+
+import { resolveConfigServerName } from '../../shared/resolveConfigServerName'
+import { resolveDiscordInviteUrl, templateGenerator } from '../buildPluginConfig'
+
+export const tabModule = templateGenerator({
+  id: 'tab',
+  generate(profile, _inputs, configPath) {
+    const ownedTABSections = generateOwnedTABSections(
+      profile.regions,
+      resolveConfigServerName(profile),
+      profile.regionsMeta?.levelledMobs?.regionBands,
+      resolveDiscordInviteUrl(profile),
+      profile.regionsMeta?.structureFamilies
+    )
+    return { content: mergeTABConfig(configPath, ownedTABSections) }
+  },
+  validate: (configPath, content) => validateTABDiff(configPath, content),
+})
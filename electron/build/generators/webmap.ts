@@ -0,0 +1,158 @@
+/**
+ * Web map markers for BlueMap, squaremap and Dynmap, from the region geometry stored on the profile
+ * (falling back to each world's WorldGuard regions.yml source for regions imported without it) and
+ * the profile's region kinds, names and descriptions.
+ */
+const path = require('path')
+const { existsSync } = require('fs')
+import { readRegionGeometry } from '../../regionParser'
+import {
+  WEB_MAP_FORMATS,
+  collectWebMapLayers,
+  renderBlueMapMarkers,
+  renderDynmapMarkers,
+  renderSquaremapMarkers,
+  webMapFlatSuffix,
+  webMapRelativePath,
+} from '../../webMapGenerator'
+import type { WebMapWorld, WebMapWorldLayers } from '../../webMapGenerator'
+import { sanitizeWorldGuardWorldFolder } from '../../utils/worldGuardRegionsPaths'
+
+import type { RegionGeometry, WebMapFormat, WebMapSettings } from '../../types'
+import type { EmittedFile, GeneratorModule } from '../generatorModule'
+import { emitText, mapFixedBuildFiles } from '../generatorModule'
+
+interface WorldSource {
+  world: WebMapWorld
+  pathKey: 'worldGuardRegionsPath' | 'worldGuardRegionsNetherPath' | 'worldGuardRegionsEndPath'
+  sourcePathField: 'worldGuardRegionsSourcePath' | 'worldGuardRegionsNetherSourcePath' | 'worldGuardRegionsEndSourcePath'
+  worldFolderKey: 'worldGuardRegionsWorldFolder' | 'worldGuardRegionsNetherWorldFolder' | 'worldGuardRegionsEndWorldFolder'
+  /** Mapping-context field holding the world folder, for saved build files. */
+  mappingFolderKey: 'worldGuardWorldFolder' | 'worldGuardNetherWorldFolder' | 'worldGuardEndWorldFolder'
+  defaultFolder: string
+}
+
+const WORLD_SOURCES: WorldSource[] = [
+  {
+    world: 'overworld',
+    pathKey: 'worldGuardRegionsPath',
+    sourcePathField: 'worldGuardRegionsSourcePath',
+    worldFolderKey: 'worldGuardRegionsWorldFolder',
+    mappingFolderKey: 'worldGuardWorldFolder',
+    defaultFolder: 'world',
+  },
+  {
+    world: 'nether',
+    pathKey: 'worldGuardRegionsNetherPath',
+    sourcePathField: 'worldGuardRegionsNetherSourcePath',
+    worldFolderKey: 'worldGuardRegionsNetherWorldFolder',
+    mappingFolderKey: 'worldGuardNetherWorldFolder',
+    defaultFolder: 'world_nether',
+  },
+  {
+    world: 'end',
+    pathKey: 'worldGuardRegionsEndPath',
+    sourcePathField: 'worldGuardRegionsEndSourcePath',
+    worldFolderKey: 'worldGuardRegionsEndWorldFolder',
+    mappingFolderKey: 'worldGuardEndWorldFolder',
+    defaultFolder: 'world_the_end',
+  },
+]
+
+/** Dynmap keeps every world in one markers file. */
+function markerFile(format: WebMapFormat, world: WebMapWorld, worldFolder: string): EmittedFile {
+  return format === 'dynmap'
+    ? { relativePath: webMapRelativePath('dynmap', ''), flatSuffix: webMapFlatSuffix('dynmap', 'overworld') }
+    : { relativePath: webMapRelativePath(format, worldFolder), flatSuffix: webMapFlatSuffix(format, world) }
+}
+
+/** How many missing region ids a warning names before summarising the rest. */
+const MISSING_SAMPLE = 5
+
+export const webmapModule: GeneratorModule = {
+  id: 'webmap',
+  emit(ctx) {
+    const { inputs, profile } = ctx
+    const settings: WebMapSettings = { ...(profile.build.webMap ?? {}), ...(inputs.webMap ?? {}) }
+    const formats = settings.formats?.length
+      ? WEB_MAP_FORMATS.filter((f) => settings.formats!.includes(f))
+      : WEB_MAP_FORMATS
+
+    const warnings: string[] = []
+    const sources: string[] = []
+    const worlds: WebMapWorldLayers[] = []
+    for (const src of WORLD_SOURCES) {
+      const worldRegions = profile.regions.filter((r) => r.world === src.world)
+      if (worldRegions.length === 0) continue
+      let exportGeometry: Record<string, RegionGeometry> = {}
+      let file = 'the stored geometry'
+      if (worldRegions.some((r) => !r.geometry)) {
+        const sourcePath = (inputs[src.pathKey] || profile.build[src.sourcePathField] || '').trim()
+        if (sourcePath && existsSync(sourcePath)) {
+          exportGeometry = readRegionGeometry(sourcePath)
+          file = path.basename(sourcePath)
+          sources.push(sourcePath)
+        } else if (!worldRegions.some((r) => r.geometry)) {
+          warnings.push(
+            sourcePath
+              ? `WorldGuard ${src.world} regions source not found (${sourcePath}); ${src.world} markers were skipped`
+              : `No ${src.world} region geometry; re-import the Region Forge export or set its regions.yml`
+          )
+          continue
+        }
+      }
+      const { layers, missing } = collectWebMapLayers(profile, src.world, exportGeometry, settings)
+      if (missing.length > 0) {
+        const sample = missing.slice(0, MISSING_SAMPLE).join(', ')
+        const more = missing.length > MISSING_SAMPLE ? ` and ${missing.length - MISSING_SAMPLE} more` : ''
+        warnings.push(`${missing.length} ${src.world} region(s) have no geometry in ${file}: ${sample}${more}`)
+      }
+      const worldFolder = sanitizeWorldGuardWorldFolder(
+        inputs[src.worldFolderKey] ?? profile.build[src.worldFolderKey] ?? src.defaultFolder
+      )
+      worlds.push({ world: src.world, worldFolder, layers })
+    }
+    if (worlds.length === 0) {
+      return {
+        success: false,
+        error: 'Web map markers need region geometry: import a Region Forge export for at least one world',
+      }
+    }
+
+    for (const format of formats) {
+      if (format === 'dynmap') {
+        emitText('webmap', ctx, markerFile('dynmap', 'overworld', ''), renderDynmapMarkers(worlds))
+        continue
+      }
+      const render = format === 'bluemap' ? renderBlueMapMarkers : renderSquaremapMarkers
+      for (const w of worlds) {
+        emitText('webmap', ctx, markerFile(format, w.world, w.worldFolder), render(w.layers))
+      }
+    }
+    profile.build.webMap = settings
+    return {
+      success: true,
+      configSource: {
+        path: [...(profile.regions.some((r) => r.geometry) ? ['Profile region geometry'] : []), ...sources].join(', '),
+        isDefault: false,
+      },
+      ...(warnings.length > 0 ? { warnings } : {}),
+    }
+  },
+  compareEntries: () =>
+    WEB_MAP_FORMATS.flatMap((format) =>
+      format === 'dynmap'
+        ? [{ id: 'webmap-dynmap', label: 'Dynmap (markers.yml)', relativePath: webMapRelativePath('dynmap', '') }]
+        : WORLD_SOURCES.map((src) => ({
+            id: `webmap-${format}-${src.world}`,
+            label: `${format === 'bluemap' ? 'BlueMap' : 'squaremap'} markers (${src.defaultFolder})`,
+            relativePath: webMapRelativePath(format, src.defaultFolder),
+          }))
+    ),
+  mapBuildFile: (flatSuffix, ctx) =>
+    mapFixedBuildFiles(
+      WEB_MAP_FORMATS.flatMap((format) =>
+        WORLD_SOURCES.map((src) => markerFile(format, src.world, ctx[src.mappingFolderKey]))
+      )
+    )(flatSuffix),
+}
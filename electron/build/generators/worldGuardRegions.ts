@@ -0,0 +1,109 @@
+/**
+ * WorldGuard regions.yml per world, copied from the user's Region Forge export (any header the
+ * export already carries is replaced). One module per world, sharing this factory.
+ */
+const fs = require('fs')
+const { existsSync } = require('fs')
+import {
+  sanitizeWorldGuardWorldFolder,
+  getWorldGuardRegionsPropagatedRelativePath,
+} from '../../utils/worldGuardRegionsPaths'
+
+import type { GeneratorModule } from '../generatorModule'
+import { emitText } from '../generatorModule'
+
+interface WorldGuardRegionsWorld {
+  id: 'worldguardregions' | 'worldguardregionsnether' | 'worldguardregionsend'
+  /** As used in messages: overworld, nether, End. */
+  worldName: string
+  /** Region Forge export the prompt points at. */
+  exportName: string
+  pathKey: 'worldGuardRegionsPath' | 'worldGuardRegionsNetherPath' | 'worldGuardRegionsEndPath'
+  worldFolderKey: 'worldGuardRegionsWorldFolder' | 'worldGuardRegionsNetherWorldFolder' | 'worldGuardRegionsEndWorldFolder'
+  /** Profile build fields remembering the last source (the world folder key is shared). */
+  sourcePathField: 'worldGuardRegionsSourcePath' | 'worldGuardRegionsNetherSourcePath' | 'worldGuardRegionsEndSourcePath'
+  flatSuffix: string
+  /** Mapping-context field holding this world's folder, for saved build files. */
+  mappingFolderKey: 'worldGuardWorldFolder' | 'worldGuardNetherWorldFolder' | 'worldGuardEndWorldFolder'
+  /** Folder the compare screen assumes. */
+  compareWorldFolder: string
+  compareLabel: string
+}
+
+function worldGuardRegionsModule(world: WorldGuardRegionsWorld): GeneratorModule {
+  return {
+    id: world.id,
+    emit(ctx) {
+      const { inputs } = ctx
+      const srcPath = (inputs[world.pathKey] ?? '').trim()
+      if (!srcPath) {
+        return {
+          success: false,
+          error: `WorldGuard ${world.worldName} regions.yml requires a source file (browse to your ${world.exportName})`,
+        }
+      }
+      if (!existsSync(srcPath)) {
+        return { success: false, error: `WorldGuard ${world.worldName} regions source not found: ${srcPath}` }
+      }
+      const worldFolder = sanitizeWorldGuardWorldFolder(inputs[world.worldFolderKey])
+      const file = {
+        relativePath: getWorldGuardRegionsPropagatedRelativePath(worldFolder),
+        flatSuffix: world.flatSuffix,
+      }
+      emitText(world.id, ctx, file, fs.readFileSync(srcPath, 'utf-8'))
+      ctx.profile.build[world.sourcePathField] = srcPath
+      ctx.profile.build[world.worldFolderKey] = worldFolder
+      return { success: true, configSource: { path: srcPath, isDefault: false } }
+    },
+    compareEntries: () => [
+      {
+        id: world.id,
+        label: world.compareLabel,
+        relativePath: getWorldGuardRegionsPropagatedRelativePath(world.compareWorldFolder),
+      },
+    ],
+    mapBuildFile: (flatSuffix, ctx) =>
+      flatSuffix === world.flatSuffix
+        ? getWorldGuardRegionsPropagatedRelativePath(ctx[world.mappingFolderKey])
+        : null,
+  }
+}
+
+export const worldguardregionsModule = worldGuardRegionsModule({
+  id: 'worldguardregions',
+  worldName: 'overworld',
+  exportName: 'Region Forge export',
+  pathKey: 'worldGuardRegionsPath',
+  worldFolderKey: 'worldGuardRegionsWorldFolder',
+  sourcePathField: 'worldGuardRegionsSourcePath',
+  flatSuffix: 'worldguard-regions.yml',
+  mappingFolderKey: 'worldGuardWorldFolder',
+  compareWorldFolder: 'world',
+  compareLabel: 'WorldGuard (worlds/world/regions.yml)',
+})
+
+export const worldguardregionsnetherModule = worldGuardRegionsModule({
+  id: 'worldguardregionsnether',
+  worldName: 'nether',
+  exportName: 'Region Forge nether export',
+  pathKey: 'worldGuardRegionsNetherPath',
+  worldFolderKey: 'worldGuardRegionsNetherWorldFolder',
+  sourcePathField: 'worldGuardRegionsNetherSourcePath',
+  flatSuffix: 'worldguard-regions-nether.yml',
+  mappingFolderKey: 'worldGuardNetherWorldFolder',
+  compareWorldFolder: 'world_nether',
+  compareLabel: 'WorldGuard nether (worlds/world_nether/regions.yml)',
+})
+
+export const worldguardregionsendModule = worldGuardRegionsModule({
+  id: 'worldguardregionsend',
+  worldName: 'End',
+  exportName: 'Region Forge End export',
+  pathKey: 'worldGuardRegionsEndPath',
+  worldFolderKey: 'worldGuardRegionsEndWorldFolder',
+  sourcePathField: 'worldGuardRegionsEndSourcePath',
+  flatSuffix: 'worldguard-regions-end.yml',
+  mappingFolderKey: 'worldGuardEndWorldFolder',
+  compareWorldFolder: 'world_the_end',
+  compareLabel: 'WorldGuard End (worlds/world_the_end/regions.yml)',
+})
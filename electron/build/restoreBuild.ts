@@ -0,0 +1,110 @@
+/**
+ * Build rollback: copy the files saved under builds/<buildId>/ back into the output folder
+ * (propagated plugin paths or flat names), keeping whatever they overwrite.
+ */
+const path = require('path')
+const fs = require('fs')
+const {
+  loadServerProfile,
+  saveServerProfile,
+  getBuildDirectory,
+  ensureBuildDirectory,
+  loadBuildReport,
+  saveBuildReport,
+} = require('../storage')
+
+import type { BuildReport, BuildRestoreOptions, BuildRestoreResult, GeneratorVersionKey } from '../types'
+import { GENERATORS } from '../shared/generatorCatalog'
+import { getBuildFileMappingContext, mapBuildFileToPropagatedPath } from '../utils/buildFileMapping'
+
+/** Folder inside the rollback build holding the files that were replaced. */
+export const ROLLBACK_OVERWRITTEN_DIR = 'overwritten'
+
+function failure(error: string): BuildRestoreResult {
+  return { success: false, error, restored: [], backedUp: [], skipped: [] }
+}
+
+export function restoreBuild(
+  serverId: string,
+  sourceBuildId: string,
+  options: BuildRestoreOptions = {}
+): BuildRestoreResult {
+  try {
+    const profile = loadServerProfile(serverId)
+    if (!profile) return failure(`Server profile not found: ${serverId}`)
+    const sourceReport: BuildReport | null = loadBuildReport(serverId, sourceBuildId)
+    const sourceDir = getBuildDirectory(serverId, sourceBuildId)
+    if (!sourceReport || !fs.existsSync(sourceDir)) {
+      return failure(`Build not found: ${sourceBuildId}`)
+    }
+    const outDir = String(options.outDir ?? profile.build.outputDirectory ?? '').trim()
+    if (!outDir) return failure('Output directory must be set')
+    const propagate = options.propagateToPluginFolders ?? Boolean(profile.build.propagateToPluginFolders)
+
+    const mappingContext = getBuildFileMappingContext(profile)
+
+    const flatNames = (fs.readdirSync(sourceDir, { withFileTypes: true }) as import('fs').Dirent[])
+      .filter((e) => e.isFile() && e.name !== 'report.json')
+      .map((e) => e.name)
+      .sort()
+    const plan: Array<{ flatName: string; plugin: GeneratorVersionKey; relativePath: string }> = []
+    const skipped: string[] = []
+    for (const flatName of flatNames) {
+      const mapped = mapBuildFileToPropagatedPath(flatName, mappingContext)
+      if (!mapped) {
+        skipped.push(flatName)
+        continue
+      }
+      plan.push({ flatName, plugin: mapped.plugin, relativePath: propagate ? mapped.relativePath : flatName })
+    }
+    if (plan.length === 0) {
+      return failure(`Build ${sourceBuildId} has no saved files that map to this server's output paths`)
+    }
+
+    const buildId = `build-${Date.now()}`
+    const buildDir = ensureBuildDirectory(serverId, buildId)
+    const restored: string[] = []
+    const backedUp: string[] = []
+    const generated = new Set<GeneratorVersionKey>()
+    for (const item of plan) {
+      const target = path.join(outDir, item.relativePath)
+      if (fs.existsSync(target)) {
+        const backup = path.join(buildDir, ROLLBACK_OVERWRITTEN_DIR, item.relativePath)
+        fs.mkdirSync(path.dirname(backup), { recursive: true })
+        fs.copyFileSync(target, backup)
+        backedUp.push(item.relativePath)
+      }
+      fs.mkdirSync(path.dirname(target), { recursive: true })
+      fs.copyFileSync(path.join(sourceDir, item.flatName), target)
+      fs.copyFileSync(path.join(sourceDir, item.flatName), path.join(buildDir, item.flatName))
+      restored.push(item.relativePath)
+      generated.add(item.plugin)
+    }
+
+    const warnings = skipped.map((f) => `Not restored (no output mapping for this server): ${f}`)
+    if (sourceReport.generated?.bookgui) {
+      warnings.push('BookGUI guide books are not saved with builds and were left unchanged.')
+    }
+    const note = String(options.note ?? '').trim()
+    const report: BuildReport = {
+      ...sourceReport,
+      buildId,
+      timestamp: new Date().toISOString(),
+      testBuild: false,
+      buildNote: note ? `Rollback to ${sourceBuildId}: ${note}` : `Rollback to ${sourceBuildId}`,
+      rollbackOf: sourceBuildId,
+      generated: Object.fromEntries(GENERATORS.map((g) => [g.id, generated.has(g.id)])),
+      warnings,
+      errors: [],
+    }
+    saveBuildReport(serverId, buildId, report)
+
+    profile.build.lastBuildId = buildId
+    saveServerProfile(profile)
+
+    return { success: true, buildId, restored, backedUp, skipped }
+  } catch (error: unknown) {
+    const err = error as Error
+    return failure(err.message || 'Unknown error during restore')
+  }
+}
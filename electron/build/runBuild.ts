@@ -0,0 +1,212 @@
+/**
+ * Full build run (selected plugins, report.json, profile update) shared by the
+ * build-configs IPC handler and the headless CLI.
+ */
+const { existsSync } = require('fs')
+const {
+  loadServerProfile,
+  saveServerProfile,
+  getBuildDirectory,
+  saveBuildReport,
+} = require('../storage')
+const { computeRegionCounts, computeRegionStats } = require('../utils/regionStats')
+const { sanitizeServerName } = require('../shared/stringFormatters')
+const { validateBuildNoteInput } = require('../utils/buildNotes')
+
+import type {
+  BuildResult,
+  BuildReport,
+  DiffGateReport,
+  DiscordSrvSettings,
+  GeneratorVersionKey,
+  WebMapSettings,
+  BuildTarget,
+} from '../types'
+import type { BuildInputs } from './buildPluginConfig'
+import { resolveConfigServerName } from '../shared/resolveConfigServerName'
+import { GENERATORS } from '../shared/generatorCatalog'
+import { runGenerator } from './generatorRegistry'
+import type { BuildOutputSink } from './buildOutputSink'
+import { createDiskOutputSink } from './buildOutputSink'
+
+/** Everything build-configs accepts: plugin toggles, template paths and output options. */
+export interface BuildRequestInputs extends BuildInputs {
+  /** World folder under WorldGuard/worlds/ when propagating (default world). */
+  worldGuardRegionsWorldFolder?: string
+  worldGuardRegionsNetherWorldFolder?: string
+  worldGuardRegionsEndWorldFolder?: string
+  discordSrv?: DiscordSrvSettings
+  /** Web map marker formats and options; absent = the profile's last settings. */
+  webMap?: WebMapSettings
+  /** When true, emit as test: current generator version, no bump, optional note, `emit=test` in header. */
+  testBuild?: boolean
+  /** Required when testBuild is false; optional short note for test builds. */
+  buildNote?: string
+}
+
+export interface BuildRunOptions {
+  sink: BuildOutputSink
+  /** When true, report.json and the profile are not saved (preview). */
+  dryRun: boolean
+}
+
+/** Build result plus the report that was (or, for a dry run, would have been) saved. */
+export type BuildRunOutcome = BuildResult & { report?: BuildReport }
+
+/**
+ * Generate every selected plugin, write outputs and build copies, save report.json and
+ * update the profile. Stops at the first failing plugin (diff gate or missing input).
+ */
+export function runBuild(serverId: string, inputs: BuildRequestInputs): BuildResult {
+  const { report: _report, ...result } = executeBuild(serverId, inputs, {
+    sink: createDiskOutputSink(),
+    dryRun: false,
+  })
+  return result
+}
+
+/** Shared by `runBuild` and the dry-run preview; all emitted files go through `options.sink`. */
+export function executeBuild(
+  serverId: string,
+  inputs: BuildRequestInputs,
+  options: BuildRunOptions
+): BuildRunOutcome {
+  const { sink, dryRun } = options
+  try {
+    const profile = loadServerProfile(serverId)
+    if (!profile) {
+      return { success: false, error: `Server profile not found: ${serverId}` }
+    }
+    if (!GENERATORS.some((g) => inputs[g.generateKey])) {
+      const labels = GENERATORS.map((g) => g.label)
+      return {
+        success: false,
+        error: `At least one plugin (${labels.slice(0, -1).join(', ')}, or ${labels[labels.length - 1]}) must be selected`,
+      }
+    }
+    if (!inputs.outDir || inputs.outDir.trim().length === 0) {
+      return { success: false, error: 'Output directory must be set' }
+    }
+
+    const testBuild = Boolean(inputs.testBuild)
+    const buildTarget: BuildTarget = inputs.buildTarget === 'live' ? 'live' : 'next'
+    const buildNoteTrimmed = String(inputs.buildNote ?? '').trim()
+    const buildNoteValidationError = validateBuildNoteInput(testBuild, inputs.buildNote)
+    if (buildNoteValidationError) {
+      return { success: false, error: buildNoteValidationError }
+    }
+
+    const fs = require('fs')
+    if (!dryRun && !existsSync(inputs.outDir)) {
+      fs.mkdirSync(inputs.outDir, { recursive: true })
+    }
+
+    const propagate = Boolean(inputs.propagateToPluginFolders)
+    profile.build.buildTarget = buildTarget
+
+    function versionForEmit(key: GeneratorVersionKey): number {
+      const cur = profile.generatorVersions?.[key] ?? 0
+      if (testBuild) return Math.max(1, cur)
+      return cur + 1
+    }
+
+    function persistGeneratorVersion(key: GeneratorVersionKey, emittedVersion: number): void {
+      if (testBuild) return
+      profile.generatorVersions = { ...(profile.generatorVersions ?? {}), [key]: emittedVersion }
+    }
+
+    const headerStampNote = testBuild ? (buildNoteTrimmed || undefined) : buildNoteTrimmed
+
+    const configServerName = resolveConfigServerName(profile)
+    const serverNameSanitized = sanitizeServerName(configServerName)
+    const buildId = `build-${Date.now()}`
+    const timestamp = new Date().toISOString()
+    const warnings: string[] = []
+    const errors: string[] = []
+    const regionCounts = computeRegionStats(profile.regions)
+
+    const generated: BuildReport['generated'] = {}
+    const configSources: BuildResult['configSources'] = {}
+    const acceptedDrift: DiffGateReport[] = []
+    const regionCountsForTAB = computeRegionCounts(profile.regions)
+    const buildDir = getBuildDirectory(serverId, buildId)
+
+    for (const { id, generateKey } of GENERATORS) {
+      generated[id] = false
+      if (!inputs[generateKey]) continue
+      const nextGeneratorVersion = versionForEmit(id)
+      const result = runGenerator(id, {
+        profile,
+        inputs,
+        serverId,
+        buildId,
+        buildDir,
+        buildTarget,
+        configServerName,
+        serverNameSanitized,
+        propagate,
+        nextGeneratorVersion,
+        generatedAt: timestamp,
+        buildNote: headerStampNote,
+        testEmit: testBuild,
+        sink,
+      })
+      if (!result.success) {
+        return { success: false, error: result.error, buildId, ...(result.diffGate ? { diffGate: result.diffGate } : {}) }
+      }
+      persistGeneratorVersion(id, nextGeneratorVersion)
+      generated[id] = true
+      configSources[id] = result.configSource
+      warnings.push(...(result.warnings ?? []))
+      if (result.acceptedDrift) acceptedDrift.push(result.acceptedDrift)
+    }
+
+    const gvSnap = profile.generatorVersions
+    const report: BuildReport = {
+      buildId,
+      timestamp,
+      buildTarget,
+      testBuild,
+      ...(buildNoteTrimmed.length > 0 ? { buildNote: buildNoteTrimmed } : {}),
+      regionCounts,
+      computedCounts: regionCountsForTAB,
+      generated,
+      configSources,
+      warnings,
+      errors,
+      ...(acceptedDrift.length > 0 ? { acceptedDrift } : {}),
+      ...(gvSnap && Object.keys(gvSnap).length > 0
+        ? { generatorVersionsSnapshot: { ...gvSnap } }
+        : {}),
+    }
+    if (dryRun) {
+      return { success: true, buildId, configSources, report }
+    }
+    saveBuildReport(serverId, buildId, report)
+
+    profile.build.lastBuildId = buildId
+    profile.build.buildTarget = buildTarget
+    profile.build.outputDirectory = inputs.outDir
+    if (typeof inputs.propagateToPluginFolders === 'boolean') {
+      profile.build.propagateToPluginFolders = inputs.propagateToPluginFolders
+    }
+    if (inputs.discordSrv !== undefined) {
+      profile.discordSrvByTarget = {
+        ...(profile.discordSrvByTarget ?? {}),
+        [buildTarget]: {
+          ...(profile.discordSrvByTarget?.[buildTarget] ?? {}),
+          ...inputs.discordSrv,
+        },
+      }
+    }
+    saveServerProfile(profile)
+
+    return { success: true, buildId, configSources, report }
+  } catch (error: unknown) {
+    const err = error as Error
+    return {
+      success: false,
+      error: err.message || 'Unknown error during build',
+    }
+  }
+}
@@ -8,13 +8,14 @@ import {
   partitionOwnedCEEventsForFragments,
   buildCEConfigBundle,
 } from './ceGenerator'
+import { resolveCeRecipes } from './shared/ceRecipes'
 
 import type { RegionRecord, OnboardingConfig } from './types'
 
 function region(
   id: string,
   kind: 'system' | 'region' | 'village' | 'heart' | 'nerve',
-  world: 'overworld' | 'nether' = 'overworld',
+  world: 'overworld' | 'nether' | 'end' = 'overworld',
   method: 'disabled' | 'on_enter' | 'first_join' = 'on_enter',
   overrides: Partial<RegionRecord> = {}
 ): RegionRecord {
@@ -24,12 +25,16 @@ function region(
       : kind === 'heart'
         ? world === 'nether'
           ? 'nether_heart'
-          : 'heart'
+          : world === 'end'
+            ? 'end_heart'
+            : 'heart'
         : kind === 'nerve'
           ? 'nerve'
           : world === 'nether'
             ? 'nether_region'
-            : 'region'
+            : world === 'end'
+              ? 'end_region'
+              : 'region'
   return {
     world,
     id,
@@ -203,6 +208,60 @@ describe('generateOwnedCEEvents', () => {
     expect(actions.some((a) => a.includes('cc give virtual'))).toBe(false)
     expect(actions.some((a) => a.includes('total_discovered'))).toBe(false)
   })
+
+  it('renders discoveries from per-server recipes', () => {
+    const recipes = resolveCeRecipes({
+      village: {
+        crate: 'MapCrate',
+        actions: [
+          'console_command: aach give {AACH_ID} %player%',
+          'playsound: BLOCK_BELL_USE;1;1',
+          'console_command: cc give virtual {CRATE} 1 %player%',
+        ],
+      },
+    })
+    const regions: RegionRecord[] = [
+      region('cherrybrook', 'region', 'overworld', 'first_join'),
+      region('oak_village', 'village'),
+      region('desert_ruins', 'region'),
+    ]
+    const events = generateOwnedCEEvents(regions, onboarding, undefined, undefined, recipes)
+    expect(events['oak_village_discover_once']!.actions.default).toEqual([
+      'console_command: aach give discoverOakVillage %player%',
+      'playsound: BLOCK_BELL_USE;1;1',
+      'console_command: cc give virtual MapCrate 1 %player%',
+    ])
+    expect(events['desert_ruins_discover_once']!.actions.default).toContain(
+      'console_command: cc give virtual RegionCrate 1 %player%'
+    )
+  })
+})
+
+describe('generateOwnedCEEvents region reward overrides', () => {
+  it('swaps the crate, key count and appends extra commands for that region only', () => {
+    const regions: RegionRecord[] = [
+      region('cherrybrook', 'region', 'overworld', 'first_join'),
+      region('sky_spire', 'region', 'overworld', 'on_enter', {
+        rewards: { crateLibraryId: 'lib-1', crateKeyCount: 3, extraCommands: ['give %player% filled_map 1'] },
+      }),
+      region('desert_ruins', 'region'),
+    ]
+    const events = generateOwnedCEEvents(regions, onboarding, undefined, undefined, undefined, { 'lib-1': 'LandmarkCrate' })
+    const actions = events['sky_spire_discover_once']!.actions.default
+    expect(actions).toContain('console_command: cc give virtual LandmarkCrate 3 %player%')
+    expect(actions[actions.length - 1]).toBe('console_command: give %player% filled_map 1')
+    expect(events['desert_ruins_discover_once']!.actions.default).toContain(
+      'console_command: cc give virtual RegionCrate 1 %player%'
+    )
+  })
+
+  it('falls back to the recipe crate when the library crate is unknown', () => {
+    const regions: RegionRecord[] = [
+      region('sky_spire', 'region', 'overworld', 'on_enter', { rewards: { crateLibraryId: 'missing' } }),
+    ]
+    const actions = generateOwnedCEEvents(regions, onboarding)['sky_spire_discover_once']!.actions.default
+    expect(actions).toContain('console_command: cc give virtual RegionCrate 1 %player%')
+  })
 })
 
 describe('partitionOwnedCEEventsForFragments', () => {
@@ -226,6 +285,8 @@ describe('partitionOwnedCEEventsForFragments', () => {
       region('n1', 'nerve', 'overworld', 'on_enter'),
       region('r1', 'region', 'overworld', 'on_enter'),
       region('r2', 'region', 'nether', 'on_enter'),
+      region('h3', 'heart', 'end', 'on_enter'),
+      region('r3', 'region', 'end', 'on_enter'),
     ]
     const owned = generateOwnedCEEvents(regions, onboarding)
     const parts = partitionOwnedCEEventsForFragments(owned, regions)
@@ -235,6 +296,8 @@ describe('partitionOwnedCEEventsForFragments', () => {
     expect(parts['nether-hearts'].h2_discover_once).toBeDefined()
     expect(parts['overworld-regions'].r1_discover_once).toBeDefined()
     expect(parts['nether-regions'].r2_discover_once).toBeDefined()
+    expect(parts['end-hearts'].h3_discover_once).toBeDefined()
+    expect(parts['end-regions'].r3_discover_once).toBeDefined()
   })
 })
 
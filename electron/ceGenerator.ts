@@ -1,10 +1,19 @@
 const yaml = require('yaml')
 
-import { generateCommandId } from './aaGenerator'
 import type { StructureFamiliesMap } from './aaGenerator'
-import type { RegionRecord, OnboardingConfig } from './types'
-import { formatRegionLabel, formatRegionTitle } from './shared/stringFormatters'
+import type { CeActionRecipe, CeRecipes, RegionRecord, OnboardingConfig } from './types'
+import { generateCommandId } from './shared/stringFormatters'
+import {
+  DEFAULT_CE_RECIPES,
+  ceRecipeContext,
+  discoveryRecipeKey,
+  firstJoinRecipeContext,
+  renderCeRecipe,
+} from './shared/ceRecipes'
+import type { CeRecipeContext } from './shared/ceRecipes'
 import { YAML_STRINGIFY_OPTIONS } from './utils/yamlOptions'
+import { matchOwnedKey } from './shared/ownershipManifest'
+import { CE_OWNERSHIP } from './shared/ownershipManifests'
 
 type CEEvent = {
   type: string
@@ -17,174 +26,16 @@ type CEEvent = {
 
 type CEEventsSection = Record<string, CEEvent>
 
-function tpCommand(tp: OnboardingConfig['teleport']): string {
-  const y = tp.y ?? 64
-  const base = `console_command: tp %player% ${tp.x} ${y} ${tp.z}`
-  if (typeof tp.yaw === 'number' && typeof tp.pitch === 'number') {
-    return `${base} ${tp.yaw} ${tp.pitch}`
-  }
-  return base
-}
-
 function getAACommandId(region: RegionRecord): string {
   return region.discover.commandIdOverride || generateCommandId(region.id)
 }
 
-function formatRegionDisplayName(region: RegionRecord): string {
-  return formatRegionLabel(region)
-}
-
-const DIFFICULTY_TO_DIFF: Record<string, number> = {
-  easy: 1,
-  normal: 2,
-  hard: 3,
-  severe: 4,
-  deadly: 5,
-}
-
-function difficultyToDiff(difficulty: string | undefined): number {
-  if (!difficulty) return 0
-  return DIFFICULTY_TO_DIFF[difficulty.toLowerCase()] ?? 0
-}
-
-function recipeForRegion(region: RegionRecord): { counters: string[]; crate?: string } {
-  if (region.kind === 'village') {
-    return {
-      counters: ['Custom.villages_discovered', 'Custom.total_discovered'],
-      crate: 'VillageCrate',
-    }
-  }
-
-  if (region.kind === 'heart') {
-    if (region.world === 'nether') {
-      return {
-        counters: ['Custom.nether_hearts_discovered', 'Custom.total_discovered'],
-        crate: 'HeartCrate',
-      }
-    }
-    return {
-      counters: ['Custom.hearts_discovered', 'Custom.total_discovered'],
-      crate: 'HeartCrate',
-    }
-  }
-
-  if (region.kind === 'nerve') {
-    return {
-      counters: ['Custom.nerves_discovered', 'Custom.total_discovered'],
-      crate: 'NerveCrate',
-    }
-  }
-
-  // regular regions
-  if (region.world === 'nether') {
-    return {
-      counters: ['Custom.nether_regions_discovered', 'Custom.total_discovered'],
-      crate: 'RegionCrate',
-    }
-  }
-
-  return {
-    counters: ['Custom.regions_discovered', 'Custom.total_discovered'],
-    crate: 'RegionCrate',
-  }
-}
-
-function generateDiscoverOnceEvent(
-  region: RegionRecord,
-  regionBands?: Record<string, string>
-): CEEvent {
-  const cmd = getAACommandId(region)
-  const recipe = recipeForRegion(region)
-
-  let actions: string[]
-
-  if (region.kind === 'village') {
-    const displayName = formatRegionDisplayName(region)
-    actions = [
-      'wait: 3',
-      `console_command: aach give ${cmd} %player%`,
-      `console_message: [EXPMETRIC] server={SERVER_NAME} type=discovery entity=village player=%player% uuid=%player_uuid% region=${displayName} diff=0`,
-      `console_command: cc give virtual ${recipe.crate} 1 %player%`,
-      'wait: 6',
-      'console_command: aach add 1 Custom.villages_discovered %player%',
-      'wait: 6',
-      'console_command: aach add 1 Custom.total_discovered %player%',
-      'console_message: [EXPMETRIC] server={SERVER_NAME} type=state entity=village player=%player% uuid=%player_uuid% total=%aach_custom_total_discovered% villages=%aach_custom_villages_discovered%',
-    ]
-  } else if (region.kind === 'region') {
-    const diff = difficultyToDiff(regionBands?.[region.id])
-    const displayName = formatRegionDisplayName(region)
-    actions = [
-      'wait: 3',
-      `console_command: aach give ${cmd} %player%`,
-      `console_message: [EXPMETRIC] server={SERVER_NAME} type=discovery entity=region player=%player% uuid=%player_uuid% region=${displayName} diff=${diff}`,
-      `console_command: cc give virtual ${recipe.crate} 1 %player%`,
-    ]
-    if (region.description?.trim()) {
-      actions.push(`console_command: lp user %player% permission set bookgui.book.${region.id} true`)
-    }
-    actions.push(
-      'wait: 6',
-      `console_command: aach add 1 ${recipe.counters[0]} %player%`,
-      'wait: 6',
-      `console_command: aach add 1 ${recipe.counters[1]} %player%`,
-      'console_message: [EXPMETRIC] server={SERVER_NAME} type=state entity=region player=%player% uuid=%player_uuid% total=%aach_custom_total_discovered% regions=%aach_custom_regions_discovered%'
-    )
-  } else if (region.kind === 'nerve') {
-    const parentRegionId = region.id.startsWith('nerve_of_') ? region.id.slice(9) : region.id
-    const parentDisplayName = formatRegionTitle(parentRegionId)
-    actions = [
-      `console_command: aach give ${cmd} %player%`,
-      `console_message: [EXPMETRIC] server={SERVER_NAME} type=discovery entity=nerve player=%player% uuid=%player_uuid% region=${parentDisplayName} diff=0`,
-      `console_command: cc give virtual ${recipe.crate} 1 %player%`,
-      'wait: 6',
-      `console_command: aach add 1 ${recipe.counters[0]} %player%`,
-      'wait: 6',
-      `console_command: aach add 1 ${recipe.counters[1]} %player%`,
-      'console_message: [EXPMETRIC] server={SERVER_NAME} type=state entity=nerve player=%player% uuid=%player_uuid% total=%aach_custom_total_discovered% nerves=%aach_custom_nerves_discovered%',
-    ]
-  } else {
-    const parentRegionId = region.id.startsWith('heart_of_') ? region.id.slice(9) : region.id
-    const parentDisplayName = formatRegionTitle(parentRegionId)
-    actions = [
-      `console_command: aach give ${cmd} %player%`,
-      `console_message: [EXPMETRIC] server={SERVER_NAME} type=discovery entity=heart player=%player% uuid=%player_uuid% region=${parentDisplayName} diff=0`,
-      `console_command: cc give virtual ${recipe.crate} 1 %player%`,
-      'wait: 6',
-      `console_command: aach add 1 ${recipe.counters[0]} %player%`,
-      'wait: 6',
-      `console_command: aach add 1 ${recipe.counters[1]} %player%`,
-      'console_message: [EXPMETRIC] server={SERVER_NAME} type=state entity=heart player=%player% uuid=%player_uuid% total=%aach_custom_total_discovered% hearts=%aach_custom_hearts_discovered%',
-    ]
-  }
-
+function generateDiscoverOnceEvent(recipe: CeActionRecipe, context: CeRecipeContext): CEEvent {
   return {
     type: 'wgevents_region_enter',
     one_time: true,
-    conditions: [`%region% == ${region.id}`],
-    actions: { default: actions },
-  }
-}
-
-function generateStructureDiscoverOnceEvent(region: RegionRecord, customCounter: string): CEEvent {
-  const cmd = getAACommandId(region)
-  const displayName = formatRegionDisplayName(region)
-  return {
-    type: 'wgevents_region_enter',
-    one_time: true,
-    conditions: [`%region% == ${region.id}`],
-    actions: {
-      default: [
-        'wait: 3',
-        `console_command: aach give ${cmd} %player%`,
-        `console_message: [EXPMETRIC] server={SERVER_NAME} type=discovery entity=structure player=%player% uuid=%player_uuid% region=${displayName} diff=0`,
-        'wait: 6',
-        `console_command: aach add 1 Custom.${customCounter} %player%`,
-        'wait: 6',
-        'console_command: aach add 1 Custom.structures_found %player%',
-        `console_message: [EXPMETRIC] server={SERVER_NAME} type=state entity=structure player=%player% uuid=%player_uuid% ${customCounter}=%aach_custom_${customCounter}% structures_found=%aach_custom_structures_found%`,
-      ],
-    },
+    conditions: [`%region% == ${context.regionId}`],
+    actions: { default: renderCeRecipe(recipe, context) },
   }
 }
 
@@ -242,59 +93,15 @@ function generateRegionNerveDiscoverOnce(): CEEvent {
 function generateFirstJoinEvent(
   onboarding: OnboardingConfig,
   regions: RegionRecord[],
-  regionBands?: Record<string, string>
+  recipe: CeActionRecipe,
+  regionBands?: Record<string, string>,
+  crateStems?: Record<string, string>
 ): CEEvent {
-  const tp = tpCommand(onboarding.teleport)
-  const startRegion =
-    regions.find((r) => r.id === onboarding.startRegionId && r.world === 'overworld') ||
-    regions.find((r) => r.id === onboarding.startRegionId)
-  const hasStartRegionWithDescription =
-    startRegion?.description?.trim() &&
-    startRegion.kind !== 'village' &&
-    startRegion.kind !== 'heart' &&
-    startRegion.kind !== 'nerve'
-
-  const startRegionId = startRegion?.id ?? onboarding.startRegionId
-  const startDisplayName = startRegion ? formatRegionDisplayName(startRegion) : startRegionId
-  const startDiff = difficultyToDiff(regionBands?.[startRegionId])
-  const actions: string[] = [
-    tp,
-    'wait: 1',
-    'title: 20;100;20;Welcome to {SERVER_NAME};Where the journey matters',
-    'wait: 10',
-    'console_command: aach give {START_REGION_AACH} %player%',
-    `console_message: [EXPMETRIC] server={SERVER_NAME} type=discovery entity=region player=%player% uuid=%player_uuid% region=${startDisplayName} diff=${startDiff}`,
-    'console_command: aach add 1 Custom.regions_discovered %player%',
-  ]
-
-  if (hasStartRegionWithDescription) {
-    actions.push(
-      `console_command: lp user %player% permission set bookgui.book.${startRegion!.id} true`
-    )
-  }
-
-  actions.push(
-    'wait: 10',
-    'console_command: aach add 1 Custom.total_discovered %player%',
-    'title: 20;100;20;Your first reward!;Open crates with /cc',
-    'console_command: cc give virtual RegionCrate 1 %player%',
-    'wait: 30',
-    'message: &bFor help on how to play use &e/guides'
-  )
-
-  if (hasStartRegionWithDescription) {
-    const displayName = formatRegionDisplayName(startRegion!)
-    actions.push('wait: 30', `message: &bCurious about ${displayName}? &e/lore ${startRegion!.id}`)
-  }
-
-  actions.push(
-    'console_message: [EXPMETRIC] server={SERVER_NAME} type=state entity=region player=%player% uuid=%player_uuid% total=%aach_custom_total_discovered% regions=%aach_custom_regions_discovered%'
-  )
-
+  const context = firstJoinRecipeContext(onboarding, regions, regionBands, crateStems)
   return {
     type: 'player_join',
     one_time: true,
-    actions: { default: actions },
+    actions: { default: renderCeRecipe(recipe, context) },
   }
 }
 
@@ -308,6 +115,8 @@ export const CE_OWNED_FRAGMENT_BASENAMES = [
   'overworld-structures',
   'nether-regions',
   'nether-hearts',
+  'end-regions',
+  'end-hearts',
 ] as const
 
 export type CEOwnedFragmentBasename = (typeof CE_OWNED_FRAGMENT_BASENAMES)[number]
@@ -321,18 +130,6 @@ export const CE_EVENT_FRAGMENT_BASENAMES = [
 
 export type CEEventFragmentBasename = (typeof CE_EVENT_FRAGMENT_BASENAMES)[number]
 
-export function isEnchantmentCallEventKey(key: string): boolean {
-  return key.startsWith('get_book_')
-}
-
-export function isPotionCallEventKey(key: string): boolean {
-  return key.startsWith('get_potion_')
-}
-
-export function isServerCoreRelocatedEventKey(key: string): boolean {
-  return key === 'world_change' || key === 'store_reminder_on_join'
-}
-
 function sortEventsKeys(events: CEEventsSection): CEEventsSection {
   const sorted: CEEventsSection = {}
   for (const k of Object.keys(events).sort()) {
@@ -365,6 +162,9 @@ function classifyOwnedEventFragment(key: string, regions: RegionRecord[]): CEOwn
     return 'overworld-regions'
   }
 
+  if (region.world === 'end') {
+    return region.kind === 'heart' ? 'end-hearts' : 'end-regions'
+  }
   if (region.kind === 'structure') {
     return region.world === 'nether' ? 'nether-regions' : 'overworld-structures'
   }
@@ -414,15 +214,20 @@ export function getStartRegionAachId(
   return startRegion ? getAACommandId(startRegion) : generateCommandId(startId)
 }
 
+/**
+ * @param crateStems CrazyCrates library id → output stem for regions with a reward crate override
+ */
 export function generateOwnedCEEvents(
   regions: RegionRecord[],
   onboarding: OnboardingConfig,
   regionBands?: Record<string, string>,
-  structureFamilies?: StructureFamiliesMap
+  structureFamilies?: StructureFamiliesMap,
+  recipes: CeRecipes = DEFAULT_CE_RECIPES,
+  crateStems: Record<string, string> = {}
 ): CEEventsSection {
   const owned: CEEventsSection = {}
 
-  owned.first_join = generateFirstJoinEvent(onboarding, regions, regionBands)
+  owned.first_join = generateFirstJoinEvent(onboarding, regions, recipes.first_join, regionBands, crateStems)
   owned.join_log = generateJoinLogEvent()
   owned.leave_log = generateLeaveLogEvent()
   owned.region_heart_discover_once = generateRegionHeartDiscoverOnce()
@@ -461,27 +266,17 @@ export function generateOwnedCEEvents(
   ].sort((a, b) => a.key.localeCompare(b.key))
 
   for (const entry of discoverEntries) {
+    const context = ceRecipeContext(entry.region, regionBands, crateStems)
     if (entry.variant === 'structure') {
-      owned[entry.key] = generateStructureDiscoverOnceEvent(entry.region, entry.counter)
+      owned[entry.key] = generateDiscoverOnceEvent(recipes.structure, { ...context, counter: entry.counter })
     } else {
-      owned[entry.key] = generateDiscoverOnceEvent(entry.region, regionBands)
+      owned[entry.key] = generateDiscoverOnceEvent(recipes[discoveryRecipeKey(entry.region)!], context)
     }
   }
 
   return owned
 }
 
-export function isOwnedEventKey(key: string): boolean {
-  return (
-    key === 'first_join' ||
-    key === 'join_log' ||
-    key === 'leave_log' ||
-    key === 'region_heart_discover_once' ||
-    key === 'region_nerve_discover_once' ||
-    key.endsWith('_discover_once')
-  )
-}
-
 export interface CEConfigBundle {
   /** Main `config.yml` body: Config, Messages, Events (preserved only — no owned/relocated keys). */
   mainYaml: string
@@ -509,23 +304,19 @@ export function buildCEConfigBundle(
   const existingEvents = (config.Events || {}) as Record<string, unknown>
   const preservedMain: Record<string, unknown> = {}
 
+  const relocated: Record<string, Record<string, CEEvent>> = {
+    'server-core': ownedByFragment['server-core'],
+    enchantments: enchantmentEvents,
+    potions: potionEvents,
+  }
+
   for (const key of Object.keys(existingEvents).sort()) {
-    if (isOwnedEventKey(key)) {
-      continue
-    }
-    if (isEnchantmentCallEventKey(key)) {
-      enchantmentEvents[key] = existingEvents[key] as CEEvent
-      continue
-    }
-    if (isPotionCallEventKey(key)) {
-      potionEvents[key] = existingEvents[key] as CEEvent
-      continue
-    }
-    if (isServerCoreRelocatedEventKey(key)) {
-      ownedByFragment['server-core'][key] = existingEvents[key] as CEEvent
-      continue
+    const rule = matchOwnedKey(CE_OWNERSHIP, ['Events', key])
+    if (!rule) {
+      preservedMain[key] = existingEvents[key]
+    } else if (rule.relocatedTo) {
+      relocated[rule.relocatedTo][key] = existingEvents[key] as CEEvent
     }
-    preservedMain[key] = existingEvents[key]
   }
 
   config.Events = preservedMain
@@ -557,9 +348,5 @@ module.exports = {
   partitionOwnedCEEventsForFragments,
   CE_EVENT_FRAGMENT_BASENAMES,
   CE_OWNED_FRAGMENT_BASENAMES,
-  isEnchantmentCallEventKey,
-  isPotionCallEventKey,
-  isServerCoreRelocatedEventKey,
-  isOwnedEventKey,
 }
 
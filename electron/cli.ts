@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+/**
+ * Headless CLI (`mcpm`): runs the same build as the build-configs IPC handler without
+ * launching Electron. Run `npm run build:electron` first so bundled templates are copied.
+ */
+const { join } = require('path')
+const storage = require('./storage')
+const { runBuild } = require('./build/runBuild')
+
+import type { BuildResult, BuildReport, DiffGateReport, ServerProfile } from './types'
+import { CLI_USAGE, parseCliArgs, toBuildRequestInputs } from './utils/cliArgs'
+
+const EXIT_OK = 0
+const EXIT_BUILD_FAILED = 1
+const EXIT_USAGE = 2
+
+function resolveDataDirectory(explicit: string | undefined): string {
+  const fromEnv = String(process.env.MCPM_DATA_DIR ?? '').trim()
+  return explicit || fromEnv || join(storage.getDefaultUserDataPath(), 'mc-plugin-manager-data')
+}
+
+function formatYamlValue(value: unknown): string {
+  return value === undefined ? '(none)' : JSON.stringify(value)
+}
+
+function printDiffGate(gate: DiffGateReport): void {
+  console.error(`  template: ${gate.templatePath}`)
+  for (const v of gate.violations) {
+    console.error(`  ${v.kind} ${v.path.join('.')}`)
+    if (v.kind !== 'added') console.error(`    before: ${formatYamlValue(v.before)}`)
+    if (v.kind !== 'removed') console.error(`    after:  ${formatYamlValue(v.after)}`)
+    console.error(`    would need ownership rule: ${v.coveringRule}`)
+  }
+  console.error(`  To accept this drift once, re-run with --accept-drift ${gate.plugin}=${gate.fingerprint}`)
+}
+
+function main(argv: string[]): number {
+  const parsed = parseCliArgs(argv)
+  if (!parsed.ok) {
+    console.error(`Error: ${parsed.error}\n`)
+    console.error(CLI_USAGE)
+    return EXIT_USAGE
+  }
+  const cmd = parsed.value
+  if (cmd.command === 'help') {
+    console.log(CLI_USAGE)
+    return EXIT_OK
+  }
+
+  storage.setDataDirectory(resolveDataDirectory(cmd.dataDir))
+
+  if (cmd.command === 'list-servers') {
+    for (const id of storage.listServerIds() as string[]) {
+      const profile: ServerProfile | null = storage.loadServerProfile(id)
+      console.log(profile ? `${id}\t${profile.name}` : id)
+    }
+    return EXIT_OK
+  }
+
+  const profile: ServerProfile | null = storage.loadServerProfile(cmd.options.serverId)
+  if (!profile) {
+    console.error(`Server profile not found: ${cmd.options.serverId} (data directory: ${storage.getDataDirectory()})`)
+    return EXIT_BUILD_FAILED
+  }
+  const inputs = toBuildRequestInputs(cmd.options, profile)
+  const result: BuildResult = runBuild(cmd.options.serverId, inputs)
+  if (!result.success) {
+    console.error(`Build failed${result.buildId ? ` (${result.buildId})` : ''}: ${result.error ?? 'unknown error'}`)
+    if (result.diffGate) printDiffGate(result.diffGate)
+    return EXIT_BUILD_FAILED
+  }
+
+  const report: BuildReport | null = result.buildId
+    ? storage.loadBuildReport(cmd.options.serverId, result.buildId)
+    : null
+  console.log(`Build ${result.buildId} complete → ${inputs.outDir}`)
+  for (const [plugin, source] of Object.entries(result.configSources ?? {})) {
+    if (!source) continue
+    const origin = source.template
+      ? `template ${source.template.name} v${source.template.version}`
+      : source.isDefault
+        ? 'bundled default'
+        : source.path
+    console.log(`  ${plugin}: ${origin}${source.sha256 ? ` (sha256 ${source.sha256.slice(0, 12)})` : ''}`)
+  }
+  for (const w of report?.warnings ?? []) {
+    console.warn(`  warning: ${w}`)
+  }
+  for (const gate of report?.acceptedDrift ?? []) {
+    console.warn(`  accepted drift: ${gate.plugin} ${gate.fingerprint} (${gate.violations.length} change(s))`)
+  }
+  if (result.buildId) {
+    console.log(`Report: ${storage.getBuildReportPath(cmd.options.serverId, result.buildId)}`)
+  }
+  return EXIT_OK
+}
+
+process.exitCode = main(process.argv.slice(2))
@@ -1,13 +1,14 @@
-const { existsSync, readFileSync, writeFileSync, mkdirSync } = require('fs')
+const { existsSync, mkdirSync } = require('fs')
 const { join } = require('path')
 
 import type { CrateLibraryEntry, CratePrizeEntry } from './types'
-import { getDataDirectory } from './storage'
+import { getDataDirectory, writeJsonWithBackup } from './storage'
+import { loadLibraryJsonFile, CURRENT_SCHEMA_VERSIONS } from './utils/schemaMigrations'
 
 const FILE_NAME = 'crazy-crates-library.json'
 
 interface LibraryFileShape {
-  version: number
+  schemaVersion: number
   crates: CrateLibraryEntry[]
 }
 
@@ -72,24 +73,11 @@ function normalizeEntry(row: CrateLibraryEntry): CrateLibraryEntry {
 }
 
 export function loadCrateLibrary(): CrateLibraryEntry[] {
-  const p = getLibraryPath()
-  if (!existsSync(p)) {
-    return []
-  }
-  try {
-    const raw = JSON.parse(readFileSync(p, 'utf-8')) as unknown
-    if (!raw || typeof raw !== 'object') {
-      return []
-    }
-    const obj = raw as Record<string, unknown>
-    if (Array.isArray(obj.crates)) {
-      return obj.crates.filter(isValidLibraryEntry).map(normalizeEntry)
-    }
-    return []
-  } catch (e) {
-    console.error('Failed to load CrazyCrates library:', e)
+  const obj = loadLibraryJsonFile('crateLibrary', getLibraryPath())
+  if (!obj || !Array.isArray(obj.crates)) {
     return []
   }
+  return obj.crates.filter(isValidLibraryEntry).map(normalizeEntry)
 }
 
 export function saveCrateLibrary(crates: CrateLibraryEntry[]): void {
@@ -97,8 +85,8 @@ export function saveCrateLibrary(crates: CrateLibraryEntry[]): void {
   if (!existsSync(dataDir)) {
     mkdirSync(dataDir, { recursive: true })
   }
-  const payload: LibraryFileShape = { version: 1, crates }
-  writeFileSync(getLibraryPath(), JSON.stringify(payload, null, 2), 'utf-8')
+  const payload: LibraryFileShape = { schemaVersion: CURRENT_SCHEMA_VERSIONS.crateLibrary, crates }
+  writeJsonWithBackup(getLibraryPath(), payload)
 }
 
 export function getCrateLibraryPath(): string {
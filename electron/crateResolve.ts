@@ -57,6 +57,38 @@ export function resolveCrazyCratesForServer(profile: ServerProfile): {
   return { crates, warnings, usedLibraryAssignment: true }
 }
 
+/**
+ * Output stems for region reward crate overrides (library id → stem). Unknown ids fall back to the
+ * recipe crate; crates not assigned to the server still resolve but are never written, so both warn.
+ */
+export function resolveRegionRewardCrates(profile: ServerProfile): {
+  crateStems: Record<string, string>
+  warnings: string[]
+} {
+  const crateStems: Record<string, string> = {}
+  const warnings: string[] = []
+  const rewarded = profile.regions.filter((r) => r.rewards?.crateLibraryId)
+  if (rewarded.length === 0) return { crateStems, warnings }
+
+  const byId = new Map(loadCrateLibrary().map((e) => [e.id, e]))
+  const assigned = new Set(profile.crazyCrates?.libraryCrateIds ?? [])
+  for (const region of rewarded) {
+    const id = region.rewards!.crateLibraryId!
+    const entry = byId.get(id)
+    if (!entry || !entry.outputStem.trim()) {
+      warnings.push(`Region ${region.world}:${region.id}: reward crate "${id}" is not in the CrazyCrates library — using the recipe crate`)
+      continue
+    }
+    crateStems[id] = entry.outputStem.trim()
+    if (!assigned.has(id)) {
+      warnings.push(
+        `Region ${region.world}:${region.id}: reward crate "${entry.name}" is not assigned to this server, so CrazyCrates will not have it`
+      )
+    }
+  }
+  return { crateStems, warnings }
+}
+
 export function findServersReferencingLibraryCrate(crateId: string): { id: string; name: string }[] {
   const out: { id: string; name: string }[] = []
   for (const id of listServerIds()) {
@@ -2,7 +2,7 @@ import { describe, it, expect } from 'vitest'
 import { readFileSync } from 'fs'
 import path from 'path'
 import { prependGeneratorVersionHeader } from './utils/generatorVersionHeader'
-import { validateTABDiff } from './diffValidator'
+import { collectViolations, diffGateFingerprint, validateTABDiff } from './diffValidator'
 
 describe('diffValidator generator header strip', () => {
   it('TAB diff passes when only the generator stamp differs from template', () => {
@@ -27,4 +27,48 @@ describe('diffValidator generator header strip', () => {
     const result = validateTABDiff(tabTemplate, withHeader)
     expect(result.valid, result.error).toBe(true)
   })
+
+  it('TAB diff fails on a non-owned change and ignores owned conditions', () => {
+    const tabTemplate = path.join(
+      process.cwd(),
+      'reference',
+      'plugin config files',
+      'to be bundled',
+      'tab-config.yml'
+    )
+    const templateBody = readFileSync(tabTemplate, 'utf-8')
+
+    const ownedEdit = templateBody.replace(/^  top-explorers-title:\n/m, '  top-explorers-title:\n    changed: true\n')
+    expect(ownedEdit).not.toBe(templateBody)
+    expect(validateTABDiff(tabTemplate, ownedEdit).valid).toBe(true)
+
+    const foreignEdit = templateBody.replace(/^conditions:\n/m, 'conditions:\n  added-by-generator: yes\n')
+    const result = validateTABDiff(tabTemplate, foreignEdit)
+    expect(result.valid).toBe(false)
+    expect(result.violations).toEqual([
+      { path: ['conditions', 'added-by-generator'], kind: 'added', after: 'yes', coveringRule: 'conditions.added-by-generator' },
+    ])
+  })
+})
+
+describe('collectViolations', () => {
+  it('reports added, removed and changed leaves with list indices', () => {
+    const before = { a: { x: 1, gone: true }, list: [1, 2], short: [1] }
+    const after = { a: { x: 2, extra: 'n' }, list: [1, 3], short: [1, 2] }
+    expect(collectViolations(before, after)).toEqual([
+      { path: ['a', 'x'], kind: 'changed', before: 1, after: 2, coveringRule: 'a.x' },
+      { path: ['a', 'gone'], kind: 'removed', before: true, coveringRule: 'a.gone' },
+      { path: ['a', 'extra'], kind: 'added', after: 'n', coveringRule: 'a.extra' },
+      { path: ['list', 1], kind: 'changed', before: 2, after: 3, coveringRule: 'list[]' },
+      { path: ['short'], kind: 'changed', before: [1], after: [1, 2], coveringRule: 'short' },
+    ])
+  })
+
+  it('fingerprints depend on the violations, not just the plugin', () => {
+    const one = collectViolations({ a: 1 }, { a: 2 })
+    const two = collectViolations({ a: 1 }, { a: 3 })
+    expect(diffGateFingerprint('tab', one)).toBe(diffGateFingerprint('tab', one))
+    expect(diffGateFingerprint('tab', one)).not.toBe(diffGateFingerprint('tab', two))
+    expect(diffGateFingerprint('tab', one)).not.toBe(diffGateFingerprint('aa', one))
+  })
 })
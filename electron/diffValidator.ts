@@ -1,470 +1,128 @@
 import { stripGeneratorVersionCommentLines } from './utils/generatorVersionHeader'
-import { isServerCoreRelocatedEventKey } from './ceGenerator'
+import type { OwnershipManifest } from './shared/ownershipManifest'
+import { coveringRulePath, ownerContentView } from './shared/ownershipManifest'
+import type { DiffGateViolation } from './types'
+import {
+  AA_OWNERSHIP,
+  CE_OWNERSHIP,
+  TAB_OWNERSHIP,
+  LM_OWNERSHIP,
+  lmCustomDropsOwnership,
+} from './shared/ownershipManifests'
 
 const yaml = require('yaml')
 const { readFileSync } = require('fs')
+const { createHash } = require('crypto')
 
-/**
- * Remove owned sections from AA config for comparison
- * Owned sections:
- * - Commands (entire section)
- * - Custom.villages_discovered
- * - Custom.regions_discovered
- * - Custom.hearts_discovered
- * - Custom.nerves_discovered
- * - Custom.nether_regions_discovered
- * - Custom.nether_hearts_discovered
- * - Custom.structures_found (rollup; also matched by *_found strip below)
- * - Custom.total_discovered (percent tiers from exploration total)
- * - Custom.<counter> for structure families (keys ending in _found, e.g. ancient_cities_found)
- */
-function removeOwnedAASections(config: Record<string, unknown>): Record<string, unknown> {
-  const cleaned = { ...config } as Record<string, unknown>
-  
-  delete cleaned.Commands
-  
-  if (cleaned.Custom && typeof cleaned.Custom === 'object' && !Array.isArray(cleaned.Custom)) {
-    cleaned.Custom = { ...(cleaned.Custom as Record<string, unknown>) }
-    const custom = cleaned.Custom as Record<string, unknown>
-    delete custom.villages_discovered
-    delete custom.regions_discovered
-    delete custom.hearts_discovered
-    delete custom.nerves_discovered
-    delete custom.nether_regions_discovered
-    delete custom.nether_hearts_discovered
-    delete custom.total_discovered
-    for (const k of Object.keys(custom)) {
-      if (/_found$/.test(k)) {
-        delete custom[k]
-      }
-    }
-  }
-  
-  return cleaned
-}
-
-function removeOwnedCESections(config: Record<string, unknown>): Record<string, unknown> {
-  const cleaned = { ...config } as Record<string, unknown>
-  
-  if (cleaned.Events && typeof cleaned.Events === 'object' && !Array.isArray(cleaned.Events)) {
-    const cleanedEvents: Record<string, unknown> = {}
-    
-    for (const [key, value] of Object.entries(cleaned.Events)) {
-      // Owned events:
-      // - *_discover_once
-      // - region_heart_discover_once
-      // - region_nerve_discover_once
-      // - first_join
-      // - join_log
-      // - leave_log
-      // Relocated to event fragments:
-      // - world_change, store_reminder_on_join (server-core)
-      // - get_book_* (CALL enchanted book rewards)
-      // - get_potion_* (CALL potion rewards)
-      const isOwned =
-        key.endsWith('_discover_once') ||
-        key === 'region_heart_discover_once' ||
-        key === 'region_nerve_discover_once' ||
-        key === 'first_join' ||
-        key === 'join_log' ||
-        key === 'leave_log'
-      const isEnchantmentFragment = key.startsWith('get_book_')
-      const isPotionFragment = key.startsWith('get_potion_')
-      const isRelocatedServerCoreEvent = isServerCoreRelocatedEventKey(key)
+export type DiffValidationResult = { valid: boolean; error?: string; violations?: DiffGateViolation[] }
 
-      if (!isOwned && !isEnchantmentFragment && !isPotionFragment && !isRelocatedServerCoreEvent) {
-        cleanedEvents[key] = value
-      }
-    }
-    
-    cleaned.Events = cleanedEvents
-  }
-  
-  return cleaned
+function isMap(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value)
 }
 
-function removeOwnedTABSections(config: Record<string, unknown>): Record<string, unknown> {
-  const cleaned = { ...config } as Record<string, unknown>
-  
-  if (cleaned['header-footer'] && typeof cleaned['header-footer'] === 'object' && !Array.isArray(cleaned['header-footer'])) {
-    const cleanedHeaderFooter = { ...(cleaned['header-footer'] as Record<string, unknown>) }
-    delete cleanedHeaderFooter.header
-    delete cleanedHeaderFooter.footer
-    const designs = cleanedHeaderFooter.designs as Record<string, unknown> | undefined
-    if (designs && typeof designs === 'object' && designs.default && typeof designs.default === 'object') {
-      const def = { ...(designs.default as Record<string, unknown>) }
-      delete def.header
-      delete def.footer
-      designs.default = def
-    }
-    if (Object.keys(cleanedHeaderFooter).length === 0) {
-      delete cleaned['header-footer']
-    } else {
-      cleaned['header-footer'] = cleanedHeaderFooter
-    }
-  }
-  
-  // Remove all scoreboard sections (entire scoreboards section is owned/replaced)
-  // Also normalize enabled field since we always set it to true
-  if (cleaned.scoreboard && typeof cleaned.scoreboard === 'object') {
-    const sb = cleaned.scoreboard as Record<string, unknown>
-    if (sb.scoreboards) delete sb.scoreboards
-    sb.enabled = true
-  }
-  
-  if (cleaned.conditions && typeof cleaned.conditions === 'object' && !Array.isArray(cleaned.conditions)) {
-    const cleanedConditions: Record<string, unknown> = {}
-    for (const [key, value] of Object.entries(cleaned.conditions as Record<string, unknown>)) {
-      // Owned conditions:
-      // - top-explorers-title, top-explorer-1 through top-explorer-5
-      // - region-name-easy, region-name-normal, region-name-hard, region-name-severe, region-name-deadly
-      // - structure-name, village-name (mergeTABConfig regenerates from profile; normalize via static block below)
-      const isOwned =
-        key === 'top-explorers-title' ||
-        key === 'top-explorer-1' ||
-        key === 'top-explorer-2' ||
-        key === 'top-explorer-3' ||
-        key === 'top-explorer-4' ||
-        key === 'top-explorer-5' ||
-        key === 'region-name-easy' ||
-        key === 'region-name-normal' ||
-        key === 'region-name-hard' ||
-        key === 'region-name-severe' ||
-        key === 'region-name-deadly' ||
-        key === 'structure-name' ||
-        key === 'village-name'
-      
-      if (!isOwned) {
-        cleanedConditions[key] = value
-      }
-    }
-    cleaned.conditions = cleanedConditions
-  } else {
-    cleaned.conditions = {}
-  }
-
-  // Normalize static conditions (add if missing, same as in mergeTABConfig)
-  // This ensures both original and generated configs have the same static conditions
-  const staticConditions = {
-    'region-name': {
-      conditions: ['%worldguard_region_name_2%!='],
-      type: 'AND',
-      true: '%capitalize_pascal-case-forced_{worldguard_region_name_2}%',
-      false: '%capitalize_pascal-case-forced_{worldguard_region_name_1}%',
-    },
-    'village-name': {
-      conditions: [
-        '%worldguard_region_name_2%!=',
-        '%worldguard_region_name_1%!=%worldguard_region_name_2%',
-        '%worldguard_region_name_1%!=spawn',
-      ],
-      type: 'AND',
-      true: '%condition:heart-region%',
-      false: '-',
-    },
-    'heart-region': {
-      conditions: ['%worldguard_region_name_1%|-heart'],
-      true: '-',
-      false: '%capitalize_pascal-case-forced_{worldguard_region_name_1}%',
-    },
-  }
-
-  const conditions = cleaned.conditions as Record<string, unknown>
-  for (const [key, value] of Object.entries(staticConditions)) {
-    if (!conditions[key]) conditions[key] = value
-  }
-  
-  return cleaned
-}
-
-function deepEqual(a: unknown, b: unknown, path: string = ''): { equal: boolean; differences: string[] } {
-  const differences: string[] = []
-  
-  if (a === b) {
-    return { equal: true, differences }
-  }
-  
-  if (a == null || b == null) {
-    differences.push(`${path}: ${a} !== ${b}`)
-    return { equal: false, differences }
-  }
-  
-  if (typeof a !== typeof b) {
-    differences.push(`${path}: type mismatch (${typeof a} vs ${typeof b})`)
-    return { equal: false, differences }
-  }
-  
-  if (typeof a !== 'object' || a === null || typeof b !== 'object' || b === null) {
-    differences.push(`${path}: ${String(a)} !== ${String(b)}`)
-    return { equal: false, differences }
-  }
-  
-  if (Array.isArray(a) !== Array.isArray(b)) {
-    differences.push(`${path}: array vs non-array mismatch`)
-    return { equal: false, differences }
-  }
-  
-  if (Array.isArray(a) && Array.isArray(b)) {
-    if (a.length !== b.length) {
-      differences.push(`${path}: array length mismatch (${a.length} vs ${b.length})`)
-      return { equal: false, differences }
-    }
-    
-    for (let i = 0; i < a.length; i++) {
-      const result = deepEqual(a[i], b[i], `${path}[${i}]`)
-      if (!result.equal) {
-        differences.push(...result.differences)
-      }
-    }
-  } else {
-    const oa = a as Record<string, unknown>
-    const ob = b as Record<string, unknown>
-    const keysA = Object.keys(oa).sort()
-    const keysB = Object.keys(ob).sort()
-    
-    if (keysA.length !== keysB.length) {
-      differences.push(`${path}: object key count mismatch (${keysA.length} vs ${keysB.length})`)
-    }
-    
-    const allKeys = new Set([...keysA, ...keysB])
-    for (const key of allKeys) {
-      const newPath = path ? `${path}.${key}` : key
-      if (!(key in oa)) {
-        differences.push(`${newPath}: missing in original`)
-      } else if (!(key in ob)) {
-        differences.push(`${newPath}: missing in generated`)
-      } else {
-        const result = deepEqual(oa[key], ob[key], newPath)
-        if (!result.equal) {
-          differences.push(...result.differences)
-        }
-      }
-    }
-  }
-  
+function violation(
+  path: Array<string | number>,
+  kind: DiffGateViolation['kind'],
+  before: unknown,
+  after: unknown
+): DiffGateViolation {
   return {
-    equal: differences.length === 0,
-    differences,
+    path,
+    kind,
+    ...(kind !== 'added' ? { before } : {}),
+    ...(kind !== 'removed' ? { after } : {}),
+    coveringRule: coveringRulePath(path),
   }
 }
 
 /**
- * Validate that only owned sections changed in AA config
+ * Walk template (`a`) and generated (`b`) together; maps are compared key by key, lists element by
+ * element when their lengths match, anything else as a whole.
  */
-export function validateAADiff(
-  originalPath: string,
-  generatedContent: string
-): { valid: boolean; error?: string; differences?: string[] } {
-  try {
-    // Read and parse original
-    const originalContent = stripGeneratorVersionCommentLines(readFileSync(originalPath, 'utf-8'))
-    const original = yaml.parse(originalContent)
-    const originalCleaned = removeOwnedAASections(original)
-    
-    // Parse generated
-    const generated = yaml.parse(stripGeneratorVersionCommentLines(generatedContent))
-    const generatedCleaned = removeOwnedAASections(generated)
-    
-    // Compare
-    const result = deepEqual(originalCleaned, generatedCleaned)
-    
-    if (!result.equal) {
-      return {
-        valid: false,
-        error: 'Non-owned sections changed in AdvancedAchievements config',
-        differences: result.differences,
-      }
+export function collectViolations(a: unknown, b: unknown, path: Array<string | number> = []): DiffGateViolation[] {
+  if (a === b) return []
+  if (isMap(a) && isMap(b)) {
+    const out: DiffGateViolation[] = []
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      if (!(key in a)) out.push(violation([...path, key], 'added', undefined, b[key]))
+      else if (!(key in b)) out.push(violation([...path, key], 'removed', a[key], undefined))
+      else out.push(...collectViolations(a[key], b[key], [...path, key]))
     }
-    
-    return { valid: true }
-  } catch (error: unknown) {
-    const msg = error instanceof Error ? error.message : String(error)
-    return { valid: false, error: `Failed to validate AA diff: ${msg}` }
+    return out
   }
-}
-
-/**
- * Validate that only owned sections changed in CE config
- */
-export function validateCEDiff(
-  originalPath: string,
-  generatedContent: string
-): { valid: boolean; error?: string; differences?: string[] } {
-  try {
-    // Read and parse original
-    const originalContent = stripGeneratorVersionCommentLines(readFileSync(originalPath, 'utf-8'))
-    const original = yaml.parse(originalContent)
-    const originalCleaned = removeOwnedCESections(original)
-    
-    // Parse generated
-    const generated = yaml.parse(stripGeneratorVersionCommentLines(generatedContent))
-    const generatedCleaned = removeOwnedCESections(generated)
-    
-    // Compare
-    const result = deepEqual(originalCleaned, generatedCleaned)
-    
-    if (!result.equal) {
-      return {
-        valid: false,
-        error: 'Non-owned sections changed in ConditionalEvents config',
-        differences: result.differences,
-      }
-    }
-    
-    return { valid: true }
-  } catch (error: unknown) {
-    const msg = error instanceof Error ? error.message : String(error)
-    return { valid: false, error: `Failed to validate CE diff: ${msg}` }
+  if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    return a.flatMap((item, i) => collectViolations(item, b[i], [...path, i]))
   }
+  return [violation(path, 'changed', a, b)]
 }
 
 /**
- * Validate that only owned sections changed in TAB config
+ * Compare the template with the generated file outside the manifest's owned keys; any other
+ * change fails the build.
  */
-export function validateTABDiff(
+function validateOwnedDiff(
+  manifest: OwnershipManifest,
   originalPath: string,
-  generatedContent: string
-): { valid: boolean; error?: string; differences?: string[] } {
+  generatedContent: string,
+  pluginLabel: string,
+  shortName: string
+): DiffValidationResult {
   try {
-    // Read and parse original
-    const originalContent = stripGeneratorVersionCommentLines(readFileSync(originalPath, 'utf-8'))
-    const original = yaml.parse(originalContent)
-    const originalCleaned = removeOwnedTABSections(original)
-    
-    // Parse generated
+    const original = yaml.parse(stripGeneratorVersionCommentLines(readFileSync(originalPath, 'utf-8')))
     const generated = yaml.parse(stripGeneratorVersionCommentLines(generatedContent))
-    const generatedCleaned = removeOwnedTABSections(generated)
-    
-    // Compare
-    const result = deepEqual(originalCleaned, generatedCleaned)
-    
-    if (!result.equal) {
+
+    const violations = collectViolations(
+      ownerContentView(manifest, original),
+      ownerContentView(manifest, generated, original)
+    )
+
+    if (violations.length > 0) {
       return {
         valid: false,
-        error: 'Non-owned sections changed in TAB config',
-        differences: result.differences,
+        error: `Non-owned sections changed in ${pluginLabel} config`,
+        violations,
       }
     }
-    
+
     return { valid: true }
   } catch (error: unknown) {
     const msg = error instanceof Error ? error.message : String(error)
-    return { valid: false, error: `Failed to validate TAB diff: ${msg}` }
+    return { valid: false, error: `Failed to validate ${shortName} diff: ${msg}` }
   }
 }
 
-function removeOwnedLMSections(config: Record<string, unknown>): Record<string, unknown> {
-  const cleaned = { ...config } as Record<string, unknown>
-  
-  if (cleaned['custom-rules'] && Array.isArray(cleaned['custom-rules'])) {
-    const cleanedRules: unknown[] = []
-    
-    for (const rule of cleaned['custom-rules'] as unknown[]) {
-      const r = rule as Record<string, unknown>
-      const cond = r.conditions as Record<string, unknown> | undefined
-      if (!cond || !cond['worldguard-regions']) {
-        cleanedRules.push(rule)
-        continue
-      }
-      const wgRegions = cond['worldguard-regions']
-      const usePreset = String(r['use-preset'] ?? '')
-
-      // Owned rules:
-      // 1. Villages band: worldguard-regions is an array
-      // 2. Region-band: worldguard-regions is a string AND use-preset matches lvlstrategy-*
-      const isVillagesBand = Array.isArray(wgRegions)
-      const isRegionBand = typeof wgRegions === 'string' && /^lvlstrategy-(easy|normal|hard|severe|deadly)$/.test(usePreset)
+export function validateAADiff(originalPath: string, generatedContent: string): DiffValidationResult {
+  return validateOwnedDiff(AA_OWNERSHIP, originalPath, generatedContent, 'AdvancedAchievements', 'AA')
+}
 
-      if (!isVillagesBand && !isRegionBand) {
-        // Not owned, preserve
-        cleanedRules.push(rule)
-      }
-      // Otherwise, drop it (it's owned)
-    }
-    
-    cleaned['custom-rules'] = cleanedRules
-  }
-  
-  return cleaned
+export function validateCEDiff(originalPath: string, generatedContent: string): DiffValidationResult {
+  return validateOwnedDiff(CE_OWNERSHIP, originalPath, generatedContent, 'ConditionalEvents', 'CE')
 }
 
-function removeOwnedLMCustomDropsSections(
-  config: Record<string, unknown>,
-  ownedTableNames: string[]
-): Record<string, unknown> {
-  const cleaned = { ...config } as Record<string, unknown>
-  if (!cleaned['drop-table'] || typeof cleaned['drop-table'] !== 'object' || Array.isArray(cleaned['drop-table'])) {
-    return cleaned
-  }
-  const dropTable = { ...(cleaned['drop-table'] as Record<string, unknown>) }
-  for (const tableName of ownedTableNames) {
-    delete dropTable[tableName]
-  }
-  cleaned['drop-table'] = dropTable
-  return cleaned
+export function validateTABDiff(originalPath: string, generatedContent: string): DiffValidationResult {
+  return validateOwnedDiff(TAB_OWNERSHIP, originalPath, generatedContent, 'TAB', 'TAB')
 }
 
-/**
- * Validate that only owned sections changed in LevelledMobs config
- */
-export function validateLMDiff(
-  originalPath: string,
-  generatedContent: string
-): { valid: boolean; error?: string; differences?: string[] } {
-  try {
-    // Read and parse original
-    const originalContent = stripGeneratorVersionCommentLines(readFileSync(originalPath, 'utf-8'))
-    const original = yaml.parse(originalContent)
-    const originalCleaned = removeOwnedLMSections(original)
-    
-    // Parse generated
-    const generated = yaml.parse(stripGeneratorVersionCommentLines(generatedContent))
-    const generatedCleaned = removeOwnedLMSections(generated)
-    
-    // Compare
-    const result = deepEqual(originalCleaned, generatedCleaned)
-    
-    if (!result.equal) {
-      return {
-        valid: false,
-        error: 'Non-owned sections changed in LevelledMobs config',
-        differences: result.differences,
-      }
-    }
-    
-    return { valid: true }
-  } catch (error: unknown) {
-    const msg = error instanceof Error ? error.message : String(error)
-    return { valid: false, error: `Failed to validate LM diff: ${msg}` }
-  }
+export function validateLMDiff(originalPath: string, generatedContent: string): DiffValidationResult {
+  return validateOwnedDiff(LM_OWNERSHIP, originalPath, generatedContent, 'LevelledMobs', 'LM')
 }
 
 export function validateLMCustomDropsDiff(
   originalPath: string,
   generatedContent: string,
   ownedTableNames: string[]
-): { valid: boolean; error?: string; differences?: string[] } {
-  try {
-    const originalContent = stripGeneratorVersionCommentLines(readFileSync(originalPath, 'utf-8'))
-    const original = yaml.parse(originalContent)
-    const originalCleaned = removeOwnedLMCustomDropsSections(original, ownedTableNames)
-
-    const generated = yaml.parse(stripGeneratorVersionCommentLines(generatedContent))
-    const generatedCleaned = removeOwnedLMCustomDropsSections(generated, ownedTableNames)
-
-    const result = deepEqual(originalCleaned, generatedCleaned)
-    if (!result.equal) {
-      return {
-        valid: false,
-        error: 'Non-owned sections changed in LevelledMobs customdrops config',
-        differences: result.differences,
-      }
-    }
-
-    return { valid: true }
-  } catch (error: unknown) {
-    const msg = error instanceof Error ? error.message : String(error)
-    return { valid: false, error: `Failed to validate LM customdrops diff: ${msg}` }
-  }
+): DiffValidationResult {
+  return validateOwnedDiff(
+    lmCustomDropsOwnership(ownedTableNames),
+    originalPath,
+    generatedContent,
+    'LevelledMobs customdrops',
+    'LM customdrops'
+  )
 }
 
+/** Stable short hash of a gate's violations, so an acceptance cannot cover different drift. */
+export function diffGateFingerprint(plugin: string, violations: DiffGateViolation[]): string {
+  const body = JSON.stringify([plugin, violations.map((v) => [v.path, v.kind, v.before, v.after])])
+  return createHash('sha256').update(body).digest('hex').slice(0, 12)
+}
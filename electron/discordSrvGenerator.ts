@@ -1,6 +1,6 @@
 const { readFileSync, existsSync } = require('fs')
-const electron = require('electron')
 const path = require('path')
+import { getBundledBasePath, isPackagedApp } from './utils/electronApp'
 
 export interface DiscordSrvSubstitutions {
   botToken: string
@@ -14,8 +14,8 @@ const TEMPLATE_CONFIG = 'discordsrv-config.yml'
 const TEMPLATE_MESSAGES = 'discordsrv-messages.yml'
 
 function resolveBundledDiscordSrvPath(filename: string): string {
-  const isPackaged = electron.app.isPackaged
-  const basePath = isPackaged ? electron.app.getAppPath() : path.join(__dirname, '..')
+  const isPackaged = isPackagedApp()
+  const basePath = getBundledBasePath(path.join(__dirname, '..'))
   const defaultPath = isPackaged
     ? path.join(basePath, 'dist-electron', 'assets', 'templates', filename)
     : path.join(basePath, 'assets', 'templates', filename)
@@ -1,13 +1,14 @@
-const { existsSync, readFileSync, writeFileSync, mkdirSync } = require('fs')
+const { existsSync, mkdirSync } = require('fs')
 const { join } = require('path')
 
 import type { DropTableLibraryEntry } from './types'
-import { getDataDirectory } from './storage'
+import { getDataDirectory, writeJsonWithBackup } from './storage'
+import { loadLibraryJsonFile, CURRENT_SCHEMA_VERSIONS } from './utils/schemaMigrations'
 
 const FILE_NAME = 'drop-table-library.json'
 
 interface LibraryFileShape {
-  version: number
+  schemaVersion: number
   tables: DropTableLibraryEntry[]
 }
 
@@ -16,24 +17,11 @@ function getLibraryPath(): string {
 }
 
 export function loadDropTableLibrary(): DropTableLibraryEntry[] {
-  const p = getLibraryPath()
-  if (!existsSync(p)) {
-    return []
-  }
-  try {
-    const raw = JSON.parse(readFileSync(p, 'utf-8')) as unknown
-    if (!raw || typeof raw !== 'object') {
-      return []
-    }
-    const obj = raw as Record<string, unknown>
-    if (Array.isArray(obj.tables)) {
-      return obj.tables.filter(isValidLibraryEntry)
-    }
-    return []
-  } catch (e) {
-    console.error('Failed to load drop table library:', e)
+  const obj = loadLibraryJsonFile('dropTableLibrary', getLibraryPath())
+  if (!obj || !Array.isArray(obj.tables)) {
     return []
   }
+  return obj.tables.filter(isValidLibraryEntry)
 }
 
 function isValidLibraryEntry(row: unknown): row is DropTableLibraryEntry {
@@ -62,8 +50,8 @@ export function saveDropTableLibrary(tables: DropTableLibraryEntry[]): void {
   if (!existsSync(dataDir)) {
     mkdirSync(dataDir, { recursive: true })
   }
-  const payload: LibraryFileShape = { version: 1, tables }
-  writeFileSync(getLibraryPath(), JSON.stringify(payload, null, 2), 'utf-8')
+  const payload: LibraryFileShape = { schemaVersion: CURRENT_SCHEMA_VERSIONS.dropTableLibrary, tables }
+  writeJsonWithBackup(getLibraryPath(), payload)
 }
 
 export function getDropTableLibraryPath(): string {
@@ -1,6 +1,6 @@
 const { readFileSync, existsSync } = require('fs')
 const path = require('path')
-const electron = require('electron')
+import { getBundledBasePath, isPackagedApp } from './utils/electronApp'
 
 export const ENCHANTMENTS_DATA_JSON = 'enchantments-data.json'
 
@@ -31,8 +31,8 @@ export interface EnchantIndexEntry {
 }
 
 export function getBundledEnchantDataPath(): string {
-  const isPackaged = electron.app.isPackaged
-  const basePath = isPackaged ? electron.app.getAppPath() : path.join(__dirname, '..')
+  const isPackaged = isPackagedApp()
+  const basePath = getBundledBasePath(path.join(__dirname, '..'))
   const dataDir = isPackaged
     ? path.join(basePath, 'dist-electron', 'assets', 'data')
     : path.join(basePath, 'reference', 'data')
@@ -1,875 +1,125 @@
-const { ipcMain, app } = require('electron')
-const path = require('path')
-const { existsSync, writeFileSync } = require('fs')
+const { ipcMain } = require('electron')
 const {
   loadServerProfile,
-  saveServerProfile,
-  ensureBuildDirectory,
-  saveBuildReport,
   loadBuildReport,
   listBuildSummaries,
+  getBuildDirectory,
 } = require('../../storage')
-const { computeRegionCounts, computeRegionStats } = require('../../utils/regionStats')
-const { sanitizeServerName } = require('../../shared/stringFormatters')
-const { runPluginBuild } = require('../../build/buildPluginConfig')
-const {
-  readDiscordSrvTemplatePaths,
-  generateDiscordSrvConfigContent,
-  readDiscordSrvMessagesContent,
-} = require('../../discordSrvGenerator')
-const {
-  prependGeneratorVersionHeader,
-  stripGeneratorVersionCommentLines,
-} = require('../../utils/generatorVersionHeader')
-const {
-  sanitizeWorldGuardWorldFolder,
-  getWorldGuardRegionsPropagatedRelativePath,
-} = require('../../utils/worldGuardRegionsPaths')
-const { validateBuildNoteInput } = require('../../utils/buildNotes')
+const { runBuild } = require('../../build/runBuild')
+const { previewBuild } = require('../../build/buildPreview')
+const { restoreBuild } = require('../../build/restoreBuild')
+const { existsSync } = require('fs')
 
 import type {
   BuildResult,
   BuildReport,
-  DiscordSrvSettings,
-  GeneratorVersionKey,
-  BuildTarget,
+  BuildPreviewResult,
+  BuildRestoreOptions,
+  BuildRestoreResult,
+  BuildCompareResponse,
+  DiscoverySimulationResponse,
+  DiscoveryWalk,
+  ServerProfile,
 } from '../../types'
-import { resolveConfigServerName } from '../../shared/resolveConfigServerName'
-import { getGuideBooksSourceDir } from '../../utils/guideBooksDir'
-import { getGriefPreventionBundledConfigPath } from '../../utils/griefPreventionBundledConfig'
+import type { BuildRequestInputs } from '../../build/runBuild'
+import { compareBuilds } from '../../utils/compareBuilds'
+import { getBuildFileMappingContext, mapBuildFileToPropagatedPath } from '../../utils/buildFileMapping'
 import {
-  CRAZY_CRATES_MAIN_TEMPLATE,
-  getCrazyCratesBundledTemplatePath,
-} from '../../utils/crazyCratesBundledConfig'
-import { resolveCrazyCratesForServer } from '../../crateResolve'
-import { buildCrateYamlFromTemplate } from '../../crateYamlFromTemplate'
-import {
-  getLuckPermsBundledExportPath,
-  LUCKPERMS_BUNDLED_EXPORT_FILENAME,
-} from '../../utils/luckPermsBundledExport'
-import {
-  getPlaceholderApiBundledRoot,
-  listPlaceholderApiBundledRelativePaths,
-} from '../../utils/placeholderApiBundledDir'
+  MAX_RANDOM_WALK_STEPS,
+  loadDiscoveryConfigs,
+  randomDiscoveryWalk,
+  simulateDiscovery,
+} from '../../utils/discoverySimulator'
+
+/** Display label for a saved build file: its propagated plugin path when it maps, else the flat name. */
+function buildFileLabeler(profile: ServerProfile): (flatName: string) => string {
+  const ctx = getBuildFileMappingContext(profile)
+  return (flatName) => {
+    const mapped = mapBuildFileToPropagatedPath(flatName, ctx)
+    return mapped ? mapped.relativePath.replace(/\\/g, '/') : flatName
+  }
+}
 
 export function registerBuildHandlers(): void {
   ipcMain.handle(
     'build-configs',
+    async (_event: unknown, serverId: string, inputs: BuildRequestInputs): Promise<BuildResult> => {
+      return runBuild(serverId, inputs)
+    }
+  )
+
+  ipcMain.handle(
+    'preview-build',
+    async (_event: unknown, serverId: string, inputs: BuildRequestInputs): Promise<BuildPreviewResult> => {
+      return previewBuild(serverId, inputs)
+    }
+  )
+
+  ipcMain.handle(
+    'restore-build',
+    async (
+      _event: unknown,
+      serverId: string,
+      buildId: string,
+      options?: BuildRestoreOptions
+    ): Promise<BuildRestoreResult> => {
+      return restoreBuild(serverId, buildId, options)
+    }
+  )
+
+  ipcMain.handle(
+    'compare-builds',
     async (
       _event: unknown,
       serverId: string,
-      inputs: {
-        generateAA?: boolean
-        generateBookGUI?: boolean
-        generateCE?: boolean
-        generateTAB?: boolean
-        generateLM?: boolean
-        generateLMCustomDrops?: boolean
-        generateMC?: boolean
-        generateCW?: boolean
-        generateEssentials?: boolean
-        generateDiscordSRV?: boolean
-        generateGriefPrevention?: boolean
-        generateCrazyCrates?: boolean
-        generateLuckPerms?: boolean
-        generatePlaceholderAPI?: boolean
-        generateWorldGuardRegions?: boolean
-        worldGuardRegionsPath?: string
-        /** World folder under WorldGuard/worlds/ when propagating (default world). */
-        worldGuardRegionsWorldFolder?: string
-        generateWorldGuardRegionsNether?: boolean
-        worldGuardRegionsNetherPath?: string
-        worldGuardRegionsNetherWorldFolder?: string
-        buildTarget?: BuildTarget
-        discordSrv?: DiscordSrvSettings
-        aaPath?: string
-        cePath?: string
-        tabPath?: string
-        lmPath?: string
-        lmCustomDropsPath?: string
-        mcPath?: string
-        mcTebexSubdomain?: string
-        cwPath?: string
-        outDir: string
-        propagateToPluginFolders?: boolean
-        /** When true, emit as test: current generator version, no bump, optional note, `emit=test` in header. */
-        testBuild?: boolean
-        /** Required when testBuild is false; optional short note for test builds. */
-        buildNote?: string
+      leftBuildId: string,
+      rightBuildId: string
+    ): Promise<BuildCompareResponse> => {
+      const profile: ServerProfile | null = loadServerProfile(serverId)
+      if (!profile) return { ok: false, error: `Server profile not found: ${serverId}` }
+      const sides = [leftBuildId, rightBuildId].map((buildId) => ({
+        buildId,
+        dir: getBuildDirectory(serverId, buildId) as string,
+        report: loadBuildReport(serverId, buildId) as BuildReport | null,
+      }))
+      for (const side of sides) {
+        if (!side.buildId || !existsSync(side.dir)) return { ok: false, error: `Build not found: ${side.buildId}` }
       }
-    ): Promise<BuildResult> => {
-      try {
-        const profile = loadServerProfile(serverId)
-        if (!profile) {
-          return { success: false, error: `Server profile not found: ${serverId}` }
-        }
+      return { ok: true, result: compareBuilds(sides[0], sides[1], buildFileLabeler(profile)) }
+    }
+  )
+
+  ipcMain.handle(
+    'simulate-discovery',
+    async (
+      _event: unknown,
+      serverId: string,
+      buildId: string,
+      walk: DiscoveryWalk
+    ): Promise<DiscoverySimulationResponse> => {
+      const profile: ServerProfile | null = loadServerProfile(serverId)
+      if (!profile) return { ok: false, error: `Server profile not found: ${serverId}` }
+      let regionIds: string[]
+      if (walk?.mode === 'random') {
+        if (!Number.isInteger(walk.steps) || walk.steps < 1 || walk.steps > MAX_RANDOM_WALK_STEPS) {
+          return { ok: false, error: `Random walks take 1–${MAX_RANDOM_WALK_STEPS} steps` }
+        }
+        regionIds = randomDiscoveryWalk(profile, walk.steps, walk.seed)
+      } else {
+        const ids: unknown = walk?.regionIds
         if (
-          !inputs.generateAA &&
-          !inputs.generateBookGUI &&
-          !inputs.generateCE &&
-          !inputs.generateTAB &&
-          !inputs.generateLM &&
-          !inputs.generateLMCustomDrops &&
-          !inputs.generateMC &&
-          !inputs.generateCW &&
-          !inputs.generateEssentials &&
-          !inputs.generateDiscordSRV &&
-          !inputs.generateGriefPrevention &&
-          !inputs.generateCrazyCrates &&
-          !inputs.generateLuckPerms &&
-          !inputs.generatePlaceholderAPI &&
-          !inputs.generateWorldGuardRegions &&
-          !inputs.generateWorldGuardRegionsNether
+          !Array.isArray(ids) ||
+          ids.length < 1 ||
+          ids.length > MAX_RANDOM_WALK_STEPS ||
+          !ids.every((id) => typeof id === 'string')
         ) {
-          return {
-            success: false,
-            error:
-              'At least one plugin (AA, BookGUI, CE, TAB, LM, LM CustomDrops, MC, CommandWhitelist, EssentialsX, DiscordSRV, GriefPreventionData, CrazyCrates, LuckPerms, PlaceholderAPI, WorldGuard overworld regions.yml, or WorldGuard nether regions.yml) must be selected',
-          }
-        }
-        if (!inputs.outDir || inputs.outDir.trim().length === 0) {
-          return { success: false, error: 'Output directory must be set' }
-        }
-
-        const testBuild = Boolean(inputs.testBuild)
-        const buildTarget: BuildTarget = inputs.buildTarget === 'live' ? 'live' : 'next'
-        const buildNoteTrimmed = String(inputs.buildNote ?? '').trim()
-        const buildNoteValidationError = validateBuildNoteInput(testBuild, inputs.buildNote)
-        if (buildNoteValidationError) {
-          return { success: false, error: buildNoteValidationError }
-        }
-
-        const fs = require('fs')
-        if (!existsSync(inputs.outDir)) {
-          fs.mkdirSync(inputs.outDir, { recursive: true })
-        }
-
-        const propagate = Boolean(inputs.propagateToPluginFolders)
-        profile.build.buildTarget = buildTarget
-
-        function versionForEmit(key: GeneratorVersionKey): number {
-          const cur = profile.generatorVersions?.[key] ?? 0
-          if (testBuild) return Math.max(1, cur)
-          return cur + 1
-        }
-
-        function persistGeneratorVersion(key: GeneratorVersionKey, emittedVersion: number): void {
-          if (testBuild) return
-          profile.generatorVersions = { ...(profile.generatorVersions ?? {}), [key]: emittedVersion }
-        }
-
-        const headerStampNote = testBuild ? (buildNoteTrimmed || undefined) : buildNoteTrimmed
-
-        const configServerName = resolveConfigServerName(profile)
-        const serverNameSanitized = sanitizeServerName(configServerName)
-        const buildId = `build-${Date.now()}`
-        const timestamp = new Date().toISOString()
-        const warnings: string[] = []
-        const errors: string[] = []
-        const regionCounts = computeRegionStats(profile.regions)
-
-        let aaGenerated = false
-        let bookGuiGenerated = false
-        let ceGenerated = false
-        let tabGenerated = false
-        let lmGenerated = false
-        let lmCustomDropsGenerated = false
-        let mcGenerated = false
-        let cwGenerated = false
-        let essentialsGenerated = false
-        let discordsrvGenerated = false
-        let griefPreventionGenerated = false
-        let crazyCratesGenerated = false
-        let luckPermsGenerated = false
-        let placeholderApiGenerated = false
-        let worldGuardRegionsGenerated = false
-        let worldGuardRegionsNetherGenerated = false
-        const configSources: BuildResult['configSources'] = {}
-
-        const regionCountsForTAB = computeRegionCounts(profile.regions)
-        const buildContextBase = {
-          serverId,
-          buildId,
-          serverNameSanitized,
-          propagate,
-          profileId: serverId,
-          generatedAt: timestamp,
-          buildNote: headerStampNote,
-          testEmit: testBuild,
-        }
-
-        if (inputs.generateAA) {
-          const nextGeneratorVersion = versionForEmit('aa')
-          const result = runPluginBuild('aa', profile, inputs, {
-            ...buildContextBase,
-            nextGeneratorVersion,
-          })
-          if (!result.success) return { success: false, error: result.error, buildId }
-          persistGeneratorVersion('aa', nextGeneratorVersion)
-          aaGenerated = true
-          configSources.aa = result.configSource
-        }
-        if (inputs.generateCE) {
-          const nextGeneratorVersion = versionForEmit('ce')
-          const result = runPluginBuild('ce', profile, inputs, {
-            ...buildContextBase,
-            nextGeneratorVersion,
-          })
-          if (!result.success) return { success: false, error: result.error, buildId }
-          persistGeneratorVersion('ce', nextGeneratorVersion)
-          ceGenerated = true
-          configSources.ce = result.configSource
-        }
-        if (inputs.generateDiscordSRV) {
-          const targetDiscordSrv = profile.discordSrvByTarget?.[buildTarget]
-          const merged: Required<DiscordSrvSettings> = {
-            botToken: (
-              inputs.discordSrv?.botToken ??
-              targetDiscordSrv?.botToken ??
-              profile.discordSrv?.botToken ??
-              ''
-            ).trim(),
-            globalChannelId: (
-              inputs.discordSrv?.globalChannelId ??
-              targetDiscordSrv?.globalChannelId ??
-              profile.discordSrv?.globalChannelId ??
-              ''
-            ).trim(),
-            statusChannelId: (
-              inputs.discordSrv?.statusChannelId ??
-              targetDiscordSrv?.statusChannelId ??
-              profile.discordSrv?.statusChannelId ??
-              ''
-            ).trim(),
-            consoleChannelId: (
-              inputs.discordSrv?.consoleChannelId ??
-              targetDiscordSrv?.consoleChannelId ??
-              profile.discordSrv?.consoleChannelId ??
-              ''
-            ).trim(),
-            discordInviteUrl: (
-              inputs.discordSrv?.discordInviteUrl ??
-              targetDiscordSrv?.discordInviteUrl ??
-              profile.discordSrv?.discordInviteUrl ??
-              ''
-            ).trim(),
-          }
-          const missing: string[] = []
-          if (!merged.botToken) missing.push('bot token')
-          if (!merged.globalChannelId) missing.push('global channel ID')
-          if (!merged.statusChannelId) missing.push('status channel ID')
-          if (!merged.discordInviteUrl) missing.push('Discord invite URL')
-          if (missing.length > 0) {
-            return {
-              success: false,
-              error: `DiscordSRV requires: ${missing.join(', ')}`,
-              buildId,
-            }
-          }
-          try {
-            const { configPath: srvConfigTpl, messagesPath: srvMessagesTpl } =
-              readDiscordSrvTemplatePaths()
-            const nextGeneratorVersion = versionForEmit('discordsrv')
-            const headerCtx = {
-              ...buildContextBase,
-              nextGeneratorVersion,
-            }
-            const configBody = generateDiscordSrvConfigContent(srvConfigTpl, merged)
-            const configContent = prependGeneratorVersionHeader(configBody, {
-              plugin: 'discordsrv',
-              profileId: headerCtx.profileId ?? serverId,
-              buildId: headerCtx.buildId,
-              nextVersion: headerCtx.nextGeneratorVersion,
-              generatedAt: headerCtx.generatedAt ?? timestamp,
-              buildNote: headerStampNote,
-              testEmit: testBuild,
-            })
-            const messagesBody = readDiscordSrvMessagesContent(srvMessagesTpl)
-            const messagesContent = prependGeneratorVersionHeader(messagesBody, {
-              plugin: 'discordsrv',
-              profileId: headerCtx.profileId ?? serverId,
-              buildId: headerCtx.buildId,
-              nextVersion: headerCtx.nextGeneratorVersion,
-              generatedAt: headerCtx.generatedAt ?? timestamp,
-              buildNote: headerStampNote,
-              testEmit: testBuild,
-            })
-            const configFlat = `${serverNameSanitized}-discordsrv-config.yml`
-            const messagesFlat = `${serverNameSanitized}-discordsrv-messages.yml`
-            const buildDir = ensureBuildDirectory(serverId, buildId)
-            if (propagate) {
-              const pluginRoot = path.join(inputs.outDir, 'DiscordSRV')
-              fs.mkdirSync(pluginRoot, { recursive: true })
-              fs.writeFileSync(path.join(pluginRoot, 'config.yml'), configContent, 'utf-8')
-              fs.writeFileSync(path.join(pluginRoot, 'messages.yml'), messagesContent, 'utf-8')
-            } else {
-              fs.writeFileSync(path.join(inputs.outDir, configFlat), configContent, 'utf-8')
-              fs.writeFileSync(path.join(inputs.outDir, messagesFlat), messagesContent, 'utf-8')
-            }
-            fs.writeFileSync(path.join(buildDir, configFlat), configContent, 'utf-8')
-            fs.writeFileSync(path.join(buildDir, messagesFlat), messagesContent, 'utf-8')
-            persistGeneratorVersion('discordsrv', nextGeneratorVersion)
-            profile.discordSrvByTarget = {
-              ...(profile.discordSrvByTarget ?? {}),
-              [buildTarget]: { ...merged },
-            }
-            discordsrvGenerated = true
-            configSources.discordsrv = {
-              path: 'Bundled DiscordSRV templates',
-              isDefault: true,
-            }
-          } catch (error: unknown) {
-            const err = error as Error
-            return {
-              success: false,
-              error: err.message || 'DiscordSRV generation failed',
-              buildId,
-            }
-          }
-        }
-
-        if (inputs.generateTAB) {
-          const nextGeneratorVersion = versionForEmit('tab')
-          const result = runPluginBuild('tab', profile, inputs, {
-            ...buildContextBase,
-            nextGeneratorVersion,
-          })
-          if (!result.success) return { success: false, error: result.error, buildId }
-          persistGeneratorVersion('tab', nextGeneratorVersion)
-          tabGenerated = true
-          configSources.tab = result.configSource
-        }
-        if (inputs.generateLM) {
-          const nextGeneratorVersion = versionForEmit('lm')
-          const result = runPluginBuild('lm', profile, inputs, {
-            ...buildContextBase,
-            nextGeneratorVersion,
-          })
-          if (!result.success) return { success: false, error: result.error, buildId }
-          persistGeneratorVersion('lm', nextGeneratorVersion)
-          lmGenerated = true
-          configSources.lm = result.configSource
-          warnings.push(...result.warnings)
-        }
-        if (inputs.generateLMCustomDrops) {
-          const nextGeneratorVersion = versionForEmit('lmcd')
-          const result = runPluginBuild('lmcd', profile, inputs, {
-            ...buildContextBase,
-            nextGeneratorVersion,
-          })
-          if (!result.success) return { success: false, error: result.error, buildId }
-          persistGeneratorVersion('lmcd', nextGeneratorVersion)
-          lmCustomDropsGenerated = true
-          configSources.lmcd = result.configSource
-          warnings.push(...result.warnings)
-        }
-        if (inputs.generateMC) {
-          const subdomain = String(inputs.mcTebexSubdomain ?? '').trim()
-          if (!subdomain) {
-            return {
-              success: false,
-              error: 'MyCommand requires a Tebex subdomain (for https://[subdomain].tebex.io)',
-              buildId,
-            }
-          }
-          profile.build.mcTebexSubdomain = subdomain
-          const nextGeneratorVersion = versionForEmit('mc')
-          const result = runPluginBuild('mc', profile, inputs, {
-            ...buildContextBase,
-            nextGeneratorVersion,
-          })
-          if (!result.success) return { success: false, error: result.error, buildId }
-          persistGeneratorVersion('mc', nextGeneratorVersion)
-          mcGenerated = true
-          configSources.mc = result.configSource
-        }
-        if (inputs.generateCW) {
-          const nextGeneratorVersion = versionForEmit('cw')
-          const result = runPluginBuild('cw', profile, inputs, {
-            ...buildContextBase,
-            nextGeneratorVersion,
-          })
-          if (!result.success) return { success: false, error: result.error, buildId }
-          persistGeneratorVersion('cw', nextGeneratorVersion)
-          cwGenerated = true
-          configSources.cw = result.configSource
-        }
-
-        if (inputs.generateEssentials) {
-          try {
-            const templatesBase = app.isPackaged
-              ? path.join(app.getAppPath(), 'dist-electron', 'assets', 'templates')
-              : path.join(__dirname, '..', '..', 'assets', 'templates')
-            const essentialsConfigTemplate = path.join(templatesBase, 'essentials-config.yml')
-            const essentialsRulesTemplate = path.join(templatesBase, 'essentials-rules.txt')
-            if (!existsSync(essentialsConfigTemplate) || !existsSync(essentialsRulesTemplate)) {
-              return {
-                success: false,
-                error: `Bundled EssentialsX templates not found in: ${templatesBase}`,
-                buildId,
-              }
-            }
-
-            const nextGeneratorVersion = versionForEmit('essentials')
-            const headerArgs = {
-              profileId: serverId,
-              buildId,
-              nextVersion: nextGeneratorVersion,
-              generatedAt: timestamp,
-              buildNote: headerStampNote,
-              testEmit: testBuild,
-            }
-            const configBody = fs.readFileSync(essentialsConfigTemplate, 'utf-8')
-            const rulesBody = fs.readFileSync(essentialsRulesTemplate, 'utf-8')
-            const configContent = prependGeneratorVersionHeader(configBody, {
-              plugin: 'essentials',
-              ...headerArgs,
-            })
-            const rulesContent = prependGeneratorVersionHeader(rulesBody, {
-              plugin: 'essentials',
-              ...headerArgs,
-            })
-            const buildDir = ensureBuildDirectory(serverId, buildId)
-            const configFlatName = `${serverNameSanitized}-essentials-config.yml`
-            const rulesFlatName = `${serverNameSanitized}-essentials-rules.txt`
-
-            if (propagate) {
-              const essentialsDir = path.join(inputs.outDir, 'essentials')
-              fs.mkdirSync(essentialsDir, { recursive: true })
-              fs.writeFileSync(path.join(essentialsDir, 'config.yml'), configContent, 'utf-8')
-              fs.writeFileSync(path.join(essentialsDir, 'rules.txt'), rulesContent, 'utf-8')
-            } else {
-              fs.writeFileSync(path.join(inputs.outDir, configFlatName), configContent, 'utf-8')
-              fs.writeFileSync(path.join(inputs.outDir, rulesFlatName), rulesContent, 'utf-8')
-            }
-
-            fs.writeFileSync(path.join(buildDir, configFlatName), configContent, 'utf-8')
-            fs.writeFileSync(path.join(buildDir, rulesFlatName), rulesContent, 'utf-8')
-            persistGeneratorVersion('essentials', nextGeneratorVersion)
-            essentialsGenerated = true
-            configSources.essentials = {
-              path: 'Bundled EssentialsX templates',
-              isDefault: true,
-            }
-          } catch (error: unknown) {
-            const err = error as Error
-            return {
-              success: false,
-              error: err.message || 'EssentialsX file generation failed',
-              buildId,
-            }
-          }
-        }
-
-        if (inputs.generateBookGUI) {
-          try {
-            const nextGeneratorVersion = versionForEmit('bookgui')
-            const bookGuiHeaderArgs = {
-              plugin: 'bookgui' as const,
-              profileId: serverId,
-              buildId,
-              nextVersion: nextGeneratorVersion,
-              generatedAt: timestamp,
-              buildNote: headerStampNote,
-              testEmit: testBuild,
-            }
-            const hasLore = (profile.regions || []).some(
-              (r: { loreBookDescription?: string; description?: string }) =>
-                Boolean((r.loreBookDescription ?? r.description)?.trim())
-            )
-            const guideBooksDir = getGuideBooksSourceDir()
-            const bookFiles = fs.readdirSync(guideBooksDir).filter((f: string) => f.endsWith('.yml'))
-            const booksToWrite = hasLore
-              ? bookFiles
-              : bookFiles.filter((f: string) => f !== 'guide_lore.yml')
-            const bookGuiOutputDir = path.join(inputs.outDir, 'BookGUI', 'books')
-            fs.mkdirSync(bookGuiOutputDir, { recursive: true })
-            const serverName = configServerName
-            for (const filename of booksToWrite) {
-              const content = fs.readFileSync(path.join(guideBooksDir, filename), 'utf-8')
-              const substituted = content.replace(/\{SERVER_NAME\}/g, serverName)
-              const toWrite = prependGeneratorVersionHeader(substituted, bookGuiHeaderArgs)
-              writeFileSync(path.join(bookGuiOutputDir, filename), toWrite, 'utf-8')
-            }
-            persistGeneratorVersion('bookgui', nextGeneratorVersion)
-            bookGuiGenerated = true
-            configSources.bookgui = { path: 'Bundled guide books', isDefault: true }
-          } catch (error: unknown) {
-            const err = error as Error
-            return {
-              success: false,
-              error: err.message || 'BookGUI guide books generation failed',
-              buildId,
-            }
-          }
-        }
-
-        if (inputs.generateGriefPrevention) {
-          try {
-            const bundledPath = getGriefPreventionBundledConfigPath()
-            const nextGeneratorVersion = versionForEmit('griefprevention')
-            const rawBody = fs.readFileSync(bundledPath, 'utf-8')
-            const content = prependGeneratorVersionHeader(rawBody, {
-              plugin: 'griefprevention',
-              profileId: serverId,
-              buildId,
-              nextVersion: nextGeneratorVersion,
-              generatedAt: timestamp,
-              buildNote: headerStampNote,
-              testEmit: testBuild,
-            })
-            const flatName = `${serverNameSanitized}-griefpreventiondata-config.yml`
-            const buildDir = ensureBuildDirectory(serverId, buildId)
-            if (propagate) {
-              const dataRoot = path.join(inputs.outDir, 'GriefPreventionData')
-              fs.mkdirSync(dataRoot, { recursive: true })
-              fs.writeFileSync(path.join(dataRoot, 'config.yml'), content, 'utf-8')
-            } else {
-              fs.writeFileSync(path.join(inputs.outDir, flatName), content, 'utf-8')
-            }
-            fs.writeFileSync(path.join(buildDir, flatName), content, 'utf-8')
-            persistGeneratorVersion('griefprevention', nextGeneratorVersion)
-            griefPreventionGenerated = true
-            configSources.griefprevention = {
-              path: 'Bundled GriefPreventionData template',
-              isDefault: true,
-            }
-          } catch (error: unknown) {
-            const err = error as Error
-            return {
-              success: false,
-              error: err.message || 'GriefPreventionData config copy failed',
-              buildId,
-            }
-          }
-        }
-
-        if (inputs.generateCrazyCrates) {
-          try {
-            const nextGeneratorVersion = versionForEmit('crazycrates')
-            const crazyCratesHeaderArgs = {
-              plugin: 'crazycrates' as const,
-              profileId: serverId,
-              buildId,
-              nextVersion: nextGeneratorVersion,
-              generatedAt: timestamp,
-              buildNote: headerStampNote,
-              testEmit: testBuild,
-            }
-            const buildDir = ensureBuildDirectory(serverId, buildId)
-            const configFlatName = `${serverNameSanitized}-crazycrates-config.yml`
-            const mainBundled = getCrazyCratesBundledTemplatePath(CRAZY_CRATES_MAIN_TEMPLATE)
-            const mainRaw = fs.readFileSync(mainBundled, 'utf-8')
-            const mainContent = prependGeneratorVersionHeader(mainRaw, crazyCratesHeaderArgs)
-            if (propagate) {
-              const crateRoot = path.join(inputs.outDir, 'CrazyCrates')
-              fs.mkdirSync(crateRoot, { recursive: true })
-              fs.writeFileSync(path.join(crateRoot, 'config.yml'), mainContent, 'utf-8')
-            } else {
-              fs.writeFileSync(path.join(inputs.outDir, configFlatName), mainContent, 'utf-8')
-            }
-            fs.writeFileSync(path.join(buildDir, configFlatName), mainContent, 'utf-8')
-
-            const { crates: resolvedCrates, warnings: crateResolveWarnings } = resolveCrazyCratesForServer(profile)
-            warnings.push(...crateResolveWarnings)
-
-            for (const row of resolvedCrates) {
-              const { yaml: crateYaml, warnings: crateTplWarnings } = buildCrateYamlFromTemplate({
-                libraryEntry: row.libraryEntry ?? null,
-                legacyStem: row.legacyStem,
-              })
-              warnings.push(...crateTplWarnings)
-              const content = prependGeneratorVersionHeader(crateYaml, crazyCratesHeaderArgs)
-              const propagatedName = `${row.outputStem}.yml`
-              const crateFlatName = `${serverNameSanitized}-crazycrates-crate-${row.outputStem}.yml`
-              if (propagate) {
-                const cratesDir = path.join(inputs.outDir, 'CrazyCrates', 'crates')
-                fs.mkdirSync(cratesDir, { recursive: true })
-                fs.writeFileSync(path.join(cratesDir, propagatedName), content, 'utf-8')
-              } else {
-                fs.writeFileSync(path.join(inputs.outDir, crateFlatName), content, 'utf-8')
-              }
-              fs.writeFileSync(path.join(buildDir, crateFlatName), content, 'utf-8')
-            }
-
-            persistGeneratorVersion('crazycrates', nextGeneratorVersion)
-            crazyCratesGenerated = true
-            configSources.crazycrates = {
-              path: 'Bundled CrazyCrates templates',
-              isDefault: true,
-            }
-          } catch (error: unknown) {
-            const err = error as Error
-            return {
-              success: false,
-              error: err.message || 'CrazyCrates config copy failed',
-              buildId,
-            }
-          }
-        }
-
-        if (inputs.generateLuckPerms) {
-          try {
-            const nextGeneratorVersion = versionForEmit('luckperms')
-            const bundledPath = getLuckPermsBundledExportPath()
-            const flatName = `${serverNameSanitized}-luckperms-${LUCKPERMS_BUNDLED_EXPORT_FILENAME}`
-            const buildDir = ensureBuildDirectory(serverId, buildId)
-            if (propagate) {
-              const lpRoot = path.join(inputs.outDir, 'LuckPerms')
-              fs.mkdirSync(lpRoot, { recursive: true })
-              fs.copyFileSync(bundledPath, path.join(lpRoot, LUCKPERMS_BUNDLED_EXPORT_FILENAME))
-            } else {
-              fs.copyFileSync(bundledPath, path.join(inputs.outDir, flatName))
-            }
-            fs.copyFileSync(bundledPath, path.join(buildDir, flatName))
-            persistGeneratorVersion('luckperms', nextGeneratorVersion)
-            luckPermsGenerated = true
-            configSources.luckperms = {
-              path: 'Bundled LuckPerms export (.gz)',
-              isDefault: true,
-            }
-          } catch (error: unknown) {
-            const err = error as Error
-            return {
-              success: false,
-              error: err.message || 'LuckPerms export copy failed',
-              buildId,
-            }
-          }
-        }
-
-        if (inputs.generatePlaceholderAPI) {
-          try {
-            const nextGeneratorVersion = versionForEmit('placeholderapi')
-            const placeholderHeaderArgs = {
-              plugin: 'placeholderapi' as const,
-              profileId: serverId,
-              buildId,
-              nextVersion: nextGeneratorVersion,
-              generatedAt: timestamp,
-              buildNote: headerStampNote,
-              testEmit: testBuild,
-            }
-            const bundledRoot = getPlaceholderApiBundledRoot()
-            const relativePaths = listPlaceholderApiBundledRelativePaths()
-            const buildDir = ensureBuildDirectory(serverId, buildId)
-            for (const rel of relativePaths) {
-              const srcPath = path.join(bundledRoot, rel)
-              const flatName = `${serverNameSanitized}-placeholderapi-${rel.replace(/[/\\]/g, '-')}`
-              const ext = path.extname(rel).toLowerCase()
-              if (ext === '.yml' || ext === '.yaml') {
-                const rawBody = fs.readFileSync(srcPath, 'utf-8')
-                const content = prependGeneratorVersionHeader(rawBody, placeholderHeaderArgs)
-                if (propagate) {
-                  const destPath = path.join(inputs.outDir, 'PlaceholderAPI', rel)
-                  fs.mkdirSync(path.dirname(destPath), { recursive: true })
-                  fs.writeFileSync(destPath, content, 'utf-8')
-                } else {
-                  fs.writeFileSync(path.join(inputs.outDir, flatName), content, 'utf-8')
-                }
-                fs.writeFileSync(path.join(buildDir, flatName), content, 'utf-8')
-              } else {
-                if (propagate) {
-                  const destPath = path.join(inputs.outDir, 'PlaceholderAPI', rel)
-                  fs.mkdirSync(path.dirname(destPath), { recursive: true })
-                  fs.copyFileSync(srcPath, destPath)
-                } else {
-                  fs.copyFileSync(srcPath, path.join(inputs.outDir, flatName))
-                }
-                fs.copyFileSync(srcPath, path.join(buildDir, flatName))
-              }
-            }
-            persistGeneratorVersion('placeholderapi', nextGeneratorVersion)
-            placeholderApiGenerated = true
-            configSources.placeholderapi = {
-              path: 'Bundled PlaceholderAPI templates',
-              isDefault: true,
-            }
-          } catch (error: unknown) {
-            const err = error as Error
-            return {
-              success: false,
-              error: err.message || 'PlaceholderAPI bundle copy failed',
-              buildId,
-            }
-          }
-        }
-
-        if (inputs.generateWorldGuardRegions) {
-          const srcPath = (inputs.worldGuardRegionsPath ?? '').trim()
-          if (!srcPath) {
-            return {
-              success: false,
-              error:
-                'WorldGuard overworld regions.yml requires a source file (browse to your Region Forge export)',
-              buildId,
-            }
-          }
-          if (!existsSync(srcPath)) {
-            return {
-              success: false,
-              error: `WorldGuard overworld regions source not found: ${srcPath}`,
-              buildId,
-            }
-          }
-          try {
-            const nextGeneratorVersion = versionForEmit('worldguardregions')
-            const rawBody = fs.readFileSync(srcPath, 'utf-8')
-            const body = stripGeneratorVersionCommentLines(rawBody)
-            const content = prependGeneratorVersionHeader(body, {
-              plugin: 'worldguardregions',
-              profileId: serverId,
-              buildId,
-              nextVersion: nextGeneratorVersion,
-              generatedAt: timestamp,
-              buildNote: headerStampNote,
-              testEmit: testBuild,
-            })
-            const flatName = `${serverNameSanitized}-worldguard-regions.yml`
-            const buildDir = ensureBuildDirectory(serverId, buildId)
-            const worldFolder = sanitizeWorldGuardWorldFolder(inputs.worldGuardRegionsWorldFolder)
-            if (propagate) {
-              const rel = getWorldGuardRegionsPropagatedRelativePath(worldFolder)
-              const outPath = path.join(inputs.outDir, rel)
-              fs.mkdirSync(path.dirname(outPath), { recursive: true })
-              fs.writeFileSync(outPath, content, 'utf-8')
-            } else {
-              fs.writeFileSync(path.join(inputs.outDir, flatName), content, 'utf-8')
-            }
-            fs.writeFileSync(path.join(buildDir, flatName), content, 'utf-8')
-            persistGeneratorVersion('worldguardregions', nextGeneratorVersion)
-            worldGuardRegionsGenerated = true
-            configSources.worldguardregions = { path: srcPath, isDefault: false }
-            profile.build.worldGuardRegionsSourcePath = srcPath
-            profile.build.worldGuardRegionsWorldFolder = worldFolder
-          } catch (error: unknown) {
-            const err = error as Error
-            return {
-              success: false,
-              error: err.message || 'WorldGuard overworld regions.yml copy failed',
-              buildId,
-            }
-          }
-        }
-
-        if (inputs.generateWorldGuardRegionsNether) {
-          const srcPath = (inputs.worldGuardRegionsNetherPath ?? '').trim()
-          if (!srcPath) {
-            return {
-              success: false,
-              error:
-                'WorldGuard nether regions.yml requires a source file (browse to your Region Forge nether export)',
-              buildId,
-            }
-          }
-          if (!existsSync(srcPath)) {
-            return {
-              success: false,
-              error: `WorldGuard nether regions source not found: ${srcPath}`,
-              buildId,
-            }
-          }
-          try {
-            const nextGeneratorVersion = versionForEmit('worldguardregionsnether')
-            const rawBody = fs.readFileSync(srcPath, 'utf-8')
-            const body = stripGeneratorVersionCommentLines(rawBody)
-            const content = prependGeneratorVersionHeader(body, {
-              plugin: 'worldguardregionsnether',
-              profileId: serverId,
-              buildId,
-              nextVersion: nextGeneratorVersion,
-              generatedAt: timestamp,
-              buildNote: headerStampNote,
-              testEmit: testBuild,
-            })
-            const flatName = `${serverNameSanitized}-worldguard-regions-nether.yml`
-            const buildDir = ensureBuildDirectory(serverId, buildId)
-            const worldFolder = sanitizeWorldGuardWorldFolder(inputs.worldGuardRegionsNetherWorldFolder)
-            if (propagate) {
-              const rel = getWorldGuardRegionsPropagatedRelativePath(worldFolder)
-              const outPath = path.join(inputs.outDir, rel)
-              fs.mkdirSync(path.dirname(outPath), { recursive: true })
-              fs.writeFileSync(outPath, content, 'utf-8')
-            } else {
-              fs.writeFileSync(path.join(inputs.outDir, flatName), content, 'utf-8')
-            }
-            fs.writeFileSync(path.join(buildDir, flatName), content, 'utf-8')
-            persistGeneratorVersion('worldguardregionsnether', nextGeneratorVersion)
-            worldGuardRegionsNetherGenerated = true
-            configSources.worldguardregionsnether = { path: srcPath, isDefault: false }
-            profile.build.worldGuardRegionsNetherSourcePath = srcPath
-            profile.build.worldGuardRegionsNetherWorldFolder = worldFolder
-          } catch (error: unknown) {
-            const err = error as Error
-            return {
-              success: false,
-              error: err.message || 'WorldGuard nether regions.yml copy failed',
-              buildId,
-            }
-          }
-        }
-
-        const gvSnap = profile.generatorVersions
-        const report: BuildReport = {
-          buildId,
-          timestamp,
-          buildTarget,
-          testBuild,
-          ...(buildNoteTrimmed.length > 0 ? { buildNote: buildNoteTrimmed } : {}),
-          regionCounts,
-          computedCounts: regionCountsForTAB,
-          generated: {
-            aa: aaGenerated,
-            bookgui: bookGuiGenerated,
-            ce: ceGenerated,
-            tab: tabGenerated,
-            lm: lmGenerated,
-            lmcd: lmCustomDropsGenerated,
-            mc: mcGenerated,
-            cw: cwGenerated,
-            essentials: essentialsGenerated,
-            discordsrv: discordsrvGenerated,
-            griefprevention: griefPreventionGenerated,
-            crazycrates: crazyCratesGenerated,
-            luckperms: luckPermsGenerated,
-            placeholderapi: placeholderApiGenerated,
-            worldguardregions: worldGuardRegionsGenerated,
-            worldguardregionsnether: worldGuardRegionsNetherGenerated,
-          },
-          configSources,
-          warnings,
-          errors,
-          ...(gvSnap && Object.keys(gvSnap).length > 0
-            ? { generatorVersionsSnapshot: { ...gvSnap } }
-            : {}),
-        }
-        saveBuildReport(serverId, buildId, report)
-
-        profile.build.lastBuildId = buildId
-        profile.build.buildTarget = buildTarget
-        profile.build.outputDirectory = inputs.outDir
-        if (typeof inputs.propagateToPluginFolders === 'boolean') {
-          profile.build.propagateToPluginFolders = inputs.propagateToPluginFolders
-        }
-        if (inputs.discordSrv !== undefined) {
-          profile.discordSrvByTarget = {
-            ...(profile.discordSrvByTarget ?? {}),
-            [buildTarget]: {
-              ...(profile.discordSrvByTarget?.[buildTarget] ?? {}),
-              ...inputs.discordSrv,
-            },
-          }
-        }
-        saveServerProfile(profile)
-
-        return { success: true, buildId, configSources }
-      } catch (error: unknown) {
-        const err = error as Error
-        return {
-          success: false,
-          error: err.message || 'Unknown error during build',
+          return { ok: false, error: `Walks take 1–${MAX_RANDOM_WALK_STEPS} region ids` }
         }
+        regionIds = ids
       }
+      const loaded = loadDiscoveryConfigs(profile, buildId)
+      if (!loaded.ok) return loaded
+      return { ok: true, report: { buildId, ...simulateDiscovery(loaded.configs, regionIds) } }
     }
   )
 
@@ -0,0 +1,33 @@
+const { ipcMain } = require('electron')
+const { loadServerProfile, saveServerProfile } = require('../../storage')
+import { resolveCeRecipes, validateCeRecipes } from '../../shared/ceRecipes'
+
+import type { CeRecipes, CeRecipesResult } from '../../types'
+
+export function registerCeRecipeHandlers(): void {
+  /** Save a server's CE discovery recipes; `null` goes back to the built-in defaults. */
+  ipcMain.handle(
+    'update-ce-recipes',
+    async (_event: unknown, serverId: string, recipes: CeRecipes | null): Promise<CeRecipesResult> => {
+      try {
+        const profile = loadServerProfile(serverId)
+        if (!profile) {
+          return { success: false, error: `Server profile not found: ${serverId}` }
+        }
+        if (recipes == null) {
+          delete profile.ceRecipes
+        } else {
+          const resolved = resolveCeRecipes(recipes)
+          const errors = validateCeRecipes(resolved)
+          if (errors.length > 0) return { success: false, error: errors.join('\n') }
+          profile.ceRecipes = resolved
+        }
+        saveServerProfile(profile)
+        return { success: true, profile }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { success: false, error: err.message || 'Saving CE recipes failed' }
+      }
+    }
+  )
+}
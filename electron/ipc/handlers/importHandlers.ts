@@ -2,138 +2,189 @@ const { ipcMain } = require('electron')
 const { existsSync } = require('fs')
 const { loadServerProfile, saveServerProfile } = require('../../storage')
 const { importRegions, importRegionsMeta } = require('../../regionParser')
+import { reapplyRegionOverrides } from '../../shared/regionOverrides'
+import { carryRegionRewards } from '../../shared/regionRewards'
+import { diffRegionImport } from '../../utils/importDiff'
 
-import type { ImportResult, RegionRecord } from '../../types'
+import type { ImportResult, RegionImportPreviewResult, RegionRecord, ServerProfile } from '../../types'
 
-export function registerImportHandlers(): void {
-  ipcMain.handle(
-    'import-regions',
-    async (
-      _event: unknown,
-      serverId: string,
-      world: 'overworld' | 'nether',
-      filePath: string
-    ): Promise<ImportResult> => {
-      try {
-        const profile = loadServerProfile(serverId)
-        if (!profile) {
-          return { success: false, error: `Server profile not found: ${serverId}` }
-        }
-        if (!existsSync(filePath)) {
-          return { success: false, error: `File not found: ${filePath}` }
-        }
+type ImportWorld = 'overworld' | 'nether' | 'end'
 
-        const result = importRegions(
-          filePath,
-          world,
-          profile.regions,
-          profile.onboarding
-        )
-
-        profile.regions = result.regions
-        if (world === 'overworld') {
-          profile.sources.overworld = result.source
-        } else {
-          profile.sources.nether = result.source
-        }
-        saveServerProfile(profile)
+/** Profile as it would be saved after the import, without touching disk. */
+interface StagedImport {
+  profile: ServerProfile
+  world: ImportWorld
+  regionCount: number
+  missingOverrideCount: number
+  fileHash: string
+}
+
+type StageFn = (profile: ServerProfile, world: ImportWorld, filePath: string) => StagedImport
+
+function cloneProfile(profile: ServerProfile): ServerProfile {
+  return JSON.parse(JSON.stringify(profile)) as ServerProfile
+}
+
+/** Region Forge regions.yml: the world's regions are replaced by freshly classified records. */
+function stageRegionForgeImport(current: ServerProfile, world: ImportWorld, filePath: string): StagedImport {
+  const profile = cloneProfile(current)
+  const result = importRegions(filePath, world, profile.regions, profile.onboarding)
+
+  carryRegionRewards(profile.regions, result.regions, world)
+  profile.regions = result.regions
+  if (world === 'overworld') {
+    profile.sources.overworld = result.source
+  } else if (world === 'nether') {
+    profile.sources.nether = result.source
+  } else {
+    profile.sources.end = result.source
+  }
+  const missingOverrideCount = reapplyRegionOverrides(profile, world)
+
+  return {
+    profile,
+    world,
+    regionCount: result.regions.filter((r: RegionRecord) => r.world === world).length,
+    missingOverrideCount,
+    fileHash: result.source.fileHash,
+  }
+}
+
+/** regions-meta.yml: replaces the world's regions and merges onboarding, bands and structure families. */
+function stageRegionsMetaImport(current: ServerProfile, world: ImportWorld, filePath: string): StagedImport {
+  const profile = cloneProfile(current)
+  const result = importRegionsMeta(filePath, world)
+
+  const existingByKey = new Map<string, Pick<RegionRecord, 'loreBookAnchors' | 'geometry'>>()
+  for (const r of profile.regions) {
+    if (r.world === result.world) {
+      existingByKey.set(r.id, r)
+    }
+  }
+
+  profile.regions = profile.regions.filter((r: RegionRecord) => r.world !== result.world)
+  const mergedRegions = result.regions.map((r: RegionRecord) => {
+    const existing = existingByKey.get(r.id)
+    const merged = { ...r }
+    if (existing?.loreBookAnchors) merged.loreBookAnchors = existing.loreBookAnchors
+    if (existing?.geometry) merged.geometry = existing.geometry
+    merged.loreBookDescription = undefined
+    return merged
+  })
+  carryRegionRewards(current.regions, mergedRegions, result.world)
+  profile.regions.push(...mergedRegions)
+
+  if (result.world === 'overworld') {
+    profile.sources.overworld = result.source
+    profile.sources.world = result.source
+  } else if (result.world === 'nether') {
+    profile.sources.nether = result.source
+  } else if (result.world === 'end') {
+    profile.sources.end = result.source
+  }
+
+  if (result.spawnCenter && result.world === 'overworld') {
+    profile.spawnCenter = result.spawnCenter
+    result.source.spawnCenter = result.spawnCenter
+  }
+
+  if (result.onboarding && result.world === 'overworld') {
+    profile.onboarding = {
+      ...profile.onboarding,
+      ...result.onboarding,
+      teleport: { ...result.onboarding.teleport },
+    }
+  }
+
+  if (result.levelledMobs) {
+    if (!profile.regionsMeta) profile.regionsMeta = { levelledMobs: {} }
+    if (!profile.regionsMeta.levelledMobs) profile.regionsMeta.levelledMobs = {}
+    if (result.levelledMobs.villageBandStrategy !== undefined) {
+      profile.regionsMeta.levelledMobs.villageBandStrategy = result.levelledMobs.villageBandStrategy
+    }
+    if (result.levelledMobs.regionBands) {
+      profile.regionsMeta.levelledMobs.regionBands = {
+        ...profile.regionsMeta.levelledMobs.regionBands,
+        ...result.levelledMobs.regionBands,
+      }
+    }
+  }
+
+  if (result.structureFamilies) {
+    if (!profile.regionsMeta) profile.regionsMeta = { levelledMobs: {} }
+    profile.regionsMeta.structureFamilies = {
+      ...(profile.regionsMeta.structureFamilies ?? {}),
+      ...result.structureFamilies,
+    }
+  }
+
+  // After the band merge so manual LevelledMobs bands win over the file's.
+  const missingOverrideCount = reapplyRegionOverrides(profile, result.world)
+
+  return {
+    profile,
+    world: result.world,
+    regionCount: result.regions.length,
+    missingOverrideCount,
+    fileHash: result.source.fileHash,
+  }
+}
 
+function loadImportTarget(serverId: string, filePath: string): { profile: ServerProfile } | { error: string } {
+  const profile = loadServerProfile(serverId)
+  if (!profile) {
+    return { error: `Server profile not found: ${serverId}` }
+  }
+  if (!existsSync(filePath)) {
+    return { error: `File not found: ${filePath}` }
+  }
+  return { profile }
+}
+
+/** Preview (diff only) and apply handlers for one import kind. */
+function registerImportPair(channel: string, stage: StageFn): void {
+  ipcMain.handle(
+    `preview-${channel}`,
+    async (_event: unknown, serverId: string, world: ImportWorld, filePath: string): Promise<RegionImportPreviewResult> => {
+      try {
+        const target = loadImportTarget(serverId, filePath)
+        if ('error' in target) return { success: false, error: target.error }
+        const staged = stage(target.profile, world, filePath)
         return {
           success: true,
-          regionCount: result.regions.filter((r: RegionRecord) => r.world === world).length,
+          diff: diffRegionImport(target.profile, staged.profile, staged.world),
+          fileHash: staged.fileHash,
         }
       } catch (error: unknown) {
         const err = error as Error
-        return {
-          success: false,
-          error: err.message || 'Unknown error during import',
-        }
+        return { success: false, error: err.message || 'Unknown error during import preview' }
       }
     }
   )
 
   ipcMain.handle(
-    'import-regions-meta',
+    channel,
     async (
       _event: unknown,
       serverId: string,
-      world: 'overworld' | 'nether' | 'end',
-      filePath: string
+      world: ImportWorld,
+      filePath: string,
+      expectedFileHash?: string
     ): Promise<ImportResult> => {
       try {
-        const profile = loadServerProfile(serverId)
-        if (!profile) {
-          return { success: false, error: `Server profile not found: ${serverId}` }
-        }
-        if (!existsSync(filePath)) {
-          return { success: false, error: `File not found: ${filePath}` }
-        }
-
-        const result = importRegionsMeta(filePath, world)
-
-        const existingByKey = new Map<string, { loreBookAnchors?: string[] }>()
-        for (const r of profile.regions) {
-          if (r.world === result.world) {
-            existingByKey.set(r.id, r)
-          }
+        const target = loadImportTarget(serverId, filePath)
+        if ('error' in target) return { success: false, error: target.error }
+        const staged = stage(target.profile, world, filePath)
+        if (expectedFileHash && staged.fileHash !== expectedFileHash) {
+          return { success: false, error: 'The file changed after it was previewed; preview it again before importing' }
         }
-
-        profile.regions = profile.regions.filter((r: RegionRecord) => r.world !== result.world)
-        const mergedRegions = result.regions.map((r: RegionRecord) => {
-          const existing = existingByKey.get(r.id)
-          const merged = { ...r }
-          if (existing?.loreBookAnchors) merged.loreBookAnchors = existing.loreBookAnchors
-          merged.loreBookDescription = undefined
-          return merged
-        })
-        profile.regions.push(...mergedRegions)
-
-        if (result.world === 'overworld') {
-          profile.sources.overworld = result.source
-          profile.sources.world = result.source
-        } else if (result.world === 'nether') {
-          profile.sources.nether = result.source
-        } else if (result.world === 'end') {
-          profile.sources.end = result.source
-        }
-
-        if (result.spawnCenter && result.world === 'overworld') {
-          profile.spawnCenter = result.spawnCenter
-          result.source.spawnCenter = result.spawnCenter
-        }
-
-        if (result.onboarding && result.world === 'overworld') {
-          profile.onboarding = {
-            ...profile.onboarding,
-            ...result.onboarding,
-            teleport: { ...result.onboarding.teleport },
-          }
-        }
-
-        if (result.levelledMobs) {
-          if (!profile.regionsMeta) profile.regionsMeta = { levelledMobs: {} }
-          if (!profile.regionsMeta.levelledMobs) profile.regionsMeta.levelledMobs = {}
-          if (result.levelledMobs.villageBandStrategy !== undefined) {
-            profile.regionsMeta.levelledMobs.villageBandStrategy = result.levelledMobs.villageBandStrategy
-          }
-          if (result.levelledMobs.regionBands) {
-            profile.regionsMeta.levelledMobs.regionBands = {
-              ...profile.regionsMeta.levelledMobs.regionBands,
-              ...result.levelledMobs.regionBands,
-            }
-          }
-        }
-
-        if (result.structureFamilies) {
-          if (!profile.regionsMeta) profile.regionsMeta = { levelledMobs: {} }
-          profile.regionsMeta.structureFamilies = {
-            ...(profile.regionsMeta.structureFamilies ?? {}),
-            ...result.structureFamilies,
-          }
+        saveServerProfile(staged.profile)
+        return {
+          success: true,
+          regionCount: staged.regionCount,
+          missingOverrideCount: staged.missingOverrideCount,
+          diff: diffRegionImport(target.profile, staged.profile, staged.world),
         }
-
-        saveServerProfile(profile)
-        return { success: true, regionCount: result.regions.length }
       } catch (error: unknown) {
         const err = error as Error
         return {
@@ -144,3 +195,8 @@ export function registerImportHandlers(): void {
     }
   )
 }
+
+export function registerImportHandlers(): void {
+  registerImportPair('import-regions', stageRegionForgeImport)
+  registerImportPair('import-regions-meta', stageRegionsMetaImport)
+}
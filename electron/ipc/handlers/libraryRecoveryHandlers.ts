@@ -0,0 +1,24 @@
+const { ipcMain } = require('electron')
+import { diagnoseLibrary, isStoredLibraryKind, recoverLibrary } from '../../libraryRecovery'
+
+import type { StoredDocumentLoadProblem, StoredDocumentRecoveryResult } from '../../types'
+
+export function registerLibraryRecoveryHandlers(): void {
+  ipcMain.handle(
+    'diagnose-library',
+    async (_event: unknown, kind: unknown): Promise<StoredDocumentLoadProblem | null> => {
+      if (!isStoredLibraryKind(kind)) return { error: `Unknown library: ${String(kind)}`, recoverable: false }
+      return diagnoseLibrary(kind)
+    }
+  )
+
+  ipcMain.handle('recover-library', async (_event: unknown, kind: unknown): Promise<StoredDocumentRecoveryResult> => {
+    if (!isStoredLibraryKind(kind)) return { success: false, error: `Unknown library: ${String(kind)}` }
+    try {
+      return recoverLibrary(kind)
+    } catch (error: unknown) {
+      const err = error as Error
+      return { success: false, error: err?.message ?? 'Failed to recover library' }
+    }
+  })
+}
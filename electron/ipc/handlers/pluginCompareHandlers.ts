@@ -3,12 +3,14 @@ const { randomUUID } = require('crypto')
 const { loadComparePresets, saveComparePresets } = require('../../storage')
 import type {
   PluginFolderCompareResponse,
+  DriftCheckResponse,
   ComparePreset,
   ComparePresetMutationResult,
   ComparePresetDeleteResult,
 } from '../../types'
 import { getPmGeneratedEntries } from '../../utils/pmGeneratedPaths'
 import { comparePmPluginFolders, validatePluginsRoot } from '../../utils/comparePmPluginFolders'
+import { checkPluginDrift } from '../../utils/driftCheck'
 
 function sortPresetsByUpdated(presets: ComparePreset[]): ComparePreset[] {
   return [...presets].sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : a.updatedAt > b.updatedAt ? -1 : 0))
@@ -37,18 +39,20 @@ export function registerPluginCompareHandlers(): void {
       const right = validatePluginsRoot(String(rightRoot ?? ''))
       if (!right.ok) return { ok: false, error: `Right folder: ${right.error}` }
 
-      const { entries, bookGuiWarning, placeholderApiWarning } = getPmGeneratedEntries()
-      const result = comparePmPluginFolders(
-        left.resolved,
-        right.resolved,
-        entries,
-        bookGuiWarning,
-        placeholderApiWarning
-      )
+      const { entries, warnings } = getPmGeneratedEntries()
+      const result = comparePmPluginFolders(left.resolved, right.resolved, entries, warnings)
       return { ok: true, result }
     }
   )
 
+  ipcMain.handle('check-plugin-drift', async (_event: unknown, pluginsRoot: string): Promise<DriftCheckResponse> => {
+    const root = validatePluginsRoot(String(pluginsRoot ?? ''))
+    if (!root.ok) return { ok: false, error: root.error }
+
+    const { entries, warnings } = getPmGeneratedEntries()
+    return { ok: true, result: checkPluginDrift(root.resolved, entries, warnings) }
+  })
+
   ipcMain.handle('list-compare-presets', async (): Promise<ComparePreset[]> => {
     return sortPresetsByUpdated(loadComparePresets())
   })
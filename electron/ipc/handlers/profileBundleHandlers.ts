@@ -0,0 +1,135 @@
+const { ipcMain, dialog } = require('electron')
+const { randomUUID } = require('crypto')
+const { readFileSync, writeFileSync } = require('fs')
+const { loadServerProfile, saveServerProfile } = require('../../storage')
+const { sanitizeServerName } = require('../../shared/stringFormatters')
+import type {
+  ServerProfile,
+  ServerProfileExportOptions,
+  ServerProfileImportOptions,
+  ServerProfileBundle,
+  ServerProfileExportResponse,
+  ServerProfileBundlePreviewResponse,
+  ServerProfileImportResponse,
+} from '../../types'
+import { loadDropTableLibrary, saveDropTableLibrary } from '../../dropTableLibrary'
+import { loadCrateLibrary, saveCrateLibrary } from '../../crateLibrary'
+import {
+  createProfileBundle,
+  parseProfileBundle,
+  findBundleCollisions,
+  applyProfileBundle,
+} from '../../profileBundle'
+
+function readBundleFile(filePath: string): { ok: true; bundle: ServerProfileBundle } | { ok: false; error: string } {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'))
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e)
+    return { ok: false, error: `Could not read bundle: ${msg}` }
+  }
+  return parseProfileBundle(raw)
+}
+
+export function registerProfileBundleHandlers(): void {
+  ipcMain.handle(
+    'export-server-bundle',
+    async (
+      _event: unknown,
+      serverId: string,
+      options: ServerProfileExportOptions
+    ): Promise<ServerProfileExportResponse | null> => {
+      const profile: ServerProfile | null = loadServerProfile(serverId)
+      if (!profile) return { ok: false, error: `Server profile not found: ${serverId}` }
+      const result = await dialog.showSaveDialog({
+        title: 'Export Server Profile',
+        defaultPath: `${sanitizeServerName(profile.name)}.mcpm-profile.json`,
+        filters: [{ name: 'Profile bundle', extensions: ['json'] }],
+      })
+      if (result.canceled || !result.filePath) return null
+      try {
+        const bundle = createProfileBundle(profile, loadDropTableLibrary(), loadCrateLibrary(), {
+          redactDiscordSrvTokens: Boolean(options?.redactDiscordSrvTokens),
+        })
+        writeFileSync(result.filePath, JSON.stringify(bundle, null, 2), 'utf-8')
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e)
+        return { ok: false, error: msg }
+      }
+      return { ok: true, filePath: result.filePath }
+    }
+  )
+
+  ipcMain.handle(
+    'preview-server-bundle',
+    async (_event: unknown): Promise<ServerProfileBundlePreviewResponse | null> => {
+      const result = await dialog.showOpenDialog({
+        title: 'Import Server Profile',
+        filters: [
+          { name: 'Profile bundle', extensions: ['json'] },
+          { name: 'All Files', extensions: ['*'] },
+        ],
+        properties: ['openFile'],
+      })
+      if (result.canceled || result.filePaths.length === 0) return null
+      try {
+        const filePath = result.filePaths[0]
+        const parsed = readBundleFile(filePath)
+        if (!parsed.ok) return parsed
+        const { bundle } = parsed
+        return {
+          ok: true,
+          preview: {
+            filePath,
+            profileName: bundle.profile.name,
+            regionCount: bundle.profile.regions.length,
+            dropTableCount: bundle.dropTables.length,
+            crateCount: bundle.crates.length,
+            discordSrvTokensRedacted: bundle.discordSrvTokensRedacted,
+            collisions: findBundleCollisions(bundle, loadDropTableLibrary(), loadCrateLibrary()),
+          },
+        }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { ok: false, error: err.message || 'Unknown error during bundle preview' }
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'import-server-bundle',
+    async (
+      _event: unknown,
+      filePath: string,
+      options: ServerProfileImportOptions
+    ): Promise<ServerProfileImportResponse> => {
+      try {
+        const parsed = readBundleFile(String(filePath ?? ''))
+        if (!parsed.ok) return parsed
+        const name = options?.name?.trim() || parsed.bundle.profile.name
+        const serverId = `${sanitizeServerName(name)}-${randomUUID().substring(0, 8)}`
+        const applied = applyProfileBundle(
+          parsed.bundle,
+          loadDropTableLibrary(),
+          loadCrateLibrary(),
+          serverId,
+          { ...options, name }
+        )
+        if (applied.addedDropTables > 0) saveDropTableLibrary(applied.dropTableLibrary)
+        if (applied.addedCrates > 0) saveCrateLibrary(applied.crateLibrary)
+        saveServerProfile(applied.profile)
+        return {
+          ok: true,
+          server: applied.profile,
+          addedDropTables: applied.addedDropTables,
+          addedCrates: applied.addedCrates,
+          mergedEntries: applied.mergedEntries,
+        }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { ok: false, error: err.message || 'Unknown error during bundle import' }
+      }
+    }
+  )
+}
@@ -0,0 +1,107 @@
+const { ipcMain } = require('electron')
+const { loadServerProfile, saveServerProfile } = require('../../storage')
+import { applyRegionEdits, revertRegionOverrides } from '../../shared/regionOverrides'
+import { setRegionRewards } from '../../shared/regionRewards'
+import { applyBandPlan } from '../../shared/lmBandPlanner'
+
+import type {
+  LevelledMobsBandPlan,
+  RegionEditRequest,
+  RegionEditResult,
+  RegionOverrideFields,
+  RegionRewardOverrides,
+} from '../../types'
+
+export function registerRegionEditHandlers(): void {
+  ipcMain.handle(
+    'edit-regions',
+    async (_event: unknown, serverId: string, request: RegionEditRequest): Promise<RegionEditResult> => {
+      try {
+        const profile = loadServerProfile(serverId)
+        if (!profile) {
+          return { success: false, error: `Server profile not found: ${serverId}` }
+        }
+        const outcome = applyRegionEdits(profile, request)
+        if (!outcome.ok) return { success: false, error: outcome.error }
+        saveServerProfile(outcome.profile)
+        return { success: true, profile: outcome.profile }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { success: false, error: err.message || 'Region edit failed' }
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'revert-region-overrides',
+    async (
+      _event: unknown,
+      serverId: string,
+      regionKeys: string[],
+      fieldNames?: (keyof RegionOverrideFields)[]
+    ): Promise<RegionEditResult> => {
+      try {
+        const profile = loadServerProfile(serverId)
+        if (!profile) {
+          return { success: false, error: `Server profile not found: ${serverId}` }
+        }
+        const outcome = revertRegionOverrides(profile, regionKeys, fieldNames)
+        if (!outcome.ok) return { success: false, error: outcome.error }
+        saveServerProfile(outcome.profile)
+        return { success: true, profile: outcome.profile }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { success: false, error: err.message || 'Reverting region overrides failed' }
+      }
+    }
+  )
+  /** Set one region's reward overrides (`world:id` key); `null` clears them. */
+  ipcMain.handle(
+    'update-region-rewards',
+    async (
+      _event: unknown,
+      serverId: string,
+      regionKey: string,
+      rewards: RegionRewardOverrides | null
+    ): Promise<RegionEditResult> => {
+      try {
+        const profile = loadServerProfile(serverId)
+        if (!profile) {
+          return { success: false, error: `Server profile not found: ${serverId}` }
+        }
+        const outcome = setRegionRewards(profile, regionKey, rewards)
+        if (!outcome.ok) return { success: false, error: outcome.error }
+        saveServerProfile(outcome.profile)
+        return { success: true, profile: outcome.profile }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { success: false, error: err.message || 'Saving region rewards failed' }
+      }
+    }
+  )
+
+  /** Save the band planner settings and write accepted bands (`world:id` → band) as band edits. */
+  ipcMain.handle(
+    'apply-band-plan',
+    async (
+      _event: unknown,
+      serverId: string,
+      plan: LevelledMobsBandPlan,
+      bands: Record<string, string>
+    ): Promise<RegionEditResult> => {
+      try {
+        const profile = loadServerProfile(serverId)
+        if (!profile) {
+          return { success: false, error: `Server profile not found: ${serverId}` }
+        }
+        const outcome = applyBandPlan(profile, plan, bands)
+        if (!outcome.ok) return { success: false, error: outcome.error }
+        saveServerProfile(outcome.profile)
+        return { success: true, profile: outcome.profile }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { success: false, error: err.message || 'Applying the band plan failed' }
+      }
+    }
+  )
+}
@@ -0,0 +1,33 @@
+const { ipcMain } = require('electron')
+const { loadServerProfile, saveServerProfile } = require('../../storage')
+import { resolveRewardEconomy, validateRewardEconomy } from '../../shared/rewardEconomy'
+
+import type { RewardEconomy, RewardEconomyResult } from '../../types'
+
+export function registerRewardEconomyHandlers(): void {
+  /** Save a server's reward economy; `null` goes back to the built-in defaults. */
+  ipcMain.handle(
+    'update-reward-economy',
+    async (_event: unknown, serverId: string, economy: RewardEconomy | null): Promise<RewardEconomyResult> => {
+      try {
+        const profile = loadServerProfile(serverId)
+        if (!profile) {
+          return { success: false, error: `Server profile not found: ${serverId}` }
+        }
+        if (economy == null) {
+          delete profile.rewardEconomy
+        } else {
+          const resolved = resolveRewardEconomy(economy)
+          const errors = validateRewardEconomy(resolved)
+          if (errors.length > 0) return { success: false, error: errors.join('\n') }
+          profile.rewardEconomy = resolved
+        }
+        saveServerProfile(profile)
+        return { success: true, profile }
+      } catch (error: unknown) {
+        const err = error as Error
+        return { success: false, error: err.message || 'Saving reward economy failed' }
+      }
+    }
+  )
+}
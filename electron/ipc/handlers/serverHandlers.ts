@@ -5,6 +5,8 @@ const {
   saveServerProfile,
   deleteServer,
   listServerIds,
+  diagnoseServerProfile,
+  recoverServerProfile,
 } = require('../../storage')
 const { sanitizeServerName } = require('../../shared/stringFormatters')
 import type {
@@ -12,16 +14,37 @@ import type {
   OnboardingConfig,
   DiscordSrvSettings,
   BuildTarget,
+  ServerSummaryWithStats,
+  ServerProfileLoadProblem,
+  ServerProfileRecoveryResult,
 } from '../../types'
 
 export function registerServerHandlers(): void {
   ipcMain.handle('list-servers', async (_event: unknown) => {
     const serverIds = listServerIds()
-    const summaries = []
+    const summaries: ServerSummaryWithStats[] = []
 
     for (const id of serverIds) {
       const profile = loadServerProfile(id)
-      if (!profile) continue
+      if (!profile) {
+        // Keep unreadable profiles listed so the user can restore a backup instead of losing the server.
+        const loadProblem: ServerProfileLoadProblem | null = diagnoseServerProfile(id)
+        if (!loadProblem) continue
+        summaries.push({
+          id,
+          name: id,
+          regionCount: 0,
+          villageCount: 0,
+          heartCount: 0,
+          nerveCount: 0,
+          netherRegionCount: 0,
+          netherHeartCount: 0,
+          structureCount: 0,
+          lastImportIso: null,
+          loadProblem,
+        })
+        continue
+      }
 
       const regions: Array<{ world?: string; kind?: string }> = profile.regions || []
       const regionCount = regions.filter((r) => r.world === 'overworld' && r.kind === 'region').length
@@ -140,6 +163,21 @@ export function registerServerHandlers(): void {
     }
   )
 
+  ipcMain.handle(
+    'recover-server-profile',
+    async (_event: unknown, serverId: string): Promise<ServerProfileRecoveryResult> => {
+      try {
+        return recoverServerProfile(serverId)
+      } catch (error: unknown) {
+        const err = error as Error
+        return {
+          success: false,
+          error: err?.message ?? 'Failed to recover server profile',
+        }
+      }
+    }
+  )
+
   ipcMain.handle(
     'set-discordsrv-settings',
     async (
@@ -0,0 +1,129 @@
+const { ipcMain } = require('electron')
+
+import type {
+  BuildTarget,
+  PluginType,
+  ServerProfile,
+  TemplateImportResult,
+  TemplateLibraryDeleteResult,
+  TemplateLibraryEntry,
+  TemplatePin,
+  TemplateVersionDiffResult,
+} from '../../types'
+import { PLUGIN_TYPES } from '../../types'
+import { loadServerProfile, saveServerProfile } from '../../storage'
+import {
+  diffTemplateVersions,
+  importTemplateVersion,
+  loadTemplateLibrary,
+  removeTemplateFiles,
+  removeTemplatePinsFromAllServers,
+  saveTemplateLibrary,
+} from '../../templateLibrary'
+
+export function registerTemplateLibraryHandlers(): void {
+  ipcMain.handle('list-template-library', async () => {
+    return loadTemplateLibrary()
+  })
+
+  ipcMain.handle(
+    'import-template-version',
+    async (
+      _e: unknown,
+      input: { plugin: PluginType; sourcePath: string; templateId?: string; name?: string; note?: string }
+    ): Promise<TemplateImportResult> => {
+      if (!PLUGIN_TYPES.includes(input?.plugin)) {
+        return { ok: false, error: 'Unknown template plugin' }
+      }
+      return importTemplateVersion(input)
+    }
+  )
+
+  ipcMain.handle(
+    'update-template-library-entry',
+    async (
+      _e: unknown,
+      input: { id: string; name?: string; description?: string; versionNotes?: Record<number, string> }
+    ): Promise<TemplateLibraryEntry> => {
+      const templates = loadTemplateLibrary()
+      const idx = templates.findIndex((t) => t.id === input.id)
+      if (idx < 0) {
+        throw new Error('Template library entry not found')
+      }
+      const cur = templates[idx]
+      const name = input.name !== undefined ? String(input.name).trim() : cur.name
+      if (!name) {
+        throw new Error('Template name is required')
+      }
+      const description = input.description !== undefined ? String(input.description).trim() : cur.description
+      const notes = input.versionNotes ?? {}
+      const next: TemplateLibraryEntry = {
+        ...cur,
+        name,
+        description: description || undefined,
+        versions: cur.versions.map((v) => {
+          if (notes[v.version] === undefined) return v
+          const note = String(notes[v.version]).trim()
+          return { ...v, note: note || undefined }
+        }),
+        updatedAt: new Date().toISOString(),
+      }
+      templates[idx] = next
+      saveTemplateLibrary(templates)
+      return next
+    }
+  )
+
+  ipcMain.handle(
+    'delete-template-library-entry',
+    async (_e: unknown, id: string): Promise<TemplateLibraryDeleteResult> => {
+      const templates = loadTemplateLibrary()
+      const idx = templates.findIndex((t) => t.id === id)
+      if (idx < 0) {
+        return { ok: false, error: 'Template library entry not found' }
+      }
+      const refs = removeTemplatePinsFromAllServers(id)
+      templates.splice(idx, 1)
+      saveTemplateLibrary(templates)
+      removeTemplateFiles(id)
+      return { ok: true, removedFromServers: refs }
+    }
+  )
+
+  ipcMain.handle(
+    'diff-template-versions',
+    async (_e: unknown, templateId: string, from: number, to: number): Promise<TemplateVersionDiffResult> => {
+      return diffTemplateVersions(templateId, from, to)
+    }
+  )
+
+  ipcMain.handle(
+    'set-template-pin',
+    async (
+      _e: unknown,
+      serverId: string,
+      target: BuildTarget,
+      plugin: PluginType,
+      pin: TemplatePin | null
+    ): Promise<ServerProfile | null> => {
+      const profile = loadServerProfile(serverId)
+      if (!profile) return null
+      if (pin) {
+        const entry = loadTemplateLibrary().find((t) => t.id === pin.templateId)
+        if (!entry || entry.plugin !== plugin || !entry.versions.some((v) => v.version === pin.version)) {
+          throw new Error('Template version not found for this plugin')
+        }
+      }
+      const normalizedTarget: BuildTarget = target === 'live' ? 'live' : 'next'
+      const pins = { ...(profile.templatePinsByTarget?.[normalizedTarget] ?? {}) }
+      if (pin) {
+        pins[plugin] = { templateId: pin.templateId, version: pin.version }
+      } else {
+        delete pins[plugin]
+      }
+      profile.templatePinsByTarget = { ...(profile.templatePinsByTarget ?? {}), [normalizedTarget]: pins }
+      saveServerProfile(profile)
+      return profile
+    }
+  )
+}
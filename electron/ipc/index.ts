@@ -5,20 +5,32 @@ const { registerServerHandlers } = require('./handlers/serverHandlers')
 const { registerImportHandlers } = require('./handlers/importHandlers')
 const { registerBuildHandlers } = require('./handlers/buildHandlers')
 const { registerLoreBookHandlers } = require('./handlers/loreBookHandlers')
+const { registerRegionEditHandlers } = require('./handlers/regionEditHandlers')
+const { registerRewardEconomyHandlers } = require('./handlers/rewardEconomyHandlers')
+const { registerCeRecipeHandlers } = require('./handlers/ceRecipeHandlers')
 const { registerDialogHandlers } = require('./handlers/dialogHandlers')
 const { registerPluginCompareHandlers } = require('./handlers/pluginCompareHandlers')
 const { registerDropTableLibraryHandlers } = require('./handlers/dropTableLibraryHandlers')
 const { registerCrateLibraryHandlers } = require('./handlers/crateLibraryHandlers')
+const { registerTemplateLibraryHandlers } = require('./handlers/templateLibraryHandlers')
+const { registerLibraryRecoveryHandlers } = require('./handlers/libraryRecoveryHandlers')
+const { registerProfileBundleHandlers } = require('./handlers/profileBundleHandlers')
 
 function registerAllHandlers(): void {
   registerServerHandlers()
   registerDropTableLibraryHandlers()
   registerCrateLibraryHandlers()
+  registerTemplateLibraryHandlers()
+  registerLibraryRecoveryHandlers()
   registerImportHandlers()
   registerBuildHandlers()
   registerLoreBookHandlers()
+  registerRegionEditHandlers()
+  registerRewardEconomyHandlers()
+  registerCeRecipeHandlers()
   registerDialogHandlers()
   registerPluginCompareHandlers()
+  registerProfileBundleHandlers()
 }
 
 registerAllHandlers()
@@ -1,6 +1,6 @@
 const { readFileSync, existsSync } = require('fs')
 const path = require('path')
-const electron = require('electron')
+import { getBundledBasePath, isPackagedApp } from './utils/electronApp'
 
 import type { ItemIndexEntry } from './types'
 import { normalizeItemId } from './dropTableNormalize'
@@ -21,8 +21,8 @@ function coerceNumeric(value: unknown): number | undefined {
 }
 
 export function getBundledItemIndexPath(): string {
-  const isPackaged = electron.app.isPackaged
-  const basePath = isPackaged ? electron.app.getAppPath() : path.join(__dirname, '..')
+  const isPackaged = isPackagedApp()
+  const basePath = getBundledBasePath(path.join(__dirname, '..'))
   const dataDir = isPackaged
     ? path.join(basePath, 'dist-electron', 'assets', 'data')
     : path.join(basePath, 'reference', 'data')
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { CrateLibraryEntry } from './types'
+import { setDataDirectory } from './storage'
+import { getCrateLibraryPath, loadCrateLibrary, saveCrateLibrary } from './crateLibrary'
+import { diagnoseLibrary, recoverLibrary } from './libraryRecovery'
+
+const crate = (id: string): CrateLibraryEntry =>
+  ({
+    id,
+    name: id,
+    outputStem: id,
+    selectedPrizeEntries: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  }) as unknown as CrateLibraryEntry
+
+describe('library recovery', () => {
+  let dataDir: string
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'library-recovery-'))
+    setDataDirectory(dataDir)
+  })
+  afterEach(() => {
+    setDataDirectory(null)
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  it('refuses to read a corrupt library as empty and restores the newest backup', () => {
+    saveCrateLibrary([crate('a')])
+    saveCrateLibrary([crate('a'), crate('b')])
+    writeFileSync(getCrateLibraryPath(), '{ "crates": [', 'utf-8')
+
+    expect(() => loadCrateLibrary()).toThrow(/CrazyCrates library could not be read/)
+    expect(diagnoseLibrary('crateLibrary')).toMatchObject({ recoverable: true })
+
+    expect(recoverLibrary('crateLibrary')).toMatchObject({ success: true })
+    expect(loadCrateLibrary().map((c) => c.id)).toEqual(['a'])
+    expect(readdirSync(dataDir).some((n) => n.startsWith('crazy-crates-library.json.corrupt-'))).toBe(true)
+    expect(diagnoseLibrary('crateLibrary')).toBeNull()
+  })
+})
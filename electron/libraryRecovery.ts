@@ -0,0 +1,31 @@
+/**
+ * Diagnose and recover the global library files. Their loaders throw on unreadable files instead
+ * of returning empty, so edits stay blocked until the user restores a backup from `backups/`.
+ */
+import type { StoredDocumentLoadProblem, StoredDocumentRecoveryResult, StoredLibraryKind } from './types'
+import { diagnoseStoredDocument, recoverStoredDocument } from './storage'
+import { getDropTableLibraryPath } from './dropTableLibrary'
+import { getCrateLibraryPath } from './crateLibrary'
+import { getTemplateLibraryPath } from './templateLibrary'
+
+const LIBRARY_FILES: Record<StoredLibraryKind, { path: () => string; listKey: string }> = {
+  dropTableLibrary: { path: getDropTableLibraryPath, listKey: 'tables' },
+  crateLibrary: { path: getCrateLibraryPath, listKey: 'crates' },
+  templateLibrary: { path: getTemplateLibraryPath, listKey: 'templates' },
+}
+
+function usableCheck(kind: StoredLibraryKind): (data: Record<string, unknown>) => boolean {
+  return (data) => Array.isArray(data[LIBRARY_FILES[kind].listKey])
+}
+
+export function diagnoseLibrary(kind: StoredLibraryKind): StoredDocumentLoadProblem | null {
+  return diagnoseStoredDocument(kind, LIBRARY_FILES[kind].path(), usableCheck(kind))
+}
+
+export function recoverLibrary(kind: StoredLibraryKind): StoredDocumentRecoveryResult {
+  return recoverStoredDocument(kind, LIBRARY_FILES[kind].path(), usableCheck(kind))
+}
+
+export function isStoredLibraryKind(value: unknown): value is StoredLibraryKind {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LIBRARY_FILES, value)
+}
@@ -3,6 +3,9 @@ const { readFileSync } = require('fs')
 
 import type { ResolvedDropTable } from './types'
 import { parseEnchantedBookMaterial } from './shared/enchantedBook'
+import { assertOwnedKey, stripOwnedForMerge } from './shared/ownershipManifest'
+import { lmCustomDropsOwnership } from './shared/ownershipManifests'
+import { patchYamlSource } from './utils/yamlSourcePatch'
 
 interface GeneratedCustomDrops {
   dropTables: Record<string, unknown[]>
@@ -110,20 +113,19 @@ export function mergeLMCustomDropsConfig(
   ownedTableNames: string[]
 ): string {
   const existingContent = readFileSync(existingPath, 'utf-8')
-  const doc = yaml.parseDocument(existingContent)
-  const config = doc.toJS() as Record<string, unknown>
+  const config = yaml.parse(existingContent) as Record<string, unknown>
   if (!config || typeof config !== 'object') {
     throw new Error('Failed to parse existing LevelledMobs customdrops config')
   }
 
-  const dropTable = (config['drop-table'] && typeof config['drop-table'] === 'object'
-    ? { ...(config['drop-table'] as Record<string, unknown>) }
+  const manifest = lmCustomDropsOwnership(ownedTableNames)
+  const preserved = stripOwnedForMerge(manifest, config)['drop-table']
+  const dropTable = (preserved && typeof preserved === 'object'
+    ? { ...(preserved as Record<string, unknown>) }
     : {}) as Record<string, unknown>
 
-  for (const ownedName of ownedTableNames) {
-    delete dropTable[ownedName]
-  }
   for (const [name, value] of Object.entries(generated.dropTables)) {
+    assertOwnedKey(manifest, ['drop-table', name])
     dropTable[name] = value
   }
 
@@ -133,18 +135,7 @@ export function mergeLMCustomDropsConfig(
     config['drop-table'] = dropTable
   }
 
-  if (doc.contents && typeof doc.contents === 'object') {
-    const contents = doc.contents as any
-    if (contents.set) {
-      if (config['drop-table']) {
-        contents.set('drop-table', doc.createNode(config['drop-table']))
-      } else {
-        contents.delete?.('drop-table')
-      }
-    }
-  }
-
-  return doc.toString({
+  return patchYamlSource(existingContent, config, {
     indent: 2,
     lineWidth: 0,
     simpleKeys: false,
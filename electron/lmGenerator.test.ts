@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest'
-import { generateOwnedLMRules } from './lmGenerator'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { generateOwnedLMRules, mergeLMConfig } from './lmGenerator'
 
 import type { RegionRecord } from './types'
 
@@ -119,3 +121,26 @@ describe('generateOwnedLMRules', () => {
     expect(result.regionBandRules[1]['custom-rule']).toMatch(/Z Final/)
   })
 })
+
+describe('mergeLMConfig', () => {
+  const templatePath = path.join(
+    process.cwd(),
+    'reference',
+    'plugin config files',
+    'to be bundled',
+    'levelledmobs-rules.yml'
+  )
+
+  it('keeps every template comment and the hand-written rules verbatim', () => {
+    const template = readFileSync(templatePath, 'utf-8')
+    const owned = generateOwnedLMRules([region('oakvale', 'village'), region('ashfen', 'region')])
+    const out = mergeLMConfig(templatePath, owned)
+    const comments = template.split('\n').filter((line) => line.trim().startsWith('#'))
+    const outLines = out.split('\n')
+    for (const comment of comments) expect(outLines).toContain(comment)
+    const ownedStart = template.indexOf('  - custom-rule: Villages')
+    expect(out.startsWith(template.slice(0, ownedStart))).toBe(true)
+    expect(out).toContain('- custom-rule: "Villages - Easy Band"')
+    expect(out).toContain('- "oakvale"')
+  })
+})
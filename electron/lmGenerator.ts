@@ -3,6 +3,9 @@ const { readFileSync } = require('fs')
 
 import type { RegionRecord } from './types'
 import { snakeToTitleCase } from './shared/stringFormatters'
+import { isOwnedListItem } from './shared/ownershipManifest'
+import { LM_OWNERSHIP } from './shared/ownershipManifests'
+import { patchYamlSource } from './utils/yamlSourcePatch'
 
 interface LevelledMobsMeta {
   villageBandStrategy?: string
@@ -105,48 +108,6 @@ export function generateOwnedLMRules(
   return result
 }
 
-/**
- * Identify owned rules in custom-rules array
- */
-function identifyOwnedRules(customRules: any[]): {
-  owned: any[]
-  preserved: any[]
-} {
-  const owned: any[] = []
-  const preserved: any[] = []
-
-  for (const rule of customRules) {
-    if (!rule.conditions || !rule.conditions['worldguard-regions']) {
-      // No worldguard-regions, definitely preserved
-      preserved.push(rule)
-      continue
-    }
-
-    const wgRegions = rule.conditions['worldguard-regions']
-    const usePreset = rule['use-preset'] || ''
-
-    // Villages rule: worldguard-regions is an array
-    if (Array.isArray(wgRegions)) {
-      owned.push(rule)
-      continue
-    }
-
-    // Region-band rule: worldguard-regions is a string AND use-preset matches pattern
-    if (typeof wgRegions === 'string') {
-      const isLvlStrategy = /^lvlstrategy-(easy|normal|hard|severe|deadly)$/.test(usePreset)
-      if (isLvlStrategy) {
-        owned.push(rule)
-        continue
-      }
-    }
-
-    // Not owned, preserve
-    preserved.push(rule)
-  }
-
-  return { owned, preserved }
-}
-
 /**
  * Merge LevelledMobs config with generated rules
  */
@@ -157,9 +118,7 @@ export function mergeLMConfig(
   // Read existing content
   const existingContent = readFileSync(existingPath, 'utf-8')
   
-  // Parse as document to preserve structure
-  const doc = yaml.parseDocument(existingContent)
-  const config = doc.toJS()
+  const config = yaml.parse(existingContent)
 
   if (!config) {
     throw new Error('Failed to parse existing LevelledMobs config')
@@ -170,8 +129,10 @@ export function mergeLMConfig(
     config['custom-rules'] = []
   }
 
-  // Identify owned vs preserved rules
-  const { owned: existingOwned, preserved } = identifyOwnedRules(config['custom-rules'])
+  // Template rules the manifest owns are replaced by the generated ones
+  const preserved = (config['custom-rules'] as unknown[]).filter(
+    (rule) => !isOwnedListItem(LM_OWNERSHIP, ['custom-rules'], rule)
+  )
 
   // Build new custom-rules: preserved first, then generated
   const newCustomRules: any[] = [...preserved]
@@ -181,27 +142,17 @@ export function mergeLMConfig(
     newCustomRules.push(owned.villagesRule)
   }
   newCustomRules.push(...owned.regionBandRules)
-
-  // Update custom-rules in the document
-  if (doc.contents && typeof doc.contents === 'object') {
-    const contents = doc.contents as any
-    
-    // Find custom-rules key and update it
-    if (contents.items && Array.isArray(contents.items)) {
-      for (const item of contents.items) {
-        if (item && item.key && item.key.value === 'custom-rules') {
-          item.value = doc.createNode(newCustomRules)
-          break
-        }
-      }
-    } else if (contents.get) {
-      // YAMLMap interface
-      contents.set('custom-rules', doc.createNode(newCustomRules))
+  for (const rule of newCustomRules.slice(preserved.length)) {
+    if (!isOwnedListItem(LM_OWNERSHIP, ['custom-rules'], rule)) {
+      throw new Error(`Generated rule "${rule['custom-rule']}" is not owned in the ${LM_OWNERSHIP.file} ownership manifest`)
     }
   }
 
-  // Stringify with double-quoted strings so apostrophes in names (e.g. Mor'gath) need no escaping
-  return doc.toString({
+  config['custom-rules'] = newCustomRules
+
+  // Only the rules that changed are rewritten; new ones use double quotes so apostrophes in
+  // names (e.g. Mor'gath) need no escaping
+  return patchYamlSource(existingContent, config, {
     indent: 2,
     lineWidth: 0,
     simpleKeys: false,
@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
 import path from 'path'
 import { generateMCConfig } from './mcGenerator'
 import type { RegionRecord } from './types'
@@ -58,4 +59,26 @@ describe('generateMCConfig', () => {
     const desertIdx = out.indexOf('desert_ruins')
     expect(cherryIdx).toBeLessThan(desertIdx)
   })
+
+  it('only removes lines from the bundled template when lore is off', () => {
+    const templatePath = path.join(
+      process.cwd(),
+      'reference',
+      'plugin config files',
+      'to be bundled',
+      'mycommand-commands.yml'
+    )
+    const template = readFileSync(templatePath, 'utf-8')
+      .replace(/\{SERVER_NAME\}/g, 'Srv')
+      .replace(/\{TEBEX_SUBDOMAIN\}/g, 'srv')
+    const out = generateMCConfig(templatePath, 'Srv', 'srv', [], false)
+    const remaining = template.split('\n')
+    let i = 0
+    for (const line of out.split('\n')) {
+      while (i < remaining.length && remaining[i] !== line) i++
+      expect(i, `output line not in template order: ${line}`).toBeLessThan(remaining.length)
+      i++
+    }
+    expect(out.length).toBeLessThan(template.length)
+  })
 })
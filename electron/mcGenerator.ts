@@ -3,6 +3,7 @@ const yaml = require('yaml')
 
 import type { RegionRecord } from './types'
 import { YAML_STRINGIFY_OPTIONS } from './utils/yamlOptions'
+import { patchYamlSource } from './utils/yamlSourcePatch'
 
 const LORE_GUIDES_LINE = '&e> Lore; &d/guidelore;/guidelore'
 
@@ -51,7 +52,7 @@ export function generateMCConfig(
     config.lore.tab_completer = mainRegionIds
   }
 
-  return yaml.stringify(config, YAML_STRINGIFY_OPTIONS)
+  return patchYamlSource(content, config, YAML_STRINGIFY_OPTIONS)
 }
 
 module.exports = {
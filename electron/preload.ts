@@ -3,14 +3,33 @@ import type {
   ServerProfile,
   ServerSummaryWithStats,
   ImportResult,
+  RegionImportPreviewResult,
   BuildResult,
   BuildReport,
   BuildListItem,
+  BuildPreviewResult,
+  BuildRestoreOptions,
+  BuildRestoreResult,
+  BuildCompareResponse,
+  DiscoveryWalk,
+  DiscoverySimulationResponse,
   OnboardingConfig,
   RegionRecord,
+  RegionEditRequest,
+  RegionEditResult,
+  RegionOverrideFields,
+  RegionRewardOverrides,
+  LevelledMobsBandPlan,
+  RewardEconomy,
+  RewardEconomyResult,
+  CeRecipes,
+  CeRecipesResult,
   DiscordSrvSettings,
+  WebMapSettings,
   BuildTarget,
+  GeneratorVersionKey,
   PluginFolderCompareResponse,
+  DriftCheckResponse,
   ComparePreset,
   ComparePresetMutationResult,
   ComparePresetDeleteResult,
@@ -22,7 +41,41 @@ import type {
   CrateLibraryEntry,
   CrateLibraryDeleteResult,
   CratePrizeEntry,
+  PluginType,
+  TemplateLibraryEntry,
+  TemplatePin,
+  TemplateImportResult,
+  TemplateLibraryDeleteResult,
+  TemplateVersionDiffResult,
+  ServerProfileExportOptions,
+  ServerProfileExportResponse,
+  ServerProfileBundlePreviewResponse,
+  ServerProfileImportOptions,
+  ServerProfileImportResponse,
+  ServerProfileRecoveryResult,
+  StoredDocumentLoadProblem,
+  StoredDocumentRecoveryResult,
+  StoredLibraryKind,
 } from './types'
+import type { GeneratorPathKey, GeneratorToggleKey } from './shared/generatorCatalog'
+
+/** build-configs / preview-build inputs: one toggle (and optional source path) per generator. */
+type BuildConfigsInputs = Partial<Record<GeneratorToggleKey, boolean>> &
+  Partial<Record<GeneratorPathKey, string>> & {
+    worldGuardRegionsWorldFolder?: string
+    worldGuardRegionsNetherWorldFolder?: string
+    worldGuardRegionsEndWorldFolder?: string
+    buildTarget?: BuildTarget
+    discordSrv?: DiscordSrvSettings
+    mcTebexSubdomain?: string
+    webMap?: WebMapSettings
+    outDir: string
+    propagateToPluginFolders?: boolean
+    testBuild?: boolean
+    buildNote?: string
+    /** Diff-gate fingerprints to accept for this build only. */
+    acceptDrift?: Partial<Record<GeneratorVersionKey, string>>
+  }
 
 // Define the IPC API interface
 export interface ElectronAPI {
@@ -35,6 +88,18 @@ export interface ElectronAPI {
   ) => Promise<ServerProfile | null>
   getServer: (serverId: string) => Promise<ServerProfile>
   deleteServer: (serverId: string) => Promise<{ success: boolean; error?: string }>
+  recoverServerProfile: (serverId: string) => Promise<ServerProfileRecoveryResult>
+  /** Save dialog + write a portable profile bundle; null when the dialog is cancelled. */
+  exportServerBundle: (
+    serverId: string,
+    options: ServerProfileExportOptions
+  ) => Promise<ServerProfileExportResponse | null>
+  /** Open dialog + parse a bundle and report library collisions; null when cancelled. */
+  previewServerBundle: () => Promise<ServerProfileBundlePreviewResponse | null>
+  importServerBundle: (
+    filePath: string,
+    options: ServerProfileImportOptions
+  ) => Promise<ServerProfileImportResponse>
   setDiscordSrvSettings: (
     serverId: string,
     target: BuildTarget,
@@ -42,16 +107,30 @@ export interface ElectronAPI {
   ) => Promise<void>
   
   // Region import
+  /** `expectedFileHash` (from the preview) makes the import fail if the file changed since. */
   importRegions: (
     serverId: string,
-    world: 'overworld' | 'nether',
-    filePath: string
+    world: 'overworld' | 'nether' | 'end',
+    filePath: string,
+    expectedFileHash?: string
   ) => Promise<ImportResult>
   importRegionsMeta: (
     serverId: string,
     world: 'overworld' | 'nether' | 'end',
-    filePath: string
+    filePath: string,
+    expectedFileHash?: string
   ) => Promise<ImportResult>
+  /** Diff of what the import would change; nothing is saved. */
+  previewImportRegions: (
+    serverId: string,
+    world: 'overworld' | 'nether' | 'end',
+    filePath: string
+  ) => Promise<RegionImportPreviewResult>
+  previewImportRegionsMeta: (
+    serverId: string,
+    world: 'overworld' | 'nether' | 'end',
+    filePath: string
+  ) => Promise<RegionImportPreviewResult>
   showImportDialog: () => Promise<string | null>
   
   // Onboarding
@@ -64,6 +143,30 @@ export interface ElectronAPI {
     regionId: string,
     updates: { anchors?: string[]; description?: string }
   ) => Promise<ServerProfile | null>
+  /** Manual region edits (bulk when several keys); recorded as overrides that survive re-import. */
+  editRegions: (serverId: string, request: RegionEditRequest) => Promise<RegionEditResult>
+  /** Restore imported values; all override fields when `fieldNames` is omitted. */
+  revertRegionOverrides: (
+    serverId: string,
+    regionKeys: string[],
+    fieldNames?: (keyof RegionOverrideFields)[]
+  ) => Promise<RegionEditResult>
+  /** Set one region's reward overrides (`world:id` key); `null` clears them. */
+  updateRegionRewards: (
+    serverId: string,
+    regionKey: string,
+    rewards: RegionRewardOverrides | null
+  ) => Promise<RegionEditResult>
+  /** Save the band planner rings and locks, and write the accepted bands (`world:id` → band) as region edits. */
+  applyBandPlan: (
+    serverId: string,
+    plan: LevelledMobsBandPlan,
+    bands: Record<string, string>
+  ) => Promise<RegionEditResult>
+  /** Validate and save the AA reward economy; `null` resets it to the built-in defaults. */
+  updateRewardEconomy: (serverId: string, economy: RewardEconomy | null) => Promise<RewardEconomyResult>
+  /** Validate and save the CE discovery recipes; `null` resets them to the built-in defaults. */
+  updateCeRecipes: (serverId: string, recipes: CeRecipes | null) => Promise<CeRecipesResult>
   scanItemIndex: () => Promise<{ items: ItemIndexEntry[]; warnings: string[]; sourcePath: string }>
   scanEnchantData: () => Promise<{
     enchants: import('@shared/types').EnchantIndexEntry[]
@@ -117,51 +220,49 @@ export interface ElectronAPI {
     serverId: string,
     payload: { libraryCrateIds: string[] }
   ) => Promise<ServerProfile | null>
+  listTemplateLibrary: () => Promise<TemplateLibraryEntry[]>
+  importTemplateVersion: (input: {
+    plugin: PluginType
+    sourcePath: string
+    templateId?: string
+    name?: string
+    note?: string
+  }) => Promise<TemplateImportResult>
+  updateTemplateLibraryEntry: (input: {
+    id: string
+    name?: string
+    description?: string
+    versionNotes?: Record<number, string>
+  }) => Promise<TemplateLibraryEntry>
+  deleteTemplateLibraryEntry: (id: string) => Promise<TemplateLibraryDeleteResult>
+  diffTemplateVersions: (templateId: string, from: number, to: number) => Promise<TemplateVersionDiffResult>
+  setTemplatePin: (
+    serverId: string,
+    target: BuildTarget,
+    plugin: PluginType,
+    pin: TemplatePin | null
+  ) => Promise<ServerProfile | null>
+  /** Why a library file exists but does not load (null when it loads or is absent). */
+  diagnoseLibrary: (kind: StoredLibraryKind) => Promise<StoredDocumentLoadProblem | null>
+  /** Replace an unreadable library file with its newest valid backup. */
+  recoverLibrary: (kind: StoredLibraryKind) => Promise<StoredDocumentRecoveryResult>
 
   // Build
   buildConfigs: (
     serverId: string,
-    inputs: {
-      generateAA?: boolean
-      generateBookGUI?: boolean
-      generateCE?: boolean
-      generateTAB?: boolean
-      generateLM?: boolean
-      generateLMCustomDrops?: boolean
-      generateMC?: boolean
-      generateCW?: boolean
-      generateDiscordSRV?: boolean
-      generateGriefPrevention?: boolean
-      generateCrazyCrates?: boolean
-      generateLuckPerms?: boolean
-      generatePlaceholderAPI?: boolean
-      generateWorldGuardRegions?: boolean
-      worldGuardRegionsPath?: string
-      worldGuardRegionsWorldFolder?: string
-      generateWorldGuardRegionsNether?: boolean
-      worldGuardRegionsNetherPath?: string
-      worldGuardRegionsNetherWorldFolder?: string
-      buildTarget?: BuildTarget
-      discordSrv?: DiscordSrvSettings
-      aaPath?: string
-      cePath?: string
-      tabPath?: string
-      lmPath?: string
-      lmCustomDropsPath?: string
-      mcPath?: string
-      mcTebexSubdomain?: string
-      cwPath?: string
-      outDir: string
-      propagateToPluginFolders?: boolean
-      testBuild?: boolean
-      buildNote?: string
-    }
+    inputs: BuildConfigsInputs
   ) => Promise<BuildResult>
+  /** Dry run: same inputs as buildConfigs; returns per-file diffs without writing. */
+  previewBuild: (
+    serverId: string,
+    inputs: BuildConfigsInputs
+  ) => Promise<BuildPreviewResult>
   showConfigFileDialog: (title: string, defaultPath?: string) => Promise<string | null>
   showOutputDialog: () => Promise<string | null>
   showFolderDialog: (title: string, defaultPath?: string) => Promise<string | null>
   openPathInExplorer: (path: string) => Promise<{ success: boolean; error?: string }>
   comparePluginFolders: (leftRoot: string, rightRoot: string) => Promise<PluginFolderCompareResponse>
+  checkPluginDrift: (pluginsRoot: string) => Promise<DriftCheckResponse>
   listComparePresets: () => Promise<ComparePreset[]>
   saveComparePreset: (input: {
     name: string
@@ -183,6 +284,11 @@ export interface ElectronAPI {
   // Build reports
   readBuildReport: (serverId: string, buildId: string) => Promise<BuildReport | null>
   listBuilds: (serverId: string) => Promise<BuildListItem[]>
+  /** Copy a saved build back into the output folder; overwritten files are kept with the new rollback build. */
+  restoreBuild: (serverId: string, buildId: string, options?: BuildRestoreOptions) => Promise<BuildRestoreResult>
+  compareBuilds: (serverId: string, leftBuildId: string, rightBuildId: string) => Promise<BuildCompareResponse>
+  /** Replay a walk against a saved build's AA, CE and TAB files. */
+  simulateDiscovery: (serverId: string, buildId: string, walk: DiscoveryWalk) => Promise<DiscoverySimulationResponse>
 }
 
 // Expose API to renderer
@@ -194,17 +300,43 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('update-server-identity', serverId, partial),
   getServer: (serverId: string) => ipcRenderer.invoke('get-server', serverId),
   deleteServer: (serverId: string) => ipcRenderer.invoke('delete-server', serverId),
+  recoverServerProfile: (serverId: string) => ipcRenderer.invoke('recover-server-profile', serverId),
+  exportServerBundle: (serverId: string, options: ServerProfileExportOptions) =>
+    ipcRenderer.invoke('export-server-bundle', serverId, options),
+  previewServerBundle: () => ipcRenderer.invoke('preview-server-bundle'),
+  importServerBundle: (filePath: string, options: ServerProfileImportOptions) =>
+    ipcRenderer.invoke('import-server-bundle', filePath, options),
   setDiscordSrvSettings: (serverId: string, target: BuildTarget, partial: DiscordSrvSettings) =>
     ipcRenderer.invoke('set-discordsrv-settings', serverId, target, partial),
-  importRegions: (serverId: string, world: 'overworld' | 'nether', filePath: string) =>
-    ipcRenderer.invoke('import-regions', serverId, world, filePath),
-  importRegionsMeta: (serverId: string, world: 'overworld' | 'nether' | 'end', filePath: string) =>
-    ipcRenderer.invoke('import-regions-meta', serverId, world, filePath),
+  importRegions: (serverId: string, world: 'overworld' | 'nether' | 'end', filePath: string, expectedFileHash?: string) =>
+    ipcRenderer.invoke('import-regions', serverId, world, filePath, expectedFileHash),
+  importRegionsMeta: (
+    serverId: string,
+    world: 'overworld' | 'nether' | 'end',
+    filePath: string,
+    expectedFileHash?: string
+  ) => ipcRenderer.invoke('import-regions-meta', serverId, world, filePath, expectedFileHash),
+  previewImportRegions: (serverId: string, world: 'overworld' | 'nether' | 'end', filePath: string) =>
+    ipcRenderer.invoke('preview-import-regions', serverId, world, filePath),
+  previewImportRegionsMeta: (serverId: string, world: 'overworld' | 'nether' | 'end', filePath: string) =>
+    ipcRenderer.invoke('preview-import-regions-meta', serverId, world, filePath),
   showImportDialog: () => ipcRenderer.invoke('show-import-dialog'),
   updateOnboarding: (serverId: string, onboarding: OnboardingConfig) =>
     ipcRenderer.invoke('update-onboarding', serverId, onboarding),
   updateRegionLoreBook: (serverId: string, regionId: string, updates: { anchors?: string[]; description?: string }) =>
     ipcRenderer.invoke('update-region-lore-book', serverId, regionId, updates),
+  editRegions: (serverId: string, request: RegionEditRequest) =>
+    ipcRenderer.invoke('edit-regions', serverId, request),
+  revertRegionOverrides: (serverId: string, regionKeys: string[], fieldNames?: (keyof RegionOverrideFields)[]) =>
+    ipcRenderer.invoke('revert-region-overrides', serverId, regionKeys, fieldNames),
+  updateRegionRewards: (serverId: string, regionKey: string, rewards: RegionRewardOverrides | null) =>
+    ipcRenderer.invoke('update-region-rewards', serverId, regionKey, rewards),
+  applyBandPlan: (serverId: string, plan: LevelledMobsBandPlan, bands: Record<string, string>) =>
+    ipcRenderer.invoke('apply-band-plan', serverId, plan, bands),
+  updateRewardEconomy: (serverId: string, economy: RewardEconomy | null) =>
+    ipcRenderer.invoke('update-reward-economy', serverId, economy),
+  updateCeRecipes: (serverId: string, recipes: CeRecipes | null) =>
+    ipcRenderer.invoke('update-ce-recipes', serverId, recipes),
   scanItemIndex: () => ipcRenderer.invoke('scan-item-index'),
   scanEnchantData: () => ipcRenderer.invoke('scan-enchant-data'),
   listDropTableLibrary: () => ipcRenderer.invoke('list-drop-table-library'),
@@ -253,44 +385,35 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('set-virtual-crate-key-values', values),
   updateServerCrazyCrates: (serverId: string, payload: { libraryCrateIds: string[] }) =>
     ipcRenderer.invoke('update-server-crazy-crates', serverId, payload),
+  listTemplateLibrary: () => ipcRenderer.invoke('list-template-library'),
+  importTemplateVersion: (input: {
+    plugin: PluginType
+    sourcePath: string
+    templateId?: string
+    name?: string
+    note?: string
+  }) => ipcRenderer.invoke('import-template-version', input),
+  updateTemplateLibraryEntry: (input: {
+    id: string
+    name?: string
+    description?: string
+    versionNotes?: Record<number, string>
+  }) => ipcRenderer.invoke('update-template-library-entry', input),
+  deleteTemplateLibraryEntry: (id: string) => ipcRenderer.invoke('delete-template-library-entry', id),
+  diffTemplateVersions: (templateId: string, from: number, to: number) =>
+    ipcRenderer.invoke('diff-template-versions', templateId, from, to),
+  setTemplatePin: (serverId: string, target: BuildTarget, plugin: PluginType, pin: TemplatePin | null) =>
+    ipcRenderer.invoke('set-template-pin', serverId, target, plugin, pin),
+  diagnoseLibrary: (kind: StoredLibraryKind) => ipcRenderer.invoke('diagnose-library', kind),
+  recoverLibrary: (kind: StoredLibraryKind) => ipcRenderer.invoke('recover-library', kind),
   buildConfigs: (
     serverId: string,
-    inputs: {
-      generateAA?: boolean
-      generateBookGUI?: boolean
-      generateCE?: boolean
-      generateTAB?: boolean
-      generateLM?: boolean
-      generateLMCustomDrops?: boolean
-      generateMC?: boolean
-      generateCW?: boolean
-      generateDiscordSRV?: boolean
-      generateGriefPrevention?: boolean
-      generateCrazyCrates?: boolean
-      generateLuckPerms?: boolean
-      generatePlaceholderAPI?: boolean
-      generateWorldGuardRegions?: boolean
-      worldGuardRegionsPath?: string
-      worldGuardRegionsWorldFolder?: string
-      generateWorldGuardRegionsNether?: boolean
-      worldGuardRegionsNetherPath?: string
-      worldGuardRegionsNetherWorldFolder?: string
-      buildTarget?: BuildTarget
-      discordSrv?: DiscordSrvSettings
-      aaPath?: string
-      cePath?: string
-      tabPath?: string
-      lmPath?: string
-      lmCustomDropsPath?: string
-      mcPath?: string
-      mcTebexSubdomain?: string
-      cwPath?: string
-      outDir: string
-      propagateToPluginFolders?: boolean
-      testBuild?: boolean
-      buildNote?: string
-    }
+    inputs: BuildConfigsInputs
   ) => ipcRenderer.invoke('build-configs', serverId, inputs),
+  previewBuild: (
+    serverId: string,
+    inputs: BuildConfigsInputs
+  ) => ipcRenderer.invoke('preview-build', serverId, inputs),
   showConfigFileDialog: (title: string, defaultPath?: string) =>
     ipcRenderer.invoke('show-config-file-dialog', title, defaultPath),
   showOutputDialog: () => ipcRenderer.invoke('show-output-dialog'),
@@ -299,6 +422,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   openPathInExplorer: (path: string) => ipcRenderer.invoke('open-path-in-explorer', path),
   comparePluginFolders: (leftRoot: string, rightRoot: string) =>
     ipcRenderer.invoke('compare-plugin-folders', leftRoot, rightRoot),
+  checkPluginDrift: (pluginsRoot: string) => ipcRenderer.invoke('check-plugin-drift', pluginsRoot),
   listComparePresets: () => ipcRenderer.invoke('list-compare-presets'),
   saveComparePreset: (input: { name: string; leftPath: string; rightPath: string }) =>
     ipcRenderer.invoke('save-compare-preset', input),
@@ -310,6 +434,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
   readBuildReport: (serverId: string, buildId: string) =>
     ipcRenderer.invoke('read-build-report', serverId, buildId),
   listBuilds: (serverId: string) => ipcRenderer.invoke('list-builds', serverId),
+  restoreBuild: (serverId: string, buildId: string, options?: BuildRestoreOptions) =>
+    ipcRenderer.invoke('restore-build', serverId, buildId, options),
+  compareBuilds: (serverId: string, leftBuildId: string, rightBuildId: string) =>
+    ipcRenderer.invoke('compare-builds', serverId, leftBuildId, rightBuildId),
+  simulateDiscovery: (serverId: string, buildId: string, walk: DiscoveryWalk) =>
+    ipcRenderer.invoke('simulate-discovery', serverId, buildId, walk),
 } as ElectronAPI)
 
 // Extend Window interface for TypeScript
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createProfileBundle,
+  parseProfileBundle,
+  findBundleCollisions,
+  applyProfileBundle,
+} from './profileBundle'
+import type { ServerProfile, DropTableLibraryEntry, CrateLibraryEntry } from './types'
+
+const ts = '2026-01-01T00:00:00.000Z'
+
+function table(id: string, name: string): DropTableLibraryEntry {
+  return { id, name, selectedItems: [], createdAt: ts, updatedAt: ts }
+}
+
+function crate(id: string, outputStem: string): CrateLibraryEntry {
+  return { id, name: outputStem, outputStem, selectedPrizeEntries: [], createdAt: ts, updatedAt: ts }
+}
+
+const profile: ServerProfile = {
+  id: 'charidh-1234abcd',
+  name: 'Charidh',
+  sources: {},
+  regions: [],
+  onboarding: { startRegionId: 'spawn', teleport: { world: 'world', x: 0, z: 0 } },
+  build: { outputDirectory: '/srv/plugins', lastBuildId: 'build-1', buildTarget: 'live', mcTebexSubdomain: 'shop' },
+  dropTables: { libraryTableIds: ['t1'] },
+  crazyCrates: { libraryCrateIds: ['c1'] },
+  generatorVersions: { aa: 4 },
+  discordSrv: { botToken: 'secret', globalChannelId: '1' },
+  discordSrvByTarget: { live: { botToken: 'secret-live', statusChannelId: '2' } },
+  templatePinsByTarget: { live: { aa: { templateId: 'tpl-1', version: 2 } } },
+}
+
+describe('createProfileBundle', () => {
+  it('includes referenced library entries, drops local paths and redacts tokens', () => {
+    const bundle = createProfileBundle(
+      profile,
+      [table('t1', 'zombie_drops'), table('t2', 'unused')],
+      [crate('c1', 'HeartCrate')],
+      { redactDiscordSrvTokens: true },
+      ts
+    )
+    expect(bundle.dropTables.map((t) => t.id)).toEqual(['t1'])
+    expect(bundle.crates.map((c) => c.id)).toEqual(['c1'])
+    expect(bundle.profile.build).toEqual({ buildTarget: 'live', mcTebexSubdomain: 'shop' })
+    expect(bundle.profile.discordSrv).toEqual({ globalChannelId: '1' })
+    expect(bundle.profile.discordSrvByTarget).toEqual({ live: { statusChannelId: '2' } })
+    expect(bundle.profile.generatorVersions).toEqual({ aa: 4 })
+    expect(bundle.profile.templatePinsByTarget).toBeUndefined()
+    expect(profile.discordSrv?.botToken).toBe('secret')
+    expect(parseProfileBundle(JSON.parse(JSON.stringify(bundle))).ok).toBe(true)
+  })
+
+  it('carries region reward crates and remaps them on import', () => {
+    const withRewards: ServerProfile = {
+      ...profile,
+      regions: [
+        {
+          world: 'overworld',
+          id: 'sky_spire',
+          kind: 'region',
+          discover: { method: 'on_enter', recipeId: 'region' },
+          rewards: { crateLibraryId: 'c2', aaExperience: 5 },
+        },
+      ],
+    }
+    const bundle = createProfileBundle(
+      withRewards,
+      [],
+      [crate('c1', 'HeartCrate'), crate('c2', 'LandmarkCrate')],
+      { redactDiscordSrvTokens: true },
+      ts
+    )
+    expect(bundle.crates.map((c) => c.id)).toEqual(['c1', 'c2'])
+    const applied = applyProfileBundle(bundle, [], [crate('y2', 'LandmarkCrate')], 'new-id', {}, ts)
+    expect(applied.profile.regions[0]!.rewards).toEqual({ crateLibraryId: 'y2', aaExperience: 5 })
+  })
+
+  it('keeps tokens when redaction is off', () => {
+    const bundle = createProfileBundle(profile, [], [], { redactDiscordSrvTokens: false }, ts)
+    expect(bundle.profile.discordSrvByTarget?.live?.botToken).toBe('secret-live')
+  })
+})
+
+describe('parseProfileBundle', () => {
+  it('rejects other JSON', () => {
+    expect(parseProfileBundle({ tables: [] }).ok).toBe(false)
+    expect(parseProfileBundle(null).ok).toBe(false)
+  })
+
+  it('rejects library rows without an id or key field', () => {
+    const bundle = createProfileBundle(
+      profile,
+      [table('t1', 'zombie_drops')],
+      [crate('c1', 'HeartCrate')],
+      { redactDiscordSrvTokens: true },
+      ts
+    )
+    const withRows = (dropTables: unknown[], crates: unknown[]) =>
+      parseProfileBundle({ ...JSON.parse(JSON.stringify(bundle)), dropTables, crates })
+    expect(withRows(bundle.dropTables, bundle.crates).ok).toBe(true)
+    expect(withRows([...bundle.dropTables, 'x'], bundle.crates)).toEqual({
+      ok: false,
+      error: 'Bundle drop table #2 is not an object',
+    })
+    expect(withRows([{ id: 't2', name: ' ' }], [])).toEqual({
+      ok: false,
+      error: 'Bundle drop table #1 (t2) has no name',
+    })
+    expect(withRows([], [{ outputStem: 'KeyCrate' }])).toEqual({ ok: false, error: 'Bundle crate #1 has no id' })
+    expect(withRows([], [{ id: 'c2', outputStem: 7 }])).toEqual({
+      ok: false,
+      error: 'Bundle crate #1 (c2) has no outputStem',
+    })
+  })
+})
+
+describe('applyProfileBundle', () => {
+  const bundle = createProfileBundle(
+    profile,
+    [table('t1', 'zombie_drops')],
+    [crate('c1', 'HeartCrate')],
+    { redactDiscordSrvTokens: true },
+    ts
+  )
+
+  it('detects name / outputStem collisions case-insensitively', () => {
+    const collisions = findBundleCollisions(bundle, [table('x1', 'Zombie_Drops')], [crate('y1', 'heartcrate')])
+    expect(collisions).toEqual([
+      { kind: 'dropTable', bundleEntryId: 't1', existingEntryId: 'x1', name: 'zombie_drops' },
+      { kind: 'crate', bundleEntryId: 'c1', existingEntryId: 'y1', name: 'HeartCrate', outputStem: 'HeartCrate' },
+    ])
+  })
+
+  it('merges colliding entries by default and remaps assignment ids', () => {
+    const applied = applyProfileBundle(bundle, [table('x1', 'zombie_drops')], [], 'new-id', {}, ts)
+    expect(applied.profile.id).toBe('new-id')
+    expect(applied.profile.dropTables?.libraryTableIds).toEqual(['x1'])
+    expect(applied.mergedEntries).toBe(1)
+    expect(applied.addedCrates).toBe(1)
+    const added = applied.crateLibrary[0]
+    expect(added.id).not.toBe('c1')
+    expect(applied.profile.crazyCrates?.libraryCrateIds).toEqual([added.id])
+  })
+
+  it('renames when asked', () => {
+    const applied = applyProfileBundle(
+      bundle,
+      [table('x1', 'zombie_drops')],
+      [crate('y1', 'HeartCrate')],
+      'new-id',
+      { name: 'Imported', resolutions: { t1: 'rename', c1: 'rename' } },
+      ts
+    )
+    expect(applied.profile.name).toBe('Imported')
+    expect(applied.dropTableLibrary.map((t) => t.name)).toEqual(['zombie_drops', 'zombie_drops_2'])
+    expect(applied.crateLibrary.map((c) => c.outputStem)).toEqual(['HeartCrate', 'HeartCrate_2'])
+    expect(applied.profile.dropTables?.libraryTableIds).toEqual([applied.dropTableLibrary[1].id])
+  })
+})
@@ -0,0 +1,259 @@
+/**
+ * Portable server profile bundle (JSON): export a profile with the drop-table / crate library
+ * entries it references, and import it into another installation with remapped ids.
+ * Pure functions — callers load and save the profile and libraries.
+ */
+const { randomUUID } = require('crypto')
+
+import type {
+  ServerProfile,
+  ServerProfileBundle,
+  ServerProfileExportOptions,
+  ServerProfileImportOptions,
+  BundleLibraryCollision,
+  DropTableLibraryEntry,
+  CrateLibraryEntry,
+  DiscordSrvSettings,
+} from './types'
+import { migrateDocument, migrateDropTableEntry } from './utils/schemaMigrations'
+
+export const PROFILE_BUNDLE_FORMAT = 'mcpm-server-profile'
+export const PROFILE_BUNDLE_VERSION = 1
+
+function sameKey(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+function redactToken(settings: DiscordSrvSettings | undefined): DiscordSrvSettings | undefined {
+  if (!settings) return settings
+  const { botToken: _botToken, ...rest } = settings
+  return rest
+}
+
+/**
+ * Build-folder paths and the last build id only make sense on the exporting machine,
+ * so they are left out; build target, world folders and the Tebex subdomain travel.
+ */
+function toPortableProfile(profile: ServerProfile, options: ServerProfileExportOptions): ServerProfile {
+  const copy = JSON.parse(JSON.stringify(profile)) as ServerProfile
+  const {
+    lastBuildId: _lastBuildId,
+    outputDirectory: _outputDirectory,
+    loreBooksOutputDirectory: _loreBooksOutputDirectory,
+    worldGuardRegionsSourcePath: _worldGuardRegionsSourcePath,
+    worldGuardRegionsNetherSourcePath: _worldGuardRegionsNetherSourcePath,
+    worldGuardRegionsEndSourcePath: _worldGuardRegionsEndSourcePath,
+    ...portableBuild
+  } = copy.build ?? {}
+  copy.build = portableBuild
+  // Template library files are not bundled, so pins would not resolve in another installation.
+  delete copy.templatePinsByTarget
+  if (options.redactDiscordSrvTokens) {
+    if (copy.discordSrv) copy.discordSrv = redactToken(copy.discordSrv)
+    if (copy.discordSrvByTarget) {
+      copy.discordSrvByTarget = {
+        ...(copy.discordSrvByTarget.next ? { next: redactToken(copy.discordSrvByTarget.next) } : {}),
+        ...(copy.discordSrvByTarget.live ? { live: redactToken(copy.discordSrvByTarget.live) } : {}),
+      }
+    }
+  }
+  return copy
+}
+
+export function createProfileBundle(
+  profile: ServerProfile,
+  dropTableLibrary: DropTableLibraryEntry[],
+  crateLibrary: CrateLibraryEntry[],
+  options: ServerProfileExportOptions,
+  exportedAt: string = new Date().toISOString()
+): ServerProfileBundle {
+  const tableIds = new Set(profile.dropTables?.libraryTableIds ?? [])
+  const crateIds = new Set(profile.crazyCrates?.libraryCrateIds ?? [])
+  for (const region of profile.regions) {
+    if (region.rewards?.crateLibraryId) crateIds.add(region.rewards.crateLibraryId)
+  }
+  return {
+    format: PROFILE_BUNDLE_FORMAT,
+    version: PROFILE_BUNDLE_VERSION,
+    exportedAt,
+    discordSrvTokensRedacted: options.redactDiscordSrvTokens,
+    profile: toPortableProfile(profile, options),
+    dropTables: dropTableLibrary.filter((t) => tableIds.has(t.id)),
+    crates: crateLibrary.filter((c) => crateIds.has(c.id)),
+  }
+}
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0
+
+/** Error for the first library row lacking an id or its key field, or null when every row is usable. */
+function invalidLibraryRow(rows: unknown[], keyField: 'name' | 'outputStem', label: string): string | null {
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i]
+    if (!row || typeof row !== 'object' || Array.isArray(row)) return `Bundle ${label} #${i + 1} is not an object`
+    const rec = row as Record<string, unknown>
+    if (!isNonEmptyString(rec.id)) return `Bundle ${label} #${i + 1} has no id`
+    if (!isNonEmptyString(rec[keyField])) return `Bundle ${label} #${i + 1} (${rec.id}) has no ${keyField}`
+  }
+  return null
+}
+
+export function parseProfileBundle(raw: unknown): { ok: true; bundle: ServerProfileBundle } | { ok: false; error: string } {
+  if (!raw || typeof raw !== 'object') return { ok: false, error: 'Not a profile bundle (expected a JSON object)' }
+  const r = raw as Record<string, unknown>
+  if (r.format !== PROFILE_BUNDLE_FORMAT) return { ok: false, error: 'Not a server profile bundle' }
+  if (typeof r.version !== 'number' || r.version > PROFILE_BUNDLE_VERSION) {
+    return { ok: false, error: `Unsupported bundle version: ${String(r.version)}` }
+  }
+  const profile = r.profile as Record<string, unknown> | undefined
+  if (!profile || typeof profile !== 'object' || typeof profile.name !== 'string' || !Array.isArray(profile.regions)) {
+    return { ok: false, error: 'Bundle profile is missing or invalid' }
+  }
+  if (!Array.isArray(r.dropTables) || !Array.isArray(r.crates)) {
+    return { ok: false, error: 'Bundle library sections are missing' }
+  }
+  const badRow =
+    invalidLibraryRow(r.dropTables, 'name', 'drop table') ?? invalidLibraryRow(r.crates, 'outputStem', 'crate')
+  if (badRow) return { ok: false, error: badRow }
+  // Bundles carry the exporting app's profile shape; bring it (and legacy drop-table rows) up to date.
+  const migrated = migrateDocument('profile', profile)
+  if (!migrated.ok) return { ok: false, error: migrated.error }
+  return {
+    ok: true,
+    bundle: {
+      ...(raw as ServerProfileBundle),
+      profile: migrated.data as unknown as ServerProfile,
+      dropTables: (r.dropTables as Record<string, unknown>[]).map(
+        (row) => migrateDropTableEntry(row) as unknown as DropTableLibraryEntry
+      ),
+    },
+  }
+}
+
+/** Bundled drop tables whose name, or crates whose outputStem, is already in the local library. */
+export function findBundleCollisions(
+  bundle: ServerProfileBundle,
+  dropTableLibrary: DropTableLibraryEntry[],
+  crateLibrary: CrateLibraryEntry[]
+): BundleLibraryCollision[] {
+  const out: BundleLibraryCollision[] = []
+  for (const t of bundle.dropTables) {
+    const existing = dropTableLibrary.find((e) => sameKey(e.name, t.name))
+    if (existing) out.push({ kind: 'dropTable', bundleEntryId: t.id, existingEntryId: existing.id, name: t.name })
+  }
+  for (const c of bundle.crates) {
+    const existing = crateLibrary.find((e) => sameKey(e.outputStem, c.outputStem))
+    if (existing) {
+      out.push({
+        kind: 'crate',
+        bundleEntryId: c.id,
+        existingEntryId: existing.id,
+        name: c.name,
+        outputStem: c.outputStem,
+      })
+    }
+  }
+  return out
+}
+
+function freeKey(base: string, taken: (candidate: string) => boolean): string {
+  let candidate = base
+  let n = 2
+  while (taken(candidate)) {
+    candidate = `${base}_${n}`
+    n += 1
+  }
+  return candidate
+}
+
+export interface AppliedProfileBundle {
+  profile: ServerProfile
+  dropTableLibrary: DropTableLibraryEntry[]
+  crateLibrary: CrateLibraryEntry[]
+  addedDropTables: number
+  addedCrates: number
+  mergedEntries: number
+}
+
+/**
+ * New profile (fresh id) plus updated libraries. Colliding entries are merged into the existing
+ * entry unless `options.resolutions` says rename; every added entry gets a new id.
+ */
+export function applyProfileBundle(
+  bundle: ServerProfileBundle,
+  dropTableLibrary: DropTableLibraryEntry[],
+  crateLibrary: CrateLibraryEntry[],
+  newServerId: string,
+  options: ServerProfileImportOptions = {},
+  now: string = new Date().toISOString()
+): AppliedProfileBundle {
+  const collisions = findBundleCollisions(bundle, dropTableLibrary, crateLibrary)
+  const collisionById = new Map(collisions.map((c) => [c.bundleEntryId, c]))
+  const resolutionFor = (id: string) => options.resolutions?.[id] ?? 'merge'
+
+  const tables = [...dropTableLibrary]
+  const tableIdMap = new Map<string, string>()
+  let addedDropTables = 0
+  let mergedEntries = 0
+  for (const t of bundle.dropTables) {
+    const collision = collisionById.get(t.id)
+    if (collision && resolutionFor(t.id) === 'merge') {
+      tableIdMap.set(t.id, collision.existingEntryId)
+      mergedEntries += 1
+      continue
+    }
+    const id = randomUUID()
+    const name = freeKey(t.name.trim(), (n) => tables.some((e) => sameKey(e.name, n)))
+    tables.push({ ...t, id, name, createdAt: now, updatedAt: now })
+    tableIdMap.set(t.id, id)
+    addedDropTables += 1
+  }
+
+  const crates = [...crateLibrary]
+  const crateIdMap = new Map<string, string>()
+  let addedCrates = 0
+  for (const c of bundle.crates) {
+    const collision = collisionById.get(c.id)
+    if (collision && resolutionFor(c.id) === 'merge') {
+      crateIdMap.set(c.id, collision.existingEntryId)
+      mergedEntries += 1
+      continue
+    }
+    const id = randomUUID()
+    const outputStem = freeKey(c.outputStem.trim(), (s) => crates.some((e) => sameKey(e.outputStem, s)))
+    crates.push({ ...c, id, outputStem, createdAt: now, updatedAt: now })
+    crateIdMap.set(c.id, id)
+    addedCrates += 1
+  }
+
+  const source = JSON.parse(JSON.stringify(bundle.profile)) as ServerProfile
+  const name = options.name?.trim() || source.name
+  const remap = (ids: string[] | undefined, map: Map<string, string>) =>
+    [...new Set((ids ?? []).map((id) => map.get(id)).filter((id): id is string => Boolean(id)))]
+  const profile: ServerProfile = {
+    ...source,
+    id: newServerId,
+    name,
+    build: { ...(source.build ?? {}) },
+    dropTables: { libraryTableIds: remap(source.dropTables?.libraryTableIds, tableIdMap) },
+    crazyCrates: { libraryCrateIds: remap(source.crazyCrates?.libraryCrateIds, crateIdMap) },
+  }
+  // Region reward crates follow their library entries; ones the bundle did not carry are dropped.
+  for (const region of profile.regions) {
+    const crateId = region.rewards?.crateLibraryId
+    if (!crateId) continue
+    const mapped = crateIdMap.get(crateId)
+    if (mapped) region.rewards!.crateLibraryId = mapped
+    else delete region.rewards!.crateLibraryId
+    if (Object.keys(region.rewards!).length === 0) delete region.rewards
+  }
+  delete profile.build.lastBuildId
+
+  return {
+    profile,
+    dropTableLibrary: tables,
+    crateLibrary: crates,
+    addedDropTables,
+    addedCrates,
+    mergedEntries,
+  }
+}
@@ -2,7 +2,7 @@ import { mkdtempSync, writeFileSync, unlinkSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
 import { describe, it, expect } from 'vitest'
-import { classifyRegion, importRegionsMeta } from './regionParser'
+import { classifyRegion, importRegionsMeta, parseRegionGeometry } from './regionParser'
 
 describe('classifyRegion', () => {
   const noOnboarding = { startRegionId: '', teleport: { world: 'world', x: 0, z: 0 } }
@@ -84,6 +84,43 @@ describe('classifyRegion', () => {
   })
 })
 
+describe('parseRegionGeometry', () => {
+  it('orders cuboid corners and bounds poly2d points', () => {
+    expect(
+      parseRegionGeometry({ type: 'cuboid', min: { x: 10, y: 80, z: -5 }, max: { x: -10, y: -64, z: 5 } })
+    ).toEqual({ type: 'cuboid', min: { x: -10, y: -64, z: -5 }, max: { x: 10, y: 80, z: 5 } })
+    const poly = parseRegionGeometry({
+      type: 'poly2d',
+      'min-y': 0,
+      'max-y': 255,
+      points: [
+        { x: 0, z: 0 },
+        { x: 20, z: 5 },
+        { x: 3, z: 30 },
+      ],
+    })
+    expect(poly).toMatchObject({ type: 'poly2d', min: { x: 0, y: 0, z: 0 }, max: { x: 20, y: 255, z: 30 } })
+    expect(poly?.points).toHaveLength(3)
+  })
+
+  it('keeps priority and the canonical parent id', () => {
+    const geometry = parseRegionGeometry({
+      type: 'cuboid',
+      min: { x: 0, y: 0, z: 0 },
+      max: { x: 1, y: 1, z: 1 },
+      priority: 5,
+      parent: 'Cherrybrook',
+    })
+    expect(geometry).toMatchObject({ priority: 5, parent: 'cherrybrook' })
+  })
+
+  it('returns null for global and malformed regions', () => {
+    expect(parseRegionGeometry({ type: 'global' as never })).toBeNull()
+    expect(parseRegionGeometry({ type: 'cuboid', min: { x: 0, y: 0 } })).toBeNull()
+    expect(parseRegionGeometry({ type: 'poly2d', 'min-y': 0, 'max-y': 1, points: [{ x: 0, z: 0 }] })).toBeNull()
+  })
+})
+
 describe('importRegionsMeta', () => {
   it('derives recipeId when discover.recipeId is omitted', () => {
     const dir = mkdtempSync(join(tmpdir(), 'regions-meta-'))
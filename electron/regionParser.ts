@@ -4,6 +4,7 @@ const { createHash } = require('crypto')
 
 import type {
   RegionRecord,
+  RegionGeometry,
   ImportedSource,
   OnboardingConfig,
   RegionKind,
@@ -133,6 +134,76 @@ function parseRegionFile(filePath: string): RegionForgeExport {
   }
 }
 
+function finiteNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function readPoint(raw: unknown): { x: number; y: number; z: number } | null {
+  if (!raw || typeof raw !== 'object') return null
+  const p = raw as Record<string, unknown>
+  const x = finiteNumber(p.x)
+  const y = finiteNumber(p.y)
+  const z = finiteNumber(p.z)
+  return x === null || y === null || z === null ? null : { x, y, z }
+}
+
+function readHierarchy(regionData: RegionForgeExport['regions'][string]): Pick<RegionGeometry, 'priority' | 'parent'> {
+  const priority = finiteNumber(regionData.priority)
+  const parent = typeof regionData.parent === 'string' ? canonicalizeId(regionData.parent.trim()) : ''
+  return { ...(priority !== null && priority !== 0 ? { priority } : {}), ...(parent ? { parent } : {}) }
+}
+
+/**
+ * Footprint of one exported region: cuboid `min`/`max`, or poly2d `points` with `min-y`/`max-y`,
+ * plus its WorldGuard priority and parent. Null for global regions and malformed entries.
+ */
+export function parseRegionGeometry(regionData: RegionForgeExport['regions'][string]): RegionGeometry | null {
+  if (regionData.type === 'cuboid') {
+    const a = readPoint(regionData.min)
+    const b = readPoint(regionData.max)
+    if (!a || !b) return null
+    return {
+      type: 'cuboid',
+      min: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), z: Math.min(a.z, b.z) },
+      max: { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y), z: Math.max(a.z, b.z) },
+      ...readHierarchy(regionData),
+    }
+  }
+  if (regionData.type === 'poly2d') {
+    const points: Array<{ x: number; z: number }> = []
+    for (const raw of Array.isArray(regionData.points) ? regionData.points : []) {
+      const x = finiteNumber(raw?.x)
+      const z = finiteNumber(raw?.z)
+      if (x === null || z === null) return null
+      points.push({ x, z })
+    }
+    const minY = finiteNumber(regionData['min-y'])
+    const maxY = finiteNumber(regionData['max-y'])
+    if (points.length < 3 || minY === null || maxY === null) return null
+    const xs = points.map((p) => p.x)
+    const zs = points.map((p) => p.z)
+    return {
+      type: 'poly2d',
+      min: { x: Math.min(...xs), y: Math.min(minY, maxY), z: Math.min(...zs) },
+      max: { x: Math.max(...xs), y: Math.max(minY, maxY), z: Math.max(...zs) },
+      points,
+      ...readHierarchy(regionData),
+    }
+  }
+  return null
+}
+
+/** Geometry of every region in a Region Forge export, keyed by canonical id. */
+export function readRegionGeometry(filePath: string): Record<string, RegionGeometry> {
+  const regionData = parseRegionFile(filePath)
+  const out: Record<string, RegionGeometry> = {}
+  for (const [regionId, regionInfo] of Object.entries(regionData.regions)) {
+    const geometry = regionInfo ? parseRegionGeometry(regionInfo) : null
+    if (geometry) out[canonicalizeId(regionId)] = geometry
+  }
+  return out
+}
+
 /**
  * Classify a single region based on the classification rules
  * Exported for unit testing.
@@ -140,7 +211,7 @@ function parseRegionFile(filePath: string): RegionForgeExport {
 export function classifyRegion(
   regionId: string,
   regionData: RegionForgeExport['regions'][string],
-  world: 'overworld' | 'nether',
+  world: 'overworld' | 'nether' | 'end',
   onboarding: OnboardingConfig
 ): RegionRecord {
   const canonicalId = canonicalizeId(regionId)
@@ -166,7 +237,7 @@ export function classifyRegion(
       kind: 'heart',
       discover: {
         method: 'on_enter',
-        recipeId: world === 'overworld' ? 'heart' : 'nether_heart',
+        recipeId: deriveRecipeIdFromKindWorld('heart', world),
       },
     }
   }
@@ -193,7 +264,7 @@ export function classifyRegion(
       kind: 'region', // First-join regions are regular regions, not system
       discover: {
         method: 'first_join',
-        recipeId: world === 'overworld' ? 'region' : 'nether_region',
+        recipeId: deriveRecipeIdFromKindWorld('region', world),
       },
     }
   }
@@ -208,7 +279,7 @@ export function classifyRegion(
     kind: isVillage ? 'village' : 'region',
     discover: {
       method: 'on_enter',
-      recipeId: world === 'overworld' ? 'region' : 'nether_region',
+      recipeId: deriveRecipeIdFromKindWorld('region', world),
     },
   }
 }
@@ -218,7 +289,7 @@ export function classifyRegion(
  */
 export function importRegions(
   filePath: string,
-  world: 'overworld' | 'nether',
+  world: 'overworld' | 'nether' | 'end',
   existingRegions: RegionRecord[],
   onboarding: OnboardingConfig
 ): {
@@ -261,7 +332,8 @@ export function importRegions(
   const newRegions: RegionRecord[] = []
   for (const [regionId, regionInfo] of Object.entries(regionData.regions)) {
     const classified = classifyRegion(regionId, regionInfo, world, onboarding)
-    newRegions.push(classified)
+    const geometry = regionInfo ? parseRegionGeometry(regionInfo) : null
+    newRegions.push(geometry ? { ...classified, geometry } : classified)
   }
   
   // Combine: other worlds + new regions (last import wins for duplicates)
@@ -587,4 +659,4 @@ export function importRegionsMeta(
   return result
 }
 
-module.exports = { importRegions, importRegionsMeta, classifyRegion }
+module.exports = { importRegions, importRegionsMeta, classifyRegion, parseRegionGeometry, readRegionGeometry }
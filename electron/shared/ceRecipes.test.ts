@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import type { RegionRecord } from '../types'
+import {
+  DEFAULT_CE_RECIPES,
+  ceRecipeContext,
+  discoveryRecipeKey,
+  firstJoinRecipeContext,
+  renderCeRecipe,
+  resolveCeRecipes,
+  validateCeRecipe,
+  validateCeRecipes,
+} from './ceRecipes'
+
+function region(id: string, kind: RegionRecord['kind'], overrides: Partial<RegionRecord> = {}): RegionRecord {
+  return { world: 'overworld', id, kind, discover: { method: 'on_enter', recipeId: 'region' }, ...overrides }
+}
+
+describe('resolveCeRecipes', () => {
+  it('keeps defaults for missing keys and replaces stored ones whole', () => {
+    const recipes = resolveCeRecipes({ village: { actions: ['console_command: aach give {AACH_ID} %player%'] } })
+    expect(recipes.village).toEqual({ actions: ['console_command: aach give {AACH_ID} %player%'] })
+    expect(recipes.region).toEqual(DEFAULT_CE_RECIPES.region)
+    expect(recipes.region).not.toBe(DEFAULT_CE_RECIPES.region)
+  })
+})
+
+describe('discoveryRecipeKey', () => {
+  it('derives the recipe from kind and world', () => {
+    expect(discoveryRecipeKey({ kind: 'region', world: 'nether' })).toBe('nether_region')
+    expect(discoveryRecipeKey({ kind: 'heart', world: 'end' })).toBe('end_heart')
+    expect(discoveryRecipeKey({ kind: 'village', world: 'nether' })).toBe('village')
+    expect(discoveryRecipeKey({ kind: 'structure', world: 'overworld' })).toBe('structure')
+    expect(discoveryRecipeKey({ kind: 'system', world: 'overworld' })).toBe('region')
+    expect(discoveryRecipeKey({ kind: 'water', world: 'overworld' })).toBeNull()
+  })
+})
+
+describe('renderCeRecipe', () => {
+  it('fills placeholders, keeps build-time ones and applies the lore guard', () => {
+    const recipe = {
+      crate: 'MapCrate',
+      counter: 'maps_given',
+      actions: [
+        'console_command: aach give {AACH_ID} %player%',
+        'title: 10;60;10;{REGION_DISPLAY};diff {DIFF} on {SERVER_NAME}',
+        'console_command: cc give virtual {CRATE} 1 %player%',
+        '[if:lore] message: /lore {REGION_ID}',
+        'console_command: aach add 1 Custom.{COUNTER} %player%',
+      ],
+    }
+    const withLore = ceRecipeContext(region('oak_vale', 'region', { description: 'Old trees.' }), { oak_vale: 'hard' })
+    expect(renderCeRecipe(recipe, withLore)).toEqual([
+      'console_command: aach give discoverOakVale %player%',
+      'title: 10;60;10;Oak Vale;diff 3 on {SERVER_NAME}',
+      'console_command: cc give virtual MapCrate 1 %player%',
+      'message: /lore oak_vale',
+      'console_command: aach add 1 Custom.maps_given %player%',
+    ])
+    const hearts = renderCeRecipe(recipe, ceRecipeContext(region('heart_of_oak_vale', 'heart', { description: 'x' }), {}))
+    expect(hearts).toHaveLength(4)
+    expect(hearts[1]).toBe('title: 10;60;10;Oak Vale;diff 0 on {SERVER_NAME}')
+  })
+
+  it('lets a context counter override the recipe counter', () => {
+    const lines = renderCeRecipe(DEFAULT_CE_RECIPES.structure, {
+      ...ceRecipeContext(region('old_tower', 'structure'), {}),
+      counter: 'towers_found',
+    })
+    expect(lines).toContain('console_command: aach add 1 Custom.towers_found %player%')
+  })
+
+  it('renders first join for the start region with teleport coordinates', () => {
+    const regions = [region('cherrybrook', 'region', { description: 'Home.' })]
+    const context = firstJoinRecipeContext(
+      { startRegionId: 'cherrybrook', teleport: { world: 'world', x: 1, z: 2, yaw: 90, pitch: 0 } },
+      regions
+    )
+    const lines = renderCeRecipe(DEFAULT_CE_RECIPES.first_join, context)
+    expect(lines[0]).toBe('console_command: tp %player% 1 64 2 90 0')
+    expect(lines).toContain('message: &bCurious about Cherrybrook? &e/lore cherrybrook')
+  })
+})
+
+describe('validateCeRecipe', () => {
+  it('accepts every default recipe', () => {
+    expect(validateCeRecipes(DEFAULT_CE_RECIPES)).toEqual([])
+  })
+
+  it('reports grammar, argument and placeholder problems by line', () => {
+    const errors = validateCeRecipe('village', {
+      actions: [
+        'console_command: aach give {AACH_ID} %player%',
+        'wait: soon',
+        'title: 20;100;Hi',
+        'give_map: 1',
+        'playsound: ENTITY_PLAYER_LEVELUP;1;1',
+        'to_all: message: {REGION_DISPLAY} was found by %player%',
+        'console_command: cc give virtual {CRATE} 1 %player%',
+        'message: {TELEPORT} {NOPE}',
+        '[if:night] message: hi',
+        'no colon here',
+      ],
+    })
+    expect(errors).toEqual([
+      'line 2: wait must be a whole number',
+      'line 3: title needs fadeIn;stay;fadeOut;title;subtitle',
+      'line 4: unknown action "give_map"',
+      'line 7: uses {CRATE} but no crate is set',
+      'line 8: unknown placeholder {TELEPORT}',
+      'line 8: unknown placeholder {NOPE}',
+      'line 9: unknown condition (only "[if:lore]" is supported)',
+      'line 10: expected "action: value"',
+    ])
+  })
+
+  it('requires the discovery award and valid crate / counter names', () => {
+    expect(validateCeRecipe('region', { crate: 'Bad Crate', counter: 'Custom.x', actions: ['wait: 1'] })).toEqual([
+      'crate "Bad Crate" may only use letters, digits, "_" and "-"',
+      'counter "Custom.x" must be lowercase snake_case (without "Custom.")',
+      'no action awards the discovery (console_command: aach give {AACH_ID} %player%)',
+    ])
+  })
+})
@@ -0,0 +1,467 @@
+/**
+ * ConditionalEvents discovery recipes: the ordered action lists a discovery (or the first join)
+ * runs, written as templates with `{PLACEHOLDER}` tokens. Each server may store its own copy on
+ * `profile.ceRecipes`; anything missing falls back to the defaults below.
+ * Shared by the CE generator, the IPC handler and the CE Recipes screen (live preview).
+ */
+import type { CeActionRecipe, CeRecipeKey, CeRecipes, OnboardingConfig, RegionRecord } from '../types'
+import { formatRegionLabel, formatRegionTitle, generateCommandId } from './stringFormatters'
+
+export interface CeRecipeKeyInfo {
+  key: CeRecipeKey
+  label: string
+}
+
+export const CE_RECIPE_KEYS: CeRecipeKeyInfo[] = [
+  { key: 'first_join', label: 'First join (start region)' },
+  { key: 'region', label: 'Regions' },
+  { key: 'village', label: 'Villages' },
+  { key: 'heart', label: 'Hearts' },
+  { key: 'nerve', label: 'Nerves' },
+  { key: 'nether_region', label: 'Nether regions' },
+  { key: 'nether_heart', label: 'Nether hearts' },
+  { key: 'end_region', label: 'End regions' },
+  { key: 'end_heart', label: 'End hearts' },
+  { key: 'structure', label: 'Structures' },
+]
+
+export interface CeRecipePlaceholderInfo {
+  token: string
+  description: string
+  /** Only meaningful in these recipes; absent = every recipe. */
+  only?: CeRecipeKey[]
+}
+
+export const CE_RECIPE_PLACEHOLDERS: CeRecipePlaceholderInfo[] = [
+  { token: '{AACH_ID}', description: 'AA command id of the discovered region' },
+  { token: '{REGION_ID}', description: 'WorldGuard region id' },
+  { token: '{REGION_DISPLAY}', description: 'Display name (hearts and nerves use their parent region)' },
+  { token: '{CRATE}', description: 'Crate set on the recipe (or the region\'s reward crate)' },
+  { token: '{CRATE_KEYS}', description: 'Crate keys per discovery (1 unless the region overrides it)' },
+  { token: '{DIFF}', description: 'LevelledMobs band as 0–5 (0 = no band)' },
+  { token: '{COUNTER}', description: 'AA counter set on the recipe (structures: the family counter)' },
+  { token: '{TELEPORT}', description: 'Onboarding teleport coordinates', only: ['first_join'] },
+  { token: '{SERVER_NAME}', description: 'Config server name, filled in at build time' },
+  { token: '{START_REGION_AACH}', description: 'AA command id of the start region, filled in at build time' },
+]
+
+/** Prefix that keeps a line only when the region has lore (a description and a lore book). */
+export const CE_LORE_GUARD = '[if:lore] '
+
+const STATE_PREFIX = 'console_message: [EXPMETRIC] server={SERVER_NAME} type=state'
+
+function discoveryMetric(entity: string, diff: string): string {
+  return `console_message: [EXPMETRIC] server={SERVER_NAME} type=discovery entity=${entity} player=%player% uuid=%player_uuid% region={REGION_DISPLAY} diff=${diff}`
+}
+
+function stateMetric(entity: string, tail: string): string {
+  return `${STATE_PREFIX} entity=${entity} player=%player% uuid=%player_uuid% ${tail}`
+}
+
+const AWARD = 'console_command: aach give {AACH_ID} %player%'
+const CRATE = 'console_command: cc give virtual {CRATE} {CRATE_KEYS} %player%'
+const ADD_COUNTER = 'console_command: aach add 1 Custom.{COUNTER} %player%'
+const ADD_TOTAL = 'console_command: aach add 1 Custom.total_discovered %player%'
+const LORE_BOOK = `${CE_LORE_GUARD}console_command: lp user %player% permission set bookgui.book.{REGION_ID} true`
+
+function regionRecipe(counter: string): CeActionRecipe {
+  return {
+    crate: 'RegionCrate',
+    counter,
+    actions: [
+      'wait: 3',
+      AWARD,
+      discoveryMetric('region', '{DIFF}'),
+      CRATE,
+      LORE_BOOK,
+      'wait: 6',
+      ADD_COUNTER,
+      'wait: 6',
+      ADD_TOTAL,
+      stateMetric('region', 'total=%aach_custom_total_discovered% regions=%aach_custom_regions_discovered%'),
+    ],
+  }
+}
+
+function heartRecipe(counter: string): CeActionRecipe {
+  return {
+    crate: 'HeartCrate',
+    counter,
+    actions: [
+      AWARD,
+      discoveryMetric('heart', '0'),
+      CRATE,
+      'wait: 6',
+      ADD_COUNTER,
+      'wait: 6',
+      ADD_TOTAL,
+      stateMetric('heart', 'total=%aach_custom_total_discovered% hearts=%aach_custom_hearts_discovered%'),
+    ],
+  }
+}
+
+export const DEFAULT_CE_RECIPES: CeRecipes = {
+  first_join: {
+    crate: 'RegionCrate',
+    counter: 'regions_discovered',
+    actions: [
+      'console_command: tp %player% {TELEPORT}',
+      'wait: 1',
+      'title: 20;100;20;Welcome to {SERVER_NAME};Where the journey matters',
+      'wait: 10',
+      AWARD,
+      discoveryMetric('region', '{DIFF}'),
+      ADD_COUNTER,
+      LORE_BOOK,
+      'wait: 10',
+      ADD_TOTAL,
+      'title: 20;100;20;Your first reward!;Open crates with /cc',
+      CRATE,
+      'wait: 30',
+      'message: &bFor help on how to play use &e/guides',
+      `${CE_LORE_GUARD}wait: 30`,
+      `${CE_LORE_GUARD}message: &bCurious about {REGION_DISPLAY}? &e/lore {REGION_ID}`,
+      stateMetric('region', 'total=%aach_custom_total_discovered% regions=%aach_custom_regions_discovered%'),
+    ],
+  },
+  region: regionRecipe('regions_discovered'),
+  nether_region: regionRecipe('nether_regions_discovered'),
+  end_region: regionRecipe('end_regions_discovered'),
+  village: {
+    crate: 'VillageCrate',
+    counter: 'villages_discovered',
+    actions: [
+      'wait: 3',
+      AWARD,
+      discoveryMetric('village', '0'),
+      CRATE,
+      'wait: 6',
+      ADD_COUNTER,
+      'wait: 6',
+      ADD_TOTAL,
+      stateMetric('village', 'total=%aach_custom_total_discovered% villages=%aach_custom_villages_discovered%'),
+    ],
+  },
+  heart: heartRecipe('hearts_discovered'),
+  nether_heart: heartRecipe('nether_hearts_discovered'),
+  end_heart: heartRecipe('end_hearts_discovered'),
+  nerve: {
+    crate: 'NerveCrate',
+    counter: 'nerves_discovered',
+    actions: [
+      AWARD,
+      discoveryMetric('nerve', '0'),
+      CRATE,
+      'wait: 6',
+      ADD_COUNTER,
+      'wait: 6',
+      ADD_TOTAL,
+      stateMetric('nerve', 'total=%aach_custom_total_discovered% nerves=%aach_custom_nerves_discovered%'),
+    ],
+  },
+  structure: {
+    actions: [
+      'wait: 3',
+      AWARD,
+      discoveryMetric('structure', '0'),
+      'wait: 6',
+      ADD_COUNTER,
+      'wait: 6',
+      'console_command: aach add 1 Custom.structures_found %player%',
+      stateMetric(
+        'structure',
+        '{COUNTER}=%aach_custom_{COUNTER}% structures_found=%aach_custom_structures_found%'
+      ),
+    ],
+  },
+}
+
+function cloneRecipe(recipe: CeActionRecipe): CeActionRecipe {
+  const out: CeActionRecipe = { actions: [...recipe.actions] }
+  if (recipe.crate !== undefined) out.crate = recipe.crate
+  if (recipe.counter !== undefined) out.counter = recipe.counter
+  return out
+}
+
+/** Stored recipes replace defaults per key; keys that are missing or malformed keep the default. */
+export function resolveCeRecipes(stored?: Partial<CeRecipes> | null): CeRecipes {
+  const resolved = {} as CeRecipes
+  for (const { key } of CE_RECIPE_KEYS) {
+    const recipe = stored?.[key]
+    resolved[key] = cloneRecipe(recipe && Array.isArray(recipe.actions) ? recipe : DEFAULT_CE_RECIPES[key])
+  }
+  return resolved
+}
+
+/** Which recipe a region's discovery uses (from `kind` + `world`); null when it never emits one. */
+export function discoveryRecipeKey(region: Pick<RegionRecord, 'kind' | 'world'>): CeRecipeKey | null {
+  switch (region.kind) {
+    case 'water':
+      return null
+    case 'structure':
+      return 'structure'
+    case 'village':
+      return 'village'
+    case 'nerve':
+      return 'nerve'
+    case 'heart':
+      if (region.world === 'nether') return 'nether_heart'
+      if (region.world === 'end') return 'end_heart'
+      return 'heart'
+    default:
+      if (region.world === 'nether') return 'nether_region'
+      if (region.world === 'end') return 'end_region'
+      return 'region'
+  }
+}
+
+const DIFFICULTY_TO_DIFF: Record<string, number> = {
+  easy: 1,
+  normal: 2,
+  hard: 3,
+  severe: 4,
+  deadly: 5,
+}
+
+export function difficultyToDiff(difficulty: string | undefined): number {
+  if (!difficulty) return 0
+  return DIFFICULTY_TO_DIFF[difficulty.toLowerCase()] ?? 0
+}
+
+/** Values a recipe is rendered with for one region. */
+export interface CeRecipeContext {
+  aachId: string
+  regionId: string
+  regionDisplay: string
+  diff: number
+  hasLore: boolean
+  /** `x y z [yaw pitch]` for first join. */
+  teleport?: string
+  /** Overrides the recipe's counter (structure families). */
+  counter?: string
+  /** Region reward overrides: crate stem, key count and console commands appended after the recipe. */
+  crate?: string
+  crateKeys?: number
+  extraActions?: string[]
+}
+
+function parentRegionDisplay(regionId: string, prefix: string): string {
+  return formatRegionTitle(regionId.startsWith(prefix) ? regionId.slice(prefix.length) : regionId)
+}
+
+/**
+ * @param crateStems CrazyCrates library id → output stem, for regions with a reward crate override
+ */
+export function ceRecipeContext(
+  region: RegionRecord,
+  regionBands?: Record<string, string>,
+  crateStems: Record<string, string> = {}
+): CeRecipeContext {
+  let regionDisplay: string
+  if (region.kind === 'heart') regionDisplay = parentRegionDisplay(region.id, 'heart_of_')
+  else if (region.kind === 'nerve') regionDisplay = parentRegionDisplay(region.id, 'nerve_of_')
+  else regionDisplay = formatRegionLabel(region)
+  const context: CeRecipeContext = {
+    aachId: region.discover.commandIdOverride || generateCommandId(region.id),
+    regionId: region.id,
+    regionDisplay,
+    diff: difficultyToDiff(regionBands?.[region.id]),
+    hasLore:
+      Boolean(region.description?.trim()) &&
+      region.kind !== 'village' &&
+      region.kind !== 'heart' &&
+      region.kind !== 'nerve',
+  }
+  const rewards = region.rewards
+  if (rewards?.crateLibraryId && crateStems[rewards.crateLibraryId]) context.crate = crateStems[rewards.crateLibraryId]
+  if (rewards?.crateKeyCount !== undefined) context.crateKeys = rewards.crateKeyCount
+  if (rewards?.extraCommands?.length) context.extraActions = rewards.extraCommands.map((c) => `console_command: ${c}`)
+  return context
+}
+
+function tpCoordinates(tp: OnboardingConfig['teleport']): string {
+  const y = tp.y ?? 64
+  const base = `${tp.x} ${y} ${tp.z}`
+  if (typeof tp.yaw === 'number' && typeof tp.pitch === 'number') {
+    return `${base} ${tp.yaw} ${tp.pitch}`
+  }
+  return base
+}
+
+/** First join discovers the start region (overworld first); it is named by its label even for hearts. */
+export function firstJoinRecipeContext(
+  onboarding: OnboardingConfig,
+  regions: RegionRecord[],
+  regionBands?: Record<string, string>,
+  crateStems: Record<string, string> = {}
+): CeRecipeContext {
+  const startId = onboarding.startRegionId
+  const startRegion =
+    regions.find((r) => r.id === startId && r.world === 'overworld') || regions.find((r) => r.id === startId)
+  const context: CeRecipeContext = startRegion
+    ? { ...ceRecipeContext(startRegion, regionBands, crateStems), regionDisplay: formatRegionLabel(startRegion) }
+    : {
+        aachId: generateCommandId(startId),
+        regionId: startId,
+        regionDisplay: startId,
+        diff: difficultyToDiff(regionBands?.[startId]),
+        hasLore: false,
+      }
+  return { ...context, teleport: tpCoordinates(onboarding.teleport) }
+}
+
+const PLACEHOLDER_PATTERN = /\{([A-Z_]+)\}/g
+
+/**
+ * Expand a recipe into CE action lines, then the region's extra commands; build-time placeholders
+ * (`{SERVER_NAME}`…) are left as-is.
+ */
+export function renderCeRecipe(recipe: CeActionRecipe, context: CeRecipeContext): string[] {
+  const values: Record<string, string | undefined> = {
+    AACH_ID: context.aachId,
+    REGION_ID: context.regionId,
+    REGION_DISPLAY: context.regionDisplay,
+    CRATE: context.crate ?? recipe.crate,
+    CRATE_KEYS: String(context.crateKeys ?? 1),
+    DIFF: String(context.diff),
+    COUNTER: context.counter ?? recipe.counter,
+    TELEPORT: context.teleport,
+  }
+  const lines: string[] = []
+  for (const action of [...recipe.actions, ...(context.extraActions ?? [])]) {
+    let line = action
+    if (line.startsWith(CE_LORE_GUARD)) {
+      if (!context.hasLore) continue
+      line = line.slice(CE_LORE_GUARD.length)
+    }
+    lines.push(line.replace(PLACEHOLDER_PATTERN, (token, name: string) => values[name] ?? token))
+  }
+  return lines
+}
+
+/** ConditionalEvents action types accepted in recipes. */
+export const CE_ACTION_TYPES = [
+  'message',
+  'centered_message',
+  'json_message',
+  'console_message',
+  'console_command',
+  'player_command',
+  'player_command_as_op',
+  'player_command_as_console',
+  'player_send_chat',
+  'title',
+  'actionbar',
+  'bossbar',
+  'playsound',
+  'playsound_resource_pack',
+  'stopsound',
+  'wait',
+  'wait_ticks',
+  'give_potion_effect',
+  'remove_potion_effect',
+  'teleport',
+  'give_item',
+  'remove_item',
+  'drop_item',
+  'firework',
+  'particle',
+  'gamemode',
+  'heal',
+  'set_on_fire',
+  'freeze',
+  'close_inventory',
+  'clear_inventory',
+  'call_event',
+  'execute_action_group',
+  'discord_message',
+  'kick',
+] as const
+
+const CE_ACTION_TYPE_SET = new Set<string>(CE_ACTION_TYPES)
+const NO_ARGUMENT_ACTIONS = new Set(['close_inventory', 'clear_inventory'])
+const TARGET_PREFIX = /^(?:to_all|to_target|to_world: [^:;\s]+|to_range: \d+(?:;(?:true|false))?): /
+const ACTION_LINE = /^([a-z_]+)(?::(?: (.*))?)?$/
+const INTEGER = /^\d+$/
+const NUMBER = /^\d+(?:\.\d+)?$/
+const CRATE_NAME = /^[A-Za-z0-9_-]+$/
+const COUNTER_NAME = /^[a-z0-9_]+$/
+
+function validateArguments(type: string, args: string): string | null {
+  if (!args.trim()) return NO_ARGUMENT_ACTIONS.has(type) ? null : `${type} needs a value`
+  if (type === 'wait' || type === 'wait_ticks') {
+    return INTEGER.test(args.trim()) ? null : `${type} must be a whole number`
+  }
+  if (type === 'title') {
+    const parts = args.split(';')
+    if (parts.length !== 5) return 'title needs fadeIn;stay;fadeOut;title;subtitle'
+    if (!parts.slice(0, 3).every((p) => INTEGER.test(p.trim()))) return 'title fade and stay times must be whole numbers'
+    return null
+  }
+  if (type === 'playsound') {
+    const parts = args.split(';')
+    if (parts.length < 3) return 'playsound needs sound;volume;pitch'
+    if (!NUMBER.test(parts[1]!.trim()) || !NUMBER.test(parts[2]!.trim())) return 'playsound volume and pitch must be numbers'
+    return null
+  }
+  return null
+}
+
+/** Every problem in one recipe, as `line N: …` messages (empty = valid). */
+export function validateCeRecipe(key: CeRecipeKey, recipe: CeActionRecipe): string[] {
+  const errors: string[] = []
+  if (!Array.isArray(recipe.actions) || recipe.actions.length === 0) {
+    return ['add at least one action']
+  }
+  if (recipe.crate !== undefined && !CRATE_NAME.test(recipe.crate)) {
+    errors.push(`crate "${recipe.crate}" may only use letters, digits, "_" and "-"`)
+  }
+  if (recipe.counter !== undefined && !COUNTER_NAME.test(recipe.counter)) {
+    errors.push(`counter "${recipe.counter}" must be lowercase snake_case (without "Custom.")`)
+  }
+  const known = new Set(
+    CE_RECIPE_PLACEHOLDERS.filter((p) => !p.only || p.only.includes(key)).map((p) => p.token.slice(1, -1))
+  )
+
+  recipe.actions.forEach((action, index) => {
+    const where = `line ${index + 1}`
+    let line = action
+    if (line.startsWith(CE_LORE_GUARD)) line = line.slice(CE_LORE_GUARD.length)
+    else if (line.startsWith('[if:')) {
+      errors.push(`${where}: unknown condition (only "${CE_LORE_GUARD.trim()}" is supported)`)
+      return
+    }
+    line = line.replace(TARGET_PREFIX, '')
+    const match = ACTION_LINE.exec(line)
+    if (!match) {
+      errors.push(`${where}: expected "action: value"`)
+      return
+    }
+    const [, type, args = ''] = match
+    if (!CE_ACTION_TYPE_SET.has(type!)) {
+      errors.push(`${where}: unknown action "${type}"`)
+      return
+    }
+    const argError = validateArguments(type!, args)
+    if (argError) errors.push(`${where}: ${argError}`)
+
+    for (const [, name] of action.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!known.has(name!)) errors.push(`${where}: unknown placeholder {${name}}`)
+      else if (name === 'CRATE' && !recipe.crate) errors.push(`${where}: uses {CRATE} but no crate is set`)
+      else if (name === 'COUNTER' && !recipe.counter && key !== 'structure') {
+        errors.push(`${where}: uses {COUNTER} but no counter is set`)
+      }
+    }
+  })
+
+  if (!recipe.actions.some((a) => a.includes('aach give {AACH_ID}'))) {
+    errors.push('no action awards the discovery (console_command: aach give {AACH_ID} %player%)')
+  }
+  return errors
+}
+
+export function validateCeRecipes(recipes: CeRecipes): string[] {
+  return CE_RECIPE_KEYS.flatMap(({ key, label }) =>
+    validateCeRecipe(key, recipes[key] ?? { actions: [] }).map((e) => `${label}: ${e}`)
+  )
+}
@@ -0,0 +1,227 @@
+/**
+ * Static description of every generator Plugin Manager can emit: its build toggle, optional
+ * source path input, bundled template, propagated output path, what it owns and how its files
+ * are stamped. The main-process generator registry adds the behaviour; the Build screen and the
+ * CLI read this list directly. Order is build order.
+ */
+import type { GeneratorVersionKey } from '../types'
+
+/**
+ * How emitted text files get the `# mc-plugin-manager:` header: `stamp` prepends it, `restamp`
+ * strips any header a user-provided source already carries first, `none` copies files as-is.
+ */
+export type GeneratorHeaderMode = 'stamp' | 'restamp' | 'none'
+
+export interface GeneratorDescriptor {
+  id: GeneratorVersionKey
+  label: string
+  /** build-configs toggle. */
+  generateKey: `generate${string}`
+  /** build-configs input holding a template override or required source file. */
+  pathKey?: `${string}Path`
+  /** Label and dialog title for the path input on the Build screen. */
+  overrideLabel?: string
+  dialogTitle?: string
+  /** Bundled template under `assets/templates` that the generator merges into. */
+  template?: string
+  /** Main output relative to the plugins root when propagating to plugin folders. */
+  outputRelative?: string
+  /** What Plugin Manager owns in the output; everything else belongs to the server owner. */
+  ownership: string
+  header: GeneratorHeaderMode
+}
+
+export const GENERATOR_CATALOG = [
+  {
+    id: 'aa',
+    label: 'AdvancedAchievements',
+    generateKey: 'generateAA',
+    pathKey: 'aaPath',
+    overrideLabel: 'AdvancedAchievements config.yml (optional override)',
+    dialogTitle: 'Select AdvancedAchievements config.yml',
+    template: 'advancedachievements-config.yml',
+    outputRelative: 'AdvancedAchievements/config.yml',
+    ownership: 'Commands and the discovery / structure Custom achievements',
+    header: 'stamp',
+  },
+  {
+    id: 'ce',
+    label: 'ConditionalEvents',
+    generateKey: 'generateCE',
+    pathKey: 'cePath',
+    overrideLabel: 'ConditionalEvents config.yml (optional override)',
+    dialogTitle: 'Select ConditionalEvents config.yml',
+    template: 'conditionalevents-config.yml',
+    outputRelative: 'ConditionalEvents/config.yml',
+    ownership: 'Discovery, first-join and join/leave log events, plus the events/ fragments',
+    header: 'stamp',
+  },
+  {
+    id: 'discordsrv',
+    label: 'DiscordSRV',
+    generateKey: 'generateDiscordSRV',
+    ownership: 'config.yml and messages.yml (bundled, with bot token and channel IDs filled in)',
+    header: 'stamp',
+  },
+  {
+    id: 'tab',
+    label: 'TAB',
+    generateKey: 'generateTAB',
+    pathKey: 'tabPath',
+    overrideLabel: 'TAB config.yml (optional override)',
+    dialogTitle: 'Select TAB config.yml',
+    template: 'tab-config.yml',
+    outputRelative: 'TAB/config.yml',
+    ownership: 'Header/footer, scoreboards and the region / explorer conditions',
+    header: 'stamp',
+  },
+  {
+    id: 'lm',
+    label: 'LevelledMobs',
+    generateKey: 'generateLM',
+    pathKey: 'lmPath',
+    overrideLabel: 'LevelledMobs rules.yml (optional override)',
+    dialogTitle: 'Select LevelledMobs rules.yml',
+    template: 'levelledmobs-rules.yml',
+    outputRelative: 'LevelledMobs/rules.yml',
+    ownership: 'Village and region-band custom rules',
+    header: 'stamp',
+  },
+  {
+    id: 'lmcd',
+    label: 'LevelledMobs CustomDrops',
+    generateKey: 'generateLMCustomDrops',
+    pathKey: 'lmCustomDropsPath',
+    overrideLabel: 'LevelledMobs customdrops.yml (optional override)',
+    dialogTitle: 'Select LevelledMobs customdrops.yml',
+    template: 'levelledmobs-customdrops.yml',
+    outputRelative: 'LevelledMobs/customdrops.yml',
+    ownership: 'Drop tables named in the drop table library',
+    header: 'stamp',
+  },
+  {
+    id: 'mc',
+    label: 'MyCommand',
+    generateKey: 'generateMC',
+    pathKey: 'mcPath',
+    overrideLabel: 'MyCommand commands.yml (optional override)',
+    dialogTitle: 'Select MyCommand commands.yml',
+    template: 'mycommand-commands.yml',
+    outputRelative: 'MyCommand/commands/commands.yml',
+    ownership: 'Whole file (regenerated from the template)',
+    header: 'stamp',
+  },
+  {
+    id: 'cw',
+    label: 'CommandWhitelist',
+    generateKey: 'generateCW',
+    pathKey: 'cwPath',
+    overrideLabel: 'CommandWhitelist config.yml (optional override)',
+    dialogTitle: 'Select CommandWhitelist config.yml',
+    template: 'commandwhitelist-config.yml',
+    outputRelative: 'CommandWhitelist/config.yml',
+    ownership: 'Whole file (regenerated from the template)',
+    header: 'stamp',
+  },
+  {
+    id: 'essentials',
+    label: 'EssentialsX',
+    generateKey: 'generateEssentials',
+    ownership: 'config.yml and rules.txt (bundled copies)',
+    header: 'stamp',
+  },
+  {
+    id: 'bookgui',
+    label: 'BookGUI',
+    generateKey: 'generateBookGUI',
+    ownership: 'Guide books under books/ (lore guide only when regions have lore)',
+    header: 'stamp',
+  },
+  {
+    id: 'griefprevention',
+    label: 'GriefPreventionData',
+    generateKey: 'generateGriefPrevention',
+    ownership: 'config.yml (bundled copy)',
+    header: 'stamp',
+  },
+  {
+    id: 'crazycrates',
+    label: 'CrazyCrates',
+    generateKey: 'generateCrazyCrates',
+    ownership: 'config.yml and one crates/ file per crate assigned to the server',
+    header: 'stamp',
+  },
+  {
+    id: 'luckperms',
+    label: 'LuckPerms',
+    generateKey: 'generateLuckPerms',
+    ownership: 'Bundled permissions export (.json.gz)',
+    header: 'none',
+  },
+  {
+    id: 'placeholderapi',
+    label: 'PlaceholderAPI',
+    generateKey: 'generatePlaceholderAPI',
+    ownership: 'Bundled config and expansions (YAML stamped, jars copied)',
+    header: 'stamp',
+  },
+  {
+    id: 'worldguardregions',
+    label: 'WorldGuard regions.yml (overworld)',
+    generateKey: 'generateWorldGuardRegions',
+    pathKey: 'worldGuardRegionsPath',
+    overrideLabel: 'Overworld regions.yml (Region Forge export)',
+    dialogTitle: 'Select overworld WorldGuard regions.yml',
+    ownership: 'Whole file (copied from the Region Forge export)',
+    header: 'restamp',
+  },
+  {
+    id: 'worldguardregionsnether',
+    label: 'WorldGuard regions.yml (nether)',
+    generateKey: 'generateWorldGuardRegionsNether',
+    pathKey: 'worldGuardRegionsNetherPath',
+    overrideLabel: 'Nether regions.yml (Region Forge export)',
+    dialogTitle: 'Select nether WorldGuard regions.yml',
+    ownership: 'Whole file (copied from the Region Forge nether export)',
+    header: 'restamp',
+  },
+  {
+    id: 'worldguardregionsend',
+    label: 'WorldGuard regions.yml (End)',
+    generateKey: 'generateWorldGuardRegionsEnd',
+    pathKey: 'worldGuardRegionsEndPath',
+    overrideLabel: 'End regions.yml (Region Forge export)',
+    dialogTitle: 'Select End WorldGuard regions.yml',
+    ownership: 'Whole file (copied from the Region Forge End export)',
+    header: 'restamp',
+  },
+  {
+    id: 'webmap',
+    label: 'Web map markers',
+    generateKey: 'generateWebMap',
+    ownership: 'BlueMap and squaremap marker files per world, and Dynmap markers.yml',
+    header: 'stamp',
+  },
+] as const satisfies readonly GeneratorDescriptor[]
+
+type CatalogEntry = (typeof GENERATOR_CATALOG)[number]
+
+/** build-configs toggles, one per generator. */
+export type GeneratorToggleKey = CatalogEntry['generateKey']
+
+/** build-configs template / source path inputs. */
+export type GeneratorPathKey = Extract<CatalogEntry, { pathKey: string }>['pathKey']
+
+export type GeneratorEntry = GeneratorDescriptor & {
+  generateKey: GeneratorToggleKey
+  pathKey?: GeneratorPathKey
+}
+
+/** The catalog widened for iteration (optional fields readable on every entry). */
+export const GENERATORS: readonly GeneratorEntry[] = GENERATOR_CATALOG
+
+export function getGeneratorDescriptor(id: GeneratorVersionKey): GeneratorEntry {
+  const descriptor = GENERATORS.find((g) => g.id === id)
+  if (!descriptor) throw new Error(`Unknown generator: ${id}`)
+  return descriptor
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import type { RegionGeometry, RegionRecord, ServerProfile } from '../types'
+import { applyBandPlan, distanceBand, suggestRegionBands, validateBandPlan } from './lmBandPlanner'
+
+/** 100×100 cuboid whose centre sits `x` blocks east of the origin. */
+const plot = (x: number, z = 0): RegionGeometry => ({
+  type: 'cuboid',
+  min: { x: x - 50, y: -64, z: z - 50 },
+  max: { x: x + 49, y: 319, z: z + 49 },
+})
+
+function region(id: string, geometry?: RegionGeometry, extra: Partial<RegionRecord> = {}): RegionRecord {
+  return {
+    world: 'overworld',
+    id,
+    kind: 'region',
+    discover: { method: 'on_enter', recipeId: 'region' },
+    ...(geometry ? { geometry } : {}),
+    ...extra,
+  }
+}
+
+function profileOf(regions: RegionRecord[], regionBands: Record<string, string> = {}): ServerProfile {
+  return {
+    id: 's1',
+    regions,
+    spawnCenter: { world: 'world', x: 0, z: 0 },
+    sources: {},
+    regionsMeta: { levelledMobs: { regionBands } },
+  } as unknown as ServerProfile
+}
+
+const plan = { ringDistances: [500, 1000, 2000, 4000], lockedKeys: [] }
+
+function bandsOf(profile: ServerProfile, p = plan): Record<string, string> {
+  return Object.fromEntries(suggestRegionBands(profile, p).map((s) => [s.id, s.suggested]))
+}
+
+describe('distanceBand', () => {
+  it('picks the first ring the distance falls inside', () => {
+    expect(distanceBand(0, plan.ringDistances)).toBe(0)
+    expect(distanceBand(500, plan.ringDistances)).toBe(1)
+    expect(distanceBand(9000, plan.ringDistances)).toBe(4)
+  })
+})
+
+describe('validateBandPlan', () => {
+  it('wants four increasing positive rings', () => {
+    expect(validateBandPlan(plan)).toEqual([])
+    expect(validateBandPlan({ ...plan, ringDistances: [500, 400, 2000, 4000] })[0]).toMatch(/increase/)
+    expect(validateBandPlan({ ...plan, ringDistances: [500] })[0]).toMatch(/4 values/)
+  })
+})
+
+describe('suggestRegionBands', () => {
+  it('bands by distance, adding world and kind offsets', () => {
+    const profile = profileOf([
+      region('near', plot(200)),
+      region('mid', plot(1500)),
+      region('heart_of_mid', plot(1500, 1000), { kind: 'heart' }),
+      region('ash', plot(100), { world: 'nether' }),
+      region('town', plot(0), { kind: 'village' }),
+      region('unmapped'),
+    ])
+    const rows = suggestRegionBands(profile, plan)
+    expect(rows.map((r) => r.id)).toEqual(['near', 'mid', 'heart_of_mid', 'unmapped', 'ash'])
+    expect(bandsOf(profile)).toEqual({
+      near: 'easy',
+      mid: 'hard',
+      heart_of_mid: 'severe',
+      unmapped: 'normal',
+      ash: 'normal',
+    })
+    expect(rows.find((r) => r.id === 'unmapped')?.reasons).toEqual(['no geometry; keeps normal'])
+  })
+
+  it('caps regions one band above easier neighbours and lets locks pull them up', () => {
+    const regions = [region('inner', plot(0)), region('outer', plot(100)), region('edge', plot(200))]
+    const near = { ...plan, ringDistances: [50, 60, 70, 80] }
+    expect(bandsOf(profileOf(regions), near)).toEqual({ inner: 'easy', outer: 'normal', edge: 'hard' })
+
+    const locked = profileOf(regions, { edge: 'deadly' })
+    const rows = suggestRegionBands(locked, { ...near, lockedKeys: ['overworld:edge'] })
+    expect(Object.fromEntries(rows.map((r) => [r.id, r.suggested]))).toEqual({
+      inner: 'hard',
+      outer: 'severe',
+      edge: 'deadly',
+    })
+    expect(rows.find((r) => r.id === 'inner')?.reasons.at(-1)).toMatch(/raised to hard/)
+    expect(suggestRegionBands(profileOf(regions), near).find((r) => r.id === 'edge')?.reasons.at(-1)).toMatch(
+      /lowered to hard/
+    )
+  })
+})
+
+describe('applyBandPlan', () => {
+  it('writes changed bands as overrides and saves the plan', () => {
+    const profile = profileOf([region('a', plot(0)), region('b', plot(900)), region('c', plot(1900))], { a: 'easy' })
+    const outcome = applyBandPlan(
+      profile,
+      { ...plan, lockedKeys: ['overworld:a', 'overworld:gone'] },
+      { 'overworld:a': 'easy', 'overworld:b': 'normal', 'overworld:c': 'normal' },
+      '2026-01-01T00:00:00.000Z'
+    )
+    if (!outcome.ok) throw new Error(outcome.error)
+    expect(outcome.profile.regionsMeta?.levelledMobs?.regionBands).toEqual({ a: 'easy', b: 'normal', c: 'normal' })
+    expect(Object.keys(outcome.profile.regionOverrides ?? {})).toEqual(['overworld:b', 'overworld:c'])
+    expect(outcome.profile.regionEditLog).toHaveLength(1)
+    expect(outcome.profile.bandPlan).toEqual({ ...plan, lockedKeys: ['overworld:a'] })
+  })
+
+  it('rejects unknown bands and regions', () => {
+    const profile = profileOf([region('a', plot(0))])
+    expect(applyBandPlan(profile, plan, { 'overworld:a': 'brutal' })).toMatchObject({ ok: false })
+    expect(applyBandPlan(profile, plan, { 'overworld:zz': 'easy' })).toMatchObject({ ok: false })
+  })
+})
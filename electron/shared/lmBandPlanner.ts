@@ -0,0 +1,205 @@
+/**
+ * LevelledMobs band planner: proposes a band per region from its distance to spawn, its world and
+ * kind, then evens out neighbours so no two bordering regions are more than one band apart (the
+ * harder one comes down). Locked regions keep their current band and pull their neighbours up.
+ * Accepted bands are written as regular region edits, so they survive re-imports like any other
+ * manual band.
+ */
+import type { LevelledMobsBandPlan, RegionKind, RegionRecord, ServerProfile } from '../types'
+import { LEVELLED_MOBS_BANDS, applyRegionEdits, regionKey } from './regionOverrides'
+import type { RegionOverrideOutcome } from './regionOverrides'
+import { computeRegionLayout } from './regionGeometry'
+import type { RegionLayout } from './regionGeometry'
+
+export type LevelledMobsBand = (typeof LEVELLED_MOBS_BANDS)[number]
+
+export const DEFAULT_BAND_PLAN: LevelledMobsBandPlan = { ringDistances: [750, 1500, 3000, 5000], lockedKeys: [] }
+
+/** Same kinds lmGenerator writes per-region band rules for (villages share one strategy band). */
+export const BAND_PLAN_KINDS: RegionKind[] = ['region', 'heart', 'nerve', 'water']
+
+/** Bands added on top of the distance band. */
+export const BAND_WORLD_OFFSET: Record<RegionRecord['world'], number> = { overworld: 0, nether: 1, end: 2 }
+export const BAND_KIND_OFFSET: Partial<Record<RegionKind, number>> = { heart: 1, nerve: 1 }
+
+/** Band a region gets when nothing else says otherwise (lmGenerator's default too). */
+const FALLBACK_BAND: LevelledMobsBand = 'normal'
+
+export interface BandSuggestion {
+  key: string
+  id: string
+  world: RegionRecord['world']
+  kind: RegionKind
+  /** Band in the profile now; absent = unset (LevelledMobs output uses normal). */
+  current?: LevelledMobsBand
+  suggested: LevelledMobsBand
+  locked: boolean
+  distanceFromSpawn?: number
+  /** Short notes on how `suggested` came about, in order. */
+  reasons: string[]
+}
+
+function isBand(value: string | undefined): value is LevelledMobsBand {
+  return !!value && (LEVELLED_MOBS_BANDS as readonly string[]).includes(value)
+}
+
+function clampBand(index: number): number {
+  return Math.max(0, Math.min(LEVELLED_MOBS_BANDS.length - 1, index))
+}
+
+/** Plan with defaults filled in; locks are deduplicated. */
+export function resolveBandPlan(plan: Partial<LevelledMobsBandPlan> | undefined): LevelledMobsBandPlan {
+  return {
+    ringDistances: plan?.ringDistances?.length ? [...plan.ringDistances] : [...DEFAULT_BAND_PLAN.ringDistances],
+    lockedKeys: [...new Set(plan?.lockedKeys ?? [])],
+  }
+}
+
+export function validateBandPlan(plan: LevelledMobsBandPlan): string[] {
+  const errors: string[] = []
+  const rings = plan.ringDistances
+  if (rings.length !== LEVELLED_MOBS_BANDS.length - 1) {
+    errors.push(`Ring distances need ${LEVELLED_MOBS_BANDS.length - 1} values (where easy … severe end)`)
+  } else if (rings.some((d) => !Number.isFinite(d) || d <= 0)) {
+    errors.push('Ring distances must be positive numbers')
+  } else if (rings.some((d, i) => i > 0 && d <= rings[i - 1])) {
+    errors.push('Ring distances must increase from easy to severe')
+  }
+  return errors
+}
+
+/** Band index for a distance: the first ring it falls inside, deadly beyond the last. */
+export function distanceBand(distance: number, ringDistances: number[]): number {
+  const ring = ringDistances.findIndex((d) => distance < d)
+  return ring === -1 ? LEVELLED_MOBS_BANDS.length - 1 : ring
+}
+
+/**
+ * One suggestion per region of a planned kind, sorted by world then distance. Regions without
+ * geometry keep their current band (there is nothing to measure).
+ */
+export function suggestRegionBands(
+  profile: ServerProfile,
+  plan: LevelledMobsBandPlan,
+  layout: RegionLayout = computeRegionLayout(profile)
+): BandSuggestion[] {
+  const regionBands = profile.regionsMeta?.levelledMobs?.regionBands ?? {}
+  const locked = new Set(plan.lockedKeys)
+  const rows: BandSuggestion[] = []
+  const bandByKey = new Map<string, number>()
+  const baseByKey = new Map<string, number>()
+
+  for (const region of profile.regions) {
+    if (!BAND_PLAN_KINDS.includes(region.kind)) continue
+    const key = regionKey(region)
+    const raw = regionBands[region.id]?.toLowerCase()
+    const current = isBand(raw) ? raw : undefined
+    const entry = layout[key]
+    const row: BandSuggestion = {
+      key,
+      id: region.id,
+      world: region.world,
+      kind: region.kind,
+      ...(current ? { current } : {}),
+      suggested: current ?? FALLBACK_BAND,
+      locked: locked.has(key),
+      ...(entry ? { distanceFromSpawn: entry.distanceFromSpawn } : {}),
+      reasons: [],
+    }
+    rows.push(row)
+    if (row.locked) {
+      row.reasons.push(`locked at ${row.suggested}`)
+      bandByKey.set(key, LEVELLED_MOBS_BANDS.indexOf(row.suggested))
+      continue
+    }
+    if (!entry) {
+      row.reasons.push(`no geometry; keeps ${row.suggested}`)
+      continue
+    }
+    let band = distanceBand(entry.distanceFromSpawn, plan.ringDistances)
+    const distance = entry.distanceFromSpawn.toLocaleString('en-US')
+    row.reasons.push(`${distance} blocks from spawn: ${LEVELLED_MOBS_BANDS[band]}`)
+    const worldOffset = BAND_WORLD_OFFSET[region.world]
+    if (worldOffset) row.reasons.push(`${region.world} +${worldOffset}`)
+    const kindOffset = BAND_KIND_OFFSET[region.kind] ?? 0
+    if (kindOffset) row.reasons.push(`${region.kind} +${kindOffset}`)
+    band = clampBand(band + worldOffset + kindOffset)
+    bandByKey.set(key, band)
+    baseByKey.set(key, band)
+  }
+
+  // Even out the gradient. No region ends up more than one band harder than an easier neighbour
+  // (`upper`), or more than one band easier than a locked one (`lower`); both spread one hop per
+  // pass, and bands only span five steps, so five passes reach the fixed point.
+  const upper = new Map(bandByKey)
+  const lower = new Map<string, number>()
+  for (const key of bandByKey.keys()) if (!baseByKey.has(key)) lower.set(key, bandByKey.get(key)!)
+  const neighbours = new Map<string, string[]>()
+  for (const key of baseByKey.keys()) {
+    neighbours.set(key, (layout[key]?.neighbours ?? []).filter((k) => bandByKey.has(k)))
+  }
+  for (let pass = 0; pass < LEVELLED_MOBS_BANDS.length; pass++) {
+    for (const [key, nbs] of neighbours) {
+      for (const nb of nbs) {
+        upper.set(key, Math.min(upper.get(key)!, upper.get(nb)! + 1))
+        if (lower.has(nb)) lower.set(key, Math.max(lower.get(key) ?? -Infinity, lower.get(nb)! - 1))
+      }
+    }
+  }
+
+  for (const row of rows) {
+    const base = baseByKey.get(row.key)
+    if (base === undefined) continue
+    const band = clampBand(Math.max(upper.get(row.key)!, lower.get(row.key) ?? -Infinity))
+    row.suggested = LEVELLED_MOBS_BANDS[band]
+    if (band < base) row.reasons.push(`lowered to ${row.suggested}: borders easier regions`)
+    if (band > base) row.reasons.push(`raised to ${row.suggested}: near a locked region`)
+  }
+
+  const worldOrder = Object.keys(BAND_WORLD_OFFSET)
+  return rows.sort(
+    (a, b) =>
+      worldOrder.indexOf(a.world) - worldOrder.indexOf(b.world) ||
+      (a.distanceFromSpawn ?? Infinity) - (b.distanceFromSpawn ?? Infinity) ||
+      a.id.localeCompare(b.id)
+  )
+}
+
+/**
+ * Save the plan and write `bands` (by `world:id`) as band edits, one edit-log entry per band.
+ * Bands equal to the current value are skipped; an empty `bands` only saves the plan.
+ */
+export function applyBandPlan(
+  profile: ServerProfile,
+  plan: LevelledMobsBandPlan,
+  bands: Record<string, string>,
+  nowIso: string = new Date().toISOString()
+): RegionOverrideOutcome {
+  const resolved = resolveBandPlan(plan)
+  const errors = validateBandPlan(resolved)
+  if (errors.length > 0) return { ok: false, error: errors.join('\n') }
+
+  const regionBands = profile.regionsMeta?.levelledMobs?.regionBands ?? {}
+  const keysByBand = new Map<string, string[]>()
+  for (const [key, band] of Object.entries(bands)) {
+    if (!isBand(band)) return { ok: false, error: `Unknown LevelledMobs band "${band}" for ${key}` }
+    const region = profile.regions.find((r) => regionKey(r) === key)
+    if (!region) return { ok: false, error: `Region not found: ${key}` }
+    if (regionBands[region.id]?.toLowerCase() === band) continue
+    keysByBand.set(band, [...(keysByBand.get(band) ?? []), key])
+  }
+
+  let next: ServerProfile = profile
+  for (const band of LEVELLED_MOBS_BANDS) {
+    const regionKeys = keysByBand.get(band)
+    if (!regionKeys) continue
+    const outcome = applyRegionEdits(next, { regionKeys, fields: { levelledMobsBand: band } }, nowIso)
+    if (!outcome.ok) return outcome
+    next = outcome.profile
+  }
+  const known = new Set(next.regions.map(regionKey))
+  return {
+    ok: true,
+    profile: { ...next, bandPlan: { ...resolved, lockedKeys: resolved.lockedKeys.filter((k) => known.has(k)) } },
+  }
+}
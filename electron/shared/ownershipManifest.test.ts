@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import type { OwnershipManifest } from './ownershipManifest'
+import {
+  assertOwnedKey,
+  isOwnedListItem,
+  matchOwnedKey,
+  ownerContentView,
+  stripOwnedForMerge,
+} from './ownershipManifest'
+import { CE_OWNERSHIP, LM_OWNERSHIP, TAB_OWNERSHIP, lmCustomDropsOwnership } from './ownershipManifests'
+
+const manifest: OwnershipManifest = {
+  file: 'Test/config.yml',
+  keys: [
+    { path: 'Commands', mode: 'overwrite', note: 'commands' },
+    { path: 'Custom.*_found', note: 'counters' },
+    { path: 'conditions./^top-explorer-[1-5]$/', note: 'top explorers' },
+    { path: 'conditions.static', mode: 'default', value: { a: 1 }, note: 'static' },
+  ],
+  listItems: [
+    { list: 'rules', where: [{ field: 'match.regions', type: 'list' }], note: 'list rule' },
+  ],
+}
+
+describe('matchOwnedKey', () => {
+  it('matches literal, glob and regex segments at the same depth only', () => {
+    expect(matchOwnedKey(manifest, ['Commands'])?.note).toBe('commands')
+    expect(matchOwnedKey(manifest, ['Custom', 'ancient_cities_found'])?.note).toBe('counters')
+    expect(matchOwnedKey(manifest, ['Custom', 'found_things'])).toBeUndefined()
+    expect(matchOwnedKey(manifest, ['conditions', 'top-explorer-3'])?.note).toBe('top explorers')
+    expect(matchOwnedKey(manifest, ['conditions', 'top-explorer-6'])).toBeUndefined()
+    expect(matchOwnedKey(manifest, ['Commands', 'nested'])).toBeUndefined()
+  })
+
+  it('routes relocated CE events and owns discovery events', () => {
+    expect(matchOwnedKey(CE_OWNERSHIP, ['Events', 'oakvale_discover_once'])?.relocatedTo).toBeUndefined()
+    expect(matchOwnedKey(CE_OWNERSHIP, ['Events', 'get_book_mending'])?.relocatedTo).toBe('enchantments')
+    expect(matchOwnedKey(CE_OWNERSHIP, ['Events', 'world_change'])?.relocatedTo).toBe('server-core')
+    expect(matchOwnedKey(CE_OWNERSHIP, ['Events', 'custom_event'])).toBeUndefined()
+  })
+
+  it('owns library table names containing regex and path characters literally', () => {
+    const lmcd = lmCustomDropsOwnership(['zombie.drops', 'a/b'])
+    expect(matchOwnedKey(lmcd, ['drop-table', 'zombie.drops'])).toBeDefined()
+    expect(matchOwnedKey(lmcd, ['drop-table', 'a/b'])).toBeDefined()
+    expect(matchOwnedKey(lmcd, ['drop-table', 'zombieXdrops'])).toBeUndefined()
+  })
+})
+
+describe('isOwnedListItem', () => {
+  it('owns LM village and region band rules but not hand-written rules', () => {
+    const path = ['custom-rules']
+    expect(isOwnedListItem(LM_OWNERSHIP, path, { conditions: { 'worldguard-regions': ['a', 'b'] } })).toBe(true)
+    expect(
+      isOwnedListItem(LM_OWNERSHIP, path, { 'use-preset': 'lvlstrategy-hard', conditions: { 'worldguard-regions': 'a' } })
+    ).toBe(true)
+    expect(
+      isOwnedListItem(LM_OWNERSHIP, path, { 'use-preset': 'my-preset', conditions: { 'worldguard-regions': 'a' } })
+    ).toBe(false)
+    expect(isOwnedListItem(LM_OWNERSHIP, path, { 'custom-rule': 'No regions' })).toBe(false)
+  })
+})
+
+describe('stripOwnedForMerge', () => {
+  it('drops replaced keys and owned list items, keeps overwrite keys in place and fills defaults', () => {
+    const out = stripOwnedForMerge(manifest, {
+      Commands: { a: 1 },
+      Custom: { ancient_cities_found: {}, kills: {} },
+      conditions: { nick: 'x', 'top-explorer-1': {} },
+      rules: [{ match: { regions: ['a'] } }, { match: { regions: 'b' } }],
+    })
+    expect(out).toEqual({
+      Commands: { a: 1 },
+      Custom: { kills: {} },
+      conditions: { nick: 'x', static: { a: 1 } },
+      rules: [{ match: { regions: 'b' } }],
+    })
+  })
+
+  it('keeps the owner value of default keys', () => {
+    const out = stripOwnedForMerge(manifest, { conditions: { static: { mine: true } } })
+    expect(out.conditions).toEqual({ static: { mine: true } })
+  })
+
+  it('fills TAB static conditions only where the template lacks them', () => {
+    const out = stripOwnedForMerge(TAB_OWNERSHIP, { conditions: { 'region-name': 'custom' } }) as {
+      conditions: Record<string, unknown>
+    }
+    expect(Object.keys(out.conditions)).toEqual(['region-name', 'village-name', 'heart-region'])
+    expect(out.conditions['region-name']).toBe('custom')
+  })
+})
+
+describe('ownerContentView', () => {
+  it('ignores owned keys and default keys the template lacks, and treats empty maps as missing', () => {
+    const original = { Custom: { kills: 1 }, conditions: {} }
+    const generated = {
+      Commands: { x: 1 },
+      Custom: { kills: 1, caves_found: 2 },
+      conditions: { static: { a: 1 }, 'top-explorer-2': {} },
+    }
+    expect(ownerContentView(manifest, generated, original)).toEqual(ownerContentView(manifest, original))
+  })
+
+  it('compares default keys present in the template', () => {
+    const original = { conditions: { static: { a: 2 } } }
+    const generated = { conditions: { static: { a: 1 } } }
+    expect(ownerContentView(manifest, generated, original)).not.toEqual(ownerContentView(manifest, original))
+  })
+})
+
+describe('assertOwnedKey', () => {
+  it('throws for generated keys outside the manifest', () => {
+    expect(() => assertOwnedKey(manifest, ['Custom', 'ancient_cities_found'])).not.toThrow()
+    expect(() => assertOwnedKey(manifest, ['Custom', 'kills'])).toThrow('Custom.kills is generated but not owned')
+  })
+})
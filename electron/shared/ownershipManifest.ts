@@ -0,0 +1,255 @@
+/**
+ * Declarative ownership manifests: which YAML keys and list items Plugin Manager generates in a
+ * template-merged config. The merge step strips and fills owned keys from the manifest and the
+ * diff gate ignores the same keys, so the two cannot drift apart.
+ *
+ * Paths are dot-separated keys from the document root. A segment is a literal key, a glob with
+ * `*` (`*_discover_once`) or a regex between slashes (`/^top-explorer-[1-5]$/`).
+ */
+
+/**
+ * - `replace`: the merge removes whatever the template has and writes the generated value (if any).
+ * - `overwrite`: the merge assigns the generated value in place, keeping the key's position.
+ * - `default`: the merge adds `value` only when the template lacks the key; owner edits are kept.
+ */
+export type OwnedKeyMode = 'replace' | 'overwrite' | 'default'
+
+export interface OwnedKeyRule {
+  path: string
+  mode?: OwnedKeyMode
+  /** Written by the merge when the template lacks the key and the generator emits nothing. */
+  value?: unknown
+  /** The merge moves matching entries to this events/ fragment instead of dropping them. */
+  relocatedTo?: string
+  note: string
+}
+
+export interface OwnedItemCondition {
+  /** Dot path inside the list item. */
+  field: string
+  type?: 'string' | 'list'
+  /** Regex the field's string value must match. */
+  matches?: string
+}
+
+/** Items of the list at `list` are owned when they satisfy every condition. */
+export interface OwnedListItemRule {
+  list: string
+  where: OwnedItemCondition[]
+  note: string
+}
+
+export interface OwnershipManifest {
+  /** File the manifest applies to, relative to the plugin folder. */
+  file: string
+  /** Extra context shown in the UI (e.g. owned keys resolved at build time). */
+  summary?: string
+  keys: OwnedKeyRule[]
+  listItems?: OwnedListItemRule[]
+}
+
+type Segment = { kind: 'literal'; key: string } | { kind: 'pattern'; re: RegExp }
+
+const compiledPaths = new Map<string, Segment[]>()
+
+function splitPath(path: string): string[] {
+  const parts: string[] = []
+  let i = 0
+  while (i < path.length) {
+    let end: number
+    if (path[i] === '/') {
+      end = i + 1
+      while (end < path.length && path[end] !== '/') end += path[end] === '\\' ? 2 : 1
+      end += 1
+    } else {
+      end = path.indexOf('.', i)
+      if (end === -1) end = path.length
+    }
+    parts.push(path.slice(i, end))
+    i = end + 1
+  }
+  return parts
+}
+
+function compileSegment(part: string): Segment {
+  if (part.length > 1 && part.startsWith('/') && part.endsWith('/')) {
+    return { kind: 'pattern', re: new RegExp(part.slice(1, -1)) }
+  }
+  if (part.includes('*')) {
+    const body = part
+      .split('*')
+      .map((s) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+    return { kind: 'pattern', re: new RegExp(`^${body}$`) }
+  }
+  return { kind: 'literal', key: part }
+}
+
+function compilePath(path: string): Segment[] {
+  let segments = compiledPaths.get(path)
+  if (!segments) {
+    segments = splitPath(path).map(compileSegment)
+    compiledPaths.set(path, segments)
+  }
+  return segments
+}
+
+function pathMatches(path: string, keyPath: readonly string[]): boolean {
+  const segments = compilePath(path)
+  if (segments.length !== keyPath.length) return false
+  return segments.every((s, i) => (s.kind === 'literal' ? s.key === keyPath[i] : s.re.test(keyPath[i])))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function getAt(item: unknown, keys: readonly string[]): unknown {
+  let cur: unknown = item
+  for (const key of keys) {
+    if (!isPlainObject(cur)) return undefined
+    cur = cur[key]
+  }
+  return cur
+}
+
+/** Regex literal matching exactly one of `keys`, for rules over keys known only at build time. */
+export function exactKeyPattern(keys: readonly string[]): string {
+  const alternatives = keys.map((k) => k.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+  return `/^(?:${alternatives.join('|')})$/`
+}
+
+/** Manifest path that would own `path`; anything inside a list item points at a list-item rule. */
+export function coveringRulePath(path: ReadonlyArray<string | number>): string {
+  const keys: string[] = []
+  for (const segment of path) {
+    if (typeof segment === 'number') return `${keys.join('.')}[]`
+    keys.push(/[.*]|^\//.test(segment) ? exactKeyPattern([segment]) : segment)
+  }
+  return keys.join('.')
+}
+
+/** First key rule whose path matches `keyPath` exactly (same depth). */
+export function matchOwnedKey(manifest: OwnershipManifest, keyPath: readonly string[]): OwnedKeyRule | undefined {
+  return manifest.keys.find((rule) => pathMatches(rule.path, keyPath))
+}
+
+/** Whether `item` of the list at `listPath` is owned by a list-item rule. */
+export function isOwnedListItem(manifest: OwnershipManifest, listPath: readonly string[], item: unknown): boolean {
+  return (manifest.listItems ?? []).some(
+    (rule) =>
+      pathMatches(rule.list, listPath) &&
+      rule.where.every((cond) => {
+        const value = getAt(item, cond.field.split('.'))
+        if (value == null) return false
+        if (cond.type === 'list' && !Array.isArray(value)) return false
+        if (cond.type === 'string' && typeof value !== 'string') return false
+        return cond.matches == null || new RegExp(cond.matches).test(String(value))
+      })
+  )
+}
+
+/**
+ * Whether a change at `path` (as reported by the diff gate) lies inside content the merge
+ * regenerates: a `replace` / `overwrite` key or an owned list item in any of `docs`. `default`
+ * keys count as the owner's, like in the diff gate.
+ */
+export function isOwnedPath(
+  manifest: OwnershipManifest,
+  path: ReadonlyArray<string | number>,
+  docs: readonly unknown[]
+): boolean {
+  const keys: string[] = []
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      return docs.some((doc) => {
+        const list = getAt(doc, keys)
+        return Array.isArray(list) && isOwnedListItem(manifest, keys, list[segment])
+      })
+    }
+    keys.push(segment)
+    const rule = matchOwnedKey(manifest, keys)
+    if (rule) return (rule.mode ?? 'replace') !== 'default'
+  }
+  return false
+}
+
+/** Throws when a generator writes a key its manifest does not own. */
+export function assertOwnedKey(manifest: OwnershipManifest, keyPath: readonly string[]): void {
+  if (!matchOwnedKey(manifest, keyPath)) {
+    throw new Error(`${keyPath.join('.')} is generated but not owned in the ${manifest.file} ownership manifest`)
+  }
+}
+
+function stripNode(
+  manifest: OwnershipManifest,
+  node: unknown,
+  path: string[],
+  drop: (rule: OwnedKeyRule, keyPath: string[]) => boolean,
+  prune: boolean
+): unknown {
+  if (Array.isArray(node)) {
+    return node.filter((item) => !isOwnedListItem(manifest, path, item))
+  }
+  if (!isPlainObject(node)) return node
+  const out: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(node)) {
+    const keyPath = [...path, key]
+    const rule = matchOwnedKey(manifest, keyPath)
+    if (rule && drop(rule, keyPath)) continue
+    const stripped = stripNode(manifest, value, keyPath, drop, prune)
+    if (prune && isPlainObject(stripped) && Object.keys(stripped).length === 0) continue
+    out[key] = stripped
+  }
+  return out
+}
+
+/**
+ * Merge step: copy of `config` without the template's `replace` keys and owned list items, with
+ * manifest values filled in where the key is missing. Generated values are assigned after.
+ */
+export function stripOwnedForMerge<T>(manifest: OwnershipManifest, config: T): T {
+  const stripped = stripNode(manifest, config, [], (rule) => (rule.mode ?? 'replace') === 'replace', false)
+  if (!isPlainObject(stripped)) return stripped as T
+  for (const rule of manifest.keys) {
+    if (rule.value === undefined) continue
+    const keys = splitPath(rule.path)
+    let parent: Record<string, unknown> = stripped
+    for (const key of keys.slice(0, -1)) {
+      if (!isPlainObject(parent[key])) parent[key] = {}
+      parent = parent[key] as Record<string, unknown>
+    }
+    const last = keys[keys.length - 1]
+    if (parent[last] === undefined) parent[last] = JSON.parse(JSON.stringify(rule.value))
+  }
+  return stripped as T
+}
+
+/**
+ * Diff gate: copy of `config` with every owned key and list item removed, so only the owner's
+ * content is compared. `default` keys are compared unless `original` (the template) lacks them.
+ * Empty maps count as missing, so a section emptied by stripping matches one the merge left out.
+ */
+export function ownerContentView(manifest: OwnershipManifest, config: unknown, original?: unknown): unknown {
+  return stripNode(
+    manifest,
+    config,
+    [],
+    (rule, keyPath) => {
+      if ((rule.mode ?? 'replace') !== 'default') return true
+      return original !== undefined && getAt(original, keyPath) === undefined
+    },
+    true
+  )
+}
+
+/** Manifest plus rules owning `keys` under `parentPath` (keys resolved at build time). */
+export function withOwnedKeys(
+  manifest: OwnershipManifest,
+  parentPath: string,
+  keys: readonly string[],
+  note: string
+): OwnershipManifest {
+  if (keys.length === 0) return manifest
+  return { ...manifest, keys: [...manifest.keys, { path: `${parentPath}.${exactKeyPattern(keys)}`, note }] }
+}
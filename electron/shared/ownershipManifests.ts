@@ -0,0 +1,129 @@
+/**
+ * Ownership manifest per template-merged plugin. Everything not listed belongs to the server
+ * owner: the merge keeps it and the diff gate fails the build if it changes.
+ */
+import type { OwnershipManifest } from './ownershipManifest'
+import { withOwnedKeys } from './ownershipManifest'
+
+export const AA_OWNERSHIP: OwnershipManifest = {
+  file: 'AdvancedAchievements/config.yml',
+  keys: [
+    { path: 'Commands', mode: 'overwrite', note: 'Discovery commands, regenerated from regions' },
+    {
+      path: 'Custom./^(villages|regions|hearts|nerves|nether_regions|nether_hearts|end_regions|end_hearts|total)_discovered$/',
+      mode: 'overwrite',
+      note: 'Discovery counters per region kind, plus the total_discovered percent tiers',
+    },
+    { path: 'Custom.*_found', mode: 'overwrite', note: 'Structure counters and the structures_found rollup' },
+  ],
+}
+
+export const CE_OWNERSHIP: OwnershipManifest = {
+  file: 'ConditionalEvents/config.yml',
+  keys: [
+    { path: 'Events.*_discover_once', note: 'Discovery events, written to events/ fragments' },
+    { path: 'Events./^(first_join|join_log|leave_log)$/', note: 'Server core events, written to events/server-core.yml' },
+    {
+      path: 'Events./^(world_change|store_reminder_on_join)$/',
+      relocatedTo: 'server-core',
+      note: 'Kept as-is but moved to events/server-core.yml',
+    },
+    { path: 'Events.get_book_*', relocatedTo: 'enchantments', note: 'Kept as-is but moved to events/enchantments.yml' },
+    { path: 'Events.get_potion_*', relocatedTo: 'potions', note: 'Kept as-is but moved to events/potions.yml' },
+  ],
+}
+
+export const TAB_OWNERSHIP: OwnershipManifest = {
+  file: 'TAB/config.yml',
+  keys: [
+    {
+      path: 'header-footer./^(header|footer|disable-condition|per-world|per-server)$/',
+      note: 'Legacy header-footer layout, removed',
+    },
+    { path: 'header-footer.designs.default./^(header|footer)$/', mode: 'overwrite', note: 'Header and footer lines' },
+    { path: 'scoreboard.enabled', mode: 'overwrite', note: 'Always enabled' },
+    { path: 'scoreboard.scoreboards', mode: 'overwrite', note: 'Per-world scoreboards, regenerated from region counts' },
+    { path: 'scoreboard./^(use-numbers|static-number)$/', note: 'Removed (numbers come from the scoreboards)' },
+    { path: 'conditions./^(top-explorers-title|top-explorer-[1-5])$/', note: 'Top explorers conditions' },
+    { path: 'conditions./^region-name-(easy|normal|hard|severe|deadly)$/', note: 'Region name colour by difficulty band' },
+    {
+      path: 'conditions.region-name',
+      mode: 'default',
+      value: {
+        conditions: ['%worldguard_region_name_2%!='],
+        type: 'AND',
+        true: '%capitalize_pascal-case-forced_{worldguard_region_name_2}%',
+        false: '%capitalize_pascal-case-forced_{worldguard_region_name_1}%',
+      },
+      note: 'Added when missing',
+    },
+    {
+      path: 'conditions.village-name',
+      mode: 'overwrite',
+      value: {
+        conditions: [
+          '%worldguard_region_name_2%!=',
+          '%worldguard_region_name_1%!=%worldguard_region_name_2%',
+          '%worldguard_region_name_1%!=spawn',
+        ],
+        type: 'AND',
+        true: '%condition:heart-region%',
+        false: '-',
+      },
+      note: 'Village name (guarded against structures when the server has any)',
+    },
+    {
+      path: 'conditions.heart-region',
+      mode: 'default',
+      value: {
+        conditions: ['%worldguard_region_name_1%|-heart'],
+        true: '-',
+        false: '%capitalize_pascal-case-forced_{worldguard_region_name_1}%',
+      },
+      note: 'Added when missing',
+    },
+    { path: 'conditions.structure-name', note: 'Current structure name' },
+  ],
+}
+
+export const LM_OWNERSHIP: OwnershipManifest = {
+  file: 'LevelledMobs/rules.yml',
+  keys: [],
+  listItems: [
+    {
+      list: 'custom-rules',
+      where: [{ field: 'conditions.worldguard-regions', type: 'list' }],
+      note: 'Villages band rule (worldguard-regions is a list)',
+    },
+    {
+      list: 'custom-rules',
+      where: [
+        { field: 'conditions.worldguard-regions', type: 'string' },
+        { field: 'use-preset', matches: '^lvlstrategy-(easy|normal|hard|severe|deadly)$' },
+      ],
+      note: 'Region band rules (one region with a lvlstrategy-<band> preset)',
+    },
+  ],
+}
+
+/** Static part only; library table names are added at build time with `withOwnedKeys`. */
+export const LM_CUSTOM_DROPS_OWNERSHIP: OwnershipManifest = {
+  file: 'LevelledMobs/customdrops.yml',
+  summary: 'Every drop-table entry named in the drop table library, including tables no longer assigned.',
+  keys: [],
+}
+
+/** customdrops manifest with the library's table names owned. */
+export function lmCustomDropsOwnership(ownedTableNames: readonly string[]): OwnershipManifest {
+  return withOwnedKeys(LM_CUSTOM_DROPS_OWNERSHIP, 'drop-table', ownedTableNames, 'Drop table library entry')
+}
+
+export const OWNERSHIP_MANIFESTS = {
+  aa: AA_OWNERSHIP,
+  ce: CE_OWNERSHIP,
+  tab: TAB_OWNERSHIP,
+  lm: LM_OWNERSHIP,
+  lmcd: LM_CUSTOM_DROPS_OWNERSHIP,
+} as const satisfies Record<string, OwnershipManifest>
+
+export type ManifestPluginId = keyof typeof OWNERSHIP_MANIFESTS
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import type { RegionGeometry, RegionRecord, ServerProfile } from '../types'
+import { buildRegionAdjacency, computeRegionLayout, regionArea, regionCentroid, regionOutline } from './regionGeometry'
+
+const cuboid = (x: number, z: number, size = 10): RegionGeometry => ({
+  type: 'cuboid',
+  min: { x, y: -64, z },
+  max: { x: x + size - 1, y: 319, z: z + size - 1 },
+})
+
+function region(id: string, geometry?: RegionGeometry, world: RegionRecord['world'] = 'overworld'): RegionRecord {
+  return {
+    world,
+    id,
+    kind: 'region',
+    discover: { method: 'on_enter', recipeId: 'region' },
+    ...(geometry ? { geometry } : {}),
+  }
+}
+
+const triangle: RegionGeometry = {
+  type: 'poly2d',
+  min: { x: 0, y: 0, z: 0 },
+  max: { x: 30, y: 255, z: 30 },
+  points: [
+    { x: 0, z: 0 },
+    { x: 30, z: 0 },
+    { x: 0, z: 30 },
+  ],
+}
+
+describe('region footprint metrics', () => {
+  it('counts cuboid blocks inclusively and polygons by their outline', () => {
+    expect(regionOutline(cuboid(0, 0))).toEqual([
+      { x: 0, z: 0 },
+      { x: 10, z: 0 },
+      { x: 10, z: 10 },
+      { x: 0, z: 10 },
+    ])
+    expect(regionArea(cuboid(0, 0))).toBe(100)
+    expect(regionArea(triangle)).toBe(450)
+  })
+
+  it('puts the centroid at the centre of mass', () => {
+    expect(regionCentroid(cuboid(-20, 40))).toEqual({ x: -15, z: 45 })
+    expect(regionCentroid(triangle)).toEqual({ x: 10, z: 10 })
+  })
+})
+
+describe('buildRegionAdjacency', () => {
+  it('links touching, overlapping and one-block-apart footprints within a world', () => {
+    const adjacency = buildRegionAdjacency([
+      region('a', cuboid(0, 0)),
+      region('touching', cuboid(10, 0)),
+      region('road_apart', cuboid(-11, 0)),
+      region('far', cuboid(100, 100)),
+      region('inside', cuboid(2, 2, 3)),
+      region('other_world', cuboid(0, 0), 'nether'),
+      region('no_geometry'),
+    ])
+    expect(adjacency['overworld:a']).toEqual(['overworld:inside', 'overworld:road_apart', 'overworld:touching'])
+    expect(adjacency['overworld:touching']).toEqual(['overworld:a'])
+    expect(adjacency['overworld:far']).toEqual([])
+    expect(adjacency['nether:other_world']).toEqual([])
+    expect(adjacency['overworld:no_geometry']).toBeUndefined()
+  })
+
+  it('uses the real polygon edge, not the bounding box', () => {
+    const adjacency = buildRegionAdjacency([region('tri', triangle), region('corner', cuboid(25, 25))])
+    expect(adjacency['overworld:tri']).toEqual([])
+  })
+})
+
+describe('computeRegionLayout', () => {
+  it('measures distance from the spawn region, falling back to the imported spawn centre', () => {
+    const profile = {
+      regions: [region('spawn', cuboid(-5, -5)), region('east', cuboid(95, -5)), region('ash', cuboid(30, 40), 'nether')],
+      spawnCenter: { world: 'world', x: 500, z: 500 },
+      sources: {},
+    } as unknown as ServerProfile
+    const layout = computeRegionLayout(profile)
+    expect(layout['overworld:east']).toMatchObject({ area: 100, centroid: { x: 100, z: 0 }, distanceFromSpawn: 100 })
+    expect(layout['nether:ash'].distanceFromSpawn).toBe(57)
+
+    const noSpawnRegion = { ...profile, regions: profile.regions.slice(1) } as ServerProfile
+    expect(computeRegionLayout(noSpawnRegion)['overworld:east'].distanceFromSpawn).toBe(640)
+  })
+})
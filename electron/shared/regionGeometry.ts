@@ -0,0 +1,201 @@
+/**
+ * Figures derived from the region footprints stored on `RegionRecord.geometry`: area, centroid,
+ * distance from spawn and which regions border each other. Shared by the generators and the
+ * Regions screen, so both see the same numbers.
+ */
+import type { RegionGeometry, RegionRecord, ServerProfile } from '../types'
+import { regionKey } from './regionOverrides'
+
+export interface RegionPoint {
+  x: number
+  z: number
+}
+
+export interface RegionLayoutEntry {
+  /** Footprint area in blocks (x/z only). */
+  area: number
+  centroid: RegionPoint
+  /** Straight-line x/z distance from the world's spawn to the centroid, rounded to whole blocks. */
+  distanceFromSpawn: number
+  /** Keys (`world:id`) of regions whose footprints touch, overlap or lie within `ADJACENCY_GAP` blocks. */
+  neighbours: string[]
+}
+
+/** Keyed by `world:id`; regions without geometry are absent. */
+export type RegionLayout = Record<string, RegionLayoutEntry>
+
+/** Footprints this far apart (in blocks) still count as neighbours, so a one-block road does not split them. */
+export const ADJACENCY_GAP = 1
+
+/**
+ * Footprint outline (x/z) without repeating the first point. WorldGuard cuboids include their max
+ * block, so the outline runs to the far edge of it.
+ */
+export function regionOutline(geometry: RegionGeometry): RegionPoint[] {
+  if (geometry.points && geometry.points.length >= 3) return geometry.points
+  const { min, max } = geometry
+  return [
+    { x: min.x, z: min.z },
+    { x: max.x + 1, z: min.z },
+    { x: max.x + 1, z: max.z + 1 },
+    { x: min.x, z: max.z + 1 },
+  ]
+}
+
+function signedArea(outline: RegionPoint[]): number {
+  let sum = 0
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i]
+    const b = outline[(i + 1) % outline.length]
+    sum += a.x * b.z - b.x * a.z
+  }
+  return sum / 2
+}
+
+export function regionArea(geometry: RegionGeometry): number {
+  return Math.abs(signedArea(regionOutline(geometry)))
+}
+
+/** Area centroid of the footprint (bounding-box centre for degenerate polygons), rounded to whole blocks. */
+export function regionCentroid(geometry: RegionGeometry): RegionPoint {
+  const outline = regionOutline(geometry)
+  const area = signedArea(outline)
+  if (area === 0) {
+    return {
+      x: Math.floor((geometry.min.x + geometry.max.x + 1) / 2),
+      z: Math.floor((geometry.min.z + geometry.max.z + 1) / 2),
+    }
+  }
+  let cx = 0
+  let cz = 0
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i]
+    const b = outline[(i + 1) % outline.length]
+    const cross = a.x * b.z - b.x * a.z
+    cx += (a.x + b.x) * cross
+    cz += (a.z + b.z) * cross
+  }
+  return { x: Math.floor(cx / (6 * area)), z: Math.floor(cz / (6 * area)) }
+}
+
+/**
+ * Spawn point per world: the world's `spawn` region when it has geometry, else (overworld only) the
+ * imported spawn centre, else the world origin.
+ */
+export function worldSpawnPoints(profile: ServerProfile): Record<RegionRecord['world'], RegionPoint> {
+  const out: Record<RegionRecord['world'], RegionPoint> = {
+    overworld: { x: 0, z: 0 },
+    nether: { x: 0, z: 0 },
+    end: { x: 0, z: 0 },
+  }
+  const spawnCenter = profile.spawnCenter ?? profile.sources?.overworld?.spawnCenter
+  if (spawnCenter) out.overworld = { x: spawnCenter.x, z: spawnCenter.z }
+  for (const region of profile.regions) {
+    if (region.id === 'spawn' && region.geometry) out[region.world] = regionCentroid(region.geometry)
+  }
+  return out
+}
+
+function segmentPointDistance(p: RegionPoint, a: RegionPoint, b: RegionPoint): number {
+  const dx = b.x - a.x
+  const dz = b.z - a.z
+  const lengthSq = dx * dx + dz * dz
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.z - a.z) * dz) / lengthSq))
+  return Math.hypot(p.x - (a.x + t * dx), p.z - (a.z + t * dz))
+}
+
+function cross(o: RegionPoint, a: RegionPoint, b: RegionPoint): number {
+  return (a.x - o.x) * (b.z - o.z) - (a.z - o.z) * (b.x - o.x)
+}
+
+function segmentsCross(a: RegionPoint, b: RegionPoint, c: RegionPoint, d: RegionPoint): boolean {
+  const d1 = cross(c, d, a)
+  const d2 = cross(c, d, b)
+  const d3 = cross(a, b, c)
+  const d4 = cross(a, b, d)
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))
+}
+
+function containsPoint(outline: RegionPoint[], p: RegionPoint): boolean {
+  let inside = false
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i]
+    const b = outline[j]
+    if (a.z > p.z !== b.z > p.z && p.x < ((b.x - a.x) * (p.z - a.z)) / (b.z - a.z) + a.x) inside = !inside
+  }
+  return inside
+}
+
+/** Shortest x/z distance between two footprints; 0 when they touch, overlap or one contains the other. */
+export function outlineDistance(a: RegionPoint[], b: RegionPoint[]): number {
+  if (containsPoint(a, b[0]) || containsPoint(b, a[0])) return 0
+  let best = Infinity
+  for (let i = 0; i < a.length; i++) {
+    const a1 = a[i]
+    const a2 = a[(i + 1) % a.length]
+    for (let j = 0; j < b.length; j++) {
+      const b1 = b[j]
+      const b2 = b[(j + 1) % b.length]
+      if (segmentsCross(a1, a2, b1, b2)) return 0
+      best = Math.min(
+        best,
+        segmentPointDistance(a1, b1, b2),
+        segmentPointDistance(a2, b1, b2),
+        segmentPointDistance(b1, a1, a2),
+        segmentPointDistance(b2, a1, a2)
+      )
+    }
+  }
+  return best
+}
+
+/**
+ * Neighbour keys per region, both directions, within `maxGap` blocks. Only regions in the same world
+ * can be neighbours; bounding boxes are checked first so large worlds stay cheap.
+ */
+export function buildRegionAdjacency(regions: RegionRecord[], maxGap = ADJACENCY_GAP): Record<string, string[]> {
+  const placed = regions
+    .filter((r) => r.geometry)
+    .map((r) => ({ key: regionKey(r), world: r.world, geometry: r.geometry!, outline: regionOutline(r.geometry!) }))
+  const out: Record<string, string[]> = {}
+  for (const p of placed) out[p.key] = []
+  for (let i = 0; i < placed.length; i++) {
+    const a = placed[i]
+    for (let j = i + 1; j < placed.length; j++) {
+      const b = placed[j]
+      if (a.world !== b.world) continue
+      if (
+        b.geometry.min.x > a.geometry.max.x + 1 + maxGap ||
+        a.geometry.min.x > b.geometry.max.x + 1 + maxGap ||
+        b.geometry.min.z > a.geometry.max.z + 1 + maxGap ||
+        a.geometry.min.z > b.geometry.max.z + 1 + maxGap
+      ) {
+        continue
+      }
+      if (outlineDistance(a.outline, b.outline) > maxGap) continue
+      out[a.key].push(b.key)
+      out[b.key].push(a.key)
+    }
+  }
+  for (const key of Object.keys(out)) out[key].sort()
+  return out
+}
+
+/** Area, centroid, spawn distance and neighbours for every region with stored geometry. */
+export function computeRegionLayout(profile: ServerProfile): RegionLayout {
+  const spawn = worldSpawnPoints(profile)
+  const adjacency = buildRegionAdjacency(profile.regions)
+  const layout: RegionLayout = {}
+  for (const region of profile.regions) {
+    if (!region.geometry) continue
+    const centroid = regionCentroid(region.geometry)
+    const origin = spawn[region.world]
+    layout[regionKey(region)] = {
+      area: regionArea(region.geometry),
+      centroid,
+      distanceFromSpawn: Math.round(Math.hypot(centroid.x - origin.x, centroid.z - origin.z)),
+      neighbours: adjacency[regionKey(region)] ?? [],
+    }
+  }
+  return layout
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import type { RegionRecord, ServerProfile } from '../types'
+import { applyRegionEdits, reapplyRegionOverrides, revertRegionOverrides } from './regionOverrides'
+
+const NOW = '2026-03-01T10:00:00.000Z'
+
+function region(id: string, kind: RegionRecord['kind'] = 'region', world: RegionRecord['world'] = 'overworld'): RegionRecord {
+  return { world, id, kind, discover: { method: 'on_enter', recipeId: 'region' } }
+}
+
+function profile(regions: RegionRecord[]): ServerProfile {
+  return {
+    id: 's1',
+    name: 'S1',
+    sources: {},
+    regions,
+    onboarding: { startRegionId: '', teleport: { world: 'world', x: 0, z: 0 } },
+    regionsMeta: {
+      levelledMobs: { regionBands: { oakvale: 'easy' } },
+      structureFamilies: { shipwreck: { label: 'Shipwrecks', counter: 'shipwrecks_found' } },
+    },
+    build: {},
+  }
+}
+
+describe('applyRegionEdits', () => {
+  it('bulk edits kind, method and band and records overrides plus a log entry', () => {
+    const p = profile([region('oakvale'), region('mossreach')])
+    const out = applyRegionEdits(
+      p,
+      { regionKeys: ['overworld:oakvale', 'overworld:mossreach'], fields: { kind: 'village', levelledMobsBand: 'Hard' } },
+      NOW
+    )
+    expect(out.ok).toBe(true)
+    if (!out.ok) return
+    expect(out.profile.regions.map((r) => r.kind)).toEqual(['village', 'village'])
+    expect(out.profile.regionsMeta?.levelledMobs?.regionBands).toEqual({ oakvale: 'hard', mossreach: 'hard' })
+    expect(out.profile.regionOverrides?.['overworld:oakvale']).toMatchObject({
+      fields: { kind: 'village', levelledMobsBand: 'hard' },
+      imported: { kind: 'region', levelledMobsBand: 'easy' },
+    })
+    expect(out.profile.regionOverrides?.['overworld:mossreach']?.imported).toEqual({ kind: 'region' })
+    expect(out.profile.regionEditLog).toHaveLength(1)
+    // input profile untouched
+    expect(p.regions[0].kind).toBe('region')
+  })
+
+  it('drops an override when the value goes back to the imported one', () => {
+    const first = applyRegionEdits(profile([region('oakvale')]), { regionKeys: ['overworld:oakvale'], fields: { method: 'disabled' } }, NOW)
+    if (!first.ok) throw new Error(first.error)
+    const second = applyRegionEdits(first.profile, { regionKeys: ['overworld:oakvale'], fields: { method: 'on_enter' } }, NOW)
+    if (!second.ok) throw new Error(second.error)
+    expect(second.profile.regionOverrides).toEqual({})
+    expect(second.profile.regionEditLog).toHaveLength(2)
+  })
+
+  it('rejects invalid edits', () => {
+    const p = profile([region('oakvale'), region('ember', 'region', 'nether')])
+    expect(applyRegionEdits(p, { regionKeys: ['nether:ember'], fields: { kind: 'nerve' } }, NOW).ok).toBe(false)
+    expect(applyRegionEdits(p, { regionKeys: ['overworld:oakvale'], fields: { kind: 'structure' } }, NOW).ok).toBe(false)
+    expect(
+      applyRegionEdits(p, { regionKeys: ['overworld:oakvale', 'nether:ember'], fields: { commandIdOverride: 'x' } }, NOW).ok
+    ).toBe(false)
+    expect(applyRegionEdits(p, { regionKeys: ['overworld:oakvale'], fields: { levelledMobsBand: 'brutal' } }, NOW).ok).toBe(false)
+    expect(applyRegionEdits(p, { regionKeys: ['overworld:nowhere'], fields: { method: 'disabled' } }, NOW).ok).toBe(false)
+    const structure = applyRegionEdits(
+      p,
+      { regionKeys: ['overworld:oakvale'], fields: { kind: 'structure', structureType: 'shipwreck' } },
+      NOW
+    )
+    expect(structure.ok).toBe(true)
+  })
+})
+
+describe('revertRegionOverrides', () => {
+  it('restores imported values, including cleared optional fields', () => {
+    const edited = applyRegionEdits(
+      profile([region('oakvale')]),
+      { regionKeys: ['overworld:oakvale'], fields: { displayNameOverride: 'Oak Vale', levelledMobsBand: '' } },
+      NOW
+    )
+    if (!edited.ok) throw new Error(edited.error)
+    expect(edited.profile.regionsMeta?.levelledMobs?.regionBands).toEqual({})
+
+    const reverted = revertRegionOverrides(edited.profile, ['overworld:oakvale'], undefined, NOW)
+    if (!reverted.ok) throw new Error(reverted.error)
+    expect(reverted.profile.regions[0].discover.displayNameOverride).toBeUndefined()
+    expect(reverted.profile.regionsMeta?.levelledMobs?.regionBands).toEqual({ oakvale: 'easy' })
+    expect(reverted.profile.regionOverrides).toEqual({})
+    expect(reverted.profile.regionEditLog?.[1]).toMatchObject({ action: 'revert', regionKeys: ['overworld:oakvale'] })
+  })
+})
+
+describe('reapplyRegionOverrides', () => {
+  it('layers overrides over a fresh import and flags regions that disappeared', () => {
+    const edited = applyRegionEdits(
+      profile([region('oakvale'), region('mossreach')]),
+      { regionKeys: ['overworld:oakvale', 'overworld:mossreach'], fields: { kind: 'village' } },
+      NOW
+    )
+    if (!edited.ok) throw new Error(edited.error)
+    const reimported: ServerProfile = { ...edited.profile, regions: [region('oakvale', 'heart'), region('ember', 'region', 'nether')] }
+
+    expect(reapplyRegionOverrides(reimported, 'overworld')).toBe(1)
+    expect(reimported.regions[0].kind).toBe('village')
+    expect(reimported.regionOverrides?.['overworld:oakvale']?.imported.kind).toBe('heart')
+    expect(reimported.regionOverrides?.['overworld:mossreach']?.missingFromSource).toBe(true)
+
+    reimported.regions.push(region('mossreach'))
+    expect(reapplyRegionOverrides(reimported, 'overworld')).toBe(0)
+    expect(reimported.regionOverrides?.['overworld:mossreach']?.missingFromSource).toBeUndefined()
+    expect(reimported.regions[2].kind).toBe('village')
+  })
+})
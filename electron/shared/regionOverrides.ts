@@ -0,0 +1,305 @@
+/**
+ * Manual region edits layered over imported data. `profile.regions` always holds the effective
+ * values (generators read it directly); `profile.regionOverrides` remembers which fields were set
+ * by hand so every re-import can put them back. Shared by the IPC handlers and the Regions screen.
+ */
+import type {
+  DiscoverMethod,
+  RegionEditLogEntry,
+  RegionEditRequest,
+  RegionKind,
+  RegionOverride,
+  RegionOverrideFields,
+  RegionRecord,
+  RewardRecipeId,
+  ServerProfile,
+} from '../types'
+
+export const REGION_OVERRIDE_FIELDS: (keyof RegionOverrideFields)[] = [
+  'kind',
+  'structureType',
+  'method',
+  'recipeId',
+  'commandIdOverride',
+  'displayNameOverride',
+  'levelledMobsBand',
+]
+
+export const EDITABLE_REGION_KINDS: RegionKind[] = ['system', 'region', 'village', 'heart', 'nerve', 'structure', 'water']
+
+export const EDITABLE_DISCOVER_METHODS: DiscoverMethod[] = ['disabled', 'on_enter', 'first_join', 'passive']
+
+export const EDITABLE_RECIPE_IDS: RewardRecipeId[] = [
+  'none',
+  'region',
+  'village',
+  'heart',
+  'nerve',
+  'nether_region',
+  'nether_heart',
+  'end_region',
+  'end_heart',
+]
+
+/** Same bands lmGenerator accepts for `lvlstrategy-<band>` presets. */
+export const LEVELLED_MOBS_BANDS = ['easy', 'normal', 'hard', 'severe', 'deadly'] as const
+
+export const MAX_REGION_EDIT_LOG = 200
+
+export type RegionOverrideOutcome = { ok: true; profile: ServerProfile } | { ok: false; error: string }
+
+export function regionKey(region: { world: string; id: string }): string {
+  return `${region.world}:${region.id}`
+}
+
+/** Current value of every editable field (absent = unset). */
+export function readRegionFields(
+  region: RegionRecord,
+  regionBands: Record<string, string> | undefined
+): RegionOverrideFields {
+  const fields: RegionOverrideFields = {
+    kind: region.kind,
+    method: region.discover.method,
+    recipeId: region.discover.recipeId,
+  }
+  if (region.structureType) fields.structureType = region.structureType
+  if (region.discover.commandIdOverride) fields.commandIdOverride = region.discover.commandIdOverride
+  if (region.discover.displayNameOverride) fields.displayNameOverride = region.discover.displayNameOverride
+  const band = regionBands?.[region.id]
+  if (band) fields.levelledMobsBand = band
+  return fields
+}
+
+/** Write one field onto a region copy / band map; `''` or undefined removes optional values. */
+function writeRegionField(
+  region: RegionRecord,
+  regionBands: Record<string, string>,
+  field: keyof RegionOverrideFields,
+  value: string | undefined
+): void {
+  const text = value ?? ''
+  switch (field) {
+    case 'kind':
+      if (text) region.kind = text as RegionKind
+      break
+    case 'method':
+      if (text) region.discover.method = text as DiscoverMethod
+      break
+    case 'recipeId':
+      if (text) region.discover.recipeId = text as RewardRecipeId
+      break
+    case 'structureType':
+      if (text) region.structureType = text
+      else delete region.structureType
+      break
+    case 'commandIdOverride':
+      if (text) region.discover.commandIdOverride = text
+      else delete region.discover.commandIdOverride
+      break
+    case 'displayNameOverride':
+      if (text) region.discover.displayNameOverride = text
+      else delete region.discover.displayNameOverride
+      break
+    case 'levelledMobsBand':
+      if (text) regionBands[region.id] = text
+      else delete regionBands[region.id]
+      break
+  }
+}
+
+function sameValue(a: string | undefined, b: string | undefined): boolean {
+  return (a ?? '') === (b ?? '')
+}
+
+function normalizeFields(fields: RegionOverrideFields): RegionOverrideFields {
+  const out: RegionOverrideFields = {}
+  for (const field of REGION_OVERRIDE_FIELDS) {
+    const value = fields[field]
+    if (value === undefined) continue
+    const trimmed = String(value).trim()
+    ;(out as Record<string, string>)[field] = field === 'levelledMobsBand' ? trimmed.toLowerCase() : trimmed
+  }
+  return out
+}
+
+/** Why `fields` cannot be applied to `region`, or null. */
+export function validateRegionEdit(
+  region: RegionRecord,
+  fields: RegionOverrideFields,
+  structureFamilies: Record<string, unknown> | undefined
+): string | null {
+  if (fields.kind !== undefined && !EDITABLE_REGION_KINDS.includes(fields.kind)) {
+    return `Unknown region kind "${fields.kind}"`
+  }
+  if (fields.method !== undefined && !EDITABLE_DISCOVER_METHODS.includes(fields.method)) {
+    return `Unknown discover method "${fields.method}"`
+  }
+  if (fields.recipeId !== undefined && !EDITABLE_RECIPE_IDS.includes(fields.recipeId)) {
+    return `Unknown recipeId "${fields.recipeId}"`
+  }
+  if (
+    fields.levelledMobsBand &&
+    !(LEVELLED_MOBS_BANDS as readonly string[]).includes(fields.levelledMobsBand)
+  ) {
+    return `Unknown LevelledMobs band "${fields.levelledMobsBand}" (use ${LEVELLED_MOBS_BANDS.join(', ')})`
+  }
+  const kind = fields.kind ?? region.kind
+  if (kind === 'nerve' && region.world !== 'overworld') {
+    return `${regionKey(region)}: nerves are only valid in the overworld`
+  }
+  if (kind === 'structure') {
+    const structureType = fields.structureType ?? region.structureType
+    if (!structureType) return `${regionKey(region)}: structures need a structure type`
+    if (!structureFamilies || !(structureType in structureFamilies)) {
+      return `${regionKey(region)}: structure type "${structureType}" is not in structureFamilies`
+    }
+  }
+  return null
+}
+
+function cloneForEdit(profile: ServerProfile): {
+  next: ServerProfile
+  regionBands: Record<string, string>
+  overrides: Record<string, RegionOverride>
+} {
+  const regionBands = { ...(profile.regionsMeta?.levelledMobs?.regionBands ?? {}) }
+  const overrides: Record<string, RegionOverride> = {}
+  for (const [key, o] of Object.entries(profile.regionOverrides ?? {})) {
+    overrides[key] = { ...o, fields: { ...o.fields }, imported: { ...o.imported } }
+  }
+  const next: ServerProfile = {
+    ...profile,
+    regions: profile.regions.map((r) => ({ ...r, discover: { ...r.discover } })),
+    regionsMeta: {
+      ...(profile.regionsMeta ?? {}),
+      levelledMobs: { ...(profile.regionsMeta?.levelledMobs ?? {}), regionBands },
+    },
+    regionOverrides: overrides,
+  }
+  return { next, regionBands, overrides }
+}
+
+function appendLog(profile: ServerProfile, entry: RegionEditLogEntry): void {
+  profile.regionEditLog = [...(profile.regionEditLog ?? []), entry].slice(-MAX_REGION_EDIT_LOG)
+}
+
+/**
+ * Apply the same field values to every listed region and record them as overrides.
+ * A field set back to its imported value stops being an override.
+ */
+export function applyRegionEdits(
+  profile: ServerProfile,
+  request: RegionEditRequest,
+  nowIso: string = new Date().toISOString()
+): RegionOverrideOutcome {
+  const keys = [...new Set(request.regionKeys)]
+  if (keys.length === 0) return { ok: false, error: 'Select at least one region' }
+  const fields = normalizeFields(request.fields)
+  const names = Object.keys(fields) as (keyof RegionOverrideFields)[]
+  if (names.length === 0) return { ok: false, error: 'No changes to apply' }
+  if (keys.length > 1 && (fields.commandIdOverride || fields.displayNameOverride)) {
+    return { ok: false, error: 'Command ID and display name overrides can only be set on one region at a time' }
+  }
+
+  const { next, regionBands, overrides } = cloneForEdit(profile)
+  for (const key of keys) {
+    const region = next.regions.find((r) => regionKey(r) === key)
+    if (!region) return { ok: false, error: `Region not found: ${key}` }
+    const problem = validateRegionEdit(region, fields, next.regionsMeta?.structureFamilies)
+    if (problem) return { ok: false, error: problem }
+
+    const current = readRegionFields(region, regionBands)
+    const override: RegionOverride = overrides[key] ?? {
+      world: region.world,
+      id: region.id,
+      fields: {},
+      imported: {},
+      updatedAtIso: nowIso,
+    }
+    for (const field of names) {
+      const value = fields[field]
+      if (!(field in override.fields)) {
+        if (current[field] !== undefined) (override.imported as Record<string, string>)[field] = current[field] as string
+      }
+      if (sameValue(value, override.imported[field])) {
+        delete override.fields[field]
+        delete override.imported[field]
+      } else {
+        ;(override.fields as Record<string, string>)[field] = value as string
+      }
+      writeRegionField(region, regionBands, field, value)
+    }
+    override.updatedAtIso = nowIso
+    if (Object.keys(override.fields).length > 0) overrides[key] = override
+    else delete overrides[key]
+  }
+
+  appendLog(next, { atIso: nowIso, action: 'edit', regionKeys: keys, fields })
+  return { ok: true, profile: next }
+}
+
+/**
+ * Drop manual values (all fields, or only `fieldNames`) and restore what the last import set.
+ * Overrides for regions missing from the source are simply discarded.
+ */
+export function revertRegionOverrides(
+  profile: ServerProfile,
+  regionKeys: string[],
+  fieldNames?: (keyof RegionOverrideFields)[],
+  nowIso: string = new Date().toISOString()
+): RegionOverrideOutcome {
+  const { next, regionBands, overrides } = cloneForEdit(profile)
+  const touched: string[] = []
+  const dropped: RegionOverrideFields = {}
+  for (const key of [...new Set(regionKeys)]) {
+    const override = overrides[key]
+    if (!override) continue
+    const region = next.regions.find((r) => regionKey(r) === key)
+    const names = (fieldNames ?? REGION_OVERRIDE_FIELDS).filter((f) => f in override.fields)
+    for (const field of names) {
+      ;(dropped as Record<string, string | undefined>)[field] = override.fields[field]
+      if (region) writeRegionField(region, regionBands, field, override.imported[field])
+      delete override.fields[field]
+      delete override.imported[field]
+    }
+    if (names.length > 0) touched.push(key)
+    if (Object.keys(override.fields).length === 0) delete overrides[key]
+    else override.updatedAtIso = nowIso
+  }
+  if (touched.length === 0) return { ok: false, error: 'No overrides to revert' }
+  appendLog(next, { atIso: nowIso, action: 'revert', regionKeys: touched, fields: dropped })
+  return { ok: true, profile: next }
+}
+
+/**
+ * After an import replaced `world`'s regions: refresh each override's imported snapshot, lay the
+ * manual values back on top and flag overrides whose region is gone. Mutates `profile`.
+ * Returns how many overrides for `world` point at regions the import no longer has.
+ */
+export function reapplyRegionOverrides(profile: ServerProfile, world: RegionRecord['world']): number {
+  const overrides = profile.regionOverrides
+  if (!overrides || Object.keys(overrides).length === 0) return 0
+  if (!profile.regionsMeta) profile.regionsMeta = {}
+  if (!profile.regionsMeta.levelledMobs) profile.regionsMeta.levelledMobs = {}
+  const regionBands = { ...(profile.regionsMeta.levelledMobs.regionBands ?? {}) }
+
+  let missing = 0
+  for (const [key, override] of Object.entries(overrides)) {
+    if (override.world !== world) continue
+    const region = profile.regions.find((r) => regionKey(r) === key)
+    if (!region) {
+      override.missingFromSource = true
+      missing++
+      continue
+    }
+    delete override.missingFromSource
+    const imported = readRegionFields(region, regionBands)
+    override.imported = {}
+    for (const field of Object.keys(override.fields) as (keyof RegionOverrideFields)[]) {
+      if (imported[field] !== undefined) (override.imported as Record<string, string>)[field] = imported[field] as string
+      writeRegionField(region, regionBands, field, override.fields[field])
+    }
+  }
+  profile.regionsMeta.levelledMobs.regionBands = regionBands
+  return missing
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import type { RegionRecord, ServerProfile } from '../types'
+import {
+  carryRegionRewards,
+  describeRegionRewards,
+  normalizeRegionRewards,
+  setRegionRewards,
+  validateRegionRewards,
+} from './regionRewards'
+
+function region(id: string, overrides: Partial<RegionRecord> = {}): RegionRecord {
+  return { world: 'overworld', id, kind: 'region', discover: { method: 'on_enter', recipeId: 'region' }, ...overrides }
+}
+
+function profile(regions: RegionRecord[]): ServerProfile {
+  return {
+    id: 's1',
+    name: 'S1',
+    sources: {},
+    regions,
+    onboarding: { startRegionId: '', teleport: { world: 'world', x: 0, z: 0 } },
+    build: {},
+  }
+}
+
+describe('normalizeRegionRewards', () => {
+  it('trims values, strips leading slashes and drops empties', () => {
+    expect(
+      normalizeRegionRewards({ crateLibraryId: ' ', extraCommands: ['', ' /give %player% map 1 '], aaMessage: '  Hi ' })
+    ).toEqual({ extraCommands: ['give %player% map 1'], aaMessage: 'Hi' })
+    expect(normalizeRegionRewards({ extraCommands: [' '], aaMessage: '' })).toBeNull()
+  })
+})
+
+describe('validateRegionRewards', () => {
+  it('checks numbers, command prefixes and placeholders', () => {
+    expect(
+      validateRegionRewards({
+        crateKeyCount: 0,
+        aaExperience: 1.5,
+        extraCommands: ['console_command: say hi', 'say {REGION_DISPLAY} {TELEPORT}'],
+      })
+    ).toEqual([
+      'Crate keys must be a whole number from 1 to 64',
+      'AA experience must be a whole number of 0 or more',
+      'Command 1: write the console command only (no "console_command:" prefix)',
+      'Command 2: unknown placeholder {TELEPORT}',
+    ])
+  })
+})
+
+describe('describeRegionRewards', () => {
+  it('names the library crate', () => {
+    expect(
+      describeRegionRewards({ crateLibraryId: 'c1', crateKeyCount: 3, aaExperience: 500 }, [{ id: 'c1', name: 'Landmark' }])
+    ).toEqual(['Crate: Landmark × 3', 'AA experience: 500'])
+  })
+})
+
+describe('setRegionRewards', () => {
+  it('sets, replaces and clears one region without touching the input profile', () => {
+    const before = profile([region('oak_vale'), region('ember', { world: 'nether' })])
+    const set = setRegionRewards(before, 'overworld:oak_vale', { aaExperience: 250, aaMessage: ' ' })
+    expect(set.ok && set.profile.regions[0]!.rewards).toEqual({ aaExperience: 250 })
+    expect(before.regions[0]!.rewards).toBeUndefined()
+
+    const cleared = set.ok ? setRegionRewards(set.profile, 'overworld:oak_vale', null) : set
+    expect(cleared.ok && cleared.profile.regions[0]!.rewards).toBeUndefined()
+  })
+
+  it('rejects unknown regions and invalid values', () => {
+    expect(setRegionRewards(profile([]), 'overworld:nope', null)).toEqual({
+      ok: false,
+      error: 'Region not found: overworld:nope',
+    })
+    const bad = setRegionRewards(profile([region('oak_vale')]), 'overworld:oak_vale', { crateKeyCount: 100 })
+    expect(bad.ok).toBe(false)
+  })
+})
+
+describe('carryRegionRewards', () => {
+  it('copies rewards onto re-imported regions of the same world only', () => {
+    const previous = [
+      region('oak_vale', { rewards: { aaExperience: 10 } }),
+      region('ember', { world: 'nether', rewards: { aaExperience: 20 } }),
+    ]
+    const next = [region('oak_vale'), region('ember', { world: 'nether' })]
+    carryRegionRewards(previous, next, 'overworld')
+    expect(next[0]!.rewards).toEqual({ aaExperience: 10 })
+    expect(next[1]!.rewards).toBeUndefined()
+  })
+})
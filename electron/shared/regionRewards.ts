@@ -0,0 +1,100 @@
+/**
+ * Per-region reward overrides: a specific crate, key count, extra console commands and AA
+ * message / experience for landmark regions. Stored on the region record itself (import keeps it)
+ * and read by the AA and CE generators. Shared by the IPC handler and the Regions screen.
+ */
+import type { CrateLibraryEntry, RegionRecord, RegionRewardOverrides, ServerProfile } from '../types'
+import { CE_RECIPE_PLACEHOLDERS } from './ceRecipes'
+import { regionKey } from './regionOverrides'
+import type { RegionOverrideOutcome } from './regionOverrides'
+
+export const MAX_CRATE_KEY_COUNT = 64
+
+/** Trimmed copy with empty values dropped; null when nothing is left to override. */
+export function normalizeRegionRewards(rewards: RegionRewardOverrides | null | undefined): RegionRewardOverrides | null {
+  if (!rewards) return null
+  const out: RegionRewardOverrides = {}
+  const crateLibraryId = rewards.crateLibraryId?.trim()
+  if (crateLibraryId) out.crateLibraryId = crateLibraryId
+  if (rewards.crateKeyCount !== undefined && rewards.crateKeyCount !== null) out.crateKeyCount = rewards.crateKeyCount
+  const extraCommands = (rewards.extraCommands ?? []).map((c) => c.trim().replace(/^\//, '')).filter((c) => c.length > 0)
+  if (extraCommands.length > 0) out.extraCommands = extraCommands
+  const aaMessage = rewards.aaMessage?.trim()
+  if (aaMessage) out.aaMessage = aaMessage
+  if (rewards.aaExperience !== undefined && rewards.aaExperience !== null) out.aaExperience = rewards.aaExperience
+  return Object.keys(out).length > 0 ? out : null
+}
+
+const PLACEHOLDER_PATTERN = /\{([A-Z_]+)\}/g
+const DISCOVERY_PLACEHOLDERS = new Set(
+  CE_RECIPE_PLACEHOLDERS.filter((p) => !p.only).map((p) => p.token.slice(1, -1))
+)
+
+export function validateRegionRewards(rewards: RegionRewardOverrides): string[] {
+  const errors: string[] = []
+  const { crateKeyCount, aaExperience } = rewards
+  if (crateKeyCount !== undefined && (!Number.isInteger(crateKeyCount) || crateKeyCount < 1 || crateKeyCount > MAX_CRATE_KEY_COUNT)) {
+    errors.push(`Crate keys must be a whole number from 1 to ${MAX_CRATE_KEY_COUNT}`)
+  }
+  if (aaExperience !== undefined && (!Number.isInteger(aaExperience) || aaExperience < 0)) {
+    errors.push('AA experience must be a whole number of 0 or more')
+  }
+  ;(rewards.extraCommands ?? []).forEach((command, index) => {
+    if (/^[a-z_]+:\s/.test(command)) {
+      errors.push(`Command ${index + 1}: write the console command only (no "${command.split(':')[0]}:" prefix)`)
+    }
+    for (const [, name] of command.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!DISCOVERY_PLACEHOLDERS.has(name!)) errors.push(`Command ${index + 1}: unknown placeholder {${name}}`)
+    }
+  })
+  return errors
+}
+
+/** One line per override, for region panels and build notes. */
+export function describeRegionRewards(
+  rewards: RegionRewardOverrides,
+  crateLibrary: Pick<CrateLibraryEntry, 'id' | 'name'>[] = []
+): string[] {
+  const lines: string[] = []
+  if (rewards.crateLibraryId || rewards.crateKeyCount !== undefined) {
+    const crate = rewards.crateLibraryId
+      ? (crateLibrary.find((c) => c.id === rewards.crateLibraryId)?.name ?? rewards.crateLibraryId)
+      : 'default crate'
+    lines.push(`Crate: ${crate} × ${rewards.crateKeyCount ?? 1}`)
+  }
+  for (const command of rewards.extraCommands ?? []) lines.push(`Command: ${command}`)
+  if (rewards.aaMessage) lines.push(`AA message: ${rewards.aaMessage}`)
+  if (rewards.aaExperience !== undefined) lines.push(`AA experience: ${rewards.aaExperience}`)
+  return lines
+}
+
+/** Set or clear (`null`) one region's reward overrides. */
+export function setRegionRewards(
+  profile: ServerProfile,
+  key: string,
+  rewards: RegionRewardOverrides | null
+): RegionOverrideOutcome {
+  const index = profile.regions.findIndex((r) => regionKey(r) === key)
+  if (index < 0) return { ok: false, error: `Region not found: ${key}` }
+  const normalized = normalizeRegionRewards(rewards)
+  if (normalized) {
+    const errors = validateRegionRewards(normalized)
+    if (errors.length > 0) return { ok: false, error: errors.join('\n') }
+  }
+  const region: RegionRecord = { ...profile.regions[index]! }
+  if (normalized) region.rewards = normalized
+  else delete region.rewards
+  const regions = [...profile.regions]
+  regions[index] = region
+  return { ok: true, profile: { ...profile, regions } }
+}
+
+/** Re-attach reward overrides from the previous records of `world` onto freshly imported ones. */
+export function carryRegionRewards(previous: RegionRecord[], next: RegionRecord[], world: RegionRecord['world']): void {
+  const byKey = new Map(previous.filter((r) => r.world === world && r.rewards).map((r) => [regionKey(r), r.rewards!]))
+  for (const region of next) {
+    if (region.world !== world || region.rewards) continue
+    const rewards = byKey.get(regionKey(region))
+    if (rewards) region.rewards = rewards
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import type { RegionRecord } from '../types'
+import {
+  DEFAULT_REWARD_ECONOMY,
+  describeTierDecision,
+  explainTiers,
+  explainTotalDiscoveredGoals,
+  parseTierMarkers,
+  previewRewardEconomy,
+  resolveRewardEconomy,
+  validateRewardEconomy,
+} from './rewardEconomy'
+
+function region(id: string, kind: RegionRecord['kind'], structureType?: string): RegionRecord {
+  return { world: 'overworld', id, kind, structureType, discover: { method: 'on_enter', recipeId: 'none' } }
+}
+
+describe('resolveRewardEconomy', () => {
+  it('returns the defaults when nothing is stored', () => {
+    expect(resolveRewardEconomy(undefined)).toBe(DEFAULT_REWARD_ECONOMY)
+  })
+
+  it('layers a stored document over the defaults', () => {
+    const economy = resolveRewardEconomy({
+      structures: { igloo: { xp: 1, claimBlocks: 2, setDifficulty: 3 }, ruined_portal: { xp: 5 } as never },
+      structureSetXpBase: 100,
+    })
+    expect(economy.structures.igloo).toEqual({ xp: 1, claimBlocks: 2, setDifficulty: 3 })
+    expect(economy.structures.ruined_portal).toEqual({ xp: 5, claimBlocks: 0, setDifficulty: 1 })
+    expect(economy.structures.ancient_city).toEqual(DEFAULT_REWARD_ECONOMY.structures.ancient_city)
+    expect(economy.structureSetXpBase).toBe(100)
+    expect(economy.structureSetClaimBlocksBase).toBe(20)
+    expect(economy.tierTemplates.villages_discovered).toEqual(DEFAULT_REWARD_ECONOMY.tierTemplates.villages_discovered)
+  })
+})
+
+describe('parseTierMarkers', () => {
+  it('parses counts and markers and rejects anything else', () => {
+    expect(parseTierMarkers('1, 10 , HALF, all')).toEqual({ ok: true, tiers: [1, 10, 'half', 'all'] })
+    expect(parseTierMarkers('quarter, three_quarter, percent:80')).toEqual({
+      ok: true,
+      tiers: ['quarter', 'three_quarter', 'percent:80'],
+    })
+    expect(parseTierMarkers('1, 2.5').ok).toBe(false)
+    expect(parseTierMarkers('percent:').ok).toBe(false)
+  })
+})
+
+describe('validateRewardEconomy', () => {
+  it('accepts the defaults', () => {
+    expect(validateRewardEconomy(DEFAULT_REWARD_ECONOMY)).toEqual([])
+  })
+
+  it('reports empty or duplicate tiers, bad amounts and structure type names', () => {
+    const economy = resolveRewardEconomy({
+      tierTemplates: { ...DEFAULT_REWARD_ECONOMY.tierTemplates, regions_discovered: [], hearts_discovered: [1, 1, 0] },
+      structures: { 'Bad Type': { xp: -1, claimBlocks: 1.5, setDifficulty: 0 } },
+      structuresFoundClaimBlocks: { ten: 100, milestone: Number.NaN, all: 500 },
+    })
+    expect(validateRewardEconomy(economy)).toEqual([
+      'Regions: add at least one tier',
+      'Hearts: tier 1 is listed twice',
+      'Hearts: tier "0" must be a whole number of at least 1 or a milestone marker',
+      'Structure type "Bad Type" must be lowercase snake_case',
+      'Bad Type: XP must be a whole number of 0 or more',
+      'Bad Type: claimblocks must be a whole number of 0 or more',
+      'Bad Type: set difficulty must be greater than 0',
+      'Structures found (milestone) claimblocks must be a whole number of 0 or more',
+    ])
+  })
+})
+
+describe('explainTiers', () => {
+  it('resolves quarter, three_quarter and percent milestones and explains each drop', () => {
+    const { tiers, decisions } = explainTiers(
+      { tiers: [1, 10, 20, 30, 60, 'quarter', 'half', 'three_quarter', 'percent:90', 'all'] },
+      64
+    )
+    expect(tiers).toEqual([1, 10, 16, 32, 48, 57, 64])
+    expect(decisions.filter((d) => !d.kept).map(describeTierDecision)).toEqual([
+      'tier 20 dropped: within 5 of quarter (16)',
+      'tier 30 dropped: within 5 of half (32)',
+      'tier 60 dropped: within 5 of percent:90 (57)',
+    ])
+  })
+
+  it('uses the configured collision distances', () => {
+    const { tiers, decisions } = explainTiers({ tiers: [20, 28, 'half', 'all'] }, 30, {}, {
+      milestoneThreshold: 2,
+      allThreshold: 1,
+    })
+    expect(tiers).toEqual([15, 20, 28, 30])
+    expect(decisions.every((d) => d.kept)).toBe(true)
+  })
+
+  it('reports milestones that land on the same goal', () => {
+    const { tiers, decisions } = explainTiers({ tiers: [1, 'quarter', 'half', 'percent:50', 'all'] }, 2)
+    expect(tiers).toEqual([1, 2])
+    expect(decisions.filter((d) => !d.kept).map(describeTierDecision)).toEqual([
+      'tier 1 dropped: within 5 of half (1)',
+      'quarter (0) dropped: resolves to 0',
+      'percent:50 (1) dropped: same goal as half (1)',
+    ])
+  })
+})
+
+describe('explainTotalDiscoveredGoals', () => {
+  it('bumps colliding goals and skips milestones beyond the total', () => {
+    const { goals, notes } = explainTotalDiscoveredGoals(
+      [
+        { percent: 10, title: 'A' },
+        { percent: 20, title: 'B' },
+        { percent: 25, title: 'C' },
+        { percent: 100, title: 'D' },
+      ],
+      2
+    )
+    expect(goals.map((g) => [g.percent, g.goal])).toEqual([
+      [10, 1],
+      [20, 2],
+    ])
+    expect(notes).toEqual([
+      '20% moved from 1 to 2 (same goal as the previous milestone)',
+      '25% skipped: goal 3 exceeds the total (2)',
+      '100% skipped: goal 3 exceeds the total (2)',
+    ])
+  })
+})
+
+describe('previewRewardEconomy', () => {
+  it('shows tier goals and structure rewards for the current regions', () => {
+    const regions = [
+      ...Array.from({ length: 12 }, (_, i) => region(`v${i}`, 'village')),
+      region('t1', 'structure', 'trail_ruins'),
+      region('t2', 'structure', 'trail_ruins'),
+      region('t3', 'structure', 'trail_ruins'),
+      region('t4', 'structure', 'trail_ruins'),
+      region('p1', 'structure', 'ruined_portal'),
+    ]
+    const preview = previewRewardEconomy(DEFAULT_REWARD_ECONOMY, regions)
+    expect(preview.tiers.find((t) => t.category === 'villages_discovered')).toMatchObject({
+      category: 'villages_discovered',
+      label: 'Villages',
+      total: 12,
+      // 1 and 10 sit within five of half (6) and are dropped
+      goals: [6, 12],
+    })
+    expect(preview.structures.find((s) => s.structureType === 'trail_ruins')).toEqual({
+      structureType: 'trail_ruins',
+      count: 4,
+      xp: 200,
+      claimBlocks: 25,
+      setXp: 1000,
+      setClaimBlocks: 80,
+      totalXp: 1800,
+      totalClaimBlocks: 180,
+    })
+    expect(preview.unknownStructureTypes).toEqual(['ruined_portal'])
+  })
+})
@@ -0,0 +1,488 @@
+/**
+ * Reward economy: AA tier goals and structure XP / claimblock amounts. Each server may store its
+ * own document on `profile.rewardEconomy`; anything missing falls back to the defaults below.
+ * Shared by the AA generator, the IPC handler and the Reward Economy screen (live preview).
+ */
+import type {
+  RegionRecord,
+  RewardEconomy,
+  RewardTierCategory,
+  RewardTierMarker,
+  StructureRewardValues,
+  TotalDiscoveredTier,
+} from '../types'
+import { computeRegionCounts } from '../utils/regionStats'
+
+export interface TierCalculationOptions {
+  halfRounding?: 'floor' | 'ceil'
+  preserveFixedTiers?: number[]
+}
+
+export interface RewardTierCategoryInfo {
+  category: RewardTierCategory
+  label: string
+  world: RegionRecord['world']
+  kind: 'region' | 'village' | 'heart' | 'nerve'
+  /** Nether and End categories round half up and always keep the first-discovery tier. */
+  options: TierCalculationOptions
+}
+
+const NETHER_END_TIER_OPTIONS: TierCalculationOptions = { halfRounding: 'ceil', preserveFixedTiers: [1] }
+
+export const REWARD_TIER_CATEGORIES: RewardTierCategoryInfo[] = [
+  { category: 'villages_discovered', label: 'Villages', world: 'overworld', kind: 'village', options: {} },
+  { category: 'regions_discovered', label: 'Regions', world: 'overworld', kind: 'region', options: {} },
+  { category: 'hearts_discovered', label: 'Hearts', world: 'overworld', kind: 'heart', options: {} },
+  { category: 'nerves_discovered', label: 'Nerves', world: 'overworld', kind: 'nerve', options: {} },
+  { category: 'nether_regions_discovered', label: 'Nether regions', world: 'nether', kind: 'region', options: NETHER_END_TIER_OPTIONS },
+  { category: 'nether_hearts_discovered', label: 'Nether hearts', world: 'nether', kind: 'heart', options: NETHER_END_TIER_OPTIONS },
+  { category: 'end_regions_discovered', label: 'End regions', world: 'end', kind: 'region', options: NETHER_END_TIER_OPTIONS },
+  { category: 'end_hearts_discovered', label: 'End hearts', world: 'end', kind: 'heart', options: NETHER_END_TIER_OPTIONS },
+]
+
+function structure(xp: number, claimBlocks: number, setDifficulty: number): StructureRewardValues {
+  return { xp, claimBlocks, setDifficulty }
+}
+
+export const DEFAULT_REWARD_ECONOMY: RewardEconomy = {
+  tierTemplates: {
+    // Villages: even increments of 10, plus special half and all milestones
+    villages_discovered: [1, 10, 20, 30, 40, 50, 60, 'half', 'all'],
+    regions_discovered: [2, 'half', 'all'],
+    hearts_discovered: [1, 'half', 'all'],
+    nerves_discovered: [1, 'half', 'all'],
+    nether_regions_discovered: [1, 'half', 'all'],
+    nether_hearts_discovered: [1, 'half', 'all'],
+    end_regions_discovered: [1, 'half', 'all'],
+    end_hearts_discovered: [1, 'half', 'all'],
+  },
+  structures: {
+    pillager_outpost: structure(80, 10, 1.0),
+    shipwreck: structure(80, 10, 1.0),
+    desert_pyramid: structure(100, 12, 1.1),
+    desert_well: structure(110, 13, 1.2),
+    buried_treasure: structure(130, 15, 1.35),
+    jungle_temple: structure(150, 18, 1.5),
+    ocean_ruin: structure(80, 10, 1.0),
+    igloo: structure(180, 22, 1.8),
+    trail_ruins: structure(200, 25, 2.0),
+    swamp_hut: structure(130, 15, 1.35),
+    woodland_mansion: structure(350, 35, 2.75),
+    ancient_city: structure(500, 50, 3.5),
+  },
+  structureSetXpBase: 250,
+  /** Same scaling as set XP (difficulty × √n); tuned for claimblock magnitudes */
+  structureSetClaimBlocksBase: 20,
+  structuresFoundClaimBlocks: { ten: 100, milestone: 200, all: 500 },
+  tierCollision: { milestoneThreshold: 5, allThreshold: 4 },
+  totalDiscoveredTiers: [
+    { percent: 10, title: 'Wanderer' },
+    { percent: 20, title: 'Scout' },
+    { percent: 25, title: 'Seeker' },
+    { percent: 30, title: 'Pathfinder' },
+    { percent: 40, title: 'Wayfarer' },
+    { percent: 50, title: 'Trailblazer' },
+    { percent: 60, title: 'Pioneer' },
+    { percent: 70, title: 'Outrider' },
+    { percent: 75, title: 'Vanguard' },
+    { percent: 80, title: 'Chronicler' },
+    { percent: 90, title: 'Cartographer' },
+    { percent: 100, title: 'Legend' },
+  ],
+}
+
+const PERCENT_MARKER_PATTERN = /^percent:(\d+)$/
+
+const STRUCTURE_TYPE_PATTERN = /^[a-z0-9_]+$/
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return Boolean(v) && typeof v === 'object' && !Array.isArray(v)
+}
+
+/**
+ * Stored document over the defaults: missing categories, structure types and amounts use the
+ * built-in values, so structure types added to the defaults later still get rewards.
+ */
+export function resolveRewardEconomy(stored?: Partial<RewardEconomy> | null): RewardEconomy {
+  const base = DEFAULT_REWARD_ECONOMY
+  if (!isRecord(stored)) return base
+  const tierTemplates = { ...base.tierTemplates }
+  for (const { category } of REWARD_TIER_CATEGORIES) {
+    const tiers = stored.tierTemplates?.[category]
+    if (Array.isArray(tiers)) tierTemplates[category] = tiers
+  }
+  const structures: Record<string, StructureRewardValues> = {}
+  for (const [type, values] of Object.entries(base.structures)) structures[type] = { ...values }
+  if (isRecord(stored.structures)) {
+    for (const [type, values] of Object.entries(stored.structures)) {
+      if (isRecord(values)) structures[type] = { ...(structures[type] ?? structure(0, 0, 1)), ...values }
+    }
+  }
+  const num = (v: unknown, fallback: number) => (typeof v === 'number' ? v : fallback)
+  const totalDiscoveredTiers = Array.isArray(stored.totalDiscoveredTiers)
+    ? stored.totalDiscoveredTiers.map((t) => ({ ...t }))
+    : base.totalDiscoveredTiers
+  return {
+    tierTemplates,
+    structures,
+    structureSetXpBase: num(stored.structureSetXpBase, base.structureSetXpBase),
+    structureSetClaimBlocksBase: num(stored.structureSetClaimBlocksBase, base.structureSetClaimBlocksBase),
+    structuresFoundClaimBlocks: {
+      ten: num(stored.structuresFoundClaimBlocks?.ten, base.structuresFoundClaimBlocks.ten),
+      milestone: num(stored.structuresFoundClaimBlocks?.milestone, base.structuresFoundClaimBlocks.milestone),
+      all: num(stored.structuresFoundClaimBlocks?.all, base.structuresFoundClaimBlocks.all),
+    },
+    tierCollision: {
+      milestoneThreshold: num(stored.tierCollision?.milestoneThreshold, base.tierCollision.milestoneThreshold),
+      allThreshold: num(stored.tierCollision?.allThreshold, base.tierCollision.allThreshold),
+    },
+    totalDiscoveredTiers,
+  }
+}
+
+/** Share of the total a milestone marker stands for; null for fixed counts. */
+export function tierMarkerPercent(marker: RewardTierMarker): number | null {
+  if (typeof marker === 'number') return null
+  if (marker === 'quarter') return 25
+  if (marker === 'half') return 50
+  if (marker === 'three_quarter') return 75
+  if (marker === 'all') return 100
+  const match = PERCENT_MARKER_PATTERN.exec(marker)
+  return match ? Number(match[1]) : null
+}
+
+/** Parse `1, 10, quarter, half, percent:80, all` into tier markers. */
+export function parseTierMarkers(text: string): { ok: true; tiers: RewardTierMarker[] } | { ok: false; error: string } {
+  const tiers: RewardTierMarker[] = []
+  for (const part of text.split(',').map((p) => p.trim().toLowerCase()).filter(Boolean)) {
+    if (part === 'quarter' || part === 'half' || part === 'three_quarter' || part === 'all') {
+      tiers.push(part)
+    } else if (/^\d+$/.test(part)) {
+      tiers.push(Number(part))
+    } else if (PERCENT_MARKER_PATTERN.test(part)) {
+      tiers.push(part as RewardTierMarker)
+    } else {
+      return { ok: false, error: `"${part}" is not a whole number, quarter, half, three_quarter, percent:N or all` }
+    }
+  }
+  return { ok: true, tiers }
+}
+
+export function formatTierMarkers(tiers: RewardTierMarker[]): string {
+  return tiers.join(', ')
+}
+
+function isWholeNumber(v: unknown, min: number): boolean {
+  return typeof v === 'number' && Number.isInteger(v) && v >= min
+}
+
+/** Problems that would produce broken or meaningless AA rewards; empty when the document is usable. */
+export function validateRewardEconomy(economy: RewardEconomy): string[] {
+  const errors: string[] = []
+  for (const { category, label } of REWARD_TIER_CATEGORIES) {
+    const tiers = economy.tierTemplates?.[category]
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+      errors.push(`${label}: add at least one tier`)
+      continue
+    }
+    const seen = new Set<RewardTierMarker>()
+    for (const tier of tiers) {
+      const percent = tierMarkerPercent(tier)
+      if (typeof tier === 'number' ? !isWholeNumber(tier, 1) : percent === null) {
+        errors.push(`${label}: tier "${String(tier)}" must be a whole number of at least 1 or a milestone marker`)
+      } else if (percent !== null && (percent < 1 || percent > 100)) {
+        errors.push(`${label}: ${tier} must be between percent:1 and percent:100`)
+      } else if (seen.has(tier)) {
+        errors.push(`${label}: tier ${tier} is listed twice`)
+      }
+      seen.add(tier)
+    }
+  }
+  for (const [type, values] of Object.entries(economy.structures ?? {})) {
+    if (!STRUCTURE_TYPE_PATTERN.test(type)) {
+      errors.push(`Structure type "${type}" must be lowercase snake_case`)
+    }
+    if (!isWholeNumber(values.xp, 0)) errors.push(`${type}: XP must be a whole number of 0 or more`)
+    if (!isWholeNumber(values.claimBlocks, 0)) errors.push(`${type}: claimblocks must be a whole number of 0 or more`)
+    if (typeof values.setDifficulty !== 'number' || !(values.setDifficulty > 0) || !Number.isFinite(values.setDifficulty)) {
+      errors.push(`${type}: set difficulty must be greater than 0`)
+    }
+  }
+  if (!isWholeNumber(economy.structureSetXpBase, 0)) errors.push('Set XP base must be a whole number of 0 or more')
+  if (!isWholeNumber(economy.structureSetClaimBlocksBase, 0)) {
+    errors.push('Set claimblocks base must be a whole number of 0 or more')
+  }
+  for (const key of ['ten', 'milestone', 'all'] as const) {
+    if (!isWholeNumber(economy.structuresFoundClaimBlocks?.[key], 0)) {
+      errors.push(`Structures found (${key}) claimblocks must be a whole number of 0 or more`)
+    }
+  }
+  if (!isWholeNumber(economy.tierCollision?.milestoneThreshold, 0)) {
+    errors.push('Milestone collision distance must be a whole number of 0 or more')
+  }
+  if (!isWholeNumber(economy.tierCollision?.allThreshold, 0)) {
+    errors.push('All collision distance must be a whole number of 0 or more')
+  }
+  const totalTiers = economy.totalDiscoveredTiers ?? []
+  if (totalTiers.length === 0) errors.push('Total discovered: add at least one milestone')
+  totalTiers.forEach((tier, i) => {
+    if (!isWholeNumber(tier.percent, 1) || tier.percent > 100) {
+      errors.push(`Total discovered: ${String(tier.percent)}% must be a whole number from 1 to 100`)
+    } else if (i > 0 && !(tier.percent > totalTiers[i - 1].percent)) {
+      errors.push(`Total discovered: ${tier.percent}% must be higher than the milestone before it`)
+    }
+    if (!tier.title?.trim()) errors.push(`Total discovered: ${String(tier.percent)}% needs a title`)
+  })
+  return errors
+}
+
+export interface TierDecision {
+  marker: RewardTierMarker
+  /** Goal the marker resolved to for this total. */
+  value: number
+  kept: boolean
+  /** Why a dropped tier was dropped. */
+  reason?: string
+}
+
+function markerLabel(marker: RewardTierMarker): string {
+  return typeof marker === 'number' ? `tier ${marker}` : marker
+}
+
+/** e.g. `tier 20 dropped: within 5 of half (21)`. */
+export function describeTierDecision(decision: TierDecision): string {
+  const target = typeof decision.marker === 'number' ? markerLabel(decision.marker) : `${decision.marker} (${decision.value})`
+  return decision.kept ? `${target} kept` : `${target} dropped: ${decision.reason}`
+}
+
+/**
+ * Resolve a template against a total and record why each marker was kept or dropped.
+ * Rules:
+ * 1. Milestones resolve to their share of the total (floor, or ceil with `halfRounding: 'ceil'`)
+ * 2. Drop any fixed tier >= total
+ * 3. Drop fixed tier if within `milestoneThreshold` of a quarter / half / three-quarter / percent
+ *    milestone (avoids e.g. 20 and 21 back-to-back), unless listed in `preserveFixedTiers`
+ * 4. Drop highest remaining fixed tier if within `allThreshold` of total
+ * 5. Goals of 0 and repeated goals are dropped (first marker wins)
+ */
+export function explainTiers(
+  template: { tiers: RewardTierMarker[] },
+  total: number,
+  options: TierCalculationOptions = {},
+  thresholds: RewardEconomy['tierCollision'] = DEFAULT_REWARD_ECONOMY.tierCollision
+): { tiers: number[]; decisions: TierDecision[] } {
+  if (total <= 0) return { tiers: [], decisions: [] }
+
+  const round = (options.halfRounding ?? 'floor') === 'ceil' ? Math.ceil : Math.floor
+  const decisions: TierDecision[] = template.tiers.map((marker) => {
+    const percent = tierMarkerPercent(marker)
+    const value = typeof marker === 'number' ? marker : round((total * (percent ?? 0)) / 100)
+    return { marker, value, kept: true }
+  })
+  const drop = (d: TierDecision, reason: string) => {
+    d.kept = false
+    d.reason = reason
+  }
+  const isFixed = (d: TierDecision) => typeof d.marker === 'number'
+  const milestones = decisions.filter((d) => !isFixed(d) && d.marker !== 'all' && d.value > 0)
+
+  for (const d of decisions) {
+    if (!isFixed(d)) continue
+    if (d.value >= total) {
+      drop(d, `at or above the total (${total})`)
+      continue
+    }
+    if (options.preserveFixedTiers?.includes(d.value)) continue
+    const near = milestones.find((m) => Math.abs(d.value - m.value) <= thresholds.milestoneThreshold)
+    if (near) {
+      drop(d, `within ${thresholds.milestoneThreshold} of ${markerLabel(near.marker)} (${near.value})`)
+    }
+  }
+
+  const fixedKept = decisions.filter((d) => isFixed(d) && d.kept)
+  if (fixedKept.length > 0) {
+    const highest = fixedKept.reduce((a, b) => (b.value > a.value ? b : a))
+    if (total - highest.value <= thresholds.allThreshold) {
+      drop(highest, `within ${thresholds.allThreshold} of all (${total})`)
+    }
+  }
+
+  const byValue = new Map<number, TierDecision>()
+  for (const d of decisions) {
+    if (!d.kept) continue
+    if (d.value <= 0) {
+      drop(d, 'resolves to 0')
+      continue
+    }
+    const first = byValue.get(d.value)
+    if (first) {
+      drop(d, `same goal as ${markerLabel(first.marker)} (${d.value})`)
+      continue
+    }
+    byValue.set(d.value, d)
+  }
+
+  return { tiers: [...byValue.keys()].sort((a, b) => a - b), decisions }
+}
+
+/** Tier goals for a template and total (see `explainTiers` for the rules). */
+export function calculateTiers(
+  template: { tiers: RewardTierMarker[] },
+  total: number,
+  options: TierCalculationOptions = {},
+  thresholds: RewardEconomy['tierCollision'] = DEFAULT_REWARD_ECONOMY.tierCollision
+): number[] {
+  return explainTiers(template, total, options, thresholds).tiers
+}
+
+export interface TotalDiscoveredGoal extends TotalDiscoveredTier {
+  goal: number
+}
+
+/**
+ * Goals for Custom.total_discovered: ceil(total × percent), at least one more than the previous
+ * goal; milestones whose goal would exceed the total are skipped.
+ */
+export function explainTotalDiscoveredGoals(
+  tiers: TotalDiscoveredTier[],
+  explorationTotal: number
+): { goals: TotalDiscoveredGoal[]; notes: string[] } {
+  const goals: TotalDiscoveredGoal[] = []
+  const notes: string[] = []
+  if (explorationTotal <= 0) return { goals, notes }
+  let lastGoal = 0
+  for (const tier of tiers) {
+    const natural = Math.max(1, Math.ceil((explorationTotal * tier.percent) / 100))
+    const goal = natural <= lastGoal ? lastGoal + 1 : natural
+    if (goal > explorationTotal) {
+      notes.push(`${tier.percent}% skipped: goal ${goal} exceeds the total (${explorationTotal})`)
+      continue
+    }
+    if (goal !== natural) notes.push(`${tier.percent}% moved from ${natural} to ${goal} (same goal as the previous milestone)`)
+    goals.push({ ...tier, goal })
+    lastGoal = goal
+  }
+  return { goals, notes }
+}
+
+function getStructureSetDifficulty(economy: RewardEconomy, structureType: string): number {
+  const values = economy.structures[structureType]
+  if (!values) {
+    throw new Error(`Unknown structure type: ${structureType}`)
+  }
+  return values.setDifficulty
+}
+
+/** "All found" XP for a family of `quantity` sites: base × difficulty × √quantity. */
+export function calculateStructureSetXP(economy: RewardEconomy, structureType: string, quantity: number): number {
+  if (quantity <= 0) return 0
+  const difficulty = getStructureSetDifficulty(economy, structureType)
+  return Math.round(economy.structureSetXpBase * difficulty * Math.sqrt(quantity))
+}
+
+export function calculateStructureSetClaimBlocks(economy: RewardEconomy, structureType: string, quantity: number): number {
+  if (quantity <= 0) return 0
+  const difficulty = getStructureSetDifficulty(economy, structureType)
+  return Math.round(economy.structureSetClaimBlocksBase * difficulty * Math.sqrt(quantity))
+}
+
+/** Region totals per tier category (same filters the AA generator counts with). */
+export function countTierCategoryTotals(regions: RegionRecord[]): Record<RewardTierCategory, number> {
+  const totals = {} as Record<RewardTierCategory, number>
+  for (const { category, world, kind } of REWARD_TIER_CATEGORIES) {
+    totals[category] = regions.filter((r) => r.world === world && r.kind === kind).length
+  }
+  return totals
+}
+
+/** Enabled structure sites per structureType. */
+export function countStructuresByType(regions: RegionRecord[]): Record<string, number> {
+  const byType: Record<string, number> = {}
+  for (const r of regions) {
+    if (r.kind !== 'structure' || r.discover.method === 'disabled') continue
+    const t = r.structureType
+    if (!t) continue
+    byType[t] = (byType[t] ?? 0) + 1
+  }
+  return byType
+}
+
+export interface RewardTierPreviewRow {
+  category: RewardTierCategory
+  label: string
+  total: number
+  goals: number[]
+  /** Dropped markers only. */
+  dropped: TierDecision[]
+}
+
+export interface RewardStructurePreviewRow {
+  structureType: string
+  count: number
+  xp: number
+  claimBlocks: number
+  /** Set reward at the server's current count (0 when it has none). */
+  setXp: number
+  setClaimBlocks: number
+  /** Every discovery plus the set reward. */
+  totalXp: number
+  totalClaimBlocks: number
+}
+
+export interface RewardEconomyPreview {
+  tiers: RewardTierPreviewRow[]
+  totalDiscovered: { total: number; goals: TotalDiscoveredGoal[]; notes: string[] }
+  structures: RewardStructurePreviewRow[]
+  /** Structure types present in regions with no reward entry (their set reward cannot be built). */
+  unknownStructureTypes: string[]
+}
+
+/** What the AA generator would emit for `regions` under `economy`. */
+export function previewRewardEconomy(economy: RewardEconomy, regions: RegionRecord[]): RewardEconomyPreview {
+  const totals = countTierCategoryTotals(regions)
+  const tiers = REWARD_TIER_CATEGORIES.map(({ category, label, options }) => {
+    const explained = explainTiers(
+      { tiers: economy.tierTemplates[category] },
+      totals[category],
+      options,
+      economy.tierCollision
+    )
+    return {
+      category,
+      label,
+      total: totals[category],
+      goals: explained.tiers,
+      dropped: explained.decisions.filter((d) => !d.kept),
+    }
+  })
+  const explorationTotal = computeRegionCounts(regions).total
+  const totalDiscovered = {
+    total: explorationTotal,
+    ...explainTotalDiscoveredGoals(economy.totalDiscoveredTiers, explorationTotal),
+  }
+
+  const counts = countStructuresByType(regions)
+  const structures = Object.keys(economy.structures)
+    .sort()
+    .map((structureType) => {
+      const { xp, claimBlocks } = economy.structures[structureType]
+      const count = counts[structureType] ?? 0
+      const setXp = calculateStructureSetXP(economy, structureType, count)
+      const setClaimBlocks = calculateStructureSetClaimBlocks(economy, structureType, count)
+      return {
+        structureType,
+        count,
+        xp,
+        claimBlocks,
+        setXp,
+        setClaimBlocks,
+        totalXp: xp * count + setXp,
+        totalClaimBlocks: claimBlocks * count + setClaimBlocks,
+      }
+    })
+
+  const unknownStructureTypes = Object.keys(counts)
+    .filter((t) => !(t in economy.structures))
+    .sort()
+  return { tiers, totalDiscovered, structures, unknownStructureTypes }
+}
@@ -28,6 +28,32 @@ export function snakeToTitleCase(str: string): string {
     .join(' ')
 }
 
+/**
+ * Generate AA command ID from region ID
+ * Pattern: discover + PascalCase(regionId)
+ *
+ * Special rules:
+ * - Hearts: Capitalize all words including "of" (heart_of_warriotos -> discoverHeartOfWarriotos)
+ * - Nether regions with "of": "of" stays lowercase in the middle
+ *   (ebon_of_wither -> discoverEbonofWither)
+ */
+export function generateCommandId(regionId: string): string {
+  const parts = splitRegionIdWords(regionId)
+
+  const capitalizeOfInId = regionId.startsWith('heart_of_') || regionId.startsWith('nerve_of_')
+
+  const convertedParts = parts.map((part, index) => {
+    if (!capitalizeOfInId && index > 0 && part.toLowerCase() === 'of') {
+      return 'of'
+    }
+    // Capitalize first letter, lowercase rest (this will capitalize "Of" in hearts)
+    return part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()
+  })
+
+  const pascalCase = convertedParts.join('')
+  return 'discover' + pascalCase
+}
+
 /**
  * Format region ID for display (same logic as snakeToTitleCase for region IDs).
  */
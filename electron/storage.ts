@@ -1,15 +1,79 @@
-const { app } = require('electron')
-const { join } = require('path')
-const { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync, rmSync } = require('fs')
-
-import type { ServerProfile, BuildReport, BuildListItem, ComparePreset } from './types'
+const { join, dirname } = require('path')
+const { homedir } = require('os')
+const { existsSync, mkdirSync, readFileSync, readdirSync, rmSync } = require('fs')
+
+import type {
+  ServerProfile,
+  BuildReport,
+  BuildListItem,
+  ComparePreset,
+  ServerProfileLoadProblem,
+  ServerProfileRecoveryResult,
+  StoredDocumentLoadProblem,
+  StoredDocumentRecoveryResult,
+} from './types'
 import { toBuildListItem } from './utils/buildSummary'
+import { getElectronApp } from './utils/electronApp'
+import {
+  loadVersionedJsonFile,
+  migrateDocument,
+  CURRENT_SCHEMA_VERSIONS,
+  NewerSchemaVersionError,
+} from './utils/schemaMigrations'
+import type { SchemaDocumentKind } from './utils/schemaMigrations'
+import { writeFileAtomicSync, writeFileWithBackupSync, listFileBackups } from './utils/atomicFile'
+import type { FileBackup } from './utils/atomicFile'
 
 const DATA_DIR_NAME = 'mc-plugin-manager-data'
 
+/**
+ * userData folder names Electron uses for this app: the packaged build's `productName`, then
+ * package.json `name` (what `app.getName()` returns in dev).
+ */
+const USER_DATA_FOLDER_NAMES = ['MC Plugin Manager', 'mc-plugin-manager']
+
+/** Rolling timestamped copies kept per JSON file, in a `backups/` folder next to it. */
+export const MAX_FILE_BACKUPS = 10
+
+let dataDirectoryOverride: string | null = null
+
+/**
+ * Use an explicit data directory instead of `<userData>/mc-plugin-manager-data`
+ * (headless CLI). Pass null to go back to the default.
+ */
+export function setDataDirectory(dir: string | null): void {
+  dataDirectoryOverride = dir && dir.trim().length > 0 ? dir : null
+}
+
+function userDataPathFor(folderName: string): string {
+  const home = homedir()
+  if (process.platform === 'win32') {
+    return join(process.env.APPDATA || join(home, 'AppData', 'Roaming'), folderName)
+  }
+  if (process.platform === 'darwin') {
+    return join(home, 'Library', 'Application Support', folderName)
+  }
+  return join(process.env.XDG_CONFIG_HOME || join(home, '.config'), folderName)
+}
+
+/**
+ * Same location Electron reports for `app.getPath('userData')`, computed without Electron: the
+ * packaged app's folder, or the dev folder when only that one holds data.
+ */
+export function getDefaultUserDataPath(): string {
+  const candidates = USER_DATA_FOLDER_NAMES.map(userDataPathFor)
+  return candidates.find((dir) => existsSync(join(dir, DATA_DIR_NAME))) ?? candidates[0]
+}
+
 export function getDataDirectory(): string {
-  const userDataPath = app.getPath('userData')
-  return join(userDataPath, DATA_DIR_NAME)
+  if (dataDirectoryOverride) {
+    return dataDirectoryOverride
+  }
+  const app = getElectronApp()
+  if (!app) {
+    throw new Error('Data directory not set: call setDataDirectory() when running outside Electron')
+  }
+  return join(app.getPath('userData'), DATA_DIR_NAME)
 }
 
 export function getServersDirectory(): string {
@@ -24,6 +88,15 @@ export function getServerProfilePath(serverId: string): string {
   return join(getServerDirectory(serverId), 'profile.json')
 }
 
+export function getBackupDirectoryFor(filePath: string): string {
+  return join(dirname(filePath), 'backups')
+}
+
+/** Atomic JSON write that first keeps a timestamped copy of the previous file. */
+export function writeJsonWithBackup(filePath: string, data: unknown): void {
+  writeFileWithBackupSync(filePath, JSON.stringify(data, null, 2), getBackupDirectoryFor(filePath), MAX_FILE_BACKUPS)
+}
+
 export async function initDataDirectory(): Promise<void> {
   const dataDir = getDataDirectory()
   const serversDir = getServersDirectory()
@@ -81,10 +154,12 @@ export function loadServerProfile(serverId: string): ServerProfile | null {
   }
 
   try {
-    const content = readFileSync(profilePath, 'utf-8')
-    const profile = JSON.parse(content) as ServerProfile
-    normalizeDropTablesOnProfile(profile)
-    normalizeCrazyCratesOnProfile(profile)
+    const profile = loadVersionedJsonFile('profile', profilePath) as ServerProfile | null
+    // Migration only runs on older files; keep assignment lists clean on every load.
+    if (profile) {
+      normalizeDropTablesOnProfile(profile)
+      normalizeCrazyCratesOnProfile(profile)
+    }
     return profile
   } catch (error) {
     console.error(`Failed to load server profile ${serverId}:`, error)
@@ -99,7 +174,91 @@ export function saveServerProfile(profile: ServerProfile): void {
   }
 
   const profilePath = getServerProfilePath(profile.id)
-  writeFileSync(profilePath, JSON.stringify(profile, null, 2), 'utf-8')
+  const { schemaVersion: _schemaVersion, ...rest } = profile
+  const payload = { schemaVersion: CURRENT_SCHEMA_VERSIONS.profile, ...rest }
+  writeJsonWithBackup(profilePath, payload)
+}
+
+function isRestorableBackup(
+  kind: SchemaDocumentKind,
+  path: string,
+  isUsable: (data: Record<string, unknown>) => boolean
+): boolean {
+  try {
+    const migrated = migrateDocument(kind, JSON.parse(readFileSync(path, 'utf-8')))
+    return migrated.ok && isUsable(migrated.data)
+  } catch {
+    return false
+  }
+}
+
+function newestRestorableBackup(
+  kind: SchemaDocumentKind,
+  filePath: string,
+  isUsable: (data: Record<string, unknown>) => boolean
+): FileBackup | undefined {
+  return listFileBackups(filePath, getBackupDirectoryFor(filePath)).find((b) =>
+    isRestorableBackup(kind, b.path, isUsable)
+  )
+}
+
+/**
+ * Why an existing versioned JSON file does not load, and the newest backup that parses and passes
+ * `isUsable`. Files from a newer app version are not offered for recovery (the backup would be older).
+ */
+export function diagnoseStoredDocument(
+  kind: SchemaDocumentKind,
+  filePath: string,
+  isUsable: (data: Record<string, unknown>) => boolean
+): StoredDocumentLoadProblem | null {
+  if (!existsSync(filePath)) return null
+  try {
+    loadVersionedJsonFile(kind, filePath)
+    return null
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (error instanceof NewerSchemaVersionError) {
+      return { error: message, recoverable: false }
+    }
+    const backup = newestRestorableBackup(kind, filePath, isUsable)
+    return backup
+      ? { error: message, recoverable: true, backupSavedAtIso: backup.savedAtIso }
+      : { error: message, recoverable: false }
+  }
+}
+
+/**
+ * Replace an unreadable versioned JSON file with its newest valid backup. The broken file is kept
+ * as `<file>.corrupt-<timestamp>` next to it.
+ */
+export function recoverStoredDocument(
+  kind: SchemaDocumentKind,
+  filePath: string,
+  isUsable: (data: Record<string, unknown>) => boolean
+): StoredDocumentRecoveryResult {
+  const problem = diagnoseStoredDocument(kind, filePath, isUsable)
+  if (!problem) return { success: false, error: 'File loads normally; nothing to recover' }
+  if (!problem.recoverable) return { success: false, error: problem.error }
+  const backup = newestRestorableBackup(kind, filePath, isUsable)
+  if (!backup) return { success: false, error: 'No valid backup found' }
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  writeFileAtomicSync(`${filePath}.corrupt-${stamp}`, readFileSync(filePath, 'utf-8'))
+  writeFileAtomicSync(filePath, readFileSync(backup.path, 'utf-8'))
+  return { success: true, restoredFromIso: backup.savedAtIso }
+}
+
+function isUsableProfile(data: Record<string, unknown>): boolean {
+  return typeof data.id === 'string' && Array.isArray(data.regions)
+}
+
+/** Why `loadServerProfile` returns null for an existing profile.json, and the newest backup that parses. */
+export function diagnoseServerProfile(serverId: string): ServerProfileLoadProblem | null {
+  return diagnoseStoredDocument('profile', getServerProfilePath(serverId), isUsableProfile)
+}
+
+/** Replace an unreadable profile.json with its newest valid backup (see `recoverStoredDocument`). */
+export function recoverServerProfile(serverId: string): ServerProfileRecoveryResult {
+  return recoverStoredDocument('profile', getServerProfilePath(serverId), isUsableProfile)
 }
 
 export function deleteServer(serverId: string): void {
@@ -148,9 +307,9 @@ export function ensureBuildDirectory(serverId: string, buildId: string): string
 }
 
 export function saveBuildReport(serverId: string, buildId: string, report: BuildReport): void {
-  const buildDir = ensureBuildDirectory(serverId, buildId)
+  ensureBuildDirectory(serverId, buildId)
   const reportPath = getBuildReportPath(serverId, buildId)
-  writeFileSync(reportPath, JSON.stringify(report, null, 2), 'utf-8')
+  writeFileAtomicSync(reportPath, JSON.stringify(report, null, 2))
 }
 
 export function loadBuildReport(serverId: string, buildId: string): BuildReport | null {
@@ -204,8 +363,7 @@ export function saveComparePresets(presets: ComparePreset[]): void {
   if (!existsSync(dataDir)) {
     mkdirSync(dataDir, { recursive: true })
   }
-  const p = getComparePresetsPath()
-  writeFileSync(p, JSON.stringify(presets, null, 2), 'utf-8')
+  writeJsonWithBackup(getComparePresetsPath(), presets)
 }
 
 export function listBuildIds(serverId: string): string[] {
@@ -228,13 +386,21 @@ export function listBuildSummaries(serverId: string): BuildListItem[] {
 }
 
 module.exports = {
+  setDataDirectory,
+  getDefaultUserDataPath,
   getDataDirectory,
   getServersDirectory,
   getServerDirectory,
   getServerProfilePath,
   initDataDirectory,
+  getBackupDirectoryFor,
+  writeJsonWithBackup,
   loadServerProfile,
   saveServerProfile,
+  diagnoseServerProfile,
+  recoverServerProfile,
+  diagnoseStoredDocument,
+  recoverStoredDocument,
   deleteServer,
   listServerIds,
   getBuildsDirectory,
@@ -3,7 +3,7 @@ import { computeRegionCounts, generateOwnedTABSections } from './tabGenerator'
 
 function region(
   kind: 'system' | 'region' | 'village' | 'heart',
-  world: 'overworld' | 'nether' = 'overworld',
+  world: 'overworld' | 'nether' | 'end' = 'overworld',
   method: 'disabled' | 'on_enter' | 'first_join' = 'on_enter'
 ) {
   return {
@@ -39,6 +39,8 @@ describe('computeRegionCounts', () => {
       overworldNerves: 0,
       netherRegions: 0,
       netherHearts: 0,
+      endRegions: 0,
+      endHearts: 0,
       villages: 0,
       total: 0,
     })
@@ -109,6 +111,18 @@ describe('scoreboard discovery totals', () => {
     const lines = owned.scoreboards['main-nether'].lines as string[]
     expect(lines.some((l) => l.includes('Nether Total') && l.includes('/2*100'))).toBe(true)
   })
+
+  it('adds an End scoreboard shown in world_the_end', () => {
+    const regions = [region('region', 'end'), region('region', 'end'), region('heart', 'end')]
+    const owned = generateOwnedTABSections(regions, 'Srv')
+    expect(owned.scoreboards['main-overworld']).toBeUndefined()
+    const end = owned.scoreboards['main-end']
+    expect(end['display-condition']).toContain('%world%=world_the_end')
+    const lines = end.lines as string[]
+    expect(lines).toContain('&eDiscovered&7:||%aach_custom_end_regions_discovered%/2')
+    expect(lines).toContain('&eDiscovered&7:||%aach_custom_end_hearts_discovered%/1')
+    expect(lines.some((l) => l.includes('End Total') && l.includes('/3*100'))).toBe(true)
+  })
 })
 
 describe('structures TAB section', () => {
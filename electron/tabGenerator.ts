@@ -3,6 +3,8 @@ const yaml = require('yaml')
 import type { RegionRecord } from './types'
 import { computeRegionCounts } from './utils/regionStats'
 import type { RegionCounts } from './utils/regionStats'
+import { assertOwnedKey, stripOwnedForMerge } from './shared/ownershipManifest'
+import { TAB_OWNERSHIP } from './shared/ownershipManifests'
 
 export { computeRegionCounts }
 
@@ -106,7 +108,7 @@ const VILLAGE_NAME_WITH_STRUCTURE_GUARD: Record<string, unknown> = {
 }
 
 /**
- * Build map of difficulty -> list of main region IDs (overworld + nether only).
+ * Build map of difficulty -> list of main region IDs (overworld + nether + end).
  * Only includes regions with kind === 'region' or kind === 'water' that appear in regionBands.
  */
 function buildDifficultyRegionIds(
@@ -128,7 +130,7 @@ function buildDifficultyRegionIds(
       .filter(
         (r) =>
           (r.kind === 'region' || r.kind === 'water') &&
-          (r.world === 'overworld' || r.world === 'nether')
+          (r.world === 'overworld' || r.world === 'nether' || r.world === 'end')
       )
       .map((r) => r.id)
   )
@@ -302,6 +304,40 @@ function generateNetherScoreboard(
   }
 }
 
+/**
+ * Generate End scoreboard section
+ */
+function generateEndScoreboard(
+  serverName: string,
+  counts: RegionCounts,
+  useDifficultyColour: boolean
+): any {
+  const currentRegionLine = useDifficultyColour
+    ? REGION_CURRENT_LINE_WITH_DIFFICULTY
+    : '&eCurrent&7:||%condition:region-name%'
+  const endDiscoveryTotal = counts.endRegions + counts.endHearts
+  const endTotalLine =
+    endDiscoveryTotal > 0
+      ? `&eEnd Total&7:||%math_0_round(({aach_custom_end_regions_discovered}+{aach_custom_end_hearts_discovered})/${endDiscoveryTotal}*100,0)%%`
+      : null
+  return {
+    title: `<#E0B11E>${serverName}</#FF0000>`,
+    'display-condition': '%player-version-id%>=765;%bedrock%=false;%world%=world_the_end',
+    lines: [
+      '%animation:MyAnimation1%',
+      '&bEnd Regions',
+      currentRegionLine,
+      `&eDiscovered&7:||%aach_custom_end_regions_discovered%/${counts.endRegions}`,
+      '',
+      '&bEnd Region Hearts',
+      `&eDiscovered&7:||%aach_custom_end_hearts_discovered%/${counts.endHearts}`,
+      ...(endTotalLine ? ['', endTotalLine] : []),
+      '%animation:MyAnimation1%',
+      '&2🧭 %player_direction%||&7%player_x% %player_y% %player_z%',
+    ],
+  }
+}
+
 /**
  * Generate top explorers conditions
  */
@@ -413,6 +449,9 @@ export function generateOwnedTABSections(
       useDifficultyColour
     )
   }
+  if (counts.endRegions > 0 || counts.endHearts > 0) {
+    scoreboards['main-end'] = generateEndScoreboard(serverName, counts, useDifficultyColour)
+  }
 
   // Generate top explorers conditions
   const topExplorersConditions = generateTopExplorersConditions(counts.total)
@@ -431,37 +470,6 @@ export function generateOwnedTABSections(
   }
 }
 
-/**
- * Check if a condition key is owned (generated)
- */
-function isOwnedConditionKey(key: string): boolean {
-  return (
-    key === 'top-explorers-title' ||
-    key === 'top-explorer-1' ||
-    key === 'top-explorer-2' ||
-    key === 'top-explorer-3' ||
-    key === 'top-explorer-4' ||
-    key === 'top-explorer-5' ||
-    key === 'region-name-easy' ||
-    key === 'region-name-normal' ||
-    key === 'region-name-hard' ||
-    key === 'region-name-severe' ||
-    key === 'region-name-deadly'
-  )
-}
-
-/**
- * Check if a scoreboard key is owned (generated)
- */
-function isOwnedScoreboardKey(key: string): boolean {
-  return (
-    key === 'main-overworld' ||
-    key === 'structures-overworld' ||
-    key === 'main-nether' ||
-    key === 'scoreboard-end'
-  )
-}
-
 /**
  * Merge owned TAB sections into existing TAB config
  */
@@ -477,18 +485,14 @@ export function mergeTABConfig(
 ): string {
   const fs = require('fs')
   const content = fs.readFileSync(existingConfigPath, 'utf-8')
-  const config = yaml.parse(content) || {}
+  // Drops the template's owned keys and fills in the manifest's static conditions
+  const config = stripOwnedForMerge(TAB_OWNERSHIP, yaml.parse(content) || {})
 
   // Merge header-footer (TAB 5.x: designs.default.header / footer)
   if (!config['header-footer']) {
     config['header-footer'] = { enabled: true }
   }
   const headerFooter = config['header-footer'] as Record<string, unknown>
-  delete headerFooter.header
-  delete headerFooter.footer
-  delete headerFooter['disable-condition']
-  delete headerFooter['per-world']
-  delete headerFooter['per-server']
   if (!headerFooter.designs || typeof headerFooter.designs !== 'object') {
     headerFooter.designs = {}
   }
@@ -516,12 +520,6 @@ export function mergeTABConfig(
   } else {
     config.scoreboard.enabled = true
   }
-  const scoreboardRoot = config.scoreboard as Record<string, unknown>
-  delete scoreboardRoot['use-numbers']
-  delete scoreboardRoot['static-number']
-  if (!config.scoreboard.scoreboards) {
-    config.scoreboard.scoreboards = {}
-  }
 
   // Replace scoreboards entirely with only generated ones (remove all non-owned scoreboards)
   const mergedScoreboards: Record<string, any> = {}
@@ -531,75 +529,20 @@ export function mergeTABConfig(
   }
   config.scoreboard.scoreboards = mergedScoreboards
 
-  // Merge conditions
-  if (!config.conditions) {
-    config.conditions = {}
-  }
-
-  // Remove owned conditions first
-  const preservedConditions: Record<string, any> = {}
-  for (const [key, value] of Object.entries(config.conditions)) {
-    if (!isOwnedConditionKey(key)) {
-      preservedConditions[key] = value
-    }
-  }
-
-  if (ownedSections.structureConditions) {
-    delete preservedConditions['structure-name']
-    delete preservedConditions['village-name']
-  }
-
-  // Ensure static conditions are present (add from reference if missing)
-  const staticConditions = {
-    'region-name': {
-      conditions: ["%worldguard_region_name_2%!="],
-      type: 'AND',
-      true: '%capitalize_pascal-case-forced_{worldguard_region_name_2}%',
-      false: '%capitalize_pascal-case-forced_{worldguard_region_name_1}%',
-    },
-    'village-name': {
-      conditions: [
-        '%worldguard_region_name_2%!=',
-        '%worldguard_region_name_1%!=%worldguard_region_name_2%',
-        '%worldguard_region_name_1%!=spawn',
-      ],
-      type: 'AND',
-      true: '%condition:heart-region%',
-      false: '-',
-    },
-    'heart-region': {
-      conditions: ["%worldguard_region_name_1%|-heart"],
-      true: '-',
-      false: '%capitalize_pascal-case-forced_{worldguard_region_name_1}%',
-    },
-  }
-
-  // Add static conditions if missing
-  for (const [key, value] of Object.entries(staticConditions)) {
-    if (!preservedConditions[key]) {
-      preservedConditions[key] = value
-    }
-  }
-
-  // Merge: preserved conditions first, then owned conditions (sorted)
-  const mergedConditions: Record<string, any> = { ...preservedConditions }
-  const ownedConditionKeys = Object.keys(ownedSections.topExplorersConditions).sort()
-  for (const key of ownedConditionKeys) {
-    mergedConditions[key] = ownedSections.topExplorersConditions[key]
-  }
-  const difficultyConditionKeys = Object.keys(ownedSections.regionNameDifficultyConditions).sort()
-  for (const key of difficultyConditionKeys) {
-    mergedConditions[key] = ownedSections.regionNameDifficultyConditions[key]
-  }
-
-  if (ownedSections.structureConditions) {
-    for (const key of Object.keys(ownedSections.structureConditions).sort()) {
-      mergedConditions[key] = ownedSections.structureConditions[key]
+  // Preserved conditions first (static ones already filled in), then owned conditions (sorted)
+  const mergedConditions: Record<string, any> = config.conditions
+  const generatedConditions = [
+    ownedSections.topExplorersConditions,
+    ownedSections.regionNameDifficultyConditions,
+    ownedSections.structureConditions ?? {},
+  ]
+  for (const group of generatedConditions) {
+    for (const key of Object.keys(group).sort()) {
+      assertOwnedKey(TAB_OWNERSHIP, ['conditions', key])
+      mergedConditions[key] = group[key]
     }
   }
 
-  config.conditions = mergedConditions
-
   // Stringify with proper formatting (2-space indentation)
   const { YAML_STRINGIFY_OPTIONS } = require('./utils/yamlOptions')
   return yaml.stringify(config, YAML_STRINGIFY_OPTIONS)
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, appendFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { ServerProfile } from './types'
+import { setDataDirectory, saveServerProfile, loadServerProfile } from './storage'
+import {
+  diffTemplateVersions,
+  getTemplateVersionPath,
+  hashTemplateContent,
+  importTemplateVersion,
+  loadTemplateLibrary,
+  removeTemplatePinsFromAllServers,
+} from './templateLibrary'
+import type { TemplateGeneratorSpec } from './build/buildPluginConfig'
+import { resolveTemplateSource } from './build/buildPluginConfig'
+
+const tabSpec: TemplateGeneratorSpec = { id: 'tab', generate: () => ({ content: '' }) }
+const referenceTab = join(process.cwd(), 'reference', 'plugin config files', 'to be bundled', 'tab-config.yml')
+
+function profileWithPin(templateId: string, version: number): ServerProfile {
+  return {
+    id: 's1',
+    name: 'S1',
+    build: { buildTarget: 'live' },
+    templatePinsByTarget: { live: { tab: { templateId, version } } },
+  } as ServerProfile
+}
+
+describe('template library', () => {
+  let dataDir: string
+  let sourceDir: string
+
+  function source(name: string, content: string): string {
+    const p = join(sourceDir, name)
+    writeFileSync(p, content)
+    return p
+  }
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'template-library-'))
+    sourceDir = mkdtempSync(join(tmpdir(), 'template-source-'))
+    setDataDirectory(dataDir)
+  })
+  afterEach(() => {
+    setDataDirectory(null)
+    rmSync(dataDir, { recursive: true, force: true })
+    rmSync(sourceDir, { recursive: true, force: true })
+  })
+
+  it('versions imports per template and skips unchanged content', () => {
+    const first = importTemplateVersion({
+      plugin: 'tab',
+      sourcePath: source('a.yml', 'a: 1\n'),
+      name: 'Base',
+      note: 'initial',
+    })
+    expect(first).toMatchObject({ ok: true, version: 1, created: true })
+    const id = first.entry!.id
+
+    const same = importTemplateVersion({ plugin: 'tab', sourcePath: source('b.yml', 'a: 1\n'), templateId: id })
+    expect(same).toMatchObject({ ok: true, version: 1, created: false })
+
+    const second = importTemplateVersion({ plugin: 'tab', sourcePath: source('c.yml', 'a: 2\n'), templateId: id })
+    expect(second).toMatchObject({ ok: true, version: 2, created: true })
+
+    const [entry] = loadTemplateLibrary()
+    expect(entry.versions.map((v) => [v.version, v.note])).toEqual([
+      [1, 'initial'],
+      [2, undefined],
+    ])
+    expect(entry.versions[1].sha256).toBe(hashTemplateContent('a: 2\n'))
+    expect(diffTemplateVersions(id, 1, 2).unifiedDiff).toContain('-a: 1\n+a: 2')
+  })
+
+  it('refuses invalid YAML and versions for another plugin', () => {
+    const bad = importTemplateVersion({ plugin: 'tab', sourcePath: source('bad.yml', 'a: [1\n'), name: 'Bad' })
+    expect(bad.ok).toBe(false)
+    const { entry } = importTemplateVersion({ plugin: 'tab', sourcePath: source('a.yml', 'a: 1\n'), name: 'Base' })
+    const other = importTemplateVersion({ plugin: 'aa', sourcePath: source('b.yml', 'b: 1\n'), templateId: entry!.id })
+    expect(other.ok).toBe(false)
+  })
+
+  it('builds from the pinned version and records its hash', () => {
+    const { entry } = importTemplateVersion({ plugin: 'tab', sourcePath: source('a.yml', 'a: 1\n'), name: 'Base' })
+    const src = resolveTemplateSource(tabSpec, profileWithPin(entry!.id, 1), { outDir: '/out' })
+    expect(src).toEqual({
+      path: getTemplateVersionPath(entry!.id, 1),
+      isDefault: false,
+      sha256: hashTemplateContent('a: 1\n'),
+      template: { id: entry!.id, name: 'Base', version: 1 },
+    })
+
+    const inputs = { outDir: '/out', tabPath: referenceTab }
+    const explicit = resolveTemplateSource(tabSpec, profileWithPin(entry!.id, 1), inputs)
+    expect(explicit.path).toBe(referenceTab)
+    expect(explicit.template).toBeUndefined()
+  })
+
+  it('fails the build when a pinned version is missing or was edited on disk', () => {
+    const { entry } = importTemplateVersion({ plugin: 'tab', sourcePath: source('a.yml', 'a: 1\n'), name: 'Base' })
+    expect(() => resolveTemplateSource(tabSpec, profileWithPin(entry!.id, 9), { outDir: '/out' })).toThrow(
+      /not in the template library/
+    )
+    appendFileSync(getTemplateVersionPath(entry!.id, 1), 'b: 2\n')
+    expect(() => resolveTemplateSource(tabSpec, profileWithPin(entry!.id, 1), { outDir: '/out' })).toThrow(
+      /modified on disk/
+    )
+  })
+
+  it('removes pins on a deleted template from every server', () => {
+    saveServerProfile(profileWithPin('gone', 1))
+    saveServerProfile({ ...profileWithPin('kept', 1), id: 's2', name: 'S2' })
+    expect(removeTemplatePinsFromAllServers('gone')).toEqual([{ id: 's1', name: 'S1' }])
+    expect(loadServerProfile('s1')?.templatePinsByTarget).toEqual({ live: {} })
+    expect(loadServerProfile('s2')?.templatePinsByTarget?.live?.tab?.templateId).toBe('kept')
+  })
+})
@@ -0,0 +1,237 @@
+const { existsSync, mkdirSync, readFileSync, rmSync } = require('fs')
+const { join } = require('path')
+const { createHash, randomUUID } = require('crypto')
+const { createTwoFilesPatch } = require('diff')
+const yaml = require('yaml')
+
+import type {
+  BuildTarget,
+  PluginType,
+  ServerProfile,
+  TemplateImportResult,
+  TemplateLibraryEntry,
+  TemplatePin,
+  TemplateVersion,
+  TemplateVersionDiffResult,
+} from './types'
+import { PLUGIN_TYPES } from './types'
+import { getDataDirectory, writeJsonWithBackup, listServerIds, loadServerProfile, saveServerProfile } from './storage'
+import { loadLibraryJsonFile, CURRENT_SCHEMA_VERSIONS } from './utils/schemaMigrations'
+import { writeFileAtomicSync } from './utils/atomicFile'
+
+const FILE_NAME = 'template-library.json'
+const TEMPLATES_DIR = 'templates'
+
+interface LibraryFileShape {
+  schemaVersion: number
+  templates: TemplateLibraryEntry[]
+}
+
+/** Template file resolved from a pin, with the library entry it belongs to. */
+export interface PinnedTemplate {
+  entry: TemplateLibraryEntry
+  version: TemplateVersion
+  path: string
+}
+
+function getLibraryPath(): string {
+  return join(getDataDirectory(), FILE_NAME)
+}
+
+export function getTemplateLibraryPath(): string {
+  return getLibraryPath()
+}
+
+export function getTemplateVersionPath(templateId: string, version: number): string {
+  return join(getDataDirectory(), TEMPLATES_DIR, templateId, `v${version}.yml`)
+}
+
+export function hashTemplateContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex')
+}
+
+function isValidVersion(row: unknown): row is TemplateVersion {
+  if (!row || typeof row !== 'object') return false
+  const r = row as Record<string, unknown>
+  if (typeof r.version !== 'number' || !Number.isInteger(r.version) || r.version < 1) return false
+  if (typeof r.sha256 !== 'string' || typeof r.createdAt !== 'string') return false
+  if (r.note !== undefined && typeof r.note !== 'string') return false
+  if (r.importedFrom !== undefined && typeof r.importedFrom !== 'string') return false
+  return true
+}
+
+function isValidLibraryEntry(row: unknown): row is TemplateLibraryEntry {
+  if (!row || typeof row !== 'object') return false
+  const r = row as Record<string, unknown>
+  if (
+    typeof r.id !== 'string' ||
+    typeof r.name !== 'string' ||
+    typeof r.createdAt !== 'string' ||
+    typeof r.updatedAt !== 'string' ||
+    !PLUGIN_TYPES.includes(r.plugin as PluginType)
+  ) {
+    return false
+  }
+  if (r.description !== undefined && typeof r.description !== 'string') return false
+  return Array.isArray(r.versions)
+}
+
+function normalizeEntry(row: TemplateLibraryEntry): TemplateLibraryEntry {
+  return { ...row, versions: row.versions.filter(isValidVersion).sort((a, b) => a.version - b.version) }
+}
+
+export function loadTemplateLibrary(): TemplateLibraryEntry[] {
+  const obj = loadLibraryJsonFile('templateLibrary', getLibraryPath())
+  if (!obj || !Array.isArray(obj.templates)) {
+    return []
+  }
+  return obj.templates.filter(isValidLibraryEntry).map(normalizeEntry)
+}
+
+export function saveTemplateLibrary(templates: TemplateLibraryEntry[]): void {
+  const dataDir = getDataDirectory()
+  if (!existsSync(dataDir)) {
+    mkdirSync(dataDir, { recursive: true })
+  }
+  const payload: LibraryFileShape = { schemaVersion: CURRENT_SCHEMA_VERSIONS.templateLibrary, templates }
+  writeJsonWithBackup(getLibraryPath(), payload)
+}
+
+/**
+ * Add the file at `sourcePath` as the next version of `templateId`, or as v1 of a new template
+ * named `name` when no id is given. Content identical to an existing version adds nothing.
+ */
+export function importTemplateVersion(input: {
+  plugin: PluginType
+  sourcePath: string
+  templateId?: string
+  name?: string
+  note?: string
+}): TemplateImportResult {
+  if (!existsSync(input.sourcePath)) {
+    return { ok: false, error: `File not found: ${input.sourcePath}` }
+  }
+  const content: string = readFileSync(input.sourcePath, 'utf-8')
+  const doc = yaml.parseDocument(content)
+  if (doc.errors.length > 0) {
+    return { ok: false, error: `Not valid YAML: ${doc.errors[0].message}` }
+  }
+
+  const templates = loadTemplateLibrary()
+  const now = new Date().toISOString()
+  let entry: TemplateLibraryEntry
+  if (input.templateId) {
+    const found = templates.find((t) => t.id === input.templateId)
+    if (!found) return { ok: false, error: 'Template library entry not found' }
+    if (found.plugin !== input.plugin) {
+      return { ok: false, error: `Template is for ${found.plugin.toUpperCase()}, not ${input.plugin.toUpperCase()}` }
+    }
+    entry = found
+  } else {
+    const name = String(input.name ?? '').trim()
+    if (!name) return { ok: false, error: 'Template name is required' }
+    entry = { id: randomUUID(), plugin: input.plugin, name, versions: [], createdAt: now, updatedAt: now }
+    templates.push(entry)
+  }
+
+  const sha256 = hashTemplateContent(content)
+  const existing = entry.versions.find((v) => v.sha256 === sha256)
+  if (existing) {
+    return { ok: true, entry, version: existing.version, created: false }
+  }
+
+  const version = (entry.versions[entry.versions.length - 1]?.version ?? 0) + 1
+  const filePath = getTemplateVersionPath(entry.id, version)
+  mkdirSync(join(getDataDirectory(), TEMPLATES_DIR, entry.id), { recursive: true })
+  writeFileAtomicSync(filePath, content)
+  const note = String(input.note ?? '').trim()
+  entry.versions.push({
+    version,
+    sha256,
+    ...(note ? { note } : {}),
+    importedFrom: input.sourcePath,
+    createdAt: now,
+  })
+  entry.updatedAt = now
+  saveTemplateLibrary(templates)
+  return { ok: true, entry, version, created: true }
+}
+
+/** Removes every stored version file of a template (after its library entry is deleted). */
+export function removeTemplateFiles(templateId: string): void {
+  rmSync(join(getDataDirectory(), TEMPLATES_DIR, templateId), { recursive: true, force: true })
+}
+
+export function readTemplateVersion(templateId: string, version: number): string | null {
+  const filePath = getTemplateVersionPath(templateId, version)
+  return existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null
+}
+
+export function diffTemplateVersions(templateId: string, from: number, to: number): TemplateVersionDiffResult {
+  const entry = loadTemplateLibrary().find((t) => t.id === templateId)
+  if (!entry) return { ok: false, error: 'Template library entry not found' }
+  const left = readTemplateVersion(templateId, from)
+  const right = readTemplateVersion(templateId, to)
+  if (left == null || right == null) {
+    return { ok: false, error: `Version v${left == null ? from : to} of ${entry.name} is missing` }
+  }
+  return {
+    ok: true,
+    unifiedDiff: createTwoFilesPatch(`${entry.name} v${from}`, `${entry.name} v${to}`, left, right, '', ''),
+  }
+}
+
+export function getTemplatePin(
+  profile: ServerProfile,
+  target: BuildTarget,
+  plugin: PluginType
+): TemplatePin | undefined {
+  return profile.templatePinsByTarget?.[target]?.[plugin]
+}
+
+/**
+ * Template file for the profile's pin on `plugin` in its current build target, or null when
+ * unpinned. Throws when the pinned version is gone or its file no longer matches the recorded hash.
+ */
+export function resolvePinnedTemplate(profile: ServerProfile, plugin: PluginType): PinnedTemplate | null {
+  const target: BuildTarget = profile.build?.buildTarget === 'live' ? 'live' : 'next'
+  const pin = getTemplatePin(profile, target, plugin)
+  if (!pin) return null
+  const entry = loadTemplateLibrary().find((t) => t.id === pin.templateId)
+  const version = entry?.versions.find((v) => v.version === pin.version)
+  if (!entry || !version) {
+    throw new Error(`${plugin.toUpperCase()} is pinned to a template version that is not in the template library`)
+  }
+  const content = readTemplateVersion(entry.id, version.version)
+  if (content == null) {
+    throw new Error(`${plugin.toUpperCase()} template ${entry.name} v${version.version} file is missing`)
+  }
+  if (hashTemplateContent(content) !== version.sha256) {
+    throw new Error(`${plugin.toUpperCase()} template ${entry.name} v${version.version} was modified on disk`)
+  }
+  return { entry, version, path: getTemplateVersionPath(entry.id, version.version) }
+}
+
+function profilePinsTemplate(profile: ServerProfile, templateId: string): boolean {
+  return Object.values(profile.templatePinsByTarget ?? {}).some((pins) =>
+    Object.values(pins ?? {}).some((pin) => pin?.templateId === templateId)
+  )
+}
+
+export function removeTemplatePinsFromAllServers(templateId: string): { id: string; name: string }[] {
+  const touched: { id: string; name: string }[] = []
+  for (const id of listServerIds()) {
+    const p = loadServerProfile(id)
+    if (!p || !profilePinsTemplate(p, templateId)) continue
+    const next: NonNullable<ServerProfile['templatePinsByTarget']> = {}
+    for (const [target, pins] of Object.entries(p.templatePinsByTarget ?? {})) {
+      next[target as BuildTarget] = Object.fromEntries(
+        Object.entries(pins ?? {}).filter(([, pin]) => pin?.templateId !== templateId)
+      )
+    }
+    p.templatePinsByTarget = next
+    saveServerProfile(p)
+    touched.push({ id: p.id, name: p.name })
+  }
+  return touched
+}
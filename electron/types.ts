@@ -9,19 +9,71 @@ export type {
   RewardRecipeId,
   ServerProfile,
   DiscordSrvSettings,
+  WebMapFormat,
+  WebMapSettings,
+  RegionGeometry,
   ImportedSource,
   RegionRecord,
+  RegionOverrideFields,
+  RegionOverride,
+  RegionRewardOverrides,
+  RegionEditLogEntry,
+  RegionEditRequest,
+  RegionEditResult,
+  LevelledMobsBandPlan,
+  RewardTierMarker,
+  RewardTierCategory,
+  StructureRewardValues,
+  TotalDiscoveredTier,
+  RewardEconomy,
+  RewardEconomyResult,
+  CeRecipeKey,
+  CeActionRecipe,
+  CeRecipes,
+  CeRecipesResult,
   OnboardingConfig,
   ServerSummary,
   ServerSummaryWithStats,
+  ServerProfileLoadProblem,
+  ServerProfileRecoveryResult,
+  StoredDocumentLoadProblem,
+  StoredDocumentRecoveryResult,
+  StoredLibraryKind,
   ImportResult,
+  RegionImportReclassification,
+  RegionImportRenameCandidate,
+  RegionImportLostDiscovery,
+  RegionImportDiff,
+  RegionImportPreviewResult,
   BuildResult,
+  ConfigSource,
+  DiffGateViolation,
+  DiffGateReport,
   BuildReport,
   BuildListItem,
+  BuildRestoreOptions,
+  BuildRestoreResult,
+  BuildPreviewFileStatus,
+  BuildPreviewFile,
+  BuildPreviewResult,
   PluginFolderCompareStatus,
   PluginFolderCompareFileResult,
   PluginFolderCompareResult,
   PluginFolderCompareResponse,
+  DriftFileStatus,
+  DriftFileResult,
+  DriftCheckResult,
+  DriftCheckResponse,
+  BuildCompareMetricRow,
+  BuildCompareResult,
+  BuildCompareResponse,
+  DiscoveryWalk,
+  DiscoverySimulationStep,
+  DiscoverySimulationTier,
+  DiscoverySimulationTabLine,
+  DiscoverySimulationIssue,
+  DiscoverySimulationReport,
+  DiscoverySimulationResponse,
   ComparePreset,
   ComparePresetMutationResult,
   ComparePresetDeleteResult,
@@ -36,12 +88,27 @@ export type {
   CrazyCratesServerAssignment,
   CrateLibraryEntry,
   CrateLibraryDeleteResult,
+  TemplateVersion,
+  TemplateLibraryEntry,
+  TemplatePin,
+  TemplateImportResult,
+  TemplateLibraryDeleteResult,
+  TemplateVersionDiffResult,
   CratePrizeKind,
   CratePrizeEntry,
   CratePrizeOverride,
   CrateVirtualKeyId,
   VirtualCrateKeyValues,
   ResolvedCrazyCratesCrate,
+  ServerProfileBundle,
+  ServerProfileExportOptions,
+  BundleCollisionResolution,
+  BundleLibraryCollision,
+  ServerProfileBundlePreview,
+  ServerProfileImportOptions,
+  ServerProfileBundlePreviewResponse,
+  ServerProfileImportResponse,
+  ServerProfileExportResponse,
 } from '@shared/types'
 
 export const PLUGIN_TYPES: import('@shared/types').PluginType[] = ['aa', 'ce', 'tab', 'lm', 'lmcd', 'mc', 'cw']
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, writeFileSync, readFileSync, readdirSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { backupFile, listFileBackups, writeFileAtomicSync, writeFileWithBackupSync } from './atomicFile'
+
+describe('writeFileAtomicSync', () => {
+  it('replaces the file and leaves no temp files behind', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pm-atomic-'))
+    const p = join(dir, 'profile.json')
+    writeFileSync(p, 'old', 'utf-8')
+    writeFileAtomicSync(p, 'new')
+    expect(readFileSync(p, 'utf-8')).toBe('new')
+    expect(readdirSync(dir)).toEqual(['profile.json'])
+  })
+})
+
+describe('backupFile', () => {
+  it('keeps the newest N timestamped copies', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pm-atomic-'))
+    const p = join(dir, 'profile.json')
+    const backups = join(dir, 'backups')
+    for (let i = 0; i < 4; i++) {
+      writeFileSync(p, `v${i}`, 'utf-8')
+      backupFile(p, backups, 3, new Date(Date.UTC(2026, 0, 1, 0, 0, i)))
+    }
+    const list = listFileBackups(p, backups)
+    expect(list.map((b) => b.savedAtIso)).toEqual([
+      '2026-01-01T00:00:03.000Z',
+      '2026-01-01T00:00:02.000Z',
+      '2026-01-01T00:00:01.000Z',
+    ])
+    expect(readFileSync(list[0].path, 'utf-8')).toBe('v3')
+  })
+
+  it('does not collide within the same millisecond and ignores other files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pm-atomic-'))
+    const p = join(dir, 'presets.json')
+    const backups = join(dir, 'backups')
+    writeFileSync(join(dir, 'other.json'), '{}', 'utf-8')
+    backupFile(join(dir, 'other.json'), backups, 5)
+    writeFileSync(p, 'a', 'utf-8')
+    const now = new Date(Date.UTC(2026, 0, 1))
+    backupFile(p, backups, 5, now)
+    backupFile(p, backups, 5, now)
+    expect(listFileBackups(p, backups)).toHaveLength(2)
+  })
+
+  it('orders same-millisecond copies newest first and prunes the oldest', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pm-atomic-'))
+    const p = join(dir, 'profile.json')
+    const backups = join(dir, 'backups')
+    const now = new Date(Date.UTC(2026, 0, 1))
+    for (const v of ['a', 'b', 'c']) {
+      writeFileSync(p, v, 'utf-8')
+      backupFile(p, backups, 2, now)
+    }
+    const list = listFileBackups(p, backups)
+    expect(list.map((b) => readFileSync(b.path, 'utf-8'))).toEqual(['c', 'b'])
+    expect(list[0].savedAtIso).toBe('2026-01-01T00:00:00.000Z')
+  })
+})
+
+describe('writeFileWithBackupSync', () => {
+  it('backs up the previous content only when a file existed', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pm-atomic-'))
+    const p = join(dir, 'lib.json')
+    const backups = join(dir, 'backups')
+    writeFileWithBackupSync(p, '1', backups, 10)
+    expect(listFileBackups(p, backups)).toEqual([])
+    writeFileWithBackupSync(p, '2', backups, 10)
+    const list = listFileBackups(p, backups)
+    expect(list).toHaveLength(1)
+    expect(readFileSync(list[0].path, 'utf-8')).toBe('1')
+    expect(readFileSync(p, 'utf-8')).toBe('2')
+  })
+})
@@ -0,0 +1,123 @@
+const {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeSync,
+} = require('fs')
+const { basename, dirname, extname, join } = require('path')
+
+/**
+ * Crash-safe file writes: content goes to a temp file in the same folder, is fsynced, then renamed
+ * over the target, so readers see either the old or the new file and never a half-written one.
+ */
+export function writeFileAtomicSync(filePath: string, content: string): void {
+  const dir = dirname(filePath)
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+  const tmpPath = join(dir, `.${basename(filePath)}.${process.pid}.${Date.now()}.tmp`)
+  const fd = openSync(tmpPath, 'w')
+  try {
+    writeSync(fd, content, null, 'utf-8')
+    fsyncSync(fd)
+  } finally {
+    closeSync(fd)
+  }
+  try {
+    renameSync(tmpPath, filePath)
+  } catch (e) {
+    rmSync(tmpPath, { force: true })
+    throw e
+  }
+  // Persist the rename itself; directories cannot be opened for fsync on Windows.
+  try {
+    const dirFd = openSync(dir, 'r')
+    try {
+      fsyncSync(dirFd)
+    } finally {
+      closeSync(dirFd)
+    }
+  } catch {
+    /* best effort */
+  }
+}
+
+export interface FileBackup {
+  path: string
+  /** ISO time parsed from the backup file name. */
+  savedAtIso: string
+}
+
+function backupStem(filePath: string): { stem: string; ext: string } {
+  const name = basename(filePath)
+  const ext = extname(name)
+  return { stem: ext ? name.slice(0, -ext.length) : name, ext }
+}
+
+/** `2026-01-02T03:04:05.678Z` → `2026-01-02T03-04-05-678Z` (file-name safe, still sorts by time). */
+function stampFromIso(iso: string): string {
+  return iso.replace(/[:.]/g, '-')
+}
+
+function isoFromStamp(stamp: string): string {
+  const m = /^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z/.exec(stamp)
+  return m ? `${m[1]}:${m[2]}:${m[3]}.${m[4]}Z` : stamp
+}
+
+/** Same-millisecond backups get a `-<n>` suffix after the stamp; the first one has none (0). */
+function splitBackupStamp(stampWithSeq: string): { stamp: string; seq: number } {
+  const m = /^(.*)-(\d+)$/.exec(stampWithSeq)
+  return m && isoFromStamp(m[1]) !== m[1] ? { stamp: m[1], seq: Number(m[2]) } : { stamp: stampWithSeq, seq: 0 }
+}
+
+/** Timestamped backups of `filePath` in `backupDir`, newest first. */
+export function listFileBackups(filePath: string, backupDir: string): FileBackup[] {
+  if (!existsSync(backupDir)) return []
+  const { stem, ext } = backupStem(filePath)
+  const prefix = `${stem}.`
+  const suffix = `${ext}.bak`
+  // Compare stamp and sequence separately: by name, `<stamp>-1.json.bak` would sort before `<stamp>.json.bak`.
+  return (readdirSync(backupDir) as string[])
+    .filter((name) => name.startsWith(prefix) && name.endsWith(suffix))
+    .map((name) => ({ name, ...splitBackupStamp(name.slice(prefix.length, name.length - suffix.length)) }))
+    .sort((a, b) => (a.stamp === b.stamp ? b.seq - a.seq : a.stamp < b.stamp ? 1 : -1))
+    .map((b) => ({ path: join(backupDir, b.name), savedAtIso: isoFromStamp(b.stamp) }))
+}
+
+/**
+ * Copy the current `filePath` (if any) to `<backupDir>/<stem>.<timestamp><ext>.bak` and delete
+ * all but the newest `maxBackups` copies.
+ */
+export function backupFile(filePath: string, backupDir: string, maxBackups: number, now: Date = new Date()): void {
+  if (!existsSync(filePath)) return
+  if (!existsSync(backupDir)) {
+    mkdirSync(backupDir, { recursive: true })
+  }
+  const { stem, ext } = backupStem(filePath)
+  const stamp = stampFromIso(now.toISOString())
+  let target = join(backupDir, `${stem}.${stamp}${ext}.bak`)
+  for (let n = 1; existsSync(target); n += 1) {
+    target = join(backupDir, `${stem}.${stamp}-${n}${ext}.bak`)
+  }
+  copyFileSync(filePath, target)
+  for (const old of listFileBackups(filePath, backupDir).slice(Math.max(0, maxBackups))) {
+    rmSync(old.path, { force: true })
+  }
+}
+
+/** Rolling backup of the previous content, then an atomic write of the new content. */
+export function writeFileWithBackupSync(
+  filePath: string,
+  content: string,
+  backupDir: string,
+  maxBackups: number
+): void {
+  backupFile(filePath, backupDir, maxBackups)
+  writeFileAtomicSync(filePath, content)
+}
@@ -0,0 +1,77 @@
+import { join } from 'path'
+import { describe, it, expect } from 'vitest'
+import { mapBuildFileToPropagatedPath } from './buildFileMapping'
+
+const ctx = {
+  serverNameSanitized: 'charidh',
+  worldGuardWorldFolder: 'world',
+  worldGuardNetherWorldFolder: 'world_nether',
+  worldGuardEndWorldFolder: 'world_the_end',
+  placeholderApiRelativePaths: ['config.yml', join('expansions', 'Statistic.jar')],
+}
+
+describe('mapBuildFileToPropagatedPath', () => {
+  it('maps core plugin configs and CE event fragments', () => {
+    expect(mapBuildFileToPropagatedPath('charidh-advancedachievements-config.yml', ctx)).toEqual({
+      plugin: 'aa',
+      relativePath: join('AdvancedAchievements', 'config.yml'),
+    })
+    expect(mapBuildFileToPropagatedPath('charidh-mycommand-commands.yml', ctx)).toEqual({
+      plugin: 'mc',
+      relativePath: join('MyCommand', 'commands', 'commands.yml'),
+    })
+    expect(mapBuildFileToPropagatedPath('charidh-ce-events-potions.yml', ctx)).toEqual({
+      plugin: 'ce',
+      relativePath: join('ConditionalEvents', 'events', 'potions.yml'),
+    })
+  })
+
+  it('maps bundled copies, crates and WorldGuard using the profile world folders', () => {
+    expect(mapBuildFileToPropagatedPath('charidh-essentials-rules.txt', ctx)?.relativePath).toBe(
+      join('essentials', 'rules.txt')
+    )
+    expect(mapBuildFileToPropagatedPath('charidh-crazycrates-crate-Vote.yml', ctx)).toEqual({
+      plugin: 'crazycrates',
+      relativePath: join('CrazyCrates', 'crates', 'Vote.yml'),
+    })
+    expect(mapBuildFileToPropagatedPath('charidh-luckperms-perms-exploration.json.gz', ctx)?.plugin).toBe(
+      'luckperms'
+    )
+    expect(
+      mapBuildFileToPropagatedPath('charidh-worldguard-regions-nether.yml', {
+        ...ctx,
+        worldGuardNetherWorldFolder: 'nether2',
+      })
+    ).toEqual({
+      plugin: 'worldguardregionsnether',
+      relativePath: join('WorldGuard', 'worlds', 'nether2', 'regions.yml'),
+    })
+    expect(mapBuildFileToPropagatedPath('charidh-worldguard-regions-end.yml', ctx)).toEqual({
+      plugin: 'worldguardregionsend',
+      relativePath: join('WorldGuard', 'worlds', 'world_the_end', 'regions.yml'),
+    })
+  })
+
+  it('maps web map marker files to the world folders', () => {
+    expect(mapBuildFileToPropagatedPath('charidh-webmap-bluemap-nether.conf', ctx)).toEqual({
+      plugin: 'webmap',
+      relativePath: join('BlueMap', 'markers', 'world_nether.conf'),
+    })
+    expect(mapBuildFileToPropagatedPath('charidh-webmap-dynmap-markers.yml', ctx)?.relativePath).toBe(
+      join('dynmap', 'markers.yml')
+    )
+  })
+
+  it('maps PlaceholderAPI files through the bundled relative paths', () => {
+    expect(mapBuildFileToPropagatedPath('charidh-placeholderapi-expansions-Statistic.jar', ctx)).toEqual({
+      plugin: 'placeholderapi',
+      relativePath: join('PlaceholderAPI', 'expansions', 'Statistic.jar'),
+    })
+    expect(mapBuildFileToPropagatedPath('charidh-placeholderapi-unknown.yml', ctx)).toBeNull()
+  })
+
+  it('returns null for other server prefixes and unknown names', () => {
+    expect(mapBuildFileToPropagatedPath('other-tab-config.yml', ctx)).toBeNull()
+    expect(mapBuildFileToPropagatedPath('charidh-notes.txt', ctx)).toBeNull()
+  })
+})
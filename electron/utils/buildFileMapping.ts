@@ -0,0 +1,71 @@
+/**
+ * Map a flat file saved under builds/<buildId>/ (`<server>-<plugin>...`) back to the path it
+ * occupies under the plugins root when "propagate to plugin folders" is on. Used by build restore
+ * and the drift check.
+ */
+const path = require('path')
+import type { GeneratorVersionKey, ServerProfile } from '../types'
+import { sanitizeServerName } from '../shared/stringFormatters'
+import { resolveConfigServerName } from '../shared/resolveConfigServerName'
+import { GENERATORS } from '../shared/generatorCatalog'
+import { GENERATOR_MODULES } from '../build/generatorRegistry'
+import { sanitizeWorldGuardWorldFolder } from './worldGuardRegionsPaths'
+import { listPlaceholderApiBundledRelativePaths } from './placeholderApiBundledDir'
+
+export interface BuildFileMappingContext {
+  serverNameSanitized: string
+  /** Folder under WorldGuard/worlds/ for the overworld regions.yml. */
+  worldGuardWorldFolder: string
+  worldGuardNetherWorldFolder: string
+  worldGuardEndWorldFolder: string
+  /** Bundled PlaceholderAPI relative paths (flat names replace separators with `-`, so match against these). */
+  placeholderApiRelativePaths: string[]
+}
+
+export interface MappedBuildFile {
+  plugin: GeneratorVersionKey
+  /** Relative to the plugins root (platform separators). */
+  relativePath: string
+}
+
+function listPlaceholderApiPathsSafe(): string[] {
+  try {
+    return listPlaceholderApiBundledRelativePaths()
+  } catch {
+    return []
+  }
+}
+
+/** Mapping context from the profile's current server name and WorldGuard world folders. */
+export function getBuildFileMappingContext(profile: ServerProfile): BuildFileMappingContext {
+  return {
+    serverNameSanitized: sanitizeServerName(resolveConfigServerName(profile)),
+    worldGuardWorldFolder: sanitizeWorldGuardWorldFolder(profile.build.worldGuardRegionsWorldFolder),
+    worldGuardNetherWorldFolder: sanitizeWorldGuardWorldFolder(
+      profile.build.worldGuardRegionsNetherWorldFolder ?? 'world_nether'
+    ),
+    worldGuardEndWorldFolder: sanitizeWorldGuardWorldFolder(
+      profile.build.worldGuardRegionsEndWorldFolder ?? 'world_the_end'
+    ),
+    placeholderApiRelativePaths: listPlaceholderApiPathsSafe(),
+  }
+}
+
+/**
+ * Propagated location of one saved build file, or null when the name is not one
+ * Plugin Manager emits for this server (e.g. written under a previous server name).
+ * Each generator module in the registry declares which saved files are its own.
+ */
+export function mapBuildFileToPropagatedPath(
+  flatName: string,
+  ctx: BuildFileMappingContext
+): MappedBuildFile | null {
+  const prefix = `${ctx.serverNameSanitized}-`
+  if (!flatName.startsWith(prefix)) return null
+  const rest = flatName.slice(prefix.length)
+  for (const { id } of GENERATORS) {
+    const relativePath = GENERATOR_MODULES[id].mapBuildFile(rest, ctx)
+    if (relativePath) return { plugin: id, relativePath: path.normalize(relativePath) }
+  }
+  return null
+}
@@ -13,5 +13,6 @@ export function toBuildListItem(buildId: string, report: BuildReport | null): Bu
     buildId,
     testBuild: Boolean(report.testBuild),
     ...(note ? { buildNote: note } : {}),
+    ...(report.rollbackOf ? { rollbackOf: report.rollbackOf } : {}),
   }
 }
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import { parseCliArgs, toBuildRequestInputs } from './cliArgs'
+import type { ServerProfile } from '../types'
+
+function profileWithBuild(build: ServerProfile['build']): ServerProfile {
+  return {
+    id: 's1',
+    name: 'S1',
+    sources: {},
+    regions: [],
+    onboarding: { startRegionId: '', teleport: { world: '', x: 0, z: 0 } },
+    build,
+  }
+}
+
+describe('parseCliArgs', () => {
+  it('returns help with no arguments', () => {
+    expect(parseCliArgs([])).toEqual({ ok: true, value: { command: 'help' } })
+  })
+
+  it('parses a full build command', () => {
+    const r = parseCliArgs([
+      'build',
+      '--server',
+      's1',
+      '--target',
+      'live',
+      '--plugins',
+      'aa,ce, TAB',
+      '--out',
+      '/plugins',
+      '--propagate',
+      '--note',
+      'nightly',
+      '--template',
+      'aa=/tpl/aa.yml',
+      '--data-dir',
+      '/data',
+    ])
+    expect(r.ok).toBe(true)
+    if (!r.ok || r.value.command !== 'build') return
+    expect(r.value.dataDir).toBe('/data')
+    expect(r.value.options).toEqual({
+      serverId: 's1',
+      plugins: ['aa', 'ce', 'tab'],
+      buildTarget: 'live',
+      outDir: '/plugins',
+      propagate: true,
+      buildNote: 'nightly',
+      testBuild: false,
+      templatePaths: { aa: '/tpl/aa.yml' },
+      acceptDrift: {},
+    })
+  })
+
+  it('rejects unknown plugins, missing server and bad target', () => {
+    expect(parseCliArgs(['build', '--server', 's1', '--plugins', 'aa,nope'])).toEqual({
+      ok: false,
+      error: 'Unknown plugin id(s): nope',
+    })
+    expect(parseCliArgs(['build', '--plugins', 'aa'])).toEqual({ ok: false, error: '--server is required' })
+    const bad = parseCliArgs(['build', '--server', 's1', '--plugins', 'aa', '--target', 'prod'])
+    expect(bad.ok).toBe(false)
+  })
+
+  it('rejects a value flag without a value', () => {
+    expect(parseCliArgs(['build', '--server', '--plugins', 'aa'])).toEqual({
+      ok: false,
+      error: '--server requires a value',
+    })
+  })
+
+  it('parses --accept-drift into a per-plugin fingerprint map', () => {
+    const r = parseCliArgs(['build', '--server', 's1', '--plugins', 'tab', '--accept-drift', 'TAB=abc123def456'])
+    if (!r.ok || r.value.command !== 'build') throw new Error('parse failed')
+    expect(r.value.options.acceptDrift).toEqual({ tab: 'abc123def456' })
+    expect(toBuildRequestInputs(r.value.options, profileWithBuild({})).acceptDrift).toEqual({ tab: 'abc123def456' })
+    expect(parseCliArgs(['build', '--server', 's1', '--plugins', 'tab', '--accept-drift', 'tab']).ok).toBe(false)
+  })
+
+  it('rejects template paths for bundled-only plugins', () => {
+    const r = parseCliArgs(['build', '--server', 's1', '--plugins', 'aa', '--template', 'essentials=/x.yml'])
+    expect(r.ok).toBe(false)
+  })
+})
+
+describe('toBuildRequestInputs', () => {
+  it('falls back to the profile build settings', () => {
+    const r = parseCliArgs(['build', '--server', 's1', '--plugins', 'mc,worldguardregions', '--test'])
+    if (!r.ok || r.value.command !== 'build') throw new Error('parse failed')
+    const inputs = toBuildRequestInputs(
+      r.value.options,
+      profileWithBuild({
+        outputDirectory: '/out',
+        propagateToPluginFolders: true,
+        buildTarget: 'live',
+        mcTebexSubdomain: 'shop',
+        worldGuardRegionsSourcePath: '/wg/regions.yml',
+      })
+    )
+    expect(inputs.outDir).toBe('/out')
+    expect(inputs.propagateToPluginFolders).toBe(true)
+    expect(inputs.buildTarget).toBe('live')
+    expect(inputs.mcTebexSubdomain).toBe('shop')
+    expect(inputs.worldGuardRegionsPath).toBe('/wg/regions.yml')
+    expect(inputs.generateMC).toBe(true)
+    expect(inputs.generateWorldGuardRegions).toBe(true)
+    expect(inputs.generateAA).toBeUndefined()
+    expect(inputs.testBuild).toBe(true)
+  })
+
+  it('explicit options win over the profile', () => {
+    const r = parseCliArgs([
+      'build',
+      '--server',
+      's1',
+      '--plugins',
+      'lm',
+      '--out',
+      '/other',
+      '--no-propagate',
+      '--template',
+      'lm=/tpl/rules.yml',
+    ])
+    if (!r.ok || r.value.command !== 'build') throw new Error('parse failed')
+    const inputs = toBuildRequestInputs(
+      r.value.options,
+      profileWithBuild({ outputDirectory: '/out', propagateToPluginFolders: true })
+    )
+    expect(inputs.outDir).toBe('/other')
+    expect(inputs.propagateToPluginFolders).toBe(false)
+    expect(inputs.lmPath).toBe('/tpl/rules.yml')
+  })
+})
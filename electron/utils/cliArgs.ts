@@ -0,0 +1,236 @@
+/**
+ * Argument parsing for the headless `mcpm` CLI (no Electron). Pure: profile defaults
+ * are applied separately by `toBuildRequestInputs`.
+ */
+import type { BuildTarget, GeneratorVersionKey, PluginType, ServerProfile } from '../types'
+import { PLUGIN_TYPES } from '../types'
+import type { BuildRequestInputs } from '../build/runBuild'
+import type { GeneratorToggleKey } from '../shared/generatorCatalog'
+import { GENERATORS, getGeneratorDescriptor } from '../shared/generatorCatalog'
+
+/** `--plugins` ids (generator version keys) → build-configs toggle. */
+export const CLI_PLUGIN_FLAGS = Object.fromEntries(
+  GENERATORS.map((g) => [g.id, g.generateKey])
+) as Record<GeneratorVersionKey, GeneratorToggleKey>
+
+export interface BuildCliOptions {
+  serverId: string
+  plugins: GeneratorVersionKey[]
+  buildTarget?: BuildTarget
+  outDir?: string
+  /** Undefined = use the profile's last setting. */
+  propagate?: boolean
+  buildNote?: string
+  testBuild: boolean
+  templatePaths: Partial<Record<PluginType, string>>
+  mcTebexSubdomain?: string
+  worldGuardRegionsPath?: string
+  worldGuardRegionsNetherPath?: string
+  worldGuardRegionsEndPath?: string
+  /** Diff-gate fingerprints accepted for this run (from a previous failure's output). */
+  acceptDrift: Partial<Record<GeneratorVersionKey, string>>
+}
+
+export type CliCommand =
+  | { command: 'help' }
+  | { command: 'list-servers'; dataDir?: string }
+  | { command: 'build'; dataDir?: string; options: BuildCliOptions }
+
+export type CliParseResult = { ok: true; value: CliCommand } | { ok: false; error: string }
+
+export const CLI_USAGE = `Usage:
+  mcpm build --server <id> --plugins <ids> [options]
+  mcpm list-servers [--data-dir <dir>]
+
+Build options:
+  --plugins <ids>          Comma-separated: ${Object.keys(CLI_PLUGIN_FLAGS).join(', ')}
+  --target <next|live>     Build target (default next)
+  --out <dir>              Output directory (default: profile's last output directory)
+  --propagate              Write into plugin folders under --out
+  --no-propagate           Write flat <server>-<plugin> files
+  --note <text>            Build note (required unless --test)
+  --test                   Test build: no generator version bump
+  --template <id>=<path>   Template for ${PLUGIN_TYPES.join(', ')} (repeatable; default bundled)
+  --tebex <subdomain>      MyCommand Tebex subdomain (default: profile setting)
+  --worldguard <path>      WorldGuard overworld regions.yml source
+  --worldguard-nether <path>
+                           WorldGuard nether regions.yml source
+  --worldguard-end <path>  WorldGuard End regions.yml source
+  --accept-drift <id>=<fingerprint>
+                           Accept a reported diff-gate failure for this build only (repeatable)
+  --data-dir <dir>         Data directory (default: $MCPM_DATA_DIR or the app's userData folder)
+
+Exit codes: 0 success, 1 build failed (including diff-gate failures), 2 usage error.`
+
+const VALUE_FLAGS = new Set([
+  '--server',
+  '--plugins',
+  '--target',
+  '--out',
+  '--note',
+  '--template',
+  '--tebex',
+  '--worldguard',
+  '--worldguard-nether',
+  '--worldguard-end',
+  '--data-dir',
+  '--accept-drift',
+])
+
+const BOOLEAN_FLAGS = new Set(['--propagate', '--no-propagate', '--test', '--help'])
+
+function isGeneratorVersionKey(id: string): id is GeneratorVersionKey {
+  return Object.prototype.hasOwnProperty.call(CLI_PLUGIN_FLAGS, id)
+}
+
+function lastValue(values: Record<string, string[]>, flag: string): string | undefined {
+  const list = values[flag]
+  return list && list.length > 0 ? list[list.length - 1] : undefined
+}
+
+function isPluginType(id: string): id is PluginType {
+  return (PLUGIN_TYPES as string[]).includes(id)
+}
+
+export function parseCliArgs(argv: string[]): CliParseResult {
+  const [command, ...rest] = argv
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    return { ok: true, value: { command: 'help' } }
+  }
+  if (command !== 'build' && command !== 'list-servers') {
+    return { ok: false, error: `Unknown command: ${command}` }
+  }
+
+  const values: Record<string, string[]> = {}
+  const booleans = new Set<string>()
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]
+    if (BOOLEAN_FLAGS.has(arg)) {
+      booleans.add(arg)
+      continue
+    }
+    if (!VALUE_FLAGS.has(arg)) {
+      return { ok: false, error: `Unknown option: ${arg}` }
+    }
+    const value = rest[i + 1]
+    if (value === undefined || value.startsWith('--')) {
+      return { ok: false, error: `${arg} requires a value` }
+    }
+    ;(values[arg] ??= []).push(value)
+    i++
+  }
+
+  if (booleans.has('--help')) {
+    return { ok: true, value: { command: 'help' } }
+  }
+  const dataDir = lastValue(values, '--data-dir')
+  if (command === 'list-servers') {
+    return { ok: true, value: { command: 'list-servers', ...(dataDir ? { dataDir } : {}) } }
+  }
+
+  const serverId = (lastValue(values, '--server') ?? '').trim()
+  if (!serverId) {
+    return { ok: false, error: '--server is required' }
+  }
+
+  const pluginIds = (values['--plugins'] ?? [])
+    .flatMap((v) => v.split(','))
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => s.length > 0)
+  if (pluginIds.length === 0) {
+    return { ok: false, error: '--plugins is required' }
+  }
+  const unknownPlugins = pluginIds.filter((id) => !isGeneratorVersionKey(id))
+  if (unknownPlugins.length > 0) {
+    return { ok: false, error: `Unknown plugin id(s): ${unknownPlugins.join(', ')}` }
+  }
+
+  const target = lastValue(values, '--target')
+  if (target !== undefined && target !== 'next' && target !== 'live') {
+    return { ok: false, error: `--target must be next or live, got ${target}` }
+  }
+
+  if (booleans.has('--propagate') && booleans.has('--no-propagate')) {
+    return { ok: false, error: '--propagate and --no-propagate are mutually exclusive' }
+  }
+
+  const templatePaths: Partial<Record<PluginType, string>> = {}
+  for (const spec of values['--template'] ?? []) {
+    const eq = spec.indexOf('=')
+    const id = eq > 0 ? spec.slice(0, eq).trim().toLowerCase() : ''
+    const p = eq > 0 ? spec.slice(eq + 1).trim() : ''
+    if (!id || !p) {
+      return { ok: false, error: `--template expects <id>=<path>, got ${spec}` }
+    }
+    if (!isPluginType(id)) {
+      return { ok: false, error: `--template id must be one of ${PLUGIN_TYPES.join(', ')}, got ${id}` }
+    }
+    templatePaths[id] = p
+  }
+
+  const acceptDrift: Partial<Record<GeneratorVersionKey, string>> = {}
+  for (const spec of values['--accept-drift'] ?? []) {
+    const eq = spec.indexOf('=')
+    const id = eq > 0 ? spec.slice(0, eq).trim().toLowerCase() : ''
+    const fingerprint = eq > 0 ? spec.slice(eq + 1).trim() : ''
+    if (!id || !fingerprint) {
+      return { ok: false, error: `--accept-drift expects <id>=<fingerprint>, got ${spec}` }
+    }
+    if (!isGeneratorVersionKey(id)) {
+      return { ok: false, error: `Unknown plugin id in --accept-drift: ${id}` }
+    }
+    acceptDrift[id] = fingerprint
+  }
+
+  const options: BuildCliOptions = {
+    serverId,
+    plugins: [...new Set(pluginIds as GeneratorVersionKey[])],
+    testBuild: booleans.has('--test'),
+    templatePaths,
+    acceptDrift,
+    ...(target ? { buildTarget: target } : {}),
+    ...(values['--out'] ? { outDir: lastValue(values, '--out') } : {}),
+    ...(booleans.has('--propagate') ? { propagate: true } : {}),
+    ...(booleans.has('--no-propagate') ? { propagate: false } : {}),
+    ...(values['--note'] ? { buildNote: lastValue(values, '--note') } : {}),
+    ...(values['--tebex'] ? { mcTebexSubdomain: lastValue(values, '--tebex') } : {}),
+    ...(values['--worldguard'] ? { worldGuardRegionsPath: lastValue(values, '--worldguard') } : {}),
+    ...(values['--worldguard-nether']
+      ? { worldGuardRegionsNetherPath: lastValue(values, '--worldguard-nether') }
+      : {}),
+    ...(values['--worldguard-end'] ? { worldGuardRegionsEndPath: lastValue(values, '--worldguard-end') } : {}),
+  }
+  return { ok: true, value: { command: 'build', ...(dataDir ? { dataDir } : {}), options } }
+}
+
+/**
+ * Build-configs inputs for a CLI run: explicit options first, then the profile's
+ * last-used build settings (same fields BuildScreen pre-fills).
+ */
+export function toBuildRequestInputs(options: BuildCliOptions, profile: ServerProfile): BuildRequestInputs {
+  const build = profile.build ?? {}
+  const inputs: BuildRequestInputs = {
+    outDir: options.outDir ?? build.outputDirectory ?? '',
+    propagateToPluginFolders: options.propagate ?? Boolean(build.propagateToPluginFolders),
+    buildTarget: options.buildTarget ?? build.buildTarget ?? 'next',
+    testBuild: options.testBuild,
+    buildNote: options.buildNote,
+    mcTebexSubdomain: options.mcTebexSubdomain ?? build.mcTebexSubdomain,
+    worldGuardRegionsPath: options.worldGuardRegionsPath ?? build.worldGuardRegionsSourcePath,
+    worldGuardRegionsWorldFolder: build.worldGuardRegionsWorldFolder,
+    worldGuardRegionsNetherPath: options.worldGuardRegionsNetherPath ?? build.worldGuardRegionsNetherSourcePath,
+    worldGuardRegionsNetherWorldFolder: build.worldGuardRegionsNetherWorldFolder,
+    worldGuardRegionsEndPath: options.worldGuardRegionsEndPath ?? build.worldGuardRegionsEndSourcePath,
+    worldGuardRegionsEndWorldFolder: build.worldGuardRegionsEndWorldFolder,
+    webMap: build.webMap,
+    ...(Object.keys(options.acceptDrift).length > 0 ? { acceptDrift: options.acceptDrift } : {}),
+  }
+  for (const id of options.plugins) {
+    inputs[CLI_PLUGIN_FLAGS[id]] = true
+  }
+  for (const [id, p] of Object.entries(options.templatePaths) as [PluginType, string][]) {
+    const { pathKey } = getGeneratorDescriptor(id)
+    if (pathKey) inputs[pathKey] = p
+  }
+  return inputs
+}
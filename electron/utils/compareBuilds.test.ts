@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, writeFileSync, mkdirSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { compareBuilds, compareMetricRecords, getBuildCompareEntries } from './compareBuilds'
+
+describe('getBuildCompareEntries', () => {
+  it('pairs files by flat name and ignores report.json and subfolders', () => {
+    const a = mkdtempSync(join(tmpdir(), 'pm-build-l-'))
+    const b = mkdtempSync(join(tmpdir(), 'pm-build-r-'))
+    writeFileSync(join(a, 'report.json'), '{}', 'utf-8')
+    writeFileSync(join(a, 's-tab-config.yml'), 'x: 1\n', 'utf-8')
+    writeFileSync(join(b, 's-tab-config.yml'), 'x: 2\n', 'utf-8')
+    writeFileSync(join(b, 's-advancedachievements-config.yml'), 'y: 1\n', 'utf-8')
+    mkdirSync(join(b, 'overwritten'))
+
+    const entries = getBuildCompareEntries(a, b, (n) => n.toUpperCase())
+    expect(entries.map((e) => e.id)).toEqual(['s-advancedachievements-config.yml', 's-tab-config.yml'])
+    expect(entries[1]).toEqual({ id: 's-tab-config.yml', label: 'S-TAB-CONFIG.YML', relativePath: 's-tab-config.yml' })
+  })
+})
+
+describe('compareMetricRecords', () => {
+  it('lists keys from both sides in order', () => {
+    expect(compareMetricRecords({ aa: 3, ce: 2 }, { ce: 3, tab: 1 })).toEqual([
+      { key: 'aa', left: 3 },
+      { key: 'ce', left: 2, right: 3 },
+      { key: 'tab', right: 1 },
+    ])
+    expect(compareMetricRecords(undefined, undefined)).toEqual([])
+  })
+})
+
+describe('compareBuilds', () => {
+  it('diffs files ignoring generator headers', () => {
+    const a = mkdtempSync(join(tmpdir(), 'pm-build-l-'))
+    const b = mkdtempSync(join(tmpdir(), 'pm-build-r-'))
+    writeFileSync(join(a, 's-tab-config.yml'), '# mc-plugin-manager: generator-version=001\nx: 1\n', 'utf-8')
+    writeFileSync(join(b, 's-tab-config.yml'), '# mc-plugin-manager: generator-version=002\nx: 1\n', 'utf-8')
+    writeFileSync(join(a, 's-levelledmobs-rules.yml'), 'r: 1\n', 'utf-8')
+    writeFileSync(join(b, 's-levelledmobs-rules.yml'), 'r: 2\n', 'utf-8')
+
+    const r = compareBuilds(
+      { buildId: 'build-1', dir: a, report: null },
+      { buildId: 'build-2', dir: b, report: null }
+    )
+    expect(r.leftBuildId).toBe('build-1')
+    expect(r.files.summary).toMatchObject({ identical: 1, different: 1 })
+    const lm = r.files.files.find((f) => f.id === 's-levelledmobs-rules.yml')
+    expect(lm?.unifiedDiff).toContain('+r: 2')
+    expect(r.regionCounts).toEqual([])
+  })
+})
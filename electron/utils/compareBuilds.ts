@@ -0,0 +1,62 @@
+/**
+ * Compare two saved builds (builds/<buildId>/ folders + report.json): files are paired by their
+ * flat name and diffed like the plugin folder compare; report counts are listed side by side.
+ */
+const { existsSync, readdirSync } = require('fs')
+import type { BuildCompareMetricRow, BuildCompareResult, BuildReport } from '../types'
+import type { PmGeneratedEntry } from './pmGeneratedPaths'
+import { comparePmPluginFolders } from './comparePmPluginFolders'
+
+/** Files saved directly in a build folder (report.json and subfolders such as rollback backups excluded). */
+export function listBuildFileNames(buildDir: string): string[] {
+  if (!existsSync(buildDir)) return []
+  return (readdirSync(buildDir, { withFileTypes: true }) as import('fs').Dirent[])
+    .filter((e) => e.isFile() && e.name !== 'report.json')
+    .map((e) => e.name)
+}
+
+/** Union of both builds' files, sorted; `labelFor` names a flat file for display. */
+export function getBuildCompareEntries(
+  leftDir: string,
+  rightDir: string,
+  labelFor: (flatName: string) => string
+): PmGeneratedEntry[] {
+  const names = new Set([...listBuildFileNames(leftDir), ...listBuildFileNames(rightDir)])
+  return [...names]
+    .sort((a, b) => a.localeCompare(b))
+    .map((flatName) => ({ id: flatName, label: labelFor(flatName), relativePath: flatName }))
+}
+
+/** Row per key present on either side, left keys first (report field order). */
+export function compareMetricRecords(
+  left: Partial<Record<string, number>> | undefined,
+  right: Partial<Record<string, number>> | undefined
+): BuildCompareMetricRow[] {
+  const keys: string[] = []
+  for (const k of Object.keys(left ?? {})) keys.push(k)
+  for (const k of Object.keys(right ?? {})) if (!keys.includes(k)) keys.push(k)
+  return keys.map((key) => ({
+    key,
+    ...(typeof left?.[key] === 'number' ? { left: left[key] } : {}),
+    ...(typeof right?.[key] === 'number' ? { right: right[key] } : {}),
+  }))
+}
+
+export function compareBuilds(
+  left: { buildId: string; dir: string; report: BuildReport | null },
+  right: { buildId: string; dir: string; report: BuildReport | null },
+  labelFor: (flatName: string) => string = (flatName) => flatName
+): BuildCompareResult {
+  const entries = getBuildCompareEntries(left.dir, right.dir, labelFor)
+  return {
+    leftBuildId: left.buildId,
+    rightBuildId: right.buildId,
+    files: comparePmPluginFolders(left.dir, right.dir, entries),
+    regionCounts: compareMetricRecords(left.report?.regionCounts, right.report?.regionCounts),
+    computedCounts: compareMetricRecords(left.report?.computedCounts, right.report?.computedCounts),
+    generatorVersions: compareMetricRecords(
+      left.report?.generatorVersionsSnapshot,
+      right.report?.generatorVersionsSnapshot
+    ),
+  }
+}
@@ -12,7 +12,7 @@ function normalizeText(s: string): string {
 }
 
 /** Line endings normalized; leading `# mc-plugin-manager:` line(s) stripped so compare/diffs ignore generator metadata. */
-function normalizeForCompare(s: string): string {
+export function normalizeForCompare(s: string): string {
   return normalizeText(stripGeneratorVersionCommentLines(normalizeText(s)))
 }
 
@@ -20,8 +20,7 @@ export function comparePmPluginFolders(
   leftRoot: string,
   rightRoot: string,
   entries: PmGeneratedEntry[],
-  bookGuiWarning?: string,
-  placeholderApiWarning?: string
+  warnings: PluginFolderCompareResult['warnings'] = []
 ): PluginFolderCompareResult {
   const files: PluginFolderCompareFileResult[] = []
   const summary = {
@@ -163,8 +162,7 @@ export function comparePmPluginFolders(
   return {
     leftRoot,
     rightRoot,
-    ...(bookGuiWarning ? { bookGuiWarning } : {}),
-    ...(placeholderApiWarning ? { placeholderApiWarning } : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
     files,
     summary,
   }
@@ -1,31 +1,37 @@
 /**
  * Resolve plugin config file path: user-provided or bundled default.
  */
-const electron = require('electron')
 const path = require('path')
 const { existsSync } = require('fs')
+import { getBundledBasePath, isPackagedApp } from './electronApp'
 
 import type { PluginType } from '../types'
+import { PLUGIN_TYPES } from '../types'
+import { getGeneratorDescriptor } from '../shared/generatorCatalog'
 
-const CONFIG_FILENAMES: Record<PluginType, string> = {
-  aa: 'advancedachievements-config.yml',
-  ce: 'conditionalevents-config.yml',
-  tab: 'tab-config.yml',
-  lm: 'levelledmobs-rules.yml',
-  lmcd: 'levelledmobs-customdrops.yml',
-  mc: 'mycommand-commands.yml',
-  cw: 'commandwhitelist-config.yml',
+function templatePluginField(field: 'template' | 'outputRelative'): Record<PluginType, string> {
+  const entries = PLUGIN_TYPES.map((id) => {
+    const value = getGeneratorDescriptor(id)[field]
+    if (!value) throw new Error(`Generator catalog entry ${id} has no ${field}`)
+    return [id, value]
+  })
+  return Object.fromEntries(entries) as Record<PluginType, string>
 }
 
+/** Bundled template filename per template plugin (from the generator catalog). */
+const CONFIG_FILENAMES: Record<PluginType, string> = templatePluginField('template')
+
 /** When "propagate to plugin folders" is on: relative path from plugins root (folder + filename). */
-export const PLUGIN_OUTPUT_RELATIVE: Record<PluginType, string> = {
-  aa: 'AdvancedAchievements/config.yml',
-  ce: 'ConditionalEvents/config.yml',
-  tab: 'TAB/config.yml',
-  lm: 'LevelledMobs/rules.yml',
-  lmcd: 'LevelledMobs/customdrops.yml',
-  mc: 'MyCommand/commands/commands.yml',
-  cw: 'CommandWhitelist/config.yml',
+export const PLUGIN_OUTPUT_RELATIVE: Record<PluginType, string> = templatePluginField('outputRelative')
+
+/** Flat build/output filename for a core plugin config (`<server>-<config filename>`). */
+export function getPluginFlatName(pluginId: PluginType, serverNameSanitized: string): string {
+  return `${serverNameSanitized}-${getPluginFlatSuffix(pluginId)}`
+}
+
+/** The part of a core plugin's flat name after `<server>-`. */
+export function getPluginFlatSuffix(pluginId: PluginType): string {
+  return CONFIG_FILENAMES[pluginId]
 }
 
 export function getPluginOutputPaths(
@@ -35,7 +41,7 @@ export function getPluginOutputPaths(
   serverNameSanitized: string,
   propagateToPluginFolders: boolean
 ): { outputPath: string; buildPath: string } {
-  const flatName = `${serverNameSanitized}-${CONFIG_FILENAMES[pluginId]}`
+  const flatName = getPluginFlatName(pluginId, serverNameSanitized)
   const buildPath = path.join(buildDir, flatName)
   const outputPath = propagateToPluginFolders
     ? path.join(outDir, PLUGIN_OUTPUT_RELATIVE[pluginId])
@@ -48,11 +54,6 @@ export function getCEEventFragmentPropagatedRelativePath(basename: string): stri
   return path.join('ConditionalEvents', 'events', `${basename}.yml`)
 }
 
-/** Flat build/output filename for one CE event fragment when not propagating. */
-export function getCEEventFragmentFlatName(serverNameSanitized: string, basename: string): string {
-  return `${serverNameSanitized}-ce-events-${basename}.yml`
-}
-
 /**
  * Resolve config path for a plugin: use user-provided path if set, otherwise bundled default.
  */
@@ -64,8 +65,8 @@ export function resolveConfigPath(type: PluginType, userProvidedPath?: string):
     return userProvidedPath
   }
 
-  const isPackaged = electron.app.isPackaged
-  const basePath = isPackaged ? electron.app.getAppPath() : path.join(__dirname, '..')
+  const isPackaged = isPackagedApp()
+  const basePath = getBundledBasePath(path.join(__dirname, '..'))
   const filename = CONFIG_FILENAMES[type]
   const defaultPath = isPackaged
     ? path.join(basePath, 'dist-electron', 'assets', 'templates', filename)
@@ -3,6 +3,7 @@
  */
 const path = require('path')
 const { existsSync } = require('fs')
+import { getBundledBasePath, isPackagedApp } from './electronApp'
 
 export const CRAZY_CRATES_MAIN_TEMPLATE = 'crazycrates-config.yml'
 
@@ -15,9 +16,8 @@ export const CRAZY_CRATES_BUNDLED_CRATE_STEMS = ['HeartCrate', 'RegionCrate', 'V
 export type CrazyCratesBundledCrateStem = (typeof CRAZY_CRATES_BUNDLED_CRATE_STEMS)[number]
 
 function bundledTemplatesDir(): string {
-  const electron = require('electron')
-  const isPackaged = electron.app.isPackaged
-  const basePath = isPackaged ? electron.app.getAppPath() : path.join(__dirname, '..')
+    const isPackaged = isPackagedApp()
+  const basePath = getBundledBasePath(path.join(__dirname, '..'))
   return isPackaged
     ? path.join(basePath, 'dist-electron', 'assets', 'templates')
     : path.join(basePath, 'assets', 'templates')
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest'
+import type { RegionGeometry, RegionRecord, ServerProfile } from '../types'
+import {
+  SIMULATOR_AA_PATH,
+  SIMULATOR_CE_PATH,
+  SIMULATOR_TAB_PATH,
+  discoveryRegionIds,
+  parseDiscoveryConfigs,
+  randomDiscoveryWalk,
+  simulateDiscovery,
+} from './discoverySimulator'
+import type { DiscoveryConfigs } from './discoverySimulator'
+
+const AA = `
+Commands:
+  discoverHolarea: { Name: discover_holarea }
+  discoverAureas: { Name: discover_aureas }
+  discoverHeartOfAureas:
+    Name: discover_heart_of_aureas
+    Reward: { Command: { Execute: ['lp user PLAYER permission set kit.heart true'] } }
+Custom:
+  regions_discovered:
+    '2':
+      Name: regions_discovered_2
+      Reward: { Command: { Execute: ['ce call get_book_mending player:PLAYER'] } }
+  total_discovered:
+    '2':
+      Name: total_discovered_50
+      Reward: { Command: { Execute: ['lp user PLAYER promote explorer'] } }
+    '4': { Name: total_discovered_100 }
+  structures_found:
+    _half: { Name: structures_found_half }
+  votes:
+    '10': { Name: votes_10 }
+`
+
+const discoverOnce = (id: string, aach: string, counter: string, crate: string) => `
+  ${id}_discover_once:
+    type: wgevents_region_enter
+    one_time: true
+    conditions: ['%region% == ${id}']
+    actions:
+      default:
+        - 'wait: 3'
+        - 'console_command: aach give ${aach} %player%'
+        - 'console_command: cc give virtual ${crate} 1 %player%'
+        - 'wait: 6'
+        - 'console_command: aach add 1 Custom.${counter} %player%'
+        - 'console_command: aach add 1 Custom.total_discovered %player%'
+`
+
+const CE_CORE = `
+Events:
+  first_join:
+    type: player_join
+    one_time: true
+    actions:
+      default:
+        - 'console_command: tp %player% 10 64 10'
+        - 'console_command: aach give discoverHolarea %player%'
+        - 'console_command: aach add 1 Custom.regions_discovered %player%'
+        - 'console_command: aach add 1 Custom.total_discovered %player%'
+        - 'console_command: lp user %player% permission set bookgui.book.holarea true'
+        - 'console_command: cc give virtual RegionCrate 1 %player%'
+  store_reminder:
+    type: player_join
+    conditions: ['%random_1_4% == 1']
+    actions: { default: ['wait: 1200'] }
+  get_book_mending:
+    type: call
+    actions: { default: ['console_command: minecraft:give %player% enchanted_book'] }
+  region_heart_discover_once:
+    type: wgevents_region_enter
+    one_time: true
+    conditions: ['%region% startsWith heart']
+    actions: { default: ['wait: 13', 'message: &7Region hearts have an unbreakable lodestone'] }
+`
+
+const CE_REGIONS = [
+  'Events:',
+  discoverOnce('aureas', 'discoverAureas', 'regions_discovered', 'RegionCrate'),
+  discoverOnce('heart_of_aureas', 'discoverHeartOfAureas', 'hearts_discovered', 'HeartCrate'),
+].join('')
+
+const TAB = `
+scoreboards:
+  main-overworld:
+    lines:
+      - '&eRegions&7:||%aach_custom_regions_discovered%/2'
+      - '&eOverworld Total&7:||%math_0_round(({aach_custom_regions_discovered}+{aach_custom_hearts_discovered})/4*100,0)%%'
+`
+
+function configs(): DiscoveryConfigs {
+  const outcome = parseDiscoveryConfigs(
+    new Map([
+      [SIMULATOR_AA_PATH, AA],
+      [SIMULATOR_CE_PATH, CE_CORE],
+      ['ConditionalEvents/events/overworld-regions.yml', CE_REGIONS],
+      [SIMULATOR_TAB_PATH, TAB],
+    ])
+  )
+  if (!outcome.ok) throw new Error(outcome.error)
+  return outcome.configs
+}
+
+describe('parseDiscoveryConfigs', () => {
+  it('needs the AA config and at least one CE file', () => {
+    expect(parseDiscoveryConfigs(new Map([[SIMULATOR_CE_PATH, CE_CORE]]))).toMatchObject({ ok: false })
+    expect(parseDiscoveryConfigs(new Map([[SIMULATOR_AA_PATH, AA]]))).toMatchObject({ ok: false })
+    expect(discoveryRegionIds(configs())).toEqual(['aureas', 'heart_of_aureas'])
+  })
+})
+
+describe('simulateDiscovery', () => {
+  it('runs first join and region entries through the mock runtime', () => {
+    const report = simulateDiscovery(configs(), ['aureas', 'heart_of_aureas', 'aureas'])
+    expect(report.steps.map((s) => [s.regionId, s.events])).toEqual([
+      ['', ['first_join']],
+      ['aureas', ['aureas_discover_once', 'get_book_mending']],
+      ['heart_of_aureas', ['heart_of_aureas_discover_once', 'region_heart_discover_once']],
+      ['aureas', []],
+    ])
+    expect(report.steps[2].waitSeconds).toBe(22)
+    expect(report.achievements).toEqual(['discoverHolarea', 'discoverAureas', 'discoverHeartOfAureas'])
+    expect(report.tiers.map((t) => [t.category, t.tier, t.step])).toEqual([
+      ['regions_discovered', 2, 1],
+      ['total_discovered', 2, 1],
+    ])
+    expect(report.counters).toEqual({ regions_discovered: 2, total_discovered: 3, hearts_discovered: 1 })
+    expect(report.crateKeys).toEqual({ RegionCrate: 2, HeartCrate: 1 })
+    expect(report.permissions).toEqual(['bookgui.book.holarea', 'kit.heart'])
+    expect(report.promotions).toEqual(['explorer'])
+    expect(report.tab).toEqual([
+      { label: 'Regions', kind: 'count', value: 2, of: 2 },
+      { label: 'Overworld Total', kind: 'percent', value: 75, of: 4 },
+    ])
+    expect(report.unhandledCommands).toEqual(['minecraft:give Player enchanted_book', 'tp Player 10 64 10'])
+    expect(report.skippedEvents).toEqual(['store_reminder'])
+  })
+
+  it('reports tiers and TAB totals a player who discovers everything cannot reach', () => {
+    const messages = simulateDiscovery(configs(), []).issues.map((i) => `${i.severity}: ${i.message}`)
+    expect(messages).toEqual([
+      'warning: CE event heart_of_aureas_discover_once counts Custom.hearts_discovered, ' +
+        'which has no tiers in the AA config',
+      'warning: Custom.structures_found has tiers that are not numbers (_half), so AA never awards them',
+      'error: Custom.total_discovered tier 4 can never be reached: discovering everything counts to 3',
+      'warning: TAB "Overworld Total" shows 75% after discovering everything',
+    ])
+  })
+
+  it('flags awards of AA commands the build does not define', () => {
+    const base = configs()
+    const broken: DiscoveryConfigs = {
+      ...base,
+      commands: { discoverHolarea: {}, discoverHeartOfAureas: {} },
+    }
+    expect(simulateDiscovery(broken, ['aureas']).issues[0]).toEqual({
+      severity: 'error',
+      message: 'CE event aureas_discover_once gives AA command "discoverAureas", which is not in AA Commands',
+    })
+  })
+})
+
+describe('randomDiscoveryWalk', () => {
+  const square = (x: number): RegionGeometry => ({
+    type: 'cuboid',
+    min: { x, y: 0, z: 0 },
+    max: { x: x + 99, y: 255, z: 99 },
+  })
+  const region = (id: string, x: number): RegionRecord => ({
+    world: 'overworld',
+    id,
+    kind: 'region',
+    discover: { method: 'on_enter', recipeId: 'region' },
+    geometry: square(x),
+  })
+  const profile = {
+    id: 's1',
+    regions: [region('a', 0), region('b', 100), region('c', 200), region('d', 5000)],
+    onboarding: { startRegionId: 'a' },
+    sources: {},
+  } as unknown as ServerProfile
+
+  it('is repeatable for a seed', () => {
+    const walk = randomDiscoveryWalk(profile, 20, 7)
+    expect(walk).toHaveLength(20)
+    expect(randomDiscoveryWalk(profile, 20, 7)).toEqual(walk)
+    expect(randomDiscoveryWalk(profile, 20, 8)).not.toEqual(walk)
+    expect(new Set(walk).size).toBeGreaterThan(1)
+  })
+})
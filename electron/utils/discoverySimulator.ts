@@ -0,0 +1,455 @@
+/**
+ * Discovery simulator: replays a player's first join and region entries against the AA, CE and TAB
+ * files of a saved build. The CE actions we emit (`aach give`, `aach add`, `cc give virtual`,
+ * `lp user … permission set`, `wait`) are interpreted against a mock plugin runtime, so tier and
+ * counter mismatches show up before the build is deployed.
+ */
+const path = require('path')
+const { existsSync, readdirSync, readFileSync } = require('fs')
+const yaml = require('yaml')
+
+import type {
+  DiscoverySimulationIssue,
+  DiscoverySimulationReport,
+  DiscoverySimulationStep,
+  DiscoverySimulationTabLine,
+  ServerProfile,
+} from '../types'
+import { getBuildDirectory } from '../storage'
+import { getBuildFileMappingContext, mapBuildFileToPropagatedPath } from './buildFileMapping'
+import { computeRegionLayout } from '../shared/regionGeometry'
+import { regionKey } from '../shared/regionOverrides'
+
+/** Plugin-relative paths the simulator reads from a build. */
+export const SIMULATOR_AA_PATH = 'AdvancedAchievements/config.yml'
+export const SIMULATOR_CE_PATH = 'ConditionalEvents/config.yml'
+export const SIMULATOR_CE_EVENTS_DIR = 'ConditionalEvents/events/'
+export const SIMULATOR_TAB_PATH = 'TAB/config.yml'
+
+export const MAX_RANDOM_WALK_STEPS = 2000
+
+/** Name `%player%` and AA's `PLAYER` resolve to. */
+const PLAYER = 'Player'
+
+/** Share of random-walk steps that cross into a neighbour instead of jumping anywhere. */
+const NEIGHBOUR_STEP_CHANCE = 0.9
+
+interface SimulatedEvent {
+  type: string
+  oneTime: boolean
+  conditions: string[]
+  actions: string[]
+}
+
+interface AaEntry {
+  Name?: string
+  Reward?: { Command?: { Execute?: unknown } }
+}
+
+/** Parsed configs the runtime executes; built once per build and reused across walks. */
+export interface DiscoveryConfigs {
+  commands: Record<string, AaEntry>
+  custom: Record<string, Record<string, AaEntry>>
+  events: Record<string, SimulatedEvent>
+  /** TAB strings that read `aach_custom_*` placeholders. */
+  tabLines: string[]
+}
+
+export type DiscoveryConfigsOutcome = { ok: true; configs: DiscoveryConfigs } | { ok: false; error: string }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function toLines(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String)
+  return typeof value === 'string' ? [value] : []
+}
+
+function collectTabLines(node: unknown, out: string[]): void {
+  if (typeof node === 'string') {
+    if (node.includes('aach_custom_')) out.push(node)
+  } else if (Array.isArray(node)) {
+    for (const item of node) collectTabLines(item, out)
+  } else if (isRecord(node)) {
+    for (const value of Object.values(node)) collectTabLines(value, out)
+  }
+}
+
+/**
+ * Parse the simulator's inputs from build files keyed by plugin-relative path (posix). CE events
+ * come from the main config and every `events/*.yml` fragment; TAB is optional.
+ */
+export function parseDiscoveryConfigs(files: Map<string, string>): DiscoveryConfigsOutcome {
+  const aaSource = files.get(SIMULATOR_AA_PATH)
+  if (aaSource === undefined) return { ok: false, error: `The build has no ${SIMULATOR_AA_PATH}` }
+  const cePaths = [...files.keys()]
+    .filter((p) => p === SIMULATOR_CE_PATH || (p.startsWith(SIMULATOR_CE_EVENTS_DIR) && p.endsWith('.yml')))
+    .sort()
+  if (cePaths.length === 0) return { ok: false, error: 'The build has no ConditionalEvents config or event files' }
+
+  const parse = (relativePath: string): unknown => {
+    try {
+      return yaml.parse(files.get(relativePath)!)
+    } catch (e) {
+      throw new Error(`${relativePath}: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  try {
+    const aa = parse(SIMULATOR_AA_PATH)
+    const commands = isRecord(aa) && isRecord(aa.Commands) ? (aa.Commands as Record<string, AaEntry>) : {}
+    const custom: DiscoveryConfigs['custom'] = {}
+    if (isRecord(aa) && isRecord(aa.Custom)) {
+      for (const [category, tiers] of Object.entries(aa.Custom)) {
+        if (isRecord(tiers)) custom[category] = tiers as Record<string, AaEntry>
+      }
+    }
+
+    const events: DiscoveryConfigs['events'] = {}
+    for (const relativePath of cePaths) {
+      const doc = parse(relativePath)
+      if (!isRecord(doc) || !isRecord(doc.Events)) continue
+      for (const [key, raw] of Object.entries(doc.Events)) {
+        if (!isRecord(raw)) continue
+        events[key] = {
+          type: String(raw.type ?? ''),
+          oneTime: raw.one_time === true,
+          conditions: toLines(raw.conditions),
+          actions: isRecord(raw.actions) ? toLines(raw.actions.default) : [],
+        }
+      }
+    }
+
+    const tabLines: string[] = []
+    if (files.has(SIMULATOR_TAB_PATH)) collectTabLines(parse(SIMULATOR_TAB_PATH), tabLines)
+    return { ok: true, configs: { commands, custom, events, tabLines } }
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) }
+  }
+}
+
+/** Read the simulator's files from `builds/<buildId>/`, mapped to their plugin-relative paths. */
+export function loadDiscoveryConfigs(profile: ServerProfile, buildId: string): DiscoveryConfigsOutcome {
+  const buildDir = getBuildDirectory(profile.id, buildId)
+  if (!buildId || !existsSync(buildDir)) return { ok: false, error: `Build not found: ${buildId}` }
+  const ctx = getBuildFileMappingContext(profile)
+  const files = new Map<string, string>()
+  for (const ent of readdirSync(buildDir, { withFileTypes: true }) as import('fs').Dirent[]) {
+    if (!ent.isFile()) continue
+    const mapped = mapBuildFileToPropagatedPath(ent.name, ctx)
+    if (!mapped || (mapped.plugin !== 'aa' && mapped.plugin !== 'ce' && mapped.plugin !== 'tab')) continue
+    files.set(mapped.relativePath.replace(/\\/g, '/'), readFileSync(path.join(buildDir, ent.name), 'utf-8'))
+  }
+  return parseDiscoveryConfigs(files)
+}
+
+type ConditionTest = (regionId: string) => boolean
+
+/** The region conditions we generate; null when any condition is something else. */
+function regionConditions(conditions: string[]): ConditionTest[] | null {
+  const tests: ConditionTest[] = []
+  for (const condition of conditions) {
+    const match = /^%region% (==|startsWith) (\S+)$/.exec(condition.trim())
+    if (!match) return null
+    const [, op, value] = match
+    tests.push(op === '==' ? (id) => id === value : (id) => id.startsWith(value!))
+  }
+  return tests
+}
+
+/** Region ids a `wgevents_region_enter` event names with `%region% == …`. */
+export function discoveryRegionIds(configs: DiscoveryConfigs): string[] {
+  const ids = new Set<string>()
+  for (const event of Object.values(configs.events)) {
+    if (event.type !== 'wgevents_region_enter') continue
+    for (const condition of event.conditions) {
+      const match = /^%region% == (\S+)$/.exec(condition.trim())
+      if (match) ids.add(match[1]!)
+    }
+  }
+  return [...ids].sort()
+}
+
+function numericTiers(tiers: Record<string, AaEntry>): number[] {
+  return Object.keys(tiers)
+    .filter((k) => /^\d+$/.test(k))
+    .map(Number)
+    .sort((a, b) => a - b)
+}
+
+const TAB_PERCENT = /%math_\d+_round\(\((.+?)\)\/(\d+)\*100,\d+\)%/
+const TAB_COUNT = /%aach_custom_(\w+)%\/(\d+)/g
+
+function tabLabel(line: string, fallback: string): string {
+  const head = line.includes('||') ? line.slice(0, line.indexOf('||')) : ''
+  const label = head.replace(/&[0-9a-fk-or]/gi, '').replace(/:\s*$/, '').trim()
+  return label || fallback
+}
+
+/** Evaluate TAB's counter lines; percentage sums whose terms are not all AA counters are left out. */
+function readTabLines(lines: string[], counters: Record<string, number>): DiscoverySimulationTabLine[] {
+  const out: DiscoverySimulationTabLine[] = []
+  const seen = new Set<string>()
+  const push = (row: DiscoverySimulationTabLine, source: string) => {
+    const key = `${row.label}\n${row.kind}\n${source}`
+    if (seen.has(key)) return
+    seen.add(key)
+    out.push(row)
+  }
+  for (const line of lines) {
+    const percent = TAB_PERCENT.exec(line)
+    if (percent) {
+      const terms = percent[1]!.split('+').map((t) => /^\{aach_custom_(\w+)\}$/.exec(t.trim())?.[1])
+      const of = Number(percent[2])
+      if (terms.every(Boolean) && of > 0) {
+        const sum = terms.reduce((n, counter) => n + (counters[counter!] ?? 0), 0)
+        push({ label: tabLabel(line, 'Total'), kind: 'percent', value: Math.round((sum / of) * 100), of }, percent[0])
+      }
+      continue
+    }
+    for (const [source, counter, of] of line.matchAll(TAB_COUNT)) {
+      push({ label: tabLabel(line, counter!), kind: 'count', value: counters[counter!] ?? 0, of: Number(of) }, source)
+    }
+  }
+  return out
+}
+
+type RunResult = Omit<DiscoverySimulationReport, 'buildId'>
+
+/** Mock AA / CrazyCrates / LuckPerms runtime for one player. */
+function runWalk(configs: DiscoveryConfigs, regionIds: string[]): RunResult {
+  const issues = new Map<string, DiscoverySimulationIssue>()
+  const issue = (severity: DiscoverySimulationIssue['severity'], message: string) => {
+    if (!issues.has(message)) issues.set(message, { severity, message })
+  }
+
+  const achievements: string[] = []
+  const awarded = new Set<string>()
+  const tiers: RunResult['tiers'] = []
+  const counters: Record<string, number> = {}
+  const crateKeys: Record<string, number> = {}
+  const permissions = new Set<string>()
+  const promotions: string[] = []
+  const unhandled = new Set<string>()
+  const steps: DiscoverySimulationStep[] = []
+  const fired = new Set<string>()
+
+  const joinEvents: string[] = []
+  const enterEvents: Array<[string, ConditionTest[]]> = []
+  const skippedEvents: string[] = []
+  for (const [key, event] of Object.entries(configs.events).sort(([a], [b]) => a.localeCompare(b))) {
+    const tests = regionConditions(event.conditions)
+    if (event.type === 'player_join' && event.conditions.length === 0) joinEvents.push(key)
+    else if (event.type === 'wgevents_region_enter' && tests) enterEvents.push([key, tests])
+    else if (event.type !== 'call' || event.conditions.length > 0) skippedEvents.push(key)
+  }
+  let step: DiscoverySimulationStep
+  let source = ''
+
+  function runCommand(command: string): void {
+    const words = command.trim().split(/\s+/)
+    const [head, sub] = words
+    if (head === 'aach' && sub === 'give' && words[2]) {
+      const id = words[2]
+      if (!configs.commands[id]) {
+        issue('error', `${source} gives AA command "${id}", which is not in AA Commands`)
+        return
+      }
+      if (awarded.has(id)) {
+        issue('warning', `AA command "${id}" is given more than once (again by ${source})`)
+        return
+      }
+      awarded.add(id)
+      achievements.push(id)
+      step.achievements.push(id)
+      runReward(configs.commands[id], `AA command ${id}`)
+      return
+    }
+    if (head === 'aach' && sub === 'add' && /^\d+$/.test(words[2] ?? '') && words[3]?.startsWith('Custom.')) {
+      const category = words[3].slice('Custom.'.length)
+      const before = counters[category] ?? 0
+      const after = before + Number(words[2])
+      counters[category] = after
+      const entries = configs.custom[category]
+      if (!entries) {
+        issue('warning', `${source} counts Custom.${category}, which has no tiers in the AA config`)
+        return
+      }
+      for (const tier of numericTiers(entries)) {
+        if (tier <= before || tier > after) continue
+        const entry = entries[String(tier)]!
+        tiers.push({ category, tier, ...(entry.Name ? { name: entry.Name } : {}), step: steps.length - 1 })
+        step.tiers.push(`${category}:${tier}`)
+        runReward(entry, `AA tier Custom.${category}.${tier}`)
+      }
+      return
+    }
+    if (head === 'ce' && sub === 'call' && words[2]) {
+      const event = configs.events[words[2]]
+      if (!event || event.type !== 'call') {
+        issue('error', `${source} calls CE event "${words[2]}", which is not a call event`)
+      } else if (event.conditions.length === 0) {
+        runEvent(words[2])
+      }
+      return
+    }
+    if (head === 'cc' && sub === 'give' && words[2] === 'virtual' && words[3]) {
+      const amount = /^\d+$/.test(words[4] ?? '') ? Number(words[4]) : 1
+      crateKeys[words[3]] = (crateKeys[words[3]] ?? 0) + amount
+      return
+    }
+    if (head === 'lp' && sub === 'user' && words[3] === 'permission' && words[4] === 'set' && words[5]) {
+      if (words[6] === 'false') permissions.delete(words[5])
+      else permissions.add(words[5])
+      return
+    }
+    if (head === 'lp' && sub === 'user' && words[3] === 'promote' && words[4]) {
+      promotions.push(words[4])
+      return
+    }
+    unhandled.add(command.trim())
+  }
+
+  function runReward(entry: AaEntry | undefined, label: string): void {
+    const caller = source
+    source = label
+    for (const line of toLines(entry?.Reward?.Command?.Execute)) runCommand(line.replace(/PLAYER/g, PLAYER))
+    source = caller
+  }
+
+  function runEvent(key: string): void {
+    const event = configs.events[key]!
+    if (event.oneTime && fired.has(key)) return
+    fired.add(key)
+    step.events.push(key)
+    const caller = source
+    source = `CE event ${key}`
+    for (const raw of event.actions) {
+      const match = /^([a-z_]+):\s?(.*)$/.exec(raw.trim())
+      if (!match) continue
+      const [, type, value] = match
+      if (type === 'wait') step.waitSeconds += Number(value) || 0
+      else if (type === 'wait_ticks') step.waitSeconds += (Number(value) || 0) / 20
+      else if (type === 'console_command') runCommand(value!.replace(/%player%/g, PLAYER))
+    }
+    source = caller
+  }
+
+  function startStep(regionId: string): void {
+    step = { regionId, events: [], achievements: [], tiers: [], waitSeconds: 0 }
+    steps.push(step)
+  }
+
+  startStep('')
+  for (const key of joinEvents) runEvent(key)
+  for (const regionId of regionIds) {
+    startStep(regionId)
+    for (const [key, tests] of enterEvents) {
+      if (tests.every((test) => test(regionId))) runEvent(key)
+    }
+  }
+
+  return {
+    steps,
+    achievements,
+    tiers,
+    counters,
+    crateKeys,
+    permissions: [...permissions].sort(),
+    promotions,
+    tab: readTabLines(configs.tabLines, counters),
+    unhandledCommands: [...unhandled].sort(),
+    skippedEvents,
+    issues: [...issues.values()],
+  }
+}
+
+/** What a player who enters every discoverable region once cannot reach. */
+function reachabilityIssues(full: RunResult, configs: DiscoveryConfigs): DiscoverySimulationIssue[] {
+  const issues: DiscoverySimulationIssue[] = []
+  for (const [category, entries] of Object.entries(configs.custom)) {
+    const named = Object.keys(entries).filter((k) => !/^\d+$/.test(k))
+    if (named.length === 0) continue
+    issues.push({
+      // Template placeholders left in a category discovery never counts are harmless leftovers.
+      severity: category in full.counters ? 'error' : 'warning',
+      message: `Custom.${category} has tiers that are not numbers (${named.join(', ')}), so AA never awards them`,
+    })
+  }
+  for (const [category, value] of Object.entries(full.counters)) {
+    const entries = configs.custom[category]
+    if (!entries) continue
+    for (const tier of numericTiers(entries).filter((t) => t > value)) {
+      issues.push({
+        severity: 'error',
+        message: `Custom.${category} tier ${tier} can never be reached: discovering everything counts to ${value}`,
+      })
+    }
+  }
+  for (const line of full.tab) {
+    if (line.kind === 'percent' && line.value !== 100) {
+      issues.push({
+        severity: line.value > 100 ? 'error' : 'warning',
+        message: `TAB "${line.label}" shows ${line.value}% after discovering everything`,
+      })
+    } else if (line.kind === 'count' && line.value !== line.of) {
+      issues.push({
+        severity: line.value > line.of ? 'error' : 'warning',
+        message: `TAB "${line.label}" shows ${line.value}/${line.of} after discovering everything`,
+      })
+    }
+  }
+  return issues
+}
+
+/**
+ * Join, then enter `regionIds` in order. Issues cover this walk and a second run that enters every
+ * region with a discovery event once (tiers out of reach, TAB totals that never hit 100%).
+ */
+export function simulateDiscovery(configs: DiscoveryConfigs, regionIds: string[]): RunResult {
+  const run = runWalk(configs, regionIds)
+  const full = runWalk(configs, discoveryRegionIds(configs))
+  const issues = new Map<string, DiscoverySimulationIssue>()
+  for (const i of [...full.issues, ...run.issues, ...reachabilityIssues(full, configs)]) {
+    if (!issues.has(i.message)) issues.set(i.message, i)
+  }
+  return { ...run, issues: [...issues.values()] }
+}
+
+/** Small seeded PRNG (mulberry32) so a random walk can be replayed. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Seeded walk from the start region: mostly steps into a bordering region (stored geometry), otherwise
+ * jumps to any region, as a player teleporting or following a road would.
+ */
+export function randomDiscoveryWalk(profile: ServerProfile, steps: number, seed: number): string[] {
+  const pool = profile.regions.filter((r) => r.kind !== 'system')
+  if (pool.length === 0) return []
+  const random = seededRandom(seed)
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]!
+  const layout = computeRegionLayout(profile)
+  const byKey = new Map(pool.map((r) => [regionKey(r), r]))
+
+  const startId = profile.onboarding?.startRegionId
+  let current =
+    pool.find((r) => r.id === startId && r.world === 'overworld') ?? pool.find((r) => r.id === startId) ?? pick(pool)
+  const walk: string[] = []
+  for (let i = 0; i < steps; i++) {
+    const neighbours = (layout[regionKey(current)]?.neighbours ?? []).filter((k) => byKey.has(k))
+    current =
+      neighbours.length > 0 && random() < NEIGHBOUR_STEP_CHANCE ? byKey.get(pick(neighbours))! : pick(pool)
+    walk.push(current.id)
+  }
+  return walk
+}
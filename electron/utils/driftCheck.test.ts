@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { ServerProfile } from '../types'
+import { setDataDirectory, saveServerProfile, getBuildDirectory } from '../storage'
+import { prependGeneratorVersionHeader } from './generatorVersionHeader'
+import { getPluginFlatName } from './configPathResolver'
+import { checkPluginDrift } from './driftCheck'
+
+const TAB_ENTRY = { id: 'tab', label: 'TAB', relativePath: join('TAB', 'config.yml') }
+const AA_ENTRY = { id: 'aa', label: 'AdvancedAchievements', relativePath: join('AdvancedAchievements', 'config.yml') }
+
+const TAB_BUILT = [
+  'header-footer:',
+  '  designs:',
+  '    default:',
+  '      header:',
+  '        - Welcome',
+  'scoreboard:',
+  '  enabled: true',
+  'bossbar:',
+  '  enabled: false',
+  '',
+].join('\n')
+
+function withHeader(content: string, buildId = 'build-1'): string {
+  return prependGeneratorVersionHeader(content, {
+    plugin: 'tab',
+    profileId: 's1',
+    buildId,
+    nextVersion: 3,
+    generatedAt: '2025-03-22T12:00:00.000Z',
+  })
+}
+
+describe('checkPluginDrift', () => {
+  let dataDir: string
+  let liveRoot: string
+
+  function writeLive(relativePath: string, content: string): void {
+    const p = join(liveRoot, relativePath)
+    mkdirSync(join(p, '..'), { recursive: true })
+    writeFileSync(p, content)
+  }
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'drift-data-'))
+    liveRoot = mkdtempSync(join(tmpdir(), 'drift-live-'))
+    setDataDirectory(dataDir)
+    saveServerProfile({ id: 's1', name: 'charidh', build: {} } as ServerProfile)
+    const buildDir = getBuildDirectory('s1', 'build-1')
+    mkdirSync(buildDir, { recursive: true })
+    writeFileSync(join(buildDir, getPluginFlatName('tab', 'charidh')), withHeader(TAB_BUILT))
+  })
+  afterEach(() => {
+    setDataDirectory(null)
+    rmSync(dataDir, { recursive: true, force: true })
+    rmSync(liveRoot, { recursive: true, force: true })
+  })
+
+  it('reports a file matching its build as clean', () => {
+    writeLive(TAB_ENTRY.relativePath, withHeader(TAB_BUILT))
+    const result = checkPluginDrift(liveRoot, [TAB_ENTRY])
+    expect(result.files[0]).toMatchObject({ status: 'clean', provenance: { profileId: 's1', buildId: 'build-1' } })
+    expect(result.summary.clean).toBe(1)
+  })
+
+  it('splits edits into owned sections and the owner template', () => {
+    const edited = TAB_BUILT.replace('- Welcome', '- Hello').replace('enabled: false', 'enabled: true')
+    writeLive(TAB_ENTRY.relativePath, withHeader(edited))
+    const [row] = checkPluginDrift(liveRoot, [TAB_ENTRY]).files
+    expect(row.status).toBe('edited')
+    expect(row.ownedEdits?.map((v) => v.path)).toEqual([['header-footer', 'designs', 'default', 'header', 0]])
+    expect(row.templateEdits?.map((v) => v.path)).toEqual([['bossbar', 'enabled']])
+    expect(row.unifiedDiff).toContain('+        - Hello')
+  })
+
+  it('flags comment-only edits as formatting', () => {
+    writeLive(TAB_ENTRY.relativePath, withHeader(`# tweaked on live\n${TAB_BUILT}`))
+    const [row] = checkPluginDrift(liveRoot, [TAB_ENTRY]).files
+    expect(row).toMatchObject({ status: 'edited', formattingOnly: true, ownedEdits: [], templateEdits: [] })
+  })
+
+  it('reports files without a header, unknown builds and missing files', () => {
+    writeLive(TAB_ENTRY.relativePath, TAB_BUILT)
+    writeLive(AA_ENTRY.relativePath, withHeader('a: 1\n', 'build-9'))
+    const missing = { id: 'lm', label: 'LevelledMobs', relativePath: join('LevelledMobs', 'rules.yml') }
+    const result = checkPluginDrift(liveRoot, [TAB_ENTRY, AA_ENTRY, missing])
+    expect(result.files.map((f) => f.status)).toEqual(['no_header', 'build_missing', 'missing'])
+    expect(result.files[1].error).toMatch(/build-9/)
+  })
+})
@@ -0,0 +1,204 @@
+/**
+ * Drift check: compare each PM-generated file under a live plugins root with the copy saved by
+ * the build named in its `# mc-plugin-manager:` header, and sort manual edits into owned sections
+ * (the next build overwrites them) and the owner's sections (belong in the template).
+ */
+const path = require('path')
+const { existsSync, statSync, readFileSync, readdirSync } = require('fs')
+const { createTwoFilesPatch } = require('diff')
+const yaml = require('yaml')
+
+import type {
+  DiffGateViolation,
+  DriftCheckResult,
+  DriftFileResult,
+  DriftFileStatus,
+} from '../types'
+import { loadServerProfile, getBuildDirectory } from '../storage'
+import type { PmGeneratedEntry } from './pmGeneratedPaths'
+import type { OwnershipManifest } from '../shared/ownershipManifest'
+import { isOwnedPath, ownerContentView } from '../shared/ownershipManifest'
+import { OWNERSHIP_MANIFESTS, lmCustomDropsOwnership } from '../shared/ownershipManifests'
+import { collectViolations } from '../diffValidator'
+import { allLibraryTableNames } from '../dropTableResolve'
+import { parseGeneratorVersionHeader } from './generatorVersionHeader'
+import type { ParsedGeneratorVersionHeader } from './generatorVersionHeader'
+import { normalizeForCompare } from './comparePmPluginFolders'
+import { getBuildFileMappingContext, mapBuildFileToPropagatedPath } from './buildFileMapping'
+
+const MAX_BYTES = 6 * 1024 * 1024
+const SAFE_ID = /^[A-Za-z0-9_-]+$/
+
+function toPosix(p: string): string {
+  return p.replace(/\\/g, '/')
+}
+
+/** Manifests keyed by the file they apply to; customdrops owns the library's current table names. */
+function manifestsByFile(): Map<string, OwnershipManifest> {
+  const out = new Map<string, OwnershipManifest>()
+  for (const manifest of Object.values(OWNERSHIP_MANIFESTS)) out.set(manifest.file, manifest)
+  const customDrops = lmCustomDropsOwnership(allLibraryTableNames())
+  out.set(customDrops.file, customDrops)
+  return out
+}
+
+/** Saved build files by propagated path (posix), or why the build cannot be used. */
+type SavedBuild = { ok: true; files: Map<string, string> } | { ok: false; error: string }
+
+function loadSavedBuild(header: ParsedGeneratorVersionHeader): SavedBuild {
+  if (!SAFE_ID.test(header.profileId) || !SAFE_ID.test(header.buildId)) {
+    return { ok: false, error: 'Header has an invalid profile or build id' }
+  }
+  const profile = loadServerProfile(header.profileId)
+  if (!profile) return { ok: false, error: `Server ${header.profileId} is not in this data directory` }
+  const buildDir = getBuildDirectory(header.profileId, header.buildId)
+  if (!existsSync(buildDir)) return { ok: false, error: `Build ${header.buildId} is not saved for ${profile.name}` }
+  const ctx = getBuildFileMappingContext(profile)
+  const files = new Map<string, string>()
+  for (const ent of readdirSync(buildDir, { withFileTypes: true }) as import('fs').Dirent[]) {
+    if (!ent.isFile()) continue
+    const mapped = mapBuildFileToPropagatedPath(ent.name, ctx)
+    if (mapped) files.set(toPosix(mapped.relativePath), path.join(buildDir, ent.name))
+  }
+  return { ok: true, files }
+}
+
+function parseYaml(relativePath: string, content: string): { ok: true; doc: unknown } | { ok: false } {
+  if (!/\.ya?ml$/i.test(relativePath)) return { ok: false }
+  try {
+    return { ok: true, doc: yaml.parse(content) }
+  } catch {
+    return { ok: false }
+  }
+}
+
+/**
+ * Split the edits between the saved copy and the live file. Without a manifest the whole file is
+ * regenerated, so every edit is owned; files that do not parse as YAML count as one whole-file edit.
+ */
+export function classifyDriftEdits(
+  relativePath: string,
+  saved: string,
+  live: string,
+  manifest: OwnershipManifest | undefined
+): Pick<DriftFileResult, 'ownedEdits' | 'templateEdits' | 'formattingOnly'> {
+  const before = parseYaml(relativePath, saved)
+  const after = parseYaml(relativePath, live)
+  if (!before.ok || !after.ok) {
+    const wholeFile: DiffGateViolation = { path: [], kind: 'changed', coveringRule: '' }
+    return { ownedEdits: [wholeFile], templateEdits: [] }
+  }
+  const all = collectViolations(before.doc, after.doc)
+  if (all.length === 0) return { ownedEdits: [], templateEdits: [], formattingOnly: true }
+  if (!manifest) return { ownedEdits: all, templateEdits: [] }
+
+  const templateEdits = collectViolations(
+    ownerContentView(manifest, before.doc, before.doc),
+    ownerContentView(manifest, after.doc, before.doc)
+  )
+  const ownedEdits = all.filter((v) => isOwnedPath(manifest, v.path, [before.doc, after.doc]))
+  // Edits that vanish once owned content is removed (e.g. a list that changed length) are owned.
+  if (ownedEdits.length === 0 && templateEdits.length === 0) return { ownedEdits: all, templateEdits: [] }
+  return { ownedEdits, templateEdits }
+}
+
+export function checkPluginDrift(
+  pluginsRoot: string,
+  entries: PmGeneratedEntry[],
+  warnings: DriftCheckResult['warnings'] = []
+): DriftCheckResult {
+  const manifests = manifestsByFile()
+  const savedBuilds = new Map<string, SavedBuild>()
+  const files: DriftFileResult[] = []
+  const summary: Record<DriftFileStatus, number> = {
+    clean: 0,
+    edited: 0,
+    missing: 0,
+    no_header: 0,
+    build_missing: 0,
+    read_error: 0,
+  }
+
+  function push(row: DriftFileResult): void {
+    files.push(row)
+    summary[row.status]++
+  }
+
+  for (const entry of entries) {
+    const base = { id: entry.id, label: entry.label, relativePath: entry.relativePath }
+    const livePath = path.join(pluginsRoot, entry.relativePath)
+    if (!existsSync(livePath)) {
+      push({ ...base, status: 'missing' })
+      continue
+    }
+
+    let live: string
+    try {
+      const st = statSync(livePath)
+      if (!st.isFile()) throw new Error('Not a regular file')
+      if (st.size > MAX_BYTES) throw new Error(`File too large to compare (max ${MAX_BYTES} bytes)`)
+      live = readFileSync(livePath, 'utf-8')
+    } catch (e) {
+      push({ ...base, status: 'read_error', error: e instanceof Error ? e.message : String(e) })
+      continue
+    }
+
+    const header = parseGeneratorVersionHeader(live)
+    if (!header) {
+      push({ ...base, status: 'no_header' })
+      continue
+    }
+    const provenance = {
+      profileId: header.profileId,
+      buildId: header.buildId,
+      ...(header.generatorVersion ? { generatorVersion: header.generatorVersion } : {}),
+      ...(header.generatedAt ? { generatedAt: header.generatedAt } : {}),
+    }
+
+    const buildKey = `${header.profileId}\n${header.buildId}`
+    let build = savedBuilds.get(buildKey)
+    if (!build) {
+      build = loadSavedBuild(header)
+      savedBuilds.set(buildKey, build)
+    }
+    if (!build.ok) {
+      push({ ...base, status: 'build_missing', provenance, error: build.error })
+      continue
+    }
+    const savedPath = build.files.get(toPosix(entry.relativePath))
+    if (!savedPath) {
+      const error = `Build ${header.buildId} has no saved copy of this file`
+      push({ ...base, status: 'build_missing', provenance, error })
+      continue
+    }
+
+    let saved: string
+    try {
+      saved = readFileSync(savedPath, 'utf-8')
+    } catch (e) {
+      push({ ...base, status: 'read_error', provenance, error: e instanceof Error ? e.message : String(e) })
+      continue
+    }
+
+    const a = normalizeForCompare(saved)
+    const b = normalizeForCompare(live)
+    if (a === b) {
+      push({ ...base, status: 'clean', provenance })
+      continue
+    }
+    push({
+      ...base,
+      status: 'edited',
+      provenance,
+      ...classifyDriftEdits(entry.relativePath, a, b, manifests.get(toPosix(entry.relativePath))),
+      unifiedDiff: createTwoFilesPatch(entry.relativePath, entry.relativePath, a, b, header.buildId, 'Live'),
+    })
+  }
+
+  return {
+    pluginsRoot,
+    ...(warnings.length > 0 ? { warnings } : {}),
+    files,
+    summary,
+  }
+}
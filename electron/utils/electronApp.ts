@@ -0,0 +1,36 @@
+/**
+ * Electron `app` when running in the Electron main process; `null` under plain Node
+ * (headless CLI, vitest), where bundled-asset resolvers use the unpackaged layout.
+ */
+export interface ElectronAppLike {
+  isPackaged: boolean
+  getAppPath(): string
+  getPath(name: string): string
+}
+
+export function getElectronApp(): ElectronAppLike | null {
+  try {
+    const electron = require('electron')
+    // Under plain Node, `require('electron')` resolves to the binary path string.
+    if (electron && typeof electron === 'object' && electron.app) {
+      return electron.app as ElectronAppLike
+    }
+    return null
+  } catch {
+    return null
+  }
+}
+
+/** True only inside a packaged Electron app. */
+export function isPackagedApp(): boolean {
+  return Boolean(getElectronApp()?.isPackaged)
+}
+
+/**
+ * Base directory for bundled assets: the app path when packaged, otherwise `fallbackDir`
+ * (callers pass `path.join(__dirname, '..')` so dev and CLI resolve relative to dist-electron).
+ */
+export function getBundledBasePath(fallbackDir: string): string {
+  const app = getElectronApp()
+  return app?.isPackaged ? app.getAppPath() : fallbackDir
+}
@@ -4,6 +4,7 @@ import {
   stripGeneratorVersionCommentLines,
   formatGeneratorVersionDisplay,
   sanitizeBuildNoteForHeader,
+  parseGeneratorVersionHeader,
   GENERATOR_VERSION_HEADER_PREFIX,
 } from './generatorVersionHeader'
 
@@ -94,3 +95,30 @@ describe('stripGeneratorVersionCommentLines', () => {
     expect(stripGeneratorVersionCommentLines(raw)).toBe(raw)
   })
 })
+
+describe('parseGeneratorVersionHeader', () => {
+  it('reads back a prepended header', () => {
+    const raw = prependGeneratorVersionHeader('x: 1\n', {
+      plugin: 'tab',
+      profileId: 'charidh-main',
+      buildId: 'build-1742662200123',
+      nextVersion: 7,
+      generatedAt: '2025-03-22T12:00:00.000Z',
+      buildNote: 'a; b',
+      testEmit: true,
+    })
+    expect(parseGeneratorVersionHeader(raw)).toEqual({
+      plugin: 'tab',
+      profileId: 'charidh-main',
+      buildId: 'build-1742662200123',
+      generatorVersion: '007',
+      generatedAt: '2025-03-22T12:00:00.000Z',
+      testEmit: true,
+    })
+  })
+
+  it('returns null without a header or a build id', () => {
+    expect(parseGeneratorVersionHeader('foo: bar\n')).toBeNull()
+    expect(parseGeneratorVersionHeader(`${GENERATOR_VERSION_HEADER_PREFIX} profile=a; plugin=tab\n`)).toBeNull()
+  })
+})
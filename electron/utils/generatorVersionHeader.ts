@@ -62,6 +62,40 @@ export function prependGeneratorVersionHeader(
   return `${line}\n${content}`
 }
 
+export interface ParsedGeneratorVersionHeader {
+  plugin?: string
+  profileId: string
+  buildId: string
+  generatorVersion?: string
+  generatedAt?: string
+  testEmit: boolean
+}
+
+/** Reads the header on line 1 of a generated file; null when absent or missing profile / build id. */
+export function parseGeneratorVersionHeader(raw: string): ParsedGeneratorVersionHeader | null {
+  const firstLine = raw.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0]
+  if (!firstLine.startsWith(GENERATOR_VERSION_HEADER_PREFIX)) return null
+  const fields: Record<string, string> = {}
+  let testEmit = false
+  for (const segment of firstLine.slice(GENERATOR_VERSION_HEADER_PREFIX.length).split(';')) {
+    const eq = segment.indexOf('=')
+    if (eq < 0) continue
+    const key = segment.slice(0, eq).trim()
+    const value = segment.slice(eq + 1).trim()
+    if (key === 'emit') testEmit = value === 'test'
+    else fields[key] = value
+  }
+  if (!fields.profile || !fields['build-id']) return null
+  return {
+    plugin: fields.plugin,
+    profileId: fields.profile,
+    buildId: fields['build-id'],
+    generatorVersion: fields['generator-version'],
+    generatedAt: fields['generated-at'],
+    testEmit,
+  }
+}
+
 /**
  * Remove leading full-line comments emitted by this tool (v1: one line; tolerate consecutive matches).
  */
@@ -3,13 +3,13 @@
  */
 const path = require('path')
 const { existsSync } = require('fs')
+import { getBundledBasePath, isPackagedApp } from './electronApp'
 
 export const GRIEF_PREVENTION_BUNDLED_FILENAME = 'griefprevention-config.yml'
 
 export function getGriefPreventionBundledConfigPath(): string {
-  const electron = require('electron')
-  const isPackaged = electron.app.isPackaged
-  const basePath = isPackaged ? electron.app.getAppPath() : path.join(__dirname, '..')
+    const isPackaged = isPackagedApp()
+  const basePath = getBundledBasePath(path.join(__dirname, '..'))
   const filePath = isPackaged
     ? path.join(basePath, 'dist-electron', 'assets', 'templates', GRIEF_PREVENTION_BUNDLED_FILENAME)
     : path.join(basePath, 'assets', 'templates', GRIEF_PREVENTION_BUNDLED_FILENAME)
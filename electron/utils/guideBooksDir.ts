@@ -3,11 +3,11 @@
  */
 const path = require('path')
 const { existsSync } = require('fs')
+import { getBundledBasePath, isPackagedApp } from './electronApp'
 
 export function getGuideBooksSourceDir(): string {
-  const electron = require('electron')
-  const isPackaged = electron.app.isPackaged
-  const basePath = isPackaged ? electron.app.getAppPath() : path.join(__dirname, '..')
+    const isPackaged = isPackagedApp()
+  const basePath = getBundledBasePath(path.join(__dirname, '..'))
   const guideBooksDir = isPackaged
     ? path.join(basePath, 'dist-electron', 'assets', 'templates', 'guide-books')
     : path.join(basePath, 'assets', 'templates', 'guide-books')
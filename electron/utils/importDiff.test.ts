@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import type { RegionRecord, ServerProfile } from '../types'
+import { diffRegionImport, regionIdSimilarity } from './importDiff'
+
+function region(id: string, overrides: Partial<RegionRecord> = {}): RegionRecord {
+  return { world: 'overworld', id, kind: 'region', discover: { method: 'on_enter', recipeId: 'region' }, ...overrides }
+}
+
+function profile(regions: RegionRecord[], regionBands: Record<string, string> = {}): ServerProfile {
+  return {
+    id: 's1',
+    name: 'S1',
+    sources: {},
+    regions,
+    onboarding: { startRegionId: '', teleport: { world: 'world', x: 0, z: 0 } },
+    regionsMeta: { levelledMobs: { regionBands } },
+    build: {},
+  }
+}
+
+describe('regionIdSimilarity', () => {
+  it('ignores separators and scores near-identical ids high', () => {
+    expect(regionIdSimilarity('oak_vale', 'oakvale')).toBe(1)
+    expect(regionIdSimilarity('mossreach', 'moss_reaches')).toBeGreaterThan(0.8)
+    expect(regionIdSimilarity('mossreach', 'ember_hollow')).toBeLessThan(0.4)
+  })
+})
+
+describe('diffRegionImport', () => {
+  it('reports adds, removes, renames, reclassifications, descriptions, anchors and bands', () => {
+    const before = profile(
+      [
+        region('mossreach'),
+        region('oakvale', { description: 'Old tale. The end.' }),
+        region('ember_hollow', { kind: 'village' }),
+        region('quiet_pond', { discover: { method: 'disabled', recipeId: 'none' } }),
+        region('stonegate', { loreBookAnchors: ['The gate'], description: 'The gate stands.' }),
+        region('ember', { world: 'nether' }),
+      ],
+      { oakvale: 'easy' }
+    )
+    const after = profile(
+      [
+        region('moss_reaches'),
+        region('oakvale', { description: 'New tale.' }),
+        region('ember_hollow'),
+        region('stonegate', { loreBookAnchors: ['The gate'], description: 'A wall stands.' }),
+        region('ember', { world: 'nether' }),
+      ],
+      { oakvale: 'hard' }
+    )
+
+    const diff = diffRegionImport(before, after, 'overworld')
+    expect(diff.added).toEqual(['moss_reaches'])
+    expect(diff.removed).toEqual(['mossreach', 'quiet_pond'])
+    expect(diff.renameCandidates).toEqual([{ fromId: 'mossreach', toId: 'moss_reaches', similarity: 0.82 }])
+    expect(diff.reclassified).toEqual([{ id: 'ember_hollow', fromKind: 'village', toKind: 'region' }])
+    expect(diff.descriptionChanged).toEqual(['oakvale', 'stonegate'])
+    expect(diff.loreBookAnchorsInvalidated).toEqual([{ id: 'stonegate', anchors: ['The gate'] }])
+    expect(diff.bandChanged).toEqual([{ id: 'oakvale', from: 'easy', to: 'hard' }])
+    // Disabled regions never emitted AA/CE output.
+    expect(diff.lostDiscoveries).toEqual([
+      { id: 'mossreach', aaCommandId: 'discoverMossreach', ceEventKey: 'mossreach_discover_once' },
+    ])
+    expect(diff.unchangedCount).toBe(0)
+  })
+
+  it('counts untouched regions and ignores other worlds', () => {
+    const before = profile([region('oakvale'), region('ember', { world: 'nether' })])
+    const after = profile([region('oakvale')])
+    const diff = diffRegionImport(before, after, 'overworld')
+    expect(diff.unchangedCount).toBe(1)
+    expect(diff.removed).toEqual([])
+  })
+})
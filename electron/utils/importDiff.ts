@@ -0,0 +1,140 @@
+import type {
+  RegionImportDiff,
+  RegionImportLostDiscovery,
+  RegionImportRenameCandidate,
+  RegionRecord,
+  ServerProfile,
+} from '../types'
+import { generateCommandId } from '../aaGenerator'
+
+/** Below this a removed/added id pair is not offered as a rename. */
+const RENAME_SIMILARITY_THRESHOLD = 0.6
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i]
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    prev = cur
+  }
+  return prev[b.length]
+}
+
+/** 1 for equal ids, 0 for nothing in common; ignores `_` / `-` differences. */
+export function regionIdSimilarity(a: string, b: string): number {
+  const x = a.toLowerCase().replace(/[-_]+/g, '')
+  const y = b.toLowerCase().replace(/[-_]+/g, '')
+  const longest = Math.max(x.length, y.length)
+  if (longest === 0) return 1
+  return 1 - levenshtein(x, y) / longest
+}
+
+function lostDiscovery(region: RegionRecord): RegionImportLostDiscovery | null {
+  const method = region.discover.method
+  if (method === 'disabled' || method === 'passive' || region.kind === 'water') return null
+  return {
+    id: region.id,
+    aaCommandId: region.discover.commandIdOverride || generateCommandId(region.id),
+    ...(method === 'on_enter' ? { ceEventKey: `${region.id}_discover_once` } : {}),
+  }
+}
+
+/** Best added id per removed id; each added id is used at most once, strongest pairs first. */
+function findRenameCandidates(removed: RegionRecord[], added: RegionRecord[]): RegionImportRenameCandidate[] {
+  const pairs: RegionImportRenameCandidate[] = []
+  for (const from of removed) {
+    for (const to of added) {
+      const similarity = regionIdSimilarity(from.id, to.id)
+      if (similarity >= RENAME_SIMILARITY_THRESHOLD) {
+        pairs.push({ fromId: from.id, toId: to.id, similarity: Math.round(similarity * 100) / 100 })
+      }
+    }
+  }
+  pairs.sort((a, b) => b.similarity - a.similarity || a.fromId.localeCompare(b.fromId))
+  const usedFrom = new Set<string>()
+  const usedTo = new Set<string>()
+  const out: RegionImportRenameCandidate[] = []
+  for (const pair of pairs) {
+    if (usedFrom.has(pair.fromId) || usedTo.has(pair.toId)) continue
+    usedFrom.add(pair.fromId)
+    usedTo.add(pair.toId)
+    out.push(pair)
+  }
+  return out.sort((a, b) => a.fromId.localeCompare(b.fromId))
+}
+
+/**
+ * What replacing `world`'s regions turned `before` into `after` (both full profiles, overrides
+ * already applied), for the import review step.
+ */
+export function diffRegionImport(
+  before: ServerProfile,
+  after: ServerProfile,
+  world: RegionRecord['world']
+): RegionImportDiff {
+  const oldById = new Map(before.regions.filter((r) => r.world === world).map((r) => [r.id, r]))
+  const newById = new Map(after.regions.filter((r) => r.world === world).map((r) => [r.id, r]))
+  const oldBands = before.regionsMeta?.levelledMobs?.regionBands ?? {}
+  const newBands = after.regionsMeta?.levelledMobs?.regionBands ?? {}
+
+  const diff: RegionImportDiff = {
+    world,
+    added: [],
+    removed: [],
+    reclassified: [],
+    renameCandidates: [],
+    descriptionChanged: [],
+    loreBookAnchorsInvalidated: [],
+    bandChanged: [],
+    lostDiscoveries: [],
+    unchangedCount: 0,
+  }
+
+  for (const id of newById.keys()) {
+    if (!oldById.has(id)) diff.added.push(id)
+  }
+  for (const [id, oldRegion] of oldById) {
+    const next = newById.get(id)
+    if (!next) {
+      diff.removed.push(id)
+      const lost = lostDiscovery(oldRegion)
+      if (lost) diff.lostDiscoveries.push(lost)
+      continue
+    }
+    let changed = false
+    if (oldRegion.kind !== next.kind) {
+      diff.reclassified.push({ id, fromKind: oldRegion.kind, toKind: next.kind })
+      changed = true
+    }
+    if ((oldRegion.description ?? '').trim() !== (next.description ?? '').trim()) {
+      diff.descriptionChanged.push(id)
+      changed = true
+    }
+    const text = (next.loreBookDescription ?? next.description ?? '').trim()
+    const brokenAnchors = (next.loreBookAnchors ?? []).filter((anchor) => !text.includes(anchor))
+    if (brokenAnchors.length > 0) {
+      diff.loreBookAnchorsInvalidated.push({ id, anchors: brokenAnchors })
+      changed = true
+    }
+    if ((oldBands[id] ?? '') !== (newBands[id] ?? '')) {
+      diff.bandChanged.push({
+        id,
+        ...(oldBands[id] ? { from: oldBands[id] } : {}),
+        ...(newBands[id] ? { to: newBands[id] } : {}),
+      })
+      changed = true
+    }
+    if (!changed) diff.unchangedCount++
+  }
+
+  diff.renameCandidates = findRenameCandidates(
+    diff.removed.map((id) => oldById.get(id) as RegionRecord),
+    diff.added.map((id) => newById.get(id) as RegionRecord)
+  )
+  diff.added.sort()
+  diff.removed.sort()
+  diff.descriptionChanged.sort()
+  return diff
+}
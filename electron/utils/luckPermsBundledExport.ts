@@ -3,13 +3,13 @@
  */
 const path = require('path')
 const { existsSync } = require('fs')
+import { getBundledBasePath, isPackagedApp } from './electronApp'
 
 export const LUCKPERMS_BUNDLED_EXPORT_FILENAME = 'perms-exploration.json.gz'
 
 export function getLuckPermsBundledExportPath(): string {
-  const electron = require('electron')
-  const isPackaged = electron.app.isPackaged
-  const basePath = isPackaged ? electron.app.getAppPath() : path.join(__dirname, '..')
+    const isPackaged = isPackagedApp()
+  const basePath = getBundledBasePath(path.join(__dirname, '..'))
   const filePath = isPackaged
     ? path.join(basePath, 'dist-electron', 'assets', 'templates', LUCKPERMS_BUNDLED_EXPORT_FILENAME)
     : path.join(basePath, 'assets', 'templates', LUCKPERMS_BUNDLED_EXPORT_FILENAME)
@@ -3,11 +3,11 @@
  */
 const path = require('path')
 const { existsSync, readdirSync } = require('fs')
+import { getBundledBasePath, isPackagedApp } from './electronApp'
 
 export function getPlaceholderApiBundledRoot(): string {
-  const electron = require('electron')
-  const isPackaged = electron.app.isPackaged
-  const basePath = isPackaged ? electron.app.getAppPath() : path.join(__dirname, '..')
+    const isPackaged = isPackagedApp()
+  const basePath = getBundledBasePath(path.join(__dirname, '..'))
   const dir = isPackaged
     ? path.join(basePath, 'dist-electron', 'assets', 'templates', 'PlaceholderAPI')
     : path.join(basePath, 'assets', 'templates', 'PlaceholderAPI')
@@ -4,7 +4,7 @@ import type { RegionRecord } from '../types'
 
 function region(
   kind: 'system' | 'region' | 'village' | 'heart' | 'nerve',
-  world: 'overworld' | 'nether' = 'overworld',
+  world: 'overworld' | 'nether' | 'end' = 'overworld',
   method: 'disabled' | 'on_enter' | 'first_join' = 'on_enter'
 ): RegionRecord {
   const recipeId =
@@ -13,13 +13,17 @@ function region(
       : kind === 'heart'
         ? world === 'nether'
           ? 'nether_heart'
-          : 'heart'
+          : world === 'end'
+            ? 'end_heart'
+            : 'heart'
         : kind === 'nerve'
           ? 'nerve'
           : kind === 'region'
             ? world === 'nether'
               ? 'nether_region'
-              : 'region'
+              : world === 'end'
+                ? 'end_region'
+                : 'region'
             : 'none'
   return {
     world,
@@ -37,6 +41,8 @@ describe('computeRegionCounts', () => {
       overworldNerves: 0,
       netherRegions: 0,
       netherHearts: 0,
+      endRegions: 0,
+      endHearts: 0,
       villages: 0,
       total: 0,
     })
@@ -67,6 +73,14 @@ describe('computeRegionCounts', () => {
     expect(counts.total).toBe(6)
   })
 
+  it('counts End regions and hearts separately from the overworld', () => {
+    const counts = computeRegionCounts([region('region', 'end'), region('heart', 'end'), region('heart')])
+    expect(counts.endRegions).toBe(1)
+    expect(counts.endHearts).toBe(1)
+    expect(counts.overworldHearts).toBe(1)
+    expect(counts.total).toBe(3)
+  })
+
   it('counts overworld nerves toward total', () => {
     const regions: RegionRecord[] = [
       { world: 'overworld', id: 'nerve_of_a', kind: 'nerve', discover: { method: 'on_enter', recipeId: 'nerve' } },
@@ -101,6 +115,7 @@ describe('computeRegionStats', () => {
     expect(computeRegionStats([])).toEqual({
       overworld: 0,
       nether: 0,
+      end: 0,
       hearts: 0,
       nerves: 0,
       villages: 0,
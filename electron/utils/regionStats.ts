@@ -9,6 +9,8 @@ export interface RegionCounts {
   overworldNerves: number
   netherRegions: number
   netherHearts: number
+  endRegions: number
+  endHearts: number
   villages: number
   total: number
 }
@@ -16,6 +18,7 @@ export interface RegionCounts {
 export interface BuildReportRegionCounts {
   overworld: number
   nether: number
+  end: number
   hearts: number
   nerves: number
   villages: number
@@ -36,6 +39,8 @@ export function computeRegionCounts(regions: RegionRecord[]): RegionCounts {
     overworldNerves: 0,
     netherRegions: 0,
     netherHearts: 0,
+    endRegions: 0,
+    endHearts: 0,
     villages: 0,
     total: 0,
   }
@@ -50,11 +55,13 @@ export function computeRegionCounts(regions: RegionRecord[]): RegionCounts {
       counts.villages++
     } else if (region.kind === 'heart') {
       if (region.world === 'nether') counts.netherHearts++
+      else if (region.world === 'end') counts.endHearts++
       else counts.overworldHearts++
     } else if (region.kind === 'nerve') {
       if (region.world === 'overworld') counts.overworldNerves++
     } else if (region.kind === 'region') {
       if (region.world === 'nether') counts.netherRegions++
+      else if (region.world === 'end') counts.endRegions++
       else counts.overworldRegions++
     }
     counts.total++
@@ -70,6 +77,7 @@ export function computeRegionStats(regions: RegionRecord[]): BuildReportRegionCo
   return {
     overworld: regions.filter((r) => r.world === 'overworld').length,
     nether: regions.filter((r) => r.world === 'nether').length,
+    end: regions.filter((r) => r.world === 'end').length,
     hearts: regions.filter((r) => r.kind === 'heart').length,
     nerves: regions.filter((r) => r.kind === 'nerve').length,
     villages: regions.filter((r) => r.kind === 'village').length,
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, writeFileSync, readFileSync, existsSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  CURRENT_SCHEMA_VERSIONS,
+  NewerSchemaVersionError,
+  getSchemaMigrations,
+  getSchemaBackupPath,
+  loadVersionedJsonFile,
+  migrateDocument,
+  migrateDropTableEntry,
+} from './schemaMigrations'
+
+describe('migration registry', () => {
+  it('is ordered and contiguous for every document kind', () => {
+    for (const kind of ['profile', 'dropTableLibrary', 'crateLibrary', 'templateLibrary'] as const) {
+      const steps = getSchemaMigrations(kind)
+      expect(steps.map((s) => s.fromVersion)).toEqual(steps.map((_, i) => i))
+      expect(CURRENT_SCHEMA_VERSIONS[kind]).toBe(steps.length)
+    }
+  })
+})
+
+describe('migrateDocument', () => {
+  it('normalizes assignments on unversioned profiles', () => {
+    const r = migrateDocument('profile', { id: 's', dropTables: { libraryTableIds: ['a', 3] }, crazyCrates: 'x' })
+    expect(r).toMatchObject({ ok: true, fromVersion: 0, migrated: true })
+    if (!r.ok) return
+    expect(r.data.schemaVersion).toBe(CURRENT_SCHEMA_VERSIONS.profile)
+    expect(r.data.dropTables).toEqual({ libraryTableIds: ['a'] })
+    expect(r.data.crazyCrates).toEqual({ libraryCrateIds: [] })
+  })
+
+  it('reads the older library `version` field as the schema version', () => {
+    const r = migrateDocument('crateLibrary', { version: 1, crates: [] })
+    expect(r).toMatchObject({ ok: true, fromVersion: 1, migrated: false })
+    if (!r.ok) return
+    expect(r.data).toEqual({ schemaVersion: 1, crates: [] })
+  })
+
+  it('refuses documents from a newer app', () => {
+    const r = migrateDocument('dropTableLibrary', { schemaVersion: 99, tables: [] })
+    expect(r.ok).toBe(false)
+    if (r.ok) return
+    expect(r.newerVersion).toBe(true)
+    expect(r.error).toContain('schemaVersion 99')
+  })
+})
+
+describe('migrateDropTableEntry', () => {
+  const base = { id: 't', name: 'zombie', createdAt: 'x', updatedAt: 'x' }
+
+  it('builds entries from legacy selectedItems and overrides', () => {
+    const row = migrateDropTableEntry({
+      ...base,
+      selectedItems: ['diamond', 'diamond', 'bread'],
+      itemOverrides: { diamond: { chance: 0.1 } },
+    })
+    expect(row.selectedEntries).toEqual([
+      { entryId: 'diamond_1', itemId: 'diamond', override: { chance: 0.1 } },
+      { entryId: 'diamond_2', itemId: 'diamond', override: { chance: 0.1 } },
+      { entryId: 'bread_3', itemId: 'bread' },
+    ])
+    expect(row.selectedItems).toEqual(['diamond', 'diamond', 'bread'])
+    expect(row.itemOverrides).toEqual({})
+  })
+
+  it('keeps existing entries and re-projects half-migrated selectedItems', () => {
+    const row = migrateDropTableEntry({
+      ...base,
+      selectedEntries: [{ entryId: 'e1', itemId: 'emerald' }, { itemId: 'bread' }],
+      selectedItems: ['diamond'],
+      itemOverrides: { diamond: { chance: 1 } },
+    })
+    expect(row.selectedEntries).toEqual([
+      { entryId: 'e1', itemId: 'emerald' },
+      { entryId: 'bread_2', itemId: 'bread' },
+    ])
+    expect(row.selectedItems).toEqual(['emerald', 'bread'])
+    expect(row.itemOverrides).toEqual({})
+  })
+})
+
+describe('loadVersionedJsonFile', () => {
+  it('backs up the original before rewriting a migrated file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pm-schema-'))
+    const p = join(dir, 'drop-table-library.json')
+    const original = JSON.stringify({ version: 1, tables: [{ id: 't', selectedItems: ['bread'] }] })
+    writeFileSync(p, original, 'utf-8')
+
+    const data = loadVersionedJsonFile('dropTableLibrary', p)
+    expect(data?.schemaVersion).toBe(2)
+    expect(readFileSync(getSchemaBackupPath(p, 1), 'utf-8')).toBe(original)
+    const rewritten = JSON.parse(readFileSync(p, 'utf-8'))
+    expect(rewritten.version).toBeUndefined()
+    expect(rewritten.tables[0].selectedEntries).toEqual([{ entryId: 'bread_1', itemId: 'bread' }])
+  })
+
+  it('leaves current files untouched and throws on newer ones', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pm-schema-'))
+    const p = join(dir, 'crazy-crates-library.json')
+    writeFileSync(p, JSON.stringify({ schemaVersion: 1, crates: [] }), 'utf-8')
+    expect(loadVersionedJsonFile('crateLibrary', p)).toEqual({ schemaVersion: 1, crates: [] })
+    expect(existsSync(getSchemaBackupPath(p, 1))).toBe(false)
+
+    writeFileSync(p, JSON.stringify({ schemaVersion: 7, crates: [] }), 'utf-8')
+    expect(() => loadVersionedJsonFile('crateLibrary', p)).toThrow(NewerSchemaVersionError)
+    expect(loadVersionedJsonFile('crateLibrary', join(dir, 'missing.json'))).toBeNull()
+  })
+})
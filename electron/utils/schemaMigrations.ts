@@ -0,0 +1,210 @@
+const { existsSync, readFileSync, copyFileSync } = require('fs')
+import { writeFileAtomicSync } from './atomicFile'
+
+/**
+ * Versioned on-disk documents (`profile.json`, `drop-table-library.json`, `crazy-crates-library.json`,
+ * `template-library.json`).
+ * Each kind has an ordered migration list; a document at version N runs every step whose
+ * `fromVersion` is >= N, in order, and ends at the current version. Files written by a newer
+ * app version are refused rather than read (and later overwritten) with a partial understanding.
+ */
+export type SchemaDocumentKind = 'profile' | 'dropTableLibrary' | 'crateLibrary' | 'templateLibrary'
+
+export interface SchemaMigration {
+  /** Version the step upgrades from; it produces `fromVersion + 1`. */
+  fromVersion: number
+  description: string
+  migrate: (doc: Record<string, unknown>) => Record<string, unknown>
+}
+
+type MigrationResult =
+  | { ok: true; data: Record<string, unknown>; fromVersion: number; toVersion: number; migrated: boolean }
+  | { ok: false; error: string; newerVersion?: boolean }
+
+/** Thrown by `loadVersionedJsonFile` for files written by a newer app; callers must not fall back to empty. */
+export class NewerSchemaVersionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NewerSchemaVersionError'
+  }
+}
+
+const DOCUMENT_LABELS: Record<SchemaDocumentKind, string> = {
+  profile: 'Server profile',
+  dropTableLibrary: 'Drop table library',
+  crateLibrary: 'CrazyCrates library',
+  templateLibrary: 'Template library',
+}
+
+function stringIds(raw: unknown, key: string): string[] {
+  if (!raw || typeof raw !== 'object') return []
+  const ids = (raw as Record<string, unknown>)[key]
+  return Array.isArray(ids) ? ids.filter((x): x is string => typeof x === 'string') : []
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return Boolean(v) && typeof v === 'object' && !Array.isArray(v)
+}
+
+/**
+ * Drop-table row in the v2 shape: `selectedEntries` is authoritative and `selectedItems` is its
+ * projection. Rows with entries keep them (the resolver already preferred them); rows with only
+ * legacy `selectedItems` / `itemOverrides` get one entry per item.
+ */
+export function migrateDropTableEntry(row: Record<string, unknown>): Record<string, unknown> {
+  const items = Array.isArray(row.selectedItems) ? row.selectedItems.map((s) => String(s)) : []
+  const overrides = isRecord(row.itemOverrides) ? row.itemOverrides : {}
+  const existing = Array.isArray(row.selectedEntries) ? row.selectedEntries.filter(isRecord) : []
+
+  const selectedEntries: Record<string, unknown>[] =
+    existing.length > 0
+      ? existing
+          .filter((e) => typeof e.itemId === 'string' && e.itemId.trim().length > 0)
+          .map((e, idx) => ({
+            ...e,
+            entryId:
+              typeof e.entryId === 'string' && e.entryId.trim().length > 0 ? e.entryId : `${e.itemId}_${idx + 1}`,
+          }))
+      : items
+          .filter((itemId) => itemId.trim().length > 0)
+          .map((itemId, idx) => {
+            const override = overrides[itemId] ?? overrides[itemId.toLowerCase()]
+            return {
+              entryId: `${itemId}_${idx + 1}`,
+              itemId,
+              ...(isRecord(override) ? { override } : {}),
+            }
+          })
+
+  return {
+    ...row,
+    selectedEntries,
+    selectedItems: selectedEntries.map((e) => String(e.itemId)),
+    itemOverrides: {},
+  }
+}
+
+const MIGRATIONS: Record<SchemaDocumentKind, SchemaMigration[]> = {
+  profile: [
+    {
+      fromVersion: 0,
+      description: 'Normalize drop table and CrazyCrates assignments to id lists',
+      migrate: (doc) => ({
+        ...doc,
+        dropTables: { libraryTableIds: stringIds(doc.dropTables, 'libraryTableIds') },
+        crazyCrates: { libraryCrateIds: stringIds(doc.crazyCrates, 'libraryCrateIds') },
+      }),
+    },
+  ],
+  dropTableLibrary: [
+    {
+      fromVersion: 0,
+      description: 'Ensure a tables array',
+      migrate: (doc) => ({ ...doc, tables: Array.isArray(doc.tables) ? doc.tables : [] }),
+    },
+    {
+      fromVersion: 1,
+      description: 'Convert selectedItems / itemOverrides to selectedEntries',
+      migrate: (doc) => ({
+        ...doc,
+        tables: (doc.tables as unknown[]).map((row) => (isRecord(row) ? migrateDropTableEntry(row) : row)),
+      }),
+    },
+  ],
+  crateLibrary: [
+    {
+      fromVersion: 0,
+      description: 'Ensure a crates array',
+      migrate: (doc) => ({ ...doc, crates: Array.isArray(doc.crates) ? doc.crates : [] }),
+    },
+  ],
+  templateLibrary: [
+    {
+      fromVersion: 0,
+      description: 'Ensure a templates array',
+      migrate: (doc) => ({ ...doc, templates: Array.isArray(doc.templates) ? doc.templates : [] }),
+    },
+  ],
+}
+
+export const CURRENT_SCHEMA_VERSIONS: Record<SchemaDocumentKind, number> = {
+  profile: MIGRATIONS.profile.length,
+  dropTableLibrary: MIGRATIONS.dropTableLibrary.length,
+  crateLibrary: MIGRATIONS.crateLibrary.length,
+  templateLibrary: MIGRATIONS.templateLibrary.length,
+}
+
+export function getSchemaMigrations(kind: SchemaDocumentKind): SchemaMigration[] {
+  return MIGRATIONS[kind]
+}
+
+/**
+ * `schemaVersion`, else the libraries' older `version` field (which was always 1), else 0.
+ */
+export function readSchemaVersion(kind: SchemaDocumentKind, doc: Record<string, unknown>): number {
+  if (typeof doc.schemaVersion === 'number' && Number.isInteger(doc.schemaVersion)) return doc.schemaVersion
+  if (kind !== 'profile' && typeof doc.version === 'number' && Number.isInteger(doc.version)) return doc.version
+  return 0
+}
+
+export function migrateDocument(kind: SchemaDocumentKind, raw: unknown): MigrationResult {
+  const label = DOCUMENT_LABELS[kind]
+  if (!isRecord(raw)) return { ok: false, error: `${label} is not a JSON object` }
+  const current = CURRENT_SCHEMA_VERSIONS[kind]
+  const fromVersion = readSchemaVersion(kind, raw)
+  if (fromVersion > current) {
+    return {
+      ok: false,
+      newerVersion: true,
+      error: `${label} has schemaVersion ${fromVersion}, newer than this app supports (${current}). Update the app to open it.`,
+    }
+  }
+  let data: Record<string, unknown> = { ...raw }
+  for (const step of MIGRATIONS[kind]) {
+    if (step.fromVersion < fromVersion) continue
+    data = step.migrate(data)
+  }
+  const { schemaVersion: _previous, ...rest } = data
+  // Libraries replace their older `version` field with `schemaVersion`.
+  if (kind !== 'profile') delete rest.version
+  data = { schemaVersion: current, ...rest }
+  return { ok: true, data, fromVersion, toVersion: current, migrated: fromVersion < current }
+}
+
+export function getSchemaBackupPath(filePath: string, fromVersion: number): string {
+  return `${filePath}.v${fromVersion}.bak`
+}
+
+/**
+ * Read and migrate a versioned JSON file. When a migration ran, the original bytes are copied to
+ * `<file>.v<old>.bak` before the upgraded document is written back.
+ * Returns null when the file does not exist; throws on unreadable JSON or a newer schemaVersion.
+ */
+export function loadVersionedJsonFile(kind: SchemaDocumentKind, filePath: string): Record<string, unknown> | null {
+  if (!existsSync(filePath)) return null
+  const raw = JSON.parse(readFileSync(filePath, 'utf-8')) as unknown
+  const result = migrateDocument(kind, raw)
+  if (!result.ok) {
+    const message = `${result.error} (${filePath})`
+    throw result.newerVersion ? new NewerSchemaVersionError(message) : new Error(message)
+  }
+  if (result.migrated) {
+    copyFileSync(filePath, getSchemaBackupPath(filePath, result.fromVersion))
+    writeFileAtomicSync(filePath, JSON.stringify(result.data, null, 2))
+  }
+  return result.data
+}
+
+/**
+ * `loadVersionedJsonFile` for the global libraries. Unreadable files throw (with the library's name)
+ * rather than reading as empty, so the next save cannot overwrite them before they are recovered.
+ */
+export function loadLibraryJsonFile(kind: SchemaDocumentKind, filePath: string): Record<string, unknown> | null {
+  try {
+    return loadVersionedJsonFile(kind, filePath)
+  } catch (e) {
+    if (e instanceof NewerSchemaVersionError) throw e
+    const message = e instanceof Error ? e.message : String(e)
+    throw new Error(`${DOCUMENT_LABELS[kind]} could not be read: ${message}`)
+  }
+}
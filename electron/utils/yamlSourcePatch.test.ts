@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync, readdirSync, statSync } from 'fs'
+import path from 'path'
+import { patchYamlSource } from './yamlSourcePatch'
+import { YAML_STRINGIFY_OPTIONS } from './yamlOptions'
+
+const yaml = require('yaml')
+
+const BUNDLED_DIR = path.join(process.cwd(), 'reference', 'plugin config files', 'to be bundled')
+
+function bundledTemplates(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const full = path.join(dir, name)
+    if (statSync(full).isDirectory()) return bundledTemplates(full)
+    return name.endsWith('.yml') ? [full] : []
+  })
+}
+
+/** Path of the first string leaf found depth-first, for a one-value edit. */
+function firstStringLeaf(value: unknown, at: Array<string | number> = []): Array<string | number> | null {
+  if (typeof value === 'string') return at
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      const found = firstStringLeaf(value[i], [...at, i])
+      if (found) return found
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [k, v] of Object.entries(value)) {
+      const found = firstStringLeaf(v, [...at, k])
+      if (found) return found
+    }
+  }
+  return null
+}
+
+function changedLines(a: string, b: string): number {
+  const left = a.split('\n')
+  const right = b.split('\n')
+  expect(right.length).toBe(left.length)
+  return left.filter((line, i) => line !== right[i]).length
+}
+
+const SOURCE = `# header comment
+a: 1 # keep me
+b:
+  # inside b
+  x: [1, 2]
+  y:
+    - p
+    - q: 1
+      r: 2   # tail
+
+  z: 'quoted'
+list:
+  - one
+
+  - two
+
+  - three
+`
+
+function patch(mutate: (config: any) => void): string {
+  const config = yaml.parse(SOURCE)
+  mutate(config)
+  const out = patchYamlSource(SOURCE, config, YAML_STRINGIFY_OPTIONS)
+  expect(yaml.parse(out)).toEqual(config)
+  return out
+}
+
+describe('patchYamlSource on bundled templates', () => {
+  const templates = bundledTemplates(BUNDLED_DIR)
+
+  it('finds the bundled templates', () => {
+    expect(templates.length).toBeGreaterThan(5)
+  })
+
+  for (const file of templates) {
+    const name = path.relative(BUNDLED_DIR, file)
+
+    it(`round-trips ${name} byte-for-byte`, () => {
+      const source = readFileSync(file, 'utf-8')
+      expect(patchYamlSource(source, yaml.parse(source), YAML_STRINGIFY_OPTIONS)).toBe(source)
+    })
+
+    it(`rewrites only the changed line of ${name}`, () => {
+      const source = readFileSync(file, 'utf-8')
+      const config = yaml.parse(source)
+      const leaf = firstStringLeaf(config)
+      if (!leaf) return
+      let parent = config
+      for (const key of leaf.slice(0, -1)) parent = parent[key]
+      parent[leaf[leaf.length - 1]] = 'patched-value'
+      const out = patchYamlSource(source, config, YAML_STRINGIFY_OPTIONS)
+      expect(yaml.parse(out)).toEqual(config)
+      expect(changedLines(source, out)).toBe(1)
+    })
+  }
+
+  it('writes generated tiers into the AA template\'s empty total_discovered as block YAML', () => {
+    const source = readFileSync(path.join(BUNDLED_DIR, 'advancedachievements-config.yml'), 'utf-8')
+    const config = yaml.parse(source)
+    config.Custom.total_discovered = {
+      10: { Message: '10% explored!', Name: 'total_discovered_10', Reward: { Command: { Execute: ['a', 'b'] } } },
+      20: { Message: '20% explored!', Name: 'total_discovered_20' },
+    }
+    const out = patchYamlSource(source, config, YAML_STRINGIFY_OPTIONS)
+    expect(yaml.parse(out)).toEqual(config)
+    expect(out).toContain(
+      "  total_discovered:\n    '10':\n      Message: 10% explored!\n      Name: total_discovered_10\n"
+    )
+    expect(out).not.toMatch(/total_discovered: \{/)
+    expect(Math.max(...out.split('\n').map((line) => line.length))).toBeLessThan(400)
+  })
+})
+
+describe('patchYamlSource', () => {
+  it('keeps trailing comments and flow style when a value changes in place', () => {
+    const out = patch((c) => {
+      c.a = 2
+      c.b.x = [3]
+    })
+    expect(out).toContain('a: 2 # keep me\n')
+    expect(out).toContain('  x: [ 3 ]\n')
+    expect(out).toContain("  z: 'quoted'\n")
+  })
+
+  it('appends new keys and list items after the last existing entry', () => {
+    const out = patch((c) => {
+      c.b.y.push('s')
+      c.b.w = { deep: true }
+      c.c = 'end'
+    })
+    expect(out).toContain('      r: 2   # tail\n    - s\n\n  z:')
+    expect(out).toContain("  z: 'quoted'\n  w:\n    deep: true\n")
+    expect(out.endsWith('  - three\nc: end\n')).toBe(true)
+  })
+
+  it('removes keys and list items with their separating blank line', () => {
+    const out = patch((c) => {
+      delete c.b.x
+      c.list = ['one', 'three']
+    })
+    expect(out).toContain('  # inside b\n  y:\n')
+    expect(out).toContain('list:\n  - one\n\n  - three\n')
+  })
+
+  it('keeps the template key order when only the order differs', () => {
+    expect(patch((c) => (c.b = { z: c.b.z, y: c.b.y, x: c.b.x }))).toBe(SOURCE)
+  })
+
+  it('drops a stale generator header', () => {
+    const stamped = `# mc-plugin-manager: generator-version=003; plugin=aa\n${SOURCE}`
+    expect(patchYamlSource(stamped, yaml.parse(SOURCE), YAML_STRINGIFY_OPTIONS)).toBe(SOURCE)
+  })
+
+  it('moves reordered list items to the end instead of rewriting the list', () => {
+    const out = patch((c) => {
+      c.list = ['three', 'one', 'two']
+    })
+    expect(out).toContain('list:\n  - three\n  - one\n  - two\n')
+    expect(out.startsWith('# header comment\na: 1 # keep me\n')).toBe(true)
+  })
+})
@@ -0,0 +1,330 @@
+/**
+ * Comment- and format-preserving YAML output for template merges. Mergers still build the merged
+ * config as plain JS; `patchYamlSource` then rewrites only the template nodes whose value differs,
+ * using the node ranges of the parsed Document. Comments, anchors, key order, quoting and blank
+ * lines everywhere else are copied from the template byte-for-byte.
+ *
+ * Structural edits stay line-based: block map pairs and block sequence items are removed or
+ * appended as whole lines, and a changed scalar or flow collection is re-rendered with its key.
+ * Anything the patcher cannot express in place (reordered keys, items inserted mid-list) falls back
+ * to re-rendering the enclosing node; a document that does not round-trip falls back to a full
+ * `yaml.stringify` so the output is always equal to `target`.
+ */
+import type {
+  CreateNodeOptions,
+  Document,
+  DocumentOptions,
+  Node,
+  Pair,
+  SchemaOptions,
+  ToStringOptions,
+  YAMLMap,
+  YAMLSeq,
+} from 'yaml'
+import { stripGeneratorVersionCommentLines } from './generatorVersionHeader'
+
+const yaml: typeof import('yaml') = require('yaml')
+
+type StringifyOptions = DocumentOptions & SchemaOptions & CreateNodeOptions & ToStringOptions
+type YamlPair = Pair<unknown, unknown>
+/** A parsed template node; pairs and nodes both carry source ranges. */
+type Ranged = Node | YamlPair
+
+interface Edit {
+  start: number
+  end: number
+  text: string
+}
+
+interface PatchContext {
+  source: string
+  doc: Document
+  options: StringifyOptions
+  edits: Edit[]
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  if (Array.isArray(a)) {
+    const bArr = b as unknown[]
+    return a.length === bArr.length && a.every((v, i) => deepEqual(v, bArr[i]))
+  }
+  const aObj = a as Record<string, unknown>
+  const bObj = b as Record<string, unknown>
+  const aKeys = Object.keys(aObj).filter((k) => aObj[k] !== undefined)
+  const bKeys = Object.keys(bObj).filter((k) => bObj[k] !== undefined)
+  return aKeys.length === bKeys.length && aKeys.every((k) => deepEqual(aObj[k], bObj[k]))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function toJS(ctx: PatchContext, node: unknown): unknown {
+  return yaml.isNode(node) ? node.toJS(ctx.doc) : node
+}
+
+/** Source range of a parsed node; every node of a parsed Document has one. */
+function rangeOf(node: Node): [number, number, number] {
+  if (!node.range) throw new Error('YAML node has no source range')
+  return node.range
+}
+
+function keyNode(pair: YamlPair): Node {
+  if (!yaml.isNode(pair.key)) throw new Error('YAML pair key is not a node')
+  return pair.key
+}
+
+function lineStart(source: string, pos: number): number {
+  return source.lastIndexOf('\n', pos - 1) + 1
+}
+
+/** Position after the newline ending the line that contains `pos` (or `pos` if it starts a line). */
+function lineEndAfter(source: string, pos: number): number {
+  if (pos > 0 && source[pos - 1] === '\n') return pos
+  const nl = source.indexOf('\n', pos)
+  return nl === -1 ? source.length : nl + 1
+}
+
+/** End of a node's own content, excluding comments and blank lines that follow it. */
+function contentEnd(node: Ranged): number {
+  if (yaml.isPair(node)) return yaml.isNode(node.value) ? contentEnd(node.value) : rangeOf(keyNode(node))[1]
+  if ((yaml.isMap(node) || yaml.isSeq(node)) && !node.flow && node.items.length > 0) {
+    return contentEnd(node.items[node.items.length - 1] as Ranged)
+  }
+  return rangeOf(node)[1]
+}
+
+function isBlankPrefix(source: string, pos: number): boolean {
+  return source.slice(lineStart(source, pos), pos).trim() === ''
+}
+
+/** Indent every line after the first by `indent` spaces; drop the trailing newline at EOF. */
+function placeRendered(ctx: PatchContext, rendered: string, indent: number, end: number): string {
+  const pad = ' '.repeat(indent)
+  const lines = rendered.replace(/\n$/, '').split('\n')
+  const text = lines.map((line, i) => (i === 0 || line === '' ? line : pad + line)).join('\n')
+  return end === ctx.source.length && !ctx.source.endsWith('\n') ? text : `${text}\n`
+}
+
+function scalarKey(pair: YamlPair): unknown {
+  return yaml.isScalar(pair.key) ? pair.key.value : pair.key
+}
+
+function renderPair(ctx: PatchContext, key: string, value: unknown): string {
+  return yaml.stringify({ [key]: value }, ctx.options)
+}
+
+/** Replace a whole `key: value` pair, keeping the template's key text. */
+function replacePair(ctx: PatchContext, pair: YamlPair, value: unknown): void {
+  const [start, keyEnd] = rangeOf(keyNode(pair))
+  const end = lineEndAfter(ctx.source, contentEnd(pair))
+  let rendered = renderPair(ctx, String(scalarKey(pair)), value)
+  const renderedDoc = yaml.parseDocument(rendered).contents
+  if (!yaml.isMap(renderedDoc)) throw new Error('Rendered pair is not a map')
+  const renderedKey = rangeOf(keyNode(renderedDoc.items[0]!))[1]
+  rendered = ctx.source.slice(start, keyEnd) + rendered.slice(renderedKey)
+  ctx.edits.push({ start, end, text: placeRendered(ctx, rendered, start - lineStart(ctx.source, start), end) })
+}
+
+/** Maps and lists of maps read better as block YAML than as one long flow line. */
+function needsBlockLayout(value: unknown): boolean {
+  if (isPlainObject(value)) return Object.keys(value).length > 0
+  return Array.isArray(value) && value.some(isPlainObject)
+}
+
+/**
+ * Replace a scalar or flow collection where it stands, keeping a trailing comment. Returns false
+ * when the new value needs block layout: a collection replacing a scalar, multi-line text, or an
+ * empty flow placeholder (`key: {}`) or flow collection that now holds maps.
+ */
+function replaceInline(ctx: PatchContext, node: Node, value: unknown): boolean {
+  if (yaml.isMap(node) || yaml.isSeq(node)) {
+    if (!node.flow || node.items.length === 0 || needsBlockLayout(value)) return false
+  } else if (!yaml.isScalar(node) || (value != null && typeof value === 'object')) {
+    return false
+  }
+  const rendered = yaml.stringify(value, { ...ctx.options, collectionStyle: 'flow' }).replace(/\n$/, '')
+  if (rendered.includes('\n') || /^[|>]/.test(rendered)) return false
+  const [start, end] = rangeOf(node)
+  ctx.edits.push({ start, end, text: rendered })
+  return true
+}
+
+/** Position of the `- ` introducing a block sequence item. */
+function dashPos(ctx: PatchContext, item: Node): number {
+  return ctx.source.lastIndexOf('-', rangeOf(item)[0] - 1)
+}
+
+/** Replace a block sequence item (the text after its `- `). */
+function replaceItem(ctx: PatchContext, item: Node, value: unknown): void {
+  const start = rangeOf(item)[0]
+  const end = lineEndAfter(ctx.source, contentEnd(item))
+  const rendered = yaml.stringify([value], ctx.options).replace(/^- /, '')
+  const dash = dashPos(ctx, item)
+  ctx.edits.push({ start, end, text: placeRendered(ctx, rendered, dash - lineStart(ctx.source, dash), end) })
+}
+
+function isBlankLine(source: string, start: number): boolean {
+  const nl = source.indexOf('\n', start)
+  return source.slice(start, nl === -1 ? source.length : nl).trim() === ''
+}
+
+/**
+ * Remove a pair or item's lines. The first entry, and any entry preceded by a blank line, takes
+ * the blank lines after it too, so removing entries from a blank-separated list keeps one
+ * separator. The last entry keeps them: new entries are appended right after its content.
+ */
+function removeLines(ctx: PatchContext, start: number, node: Ranged, siblings: Ranged[]): void {
+  const from = lineStart(ctx.source, start)
+  let end = lineEndAfter(ctx.source, contentEnd(node))
+  const first = node === siblings[0]
+  const last = node === siblings[siblings.length - 1]
+  if (!last && (first || from === 0 || isBlankLine(ctx.source, lineStart(ctx.source, from - 1)))) {
+    while (end < ctx.source.length && isBlankLine(ctx.source, end)) end = lineEndAfter(ctx.source, end + 1)
+  }
+  ctx.edits.push({ start: from, end, text: '' })
+}
+
+/** Insert whole lines at `pos` (a line start), indented by `indent`. */
+function insertLines(ctx: PatchContext, pos: number, rendered: string, indent: number): void {
+  const pad = ' '.repeat(indent)
+  const body = rendered
+    .replace(/\n$/, '')
+    .split('\n')
+    .map((line) => (line === '' ? line : pad + line))
+    .join('\n')
+  const lead = pos > 0 && ctx.source[pos - 1] !== '\n' ? '\n' : ''
+  ctx.edits.push({ start: pos, end: pos, text: `${lead}${body}\n` })
+}
+
+/** Patch a block map in place; returns false (with no edits made) when it must be re-rendered whole. */
+function patchMap(ctx: PatchContext, node: YAMLMap, target: Record<string, unknown>): boolean {
+  const pairs = node.items as YamlPair[]
+  if (pairs.length === 0 || pairs.some((p) => !yaml.isScalar(p.key))) return false
+  const targetKeys = Object.keys(target).filter((k) => target[k] !== undefined)
+  const sourceKeys = pairs.map((p) => String(scalarKey(p)))
+  const keyStart = (p: YamlPair) => rangeOf(keyNode(p))[0]
+  const kept = sourceKeys.filter((k) => targetKeys.includes(k))
+  if (kept.length === 0) return false
+  if (targetKeys.filter((k) => sourceKeys.includes(k)).some((k, i) => k !== kept[i])) return false
+
+  // New keys are grouped behind the nearest preceding kept key (or before the first template pair).
+  const groups: Array<{ after: YamlPair | undefined; keys: string[] }> = []
+  let after: YamlPair | undefined
+  for (const key of targetKeys) {
+    const index = sourceKeys.indexOf(key)
+    if (index !== -1) {
+      after = pairs[index]
+      continue
+    }
+    const last = groups[groups.length - 1]
+    if (last && last.after === after) last.keys.push(key)
+    else groups.push({ after, keys: [key] })
+  }
+  const removed = pairs.filter((p) => !kept.includes(String(scalarKey(p))))
+  if (removed.some((p) => !isBlankPrefix(ctx.source, keyStart(p)))) return false
+  const firstStart = keyStart(pairs[0]!)
+  if (groups.some((g) => !g.after) && !isBlankPrefix(ctx.source, firstStart)) return false
+
+  const indent = firstStart - lineStart(ctx.source, firstStart)
+  for (const pair of removed) removeLines(ctx, keyStart(pair), pair, pairs)
+  for (const group of groups) {
+    const pos = group.after
+      ? lineEndAfter(ctx.source, contentEnd(group.after))
+      : lineStart(ctx.source, firstStart)
+    const block = Object.fromEntries(group.keys.map((k) => [k, target[k]]))
+    insertLines(ctx, pos, yaml.stringify(block, ctx.options), indent)
+  }
+  for (const pair of pairs) {
+    const key = String(scalarKey(pair))
+    if (kept.includes(key)) {
+      patchValue(ctx, pair.value, target[key], () => replacePair(ctx, pair, target[key]))
+    }
+  }
+  return true
+}
+
+/**
+ * Patch a block sequence: template items are matched in order to equal target items, unmatched
+ * template items are removed and target items past the last match are appended. Same-length
+ * sequences with no equal items are patched item by item.
+ */
+function patchSeq(ctx: PatchContext, node: YAMLSeq, target: unknown[]): boolean {
+  const items = node.items as Node[]
+  if (items.length === 0) return false
+  const values = items.map((item) => toJS(ctx, item))
+  const matched = new Set<number>()
+  let next = 0
+  let appendFrom = target.length
+  for (let t = 0; t < target.length; t++) {
+    let k = next
+    while (k < items.length && !deepEqual(values[k], target[t])) k++
+    if (k === items.length) {
+      appendFrom = t
+      break
+    }
+    matched.add(k)
+    next = k + 1
+  }
+  if (matched.size === 0) {
+    if (items.length !== target.length) return false
+    items.forEach((item, i) => patchValue(ctx, item, target[i], () => replaceItem(ctx, item, target[i])))
+    return true
+  }
+  const removed = items.filter((_, i) => !matched.has(i))
+  if (removed.some((item) => !isBlankPrefix(ctx.source, dashPos(ctx, item)))) return false
+
+  for (const item of removed) removeLines(ctx, dashPos(ctx, item), item, items)
+  const extra = target.slice(appendFrom)
+  if (extra.length > 0) {
+    const last = items[items.length - 1]!
+    const dash = dashPos(ctx, last)
+    const pos = lineEndAfter(ctx.source, contentEnd(last))
+    insertLines(ctx, pos, yaml.stringify(extra, ctx.options), dash - lineStart(ctx.source, dash))
+  }
+  return true
+}
+
+function patchValue(ctx: PatchContext, node: unknown, target: unknown, replace: () => void): void {
+  if (deepEqual(toJS(ctx, node), target)) return
+  if (yaml.isMap(node) && !node.flow && isPlainObject(target) && patchMap(ctx, node, target)) return
+  if (yaml.isSeq(node) && !node.flow && Array.isArray(target) && patchSeq(ctx, node, target)) return
+  if (yaml.isNode(node) && rangeOf(node)[1] > rangeOf(node)[0] && replaceInline(ctx, node, target)) return
+  replace()
+}
+
+/**
+ * Edits use template offsets and never overlap. Applied back to front; at equal starts a removal
+ * goes before an insertion, and insertions keep push order so a parent's new sibling lands after
+ * lines appended to its preceding child.
+ */
+function applyEdits(source: string, edits: Edit[]): string {
+  const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end)
+  let out = source
+  for (const edit of sorted) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end)
+  }
+  return out
+}
+
+/**
+ * Rewrite `source` (a template's text) so it parses to `target`, touching only the nodes whose
+ * value changed. New or replaced nodes are rendered with `options`. Leading generator-version
+ * header lines are dropped, since the build stamps a fresh header.
+ */
+export function patchYamlSource(rawSource: string, target: unknown, options: StringifyOptions): string {
+  const source = stripGeneratorVersionCommentLines(rawSource)
+  const doc = yaml.parseDocument(source)
+  const fallback = () => yaml.stringify(target, options)
+  if (doc.errors.length > 0 || !yaml.isMap(doc.contents) || doc.contents.flow || !isPlainObject(target)) {
+    return fallback()
+  }
+  const ctx: PatchContext = { source, doc, options, edits: [] }
+  if (!deepEqual(doc.toJS(), target) && !patchMap(ctx, doc.contents, target)) return fallback()
+  const patched = applyEdits(source, ctx.edits)
+  const reparsed = yaml.parseDocument(patched)
+  return reparsed.errors.length === 0 && deepEqual(reparsed.toJS(), target) ? patched : fallback()
+}
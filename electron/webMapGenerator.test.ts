@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import yaml from 'yaml'
+import type { RegionGeometry, RegionRecord, ServerProfile } from './types'
+import {
+  collectWebMapLayers,
+  renderBlueMapMarkers,
+  renderDynmapMarkers,
+  renderSquaremapMarkers,
+} from './webMapGenerator'
+
+function region(id: string, kind: RegionRecord['kind'], extra: Partial<RegionRecord> = {}): RegionRecord {
+  return { world: 'overworld', id, kind, discover: { method: 'on_enter', recipeId: 'region' }, ...extra }
+}
+
+const profile = {
+  regions: [
+    region('spawn', 'system'),
+    region('cherrybrook', 'region', { description: 'Rolling hills' }),
+    region('rotherhithe', 'village'),
+    region('heart_of_monkvos', 'heart'),
+    region('old_mine', 'structure', { structureType: 'mine' }),
+    region('lost_keep', 'structure', { structureType: 'mine', discover: { method: 'disabled', recipeId: 'none' } }),
+  ],
+  regionsMeta: { structureFamilies: { mine: { label: 'Abandoned mine', counter: 'mines' } } },
+} as unknown as ServerProfile
+
+const cuboid = (x: number, z: number): RegionGeometry => ({
+  type: 'cuboid',
+  min: { x, y: -64, z },
+  max: { x: x + 9, y: 319, z: z + 9 },
+})
+
+const geometry: Record<string, RegionGeometry> = {
+  spawn: cuboid(0, 0),
+  cherrybrook: {
+    type: 'poly2d',
+    min: { x: 0, y: 40, z: 0 },
+    max: { x: 100, y: 120, z: 80 },
+    points: [
+      { x: 0, z: 0 },
+      { x: 100, z: 0 },
+      { x: 50, z: 80 },
+    ],
+  },
+  rotherhithe: cuboid(200, 200),
+  heart_of_monkvos: cuboid(-50, 10),
+  lost_keep: cuboid(300, -300),
+}
+
+describe('collectWebMapLayers', () => {
+  it('groups regions into kind layers with outlines and labels', () => {
+    const { layers, missing } = collectWebMapLayers(profile, 'overworld', geometry, {})
+    expect(layers.map((l) => [l.id, l.markers.map((m) => m.id)])).toEqual([
+      ['regions', ['cherrybrook']],
+      ['villages', ['rotherhithe']],
+      ['hearts', ['heart_of_monkvos']],
+      ['structures', ['lost_keep']],
+    ])
+    expect(missing).toEqual(['old_mine'])
+
+    const [village] = layers[1].markers
+    expect(village).toMatchObject({ label: 'Rotherhithe', minY: -64, maxY: 319, center: { x: 205, y: 63, z: 205 } })
+    expect(village.outline).toEqual([
+      { x: 200, z: 200 },
+      { x: 210, z: 200 },
+      { x: 210, z: 210 },
+      { x: 200, z: 210 },
+    ])
+    expect(layers[0].markers[0]).toMatchObject({ detail: 'Rolling hills', center: { y: 63 } })
+    expect(layers[3].markers[0].detail).toBe('Abandoned mine')
+  })
+
+  it('prefers geometry stored on the region over the export', () => {
+    const stored = { ...profile, regions: [region('rotherhithe', 'village', { geometry: cuboid(-100, -100) })] }
+    const { layers } = collectWebMapLayers(stored as ServerProfile, 'overworld', geometry, {})
+    expect(layers[1].markers[0].center).toMatchObject({ x: -95, z: -95 })
+  })
+
+  it('leaves out on-enter POIs when hiding undiscovered ones', () => {
+    const { layers, missing } = collectWebMapLayers(profile, 'overworld', geometry, { hideUndiscoveredPois: true })
+    expect(layers.find((l) => l.id === 'hearts')?.markers).toEqual([])
+    expect(layers.find((l) => l.id === 'structures')?.markers.map((m) => m.id)).toEqual(['lost_keep'])
+    expect(layers.find((l) => l.id === 'villages')?.markers).toHaveLength(1)
+    expect(missing).toEqual([])
+  })
+})
+
+describe('web map renderers', () => {
+  const { layers } = collectWebMapLayers(profile, 'overworld', geometry, {})
+
+  it('writes BlueMap marker sets as HOCON-compatible JSON', () => {
+    const sets = JSON.parse(renderBlueMapMarkers(layers))['marker-sets']
+    expect(Object.keys(sets)).toEqual(['pm-regions', 'pm-villages', 'pm-hearts', 'pm-structures'])
+    expect(sets['pm-villages'].markers.rotherhithe).toMatchObject({
+      type: 'shape',
+      label: 'Rotherhithe',
+      'shape-y': 63,
+      'line-color': { r: 0xe8, g: 0x59, b: 0x0c, a: 1 },
+    })
+  })
+
+  it('writes squaremap polygon layers', () => {
+    const doc = yaml.parse(renderSquaremapMarkers(layers))
+    expect(doc.layers[0]).toMatchObject({ id: 'pm_regions', name: 'Regions' })
+    expect(doc.layers[0].markers[0]).toMatchObject({ id: 'cherrybrook', type: 'polygon', popup: 'Rolling hills' })
+  })
+
+  it('writes Dynmap areas for every world into one markers.yml', () => {
+    const nether = collectWebMapLayers(
+      { ...profile, regions: [region('ashen', 'region', { world: 'nether' })] } as ServerProfile,
+      'nether',
+      { ashen: cuboid(5, 5) },
+      {}
+    )
+    const doc = yaml.parse(
+      renderDynmapMarkers([
+        { world: 'overworld', worldFolder: 'world', layers },
+        { world: 'nether', worldFolder: 'world_nether', layers: nether.layers },
+      ])
+    )
+    expect(Object.keys(doc.sets.pm_regions.areas)).toEqual(['world_cherrybrook', 'world_nether_ashen'])
+    expect(doc.sets.pm_regions.areas.world_nether_ashen).toMatchObject({
+      world: 'world_nether',
+      x: [5, 15, 15, 5],
+      z: [5, 5, 15, 15],
+      ytop: 319,
+      ybottom: -64,
+      fillColor: 0x2f9e44,
+    })
+  })
+})
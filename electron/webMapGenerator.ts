@@ -0,0 +1,223 @@
+/**
+ * Web map markers: region footprints (stored on the profile, or read from the Region Forge exports
+ * for regions imported before geometry was kept), grouped into one layer per kind, rendered for
+ * BlueMap (HOCON marker-sets), squaremap (layer YAML) and Dynmap (markers.yml).
+ */
+const yaml = require('yaml')
+import type { RegionGeometry, RegionRecord, ServerProfile, WebMapFormat, WebMapSettings } from './types'
+import { formatRegionLabel } from './shared/stringFormatters'
+import { regionCentroid, regionOutline } from './shared/regionGeometry'
+import { YAML_STRINGIFY_OPTIONS } from './utils/yamlOptions'
+
+export type WebMapWorld = RegionRecord['world']
+
+export const WEB_MAP_FORMATS: WebMapFormat[] = ['bluemap', 'squaremap', 'dynmap']
+
+export const WEB_MAP_WORLDS: WebMapWorld[] = ['overworld', 'nether', 'end']
+
+interface LayerSpec {
+  id: string
+  label: string
+  kinds: RegionRecord['kind'][]
+  /** Found by walking in; on-enter discoveries are left out when `hideUndiscoveredPois` is on. */
+  poi: boolean
+  color: string
+}
+
+/** Layer order is draw order; system and water regions get no markers. */
+const LAYERS: LayerSpec[] = [
+  { id: 'regions', label: 'Regions', kinds: ['region'], poi: false, color: '#2f9e44' },
+  { id: 'villages', label: 'Villages', kinds: ['village'], poi: false, color: '#e8590c' },
+  { id: 'hearts', label: 'Hearts', kinds: ['heart', 'nerve'], poi: true, color: '#c2255c' },
+  { id: 'structures', label: 'Structures', kinds: ['structure'], poi: true, color: '#7048e8' },
+]
+
+/** Height the flat BlueMap shape is drawn at, clamped into the region's y-range. */
+const SHAPE_Y = 63
+
+export interface WebMapMarker {
+  id: string
+  label: string
+  detail?: string
+  /** Footprint outline (x/z), without repeating the first point. */
+  outline: Array<{ x: number; z: number }>
+  minY: number
+  maxY: number
+  center: { x: number; y: number; z: number }
+}
+
+export interface WebMapLayer {
+  id: string
+  label: string
+  color: string
+  markers: WebMapMarker[]
+}
+
+export interface WebMapWorldLayers {
+  world: WebMapWorld
+  /** Folder under the map plugin's world directory (same as the WorldGuard world folder). */
+  worldFolder: string
+  layers: WebMapLayer[]
+}
+
+function markerFor(region: RegionRecord, geometry: RegionGeometry, profile: ServerProfile): WebMapMarker {
+  const family = region.structureType ? profile.regionsMeta?.structureFamilies?.[region.structureType] : undefined
+  const detail = region.description?.trim() || family?.label
+  const centroid = regionCentroid(geometry)
+  return {
+    id: region.id,
+    label: formatRegionLabel(region),
+    ...(detail ? { detail } : {}),
+    outline: regionOutline(geometry),
+    minY: geometry.min.y,
+    maxY: geometry.max.y,
+    center: { x: centroid.x, y: Math.min(Math.max(SHAPE_Y, geometry.min.y), geometry.max.y), z: centroid.z },
+  }
+}
+
+/**
+ * Marker layers for one world. Stored `region.geometry` wins; `exportGeometry` (by id) fills in the
+ * rest. Regions with neither are listed in `missing` (by id) instead of being drawn; empty layers
+ * are kept so toggles stay stable between builds.
+ */
+export function collectWebMapLayers(
+  profile: ServerProfile,
+  world: WebMapWorld,
+  exportGeometry: Record<string, RegionGeometry>,
+  settings: WebMapSettings
+): { layers: WebMapLayer[]; missing: string[] } {
+  const missing: string[] = []
+  const layers = LAYERS.map((spec) => {
+    const markers: WebMapMarker[] = []
+    for (const region of profile.regions) {
+      if (region.world !== world || !spec.kinds.includes(region.kind)) continue
+      if (spec.poi && settings.hideUndiscoveredPois && region.discover.method === 'on_enter') continue
+      const g = region.geometry ?? exportGeometry[region.id]
+      if (!g) {
+        missing.push(region.id)
+        continue
+      }
+      markers.push(markerFor(region, g, profile))
+    }
+    markers.sort((a, b) => a.id.localeCompare(b.id))
+    return { id: spec.id, label: spec.label, color: spec.color, markers }
+  })
+  return { layers, missing }
+}
+
+function hexToRgb(color: string): { r: number; g: number; b: number } {
+  const n = parseInt(color.slice(1), 16)
+  return { r: (n >> 16) & 0xff, g: (n >> 8) & 0xff, b: n & 0xff }
+}
+
+/** BlueMap `marker-sets` block for one map; JSON is valid HOCON, so the map config can include it. */
+export function renderBlueMapMarkers(layers: WebMapLayer[]): string {
+  const markerSets: Record<string, unknown> = {}
+  for (const [index, layer] of layers.entries()) {
+    const rgb = hexToRgb(layer.color)
+    const markers: Record<string, unknown> = {}
+    for (const m of layer.markers) {
+      markers[m.id] = {
+        type: 'shape',
+        label: m.label,
+        ...(m.detail ? { detail: m.detail } : {}),
+        position: m.center,
+        shape: m.outline,
+        'shape-y': m.center.y,
+        'line-width': 2,
+        'line-color': { ...rgb, a: 1 },
+        'fill-color': { ...rgb, a: 0.3 },
+        'depth-test': false,
+      }
+    }
+    markerSets[`pm-${layer.id}`] = {
+      label: layer.label,
+      toggleable: true,
+      'default-hidden': false,
+      sorting: index,
+      markers,
+    }
+  }
+  return `${JSON.stringify({ 'marker-sets': markerSets }, null, 2)}\n`
+}
+
+/** squaremap layers for one world, in the shape of squaremap's web marker layers. */
+export function renderSquaremapMarkers(layers: WebMapLayer[]): string {
+  const doc = {
+    layers: layers.map((layer, index) => ({
+      id: `pm_${layer.id}`,
+      name: layer.label,
+      order: index,
+      z_index: index,
+      show_controls: true,
+      default_hidden: false,
+      markers: layer.markers.map((m) => ({
+        id: m.id,
+        type: 'polygon',
+        points: m.outline,
+        tooltip: m.label,
+        ...(m.detail ? { popup: m.detail } : {}),
+        color: layer.color,
+        weight: 2,
+        opacity: 1,
+        fill_color: layer.color,
+        fill_opacity: 0.3,
+      })),
+    })),
+  }
+  return yaml.stringify(doc, YAML_STRINGIFY_OPTIONS)
+}
+
+/** Dynmap markers.yml: one set per layer, areas from every world (keyed `<worldFolder>_<id>`). */
+export function renderDynmapMarkers(worlds: WebMapWorldLayers[]): string {
+  const sets: Record<string, unknown> = {}
+  for (const [index, spec] of LAYERS.entries()) {
+    const areas: Record<string, unknown> = {}
+    for (const { worldFolder, layers } of worlds) {
+      const layer = layers.find((l) => l.id === spec.id)
+      if (!layer) continue
+      const color = parseInt(layer.color.slice(1), 16)
+      for (const m of layer.markers) {
+        areas[`${worldFolder}_${m.id}`] = {
+          world: worldFolder,
+          label: m.label,
+          markup: false,
+          ...(m.detail ? { desc: m.detail } : {}),
+          x: m.outline.map((p) => p.x),
+          z: m.outline.map((p) => p.z),
+          ytop: m.maxY,
+          ybottom: m.minY,
+          strokeWeight: 2,
+          strokeOpacity: 1,
+          strokeColor: color,
+          fillOpacity: 0.3,
+          fillColor: color,
+        }
+      }
+    }
+    sets[`pm_${spec.id}`] = {
+      label: spec.label,
+      hide: false,
+      layerprio: index,
+      showlabels: false,
+      markers: {},
+      areas,
+      lines: {},
+      circles: {},
+    }
+  }
+  return yaml.stringify({ sets }, YAML_STRINGIFY_OPTIONS)
+}
+
+/** Flat build-copy suffix (after `<server>-`); Dynmap has one file for all worlds. */
+export function webMapFlatSuffix(format: WebMapFormat, world: WebMapWorld): string {
+  if (format === 'dynmap') return 'webmap-dynmap-markers.yml'
+  return `webmap-${format}-${world}.${format === 'bluemap' ? 'conf' : 'yml'}`
+}
+
+/** Propagated path under the plugins root. */
+export function webMapRelativePath(format: WebMapFormat, worldFolder: string): string {
+  if (format === 'dynmap') return 'dynmap/markers.yml'
+  if (format === 'bluemap') return `BlueMap/markers/${worldFolder}.conf`
+  return `squaremap/markers/${worldFolder}.yml`
+}
@@ -1,16 +1,26 @@
 import { useState } from 'react'
 import { AppShell, Button, Group, Text } from '@mantine/core'
-import { IconGitCompare, IconPlug, IconBooks, IconPackage } from '@tabler/icons-react'
+import { IconGitCompare, IconFileAlert, IconPlug, IconBooks, IconPackage, IconTemplate } from '@tabler/icons-react'
 import { ServerProfilesScreen } from './screens/ServerProfilesScreen'
 import { ServerDetailScreen } from './screens/ServerDetailScreen'
 import { PluginFolderCompareScreen } from './screens/PluginFolderCompareScreen'
+import { DriftCheckScreen } from './screens/DriftCheckScreen'
 import { DropTableLibraryScreen } from './screens/DropTableLibraryScreen'
 import { DropTableEditorScreen } from './screens/DropTableEditorScreen'
 import { CrateLibraryScreen } from './screens/CrateLibraryScreen'
 import { CrateEditorScreen } from './screens/CrateEditorScreen'
+import { TemplateLibraryScreen } from './screens/TemplateLibraryScreen'
 import type { ServerProfile } from './types'
 
-type ShellView = 'servers' | 'comparePlugins' | 'dropTableLibrary' | 'dropTableEditor' | 'crateLibrary' | 'crateEditor'
+type ShellView =
+  | 'servers'
+  | 'comparePlugins'
+  | 'driftCheck'
+  | 'dropTableLibrary'
+  | 'dropTableEditor'
+  | 'crateLibrary'
+  | 'crateEditor'
+  | 'templateLibrary'
 
 function App() {
   const [currentServer, setCurrentServer] = useState<ServerProfile | null>(null)
@@ -63,12 +73,20 @@ function App() {
                 >
                   Crate library
                 </Button>
+                <Button
+                  variant="light"
+                  leftSection={<IconTemplate size={18} />}
+                  onClick={() => setShellView('templateLibrary')}
+                >
+                  Template library
+                </Button>
               </>
             )}
             {(shellView === 'dropTableLibrary' ||
               shellView === 'dropTableEditor' ||
               shellView === 'crateLibrary' ||
-              shellView === 'crateEditor') && (
+              shellView === 'crateEditor' ||
+              shellView === 'templateLibrary') && (
               <Button variant="light" onClick={() => setShellView('servers')}>
                 Back to servers
               </Button>
@@ -82,6 +100,15 @@ function App() {
                 Compare plugin folders
               </Button>
             )}
+            {shellView === 'servers' && !currentServer && (
+              <Button
+                variant="light"
+                leftSection={<IconFileAlert size={18} />}
+                onClick={() => setShellView('driftCheck')}
+              >
+                Drift check
+              </Button>
+            )}
           </Group>
         </Group>
       </AppShell.Header>
@@ -93,6 +120,12 @@ function App() {
               setShellView('servers')
             }}
           />
+        ) : shellView === 'driftCheck' ? (
+          <DriftCheckScreen
+            onBack={() => {
+              setShellView('servers')
+            }}
+          />
         ) : shellView === 'dropTableLibrary' ? (
           <DropTableLibraryScreen
             onCreateTable={() => openDropTableEditor(undefined)}
@@ -103,6 +136,8 @@ function App() {
             onCreateCrate={() => openCrateEditor(undefined)}
             onEditCrate={(id) => openCrateEditor(id)}
           />
+        ) : shellView === 'templateLibrary' ? (
+          <TemplateLibraryScreen />
         ) : shellView === 'crateEditor' ? (
           <CrateEditorScreen
             crateId={editorCrateId}
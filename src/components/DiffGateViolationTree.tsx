@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { Badge, Code, Group, Stack, Text, UnstyledButton } from '@mantine/core'
+import type { DiffGateReport, DiffGateViolation } from '../types'
+
+const KIND_BADGE: Record<DiffGateViolation['kind'], { label: string; color: string }> = {
+  added: { label: 'Added', color: 'green' },
+  removed: { label: 'Removed', color: 'red' },
+  changed: { label: 'Changed', color: 'yellow' },
+}
+
+interface PathNode {
+  label: string
+  children: PathNode[]
+  violations: DiffGateViolation[]
+}
+
+function segmentLabel(segment: string | number): string {
+  return typeof segment === 'number' ? `[${segment}]` : segment
+}
+
+/** Groups violations under their YAML path, one node per key or list index. */
+function buildPathTree(violations: DiffGateViolation[]): PathNode {
+  const root: PathNode = { label: '', children: [], violations: [] }
+  for (const v of violations) {
+    let node = root
+    for (const segment of v.path) {
+      const label = segmentLabel(segment)
+      let child = node.children.find((c) => c.label === label)
+      if (!child) {
+        child = { label, children: [], violations: [] }
+        node.children.push(child)
+      }
+      node = child
+    }
+    node.violations.push(v)
+  }
+  return root
+}
+
+function countViolations(node: PathNode): number {
+  return node.violations.length + node.children.reduce((n, c) => n + countViolations(c), 0)
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(none)' : JSON.stringify(value, null, 2)
+}
+
+/** Names of the compared sides; without `showRule` the covering-rule hint is omitted. */
+interface SideLabels {
+  before: string
+  after: string
+  showRule: boolean
+}
+
+const GATE_LABELS: SideLabels = { before: 'Template', after: 'Generated', showRule: true }
+
+function ViolationDetail({ violation, labels }: { violation: DiffGateViolation; labels: SideLabels }) {
+  const badge = KIND_BADGE[violation.kind]
+  return (
+    <Stack gap={2} pl="md">
+      <Badge size="xs" variant="light" color={badge.color} w="fit-content">
+        {badge.label}
+      </Badge>
+      {violation.kind !== 'added' && (
+        <Text size="xs">
+          {labels.before}: <Code block>{formatValue(violation.before)}</Code>
+        </Text>
+      )}
+      {violation.kind !== 'removed' && (
+        <Text size="xs">
+          {labels.after}: <Code block>{formatValue(violation.after)}</Code>
+        </Text>
+      )}
+      {labels.showRule && (
+        <Text size="xs" c="dimmed">
+          Would need an ownership rule for <Code>{violation.coveringRule}</Code>
+        </Text>
+      )}
+    </Stack>
+  )
+}
+
+function PathNodeView({ node, depth, labels }: { node: PathNode; depth: number; labels: SideLabels }) {
+  const [open, setOpen] = useState(depth < 2)
+  const count = countViolations(node)
+  return (
+    <Stack gap={2} pl={depth === 0 ? 0 : 'sm'}>
+      <UnstyledButton onClick={() => setOpen((o) => !o)}>
+        <Group gap={6}>
+          <Text size="xs" ff="monospace">
+            {open ? '▾' : '▸'} {node.label}
+          </Text>
+          <Text size="xs" c="dimmed">
+            {count}
+          </Text>
+        </Group>
+      </UnstyledButton>
+      {open && (
+        <>
+          {node.violations.map((v, i) => (
+            <ViolationDetail key={i} violation={v} labels={labels} />
+          ))}
+          {node.children.map((child) => (
+            <PathNodeView key={child.label} node={child} depth={depth + 1} labels={labels} />
+          ))}
+        </>
+      )}
+    </Stack>
+  )
+}
+
+function PathTree({ violations, labels }: { violations: DiffGateViolation[]; labels: SideLabels }) {
+  const root = buildPathTree(violations)
+  return (
+    <>
+      {root.violations.map((v, i) => (
+        <ViolationDetail key={i} violation={v} labels={labels} />
+      ))}
+      {root.children.map((child) => (
+        <PathNodeView key={child.label} node={child} depth={0} labels={labels} />
+      ))}
+    </>
+  )
+}
+
+/** Expandable tree of the template changes that failed a plugin's diff gate. */
+export function DiffGateViolationTree({ report }: { report: DiffGateReport }) {
+  return (
+    <Stack gap={4}>
+      <Text size="xs" c="dimmed">
+        {report.violations.length} change(s) outside owned keys in <Code>{report.templatePath}</Code>
+      </Text>
+      <PathTree violations={report.violations} labels={GATE_LABELS} />
+    </Stack>
+  )
+}
+
+/** The same tree for any pair of YAML documents, with the given names for the two sides. */
+export function YamlChangeTree({
+  changes,
+  beforeLabel,
+  afterLabel,
+}: {
+  changes: DiffGateViolation[]
+  beforeLabel: string
+  afterLabel: string
+}) {
+  return (
+    <Stack gap={4}>
+      <PathTree violations={changes} labels={{ before: beforeLabel, after: afterLabel, showRule: false }} />
+    </Stack>
+  )
+}
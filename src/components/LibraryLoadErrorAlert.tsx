@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react'
+import { Alert, Button, Stack, Text } from '@mantine/core'
+import { IconRestore } from '@tabler/icons-react'
+import type { StoredDocumentLoadProblem, StoredLibraryKind } from '../types'
+
+interface LibraryLoadErrorAlertProps {
+  kind: StoredLibraryKind
+  error: string | null
+  onClose?: () => void
+  /** Called after a backup replaced the unreadable library file. */
+  onRecovered: () => void
+}
+
+/**
+ * Error alert for library screens. When the library file itself does not load, it says so and
+ * offers the newest readable backup; edits fail until then rather than overwriting the file.
+ */
+export function LibraryLoadErrorAlert({ kind, error, onClose, onRecovered }: LibraryLoadErrorAlertProps) {
+  const [problem, setProblem] = useState<StoredDocumentLoadProblem | null>(null)
+
+  useEffect(() => {
+    setProblem(null)
+    if (!error) return
+    let cancelled = false
+    window.electronAPI.diagnoseLibrary(kind).then(
+      (p) => {
+        if (!cancelled) setProblem(p)
+      },
+      () => {}
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [kind, error])
+
+  async function handleRecover() {
+    try {
+      const result = await window.electronAPI.recoverLibrary(kind)
+      if (!result.success) {
+        alert(result.error ?? 'Failed to restore backup')
+        return
+      }
+      onRecovered()
+    } catch (e) {
+      console.error('Failed to recover library:', e)
+      alert('Failed to restore backup. See console for details.')
+    }
+  }
+
+  if (!error) return null
+  if (!problem) {
+    return (
+      <Alert color="red" title="Error" withCloseButton={Boolean(onClose)} onClose={onClose}>
+        {error}
+      </Alert>
+    )
+  }
+  return (
+    <Alert color="red" title="Library could not be loaded">
+      <Stack gap="xs" align="flex-start">
+        <Text size="sm" style={{ wordBreak: 'break-word' }}>
+          {problem.error}
+        </Text>
+        {problem.recoverable && problem.backupSavedAtIso ? (
+          <Button size="xs" variant="light" leftSection={<IconRestore size={14} />} onClick={() => void handleRecover()}>
+            Restore backup from {new Date(problem.backupSavedAtIso).toLocaleString()}
+          </Button>
+        ) : (
+          <Text size="xs" c="dimmed">
+            Changes to this library are blocked until the file loads again.
+          </Text>
+        )}
+      </Stack>
+    </Alert>
+  )
+}
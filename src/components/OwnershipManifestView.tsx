@@ -0,0 +1,67 @@
+import { Badge, Code, Stack, Table, Text } from '@mantine/core'
+import type { OwnedItemCondition, OwnedKeyRule, OwnershipManifest } from '@shared/ownershipManifest'
+
+const MODE_BADGE: Record<NonNullable<OwnedKeyRule['mode']>, { label: string; color: string }> = {
+  replace: { label: 'Replaced', color: 'blue' },
+  overwrite: { label: 'Set in place', color: 'grape' },
+  default: { label: 'Added if missing', color: 'gray' },
+}
+
+function describeCondition(cond: OwnedItemCondition): string {
+  if (cond.matches) return `${cond.field} ~ /${cond.matches}/`
+  return `${cond.field} is a ${cond.type ?? 'value'}`
+}
+
+/** Owned keys and list items of one template-merged file; everything else must match the template. */
+export function OwnershipManifestView({ manifest }: { manifest: OwnershipManifest }) {
+  return (
+    <Stack gap={4}>
+      <Text size="xs" c="dimmed">
+        Plugin Manager owns these keys in <Code>{manifest.file}</Code>. Any other change to your template fails the
+        build.
+      </Text>
+      {manifest.summary && (
+        <Text size="xs" c="dimmed">
+          {manifest.summary}
+        </Text>
+      )}
+      {(manifest.keys.length > 0 || (manifest.listItems ?? []).length > 0) && (
+        <Table withRowBorders={false} verticalSpacing={2} fz="xs">
+          <Table.Tbody>
+            {manifest.keys.map((rule) => {
+              const badge = rule.relocatedTo
+                ? { label: `Moved to events/${rule.relocatedTo}.yml`, color: 'teal' }
+                : MODE_BADGE[rule.mode ?? 'replace']
+              return (
+                <Table.Tr key={rule.path}>
+                  <Table.Td>
+                    <Code>{rule.path}</Code>
+                  </Table.Td>
+                  <Table.Td>
+                    <Badge size="xs" variant="light" color={badge.color}>
+                      {badge.label}
+                    </Badge>
+                  </Table.Td>
+                  <Table.Td>{rule.note}</Table.Td>
+                </Table.Tr>
+              )
+            })}
+            {(manifest.listItems ?? []).map((rule) => (
+              <Table.Tr key={`${rule.list}:${rule.note}`}>
+                <Table.Td>
+                  <Code>{`${rule.list}[] where ${rule.where.map(describeCondition).join(' and ')}`}</Code>
+                </Table.Td>
+                <Table.Td>
+                  <Badge size="xs" variant="light" color="blue">
+                    Replaced
+                  </Badge>
+                </Table.Td>
+                <Table.Td>{rule.note}</Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      )}
+    </Stack>
+  )
+}
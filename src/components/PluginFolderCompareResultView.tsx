@@ -0,0 +1,148 @@
+import { Fragment } from 'react'
+import { Text, Group, Stack, Badge, ScrollArea, Table } from '@mantine/core'
+import type { PluginFolderCompareFileResult, PluginFolderCompareResult } from '../types'
+import { SplitDiffView } from './SplitDiffView'
+
+function statusLabel(status: PluginFolderCompareFileResult['status']): string {
+  switch (status) {
+    case 'identical':
+      return 'Identical'
+    case 'different':
+      return 'Different'
+    case 'missing_left':
+      return 'Missing (left)'
+    case 'missing_right':
+      return 'Missing (right)'
+    case 'missing_both':
+      return 'Missing (both)'
+    case 'read_error':
+      return 'Error'
+    default:
+      return status
+  }
+}
+
+function statusColor(status: PluginFolderCompareFileResult['status']): string {
+  switch (status) {
+    case 'identical':
+      return 'green'
+    case 'different':
+      return 'yellow'
+    case 'missing_left':
+    case 'missing_right':
+      return 'blue'
+    case 'missing_both':
+      return 'gray'
+    case 'read_error':
+      return 'red'
+    default:
+      return 'gray'
+  }
+}
+
+interface PluginFolderCompareResultViewProps {
+  result: PluginFolderCompareResult
+  expandedId: string | null
+  onToggleExpanded: (id: string) => void
+  /** Side names for the summary badges (folder compare: left / right). */
+  leftName?: string
+  rightName?: string
+}
+
+/** Summary badges + file table with expandable split diffs (folder compare and build compare). */
+export function PluginFolderCompareResultView({
+  result,
+  expandedId,
+  onToggleExpanded,
+  leftName = 'left',
+  rightName = 'right',
+}: PluginFolderCompareResultViewProps) {
+  return (
+    <Stack gap="sm">
+      <Group gap="xs">
+        <Badge color="green" variant="light">
+          Identical: {result.summary.identical}
+        </Badge>
+        <Badge color="yellow" variant="light">
+          Different: {result.summary.different}
+        </Badge>
+        <Badge color="blue" variant="light">
+          Only {leftName}: {result.summary.missingRight}
+        </Badge>
+        <Badge color="blue" variant="light">
+          Only {rightName}: {result.summary.missingLeft}
+        </Badge>
+        <Badge color="gray" variant="light">
+          Neither: {result.summary.missingBoth}
+        </Badge>
+        {result.summary.readErrors > 0 && (
+          <Badge color="red" variant="light">
+            Errors: {result.summary.readErrors}
+          </Badge>
+        )}
+      </Group>
+      <Text size="xs" c="dimmed">
+        Left: {result.leftRoot} — Right: {result.rightRoot}
+      </Text>
+
+      <ScrollArea.Autosize mah={560}>
+        <Table striped highlightOnHover withTableBorder>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Plugin / file</Table.Th>
+              <Table.Th>Relative path</Table.Th>
+              <Table.Th>Status</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {result.files.map((row) => (
+              <Fragment key={row.id}>
+                <Table.Tr
+                  style={{ cursor: row.unifiedDiff ? 'pointer' : undefined }}
+                  onClick={() => {
+                    if (row.unifiedDiff) {
+                      onToggleExpanded(row.id)
+                    }
+                  }}
+                >
+                  <Table.Td>{row.label}</Table.Td>
+                  <Table.Td>
+                    <Text size="sm" ff="monospace">
+                      {row.relativePath}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Group gap="xs">
+                      <Badge color={statusColor(row.status)} variant="light">
+                        {statusLabel(row.status)}
+                      </Badge>
+                      {row.error && (
+                        <Text size="xs" c="red">
+                          {row.error}
+                        </Text>
+                      )}
+                    </Group>
+                  </Table.Td>
+                </Table.Tr>
+                {expandedId === row.id && row.unifiedDiff && (
+                  <Table.Tr>
+                    <Table.Td colSpan={3} style={{ verticalAlign: 'top', background: 'var(--mantine-color-body)' }}>
+                      <ScrollArea.Autosize mah={420} type="auto">
+                        <SplitDiffView patch={row.unifiedDiff} />
+                      </ScrollArea.Autosize>
+                    </Table.Td>
+                  </Table.Tr>
+                )}
+              </Fragment>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </ScrollArea.Autosize>
+      {result.files.some((f) => f.unifiedDiff) && (
+        <Text size="xs" c="dimmed">
+          Click a row with status &quot;Different&quot; to show a split diff.
+        </Text>
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,116 @@
+import { Alert, Badge, Group, List, Stack, Text } from '@mantine/core'
+import type { RegionImportDiff } from '../types'
+
+function IdList({ ids }: { ids: string[] }) {
+  return (
+    <Group gap={6}>
+      {ids.map((id) => (
+        <Badge key={id} size="sm" variant="outline" color="gray" tt="none">
+          {id}
+        </Badge>
+      ))}
+    </Group>
+  )
+}
+
+function Section({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+  if (count === 0) return null
+  return (
+    <Stack gap={4}>
+      <Text size="xs" tt="uppercase" fw={600} c="dimmed">
+        {title} ({count})
+      </Text>
+      {children}
+    </Stack>
+  )
+}
+
+/** Review of what a regions import would change for one world. */
+export function RegionImportDiffView({ diff }: { diff: RegionImportDiff }) {
+  const changed =
+    diff.added.length +
+    diff.removed.length +
+    diff.reclassified.length +
+    diff.descriptionChanged.length +
+    diff.loreBookAnchorsInvalidated.length +
+    diff.bandChanged.length
+
+  return (
+    <Stack gap="md">
+      <Text size="sm">
+        {changed === 0
+          ? `No region changes for ${diff.world} (${diff.unchangedCount} unchanged).`
+          : `${diff.unchangedCount} region(s) unchanged in ${diff.world}.`}
+      </Text>
+
+      {diff.lostDiscoveries.length > 0 && (
+        <Alert color="orange" variant="light" title="Discoveries that disappear on the next build">
+          <List size="sm" spacing={2}>
+            {diff.lostDiscoveries.map((lost) => (
+              <List.Item key={lost.id}>
+                <strong>{lost.id}</strong> — AA command <code>{lost.aaCommandId}</code>
+                {lost.ceEventKey && (
+                  <>
+                    , CE event <code>{lost.ceEventKey}</code>
+                  </>
+                )}
+              </List.Item>
+            ))}
+          </List>
+          <Text size="xs" c="dimmed" mt={4}>
+            Players keep earned achievements, but the old id stops being tracked and counted.
+          </Text>
+        </Alert>
+      )}
+
+      <Section title="Possible renames" count={diff.renameCandidates.length}>
+        <List size="sm" spacing={2}>
+          {diff.renameCandidates.map((r) => (
+            <List.Item key={r.fromId}>
+              <code>{r.fromId}</code> → <code>{r.toId}</code>{' '}
+              <Text span size="xs" c="dimmed">
+                ({Math.round(r.similarity * 100)}% similar)
+              </Text>
+            </List.Item>
+          ))}
+        </List>
+      </Section>
+      <Section title="Added" count={diff.added.length}>
+        <IdList ids={diff.added} />
+      </Section>
+      <Section title="Removed" count={diff.removed.length}>
+        <IdList ids={diff.removed} />
+      </Section>
+      <Section title="Reclassified" count={diff.reclassified.length}>
+        <List size="sm" spacing={2}>
+          {diff.reclassified.map((r) => (
+            <List.Item key={r.id}>
+              <strong>{r.id}</strong>: {r.fromKind} → {r.toKind}
+            </List.Item>
+          ))}
+        </List>
+      </Section>
+      <Section title="Description changed" count={diff.descriptionChanged.length}>
+        <IdList ids={diff.descriptionChanged} />
+      </Section>
+      <Section title="Lore-book anchors no longer found" count={diff.loreBookAnchorsInvalidated.length}>
+        <List size="sm" spacing={2}>
+          {diff.loreBookAnchorsInvalidated.map((r) => (
+            <List.Item key={r.id}>
+              <strong>{r.id}</strong>: {r.anchors.map((a) => `“${a}”`).join(', ')}
+            </List.Item>
+          ))}
+        </List>
+      </Section>
+      <Section title="LevelledMobs band changed" count={diff.bandChanged.length}>
+        <List size="sm" spacing={2}>
+          {diff.bandChanged.map((r) => (
+            <List.Item key={r.id}>
+              <strong>{r.id}</strong>: {r.from ?? 'default'} → {r.to ?? 'default'}
+            </List.Item>
+          ))}
+        </List>
+      </Section>
+    </Stack>
+  )
+}
@@ -0,0 +1,371 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import {
+  ActionIcon,
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Group,
+  Paper,
+  SegmentedControl,
+  Stack,
+  Text,
+  useMantineTheme,
+} from '@mantine/core'
+import { IconDownload, IconFocusCentered, IconZoomIn, IconZoomOut } from '@tabler/icons-react'
+import type { ServerProfile } from '../types'
+import { LEVELLED_MOBS_BANDS } from '@shared/regionOverrides'
+import {
+  BAND_COLORS,
+  REGION_KIND_COLORS,
+  buildRegionMapModel,
+  mapWorldsWithGeometry,
+} from '../utils/regionMap'
+import type { RegionMapColourBy, RegionMapModel, RegionMapWorld } from '../utils/regionMap'
+import { downloadBlob, safeFilenamePart } from '../utils/regionExport'
+
+const WORLD_LABELS: Record<RegionMapWorld, string> = { overworld: 'Overworld', nether: 'Nether', end: 'End' }
+
+/** Longest side of an exported image, in pixels. */
+const EXPORT_SIZE = 2048
+
+const ZOOM_STEP = 1.25
+
+interface MapView {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+function fullView(model: RegionMapModel): MapView {
+  const { minX, minZ, width, height } = model.bounds
+  return { x: minX, y: minZ, w: width, h: height }
+}
+
+function zoomView(view: MapView, factor: number, cx = view.x + view.w / 2, cy = view.y + view.h / 2): MapView {
+  const w = view.w / factor
+  const h = view.h / factor
+  return { x: cx - ((cx - view.x) * w) / view.w, y: cy - ((cy - view.y) * h) / view.h, w, h }
+}
+
+interface RegionMapSvgProps {
+  model: RegionMapModel
+  view: MapView
+  resolveColor: (name: string) => string
+  background: string
+  showLabels: boolean
+  selectedKey?: string | null
+  width?: number
+  height?: number
+  onShapeClick?: (key: string) => void
+}
+
+/** Plain SVG of one world; also rendered to markup for export, so it takes no theme context. */
+function RegionMapSvg({
+  model,
+  view,
+  resolveColor,
+  background,
+  showLabels,
+  selectedKey,
+  width,
+  height,
+  onShapeClick,
+}: RegionMapSvgProps) {
+  // Sizes follow the visible span so text and markers stay readable at every zoom level.
+  const unit = Math.max(view.w, view.h) / 100
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`${view.x} ${view.y} ${view.w} ${view.h}`}
+      width={width ?? '100%'}
+      height={height ?? '100%'}
+    >
+      <rect x={view.x} y={view.y} width={view.w} height={view.h} fill={background} />
+      {model.shapes.map((shape) => {
+        const color = resolveColor(shape.color)
+        const selected = shape.key === selectedKey
+        return (
+          <polygon
+            key={shape.key}
+            points={shape.points}
+            fill={color}
+            fillOpacity={selected ? 0.7 : 0.4}
+            stroke={selected ? '#ffffff' : color}
+            strokeWidth={selected ? unit * 0.4 : unit * 0.15}
+            style={onShapeClick ? { cursor: 'pointer' } : undefined}
+            onClick={onShapeClick ? () => onShapeClick(shape.key) : undefined}
+          >
+            <title>{`${shape.label} (${shape.kind})`}</title>
+          </polygon>
+        )
+      })}
+      {showLabels &&
+        model.shapes.map((shape) => (
+          <text
+            key={`label-${shape.key}`}
+            x={shape.centroid.x}
+            y={shape.centroid.z}
+            fontSize={unit * 1.4}
+            fontFamily="sans-serif"
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fill="#ffffff"
+            stroke="#000000"
+            strokeWidth={unit * 0.25}
+            paintOrder="stroke"
+            pointerEvents="none"
+          >
+            {shape.label}
+          </text>
+        ))}
+      {model.markers.map((m) => (
+        <g key={m.type} pointerEvents="none">
+          <circle
+            cx={m.x}
+            cy={m.z}
+            r={unit * 0.8}
+            fill={m.type === 'spawn' ? '#fcc419' : '#ffffff'}
+            stroke="#000000"
+            strokeWidth={unit * 0.2}
+          />
+          <text
+            x={m.x + unit * 1.2}
+            y={m.z}
+            fontSize={unit * 1.6}
+            fontFamily="sans-serif"
+            fontWeight="bold"
+            dominantBaseline="middle"
+            fill={m.type === 'spawn' ? '#fcc419' : '#ffffff'}
+            stroke="#000000"
+            strokeWidth={unit * 0.3}
+            paintOrder="stroke"
+          >
+            {m.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+interface RegionMapViewProps {
+  server: ServerProfile
+  selectedKey?: string | null
+  /** `world:id` of the clicked region. */
+  onSelectRegion: (key: string) => void
+}
+
+export function RegionMapView({ server, selectedKey, onSelectRegion }: RegionMapViewProps) {
+  const theme = useMantineTheme()
+  const worlds = useMemo(() => mapWorldsWithGeometry(server), [server])
+  const [world, setWorld] = useState<RegionMapWorld>(worlds[0] ?? 'overworld')
+  const [colourBy, setColourBy] = useState<RegionMapColourBy>('kind')
+  const [showLabels, setShowLabels] = useState(true)
+  const model = useMemo(() => buildRegionMapModel(server, world, colourBy), [server, world, colourBy])
+  const [view, setView] = useState<MapView | null>(model ? fullView(model) : null)
+  const boxRef = useRef<HTMLDivElement>(null)
+  const drag = useRef<{ clientX: number; clientY: number; view: MapView; moved: boolean } | null>(null)
+
+  useEffect(() => {
+    if (!worlds.includes(world) && worlds[0]) setWorld(worlds[0])
+  }, [worlds, world])
+
+  // Reset the view when the drawn area changes; colouring and region edits keep the zoom.
+  const boundsKey = model ? `${world}:${JSON.stringify(model.bounds)}` : ''
+  const hasMap = model !== null
+  useEffect(() => {
+    setView(model ? fullView(model) : null)
+  }, [boundsKey])
+
+  // React registers wheel listeners as passive, so zooming (which must not scroll the page) is wired by hand.
+  useEffect(() => {
+    const box = boxRef.current
+    if (!box) return
+    function onWheel(e: WheelEvent) {
+      const svg = box!.querySelector('svg')
+      if (!svg) return
+      e.preventDefault()
+      const ctm = svg.getScreenCTM()
+      const point = ctm ? new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse()) : null
+      const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP
+      setView((v) => (v ? zoomView(v, factor, point?.x, point?.y) : v))
+    }
+    box.addEventListener('wheel', onWheel, { passive: false })
+    return () => box.removeEventListener('wheel', onWheel)
+  }, [hasMap])
+
+  if (!model || !view) {
+    return (
+      <Paper p="xl" withBorder>
+        <Text c="dimmed">
+          No region geometry stored yet. Re-import a Region Forge export to draw the map.
+        </Text>
+      </Paper>
+    )
+  }
+
+  const resolveColor = (name: string) => theme.colors[name]?.[6] ?? name
+  const background = theme.colors.dark[7]
+
+  function onPointerDown(e: ReactPointerEvent<HTMLDivElement>) {
+    drag.current = { clientX: e.clientX, clientY: e.clientY, view: view!, moved: false }
+  }
+
+  function onPointerMove(e: ReactPointerEvent<HTMLDivElement>) {
+    const d = drag.current
+    if (!d || !boxRef.current) return
+    const dx = e.clientX - d.clientX
+    const dy = e.clientY - d.clientY
+    if (!d.moved && Math.hypot(dx, dy) < 4) return
+    if (!d.moved) {
+      d.moved = true
+      e.currentTarget.setPointerCapture(e.pointerId)
+    }
+    const rect = boxRef.current.getBoundingClientRect()
+    const scale = Math.max(d.view.w / rect.width, d.view.h / rect.height)
+    setView({ ...d.view, x: d.view.x - dx * scale, y: d.view.y - dy * scale })
+  }
+
+  function onPointerUp() {
+    // Keep the flag until the click that follows a drag has been ignored.
+    setTimeout(() => {
+      drag.current = null
+    }, 0)
+  }
+
+  function handleShapeClick(key: string) {
+    if (drag.current?.moved) return
+    onSelectRegion(key)
+  }
+
+  function exportMarkup(): { markup: string; width: number; height: number } {
+    const full = fullView(model!)
+    const ratio = full.w / full.h
+    const width = Math.round(ratio >= 1 ? EXPORT_SIZE : EXPORT_SIZE * ratio)
+    const height = Math.round(ratio >= 1 ? EXPORT_SIZE / ratio : EXPORT_SIZE)
+    const markup = renderToStaticMarkup(
+      <RegionMapSvg
+        model={model!}
+        view={full}
+        resolveColor={resolveColor}
+        background={background}
+        showLabels={showLabels}
+        width={width}
+        height={height}
+      />
+    )
+    return { markup: `<?xml version="1.0" encoding="UTF-8"?>\n${markup}\n`, width, height }
+  }
+
+  const filenameStem = `regions-map-${safeFilenamePart(server.id)}-${world}-${colourBy}`
+
+  function exportSvg() {
+    const { markup } = exportMarkup()
+    downloadBlob(`${filenameStem}.svg`, new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }))
+  }
+
+  async function exportPng() {
+    const { markup, width, height } = exportMarkup()
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }))
+    try {
+      const image = new Image()
+      image.src = url
+      await image.decode()
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      canvas.getContext('2d')?.drawImage(image, 0, 0, width, height)
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+      if (blob) downloadBlob(`${filenameStem}.png`, blob)
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+
+  const legend =
+    colourBy === 'kind'
+      ? Object.entries(REGION_KIND_COLORS).filter(([kind]) => model.shapes.some((s) => s.kind === kind))
+      : [...LEVELLED_MOBS_BANDS.map((band) => [band, BAND_COLORS[band]]), ['unset', 'gray']]
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between">
+        <Group gap="sm">
+          {worlds.length > 1 && (
+            <SegmentedControl
+              size="xs"
+              value={world}
+              onChange={(v) => setWorld(v as RegionMapWorld)}
+              data={worlds.map((w) => ({ value: w, label: WORLD_LABELS[w] }))}
+            />
+          )}
+          <SegmentedControl
+            size="xs"
+            value={colourBy}
+            onChange={(v) => setColourBy(v as RegionMapColourBy)}
+            data={[
+              { value: 'kind', label: 'By kind' },
+              { value: 'band', label: 'By LevelledMobs band' },
+            ]}
+          />
+          <Checkbox
+            size="xs"
+            label="Labels"
+            checked={showLabels}
+            onChange={(e) => setShowLabels(e.currentTarget.checked)}
+          />
+        </Group>
+        <Group gap="xs">
+          <ActionIcon variant="default" aria-label="Zoom in" onClick={() => setView(zoomView(view, ZOOM_STEP))}>
+            <IconZoomIn size={16} />
+          </ActionIcon>
+          <ActionIcon variant="default" aria-label="Zoom out" onClick={() => setView(zoomView(view, 1 / ZOOM_STEP))}>
+            <IconZoomOut size={16} />
+          </ActionIcon>
+          <ActionIcon variant="default" aria-label="Fit map" onClick={() => setView(fullView(model))}>
+            <IconFocusCentered size={16} />
+          </ActionIcon>
+          <Button size="xs" variant="light" leftSection={<IconDownload size={14} />} onClick={exportSvg}>
+            SVG
+          </Button>
+          <Button size="xs" variant="light" leftSection={<IconDownload size={14} />} onClick={exportPng}>
+            PNG
+          </Button>
+        </Group>
+      </Group>
+      <Box
+        ref={boxRef}
+        h={560}
+        style={{ borderRadius: 8, overflow: 'hidden', touchAction: 'none', cursor: 'grab' }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerLeave={onPointerUp}
+      >
+        <RegionMapSvg
+          model={model}
+          view={view}
+          resolveColor={resolveColor}
+          background={background}
+          showLabels={showLabels}
+          selectedKey={selectedKey}
+          onShapeClick={handleShapeClick}
+        />
+      </Box>
+      <Group gap="xs">
+        {legend.map(([label, color]) => (
+          <Badge key={label} size="sm" variant="light" color={color}>
+            {label}
+          </Badge>
+        ))}
+        <Text size="xs" c="dimmed">
+          Scroll to zoom, drag to pan, click a region for its details.
+        </Text>
+      </Group>
+    </Stack>
+  )
+}
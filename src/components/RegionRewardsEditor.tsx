@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { Alert, Button, Group, List, NumberInput, Select, SimpleGrid, Stack, Text, TextInput, Textarea } from '@mantine/core'
+import type { CrateLibraryEntry, RegionRecord, RegionRewardOverrides, ServerProfile } from '../types'
+import { regionKey } from '@shared/regionOverrides'
+import { MAX_CRATE_KEY_COUNT, normalizeRegionRewards, validateRegionRewards } from '@shared/regionRewards'
+
+interface RegionRewardsEditorProps {
+  serverId: string
+  region: RegionRecord
+  crateLibrary: CrateLibraryEntry[]
+  /** Library ids assigned to the server; other crates are offered but flagged. */
+  assignedCrateIds: string[]
+  onServerUpdate: (server: ServerProfile) => void
+  onClose: () => void
+}
+
+/** Empty NumberInput → undefined (not overridden). */
+function optionalNumber(value: number | string): number | undefined {
+  return typeof value === 'number' ? value : undefined
+}
+
+/** Inline form for one region's bespoke crate, commands and AA message / experience. */
+export function RegionRewardsEditor({
+  serverId,
+  region,
+  crateLibrary,
+  assignedCrateIds,
+  onServerUpdate,
+  onClose,
+}: RegionRewardsEditorProps) {
+  const current = region.rewards ?? {}
+  const [crateLibraryId, setCrateLibraryId] = useState<string | null>(current.crateLibraryId ?? null)
+  const [crateKeyCount, setCrateKeyCount] = useState<number | undefined>(current.crateKeyCount)
+  const [commandsText, setCommandsText] = useState((current.extraCommands ?? []).join('\n'))
+  const [aaMessage, setAaMessage] = useState(current.aaMessage ?? '')
+  const [aaExperience, setAaExperience] = useState<number | undefined>(current.aaExperience)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const draft: RegionRewardOverrides = {
+    crateLibraryId: crateLibraryId ?? undefined,
+    crateKeyCount,
+    extraCommands: commandsText.split('\n'),
+    aaMessage,
+    aaExperience,
+  }
+  const normalized = normalizeRegionRewards(draft)
+  const errors = normalized ? validateRegionRewards(normalized) : []
+
+  async function save(next: RegionRewardOverrides | null) {
+    setSaving(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.updateRegionRewards(serverId, regionKey(region), next)
+      if (result.success && result.profile) {
+        onServerUpdate(result.profile)
+        onClose()
+      } else {
+        setError(result.error ?? 'Saving region rewards failed')
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Stack gap="sm">
+      <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="sm">
+        <Select
+          label="Reward crate"
+          placeholder="Recipe default"
+          clearable
+          searchable
+          data={crateLibrary.map((c) => ({
+            value: c.id,
+            label: assignedCrateIds.includes(c.id) ? c.name : `${c.name} (not assigned)`,
+          }))}
+          value={crateLibraryId}
+          onChange={setCrateLibraryId}
+        />
+        <NumberInput
+          label="Crate keys"
+          placeholder="1"
+          min={1}
+          max={MAX_CRATE_KEY_COUNT}
+          allowDecimal={false}
+          value={crateKeyCount ?? ''}
+          onChange={(v) => setCrateKeyCount(optionalNumber(v))}
+        />
+        <TextInput
+          label="AA message"
+          placeholder="Kind default"
+          value={aaMessage}
+          onChange={(e) => setAaMessage(e.currentTarget.value)}
+        />
+        <NumberInput
+          label="AA experience"
+          placeholder="Kind default"
+          min={0}
+          allowDecimal={false}
+          value={aaExperience ?? ''}
+          onChange={(v) => setAaExperience(optionalNumber(v))}
+        />
+      </SimpleGrid>
+      <Textarea
+        label="Extra console commands"
+        description="One per line, run after the discovery actions. Placeholders such as {REGION_ID} work here."
+        autosize
+        minRows={2}
+        styles={{ input: { fontFamily: 'monospace', fontSize: 12 } }}
+        value={commandsText}
+        onChange={(e) => setCommandsText(e.currentTarget.value)}
+      />
+      {errors.length > 0 && (
+        <List size="sm" c="red" spacing={2}>
+          {errors.map((e) => (
+            <List.Item key={e}>{e}</List.Item>
+          ))}
+        </List>
+      )}
+      {error && (
+        <Alert color="red" variant="light">
+          <Text size="sm" style={{ whiteSpace: 'pre-line' }}>
+            {error}
+          </Text>
+        </Alert>
+      )}
+      <Group gap="sm">
+        <Button size="xs" onClick={() => save(normalized)} loading={saving} disabled={errors.length > 0}>
+          Save rewards
+        </Button>
+        <Button size="xs" variant="default" onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        {region.rewards && (
+          <Button size="xs" variant="subtle" color="red" onClick={() => save(null)} disabled={saving}>
+            Remove overrides
+          </Button>
+        )}
+      </Group>
+    </Stack>
+  )
+}
@@ -0,0 +1,183 @@
+import { Box, Text } from '@mantine/core'
+
+type SplitDiffRow =
+  | {
+      kind: 'hunk'
+      text: string
+    }
+  | {
+      kind: 'code'
+      leftLine: number | null
+      leftText: string
+      leftType: 'context' | 'remove' | 'empty'
+      rightLine: number | null
+      rightText: string
+      rightType: 'context' | 'add' | 'empty'
+    }
+
+function parseUnifiedPatchToSplitRows(patch: string): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = []
+  const lines = patch.split(/\r?\n/)
+  let inHunk = false
+  let leftLine = 0
+  let rightLine = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    if (line.startsWith('@@')) {
+      const m = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line)
+      if (m) {
+        leftLine = Number(m[1])
+        rightLine = Number(m[2])
+      }
+      inHunk = true
+      rows.push({ kind: 'hunk', text: line })
+      continue
+    }
+
+    if (!inHunk) continue
+    if (!line || line.startsWith('Index:') || line.startsWith('diff ') || line.startsWith('---') || line.startsWith('+++')) {
+      continue
+    }
+    if (line.startsWith('\\')) continue
+
+    if (line.startsWith(' ')) {
+      const text = line.slice(1)
+      rows.push({
+        kind: 'code',
+        leftLine,
+        leftText: text,
+        leftType: 'context',
+        rightLine,
+        rightText: text,
+        rightType: 'context',
+      })
+      leftLine++
+      rightLine++
+      continue
+    }
+
+    if (line.startsWith('-')) {
+      rows.push({
+        kind: 'code',
+        leftLine,
+        leftText: line.slice(1),
+        leftType: 'remove',
+        rightLine: null,
+        rightText: '',
+        rightType: 'empty',
+      })
+      leftLine++
+      continue
+    }
+
+    if (line.startsWith('+')) {
+      rows.push({
+        kind: 'code',
+        leftLine: null,
+        leftText: '',
+        leftType: 'empty',
+        rightLine,
+        rightText: line.slice(1),
+        rightType: 'add',
+      })
+      rightLine++
+    }
+  }
+
+  return rows
+}
+
+/** Renders split (side-by-side) diff from a unified patch payload. */
+export function SplitDiffView({ patch }: { patch: string }) {
+  const rows = parseUnifiedPatchToSplitRows(patch)
+  return (
+    <Box
+      p="md"
+      style={{
+        backgroundColor: '#1e1e2e',
+        borderRadius: 8,
+        border: '1px solid #313244',
+        fontFamily:
+          'ui-monospace, SFMono-Regular, "SF Mono", Menlo, Consolas, "Liberation Mono", monospace',
+        fontSize: 12,
+        lineHeight: 1.45,
+      }}
+    >
+      {rows.map((row, i) => {
+        const key = `diff-${i}`
+        if (row.kind === 'hunk') {
+          return (
+            <Box
+              key={key}
+              py={2}
+              px={8}
+              style={{
+                backgroundColor: 'rgba(137, 180, 250, 0.22)',
+                color: '#89b4fa',
+                borderLeft: '3px solid #89b4fa',
+              }}
+            >
+              {row.text}
+            </Box>
+          )
+        }
+        const leftBg =
+          row.leftType === 'remove'
+            ? 'rgba(243, 139, 168, 0.18)'
+            : row.leftType === 'context'
+              ? 'transparent'
+              : 'rgba(108, 112, 134, 0.10)'
+        const rightBg =
+          row.rightType === 'add'
+            ? 'rgba(166, 227, 161, 0.16)'
+            : row.rightType === 'context'
+              ? 'transparent'
+              : 'rgba(108, 112, 134, 0.10)'
+
+        return (
+          <Box key={key} style={{ display: 'grid', gridTemplateColumns: '1fr 1fr' }}>
+            <Box
+              py={2}
+              px={8}
+              style={{
+                backgroundColor: leftBg,
+                borderRight: '1px solid #313244',
+                color: row.leftType === 'remove' ? '#f5c2e0' : '#cdd6f4',
+                display: 'grid',
+                gridTemplateColumns: '56px minmax(0, 1fr)',
+                gap: 8,
+              }}
+            >
+              <Text size="xs" c="dimmed" ff="monospace">
+                {row.leftLine ?? ''}
+              </Text>
+              <Text size="xs" ff="monospace" style={{ whiteSpace: 'pre-wrap' }}>
+                {row.leftText || ' '}
+              </Text>
+            </Box>
+            <Box
+              py={2}
+              px={8}
+              style={{
+                backgroundColor: rightBg,
+                color: row.rightType === 'add' ? '#c8f5c9' : '#cdd6f4',
+                display: 'grid',
+                gridTemplateColumns: '56px minmax(0, 1fr)',
+                gap: 8,
+              }}
+            >
+              <Text size="xs" c="dimmed" ff="monospace">
+                {row.rightLine ?? ''}
+              </Text>
+              <Text size="xs" ff="monospace" style={{ whiteSpace: 'pre-wrap' }}>
+                {row.rightText || ' '}
+              </Text>
+            </Box>
+          </Box>
+        )
+      })}
+    </Box>
+  )
+}
@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Alert,
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Group,
+  List,
+  NumberInput,
+  Paper,
+  ScrollArea,
+  SimpleGrid,
+  Stack,
+  Table,
+  Text,
+  Title,
+} from '@mantine/core'
+import type { LevelledMobsBandPlan, RegionRecord, ServerProfile } from '../types'
+import { formatRegionLabel } from '@shared/stringFormatters'
+import { LEVELLED_MOBS_BANDS, regionKey } from '@shared/regionOverrides'
+import {
+  BAND_KIND_OFFSET,
+  BAND_WORLD_OFFSET,
+  resolveBandPlan,
+  suggestRegionBands,
+  validateBandPlan,
+} from '@shared/lmBandPlanner'
+import type { BandSuggestion, LevelledMobsBand } from '@shared/lmBandPlanner'
+import { BAND_COLORS } from '../utils/regionMap'
+
+interface BandPlannerScreenProps {
+  server: ServerProfile
+  onServerUpdate: (server: ServerProfile) => void
+}
+
+const WORLD_LABELS: Record<RegionRecord['world'], string> = { overworld: 'Overworld', nether: 'Nether', end: 'End' }
+
+/** Empty NumberInput → NaN so validation reports it instead of saving 0. */
+function toNumber(value: number | string): number {
+  return typeof value === 'number' ? value : Number.NaN
+}
+
+function BandBadge({ band }: { band?: LevelledMobsBand }) {
+  if (!band) {
+    return (
+      <Text size="xs" c="dimmed">
+        unset
+      </Text>
+    )
+  }
+  return (
+    <Badge size="sm" variant="light" color={BAND_COLORS[band]}>
+      {band}
+    </Badge>
+  )
+}
+
+/** One cell per region, nearest spawn first, coloured by suggested band. */
+function GradientStrip({ rows, labels }: { rows: BandSuggestion[]; labels: Map<string, string> }) {
+  return (
+    <Group gap={2} wrap="wrap">
+      {rows.map((row) => (
+        <Box
+          key={row.key}
+          w={14}
+          h={22}
+          title={`${labels.get(row.key) ?? row.id}: ${row.suggested}${
+            row.distanceFromSpawn !== undefined ? ` (${row.distanceFromSpawn.toLocaleString()} blocks)` : ''
+          }`}
+          style={{
+            background: `var(--mantine-color-${BAND_COLORS[row.suggested]}-6)`,
+            borderRadius: 2,
+            outline: row.locked ? '2px solid var(--mantine-color-white)' : undefined,
+            outlineOffset: -2,
+          }}
+        />
+      ))}
+    </Group>
+  )
+}
+
+export function BandPlannerScreen({ server, onServerUpdate }: BandPlannerScreenProps) {
+  const saved = useMemo(() => resolveBandPlan(server.bandPlan), [server.bandPlan])
+  const [draft, setDraft] = useState<LevelledMobsBandPlan>(saved)
+  const [onlyChanges, setOnlyChanges] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveStatus, setSaveStatus] = useState<'success' | 'error' | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDraft(saved)
+  }, [saved])
+
+  const errors = validateBandPlan(draft)
+  const suggestions = useMemo(
+    () => (validateBandPlan(draft).length === 0 ? suggestRegionBands(server, draft) : []),
+    [server, draft]
+  )
+  const labels = useMemo(
+    () => new Map(server.regions.map((r) => [regionKey(r), formatRegionLabel(r)])),
+    [server.regions]
+  )
+  const changes = suggestions.filter((s) => !s.locked && s.suggested !== s.current)
+  const missingGeometry = suggestions.filter((s) => s.distanceFromSpawn === undefined).length
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved)
+  const visible = onlyChanges ? changes : suggestions
+  const worlds = (Object.keys(WORLD_LABELS) as RegionRecord['world'][]).filter((w) =>
+    suggestions.some((s) => s.world === w)
+  )
+
+  function setRing(index: number, value: number) {
+    setDraft((d) => ({ ...d, ringDistances: d.ringDistances.map((r, i) => (i === index ? value : r)) }))
+  }
+
+  function toggleLock(key: string) {
+    setDraft((d) => ({
+      ...d,
+      lockedKeys: d.lockedKeys.includes(key) ? d.lockedKeys.filter((k) => k !== key) : [...d.lockedKeys, key],
+    }))
+  }
+
+  async function apply(withBands: boolean) {
+    setIsSaving(true)
+    setSaveStatus(null)
+    setSaveError(null)
+    try {
+      const bands = withBands ? Object.fromEntries(changes.map((s) => [s.key, s.suggested])) : {}
+      const result = await window.electronAPI.applyBandPlan(server.id, draft, bands)
+      if (result.success && result.profile) {
+        onServerUpdate(result.profile)
+        setSaveStatus('success')
+        setTimeout(() => setSaveStatus(null), 2000)
+      } else {
+        setSaveStatus('error')
+        setSaveError(result.error ?? 'Applying the band plan failed')
+      }
+    } catch (e) {
+      setSaveStatus('error')
+      setSaveError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (suggestions.length === 0 && errors.length === 0) {
+    return (
+      <Paper p="xl" withBorder>
+        <Text c="dimmed">No regions, hearts, nerves or water bodies imported yet.</Text>
+      </Paper>
+    )
+  }
+
+  const offsets = [
+    ...Object.entries(BAND_WORLD_OFFSET)
+      .filter(([, n]) => n > 0)
+      .map(([world, n]) => `${world} +${n}`),
+    ...Object.entries(BAND_KIND_OFFSET).map(([kind, n]) => `${kind} +${n}`),
+  ]
+
+  return (
+    <Stack gap="xl">
+      <Text size="sm" c="dimmed">
+        Proposes a LevelledMobs band for every region from its distance to spawn, then evens out neighbours so
+        bordering regions are at most one band apart. Lock a region to keep its current band; locked regions also
+        pull their neighbours along. Applied bands are saved as region edits and survive re-imports.
+      </Text>
+
+      {errors.length > 0 && (
+        <Alert color="red" variant="light" title="Fix these before planning">
+          <List size="sm" spacing={2}>
+            {errors.map((e) => (
+              <List.Item key={e}>{e}</List.Item>
+            ))}
+          </List>
+        </Alert>
+      )}
+
+      <Paper withBorder p="lg" bg="dark.6">
+        <Stack gap="md">
+          <Title order={4}>Distance rings</Title>
+          <Text size="sm" c="dimmed">
+            Blocks from spawn where each band ends; beyond the last ring is deadly. Offsets on top:{' '}
+            {offsets.join(', ')}.
+          </Text>
+          <SimpleGrid cols={{ base: 2, sm: 4 }} spacing="md" maw={720}>
+            {LEVELLED_MOBS_BANDS.slice(0, -1).map((band, i) => (
+              <NumberInput
+                key={band}
+                label={`${band[0].toUpperCase()}${band.slice(1)} until`}
+                min={1}
+                step={250}
+                allowDecimal={false}
+                thousandSeparator=","
+                value={Number.isNaN(draft.ringDistances[i]) ? '' : draft.ringDistances[i]}
+                onChange={(v) => setRing(i, toNumber(v))}
+              />
+            ))}
+          </SimpleGrid>
+        </Stack>
+      </Paper>
+
+      {suggestions.length > 0 && (
+        <Paper withBorder p="lg" bg="dark.6">
+          <Stack gap="md">
+            <Group justify="space-between">
+              <Title order={4}>Difficulty gradient</Title>
+              <Group gap="xs">
+                {LEVELLED_MOBS_BANDS.map((band) => (
+                  <Badge key={band} variant="light" color={BAND_COLORS[band]}>
+                    {band}: {suggestions.filter((s) => s.suggested === band).length}
+                  </Badge>
+                ))}
+              </Group>
+            </Group>
+            {worlds.map((world) => (
+              <Stack key={world} gap={4}>
+                <Text size="xs" tt="uppercase" fw={600} c="dimmed">
+                  {WORLD_LABELS[world]} — nearest spawn first
+                </Text>
+                <GradientStrip rows={suggestions.filter((s) => s.world === world)} labels={labels} />
+              </Stack>
+            ))}
+            {missingGeometry > 0 && (
+              <Text size="xs" c="dimmed">
+                {missingGeometry} region(s) have no stored geometry and keep their current band; re-import the
+                Region Forge export to place them.
+              </Text>
+            )}
+          </Stack>
+        </Paper>
+      )}
+
+      <Stack gap="sm">
+        <Group justify="space-between">
+          <Checkbox
+            label={`Only show changes (${changes.length})`}
+            checked={onlyChanges}
+            onChange={(e) => setOnlyChanges(e.currentTarget.checked)}
+          />
+          <Group gap="sm">
+            {saveStatus === 'success' && (
+              <Text size="sm" c="green">
+                Saved
+              </Text>
+            )}
+            <Button variant="default" onClick={() => setDraft(saved)} disabled={!isDirty || isSaving}>
+              Discard
+            </Button>
+            <Button
+              variant="default"
+              onClick={() => apply(false)}
+              disabled={!isDirty || errors.length > 0}
+              loading={isSaving}
+            >
+              Save rings and locks
+            </Button>
+            <Button onClick={() => apply(true)} disabled={errors.length > 0 || changes.length === 0} loading={isSaving}>
+              Apply {changes.length} band change{changes.length === 1 ? '' : 's'}
+            </Button>
+          </Group>
+        </Group>
+        {saveStatus === 'error' && saveError && (
+          <Alert color="red" variant="light">
+            {saveError}
+          </Alert>
+        )}
+
+        <ScrollArea.Autosize mah={640}>
+          <Table striped highlightOnHover withTableBorder>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Lock</Table.Th>
+                <Table.Th>Region</Table.Th>
+                <Table.Th>World</Table.Th>
+                <Table.Th>Distance</Table.Th>
+                <Table.Th>Current</Table.Th>
+                <Table.Th>Suggested</Table.Th>
+                <Table.Th>Why</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {visible.map((row) => (
+                <Table.Tr key={row.key}>
+                  <Table.Td>
+                    <Checkbox
+                      checked={row.locked}
+                      onChange={() => toggleLock(row.key)}
+                      aria-label={`Lock ${labels.get(row.key) ?? row.id}`}
+                    />
+                  </Table.Td>
+                  <Table.Td>
+                    <Group gap="xs">
+                      <Text size="sm">{labels.get(row.key) ?? row.id}</Text>
+                      {row.kind !== 'region' && (
+                        <Badge size="xs" variant="outline" color="gray">
+                          {row.kind}
+                        </Badge>
+                      )}
+                    </Group>
+                  </Table.Td>
+                  <Table.Td>{WORLD_LABELS[row.world]}</Table.Td>
+                  <Table.Td>
+                    {row.distanceFromSpawn !== undefined ? row.distanceFromSpawn.toLocaleString() : '—'}
+                  </Table.Td>
+                  <Table.Td>
+                    <BandBadge band={row.current} />
+                  </Table.Td>
+                  <Table.Td>
+                    <BandBadge band={row.suggested} />
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="xs" c="dimmed">
+                      {row.reasons.join('; ')}
+                    </Text>
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea.Autosize>
+      </Stack>
+    </Stack>
+  )
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react'
+import { Text, Button, Group, Stack, Paper, Alert, Select, Table, SimpleGrid } from '@mantine/core'
+import { IconGitCompare } from '@tabler/icons-react'
+import type { ServerProfile, BuildListItem, BuildCompareResult, BuildCompareMetricRow } from '../types'
+import { PluginFolderCompareResultView } from '../components/PluginFolderCompareResultView'
+
+interface BuildCompareScreenProps {
+  server: ServerProfile
+}
+
+function buildOptionLabel(item: BuildListItem): string {
+  const tags = [item.testBuild ? 'test' : null, item.rollbackOf ? 'rollback' : null].filter(Boolean)
+  const suffix = tags.length > 0 ? ` [${tags.join(', ')}]` : ''
+  return item.buildNote ? `${item.buildId}${suffix} — ${item.buildNote}` : `${item.buildId}${suffix}`
+}
+
+function formatDelta(row: BuildCompareMetricRow): string {
+  if (row.left === undefined || row.right === undefined) return '—'
+  const d = row.right - row.left
+  return d > 0 ? `+${d}` : String(d)
+}
+
+function MetricTable({ title, rows }: { title: string; rows: BuildCompareMetricRow[] }) {
+  if (rows.length === 0) return null
+  return (
+    <Stack gap="xs">
+      <Text size="sm" fw={600}>
+        {title}
+      </Text>
+      <Table withTableBorder striped>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>Field</Table.Th>
+            <Table.Th>Left</Table.Th>
+            <Table.Th>Right</Table.Th>
+            <Table.Th>Change</Table.Th>
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {rows.map((row) => {
+            const changed = row.left !== row.right
+            return (
+              <Table.Tr key={row.key}>
+                <Table.Td>{row.key}</Table.Td>
+                <Table.Td>{row.left ?? '—'}</Table.Td>
+                <Table.Td>{row.right ?? '—'}</Table.Td>
+                <Table.Td>
+                  <Text size="sm" fw={changed ? 600 : undefined} c={changed ? 'yellow.7' : 'dimmed'}>
+                    {formatDelta(row)}
+                  </Text>
+                </Table.Td>
+              </Table.Tr>
+            )
+          })}
+        </Table.Tbody>
+      </Table>
+    </Stack>
+  )
+}
+
+export function BuildCompareScreen({ server }: BuildCompareScreenProps) {
+  const [builds, setBuilds] = useState<BuildListItem[]>([])
+  const [leftBuildId, setLeftBuildId] = useState<string | null>(null)
+  const [rightBuildId, setRightBuildId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<BuildCompareResult | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setResult(null)
+    window.electronAPI
+      .listBuilds(server.id)
+      .then((items) => {
+        if (cancelled) return
+        setBuilds(items)
+        // Most recent first: default to previous (left) vs latest (right).
+        setRightBuildId(items[0]?.buildId ?? null)
+        setLeftBuildId(items[1]?.buildId ?? null)
+      })
+      .catch((err) => console.error('Failed to load past builds:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [server.id])
+
+  async function handleCompare() {
+    if (!leftBuildId || !rightBuildId) return
+    setLoading(true)
+    setError(null)
+    setExpandedId(null)
+    try {
+      const res = await window.electronAPI.compareBuilds(server.id, leftBuildId, rightBuildId)
+      if (!res.ok) {
+        setResult(null)
+        setError(res.error)
+        return
+      }
+      setResult(res.result)
+    } catch (err: any) {
+      setResult(null)
+      setError(err.message || 'Compare failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const options = builds.map((b) => ({ value: b.buildId, label: buildOptionLabel(b) }))
+
+  return (
+    <Stack gap="lg">
+      <Text size="sm" c="dimmed">
+        Diff the files saved with two builds (generator header lines ignored) and the changes in their report
+        counts.
+      </Text>
+
+      <Paper p="md" withBorder>
+        <Stack gap="sm">
+          {builds.length < 2 && (
+            <Text size="sm" c="dimmed">
+              At least two saved builds are needed to compare.
+            </Text>
+          )}
+          <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="md">
+            <Select
+              label="Left build"
+              data={options}
+              value={leftBuildId}
+              onChange={setLeftBuildId}
+              searchable
+            />
+            <Select
+              label="Right build"
+              data={options}
+              value={rightBuildId}
+              onChange={setRightBuildId}
+              searchable
+            />
+          </SimpleGrid>
+          <Group>
+            <Button
+              leftSection={<IconGitCompare size={16} />}
+              onClick={handleCompare}
+              loading={loading}
+              disabled={!leftBuildId || !rightBuildId || leftBuildId === rightBuildId}
+            >
+              Compare
+            </Button>
+          </Group>
+        </Stack>
+      </Paper>
+
+      {error && (
+        <Alert color="red" title="Compare failed">
+          {error}
+        </Alert>
+      )}
+
+      {result && (
+        <Stack gap="md">
+          <Paper p="md" withBorder>
+            <Stack gap="md">
+              <MetricTable title="Region counts" rows={result.regionCounts} />
+              <MetricTable title="Computed counts" rows={result.computedCounts} />
+              <MetricTable title="Generator versions" rows={result.generatorVersions} />
+            </Stack>
+          </Paper>
+          <PluginFolderCompareResultView
+            result={result.files}
+            expandedId={expandedId}
+            onToggleExpanded={(id) => setExpandedId((cur) => (cur === id ? null : id))}
+          />
+        </Stack>
+      )}
+    </Stack>
+  )
+}
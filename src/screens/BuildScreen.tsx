@@ -15,6 +15,9 @@ import {
   UnstyledButton,
   List,
   Badge,
+  Modal,
+  ScrollArea,
+  MultiSelect,
 } from '@mantine/core'
 import { IconFolderOpen } from '@tabler/icons-react'
 import type {
@@ -25,7 +28,35 @@ import type {
   DiscordSrvSettings,
   GeneratorVersionKey,
   BuildTarget,
+  BuildPreviewResult,
+  BuildPreviewFile,
+  BuildRestoreResult,
+  DiffGateReport,
+  PluginType,
+  TemplateLibraryEntry,
+  WebMapFormat,
 } from '../types'
+import { PLUGIN_TYPES } from '../types'
+import { SplitDiffView } from '../components/SplitDiffView'
+import { GENERATORS } from '@shared/generatorCatalog'
+import { OWNERSHIP_MANIFESTS } from '@shared/ownershipManifests'
+import type { ManifestPluginId } from '@shared/ownershipManifests'
+import { OwnershipManifestView } from '../components/OwnershipManifestView'
+import { DiffGateViolationTree } from '../components/DiffGateViolationTree'
+
+type BuildPayload = Parameters<typeof window.electronAPI.buildConfigs>[1]
+
+const WEB_MAP_FORMAT_OPTIONS: { value: WebMapFormat; label: string }[] = [
+  { value: 'bluemap', label: 'BlueMap' },
+  { value: 'squaremap', label: 'squaremap' },
+  { value: 'dynmap', label: 'Dynmap' },
+]
+
+const PREVIEW_STATUS_COLOR: Record<BuildPreviewFile['status'], string> = {
+  added: 'green',
+  changed: 'yellow',
+  unchanged: 'gray',
+}
 
 const OUTPUT_PATH_PRESETS_KEY = 'mcpm.outputPathPresets.v1'
 
@@ -59,59 +90,10 @@ function saveOutputPathPresets(presets: OutputPathPreset[]): void {
   window.localStorage.setItem(OUTPUT_PATH_PRESETS_KEY, JSON.stringify(presets))
 }
 
-const BUILD_PLUGINS = [
-  { id: 'aa', label: 'AdvancedAchievements', overrideLabel: 'AdvancedAchievements config.yml (optional override)', dialogTitle: 'Select AdvancedAchievements config.yml', generateKey: 'generateAA', pathKey: 'aaPath' },
-  { id: 'bookgui', label: 'BookGUI', generateKey: 'generateBookGUI', overrideLabel: undefined, dialogTitle: undefined, pathKey: undefined },
-  { id: 'discordsrv', label: 'DiscordSRV', generateKey: 'generateDiscordSRV', overrideLabel: undefined, dialogTitle: undefined, pathKey: undefined },
-  { id: 'essentials', label: 'EssentialsX', generateKey: 'generateEssentials', overrideLabel: undefined, dialogTitle: undefined, pathKey: undefined },
-  { id: 'cw', label: 'CommandWhitelist', overrideLabel: 'CommandWhitelist config.yml (optional override)', dialogTitle: 'Select CommandWhitelist config.yml', generateKey: 'generateCW', pathKey: 'cwPath' },
-  { id: 'ce', label: 'ConditionalEvents', overrideLabel: 'ConditionalEvents config.yml (optional override)', dialogTitle: 'Select ConditionalEvents config.yml', generateKey: 'generateCE', pathKey: 'cePath' },
-  { id: 'crazycrates', label: 'CrazyCrates', generateKey: 'generateCrazyCrates', overrideLabel: undefined, dialogTitle: undefined, pathKey: undefined },
-  { id: 'lm', label: 'LevelledMobs', overrideLabel: 'LevelledMobs rules.yml (optional override)', dialogTitle: 'Select LevelledMobs rules.yml', generateKey: 'generateLM', pathKey: 'lmPath' },
-  { id: 'lmcd', label: 'LevelledMobs CustomDrops', overrideLabel: 'LevelledMobs customdrops.yml (optional override)', dialogTitle: 'Select LevelledMobs customdrops.yml', generateKey: 'generateLMCustomDrops', pathKey: 'lmCustomDropsPath' },
-  { id: 'luckperms', label: 'LuckPerms', generateKey: 'generateLuckPerms', overrideLabel: undefined, dialogTitle: undefined, pathKey: undefined },
-  { id: 'mc', label: 'MyCommand', overrideLabel: 'MyCommand commands.yml (optional override)', dialogTitle: 'Select MyCommand commands.yml', generateKey: 'generateMC', pathKey: 'mcPath' },
-  { id: 'placeholderapi', label: 'PlaceholderAPI', generateKey: 'generatePlaceholderAPI', overrideLabel: undefined, dialogTitle: undefined, pathKey: undefined },
-  { id: 'tab', label: 'TAB', overrideLabel: 'TAB config.yml (optional override)', dialogTitle: 'Select TAB config.yml', generateKey: 'generateTAB', pathKey: 'tabPath' },
-  { id: 'griefprevention', label: 'GriefPreventionData', generateKey: 'generateGriefPrevention', overrideLabel: undefined, dialogTitle: undefined, pathKey: undefined },
-  {
-    id: 'worldguardregions',
-    label: 'WorldGuard regions.yml (overworld)',
-    overrideLabel: 'Overworld regions.yml (Region Forge export)',
-    dialogTitle: 'Select overworld WorldGuard regions.yml',
-    generateKey: 'generateWorldGuardRegions',
-    pathKey: 'worldGuardRegionsPath',
-  },
-  {
-    id: 'worldguardregionsnether',
-    label: 'WorldGuard regions.yml (nether)',
-    overrideLabel: 'Nether regions.yml (Region Forge export)',
-    dialogTitle: 'Select nether WorldGuard regions.yml',
-    generateKey: 'generateWorldGuardRegionsNether',
-    pathKey: 'worldGuardRegionsNetherPath',
-  },
-] as const
-
-type BuildPluginId = (typeof BUILD_PLUGINS)[number]['id']
-
-const PLUGIN_VERSION_KEY_BY_ID: Record<BuildPluginId, GeneratorVersionKey> = {
-  aa: 'aa',
-  bookgui: 'bookgui',
-  discordsrv: 'discordsrv',
-  essentials: 'essentials',
-  cw: 'cw',
-  ce: 'ce',
-  crazycrates: 'crazycrates',
-  lm: 'lm',
-  lmcd: 'lmcd',
-  luckperms: 'luckperms',
-  mc: 'mc',
-  placeholderapi: 'placeholderapi',
-  tab: 'tab',
-  griefprevention: 'griefprevention',
-  worldguardregions: 'worldguardregions',
-  worldguardregionsnether: 'worldguardregionsnether',
-}
+/** Generator catalog in checkbox order (alphabetical by label). */
+const BUILD_PLUGINS = [...GENERATORS].sort((a, b) => a.label.localeCompare(b.label))
+
+type BuildPluginId = GeneratorVersionKey
 
 function getInitialPluginOptions(): Record<BuildPluginId, { generate: boolean; path: string }> {
   return BUILD_PLUGINS.reduce(
@@ -153,7 +135,17 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
   })
   const [isBuilding, setIsBuilding] = useState(false)
   const [buildResult, setBuildResult] = useState<BuildResult | null>(null)
+  /** Diff-gate fingerprints the user accepted for the next build only. */
+  const [acceptDrift, setAcceptDrift] = useState<Partial<Record<GeneratorVersionKey, string>>>({})
   const [buildReport, setBuildReport] = useState<BuildReport | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [preview, setPreview] = useState<BuildPreviewResult | null>(null)
+  const [previewPayload, setPreviewPayload] = useState<BuildPayload | null>(null)
+  const [expandedPreviewPath, setExpandedPreviewPath] = useState<string | null>(null)
+  const [restoreTarget, setRestoreTarget] = useState<string | null>(null)
+  const [restoreNote, setRestoreNote] = useState('')
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [restoreResult, setRestoreResult] = useState<BuildRestoreResult | null>(null)
   const [pastBuilds, setPastBuilds] = useState<BuildListItem[]>([])
   const [validationError, setValidationError] = useState<string | null>(null)
   const [showOverrides, setShowOverrides] = useState(false)
@@ -165,13 +157,24 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
   const [worldGuardNetherWorldFolder, setWorldGuardNetherWorldFolder] = useState(
     () => server.build?.worldGuardRegionsNetherWorldFolder?.trim() || 'world_nether'
   )
+  const [worldGuardEndWorldFolder, setWorldGuardEndWorldFolder] = useState(
+    () => server.build?.worldGuardRegionsEndWorldFolder?.trim() || 'world_the_end'
+  )
   const [mcTebexSubdomain, setMcTebexSubdomain] = useState(
     () => server.build?.mcTebexSubdomain?.trim() || ''
   )
+  const [webMapFormats, setWebMapFormats] = useState<WebMapFormat[]>(
+    () => server.build?.webMap?.formats ?? WEB_MAP_FORMAT_OPTIONS.map((o) => o.value)
+  )
+  const [hideUndiscoveredPois, setHideUndiscoveredPois] = useState(
+    () => Boolean(server.build?.webMap?.hideUndiscoveredPois)
+  )
+  const [templateLibrary, setTemplateLibrary] = useState<TemplateLibraryEntry[]>([])
+  const [templatePinError, setTemplatePinError] = useState<string | null>(null)
 
   async function handleSelectPluginFile(id: BuildPluginId) {
     const plugin = BUILD_PLUGINS.find((p) => p.id === id)
-    if (!plugin || !('dialogTitle' in plugin) || !plugin.dialogTitle) return
+    if (!plugin?.dialogTitle) return
     const path = await window.electronAPI.showConfigFileDialog(
       plugin.dialogTitle,
       pluginOptions[id].path || undefined
@@ -202,7 +205,51 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
     }
   }
 
-  async function handleBuild() {
+  function buildPayload(): BuildPayload {
+    const payload: BuildPayload = {
+      outDir,
+      propagateToPluginFolders,
+      testBuild,
+      buildNote: buildNote.trim(),
+      buildTarget,
+    }
+    for (const p of BUILD_PLUGINS) {
+      payload[p.generateKey] = pluginOptions[p.id].generate
+      if (pluginOptions[p.id].generate && p.pathKey) {
+        const filePath = pluginOptions[p.id].path?.trim()
+        if (filePath) {
+          payload[p.pathKey] = filePath
+        }
+      }
+    }
+    if (pluginOptions.discordsrv.generate) {
+      payload.discordSrv = {
+        botToken: discordSrv.botToken ?? '',
+        globalChannelId: discordSrv.globalChannelId ?? '',
+        statusChannelId: discordSrv.statusChannelId ?? '',
+        consoleChannelId: discordSrv.consoleChannelId ?? '',
+        discordInviteUrl: discordSrv.discordInviteUrl ?? '',
+      }
+    }
+    if (pluginOptions.mc.generate) {
+      payload.mcTebexSubdomain = mcTebexSubdomain.trim()
+    }
+    if (pluginOptions.webmap.generate) {
+      payload.webMap = { formats: webMapFormats, hideUndiscoveredPois }
+    }
+    if (pluginOptions.worldguardregions.generate) {
+      payload.worldGuardRegionsWorldFolder = worldGuardWorldFolder.trim() || 'world'
+    }
+    if (pluginOptions.worldguardregionsnether.generate) {
+      payload.worldGuardRegionsNetherWorldFolder = worldGuardNetherWorldFolder.trim() || 'world_nether'
+    }
+    if (pluginOptions.worldguardregionsend.generate) {
+      payload.worldGuardRegionsEndWorldFolder = worldGuardEndWorldFolder.trim() || 'world_the_end'
+    }
+    return payload
+  }
+
+  async function handleBuild(accepted: Partial<Record<GeneratorVersionKey, string>> = acceptDrift) {
     // Validate on submit
     setValidationError(null)
     
@@ -237,6 +284,11 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
       }
     }
 
+    if (pluginOptions.webmap.generate && webMapFormats.length === 0) {
+      setValidationError('Web map markers need at least one map plugin (BlueMap, squaremap or Dynmap)')
+      return
+    }
+
     if (pluginOptions.worldguardregions.generate && !pluginOptions.worldguardregions.path?.trim()) {
       setValidationError('Overworld WorldGuard regions.yml requires a source file — use Browse under overrides')
       return
@@ -250,58 +302,66 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
       return
     }
 
+    if (pluginOptions.worldguardregionsend.generate && !pluginOptions.worldguardregionsend.path?.trim()) {
+      setValidationError('End WorldGuard regions.yml requires a source file — use Browse under overrides')
+      return
+    }
+
     if (!testBuild && !buildNote.trim()) {
       setValidationError('Enter a build note (or enable Test build for optional note and no version bump).')
       return
     }
 
+    setIsPreviewing(true)
+    setBuildResult(null)
+    setExpandedPreviewPath(null)
+    const payload = buildPayload()
+    if (Object.keys(accepted).length > 0) payload.acceptDrift = accepted
+    try {
+      const result = await window.electronAPI.previewBuild(server.id, payload)
+      if (!result.success) {
+        setBuildResult({ success: false, error: result.error || 'Preview failed', diffGate: result.diffGate })
+        return
+      }
+      setPreview(result)
+      setPreviewPayload(payload)
+    } catch (error: any) {
+      setBuildResult({
+        success: false,
+        error: error.message || 'Unknown error during preview',
+      })
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  function handleAcceptDrift(gate: DiffGateReport) {
+    const next = { ...acceptDrift, [gate.plugin]: gate.fingerprint }
+    setAcceptDrift(next)
+    void handleBuild(next)
+  }
+
+  function closePreview() {
+    setPreview(null)
+    setPreviewPayload(null)
+    setExpandedPreviewPath(null)
+  }
+
+  async function handleConfirmBuild() {
+    const payload = previewPayload
+    closePreview()
+    if (!payload) return
+
     setIsBuilding(true)
     setBuildResult(null)
 
     try {
-      type BuildPayload = Parameters<typeof window.electronAPI.buildConfigs>[1]
-      const payload = {
-        outDir,
-        propagateToPluginFolders,
-        testBuild,
-        buildNote: buildNote.trim(),
-        buildTarget,
-      } as Record<string, unknown>
-      for (const p of BUILD_PLUGINS) {
-        payload[p.generateKey] = pluginOptions[p.id].generate
-        if (pluginOptions[p.id].generate && 'pathKey' in p && p.pathKey) {
-          const filePath = pluginOptions[p.id].path?.trim()
-          if (filePath) {
-            payload[p.pathKey] = filePath
-          }
-        }
-      }
-      if (pluginOptions.discordsrv.generate) {
-        payload.discordSrv = {
-          botToken: discordSrv.botToken ?? '',
-          globalChannelId: discordSrv.globalChannelId ?? '',
-          statusChannelId: discordSrv.statusChannelId ?? '',
-          consoleChannelId: discordSrv.consoleChannelId ?? '',
-          discordInviteUrl: discordSrv.discordInviteUrl ?? '',
-        }
-      }
-      if (pluginOptions.mc.generate) {
-        payload.mcTebexSubdomain = mcTebexSubdomain.trim()
-      }
-      if (pluginOptions.worldguardregions.generate) {
-        payload.worldGuardRegionsWorldFolder = worldGuardWorldFolder.trim() || 'world'
-      }
-      if (pluginOptions.worldguardregionsnether.generate) {
-        payload.worldGuardRegionsNetherWorldFolder = worldGuardNetherWorldFolder.trim() || 'world_nether'
-      }
-      const result = await window.electronAPI.buildConfigs(
-        server.id,
-        payload as unknown as BuildPayload
-      )
+      const result = await window.electronAPI.buildConfigs(server.id, payload)
 
       setBuildResult(result)
       if (result.success) {
         upsertSavedOutputPath(outDir)
+        setAcceptDrift({})
       }
 
       if (result.success && onServerUpdate) {
@@ -353,10 +413,19 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
     )
   }, [server.id, server.build?.worldGuardRegionsNetherWorldFolder])
 
+  useEffect(() => {
+    setWorldGuardEndWorldFolder(server.build?.worldGuardRegionsEndWorldFolder?.trim() || 'world_the_end')
+  }, [server.id, server.build?.worldGuardRegionsEndWorldFolder])
+
   useEffect(() => {
     setMcTebexSubdomain(server.build?.mcTebexSubdomain?.trim() || '')
   }, [server.id, server.build?.mcTebexSubdomain])
 
+  useEffect(() => {
+    setWebMapFormats(server.build?.webMap?.formats ?? WEB_MAP_FORMAT_OPTIONS.map((o) => o.value))
+    setHideUndiscoveredPois(Boolean(server.build?.webMap?.hideUndiscoveredPois))
+  }, [server.id, server.build?.webMap])
+
   useEffect(() => {
     const saved = server.build?.worldGuardRegionsSourcePath?.trim()
     if (!saved) return
@@ -375,6 +444,15 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
     }))
   }, [server.id, server.build?.worldGuardRegionsNetherSourcePath])
 
+  useEffect(() => {
+    const saved = server.build?.worldGuardRegionsEndSourcePath?.trim()
+    if (!saved) return
+    setPluginOptions((prev) => ({
+      ...prev,
+      worldguardregionsend: { ...prev.worldguardregionsend, path: saved },
+    }))
+  }, [server.id, server.build?.worldGuardRegionsEndSourcePath])
+
   useEffect(() => {
     setOpenFolderError(null)
   }, [outDir])
@@ -383,6 +461,13 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
     setSavedOutputPaths(loadOutputPathPresets())
   }, [])
 
+  useEffect(() => {
+    window.electronAPI
+      .listTemplateLibrary()
+      .then(setTemplateLibrary)
+      .catch(() => setTemplateLibrary([]))
+  }, [server.id])
+
   useEffect(() => {
     loadPastBuilds()
   }, [server.id])
@@ -405,6 +490,41 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
     }
   }
 
+  async function handleConfirmRestore() {
+    const sourceBuildId = restoreTarget
+    if (!sourceBuildId) return
+    setIsRestoring(true)
+    setRestoreResult(null)
+    try {
+      const result = await window.electronAPI.restoreBuild(server.id, sourceBuildId, {
+        outDir: outDir.trim() || undefined,
+        propagateToPluginFolders,
+        note: restoreNote.trim() || undefined,
+      })
+      setRestoreResult(result)
+      if (result.success && result.buildId) {
+        await loadBuildReport(result.buildId)
+        void loadPastBuilds()
+        if (onServerUpdate) {
+          const updated = await window.electronAPI.getServer(server.id)
+          if (updated) onServerUpdate(updated)
+        }
+      }
+    } catch (error: any) {
+      setRestoreResult({
+        success: false,
+        error: error.message || 'Unknown error during restore',
+        restored: [],
+        backedUp: [],
+        skipped: [],
+      })
+    } finally {
+      setIsRestoring(false)
+      setRestoreTarget(null)
+      setRestoreNote('')
+    }
+  }
+
   async function persistDiscordSrv(target: BuildTarget, next: DiscordSrvSettings) {
     await window.electronAPI.setDiscordSrvSettings(server.id, target, next)
     if (onServerUpdate) {
@@ -413,6 +533,39 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
     }
   }
 
+  function isTemplatePlugin(id: BuildPluginId): id is PluginType {
+    return (PLUGIN_TYPES as string[]).includes(id)
+  }
+
+  function templatePinValue(plugin: PluginType): string | null {
+    const pin = server.templatePinsByTarget?.[buildTarget]?.[plugin]
+    return pin ? `${pin.templateId}:${pin.version}` : null
+  }
+
+  function templatePinOptions(plugin: PluginType) {
+    return templateLibrary
+      .filter((t) => t.plugin === plugin)
+      .map((t) => ({
+        group: t.name,
+        items: [...t.versions].reverse().map((v) => ({
+          value: `${t.id}:${v.version}`,
+          label: `${t.name} v${v.version}${v.note ? ` — ${v.note}` : ''}`,
+        })),
+      }))
+  }
+
+  async function handleTemplatePinChange(plugin: PluginType, value: string | null) {
+    setTemplatePinError(null)
+    const sep = value ? value.lastIndexOf(':') : -1
+    const pin = value && sep > 0 ? { templateId: value.slice(0, sep), version: Number(value.slice(sep + 1)) } : null
+    try {
+      const updated = await window.electronAPI.setTemplatePin(server.id, buildTarget, plugin, pin)
+      if (updated && onServerUpdate) onServerUpdate(updated)
+    } catch (e: unknown) {
+      setTemplatePinError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
   function updateSavedOutputPaths(next: OutputPathPreset[]) {
     setSavedOutputPaths(next)
     saveOutputPathPresets(next)
@@ -431,8 +584,7 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
   }
 
   function getLastGeneratedVersionLabel(id: BuildPluginId): string {
-    const versionKey = PLUGIN_VERSION_KEY_BY_ID[id]
-    const version = server.generatorVersions?.[versionKey]
+    const version = server.generatorVersions?.[id]
     return Number.isFinite(version) ? `v${version}` : 'not generated yet'
   }
 
@@ -461,6 +613,7 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
             {BUILD_PLUGINS.map((p) => (
             <Checkbox
               key={p.id}
+              description={`Owns: ${p.ownership}`}
               label={
                 <Group gap={8} wrap="wrap">
                   <Text size="sm">{p.label}</Text>
@@ -481,7 +634,7 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
         </Stack>
         <Text size="sm" c="dimmed">
           Checked plugins will be generated. For most plugins, leave paths empty to use bundled defaults, or pick
-          custom files under overrides. WorldGuard overworld and nether regions.yml each need a source file when
+          custom files under overrides. WorldGuard overworld, nether and End regions.yml each need a source file when
           enabled.
         </Text>
         {pluginOptions.discordsrv.generate && (
@@ -607,6 +760,25 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
             />
           </Stack>
         )}
+        {pluginOptions.webmap.generate && (
+          <Stack gap="xs" mt="sm">
+            <Text size="xs" c="dimmed">
+              Marker footprints come from each world&apos;s WorldGuard regions.yml source (the one picked for this
+              build&apos;s WorldGuard output, or the last one used); worlds without one are skipped.
+            </Text>
+            <MultiSelect
+              label="Web map plugins"
+              data={WEB_MAP_FORMAT_OPTIONS}
+              value={webMapFormats}
+              onChange={(v) => setWebMapFormats(v as WebMapFormat[])}
+            />
+            <Checkbox
+              label="Hide undiscovered POIs (hearts and structures discovered on entry)"
+              checked={hideUndiscoveredPois}
+              onChange={(e) => setHideUndiscoveredPois(e.currentTarget.checked)}
+            />
+          </Stack>
+        )}
         {pluginOptions.worldguardregionsnether.generate && (
           <Stack gap="xs" mt="sm">
             <Text size="xs" c="dimmed">
@@ -625,6 +797,24 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
             />
           </Stack>
         )}
+        {pluginOptions.worldguardregionsend.generate && (
+          <Stack gap="xs" mt="sm">
+            <Text size="xs" c="dimmed">
+              Pick End <Text component="span" fw={600}>regions.yml</Text> under overrides (separate Region Forge
+              export). Same header behavior as overworld.
+            </Text>
+            <TextInput
+              label="End — folder under WorldGuard/worlds/"
+              description={
+                propagateToPluginFolders
+                  ? 'End regions.yml is written to this folder (often world_the_end).'
+                  : 'Used only when “Propagate to plugin folders” is on (flat file ends with -worldguard-regions-end.yml).'
+              }
+              value={worldGuardEndWorldFolder}
+              onChange={(e) => setWorldGuardEndWorldFolder(e.currentTarget.value)}
+            />
+          </Stack>
+        )}
       </Stack>
 
       {BUILD_PLUGINS.some((p) => pluginOptions[p.id].generate) && (
@@ -640,7 +830,12 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
 
           <Collapse in={showOverrides}>
             <Stack gap="lg">
-              {BUILD_PLUGINS.filter((p) => pluginOptions[p.id].generate && 'pathKey' in p && p.pathKey).map((p) => (
+              {templatePinError && (
+                <Alert color="red" withCloseButton onClose={() => setTemplatePinError(null)}>
+                  {templatePinError}
+                </Alert>
+              )}
+              {BUILD_PLUGINS.filter((p) => pluginOptions[p.id].generate && p.pathKey).map((p) => (
                 <Stack key={p.id} gap="xs">
                   <Text size="sm" fw={600}>
                     {p.overrideLabel ?? p.label}
@@ -665,10 +860,36 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
                         ? pluginOptions[p.id].path
                           ? 'Using selected nether regions.yml'
                           : 'Browse to nether Region Forge export (required)'
-                        : pluginOptions[p.id].path
-                          ? 'Using custom file'
-                          : 'Will use bundled default template'}
+                        : p.id === 'worldguardregionsend'
+                          ? pluginOptions[p.id].path
+                            ? 'Using selected End regions.yml'
+                            : 'Browse to End Region Forge export (required)'
+                          : pluginOptions[p.id].path
+                            ? 'Using custom file'
+                            : isTemplatePlugin(p.id) && templatePinValue(p.id)
+                              ? `Will use the pinned template library version (${buildTarget})`
+                              : 'Will use bundled default template'}
                   </Text>
+                  {isTemplatePlugin(p.id) && (
+                    <Select
+                      size="xs"
+                      label={`Template library pin (${buildTarget})`}
+                      placeholder="Bundled default (not pinned)"
+                      data={templatePinOptions(p.id)}
+                      value={templatePinValue(p.id)}
+                      onChange={(value) => void handleTemplatePinChange(p.id as PluginType, value)}
+                      clearable
+                      disabled={templatePinOptions(p.id).length === 0 && !templatePinValue(p.id)}
+                      description={
+                        templatePinOptions(p.id).length === 0
+                          ? 'Import a template for this plugin in the template library to pin it'
+                          : 'Used when no custom file is selected'
+                      }
+                    />
+                  )}
+                  {p.id in OWNERSHIP_MANIFESTS && (
+                    <OwnershipManifestView manifest={OWNERSHIP_MANIFESTS[p.id as ManifestPluginId]} />
+                  )}
                 </Stack>
               ))}
             </Stack>
@@ -785,13 +1006,90 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
       )}
 
       <Button
-        onClick={handleBuild}
-        loading={isBuilding}
+        onClick={() => handleBuild()}
+        loading={isBuilding || isPreviewing}
         disabled={!testBuild && !buildNote.trim()}
       >
         Build Configs
       </Button>
 
+      <Modal
+        opened={preview !== null}
+        onClose={closePreview}
+        title="Review build changes"
+        size="90%"
+      >
+        {preview && (
+          <Stack gap="md">
+            <Group gap="xs">
+              <Badge color="green" variant="light">
+                {preview.summary.added} added
+              </Badge>
+              <Badge color="yellow" variant="light">
+                {preview.summary.changed} changed
+              </Badge>
+              <Badge color="gray" variant="light">
+                {preview.summary.unchanged} unchanged
+              </Badge>
+            </Group>
+            <Text size="xs" c="dimmed">
+              Nothing has been written yet. Diffs compare the files currently in the output
+              {propagateToPluginFolders ? ' plugin folders' : ' folder'} with what this build would write
+              (generator version headers ignored).
+            </Text>
+            {preview.warnings.length > 0 && (
+              <Alert color="yellow" title="Warnings">
+                <List size="sm">
+                  {preview.warnings.map((w, i) => (
+                    <List.Item key={i}>{w}</List.Item>
+                  ))}
+                </List>
+              </Alert>
+            )}
+            <ScrollArea.Autosize mah="60vh">
+              <Stack gap={4}>
+                {preview.files.map((f) => (
+                  <div key={f.outputPath}>
+                    <UnstyledButton
+                      onClick={() =>
+                        setExpandedPreviewPath(expandedPreviewPath === f.outputPath ? null : f.outputPath)
+                      }
+                      disabled={!f.unifiedDiff}
+                      w="100%"
+                    >
+                      <Group gap="xs" wrap="nowrap">
+                        <Badge color={PREVIEW_STATUS_COLOR[f.status]} variant="light" size="sm" w={90}>
+                          {f.status}
+                        </Badge>
+                        <Text size="sm" ff="monospace" style={{ wordBreak: 'break-all' }}>
+                          {f.relativePath}
+                        </Text>
+                        {f.binary && (
+                          <Text size="xs" c="dimmed">
+                            (binary)
+                          </Text>
+                        )}
+                      </Group>
+                    </UnstyledButton>
+                    {f.unifiedDiff && (
+                      <Collapse in={expandedPreviewPath === f.outputPath}>
+                        <SplitDiffView patch={f.unifiedDiff} />
+                      </Collapse>
+                    )}
+                  </div>
+                ))}
+              </Stack>
+            </ScrollArea.Autosize>
+            <Group justify="flex-end">
+              <Button variant="default" onClick={closePreview}>
+                Cancel
+              </Button>
+              <Button onClick={handleConfirmBuild}>Write files</Button>
+            </Group>
+          </Stack>
+        )}
+      </Modal>
+
       {buildResult && (
         <Alert
           color={buildResult.success ? 'green' : 'red'}
@@ -817,11 +1115,77 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
                   )}
                 </>
               )}
+              {buildResult.diffGate && (
+                <Stack gap="xs" mt="sm">
+                  <DiffGateViolationTree report={buildResult.diffGate} />
+                  <Group gap="xs">
+                    <Button
+                      size="xs"
+                      variant="light"
+                      color="orange"
+                      onClick={() => buildResult.diffGate && handleAcceptDrift(buildResult.diffGate)}
+                      loading={isPreviewing}
+                    >
+                      Accept this drift once
+                    </Button>
+                    <Text size="xs" c="dimmed">
+                      Builds this time only and records the acceptance in the build report.
+                    </Text>
+                  </Group>
+                </Stack>
+              )}
             </>
           )}
         </Alert>
       )}
 
+      <Modal
+        opened={restoreTarget !== null}
+        onClose={() => !isRestoring && setRestoreTarget(null)}
+        title="Restore build"
+      >
+        <Stack gap="md">
+          <Text size="sm">
+            Copy the files saved with <Text component="span" fw={600}>{restoreTarget}</Text> back into{' '}
+            <Text component="span" ff="monospace">{outDir}</Text>
+            {propagateToPluginFolders ? ' (plugin folders)' : ''}? Files it replaces are kept with the new
+            rollback build.
+          </Text>
+          <TextInput
+            label="Note (optional)"
+            value={restoreNote}
+            onChange={(e) => setRestoreNote(e.currentTarget.value)}
+          />
+          <Group justify="flex-end">
+            <Button variant="default" onClick={() => setRestoreTarget(null)} disabled={isRestoring}>
+              Cancel
+            </Button>
+            <Button color="grape" onClick={handleConfirmRestore} loading={isRestoring}>
+              Restore
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+
+      {restoreResult && (
+        <Alert
+          color={restoreResult.success ? 'green' : 'red'}
+          title={restoreResult.success ? '✓ Build restored' : '✗ Restore failed'}
+          withCloseButton
+          onClose={() => setRestoreResult(null)}
+        >
+          {restoreResult.success ? (
+            <Text size="sm">
+              {restoreResult.restored.length} file(s) restored, {restoreResult.backedUp.length} previous file(s)
+              kept under builds/{restoreResult.buildId}/overwritten.
+              {restoreResult.skipped.length > 0 && ` ${restoreResult.skipped.length} file(s) skipped.`}
+            </Text>
+          ) : (
+            <Text size="sm">{restoreResult.error}</Text>
+          )}
+        </Alert>
+      )}
+
       {buildReport && (
         <Paper p="lg" withBorder>
           <Title order={3} mb="md">Build Report</Title>
@@ -843,6 +1207,11 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
                 Test build
               </Badge>
             )}
+            {buildReport.rollbackOf && (
+              <Badge color="grape" variant="light" size="sm" w="fit-content">
+                Rollback of {buildReport.rollbackOf}
+              </Badge>
+            )}
             {buildReport.buildNote && (
               <Text size="sm">
                 <Text component="span" fw={600}>Note: </Text>
@@ -857,6 +1226,7 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
               {[
                 { label: 'Overworld', value: buildReport.regionCounts.overworld },
                 { label: 'Nether', value: buildReport.regionCounts.nether },
+                { label: 'End', value: buildReport.regionCounts.end ?? 0 },
                 { label: 'Hearts', value: buildReport.regionCounts.hearts },
                 { label: 'Villages', value: buildReport.regionCounts.villages },
                 { label: 'Regions', value: buildReport.regionCounts.regions },
@@ -877,9 +1247,8 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
             <Text size="sm">
               {(() => {
                 const generated = BUILD_PLUGINS.filter((p) => buildReport.generated?.[p.id]).map((p) => {
-                  const versionKey = PLUGIN_VERSION_KEY_BY_ID[p.id]
                   const version =
-                    buildReport.generatorVersionsSnapshot?.[versionKey] ?? server.generatorVersions?.[versionKey]
+                    buildReport.generatorVersionsSnapshot?.[p.id] ?? server.generatorVersions?.[p.id]
                   const versionLabel = Number.isFinite(version) ? ` (v${version})` : ''
                   return `✓ ${p.label}${versionLabel}`
                 })
@@ -898,11 +1267,21 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
                   return (
                     <Text key={p.id} size="sm">
                       <Text component="span" fw={600}>{p.label}:</Text>{' '}
-                      {src.isDefault ? (
+                      {src.template ? (
+                        <Text component="span" c="blue">
+                          {src.template.name} v{src.template.version}
+                        </Text>
+                      ) : src.isDefault ? (
                         <Text component="span" c="green">Bundled default</Text>
                       ) : (
                         <Text component="span" c="dimmed">{src.path}</Text>
                       )}
+                      {src.sha256 && (
+                        <Text component="span" size="xs" c="dimmed" ff="monospace" title={src.sha256}>
+                          {' '}
+                          sha256 {src.sha256.slice(0, 12)}
+                        </Text>
+                      )}
                     </Text>
                   )
                 })}
@@ -920,6 +1299,8 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
                   { label: 'Overworld Nerves', value: buildReport.computedCounts.overworldNerves },
                   { label: 'Nether Regions', value: buildReport.computedCounts.netherRegions },
                   { label: 'Nether Hearts', value: buildReport.computedCounts.netherHearts },
+                  { label: 'End Regions', value: buildReport.computedCounts.endRegions ?? 0 },
+                  { label: 'End Hearts', value: buildReport.computedCounts.endHearts ?? 0 },
                   { label: 'Villages', value: buildReport.computedCounts.villages },
                   { label: 'Total', value: buildReport.computedCounts.total },
                 ].map(({ label, value }) => (
@@ -932,6 +1313,23 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
             </Stack>
           )}
 
+          {buildReport.acceptedDrift && buildReport.acceptedDrift.length > 0 && (
+            <Stack gap="xs" mb="md">
+              <Text size="sm" fw={600} c="orange.7">Accepted diff-gate drift:</Text>
+              {buildReport.acceptedDrift.map((gate) => (
+                <Stack key={gate.plugin} gap={4}>
+                  <Text size="sm">
+                    <Text component="span" fw={600}>
+                      {BUILD_PLUGINS.find((p) => p.id === gate.plugin)?.label ?? gate.plugin}
+                    </Text>{' '}
+                    <Text component="span" c="dimmed" ff="monospace">{gate.fingerprint}</Text>
+                  </Text>
+                  <DiffGateViolationTree report={gate} />
+                </Stack>
+              ))}
+            </Stack>
+          )}
+
           {buildReport.warnings && buildReport.warnings.length > 0 && (
             <Stack gap="xs" mb="md">
               <Text size="sm" fw={600} c="yellow.7">Warnings:</Text>
@@ -953,6 +1351,18 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
               </List>
             </Stack>
           )}
+
+          <Group mt="md">
+            <Button
+              variant="light"
+              color="grape"
+              onClick={() => setRestoreTarget(buildReport.buildId)}
+              loading={isRestoring}
+              disabled={!outDir.trim()}
+            >
+              Restore this build
+            </Button>
+          </Group>
         </Paper>
       )}
 
@@ -977,6 +1387,11 @@ export function BuildScreen({ server, onServerUpdate }: BuildScreenProps) {
                       Test
                     </Badge>
                   )}
+                  {item.rollbackOf && (
+                    <Badge color="grape" variant="light" size="xs">
+                      Rollback
+                    </Badge>
+                  )}
                   {item.buildNote && (
                     <Text size="xs" c="dimmed" style={{ minWidth: 0 }} lineClamp={1}>
                       {item.buildNote}
@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Alert,
+  Badge,
+  Button,
+  Code,
+  Group,
+  List,
+  Paper,
+  Select,
+  SimpleGrid,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Textarea,
+  Title,
+} from '@mantine/core'
+import type { CeActionRecipe, CeRecipeKey, CeRecipes, ServerProfile } from '../types'
+import {
+  CE_LORE_GUARD,
+  CE_RECIPE_KEYS,
+  CE_RECIPE_PLACEHOLDERS,
+  DEFAULT_CE_RECIPES,
+  ceRecipeContext,
+  discoveryRecipeKey,
+  firstJoinRecipeContext,
+  renderCeRecipe,
+  resolveCeRecipes,
+  validateCeRecipe,
+  validateCeRecipes,
+} from '@shared/ceRecipes'
+
+interface CeRecipesScreenProps {
+  server: ServerProfile
+  onServerUpdate: (server: ServerProfile) => void
+}
+
+function sameRecipe(a: CeActionRecipe, b: CeActionRecipe): boolean {
+  return a.crate === b.crate && a.counter === b.counter && a.actions.join('\n') === b.actions.join('\n')
+}
+
+type ActionTexts = Record<CeRecipeKey, string>
+
+function actionTextsFor(recipes: CeRecipes): ActionTexts {
+  const texts = {} as ActionTexts
+  for (const { key } of CE_RECIPE_KEYS) texts[key] = recipes[key].actions.join('\n')
+  return texts
+}
+
+function parseActions(text: string): string[] {
+  return text.split('\n').filter((line) => line.trim().length > 0)
+}
+
+/** Blank crate / counter inputs mean "not set". */
+function optionalText(value: string): string | undefined {
+  const trimmed = value.trim()
+  return trimmed ? trimmed : undefined
+}
+
+export function CeRecipesScreen({ server, onServerUpdate }: CeRecipesScreenProps) {
+  const saved = useMemo(() => resolveCeRecipes(server.ceRecipes), [server.ceRecipes])
+  const [draft, setDraft] = useState<CeRecipes>(saved)
+  const [actionTexts, setActionTexts] = useState<ActionTexts>(() => actionTextsFor(saved))
+  const [selectedKey, setSelectedKey] = useState<CeRecipeKey>('region')
+  const [sampleRegionKey, setSampleRegionKey] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveStatus, setSaveStatus] = useState<'success' | 'error' | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDraft(saved)
+    setActionTexts(actionTextsFor(saved))
+  }, [saved])
+
+  // Action text areas are kept raw while typing; blank lines are dropped when parsed.
+  const recipes = {} as CeRecipes
+  for (const { key } of CE_RECIPE_KEYS) recipes[key] = { ...draft[key], actions: parseActions(actionTexts[key]) }
+  const recipe = recipes[selectedKey]
+  const recipeErrors = validateCeRecipe(selectedKey, recipe)
+  const errors = validateCeRecipes(recipes)
+  const isDirty = JSON.stringify(recipes) !== JSON.stringify(saved)
+  const regionBands = server.regionsMeta?.levelledMobs?.regionBands
+  const structureFamilies = server.regionsMeta?.structureFamilies
+
+  // Sample regions for the preview: anything this recipe would be rendered for.
+  const sampleRegions = useMemo(
+    () =>
+      selectedKey === 'first_join'
+        ? []
+        : server.regions.filter(
+            (r) =>
+              r.discover.method === 'on_enter' &&
+              r.id !== server.onboarding.startRegionId &&
+              discoveryRecipeKey(r) === selectedKey
+          ),
+    [server.regions, server.onboarding.startRegionId, selectedKey]
+  )
+  const sampleRegion =
+    sampleRegions.find((r) => `${r.world}:${r.id}` === sampleRegionKey) ?? sampleRegions[0] ?? null
+
+  let previewLines: string[] | null = null
+  if (selectedKey === 'first_join') {
+    previewLines = renderCeRecipe(recipe, firstJoinRecipeContext(server.onboarding, server.regions, regionBands))
+  } else if (sampleRegion) {
+    const counter = sampleRegion.structureType ? structureFamilies?.[sampleRegion.structureType]?.counter : undefined
+    previewLines = renderCeRecipe(recipe, { ...ceRecipeContext(sampleRegion, regionBands), counter })
+  }
+
+  function setRecipe(patch: Partial<CeActionRecipe>) {
+    setDraft((d) => ({ ...d, [selectedKey]: { ...d[selectedKey], ...patch } }))
+  }
+
+  function restoreDefaultRecipe() {
+    const defaults = resolveCeRecipes(null)[selectedKey]
+    setDraft((d) => ({ ...d, [selectedKey]: defaults }))
+    setActionTexts((t) => ({ ...t, [selectedKey]: defaults.actions.join('\n') }))
+  }
+
+  function discardChanges() {
+    setDraft(saved)
+    setActionTexts(actionTextsFor(saved))
+    setSaveError(null)
+  }
+
+  async function save(next: CeRecipes | null) {
+    setIsSaving(true)
+    setSaveStatus(null)
+    setSaveError(null)
+    try {
+      const result = await window.electronAPI.updateCeRecipes(server.id, next)
+      if (result.success && result.profile) {
+        onServerUpdate(result.profile)
+        setSaveStatus('success')
+        setTimeout(() => setSaveStatus(null), 2000)
+      } else {
+        setSaveStatus('error')
+        setSaveError(result.error ?? 'Saving CE recipes failed')
+      }
+    } catch (e) {
+      setSaveStatus('error')
+      setSaveError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const placeholders = CE_RECIPE_PLACEHOLDERS.filter((p) => !p.only || p.only.includes(selectedKey))
+
+  return (
+    <Stack gap="xl">
+      <Group gap="sm">
+        <Text size="sm" c="dimmed">
+          ConditionalEvents actions run when a player discovers a region, and on first join. Changes apply to
+          the next CE build.
+        </Text>
+        {server.ceRecipes ? (
+          <Badge variant="light">Custom</Badge>
+        ) : (
+          <Badge variant="light" color="gray">
+            Defaults
+          </Badge>
+        )}
+      </Group>
+
+      {errors.length > 0 && (
+        <Alert color="red" variant="light" title="Fix these before saving">
+          <List size="sm" spacing={2}>
+            {errors.map((e) => (
+              <List.Item key={e}>{e}</List.Item>
+            ))}
+          </List>
+        </Alert>
+      )}
+
+      <Paper withBorder p="lg" bg="dark.6">
+        <Stack gap="md">
+          <Group justify="space-between" align="flex-end">
+            <Select
+              label="Recipe"
+              w={280}
+              allowDeselect={false}
+              data={CE_RECIPE_KEYS.map(({ key, label }) => ({
+                value: key,
+                label: sameRecipe(recipes[key], DEFAULT_CE_RECIPES[key]) ? label : `${label} (custom)`,
+              }))}
+              value={selectedKey}
+              onChange={(v) => {
+                if (!v) return
+                setSelectedKey(v as CeRecipeKey)
+                setSampleRegionKey(null)
+              }}
+            />
+            <Button
+              variant="subtle"
+              onClick={restoreDefaultRecipe}
+              disabled={sameRecipe(recipe, DEFAULT_CE_RECIPES[selectedKey])}
+            >
+              Restore default recipe
+            </Button>
+          </Group>
+
+          <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="md" maw={480}>
+            <TextInput
+              label="Crate"
+              description="Expands {CRATE}"
+              value={recipe.crate ?? ''}
+              onChange={(e) => setRecipe({ crate: optionalText(e.currentTarget.value) })}
+            />
+            {selectedKey !== 'structure' && (
+              <TextInput
+                label="Counter"
+                description="Expands {COUNTER} (without Custom.)"
+                value={recipe.counter ?? ''}
+                onChange={(e) => setRecipe({ counter: optionalText(e.currentTarget.value) })}
+              />
+            )}
+          </SimpleGrid>
+
+          <Textarea
+            label="Actions"
+            description={`One CE action per line, run in order. Prefix a line with ${CE_LORE_GUARD.trim()} to run it only for regions with lore.`}
+            autosize
+            minRows={8}
+            styles={{ input: { fontFamily: 'monospace', fontSize: 12 } }}
+            value={actionTexts[selectedKey]}
+            onChange={(e) => {
+              const text = e.currentTarget.value
+              setActionTexts((t) => ({ ...t, [selectedKey]: text }))
+            }}
+            error={recipeErrors.length > 0 ? `${recipeErrors.length} problem(s) — see above` : undefined}
+          />
+
+          <Table withTableBorder={false} verticalSpacing={2} maw={640}>
+            <Table.Tbody>
+              {placeholders.map((p) => (
+                <Table.Tr key={p.token}>
+                  <Table.Td w={180}>
+                    <Code>{p.token}</Code>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="xs" c="dimmed">
+                      {p.description}
+                    </Text>
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Stack>
+      </Paper>
+
+      <Paper withBorder p="lg" bg="dark.6">
+        <Stack gap="md">
+          <Title order={4}>Preview</Title>
+          {selectedKey !== 'first_join' && sampleRegions.length > 0 && (
+            <Select
+              label="Sample region"
+              w={280}
+              searchable
+              allowDeselect={false}
+              data={sampleRegions.map((r) => ({ value: `${r.world}:${r.id}`, label: `${r.id} (${r.world})` }))}
+              value={sampleRegion ? `${sampleRegion.world}:${sampleRegion.id}` : null}
+              onChange={setSampleRegionKey}
+            />
+          )}
+          {previewLines ? (
+            <Code block>{previewLines.join('\n')}</Code>
+          ) : (
+            <Text size="sm" c="dimmed">
+              No imported region uses this recipe yet.
+            </Text>
+          )}
+        </Stack>
+      </Paper>
+
+      {saveError && (
+        <Alert color="red" variant="light" withCloseButton onClose={() => setSaveError(null)}>
+          <Text size="sm" style={{ whiteSpace: 'pre-line' }}>
+            {saveError}
+          </Text>
+        </Alert>
+      )}
+
+      <Group gap="md" align="center">
+        <Button onClick={() => save(recipes)} loading={isSaving} disabled={!isDirty || errors.length > 0}>
+          Save CE Recipes
+        </Button>
+        <Button variant="default" onClick={discardChanges} disabled={!isDirty || isSaving}>
+          Discard changes
+        </Button>
+        <Button variant="subtle" color="red" onClick={() => save(null)} disabled={!server.ceRecipes || isSaving}>
+          Reset to defaults
+        </Button>
+        {saveStatus === 'success' && (
+          <Text size="sm" c="green">
+            ✓ Saved successfully!
+          </Text>
+        )}
+      </Group>
+    </Stack>
+  )
+}
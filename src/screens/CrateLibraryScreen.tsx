@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react'
-import { Alert, Button, Group, Paper, ScrollArea, Stack, Text } from '@mantine/core'
+import { Button, Group, Paper, ScrollArea, Stack, Text } from '@mantine/core'
 import type { CrateLibraryEntry } from '../types'
+import { LibraryLoadErrorAlert } from '../components/LibraryLoadErrorAlert'
 
 interface CrateLibraryScreenProps {
   onCreateCrate: () => void
@@ -51,11 +52,7 @@ export function CrateLibraryScreen({ onCreateCrate, onEditCrate }: CrateLibraryS
         </Group>
       </Group>
 
-      {loadError && (
-        <Alert color="red" title="Error">
-          {loadError}
-        </Alert>
-      )}
+      <LibraryLoadErrorAlert kind="crateLibrary" error={loadError} onRecovered={() => void loadLibrary()} />
 
       <Group align="flex-start" wrap="nowrap" gap="md" style={{ minHeight: 420 }}>
         <Paper withBorder w={280} p="xs">
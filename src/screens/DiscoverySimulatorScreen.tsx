@@ -0,0 +1,397 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  ActionIcon,
+  Alert,
+  Badge,
+  Button,
+  Group,
+  List,
+  NumberInput,
+  Paper,
+  ScrollArea,
+  SegmentedControl,
+  Select,
+  SimpleGrid,
+  Stack,
+  Table,
+  Text,
+  Textarea,
+  Title,
+} from '@mantine/core'
+import { IconDice, IconRoute } from '@tabler/icons-react'
+import type { BuildListItem, DiscoverySimulationReport, DiscoveryWalk, ServerProfile } from '../types'
+
+interface DiscoverySimulatorScreenProps {
+  server: ServerProfile
+}
+
+type WalkMode = DiscoveryWalk['mode']
+
+/** Keep in sync with MAX_RANDOM_WALK_STEPS in the simulator. */
+const MAX_STEPS = 2000
+
+function buildOptionLabel(item: BuildListItem): string {
+  const suffix = item.testBuild ? ' [test]' : ''
+  return item.buildNote ? `${item.buildId}${suffix} — ${item.buildNote}` : `${item.buildId}${suffix}`
+}
+
+function parseRegionIds(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean)
+}
+
+function StatCard({ label, value }: { label: string; value: number }) {
+  return (
+    <Paper withBorder p="sm" bg="dark.6">
+      <Text size="xs" tt="uppercase" fw={600} c="dimmed">
+        {label}
+      </Text>
+      <Text size="xl" fw={700}>
+        {value}
+      </Text>
+    </Paper>
+  )
+}
+
+function ReportView({ report }: { report: DiscoverySimulationReport }) {
+  const errors = report.issues.filter((i) => i.severity === 'error')
+  const warnings = report.issues.filter((i) => i.severity === 'warning')
+  const crates = Object.entries(report.crateKeys)
+  const counters = Object.entries(report.counters).sort(([a], [b]) => a.localeCompare(b))
+  const stepLabel = (index: number) => (index === 0 ? 'First join' : report.steps[index]?.regionId ?? '—')
+
+  return (
+    <Stack gap="lg">
+      {errors.length > 0 && (
+        <Alert color="red" variant="light" title={`${errors.length} problem(s) players would hit`}>
+          <List size="sm" spacing={2}>
+            {errors.map((i) => (
+              <List.Item key={i.message}>{i.message}</List.Item>
+            ))}
+          </List>
+        </Alert>
+      )}
+      {warnings.length > 0 && (
+        <Alert color="yellow" variant="light" title={`${warnings.length} warning(s)`}>
+          <List size="sm" spacing={2}>
+            {warnings.map((i) => (
+              <List.Item key={i.message}>{i.message}</List.Item>
+            ))}
+          </List>
+        </Alert>
+      )}
+      {report.issues.length === 0 && (
+        <Alert color="green" variant="light">
+          Every tier is reachable and TAB totals reach 100% once everything is discovered.
+        </Alert>
+      )}
+
+      <SimpleGrid cols={{ base: 2, sm: 4 }} spacing="md">
+        <StatCard label="Regions entered" value={report.steps.length - 1} />
+        <StatCard label="Achievements" value={report.achievements.length} />
+        <StatCard label="Tiers" value={report.tiers.length} />
+        <StatCard label="Crate keys" value={crates.reduce((n, [, count]) => n + count, 0)} />
+      </SimpleGrid>
+
+      <SimpleGrid cols={{ base: 1, md: 2 }} spacing="md">
+        <Paper withBorder p="md" bg="dark.6">
+          <Stack gap="sm">
+            <Title order={5}>Counters and TAB</Title>
+            <Group gap="xs">
+              {counters.map(([counter, value]) => (
+                <Badge key={counter} variant="light" color="blue">
+                  {counter}: {value}
+                </Badge>
+              ))}
+            </Group>
+            {report.tab.length > 0 ? (
+              <Table withTableBorder>
+                <Table.Tbody>
+                  {report.tab.map((line) => (
+                    <Table.Tr key={`${line.label}:${line.kind}:${line.of}`}>
+                      <Table.Td>{line.label}</Table.Td>
+                      <Table.Td>{line.kind === 'percent' ? `${line.value}%` : `${line.value}/${line.of}`}</Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            ) : (
+              <Text size="sm" c="dimmed">
+                The build has no TAB lines reading AA counters.
+              </Text>
+            )}
+          </Stack>
+        </Paper>
+        <Paper withBorder p="md" bg="dark.6">
+          <Stack gap="sm">
+            <Title order={5}>Rewards</Title>
+            <Group gap="xs">
+              {crates.length > 0 ? (
+                crates.map(([crate, count]) => (
+                  <Badge key={crate} variant="light" color="orange">
+                    {crate} ×{count}
+                  </Badge>
+                ))
+              ) : (
+                <Text size="sm" c="dimmed">
+                  No crate keys.
+                </Text>
+              )}
+            </Group>
+            <Text size="sm">
+              <strong>Permissions:</strong> {report.permissions.length > 0 ? report.permissions.join(', ') : 'none'}
+            </Text>
+            <Text size="sm">
+              <strong>Promotions:</strong> {report.promotions.length > 0 ? report.promotions.join(', ') : 'none'}
+            </Text>
+          </Stack>
+        </Paper>
+      </SimpleGrid>
+
+      {report.tiers.length > 0 && (
+        <Stack gap="xs">
+          <Title order={5}>Tiers reached</Title>
+          <Table striped withTableBorder>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Step</Table.Th>
+                <Table.Th>Counter</Table.Th>
+                <Table.Th>Tier</Table.Th>
+                <Table.Th>AA name</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {report.tiers.map((t) => (
+                <Table.Tr key={`${t.category}:${t.tier}`}>
+                  <Table.Td>
+                    {t.step}. {stepLabel(t.step)}
+                  </Table.Td>
+                  <Table.Td>{t.category}</Table.Td>
+                  <Table.Td>{t.tier}</Table.Td>
+                  <Table.Td>{t.name ?? '—'}</Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Stack>
+      )}
+
+      <Stack gap="xs">
+        <Title order={5}>Walk</Title>
+        <ScrollArea.Autosize mah={480}>
+          <Table striped highlightOnHover withTableBorder>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>#</Table.Th>
+                <Table.Th>Region</Table.Th>
+                <Table.Th>CE events</Table.Th>
+                <Table.Th>Awarded</Table.Th>
+                <Table.Th>Waits</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {report.steps.map((step, index) => (
+                <Table.Tr key={index}>
+                  <Table.Td>{index}</Table.Td>
+                  <Table.Td>{stepLabel(index)}</Table.Td>
+                  <Table.Td>
+                    <Text size="xs" c={step.events.length > 0 ? undefined : 'dimmed'}>
+                      {step.events.length > 0 ? step.events.join(', ') : 'nothing new'}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="xs">{[...step.achievements, ...step.tiers].join(', ')}</Text>
+                  </Table.Td>
+                  <Table.Td>{step.waitSeconds > 0 ? `${step.waitSeconds}s` : ''}</Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea.Autosize>
+      </Stack>
+
+      {(report.unhandledCommands.length > 0 || report.skippedEvents.length > 0) && (
+        <Stack gap={4}>
+          {report.unhandledCommands.length > 0 && (
+            <Text size="xs" c="dimmed">
+              Not simulated (commands): {report.unhandledCommands.join('; ')}
+            </Text>
+          )}
+          {report.skippedEvents.length > 0 && (
+            <Text size="xs" c="dimmed">
+              Not simulated (events with other triggers or conditions): {report.skippedEvents.join(', ')}
+            </Text>
+          )}
+        </Stack>
+      )}
+    </Stack>
+  )
+}
+
+export function DiscoverySimulatorScreen({ server }: DiscoverySimulatorScreenProps) {
+  const [builds, setBuilds] = useState<BuildListItem[]>([])
+  const [buildId, setBuildId] = useState<string | null>(null)
+  const [mode, setMode] = useState<WalkMode>('sequence')
+  const [sequence, setSequence] = useState('')
+  const [steps, setSteps] = useState<number | string>(50)
+  const [seed, setSeed] = useState<number | string>(1)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<DiscoverySimulationReport | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setReport(null)
+    window.electronAPI
+      .listBuilds(server.id)
+      .then((items) => {
+        if (cancelled) return
+        setBuilds(items)
+        setBuildId(items[0]?.buildId ?? null)
+      })
+      .catch((err) => console.error('Failed to load past builds:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [server.id])
+
+  const regionIds = parseRegionIds(sequence)
+  const knownIds = useMemo(() => new Set(server.regions.map((r) => r.id)), [server.regions])
+  const unknownIds = [...new Set(regionIds.filter((id) => !knownIds.has(id)))]
+  const stepCount = typeof steps === 'number' ? steps : 0
+
+  function fillAllRegions() {
+    const ids = server.regions
+      .filter((r) => r.discover.method === 'on_enter' && r.id !== server.onboarding.startRegionId)
+      .map((r) => r.id)
+    setSequence([...new Set(ids)].join('\n'))
+  }
+
+  async function handleRun() {
+    if (!buildId) return
+    setLoading(true)
+    setError(null)
+    try {
+      const walk: DiscoveryWalk =
+        mode === 'random'
+          ? { mode: 'random', steps: stepCount, seed: typeof seed === 'number' ? seed : 0 }
+          : { mode: 'sequence', regionIds }
+      const res = await window.electronAPI.simulateDiscovery(server.id, buildId, walk)
+      if (!res.ok) {
+        setReport(null)
+        setError(res.error)
+        return
+      }
+      setReport(res.report)
+    } catch (err: any) {
+      setReport(null)
+      setError(err.message || 'Simulation failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Stack gap="lg">
+      <Text size="sm" c="dimmed">
+        Replays a first join and a walk through regions against a saved build's AdvancedAchievements,
+        ConditionalEvents and TAB files. The simulator runs the CE actions we generate (achievements, counters,
+        crate keys, permissions, waits), then checks that a player who discovers everything reaches every tier and
+        a full TAB total.
+      </Text>
+
+      <Paper p="md" withBorder>
+        <Stack gap="sm">
+          {builds.length === 0 && (
+            <Text size="sm" c="dimmed">
+              Run a build with AdvancedAchievements and ConditionalEvents first.
+            </Text>
+          )}
+          <Group align="flex-end" gap="md">
+            <Select
+              label="Build"
+              data={builds.map((b) => ({ value: b.buildId, label: buildOptionLabel(b) }))}
+              value={buildId}
+              onChange={setBuildId}
+              searchable
+              miw={320}
+            />
+            <SegmentedControl
+              value={mode}
+              onChange={(v) => setMode(v as WalkMode)}
+              data={[
+                { value: 'sequence', label: 'Region sequence' },
+                { value: 'random', label: 'Random walk' },
+              ]}
+            />
+          </Group>
+
+          {mode === 'sequence' ? (
+            <Stack gap={4}>
+              <Textarea
+                label="Regions entered, in order"
+                description="WorldGuard region ids separated by commas or new lines; repeats are allowed"
+                placeholder={'aureas\nheart_of_aureas'}
+                autosize
+                minRows={3}
+                maxRows={10}
+                value={sequence}
+                onChange={(e) => setSequence(e.currentTarget.value)}
+              />
+              <Group gap="sm">
+                <Button size="compact-sm" variant="subtle" onClick={fillAllRegions}>
+                  Enter every region once
+                </Button>
+                {unknownIds.length > 0 && (
+                  <Text size="xs" c="yellow">
+                    Not in this profile: {unknownIds.join(', ')}
+                  </Text>
+                )}
+              </Group>
+            </Stack>
+          ) : (
+            <Group align="flex-end" gap="md">
+              <NumberInput
+                label="Steps"
+                description="Mostly into a bordering region, sometimes a jump"
+                min={1}
+                max={MAX_STEPS}
+                allowDecimal={false}
+                value={steps}
+                onChange={setSteps}
+                w={220}
+              />
+              <NumberInput label="Seed" allowDecimal={false} value={seed} onChange={setSeed} w={140} />
+              <ActionIcon
+                variant="default"
+                size="lg"
+                aria-label="New seed"
+                onClick={() => setSeed(Math.floor(Math.random() * 1_000_000))}
+              >
+                <IconDice size={18} />
+              </ActionIcon>
+            </Group>
+          )}
+
+          <Group>
+            <Button
+              leftSection={<IconRoute size={16} />}
+              onClick={handleRun}
+              loading={loading}
+              disabled={!buildId || (mode === 'random' && (stepCount < 1 || stepCount > MAX_STEPS))}
+            >
+              Simulate
+            </Button>
+          </Group>
+        </Stack>
+      </Paper>
+
+      {error && (
+        <Alert color="red" title="Simulation failed">
+          {error}
+        </Alert>
+      )}
+
+      {report && <ReportView report={report} />}
+    </Stack>
+  )
+}
@@ -0,0 +1,295 @@
+import { Fragment, useState } from 'react'
+import { Title, Text, TextInput, Button, Group, Stack, Paper, Alert, Badge, ScrollArea, Table, Code } from '@mantine/core'
+import { IconFolder, IconSearch } from '@tabler/icons-react'
+import type { DiffGateViolation, DriftCheckResult, DriftFileResult, DriftFileStatus } from '../types'
+import { SplitDiffView } from '../components/SplitDiffView'
+import { YamlChangeTree } from '../components/DiffGateViolationTree'
+
+const STATUS_BADGE: Record<DriftFileStatus, { label: string; color: string }> = {
+  clean: { label: 'Clean', color: 'green' },
+  edited: { label: 'Edited', color: 'yellow' },
+  missing: { label: 'Missing', color: 'gray' },
+  no_header: { label: 'No header', color: 'blue' },
+  build_missing: { label: 'Build not found', color: 'orange' },
+  read_error: { label: 'Error', color: 'red' },
+}
+
+interface DriftCheckScreenProps {
+  onBack: () => void
+}
+
+function isWholeFile(edits: DiffGateViolation[]): boolean {
+  return edits.length === 1 && edits[0].path.length === 0
+}
+
+function EditGroup({
+  title,
+  hint,
+  color,
+  edits,
+  buildId,
+}: {
+  title: string
+  hint: string
+  color: string
+  edits: DiffGateViolation[]
+  buildId: string
+}) {
+  return (
+    <Stack gap={4}>
+      <Group gap="xs">
+        <Badge color={color} variant="light">
+          {title}: {edits.length}
+        </Badge>
+        <Text size="xs" c="dimmed">
+          {hint}
+        </Text>
+      </Group>
+      {isWholeFile(edits) ? (
+        <Text size="xs" c="dimmed">
+          The file is not YAML (or does not parse), so it is compared as a whole.
+        </Text>
+      ) : (
+        <YamlChangeTree changes={edits} beforeLabel={`Build ${buildId}`} afterLabel="Live" />
+      )}
+    </Stack>
+  )
+}
+
+function DriftDetail({ row }: { row: DriftFileResult }) {
+  const buildId = row.provenance?.buildId ?? ''
+  const owned = row.ownedEdits ?? []
+  const template = row.templateEdits ?? []
+  return (
+    <Stack gap="sm">
+      {row.formattingOnly && (
+        <Text size="xs" c="dimmed">
+          Only comments or formatting changed; the parsed YAML is the same as the build&apos;s.
+        </Text>
+      )}
+      {template.length > 0 && (
+        <EditGroup
+          title="Template edits"
+          hint="Outside owned sections; pull these back into the template or the next build loses them."
+          color="orange"
+          edits={template}
+          buildId={buildId}
+        />
+      )}
+      {owned.length > 0 && (
+        <EditGroup
+          title="Owned edits"
+          hint="In sections Plugin Manager generates; the next build overwrites these."
+          color="gray"
+          edits={owned}
+          buildId={buildId}
+        />
+      )}
+      {row.unifiedDiff && (
+        <ScrollArea.Autosize mah={420} type="auto">
+          <SplitDiffView patch={row.unifiedDiff} />
+        </ScrollArea.Autosize>
+      )}
+    </Stack>
+  )
+}
+
+function DriftResultView({ result }: { result: DriftCheckResult }) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  return (
+    <Stack gap="sm">
+      <Group gap="xs">
+        {(Object.keys(STATUS_BADGE) as DriftFileStatus[]).map((status) =>
+          status === 'read_error' && result.summary.read_error === 0 ? null : (
+            <Badge key={status} color={STATUS_BADGE[status].color} variant="light">
+              {STATUS_BADGE[status].label}: {result.summary[status]}
+            </Badge>
+          )
+        )}
+      </Group>
+      <Text size="xs" c="dimmed">
+        Plugins root: {result.pluginsRoot}
+      </Text>
+
+      <ScrollArea.Autosize mah={640}>
+        <Table striped highlightOnHover withTableBorder>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Plugin / file</Table.Th>
+              <Table.Th>Relative path</Table.Th>
+              <Table.Th>Built by</Table.Th>
+              <Table.Th>Status</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {result.files.map((row) => {
+              const badge = STATUS_BADGE[row.status]
+              const expandable = row.status === 'edited'
+              return (
+                <Fragment key={row.id}>
+                  <Table.Tr
+                    style={{ cursor: expandable ? 'pointer' : undefined }}
+                    onClick={() => {
+                      if (expandable) setExpandedId((cur) => (cur === row.id ? null : row.id))
+                    }}
+                  >
+                    <Table.Td>{row.label}</Table.Td>
+                    <Table.Td>
+                      <Text size="sm" ff="monospace">
+                        {row.relativePath}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      {row.provenance ? (
+                        <Stack gap={0}>
+                          <Text size="xs">
+                            <Code>{row.provenance.buildId}</Code> ({row.provenance.profileId})
+                          </Text>
+                          {row.provenance.generatedAt && (
+                            <Text size="xs" c="dimmed">
+                              {new Date(row.provenance.generatedAt).toLocaleString()}
+                            </Text>
+                          )}
+                        </Stack>
+                      ) : (
+                        <Text size="xs" c="dimmed">
+                          —
+                        </Text>
+                      )}
+                    </Table.Td>
+                    <Table.Td>
+                      <Group gap="xs">
+                        <Badge color={badge.color} variant="light">
+                          {badge.label}
+                        </Badge>
+                        {(row.templateEdits?.length ?? 0) > 0 && (
+                          <Badge color="orange" variant="outline" size="sm">
+                            Template edits
+                          </Badge>
+                        )}
+                        {row.error && (
+                          <Text size="xs" c="red">
+                            {row.error}
+                          </Text>
+                        )}
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>
+                  {expandedId === row.id && (
+                    <Table.Tr>
+                      <Table.Td colSpan={4} style={{ verticalAlign: 'top', background: 'var(--mantine-color-body)' }}>
+                        <DriftDetail row={row} />
+                      </Table.Td>
+                    </Table.Tr>
+                  )}
+                </Fragment>
+              )
+            })}
+          </Table.Tbody>
+        </Table>
+      </ScrollArea.Autosize>
+      {result.files.some((f) => f.status === 'edited') && (
+        <Text size="xs" c="dimmed">
+          Click a row with status &quot;Edited&quot; to see which edits the next build would overwrite.
+        </Text>
+      )}
+    </Stack>
+  )
+}
+
+export function DriftCheckScreen({ onBack }: DriftCheckScreenProps) {
+  const [pluginsRoot, setPluginsRoot] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<DriftCheckResult | null>(null)
+
+  async function pickFolder() {
+    const p = await window.electronAPI.showFolderDialog('Select live plugins folder', pluginsRoot || undefined)
+    if (p) setPluginsRoot(p)
+  }
+
+  async function runCheck() {
+    setError(null)
+    setResult(null)
+    setLoading(true)
+    try {
+      const res = await window.electronAPI.checkPluginDrift(pluginsRoot.trim())
+      if (!res.ok) {
+        setError(res.error)
+        return
+      }
+      setResult(res.result)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Stack gap="lg">
+      <Group justify="space-between" align="flex-start">
+        <div>
+          <Title order={1} mb={4}>
+            Drift check
+          </Title>
+          <Text size="sm" c="dimmed">
+            Compare each generated file in a live plugins root with the build named in its header, to find edits
+            made on the server after propagation.
+          </Text>
+        </div>
+        <Button variant="default" onClick={onBack}>
+          Back to servers
+        </Button>
+      </Group>
+
+      <Paper p="md" withBorder>
+        <Stack gap="md">
+          <div>
+            <Text size="sm" fw={500} mb={4}>
+              Plugins folder
+            </Text>
+            <Text size="xs" c="dimmed" mb={6}>
+              The folder that contains AdvancedAchievements, TAB, etc. on the live server (or a copy of it)
+            </Text>
+            <Group gap="xs" align="flex-end" wrap="nowrap">
+              <TextInput
+                style={{ flex: 1 }}
+                placeholder="Path…"
+                value={pluginsRoot}
+                onChange={(e) => setPluginsRoot(e.currentTarget.value)}
+              />
+              <Button variant="default" leftSection={<IconFolder size={16} />} onClick={pickFolder}>
+                Browse
+              </Button>
+            </Group>
+          </div>
+          <Group>
+            <Button
+              leftSection={<IconSearch size={16} />}
+              onClick={runCheck}
+              loading={loading}
+              disabled={!pluginsRoot.trim()}
+            >
+              Check drift
+            </Button>
+          </Group>
+        </Stack>
+      </Paper>
+
+      {error && (
+        <Alert color="red" title="Drift check failed">
+          {error}
+        </Alert>
+      )}
+
+      {result?.warnings?.map((w) => (
+        <Alert key={w.title} color="yellow" title={w.title}>
+          {w.message}
+        </Alert>
+      ))}
+
+      {result && <DriftResultView result={result} />}
+    </Stack>
+  )
+}
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react'
-import { Alert, Button, Group, Paper, ScrollArea, Stack, Text } from '@mantine/core'
+import { Button, Group, Paper, ScrollArea, Stack, Text } from '@mantine/core'
 import type { DropTableLibraryEntry } from '../types'
+import { LibraryLoadErrorAlert } from '../components/LibraryLoadErrorAlert'
 
 interface DropTableLibraryScreenProps {
   onCreateTable: () => void
@@ -54,11 +55,7 @@ export function DropTableLibraryScreen({ onCreateTable, onEditTable }: DropTable
         </Group>
       </Group>
 
-      {loadError && (
-        <Alert color="red" title="Error">
-          {loadError}
-        </Alert>
-      )}
+      <LibraryLoadErrorAlert kind="dropTableLibrary" error={loadError} onRecovered={() => void loadLibrary()} />
 
       <Group align="flex-start" wrap="nowrap" gap="md" style={{ minHeight: 420 }}>
         <Paper withBorder w={280} p="xs">
@@ -1,65 +1,74 @@
 import { useState } from 'react'
 import { Title, Text, Button, Group, Stack, Paper, Alert } from '@mantine/core'
-import type { ServerProfile, ImportResult } from '../types'
+import type { ServerProfile, ImportResult, ImportedSource, RegionImportDiff } from '../types'
+import { RegionImportDiffView } from '../components/RegionImportDiffView'
 
 interface ImportScreenProps {
   server: ServerProfile
   onServerUpdate: (server: ServerProfile) => void
 }
 
+type ImportWorld = 'overworld' | 'nether' | 'end'
+
+const IMPORT_WORLDS: Array<{ world: ImportWorld; title: string; buttonLabel: string }> = [
+  { world: 'overworld', title: 'Overworld Regions Meta', buttonLabel: 'Import overworld regions-meta' },
+  { world: 'nether', title: 'Nether Regions Meta', buttonLabel: 'Import nether regions-meta' },
+  { world: 'end', title: 'End Regions Meta', buttonLabel: 'Import end regions-meta' },
+]
+
 export function ImportScreen({ server, onServerUpdate }: ImportScreenProps) {
-  const [isImportingOverworld, setIsImportingOverworld] = useState(false)
-  const [isImportingNether, setIsImportingNether] = useState(false)
+  const [importingWorld, setImportingWorld] = useState<ImportWorld | null>(null)
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [pending, setPending] = useState<{
+    world: ImportWorld
+    filePath: string
+    fileHash?: string
+    diff: RegionImportDiff
+  } | null>(null)
+  const [applying, setApplying] = useState(false)
 
-  async function handleImportOverworldRegionsMeta() {
-    setIsImportingOverworld(true)
+  async function handleImportRegionsMeta(world: ImportWorld) {
+    setImportingWorld(world)
     setImportResult(null)
+    setPending(null)
 
     try {
       // Show file dialog
       const filePath = await window.electronAPI.showImportDialog()
       if (!filePath) {
-        setIsImportingOverworld(false)
+        setImportingWorld(null)
         return
       }
 
-      // Import overworld regions-meta
-      const result = await window.electronAPI.importRegionsMeta(server.id, 'overworld', filePath)
-      setImportResult(result)
-
-      if (result.success) {
-        // Reload server to get updated data
-        const updated = await window.electronAPI.getServer(server.id)
-        if (updated) {
-          onServerUpdate(updated)
-        }
+      // Nothing is saved until the change report is accepted.
+      const preview = await window.electronAPI.previewImportRegionsMeta(server.id, world, filePath)
+      if (!preview.success || !preview.diff) {
+        setImportResult({ success: false, error: preview.error || 'Unknown error during import preview' })
+        return
       }
+      setPending({ world, filePath, fileHash: preview.fileHash, diff: preview.diff })
     } catch (error: any) {
       setImportResult({
         success: false,
         error: error.message || 'Unknown error during import',
       })
     } finally {
-      setIsImportingOverworld(false)
+      setImportingWorld(null)
     }
   }
 
-  async function handleImportNetherRegionsMeta() {
-    setIsImportingNether(true)
-    setImportResult(null)
-
+  async function handleAcceptImport() {
+    if (!pending) return
+    setApplying(true)
     try {
-      // Show file dialog
-      const filePath = await window.electronAPI.showImportDialog()
-      if (!filePath) {
-        setIsImportingNether(false)
-        return
-      }
-
-      // Import nether regions-meta
-      const result = await window.electronAPI.importRegionsMeta(server.id, 'nether', filePath)
+      const result = await window.electronAPI.importRegionsMeta(
+        server.id,
+        pending.world,
+        pending.filePath,
+        pending.fileHash
+      )
       setImportResult(result)
+      setPending(null)
 
       if (result.success) {
         // Reload server to get updated data
@@ -74,14 +83,15 @@ export function ImportScreen({ server, onServerUpdate }: ImportScreenProps) {
         error: error.message || 'Unknown error during import',
       })
     } finally {
-      setIsImportingNether(false)
+      setApplying(false)
     }
   }
 
-  const overworldSource = server.sources.overworld || server.sources.world
-  const netherSource = server.sources.nether
-  const hasImportedOverworld = !!overworldSource
-  const hasImportedNether = !!netherSource
+  const sourcesByWorld: Record<ImportWorld, ImportedSource | undefined> = {
+    overworld: server.sources.overworld || server.sources.world,
+    nether: server.sources.nether,
+    end: server.sources.end,
+  }
 
   return (
     <Stack gap="lg">
@@ -90,54 +100,55 @@ export function ImportScreen({ server, onServerUpdate }: ImportScreenProps) {
       </Text>
 
       <Stack gap="md">
-        <Paper p="lg" withBorder>
-          <Group justify="space-between" align="flex-start" wrap="nowrap">
-            <Stack gap={4}>
-              <Title order={3}>Overworld Regions Meta</Title>
-              {hasImportedOverworld && overworldSource && (
-                <Text size="sm" c="dimmed">
-                  Imported: {overworldSource.originalFilename}
-                  <br />
-                  <Text component="span" size="xs">
-                    {new Date(overworldSource.importedAtIso || '').toLocaleString()}
-                  </Text>
-                </Text>
-              )}
-            </Stack>
-            <Button
-              onClick={handleImportOverworldRegionsMeta}
-              loading={isImportingOverworld}
-              disabled={isImportingNether}
-            >
-              {hasImportedOverworld ? 'Re-import' : 'Import overworld regions-meta'}
-            </Button>
-          </Group>
-        </Paper>
+        {IMPORT_WORLDS.map(({ world, title, buttonLabel }) => {
+          const source = sourcesByWorld[world]
+          return (
+            <Paper key={world} p="lg" withBorder>
+              <Group justify="space-between" align="flex-start" wrap="nowrap">
+                <Stack gap={4}>
+                  <Title order={3}>{title}</Title>
+                  {source && (
+                    <Text size="sm" c="dimmed">
+                      Imported: {source.originalFilename}
+                      <br />
+                      <Text component="span" size="xs">
+                        {new Date(source.importedAtIso || '').toLocaleString()}
+                      </Text>
+                    </Text>
+                  )}
+                </Stack>
+                <Button
+                  onClick={() => handleImportRegionsMeta(world)}
+                  loading={importingWorld === world}
+                  disabled={(importingWorld !== null && importingWorld !== world) || pending !== null}
+                >
+                  {source ? 'Re-import' : buttonLabel}
+                </Button>
+              </Group>
+            </Paper>
+          )
+        })}
+      </Stack>
 
+      {pending && (
         <Paper p="lg" withBorder>
-          <Group justify="space-between" align="flex-start" wrap="nowrap">
-            <Stack gap={4}>
-              <Title order={3}>Nether Regions Meta</Title>
-              {hasImportedNether && netherSource && (
-                <Text size="sm" c="dimmed">
-                  Imported: {netherSource.originalFilename}
-                  <br />
-                  <Text component="span" size="xs">
-                    {new Date(netherSource.importedAtIso || '').toLocaleString()}
-                  </Text>
-                </Text>
-              )}
-            </Stack>
-            <Button
-              onClick={handleImportNetherRegionsMeta}
-              loading={isImportingNether}
-              disabled={isImportingOverworld}
-            >
-              {hasImportedNether ? 'Re-import' : 'Import nether regions-meta'}
-            </Button>
-          </Group>
+          <Stack gap="md">
+            <Title order={3}>Review {pending.world} import</Title>
+            <Text size="sm" c="dimmed">
+              {pending.filePath}
+            </Text>
+            <RegionImportDiffView diff={pending.diff} />
+            <Group justify="flex-end">
+              <Button variant="default" onClick={() => setPending(null)} disabled={applying}>
+                Reject
+              </Button>
+              <Button onClick={handleAcceptImport} loading={applying}>
+                Accept and import
+              </Button>
+            </Group>
+          </Stack>
         </Paper>
-      </Stack>
+      )}
 
       {importResult && (
         <Alert
@@ -145,9 +156,17 @@ export function ImportScreen({ server, onServerUpdate }: ImportScreenProps) {
           title={importResult.success ? '✓ Import successful!' : '✗ Import failed'}
         >
           {importResult.success ? (
-            importResult.regionCount !== undefined && (
-              <Text size="sm">Imported {importResult.regionCount} region(s).</Text>
-            )
+            <>
+              {importResult.regionCount !== undefined && (
+                <Text size="sm">Imported {importResult.regionCount} region(s).</Text>
+              )}
+              {importResult.missingOverrideCount ? (
+                <Text size="sm" c="orange">
+                  {importResult.missingOverrideCount} manually edited region(s) are missing from this file — review
+                  them under Regions.
+                </Text>
+              ) : null}
+            </>
           ) : (
             importResult.error && <Text size="sm">{importResult.error}</Text>
           )}
@@ -18,12 +18,14 @@ import { formatRegionLabel } from '@shared/stringFormatters'
 interface LoreBooksScreenProps {
   server: ServerProfile
   onServerUpdate?: (server: ServerProfile) => void
+  /** Region to open first (e.g. picked on the region map). */
+  initialRegionId?: string | null
 }
 
-export function LoreBooksScreen({ server, onServerUpdate }: LoreBooksScreenProps) {
+export function LoreBooksScreen({ server, onServerUpdate, initialRegionId }: LoreBooksScreenProps) {
   const [outDir, setOutDir] = useState(server.build?.loreBooksOutputDirectory || '')
   const [author, setAuthor] = useState('Admin')
-  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null)
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(initialRegionId ?? null)
   const [localAnchors, setLocalAnchors] = useState<string[]>([])
   const [localDescription, setLocalDescription] = useState<string>('')
   const [isExporting, setIsExporting] = useState(false)
@@ -1,4 +1,4 @@
-import { Fragment, useEffect, useState } from 'react'
+import { useEffect, useState } from 'react'
 import {
   Title,
   Text,
@@ -8,243 +8,20 @@ import {
   Stack,
   Paper,
   Alert,
-  Badge,
-  ScrollArea,
-  Table,
-  Box,
   Select,
   Modal,
 } from '@mantine/core'
 import { IconFolder, IconGitCompare, IconTrash, IconDeviceFloppy, IconRefresh } from '@tabler/icons-react'
 import type {
   ComparePreset,
-  PluginFolderCompareFileResult,
   PluginFolderCompareResult,
 } from '../types'
+import { PluginFolderCompareResultView } from '../components/PluginFolderCompareResultView'
 
 interface PluginFolderCompareScreenProps {
   onBack: () => void
 }
 
-function statusLabel(status: PluginFolderCompareFileResult['status']): string {
-  switch (status) {
-    case 'identical':
-      return 'Identical'
-    case 'different':
-      return 'Different'
-    case 'missing_left':
-      return 'Missing (left)'
-    case 'missing_right':
-      return 'Missing (right)'
-    case 'missing_both':
-      return 'Missing (both)'
-    case 'read_error':
-      return 'Error'
-    default:
-      return status
-  }
-}
-
-function statusColor(status: PluginFolderCompareFileResult['status']): string {
-  switch (status) {
-    case 'identical':
-      return 'green'
-    case 'different':
-      return 'yellow'
-    case 'missing_left':
-    case 'missing_right':
-      return 'blue'
-    case 'missing_both':
-      return 'gray'
-    case 'read_error':
-      return 'red'
-    default:
-      return 'gray'
-  }
-}
-
-type SplitDiffRow =
-  | {
-      kind: 'hunk'
-      text: string
-    }
-  | {
-      kind: 'code'
-      leftLine: number | null
-      leftText: string
-      leftType: 'context' | 'remove' | 'empty'
-      rightLine: number | null
-      rightText: string
-      rightType: 'context' | 'add' | 'empty'
-    }
-
-function parseUnifiedPatchToSplitRows(patch: string): SplitDiffRow[] {
-  const rows: SplitDiffRow[] = []
-  const lines = patch.split(/\r?\n/)
-  let inHunk = false
-  let leftLine = 0
-  let rightLine = 0
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
-
-    if (line.startsWith('@@')) {
-      const m = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line)
-      if (m) {
-        leftLine = Number(m[1])
-        rightLine = Number(m[2])
-      }
-      inHunk = true
-      rows.push({ kind: 'hunk', text: line })
-      continue
-    }
-
-    if (!inHunk) continue
-    if (!line || line.startsWith('Index:') || line.startsWith('diff ') || line.startsWith('---') || line.startsWith('+++')) {
-      continue
-    }
-    if (line.startsWith('\\')) continue
-
-    if (line.startsWith(' ')) {
-      const text = line.slice(1)
-      rows.push({
-        kind: 'code',
-        leftLine,
-        leftText: text,
-        leftType: 'context',
-        rightLine,
-        rightText: text,
-        rightType: 'context',
-      })
-      leftLine++
-      rightLine++
-      continue
-    }
-
-    if (line.startsWith('-')) {
-      rows.push({
-        kind: 'code',
-        leftLine,
-        leftText: line.slice(1),
-        leftType: 'remove',
-        rightLine: null,
-        rightText: '',
-        rightType: 'empty',
-      })
-      leftLine++
-      continue
-    }
-
-    if (line.startsWith('+')) {
-      rows.push({
-        kind: 'code',
-        leftLine: null,
-        leftText: '',
-        leftType: 'empty',
-        rightLine,
-        rightText: line.slice(1),
-        rightType: 'add',
-      })
-      rightLine++
-    }
-  }
-
-  return rows
-}
-
-/** Renders split (side-by-side) diff from a unified patch payload. */
-function SplitDiffView({ patch }: { patch: string }) {
-  const rows = parseUnifiedPatchToSplitRows(patch)
-  return (
-    <Box
-      p="md"
-      style={{
-        backgroundColor: '#1e1e2e',
-        borderRadius: 8,
-        border: '1px solid #313244',
-        fontFamily:
-          'ui-monospace, SFMono-Regular, "SF Mono", Menlo, Consolas, "Liberation Mono", monospace',
-        fontSize: 12,
-        lineHeight: 1.45,
-      }}
-    >
-      {rows.map((row, i) => {
-        const key = `diff-${i}`
-        if (row.kind === 'hunk') {
-          return (
-            <Box
-              key={key}
-              py={2}
-              px={8}
-              style={{
-                backgroundColor: 'rgba(137, 180, 250, 0.22)',
-                color: '#89b4fa',
-                borderLeft: '3px solid #89b4fa',
-              }}
-            >
-              {row.text}
-            </Box>
-          )
-        }
-        const leftBg =
-          row.leftType === 'remove'
-            ? 'rgba(243, 139, 168, 0.18)'
-            : row.leftType === 'context'
-              ? 'transparent'
-              : 'rgba(108, 112, 134, 0.10)'
-        const rightBg =
-          row.rightType === 'add'
-            ? 'rgba(166, 227, 161, 0.16)'
-            : row.rightType === 'context'
-              ? 'transparent'
-              : 'rgba(108, 112, 134, 0.10)'
-
-        return (
-          <Box key={key} style={{ display: 'grid', gridTemplateColumns: '1fr 1fr' }}>
-            <Box
-              py={2}
-              px={8}
-              style={{
-                backgroundColor: leftBg,
-                borderRight: '1px solid #313244',
-                color: row.leftType === 'remove' ? '#f5c2e0' : '#cdd6f4',
-                display: 'grid',
-                gridTemplateColumns: '56px minmax(0, 1fr)',
-                gap: 8,
-              }}
-            >
-              <Text size="xs" c="dimmed" ff="monospace">
-                {row.leftLine ?? ''}
-              </Text>
-              <Text size="xs" ff="monospace" style={{ whiteSpace: 'pre-wrap' }}>
-                {row.leftText || ' '}
-              </Text>
-            </Box>
-            <Box
-              py={2}
-              px={8}
-              style={{
-                backgroundColor: rightBg,
-                color: row.rightType === 'add' ? '#c8f5c9' : '#cdd6f4',
-                display: 'grid',
-                gridTemplateColumns: '56px minmax(0, 1fr)',
-                gap: 8,
-              }}
-            >
-              <Text size="xs" c="dimmed" ff="monospace">
-                {row.rightLine ?? ''}
-              </Text>
-              <Text size="xs" ff="monospace" style={{ whiteSpace: 'pre-wrap' }}>
-                {row.rightText || ' '}
-              </Text>
-            </Box>
-          </Box>
-        )
-      })}
-    </Box>
-  )
-}
-
 export function PluginFolderCompareScreen({ onBack }: PluginFolderCompareScreenProps) {
   const [leftPath, setLeftPath] = useState('')
   const [rightPath, setRightPath] = useState('')
@@ -567,105 +344,18 @@ export function PluginFolderCompareScreen({ onBack }: PluginFolderCompareScreenP
         </Alert>
       )}
 
-      {result?.bookGuiWarning && (
-        <Alert color="yellow" title="BookGUI">
-          {result.bookGuiWarning}
-        </Alert>
-      )}
-
-      {result?.placeholderApiWarning && (
-        <Alert color="yellow" title="PlaceholderAPI">
-          {result.placeholderApiWarning}
+      {result?.warnings?.map((w) => (
+        <Alert key={w.title} color="yellow" title={w.title}>
+          {w.message}
         </Alert>
-      )}
+      ))}
 
       {result && (
-        <Stack gap="sm">
-          <Group gap="xs">
-            <Badge color="green" variant="light">
-              Identical: {result.summary.identical}
-            </Badge>
-            <Badge color="yellow" variant="light">
-              Different: {result.summary.different}
-            </Badge>
-            <Badge color="blue" variant="light">
-              Only left: {result.summary.missingRight}
-            </Badge>
-            <Badge color="blue" variant="light">
-              Only right: {result.summary.missingLeft}
-            </Badge>
-            <Badge color="gray" variant="light">
-              Neither: {result.summary.missingBoth}
-            </Badge>
-            {result.summary.readErrors > 0 && (
-              <Badge color="red" variant="light">
-                Errors: {result.summary.readErrors}
-              </Badge>
-            )}
-          </Group>
-          <Text size="xs" c="dimmed">
-            Left: {result.leftRoot} — Right: {result.rightRoot}
-          </Text>
-
-          <ScrollArea.Autosize mah={560}>
-            <Table striped highlightOnHover withTableBorder>
-              <Table.Thead>
-                <Table.Tr>
-                  <Table.Th>Plugin / file</Table.Th>
-                  <Table.Th>Relative path</Table.Th>
-                  <Table.Th>Status</Table.Th>
-                </Table.Tr>
-              </Table.Thead>
-              <Table.Tbody>
-                {result.files.map((row) => (
-                  <Fragment key={row.id}>
-                    <Table.Tr
-                      style={{ cursor: row.unifiedDiff ? 'pointer' : undefined }}
-                      onClick={() => {
-                        if (row.unifiedDiff) {
-                          setExpandedId((id) => (id === row.id ? null : row.id))
-                        }
-                      }}
-                    >
-                      <Table.Td>{row.label}</Table.Td>
-                      <Table.Td>
-                        <Text size="sm" ff="monospace">
-                          {row.relativePath}
-                        </Text>
-                      </Table.Td>
-                      <Table.Td>
-                        <Group gap="xs">
-                          <Badge color={statusColor(row.status)} variant="light">
-                            {statusLabel(row.status)}
-                          </Badge>
-                          {row.error && (
-                            <Text size="xs" c="red">
-                              {row.error}
-                            </Text>
-                          )}
-                        </Group>
-                      </Table.Td>
-                    </Table.Tr>
-                    {expandedId === row.id && row.unifiedDiff && (
-                      <Table.Tr>
-                        <Table.Td colSpan={3} style={{ verticalAlign: 'top', background: 'var(--mantine-color-body)' }}>
-                          <ScrollArea.Autosize mah={420} type="auto">
-                            <SplitDiffView patch={row.unifiedDiff} />
-                          </ScrollArea.Autosize>
-                        </Table.Td>
-                      </Table.Tr>
-                    )}
-                  </Fragment>
-                ))}
-              </Table.Tbody>
-            </Table>
-          </ScrollArea.Autosize>
-          {result.files.some((f) => f.unifiedDiff) && (
-            <Text size="xs" c="dimmed">
-              Click a row with status &quot;Different&quot; to show a split diff.
-            </Text>
-          )}
-        </Stack>
+        <PluginFolderCompareResultView
+          result={result}
+          expandedId={expandedId}
+          onToggleExpanded={(id) => setExpandedId((cur) => (cur === id ? null : id))}
+        />
       )}
     </Stack>
   )
@@ -1,13 +1,21 @@
+import { useEffect, useMemo, useState } from 'react'
 import {
   Accordion,
+  Alert,
   Badge,
   Button,
+  Checkbox,
+  Drawer,
+  SegmentedControl,
   Stack,
   Text,
   Group,
   List,
   Paper,
+  Select,
+  SimpleGrid,
   Tabs,
+  TextInput,
 } from '@mantine/core'
 import {
   IconMapPin,
@@ -20,9 +28,31 @@ import {
   IconBuilding,
   IconDroplet,
   IconDownload,
+  IconPencil,
+  IconArrowBackUp,
+  IconBook,
 } from '@tabler/icons-react'
-import type { ServerProfile, RegionRecord } from '../types'
+import type {
+  CrateLibraryEntry,
+  ServerProfile,
+  RegionRecord,
+  RegionOverride,
+  RegionOverrideFields,
+} from '../types'
 import { formatRegionLabel } from '@shared/stringFormatters'
+import {
+  EDITABLE_DISCOVER_METHODS,
+  EDITABLE_RECIPE_IDS,
+  EDITABLE_REGION_KINDS,
+  LEVELLED_MOBS_BANDS,
+  regionKey,
+} from '@shared/regionOverrides'
+import { describeRegionRewards } from '@shared/regionRewards'
+import { computeRegionLayout } from '@shared/regionGeometry'
+import type { RegionLayoutEntry } from '@shared/regionGeometry'
+import { RegionRewardsEditor } from '../components/RegionRewardsEditor'
+import { RegionMapView } from '../components/RegionMapView'
+import { REGION_KIND_COLORS } from '../utils/regionMap'
 import {
   buildRegionExportDocument,
   downloadJsonDocument,
@@ -94,32 +124,124 @@ function kindIcon(kind: RegionRecord['kind']) {
   }
 }
 
-function kindColor(kind: RegionRecord['kind']): string {
-  switch (kind) {
-    case 'system':
-      return 'gray'
-    case 'village':
-      return 'teal'
-    case 'heart':
-      return 'red'
-    case 'nerve':
-      return 'violet'
-    case 'structure':
-      return 'orange'
-    case 'water':
-      return 'cyan'
-    default:
-      return 'blue'
+const OVERRIDE_FIELD_LABELS: Record<keyof RegionOverrideFields, string> = {
+  kind: 'Kind',
+  structureType: 'Structure type',
+  method: 'Discover method',
+  recipeId: 'RecipeId',
+  commandIdOverride: 'Command ID override',
+  displayNameOverride: 'Display name override',
+  levelledMobsBand: 'LevelledMobs band',
+}
+
+function describeFields(fields: RegionOverrideFields): string {
+  return (Object.keys(fields) as (keyof RegionOverrideFields)[])
+    .map((field) => `${OVERRIDE_FIELD_LABELS[field]} = ${fields[field] || '(cleared)'}`)
+    .join(', ')
+}
+
+function formatBlocks(n: number): string {
+  return Math.round(n).toLocaleString()
+}
+
+function RegionGeometrySection({
+  region,
+  layout,
+  neighbourLabels,
+}: {
+  region: RegionRecord
+  layout?: RegionLayoutEntry
+  neighbourLabels: string[]
+}) {
+  const geometry = region.geometry
+  if (!geometry || !layout) {
+    return (
+      <Text size="sm" c="dimmed">
+        No geometry stored. Re-import this world&apos;s Region Forge export to record it.
+      </Text>
+    )
   }
+  const { min, max } = geometry
+  return (
+    <Stack gap={4}>
+      <Group gap="xl">
+        <Text size="sm">
+          Shape:{' '}
+          <strong>{geometry.type === 'poly2d' ? `polygon (${geometry.points?.length ?? 0} points)` : 'cuboid'}</strong>
+        </Text>
+        <Text size="sm">
+          Bounds:{' '}
+          <strong>
+            {min.x}, {min.z} → {max.x}, {max.z}
+          </strong>
+        </Text>
+        <Text size="sm">
+          Y:{' '}
+          <strong>
+            {min.y} to {max.y}
+          </strong>
+        </Text>
+        {geometry.priority !== undefined && (
+          <Text size="sm">
+            Priority: <strong>{geometry.priority}</strong>
+          </Text>
+        )}
+        {geometry.parent && (
+          <Text size="sm">
+            Parent: <strong>{geometry.parent}</strong>
+          </Text>
+        )}
+      </Group>
+      <Group gap="xl">
+        <Text size="sm">
+          Area: <strong>{formatBlocks(layout.area)} blocks²</strong>
+        </Text>
+        <Text size="sm">
+          Centroid:{' '}
+          <strong>
+            {layout.centroid.x}, {layout.centroid.z}
+          </strong>
+        </Text>
+        <Text size="sm">
+          From spawn: <strong>{formatBlocks(layout.distanceFromSpawn)} blocks</strong>
+        </Text>
+      </Group>
+      <Text size="sm">
+        Neighbours:{' '}
+        {neighbourLabels.length > 0 ? (
+          <strong>{neighbourLabels.join(', ')}</strong>
+        ) : (
+          <Text span size="sm" c="dimmed">
+            none
+          </Text>
+        )}
+      </Text>
+    </Stack>
+  )
 }
 
 function RegionPanel({
+  server,
   region,
+  layout,
+  neighbourLabels,
   levelledMobsDifficulty,
+  override,
+  crateLibrary,
+  onServerUpdate,
 }: {
+  server: ServerProfile
   region: RegionRecord
+  layout?: RegionLayoutEntry
+  neighbourLabels: string[]
   levelledMobsDifficulty?: string
+  override?: RegionOverride
+  crateLibrary: CrateLibraryEntry[]
+  onServerUpdate: (server: ServerProfile) => void
 }) {
+  const [editingRewards, setEditingRewards] = useState(false)
+  const rewardLines = region.rewards ? describeRegionRewards(region.rewards, crateLibrary) : []
+
   return (
     <Stack gap="md">
       <div>
@@ -143,9 +265,74 @@ function RegionPanel({
               Command ID override: <strong>{region.discover.commandIdOverride}</strong>
             </Text>
           )}
+          {region.discover.displayNameOverride && (
+            <Text size="sm">
+              Display name override: <strong>{region.discover.displayNameOverride}</strong>
+            </Text>
+          )}
         </Group>
       </div>
 
+      <div>
+        <Text size="xs" tt="uppercase" fw={600} c="dimmed" mb={4}>
+          Geometry
+        </Text>
+        <RegionGeometrySection region={region} layout={layout} neighbourLabels={neighbourLabels} />
+      </div>
+
+      {override && (
+        <div>
+          <Text size="xs" tt="uppercase" fw={600} c="dimmed" mb={4}>
+            Manual edits
+          </Text>
+          <List size="sm" spacing="xs">
+            {(Object.keys(override.fields) as (keyof RegionOverrideFields)[]).map((field) => (
+              <List.Item key={field}>
+                {OVERRIDE_FIELD_LABELS[field]}: <strong>{override.fields[field] || '(cleared)'}</strong>{' '}
+                <Text span size="sm" c="dimmed">
+                  (imported: {override.imported[field] ?? 'unset'})
+                </Text>
+              </List.Item>
+            ))}
+          </List>
+        </div>
+      )}
+
+      {region.kind !== 'water' && (
+        <div>
+          <Group gap="sm" mb={4}>
+            <Text size="xs" tt="uppercase" fw={600} c="dimmed">
+              Rewards
+            </Text>
+            {!editingRewards && (
+              <Button size="compact-xs" variant="subtle" onClick={() => setEditingRewards(true)}>
+                {region.rewards ? 'Edit' : 'Customize'}
+              </Button>
+            )}
+          </Group>
+          {editingRewards ? (
+            <RegionRewardsEditor
+              serverId={server.id}
+              region={region}
+              crateLibrary={crateLibrary}
+              assignedCrateIds={server.crazyCrates?.libraryCrateIds ?? []}
+              onServerUpdate={onServerUpdate}
+              onClose={() => setEditingRewards(false)}
+            />
+          ) : rewardLines.length > 0 ? (
+            <List size="sm" spacing="xs">
+              {rewardLines.map((line) => (
+                <List.Item key={line}>{line}</List.Item>
+              ))}
+            </List>
+          ) : (
+            <Text size="sm" c="dimmed">
+              Same as other {region.kind} regions.
+            </Text>
+          )}
+        </div>
+      )}
+
       {region.description && (
         <div>
           <Text size="xs" tt="uppercase" fw={600} c="dimmed" mb={4}>
@@ -227,13 +414,219 @@ function RegionPanel({
   )
 }
 
+/** Sentinel Select value for "remove the band" (the generator then uses its default). */
+const DEFAULT_BAND = '__default__'
+
+function RegionBulkEditor({
+  server,
+  selectedKeys,
+  onServerUpdate,
+  onClearSelection,
+}: {
+  server: ServerProfile
+  selectedKeys: string[]
+  onServerUpdate: (server: ServerProfile) => void
+  onClearSelection: () => void
+}) {
+  const [kind, setKind] = useState<string | null>(null)
+  const [method, setMethod] = useState<string | null>(null)
+  const [recipeId, setRecipeId] = useState<string | null>(null)
+  const [structureType, setStructureType] = useState<string | null>(null)
+  const [band, setBand] = useState<string | null>(null)
+  // null = leave unchanged; '' = clear the override.
+  const [commandIdOverride, setCommandIdOverride] = useState<string | null>(null)
+  const [displayNameOverride, setDisplayNameOverride] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const single = selectedKeys.length === 1
+  const selectedWithOverrides = selectedKeys.filter((key) => server.regionOverrides?.[key])
+  const structureTypes = Object.keys(server.regionsMeta?.structureFamilies ?? {}).sort()
+
+  function collectFields(): RegionOverrideFields {
+    const fields: RegionOverrideFields = {}
+    if (kind) fields.kind = kind as RegionOverrideFields['kind']
+    if (method) fields.method = method as RegionOverrideFields['method']
+    if (recipeId) fields.recipeId = recipeId as RegionOverrideFields['recipeId']
+    if (structureType) fields.structureType = structureType
+    if (band) fields.levelledMobsBand = band === DEFAULT_BAND ? '' : band
+    if (single && commandIdOverride !== null) fields.commandIdOverride = commandIdOverride
+    if (single && displayNameOverride !== null) fields.displayNameOverride = displayNameOverride
+    return fields
+  }
+
+  function resetFields() {
+    setKind(null)
+    setMethod(null)
+    setRecipeId(null)
+    setStructureType(null)
+    setBand(null)
+    setCommandIdOverride(null)
+    setDisplayNameOverride(null)
+  }
+
+  async function handleApply() {
+    setSaving(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.editRegions(server.id, {
+        regionKeys: selectedKeys,
+        fields: collectFields(),
+      })
+      if (!result.success || !result.profile) {
+        setError(result.error ?? 'Region edit failed')
+        return
+      }
+      onServerUpdate(result.profile)
+      resetFields()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleRevert() {
+    setSaving(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.revertRegionOverrides(server.id, selectedWithOverrides)
+      if (!result.success || !result.profile) {
+        setError(result.error ?? 'Reverting overrides failed')
+        return
+      }
+      onServerUpdate(result.profile)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const hasChanges = Object.keys(collectFields()).length > 0
+
+  return (
+    <Paper p="md" withBorder>
+      <Stack gap="sm">
+        <Group justify="space-between">
+          <Text fw={600}>
+            {selectedKeys.length} region{selectedKeys.length === 1 ? '' : 's'} selected
+          </Text>
+          <Button size="xs" variant="subtle" onClick={onClearSelection} disabled={selectedKeys.length === 0}>
+            Clear selection
+          </Button>
+        </Group>
+        <Text size="xs" c="dimmed">
+          Fields left empty are unchanged. Edits are kept as overrides and re-applied after every re-import.
+        </Text>
+        <SimpleGrid cols={{ base: 1, sm: 3 }} spacing="sm">
+          <Select label="Kind" placeholder="Unchanged" clearable value={kind} onChange={setKind} data={EDITABLE_REGION_KINDS} />
+          <Select
+            label="Discover method"
+            placeholder="Unchanged"
+            clearable
+            value={method}
+            onChange={setMethod}
+            data={EDITABLE_DISCOVER_METHODS}
+          />
+          <Select
+            label="RecipeId"
+            placeholder="Unchanged"
+            clearable
+            value={recipeId}
+            onChange={setRecipeId}
+            data={EDITABLE_RECIPE_IDS}
+          />
+          <Select
+            label="Structure type"
+            placeholder={structureTypes.length > 0 ? 'Unchanged' : 'No structureFamilies imported'}
+            clearable
+            disabled={structureTypes.length === 0}
+            value={structureType}
+            onChange={setStructureType}
+            data={structureTypes}
+          />
+          <Select
+            label="LevelledMobs band"
+            placeholder="Unchanged"
+            clearable
+            value={band}
+            onChange={setBand}
+            data={[{ value: DEFAULT_BAND, label: 'Default (normal)' }, ...LEVELLED_MOBS_BANDS]}
+          />
+        </SimpleGrid>
+        <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="sm">
+          <TextInput
+            label="Command ID override"
+            description={single ? 'Empty clears the override' : 'Select a single region'}
+            disabled={!single}
+            placeholder="Unchanged"
+            value={commandIdOverride ?? ''}
+            onChange={(e) => setCommandIdOverride(e.currentTarget.value)}
+          />
+          <TextInput
+            label="Display name override"
+            description={single ? 'Empty clears the override' : 'Select a single region'}
+            disabled={!single}
+            placeholder="Unchanged"
+            value={displayNameOverride ?? ''}
+            onChange={(e) => setDisplayNameOverride(e.currentTarget.value)}
+          />
+        </SimpleGrid>
+        {error && (
+          <Alert color="red" variant="light" withCloseButton onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        <Group justify="flex-end">
+          <Button
+            variant="default"
+            leftSection={<IconArrowBackUp size={16} />}
+            disabled={selectedWithOverrides.length === 0}
+            loading={saving}
+            onClick={handleRevert}
+          >
+            Revert to imported ({selectedWithOverrides.length})
+          </Button>
+          <Button
+            leftSection={<IconPencil size={16} />}
+            disabled={selectedKeys.length === 0 || !hasChanges}
+            loading={saving}
+            onClick={handleApply}
+          >
+            Apply to selected
+          </Button>
+        </Group>
+      </Stack>
+    </Paper>
+  )
+}
+
 interface RegionsScreenProps {
   server: ServerProfile
+  onServerUpdate: (server: ServerProfile) => void
+  /** Jump to the lore book editor for a region id. */
+  onOpenLoreBook?: (regionId: string) => void
 }
 
-export function RegionsScreen({ server }: RegionsScreenProps) {
+export function RegionsScreen({ server, onServerUpdate, onOpenLoreBook }: RegionsScreenProps) {
   const regions = server.regions
   const regionBands = server.regionsMeta?.levelledMobs?.regionBands
+  const regionOverrides = server.regionOverrides ?? {}
+  const missingOverrides = Object.entries(regionOverrides).filter(([, o]) => o.missingFromSource)
+  const editLog = [...(server.regionEditLog ?? [])].reverse()
+  const [editMode, setEditMode] = useState(false)
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([])
+  const [discardError, setDiscardError] = useState<string | null>(null)
+  const [crateLibrary, setCrateLibrary] = useState<CrateLibraryEntry[]>([])
+  const layout = useMemo(() => computeRegionLayout(server), [server])
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list')
+  const [mapSelection, setMapSelection] = useState<string | null>(null)
+  const labelByKey = useMemo(() => new Map(regions.map((r) => [regionKey(r), formatRegionLabel(r)])), [regions])
+
+  useEffect(() => {
+    window.electronAPI.listCrateLibrary().then(setCrateLibrary, () => setCrateLibrary([]))
+  }, [])
 
   if (regions.length === 0) {
     return (
@@ -265,42 +658,111 @@ export function RegionsScreen({ server }: RegionsScreenProps) {
 
   const activeGroups = REGION_GROUPS.filter((g) => grouped[g.key]?.length)
 
+  function toggleSelected(key: string) {
+    setSelectedKeys((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]))
+  }
+
+  function toggleAll(regionList: RegionRecord[]) {
+    const keys = regionList.map(regionKey)
+    const allSelected = keys.every((k) => selectedKeys.includes(k))
+    setSelectedKeys((prev) =>
+      allSelected ? prev.filter((k) => !keys.includes(k)) : [...new Set([...prev, ...keys])]
+    )
+  }
+
+  async function handleDiscardOverride(key: string) {
+    setDiscardError(null)
+    const result = await window.electronAPI.revertRegionOverrides(server.id, [key])
+    if (result.success && result.profile) onServerUpdate(result.profile)
+    else setDiscardError(result.error ?? 'Discarding the override failed')
+  }
+
   function renderRegionList(regionList: RegionRecord[]) {
+    const allSelected = regionList.every((r) => selectedKeys.includes(regionKey(r)))
     return (
-      <Accordion variant="separated" radius="md" multiple defaultValue={[]}>
-        {regionList.map((region) => {
-          const value = `${region.world}:${region.id}`
-          const label = formatRegionLabel(region)
+      <Stack gap="xs">
+        {editMode && (
+          <Group justify="flex-end">
+            <Button size="xs" variant="subtle" onClick={() => toggleAll(regionList)}>
+              {allSelected ? 'Deselect all' : 'Select all'}
+            </Button>
+          </Group>
+        )}
+        <Accordion variant="separated" radius="md" multiple defaultValue={[]}>
+          {regionList.map((region) => {
+            const value = regionKey(region)
+            const label = formatRegionLabel(region)
+            const override = regionOverrides[value]
 
-          return (
-            <Accordion.Item key={value} value={value}>
+            const control = (
               <Accordion.Control
                 icon={kindIcon(region.kind)}
                 aria-label={`${label} (${region.kind}, ${region.world})`}
               >
                 <Group gap="sm">
                   <Text fw={500}>{label}</Text>
-                  <Badge size="sm" variant="light" color={kindColor(region.kind)}>
+                  <Badge size="sm" variant="light" color={REGION_KIND_COLORS[region.kind]}>
                     {region.kind}
                   </Badge>
                   <Badge size="sm" variant="outline" color="dark">
                     {region.world}
                   </Badge>
+                  {override && (
+                    <Badge size="sm" variant="light" color="yellow">
+                      edited
+                    </Badge>
+                  )}
+                  {region.rewards && (
+                    <Badge size="sm" variant="light" color="grape">
+                      custom rewards
+                    </Badge>
+                  )}
                 </Group>
               </Accordion.Control>
-              <Accordion.Panel>
-                <RegionPanel
-                  region={region}
-                  levelledMobsDifficulty={regionBands?.[region.id]}
-                />
-              </Accordion.Panel>
-            </Accordion.Item>
-          )
-        })}
-      </Accordion>
+            )
+
+            return (
+              <Accordion.Item key={value} value={value}>
+                {editMode ? (
+                  <Group gap={0} wrap="nowrap" pl="md">
+                    <Checkbox
+                      checked={selectedKeys.includes(value)}
+                      onChange={() => toggleSelected(value)}
+                      aria-label={`Select ${label}`}
+                    />
+                    {control}
+                  </Group>
+                ) : (
+                  control
+                )}
+                <Accordion.Panel>{renderRegionPanel(region)}</Accordion.Panel>
+              </Accordion.Item>
+            )
+          })}
+        </Accordion>
+      </Stack>
     )
   }
 
+  function renderRegionPanel(region: RegionRecord) {
+    const key = regionKey(region)
+    return (
+      <RegionPanel
+        server={server}
+        region={region}
+        layout={layout[key]}
+        neighbourLabels={(layout[key]?.neighbours ?? []).map((k) => labelByKey.get(k) ?? k)}
+        levelledMobsDifficulty={regionBands?.[region.id]}
+        override={regionOverrides[key]}
+        crateLibrary={crateLibrary}
+        onServerUpdate={onServerUpdate}
+      />
+    )
+  }
+
+  const mapRegion = mapSelection ? regions.find((r) => regionKey(r) === mapSelection) : undefined
+  const mapLoreText = mapRegion ? (mapRegion.loreBookDescription ?? mapRegion.description ?? '').trim() : ''
+
   function handleExportRegions() {
     const doc = buildRegionExportDocument(server)
     downloadJsonDocument(suggestedRegionExportFilename(server), doc)
@@ -308,60 +770,189 @@ export function RegionsScreen({ server }: RegionsScreenProps) {
 
   return (
     <Stack gap="md">
-      <Group justify="flex-end">
-        <Button
-          variant="light"
-          leftSection={<IconDownload size={18} />}
-          onClick={handleExportRegions}
-        >
-          Export regions (JSON)
-        </Button>
+      <Group justify="space-between">
+        <SegmentedControl
+          value={viewMode}
+          onChange={(v) => setViewMode(v as 'list' | 'map')}
+          data={[
+            { value: 'list', label: 'List' },
+            { value: 'map', label: 'Map' },
+          ]}
+        />
+        <Group gap="sm">
+          <Button
+            variant={editMode ? 'filled' : 'default'}
+            leftSection={<IconPencil size={18} />}
+            onClick={() => {
+              setEditMode((on) => !on)
+              setSelectedKeys([])
+            }}
+          >
+            {editMode ? 'Done editing' : 'Edit regions'}
+          </Button>
+          <Button
+            variant="light"
+            leftSection={<IconDownload size={18} />}
+            onClick={handleExportRegions}
+          >
+            Export regions (JSON)
+          </Button>
+        </Group>
       </Group>
-    <Tabs defaultValue="all">
-      <Tabs.List>
-        <Tabs.Tab value="all" leftSection={<IconList size={16} />}>
-          <Group gap="xs">
-            All
-            <Badge size="sm" variant="light" color="gray">
-              {regions.length}
-            </Badge>
-          </Group>
-        </Tabs.Tab>
-        {activeGroups.map((group) => (
-          <Tabs.Tab key={group.key} value={group.key} leftSection={group.icon}>
-            <Group gap="xs">
-              {group.label}
-              <Badge size="sm" variant="light" color="gray">
-                {grouped[group.key].length}
-              </Badge>
-            </Group>
-          </Tabs.Tab>
-        ))}
-      </Tabs.List>
-
-      <Tabs.Panel value="all" pt="md">
-        <Stack gap="xl">
-          {activeGroups.map((group) => (
-            <Stack key={group.key} gap="sm">
-              <Group gap="sm">
-                {group.icon}
-                <Text fw={600} size="lg">{group.label}</Text>
+      {missingOverrides.length > 0 && (
+        <Alert color="orange" variant="light" title="Edited regions missing from the last import">
+          <Stack gap="xs">
+            <Text size="sm">
+              These manual edits are kept in case the region comes back; discard them if it was removed on purpose.
+            </Text>
+            {missingOverrides.map(([key, o]) => (
+              <Group key={key} justify="space-between">
+                <Text size="sm">
+                  <strong>{key}</strong> — {describeFields(o.fields)}
+                </Text>
+                <Button size="xs" variant="subtle" color="orange" onClick={() => handleDiscardOverride(key)}>
+                  Discard
+                </Button>
+              </Group>
+            ))}
+            {discardError && (
+              <Text size="sm" c="red">
+                {discardError}
+              </Text>
+            )}
+          </Stack>
+        </Alert>
+      )}
+      {editMode && (
+        <RegionBulkEditor
+          server={server}
+          selectedKeys={selectedKeys.filter((k) => regions.some((r) => regionKey(r) === k))}
+          onServerUpdate={onServerUpdate}
+          onClearSelection={() => setSelectedKeys([])}
+        />
+      )}
+      {viewMode === 'map' ? (
+        <RegionMapView server={server} selectedKey={mapSelection} onSelectRegion={setMapSelection} />
+      ) : (
+        <Tabs defaultValue="all">
+          <Tabs.List>
+            <Tabs.Tab value="all" leftSection={<IconList size={16} />}>
+              <Group gap="xs">
+                All
                 <Badge size="sm" variant="light" color="gray">
-                  {grouped[group.key].length}
+                  {regions.length}
                 </Badge>
               </Group>
-              {renderRegionList(grouped[group.key])}
+            </Tabs.Tab>
+            {activeGroups.map((group) => (
+              <Tabs.Tab key={group.key} value={group.key} leftSection={group.icon}>
+                <Group gap="xs">
+                  {group.label}
+                  <Badge size="sm" variant="light" color="gray">
+                    {grouped[group.key].length}
+                  </Badge>
+                </Group>
+              </Tabs.Tab>
+            ))}
+          </Tabs.List>
+
+          <Tabs.Panel value="all" pt="md">
+            <Stack gap="xl">
+              {activeGroups.map((group) => (
+                <Stack key={group.key} gap="sm">
+                  <Group gap="sm">
+                    {group.icon}
+                    <Text fw={600} size="lg">{group.label}</Text>
+                    <Badge size="sm" variant="light" color="gray">
+                      {grouped[group.key].length}
+                    </Badge>
+                  </Group>
+                  {renderRegionList(grouped[group.key])}
+                </Stack>
+              ))}
             </Stack>
+          </Tabs.Panel>
+
+          {activeGroups.map((group) => (
+            <Tabs.Panel key={group.key} value={group.key} pt="md">
+              {renderRegionList(grouped[group.key])}
+            </Tabs.Panel>
           ))}
-        </Stack>
-      </Tabs.Panel>
-
-      {activeGroups.map((group) => (
-        <Tabs.Panel key={group.key} value={group.key} pt="md">
-          {renderRegionList(grouped[group.key])}
-        </Tabs.Panel>
-      ))}
-    </Tabs>
+        </Tabs>
+      )}
+      <Drawer
+        opened={!!mapRegion}
+        onClose={() => setMapSelection(null)}
+        position="right"
+        size="lg"
+        title={
+          mapRegion && (
+            <Group gap="sm">
+              <Text fw={600}>{formatRegionLabel(mapRegion)}</Text>
+              <Badge size="sm" variant="light" color={REGION_KIND_COLORS[mapRegion.kind]}>
+                {mapRegion.kind}
+              </Badge>
+              <Badge size="sm" variant="outline" color="dark">
+                {mapRegion.world}
+              </Badge>
+            </Group>
+          )
+        }
+      >
+        {mapRegion && (
+          <Stack gap="md">
+            {renderRegionPanel(mapRegion)}
+            <div>
+              <Group gap="sm" mb={4}>
+                <Text size="xs" tt="uppercase" fw={600} c="dimmed">
+                  Lore book
+                </Text>
+                {onOpenLoreBook && mapLoreText && (
+                  <Button
+                    size="compact-xs"
+                    variant="subtle"
+                    leftSection={<IconBook size={12} />}
+                    onClick={() => onOpenLoreBook(mapRegion.id)}
+                  >
+                    Open in Lore Books
+                  </Button>
+                )}
+              </Group>
+              {mapLoreText ? (
+                <Text size="sm" className="pre-wrap" lineClamp={8}>
+                  {mapLoreText}
+                </Text>
+              ) : (
+                <Text size="sm" c="dimmed">
+                  No description, so no lore book.
+                </Text>
+              )}
+            </div>
+          </Stack>
+        )}
+      </Drawer>
+      {editLog.length > 0 && (
+        <Accordion variant="contained" radius="md">
+          <Accordion.Item value="edit-log">
+            <Accordion.Control icon={<IconList size={16} />}>Edit log ({editLog.length})</Accordion.Control>
+            <Accordion.Panel>
+              <Stack gap="xs">
+                {editLog.slice(0, 50).map((entry, i) => (
+                  <Text key={`${entry.atIso}-${i}`} size="sm">
+                    <Text span c="dimmed" size="sm">
+                      {new Date(entry.atIso).toLocaleString()}
+                    </Text>{' '}
+                    {entry.action === 'edit' ? 'Edited' : 'Reverted'}{' '}
+                    <strong>{entry.regionKeys.length === 1 ? entry.regionKeys[0] : `${entry.regionKeys.length} regions`}</strong>
+                    {': '}
+                    {describeFields(entry.fields)}
+                  </Text>
+                ))}
+              </Stack>
+            </Accordion.Panel>
+          </Accordion.Item>
+        </Accordion>
+      )}
     </Stack>
   )
 }
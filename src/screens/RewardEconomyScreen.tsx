@@ -0,0 +1,523 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  ActionIcon,
+  Alert,
+  Badge,
+  Button,
+  Group,
+  List,
+  NumberInput,
+  Paper,
+  SimpleGrid,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Title,
+} from '@mantine/core'
+import { IconTrash } from '@tabler/icons-react'
+import type {
+  RewardEconomy,
+  RewardTierCategory,
+  ServerProfile,
+  StructureRewardValues,
+  TotalDiscoveredTier,
+} from '../types'
+import {
+  DEFAULT_REWARD_ECONOMY,
+  REWARD_TIER_CATEGORIES,
+  describeTierDecision,
+  formatTierMarkers,
+  parseTierMarkers,
+  previewRewardEconomy,
+  resolveRewardEconomy,
+  validateRewardEconomy,
+} from '@shared/rewardEconomy'
+
+interface RewardEconomyScreenProps {
+  server: ServerProfile
+  onServerUpdate: (server: ServerProfile) => void
+}
+
+type TierTexts = Record<RewardTierCategory, string>
+
+function tierTextsFor(economy: RewardEconomy): TierTexts {
+  const texts = {} as TierTexts
+  for (const { category } of REWARD_TIER_CATEGORIES) {
+    texts[category] = formatTierMarkers(economy.tierTemplates[category])
+  }
+  return texts
+}
+
+/** Empty NumberInput → NaN so validation reports it instead of saving 0. */
+function toNumber(value: number | string): number {
+  return typeof value === 'number' ? value : Number.NaN
+}
+
+function numberValue(value: number): number | string {
+  return Number.isNaN(value) ? '' : value
+}
+
+export function RewardEconomyScreen({ server, onServerUpdate }: RewardEconomyScreenProps) {
+  const saved = useMemo(() => resolveRewardEconomy(server.rewardEconomy), [server.rewardEconomy])
+  const [draft, setDraft] = useState<RewardEconomy>(saved)
+  const [tierTexts, setTierTexts] = useState<TierTexts>(() => tierTextsFor(saved))
+  const [newStructureType, setNewStructureType] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveStatus, setSaveStatus] = useState<'success' | 'error' | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDraft(saved)
+    setTierTexts(tierTextsFor(saved))
+  }, [saved])
+
+  // Tier text fields are parsed on every keystroke; unparsable ones fall back to the saved tiers
+  // (and block saving).
+  const tierParseErrors: string[] = []
+  const economy: RewardEconomy = { ...draft, tierTemplates: { ...draft.tierTemplates } }
+  for (const { category, label } of REWARD_TIER_CATEGORIES) {
+    const parsed = parseTierMarkers(tierTexts[category])
+    if (parsed.ok) economy.tierTemplates[category] = parsed.tiers
+    else tierParseErrors.push(`${label}: ${parsed.error}`)
+  }
+  const errors = [...tierParseErrors, ...validateRewardEconomy(economy)]
+  const preview = previewRewardEconomy(economy, server.regions)
+  const isDirty = JSON.stringify(economy) !== JSON.stringify(saved)
+
+  function setStructure(structureType: string, patch: Partial<StructureRewardValues>) {
+    setDraft((d) => ({
+      ...d,
+      structures: { ...d.structures, [structureType]: { ...d.structures[structureType], ...patch } },
+    }))
+  }
+
+  function addStructureType() {
+    const structureType = newStructureType.trim().toLowerCase()
+    if (!structureType || structureType in draft.structures) return
+    setStructure(structureType, { xp: 0, claimBlocks: 0, setDifficulty: 1 })
+    setNewStructureType('')
+  }
+
+  function removeStructureType(structureType: string) {
+    setDraft((d) => {
+      const { [structureType]: _removed, ...structures } = d.structures
+      return { ...d, structures }
+    })
+  }
+
+  function setTotalDiscoveredTier(index: number, patch: Partial<TotalDiscoveredTier>) {
+    setDraft((d) => ({
+      ...d,
+      totalDiscoveredTiers: d.totalDiscoveredTiers.map((t, i) => (i === index ? { ...t, ...patch } : t)),
+    }))
+  }
+
+  function addTotalDiscoveredTier() {
+    setDraft((d) => {
+      const last = d.totalDiscoveredTiers[d.totalDiscoveredTiers.length - 1]
+      const percent = Math.min(100, (last?.percent ?? 0) + 5)
+      return { ...d, totalDiscoveredTiers: [...d.totalDiscoveredTiers, { percent, title: '' }] }
+    })
+  }
+
+  function removeTotalDiscoveredTier(index: number) {
+    setDraft((d) => ({ ...d, totalDiscoveredTiers: d.totalDiscoveredTiers.filter((_, i) => i !== index) }))
+  }
+
+  function discardChanges() {
+    setDraft(saved)
+    setTierTexts(tierTextsFor(saved))
+    setSaveError(null)
+  }
+
+  async function save(next: RewardEconomy | null) {
+    setIsSaving(true)
+    setSaveStatus(null)
+    setSaveError(null)
+    try {
+      const result = await window.electronAPI.updateRewardEconomy(server.id, next)
+      if (result.success && result.profile) {
+        onServerUpdate(result.profile)
+        setSaveStatus('success')
+        setTimeout(() => setSaveStatus(null), 2000)
+      } else {
+        setSaveStatus('error')
+        setSaveError(result.error ?? 'Saving reward economy failed')
+      }
+    } catch (e) {
+      setSaveStatus('error')
+      setSaveError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Stack gap="xl">
+      <Group gap="sm">
+        <Text size="sm" c="dimmed">
+          AdvancedAchievements tier goals and structure rewards for this server. Changes apply to the next AA
+          build; the preview uses the regions currently imported.
+        </Text>
+        {server.rewardEconomy ? (
+          <Badge variant="light">Custom</Badge>
+        ) : (
+          <Badge variant="light" color="gray">
+            Defaults
+          </Badge>
+        )}
+      </Group>
+
+      {errors.length > 0 && (
+        <Alert color="red" variant="light" title="Fix these before saving">
+          <List size="sm" spacing={2}>
+            {errors.map((e) => (
+              <List.Item key={e}>{e}</List.Item>
+            ))}
+          </List>
+        </Alert>
+      )}
+
+      <Paper withBorder p="lg" bg="dark.6">
+        <Stack gap="md">
+          <Title order={4}>Tier goals</Title>
+          <Text size="sm" c="dimmed">
+            Comma-separated counts plus the milestones <code>quarter</code>, <code>half</code>,{' '}
+            <code>three_quarter</code>, <code>percent:N</code> and <code>all</code>. Fixed tiers at or above the
+            total, or too close to a milestone, are dropped; each drop is listed here and in the build report.
+          </Text>
+          <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="md" maw={480}>
+            <NumberInput
+              label="Milestone collision distance"
+              description="Drop fixed tiers this close to quarter / half / percent goals"
+              min={0}
+              allowDecimal={false}
+              value={numberValue(draft.tierCollision.milestoneThreshold)}
+              onChange={(v) =>
+                setDraft((d) => ({ ...d, tierCollision: { ...d.tierCollision, milestoneThreshold: toNumber(v) } }))
+              }
+            />
+            <NumberInput
+              label="All collision distance"
+              description="Drop the highest fixed tier this close to the total"
+              min={0}
+              allowDecimal={false}
+              value={numberValue(draft.tierCollision.allThreshold)}
+              onChange={(v) =>
+                setDraft((d) => ({ ...d, tierCollision: { ...d.tierCollision, allThreshold: toNumber(v) } }))
+              }
+            />
+          </SimpleGrid>
+          <Table withTableBorder striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Category</Table.Th>
+                <Table.Th>Tiers</Table.Th>
+                <Table.Th>Total</Table.Th>
+                <Table.Th>Resulting goals</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {REWARD_TIER_CATEGORIES.map(({ category, label }) => {
+                const row = preview.tiers.find((t) => t.category === category)
+                return (
+                  <Table.Tr key={category}>
+                    <Table.Td>{label}</Table.Td>
+                    <Table.Td>
+                      <TextInput
+                        size="xs"
+                        aria-label={`${label} tiers`}
+                        value={tierTexts[category]}
+                        placeholder={formatTierMarkers(DEFAULT_REWARD_ECONOMY.tierTemplates[category])}
+                        onChange={(e) => {
+                          const value = e.currentTarget.value
+                          setTierTexts((t) => ({ ...t, [category]: value }))
+                        }}
+                      />
+                    </Table.Td>
+                    <Table.Td>{row?.total ?? 0}</Table.Td>
+                    <Table.Td>
+                      {row && row.goals.length > 0 ? (
+                        row.goals.join(', ')
+                      ) : (
+                        <Text span size="sm" c="dimmed">
+                          not generated
+                        </Text>
+                      )}
+                      {row?.dropped.map((d) => (
+                        <Text key={`${String(d.marker)}-${d.value}`} size="xs" c="orange">
+                          {describeTierDecision(d)}
+                        </Text>
+                      ))}
+                    </Table.Td>
+                  </Table.Tr>
+                )
+              })}
+            </Table.Tbody>
+          </Table>
+        </Stack>
+      </Paper>
+
+      <Paper withBorder p="lg" bg="dark.6">
+        <Stack gap="md">
+          <Title order={4}>Total discovered</Title>
+          <Text size="sm" c="dimmed">
+            Share of all {preview.totalDiscovered.total} discoverable regions; each milestone promotes the player
+            on the explorer track and uses its title as the DisplayName.
+          </Text>
+          <Table withTableBorder striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Percent</Table.Th>
+                <Table.Th>Title</Table.Th>
+                <Table.Th>Goal</Table.Th>
+                <Table.Th />
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {draft.totalDiscoveredTiers.map((tier, index) => {
+                const goal = preview.totalDiscovered.goals.find((g) => g.percent === tier.percent)
+                return (
+                  <Table.Tr key={index}>
+                    <Table.Td>
+                      <NumberInput
+                        size="xs"
+                        w={90}
+                        min={1}
+                        max={100}
+                        allowDecimal={false}
+                        suffix="%"
+                        aria-label={`Milestone ${index + 1} percent`}
+                        value={numberValue(tier.percent)}
+                        onChange={(v) => setTotalDiscoveredTier(index, { percent: toNumber(v) })}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <TextInput
+                        size="xs"
+                        aria-label={`Milestone ${index + 1} title`}
+                        value={tier.title}
+                        onChange={(e) => setTotalDiscoveredTier(index, { title: e.currentTarget.value })}
+                      />
+                    </Table.Td>
+                    <Table.Td>{goal ? goal.goal : '—'}</Table.Td>
+                    <Table.Td>
+                      <ActionIcon
+                        variant="subtle"
+                        color="red"
+                        aria-label={`Remove milestone ${index + 1}`}
+                        onClick={() => removeTotalDiscoveredTier(index)}
+                      >
+                        <IconTrash size={16} />
+                      </ActionIcon>
+                    </Table.Td>
+                  </Table.Tr>
+                )
+              })}
+            </Table.Tbody>
+          </Table>
+          {preview.totalDiscovered.notes.map((note) => (
+            <Text key={note} size="xs" c="orange">
+              {note}
+            </Text>
+          ))}
+          <Group>
+            <Button variant="light" onClick={addTotalDiscoveredTier}>
+              Add milestone
+            </Button>
+          </Group>
+        </Stack>
+      </Paper>
+
+      <Paper withBorder p="lg" bg="dark.6">
+        <Stack gap="md">
+          <Title order={4}>Structure rewards</Title>
+          <Text size="sm" c="dimmed">
+            Each discovery pays its XP and claimblocks. Finding every site of a type pays a set reward of base ×
+            difficulty × √sites.
+          </Text>
+          <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="md" maw={480}>
+            <NumberInput
+              label="Set XP base"
+              min={0}
+              allowDecimal={false}
+              value={numberValue(draft.structureSetXpBase)}
+              onChange={(v) => setDraft((d) => ({ ...d, structureSetXpBase: toNumber(v) }))}
+            />
+            <NumberInput
+              label="Set claimblocks base"
+              min={0}
+              allowDecimal={false}
+              value={numberValue(draft.structureSetClaimBlocksBase)}
+              onChange={(v) => setDraft((d) => ({ ...d, structureSetClaimBlocksBase: toNumber(v) }))}
+            />
+          </SimpleGrid>
+          {preview.unknownStructureTypes.length > 0 && (
+            <Alert color="orange" variant="light">
+              Structure types without rewards: {preview.unknownStructureTypes.join(', ')}. Add them below or the AA
+              build cannot compute their set rewards.
+            </Alert>
+          )}
+          <Table withTableBorder striped>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Type</Table.Th>
+                <Table.Th>Sites</Table.Th>
+                <Table.Th>XP</Table.Th>
+                <Table.Th>Claimblocks</Table.Th>
+                <Table.Th>Set difficulty</Table.Th>
+                <Table.Th>Set reward</Table.Th>
+                <Table.Th>All sites total</Table.Th>
+                <Table.Th />
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {preview.structures.map((row) => {
+                const values = draft.structures[row.structureType]
+                return (
+                  <Table.Tr key={row.structureType}>
+                    <Table.Td>
+                      <code>{row.structureType}</code>
+                    </Table.Td>
+                    <Table.Td>{row.count}</Table.Td>
+                    <Table.Td>
+                      <NumberInput
+                        size="xs"
+                        w={90}
+                        min={0}
+                        allowDecimal={false}
+                        aria-label={`${row.structureType} XP`}
+                        value={numberValue(values.xp)}
+                        onChange={(v) => setStructure(row.structureType, { xp: toNumber(v) })}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <NumberInput
+                        size="xs"
+                        w={90}
+                        min={0}
+                        allowDecimal={false}
+                        aria-label={`${row.structureType} claimblocks`}
+                        value={numberValue(values.claimBlocks)}
+                        onChange={(v) => setStructure(row.structureType, { claimBlocks: toNumber(v) })}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <NumberInput
+                        size="xs"
+                        w={90}
+                        min={0}
+                        step={0.05}
+                        decimalScale={2}
+                        aria-label={`${row.structureType} set difficulty`}
+                        value={numberValue(values.setDifficulty)}
+                        onChange={(v) => setStructure(row.structureType, { setDifficulty: toNumber(v) })}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      {row.count > 0 ? `${row.setXp} XP · ${row.setClaimBlocks} cb` : '—'}
+                    </Table.Td>
+                    <Table.Td>
+                      {row.count > 0 ? `${row.totalXp} XP · ${row.totalClaimBlocks} cb` : '—'}
+                    </Table.Td>
+                    <Table.Td>
+                      {!(row.structureType in DEFAULT_REWARD_ECONOMY.structures) && (
+                        <ActionIcon
+                          variant="subtle"
+                          color="red"
+                          aria-label={`Remove ${row.structureType}`}
+                          onClick={() => removeStructureType(row.structureType)}
+                        >
+                          <IconTrash size={16} />
+                        </ActionIcon>
+                      )}
+                    </Table.Td>
+                  </Table.Tr>
+                )
+              })}
+            </Table.Tbody>
+          </Table>
+          <Group gap="sm" align="flex-end">
+            <TextInput
+              label="Add structure type"
+              placeholder="e.g. ruined_portal"
+              value={newStructureType}
+              onChange={(e) => setNewStructureType(e.currentTarget.value)}
+            />
+            <Button
+              variant="light"
+              onClick={addStructureType}
+              disabled={!newStructureType.trim() || newStructureType.trim().toLowerCase() in draft.structures}
+            >
+              Add
+            </Button>
+          </Group>
+        </Stack>
+      </Paper>
+
+      <Paper withBorder p="lg" bg="dark.6">
+        <Stack gap="md">
+          <Title order={4}>Structures found claimblocks</Title>
+          <SimpleGrid cols={{ base: 1, sm: 3 }} spacing="md" maw={640}>
+            <NumberInput
+              label="Every ten"
+              min={0}
+              allowDecimal={false}
+              value={numberValue(draft.structuresFoundClaimBlocks.ten)}
+              onChange={(v) =>
+                setDraft((d) => ({ ...d, structuresFoundClaimBlocks: { ...d.structuresFoundClaimBlocks, ten: toNumber(v) } }))
+              }
+            />
+            <NumberInput
+              label="Quarter / half / three quarters"
+              min={0}
+              allowDecimal={false}
+              value={numberValue(draft.structuresFoundClaimBlocks.milestone)}
+              onChange={(v) =>
+                setDraft((d) => ({
+                  ...d,
+                  structuresFoundClaimBlocks: { ...d.structuresFoundClaimBlocks, milestone: toNumber(v) },
+                }))
+              }
+            />
+            <NumberInput
+              label="All structures"
+              min={0}
+              allowDecimal={false}
+              value={numberValue(draft.structuresFoundClaimBlocks.all)}
+              onChange={(v) =>
+                setDraft((d) => ({ ...d, structuresFoundClaimBlocks: { ...d.structuresFoundClaimBlocks, all: toNumber(v) } }))
+              }
+            />
+          </SimpleGrid>
+        </Stack>
+      </Paper>
+
+      {saveError && (
+        <Alert color="red" variant="light" withCloseButton onClose={() => setSaveError(null)}>
+          <Text size="sm" style={{ whiteSpace: 'pre-line' }}>
+            {saveError}
+          </Text>
+        </Alert>
+      )}
+
+      <Group gap="md" align="center">
+        <Button onClick={() => save(economy)} loading={isSaving} disabled={!isDirty || errors.length > 0}>
+          Save Reward Economy
+        </Button>
+        <Button variant="default" onClick={discardChanges} disabled={!isDirty || isSaving}>
+          Discard changes
+        </Button>
+        <Button variant="subtle" color="red" onClick={() => save(null)} disabled={!server.rewardEconomy || isSaving}>
+          Reset to defaults
+        </Button>
+        {saveStatus === 'success' && (
+          <Text size="sm" c="green">
+            ✓ Saved successfully!
+          </Text>
+        )}
+      </Group>
+    </Stack>
+  )
+}
@@ -11,6 +11,8 @@ import {
   Title,
   SegmentedControl,
   TextInput,
+  Checkbox,
+  Alert,
 } from '@mantine/core'
 import {
   IconArrowLeft,
@@ -22,6 +24,11 @@ import {
   IconUserCircle,
   IconListCheck,
   IconPackage,
+  IconGitCompare,
+  IconCoins,
+  IconBolt,
+  IconStairsUp,
+  IconRoute,
 } from '@tabler/icons-react'
 import type { ServerProfile } from '../types'
 import { computeRegionDisplayStats } from '../utils/regionStats'
@@ -29,19 +36,29 @@ import { formatStructureTypeLabel } from '@shared/stringFormatters'
 import { ImportScreen } from './ImportScreen'
 import { OnboardingScreen } from './OnboardingScreen'
 import { BuildScreen } from './BuildScreen'
+import { BuildCompareScreen } from './BuildCompareScreen'
+import { DiscoverySimulatorScreen } from './DiscoverySimulatorScreen'
 import { RegionsScreen } from './RegionsScreen'
 import { LoreBooksScreen } from './LoreBooksScreen'
 import { DropTablesScreen } from './DropTablesScreen'
 import { CratesScreen } from './CratesScreen'
+import { RewardEconomyScreen } from './RewardEconomyScreen'
+import { CeRecipesScreen } from './CeRecipesScreen'
+import { BandPlannerScreen } from './BandPlannerScreen'
 
 type SectionValue =
   | 'profile'
   | 'import'
   | 'regions'
+  | 'bandPlanner'
   | 'dropTables'
   | 'crates'
+  | 'rewards'
+  | 'ceRecipes'
   | 'onboarding'
   | 'build'
+  | 'buildCompare'
+  | 'discoverySimulator'
   | 'loreBooks'
 
 type ImportStatRow = { key: string; label: string; value: number; nested?: boolean }
@@ -63,9 +80,13 @@ export function ServerDetailScreen({
 }: ServerDetailScreenProps) {
   const [server, setServer] = useState<ServerProfile>(initialServer)
   const [activeSection, setActiveSection] = useState<SectionValue>('import')
+  const [loreBookRegionId, setLoreBookRegionId] = useState<string | null>(null)
   const [profileNameDraft, setProfileNameDraft] = useState(initialServer.name)
   const [configNameDraft, setConfigNameDraft] = useState(initialServer.serverName ?? '')
   const [identitySaving, setIdentitySaving] = useState(false)
+  const [redactDiscordSrvTokens, setRedactDiscordSrvTokens] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportMessage, setExportMessage] = useState<{ ok: boolean; text: string } | null>(null)
 
   useEffect(() => {
     loadServer()
@@ -104,6 +125,11 @@ export function ServerDetailScreen({
     }
   }
 
+  function openSection(section: SectionValue) {
+    setLoreBookRegionId(null)
+    setActiveSection(section)
+  }
+
   function handleServerUpdate(updated: ServerProfile) {
     setServer(updated)
   }
@@ -128,6 +154,20 @@ export function ServerDetailScreen({
     }
   }
 
+  async function exportBundle() {
+    setIsExporting(true)
+    setExportMessage(null)
+    try {
+      const res = await window.electronAPI.exportServerBundle(server.id, { redactDiscordSrvTokens })
+      if (!res) return
+      setExportMessage(res.ok ? { ok: true, text: `Exported to ${res.filePath}` } : { ok: false, text: res.error })
+    } catch (error: any) {
+      setExportMessage({ ok: false, text: error.message || 'Export failed' })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   const previewConfigName =
     configNameDraft.trim() || profileNameDraft.trim() || server.name
 
@@ -200,10 +240,15 @@ export function ServerDetailScreen({
     { value: 'profile', label: 'Profile', icon: <IconUserCircle size={18} /> },
     { value: 'import', label: 'Import Regions', icon: <IconFileImport size={18} /> },
     { value: 'regions', label: 'Regions', icon: <IconMap2 size={18} /> },
+    { value: 'bandPlanner', label: 'Band Planner', icon: <IconStairsUp size={18} /> },
     { value: 'dropTables', label: 'Drop Tables', icon: <IconListCheck size={18} /> },
     { value: 'crates', label: 'Crates', icon: <IconPackage size={18} /> },
+    { value: 'rewards', label: 'Reward Economy', icon: <IconCoins size={18} /> },
+    { value: 'ceRecipes', label: 'CE Recipes', icon: <IconBolt size={18} /> },
     { value: 'onboarding', label: 'Onboarding', icon: <IconUser size={18} /> },
     { value: 'build', label: 'Build', icon: <IconHammer size={18} /> },
+    { value: 'buildCompare', label: 'Compare Builds', icon: <IconGitCompare size={18} /> },
+    { value: 'discoverySimulator', label: 'Discovery Simulator', icon: <IconRoute size={18} /> },
     { value: 'loreBooks', label: 'Lore Books', icon: <IconBook size={18} /> },
   ]
 
@@ -220,7 +265,7 @@ export function ServerDetailScreen({
         </Button>
         <SegmentedControl
           value={activeSection}
-          onChange={(v) => setActiveSection(v as SectionValue)}
+          onChange={(v) => openSection(v as SectionValue)}
           data={navItems.map((i) => ({ value: i.value, label: i.label }))}
           hiddenFrom="sm"
         />
@@ -250,7 +295,7 @@ export function ServerDetailScreen({
               active={activeSection === item.value}
               leftSection={item.icon}
               label={item.label}
-              onClick={() => setActiveSection(item.value)}
+              onClick={() => openSection(item.value)}
             />
           ))}
         </Stack>
@@ -262,10 +307,15 @@ export function ServerDetailScreen({
             {activeSection === 'profile' && 'Profile'}
             {activeSection === 'import' && 'Import stats'}
             {activeSection === 'regions' && 'Regions'}
+            {activeSection === 'bandPlanner' && 'LevelledMobs Band Planner'}
             {activeSection === 'dropTables' && 'Drop Tables'}
             {activeSection === 'crates' && 'Crates'}
+            {activeSection === 'rewards' && 'Reward Economy'}
+            {activeSection === 'ceRecipes' && 'CE Discovery Recipes'}
             {activeSection === 'onboarding' && 'Onboarding Config'}
             {activeSection === 'build' && 'Build Config'}
+            {activeSection === 'buildCompare' && 'Compare Builds'}
+            {activeSection === 'discoverySimulator' && 'Discovery Simulator'}
             {activeSection === 'loreBooks' && 'Export Lore Books'}
           </Title>
         </div>
@@ -297,6 +347,32 @@ export function ServerDetailScreen({
           </Paper>
         )}
 
+        {activeSection === 'profile' && (
+          <Paper withBorder p="lg" maw={480} bg="dark.6">
+            <Stack gap="md">
+              <Text size="sm" fw={600}>
+                Export profile
+              </Text>
+              <Text size="sm" c="dimmed">
+                Saves regions, onboarding, build settings, generator versions and the assigned drop tables and
+                crates as one JSON bundle that another installation can import. Local folder paths are not
+                included.
+              </Text>
+              <Checkbox
+                label="Redact DiscordSRV bot tokens"
+                checked={redactDiscordSrvTokens}
+                onChange={(e) => setRedactDiscordSrvTokens(e.currentTarget.checked)}
+              />
+              <Button variant="light" onClick={exportBundle} loading={isExporting}>
+                Export…
+              </Button>
+              {exportMessage && (
+                <Alert color={exportMessage.ok ? 'green' : 'red'}>{exportMessage.text}</Alert>
+              )}
+            </Stack>
+          </Paper>
+        )}
+
         {activeSection === 'import' && (
           <>
             <SimpleGrid cols={{ base: 1, sm: 2, md: 4 }} spacing="md">
@@ -324,7 +400,17 @@ export function ServerDetailScreen({
           </>
         )}
         {activeSection === 'regions' && (
-          <RegionsScreen server={server} />
+          <RegionsScreen
+            server={server}
+            onServerUpdate={handleServerUpdate}
+            onOpenLoreBook={(regionId) => {
+              setLoreBookRegionId(regionId)
+              setActiveSection('loreBooks')
+            }}
+          />
+        )}
+        {activeSection === 'bandPlanner' && (
+          <BandPlannerScreen server={server} onServerUpdate={handleServerUpdate} />
         )}
         {activeSection === 'dropTables' && (
           <DropTablesScreen
@@ -340,14 +426,22 @@ export function ServerDetailScreen({
             onOpenCrateLibrary={onOpenCrateLibrary}
           />
         )}
+        {activeSection === 'rewards' && (
+          <RewardEconomyScreen server={server} onServerUpdate={handleServerUpdate} />
+        )}
+        {activeSection === 'ceRecipes' && (
+          <CeRecipesScreen server={server} onServerUpdate={handleServerUpdate} />
+        )}
         {activeSection === 'onboarding' && (
           <OnboardingScreen server={server} onServerUpdate={handleServerUpdate} />
         )}
         {activeSection === 'build' && (
           <BuildScreen server={server} onServerUpdate={handleServerUpdate} />
         )}
+        {activeSection === 'buildCompare' && <BuildCompareScreen server={server} />}
+        {activeSection === 'discoverySimulator' && <DiscoverySimulatorScreen server={server} />}
         {activeSection === 'loreBooks' && (
-          <LoreBooksScreen server={server} onServerUpdate={handleServerUpdate} />
+          <LoreBooksScreen server={server} onServerUpdate={handleServerUpdate} initialRegionId={loreBookRegionId} />
         )}
       </Stack>
     </Group>
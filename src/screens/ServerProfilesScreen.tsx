@@ -12,6 +12,8 @@ import {
   ActionIcon,
   Center,
   Select,
+  SegmentedControl,
+  Alert,
 } from '@mantine/core'
 import {
   IconPlus,
@@ -26,8 +28,15 @@ import {
   IconFlame,
   IconBuilding,
   IconStack,
+  IconFileImport,
+  IconRestore,
 } from '@tabler/icons-react'
-import type { ServerProfile, ServerSummaryWithStats } from '../types'
+import type {
+  ServerProfile,
+  ServerSummaryWithStats,
+  ServerProfileBundlePreview,
+  BundleCollisionResolution,
+} from '../types'
 import classes from './ServerProfilesScreen.module.css'
 
 const SERVER_SORT_STORAGE_KEY = 'mcpm.serverListSort.v1'
@@ -160,6 +169,11 @@ export function ServerProfilesScreen({
   const [addServerModalOpen, setAddServerModalOpen] = useState(false)
   const [serverToDelete, setServerToDelete] = useState<ServerSummaryWithStats | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [bundlePreview, setBundlePreview] = useState<ServerProfileBundlePreview | null>(null)
+  const [bundleName, setBundleName] = useState('')
+  const [bundleResolutions, setBundleResolutions] = useState<Record<string, BundleCollisionResolution>>({})
+  const [isImportingBundle, setIsImportingBundle] = useState(false)
+  const [bundleError, setBundleError] = useState<string | null>(null)
 
   useEffect(() => {
     loadServers()
@@ -210,6 +224,7 @@ export function ServerProfilesScreen({
       netherHeartCount: typeof s.netherHeartCount === 'number' ? s.netherHeartCount : 0,
       structureCount: typeof s.structureCount === 'number' ? s.structureCount : 0,
       lastImportIso: s.lastImportIso ?? null,
+      ...(s.loadProblem ? { loadProblem: s.loadProblem } : {}),
     }
   }
 
@@ -253,6 +268,59 @@ export function ServerProfilesScreen({
     }
   }
 
+  async function handleChooseBundle() {
+    setBundleError(null)
+    try {
+      const res = await window.electronAPI.previewServerBundle()
+      if (!res) return
+      if (!res.ok) {
+        setBundleError(res.error)
+        return
+      }
+      setBundlePreview(res.preview)
+      setBundleName(res.preview.profileName)
+      setBundleResolutions({})
+    } catch (error: any) {
+      setBundleError(error.message || 'Failed to read bundle')
+    }
+  }
+
+  async function confirmImportBundle() {
+    if (!bundlePreview) return
+    setIsImportingBundle(true)
+    try {
+      const res = await window.electronAPI.importServerBundle(bundlePreview.filePath, {
+        name: bundleName.trim() || undefined,
+        resolutions: bundleResolutions,
+      })
+      if (!res.ok) {
+        setBundleError(res.error)
+        return
+      }
+      setBundlePreview(null)
+      await loadServers()
+      onSelectServer(res.server)
+    } catch (error: any) {
+      setBundleError(error.message || 'Import failed')
+    } finally {
+      setIsImportingBundle(false)
+    }
+  }
+
+  async function handleRecoverServer(server: ServerSummaryWithStats) {
+    try {
+      const result = await window.electronAPI.recoverServerProfile(server.id)
+      if (!result.success) {
+        alert(result.error ?? 'Failed to restore backup')
+        return
+      }
+      await loadServers()
+    } catch (error) {
+      console.error('Failed to recover server profile:', error)
+      alert('Failed to restore backup. See console for details.')
+    }
+  }
+
   function openDeleteConfirm(server: ServerSummaryWithStats) {
     setServerToDelete(server)
   }
@@ -284,14 +352,96 @@ export function ServerProfilesScreen({
             Import regions, configure onboarding, and build plugin configs for each server.
           </Text>
         </div>
-        <Button
-          leftSection={<IconPlus size={16} />}
-          onClick={() => setAddServerModalOpen(true)}
-        >
-          Add Server
-        </Button>
+        <Group gap="sm">
+          <Button variant="default" leftSection={<IconFileImport size={16} />} onClick={handleChooseBundle}>
+            Import Profile
+          </Button>
+          <Button
+            leftSection={<IconPlus size={16} />}
+            onClick={() => setAddServerModalOpen(true)}
+          >
+            Add Server
+          </Button>
+        </Group>
       </Group>
 
+      {bundleError && !bundlePreview && (
+        <Alert color="red" title="Import failed" withCloseButton onClose={() => setBundleError(null)}>
+          {bundleError}
+        </Alert>
+      )}
+
+      <Modal
+        title="Import server profile"
+        opened={bundlePreview !== null}
+        onClose={() => {
+          if (isImportingBundle) return
+          setBundlePreview(null)
+          setBundleError(null)
+        }}
+        size="lg"
+      >
+        {bundlePreview && (
+          <Stack gap="md">
+            <Text size="sm" c="dimmed">
+              {bundlePreview.regionCount} regions, {bundlePreview.dropTableCount} drop table(s),{' '}
+              {bundlePreview.crateCount} crate(s).
+              {bundlePreview.discordSrvTokensRedacted && ' DiscordSRV bot tokens were redacted on export.'}
+            </Text>
+            <TextInput
+              label="Profile name"
+              value={bundleName}
+              onChange={(e) => setBundleName(e.currentTarget.value)}
+            />
+            {bundlePreview.collisions.length > 0 && (
+              <Stack gap="xs">
+                <Text size="sm" fw={600}>
+                  Already in your library
+                </Text>
+                <Text size="xs" c="dimmed">
+                  Merge uses your existing entry; rename adds the bundled one under a free name / output stem.
+                </Text>
+                {bundlePreview.collisions.map((c) => (
+                  <Group key={c.bundleEntryId} justify="space-between" wrap="nowrap">
+                    <Text size="sm">
+                      {c.kind === 'crate' ? `Crate ${c.name} (${c.outputStem})` : `Drop table ${c.name}`}
+                    </Text>
+                    <SegmentedControl
+                      size="xs"
+                      value={bundleResolutions[c.bundleEntryId] ?? 'merge'}
+                      onChange={(v) =>
+                        setBundleResolutions((cur) => ({
+                          ...cur,
+                          [c.bundleEntryId]: v as BundleCollisionResolution,
+                        }))
+                      }
+                      data={[
+                        { value: 'merge', label: 'Merge' },
+                        { value: 'rename', label: 'Rename' },
+                      ]}
+                    />
+                  </Group>
+                ))}
+              </Stack>
+            )}
+            {bundleError && <Alert color="red">{bundleError}</Alert>}
+            <Group justify="flex-end" gap="sm">
+              <Button variant="default" onClick={() => setBundlePreview(null)} disabled={isImportingBundle}>
+                Cancel
+              </Button>
+              <Button
+                leftSection={<IconFileImport size={16} />}
+                onClick={confirmImportBundle}
+                loading={isImportingBundle}
+                disabled={!bundleName.trim()}
+              >
+                Import
+              </Button>
+            </Group>
+          </Stack>
+        )}
+      </Modal>
+
       <Modal
         title="Add Server"
         opened={addServerModalOpen}
@@ -420,6 +570,7 @@ export function ServerProfilesScreen({
               server={server}
               onOpen={() => handleOpenServer(server.id)}
               onDelete={() => openDeleteConfirm(server)}
+              onRecover={() => handleRecoverServer(server)}
             />
           ))}
         </SimpleGrid>
@@ -443,10 +594,12 @@ function ServerCard({
   server,
   onOpen,
   onDelete,
+  onRecover,
 }: {
   server: ServerSummaryWithStats
   onOpen: () => void
   onDelete: () => void
+  onRecover: () => void
 }) {
   const regionCount = server.regionCount ?? 0
   const villageCount = server.villageCount ?? 0
@@ -514,6 +667,21 @@ function ServerCard({
           </ActionIcon>
         </Group>
 
+        {server.loadProblem && (
+          <Alert color="red" title="Profile could not be loaded" p="xs" onClick={(e) => e.stopPropagation()}>
+            <Stack gap="xs">
+              <Text size="xs" style={{ wordBreak: 'break-word' }}>
+                {server.loadProblem.error}
+              </Text>
+              {server.loadProblem.recoverable && server.loadProblem.backupSavedAtIso && (
+                <Button size="xs" variant="light" leftSection={<IconRestore size={14} />} onClick={onRecover}>
+                  Restore backup from {new Date(server.loadProblem.backupSavedAtIso).toLocaleString()}
+                </Button>
+              )}
+            </Stack>
+          </Alert>
+        )}
+
         <div className={classes.statsSection} style={{ marginTop: 'auto' }}>
           <Text size="xs" c="dimmed" className={classes.statsLabel}>
             World data
@@ -0,0 +1,366 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Alert,
+  Badge,
+  Button,
+  Code,
+  Group,
+  Paper,
+  ScrollArea,
+  Select,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Textarea,
+} from '@mantine/core'
+import type { PluginType, TemplateLibraryEntry } from '../types'
+import { PLUGIN_TYPES } from '../types'
+import { getGeneratorDescriptor } from '@shared/generatorCatalog'
+import { SplitDiffView } from '../components/SplitDiffView'
+import { LibraryLoadErrorAlert } from '../components/LibraryLoadErrorAlert'
+
+const PLUGIN_OPTIONS = PLUGIN_TYPES.map((id) => ({ value: id, label: getGeneratorDescriptor(id).label }))
+
+function pluginLabel(id: PluginType): string {
+  return getGeneratorDescriptor(id).label
+}
+
+export function TemplateLibraryScreen() {
+  const [templates, setTemplates] = useState<TemplateLibraryEntry[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const [newPlugin, setNewPlugin] = useState<PluginType>('aa')
+  const [newName, setNewName] = useState('')
+  const [importNote, setImportNote] = useState('')
+
+  const [editName, setEditName] = useState('')
+  const [editDescription, setEditDescription] = useState('')
+  const [editNotes, setEditNotes] = useState<Record<number, string>>({})
+
+  const [diffFrom, setDiffFrom] = useState<string | null>(null)
+  const [diffTo, setDiffTo] = useState<string | null>(null)
+  const [diffPatch, setDiffPatch] = useState<string | null>(null)
+
+  async function loadLibrary(selectId?: string) {
+    setError(null)
+    try {
+      const rows = await window.electronAPI.listTemplateLibrary()
+      setTemplates(rows)
+      const want = selectId ?? selectedId
+      if (rows.length === 0) {
+        setSelectedId(null)
+      } else if (!rows.some((r) => r.id === want)) {
+        setSelectedId(rows[0].id)
+      } else {
+        setSelectedId(want)
+      }
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  useEffect(() => {
+    void loadLibrary()
+  }, [])
+
+  const selected = useMemo(() => templates.find((t) => t.id === selectedId) ?? null, [templates, selectedId])
+
+  useEffect(() => {
+    setEditName(selected?.name ?? '')
+    setEditDescription(selected?.description ?? '')
+    setEditNotes(Object.fromEntries((selected?.versions ?? []).map((v) => [v.version, v.note ?? ''])))
+    const versions = selected?.versions ?? []
+    setDiffFrom(versions.length > 1 ? String(versions[versions.length - 2].version) : null)
+    setDiffTo(versions.length > 0 ? String(versions[versions.length - 1].version) : null)
+    setDiffPatch(null)
+  }, [selected])
+
+  /** Browse for a YAML file and add it as a new template, or as the next version of `templateId`. */
+  async function handleImport(templateId?: string) {
+    const plugin = templateId ? selected?.plugin : newPlugin
+    if (!plugin) return
+    if (!templateId && !newName.trim()) {
+      setError('Enter a name for the new template')
+      return
+    }
+    const sourcePath = await window.electronAPI.showConfigFileDialog(`Import ${pluginLabel(plugin)} template`)
+    if (!sourcePath) return
+    setBusy(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const res = await window.electronAPI.importTemplateVersion({
+        plugin,
+        sourcePath,
+        templateId,
+        name: templateId ? undefined : newName,
+        note: importNote,
+      })
+      if (!res.ok || !res.entry) {
+        setError(res.error ?? 'Import failed')
+        return
+      }
+      setNotice(
+        res.created
+          ? `Imported ${res.entry.name} v${res.version}`
+          : `${res.entry.name} v${res.version} already has this content; nothing was added`
+      )
+      setImportNote('')
+      if (!templateId) setNewName('')
+      await loadLibrary(res.entry.id)
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleSave() {
+    if (!selected) return
+    setBusy(true)
+    setError(null)
+    try {
+      await window.electronAPI.updateTemplateLibraryEntry({
+        id: selected.id,
+        name: editName,
+        description: editDescription,
+        versionNotes: editNotes,
+      })
+      await loadLibrary(selected.id)
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleDelete() {
+    if (!selected) return
+    setBusy(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const res = await window.electronAPI.deleteTemplateLibraryEntry(selected.id)
+      if (!res.ok) {
+        setError(res.error ?? 'Failed to delete template')
+        return
+      }
+      const unpinned = res.removedFromServers ?? []
+      if (unpinned.length > 0) {
+        setNotice(`Removed pins from: ${unpinned.map((s) => s.name).join(', ')}`)
+      }
+      await loadLibrary()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleDiff() {
+    if (!selected || !diffFrom || !diffTo) return
+    setError(null)
+    const res = await window.electronAPI.diffTemplateVersions(selected.id, Number(diffFrom), Number(diffTo))
+    if (!res.ok) {
+      setError(res.error ?? 'Failed to diff versions')
+      setDiffPatch(null)
+      return
+    }
+    setDiffPatch(res.unifiedDiff ?? '')
+  }
+
+  const versionOptions = (selected?.versions ?? []).map((v) => ({ value: String(v.version), label: `v${v.version}` }))
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between" align="flex-end">
+        <Text size="sm" c="dimmed" maw={560}>
+          Named, versioned base templates per plugin. Pin a server&apos;s build target to a version on the Build tab;
+          unpinned plugins use the bundled default, and the build report records the hash of the template used.
+        </Text>
+        <Button variant="default" onClick={() => void loadLibrary()}>
+          Refresh
+        </Button>
+      </Group>
+
+      <LibraryLoadErrorAlert
+        kind="templateLibrary"
+        error={error}
+        onClose={() => setError(null)}
+        onRecovered={() => void loadLibrary()}
+      />
+      {notice && (
+        <Alert color="blue" withCloseButton onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      <Paper withBorder p="md">
+        <Stack gap="xs">
+          <Text fw={600} size="sm">
+            Import a new template
+          </Text>
+          <Group align="flex-end" gap="sm">
+            <Select
+              label="Plugin"
+              data={PLUGIN_OPTIONS}
+              value={newPlugin}
+              onChange={(v) => v && setNewPlugin(v as PluginType)}
+              allowDeselect={false}
+              w={220}
+            />
+            <TextInput
+              label="Name"
+              placeholder="e.g. Survival AA base"
+              value={newName}
+              onChange={(e) => setNewName(e.currentTarget.value)}
+              flex={1}
+            />
+            <TextInput
+              label="Version note"
+              placeholder="Optional"
+              value={importNote}
+              onChange={(e) => setImportNote(e.currentTarget.value)}
+              flex={1}
+            />
+            <Button loading={busy} onClick={() => void handleImport()}>
+              Browse and import...
+            </Button>
+          </Group>
+        </Stack>
+      </Paper>
+
+      <Group align="flex-start" wrap="nowrap" gap="md" style={{ minHeight: 420 }}>
+        <Paper withBorder w={280} p="xs">
+          <ScrollArea h={420}>
+            <Stack gap={4}>
+              {templates.map((t) => (
+                <Button
+                  key={t.id}
+                  variant={t.id === selectedId ? 'light' : 'subtle'}
+                  fullWidth
+                  justify="flex-start"
+                  onClick={() => setSelectedId(t.id)}
+                >
+                  <Stack gap={0} align="flex-start">
+                    <Text size="sm" fw={600} lineClamp={1}>
+                      {t.name}
+                    </Text>
+                    <Text size="xs" c="dimmed">
+                      {pluginLabel(t.plugin)} · {t.versions.length} version(s)
+                    </Text>
+                  </Stack>
+                </Button>
+              ))}
+              {templates.length === 0 && (
+                <Text size="sm" c="dimmed" p="xs">
+                  No templates yet. Import one to get started.
+                </Text>
+              )}
+            </Stack>
+          </ScrollArea>
+        </Paper>
+
+        <Paper withBorder p="md" flex={1} miw={0}>
+          {!selected ? (
+            <Text size="sm" c="dimmed">
+              Select a template or import a new one.
+            </Text>
+          ) : (
+            <Stack gap="md">
+              <Group justify="space-between">
+                <Group gap="xs">
+                  <Text fw={700}>{selected.name}</Text>
+                  <Badge variant="light">{pluginLabel(selected.plugin)}</Badge>
+                </Group>
+                <Group gap="xs">
+                  <Button variant="light" loading={busy} onClick={() => void handleImport(selected.id)}>
+                    Import new version...
+                  </Button>
+                  <Button color="red" variant="light" loading={busy} onClick={() => void handleDelete()}>
+                    Delete
+                  </Button>
+                </Group>
+              </Group>
+
+              <TextInput label="Name" value={editName} onChange={(e) => setEditName(e.currentTarget.value)} />
+              <Textarea
+                label="Description"
+                autosize
+                minRows={2}
+                value={editDescription}
+                onChange={(e) => setEditDescription(e.currentTarget.value)}
+              />
+
+              <Table withTableBorder striped>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Version</Table.Th>
+                    <Table.Th>SHA-256</Table.Th>
+                    <Table.Th>Imported</Table.Th>
+                    <Table.Th>Note</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {[...selected.versions].reverse().map((v) => (
+                    <Table.Tr key={v.version}>
+                      <Table.Td>v{v.version}</Table.Td>
+                      <Table.Td>
+                        <Code title={v.sha256}>{v.sha256.slice(0, 12)}</Code>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="xs" title={v.importedFrom}>
+                          {new Date(v.createdAt).toLocaleString()}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <TextInput
+                          size="xs"
+                          value={editNotes[v.version] ?? ''}
+                          onChange={(e) => {
+                            const note = e.currentTarget.value
+                            setEditNotes((cur) => ({ ...cur, [v.version]: note }))
+                          }}
+                        />
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+
+              <Group justify="flex-end">
+                <Button loading={busy} onClick={() => void handleSave()}>
+                  Save name and notes
+                </Button>
+              </Group>
+
+              {selected.versions.length > 1 && (
+                <Stack gap="xs">
+                  <Group align="flex-end" gap="sm">
+                    <Select label="From" data={versionOptions} value={diffFrom} onChange={setDiffFrom} w={120} />
+                    <Select label="To" data={versionOptions} value={diffTo} onChange={setDiffTo} w={120} />
+                    <Button variant="default" disabled={!diffFrom || !diffTo} onClick={() => void handleDiff()}>
+                      Show diff
+                    </Button>
+                  </Group>
+                  {diffPatch !== null &&
+                    (diffPatch.includes('@@') ? (
+                      <SplitDiffView patch={diffPatch} />
+                    ) : (
+                      <Text size="sm" c="dimmed">
+                        The two versions are identical.
+                      </Text>
+                    ))}
+                </Stack>
+              )}
+            </Stack>
+          )}
+        </Paper>
+      </Group>
+    </Stack>
+  )
+}
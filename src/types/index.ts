@@ -33,10 +33,14 @@ export type GeneratorVersionKey =
   | 'placeholderapi'
   | 'worldguardregions'
   | 'worldguardregionsnether'
+  | 'worldguardregionsend'
+  | 'webmap'
 
 export type BuildTarget = 'next' | 'live'
 
 export interface ServerProfile {
+  /** On-disk shape version of profile.json (see electron/utils/schemaMigrations.ts). */
+  schemaVersion?: number
   id: ServerId
   /** Display name in this app (e.g. live vs next). */
   name: string
@@ -84,19 +88,61 @@ export interface ServerProfile {
     worldGuardRegionsNetherSourcePath?: string
     /** Nether world folder under WorldGuard/worlds/ (e.g. `world_nether`). */
     worldGuardRegionsNetherWorldFolder?: string
+    /** End WorldGuard regions.yml source (Region Forge export for the End world). */
+    worldGuardRegionsEndSourcePath?: string
+    /** End world folder under WorldGuard/worlds/ (e.g. `world_the_end`). */
+    worldGuardRegionsEndWorldFolder?: string
     /** MyCommand Tebex store subdomain (left side of `.tebex.io`). */
     mcTebexSubdomain?: string
+    /** Last web map marker options. */
+    webMap?: WebMapSettings
   }
   /** Which global drop-table library entries apply to this server (by library entry id). */
   dropTables?: DropTablesServerAssignment
   /** Which global CrazyCrates library entries to emit for this server (by library entry id). Empty = all default bundled crates. */
   crazyCrates?: CrazyCratesServerAssignment
+  /** Manual region edits keyed by `world:id`; re-applied over imported data after every import. */
+  regionOverrides?: Record<string, RegionOverride>
+  /** Newest last; capped (see electron/shared/regionOverrides.ts). */
+  regionEditLog?: RegionEditLogEntry[]
+  /** AA tier goals and structure XP / claimblock rewards; absent = built-in defaults. */
+  rewardEconomy?: RewardEconomy
+  /** LevelledMobs band planner rings and locks; absent = built-in defaults (see electron/shared/lmBandPlanner.ts). */
+  bandPlan?: LevelledMobsBandPlan
+  /** ConditionalEvents discovery action recipes; absent = built-in defaults (see electron/shared/ceRecipes.ts). */
+  ceRecipes?: CeRecipes
   /** Per-plugin successful emit serial (1-based), keyed by plugin id. */
   generatorVersions?: Partial<Record<GeneratorVersionKey, number>>
   /** DiscordSRV build inputs (legacy single-target shape). */
   discordSrv?: DiscordSrvSettings
   /** DiscordSRV build inputs keyed by build target. */
   discordSrvByTarget?: Partial<Record<BuildTarget, DiscordSrvSettings>>
+  /** Template library versions used as the base config per build target; unpinned plugins use the bundled default. */
+  templatePinsByTarget?: Partial<Record<BuildTarget, Partial<Record<PluginType, TemplatePin>>>>
+}
+
+/** Web map plugins the marker generator writes for. */
+export type WebMapFormat = 'bluemap' | 'squaremap' | 'dynmap'
+
+export interface WebMapSettings {
+  /** Absent = every format. */
+  formats?: WebMapFormat[]
+  /** Leave out hearts, nerves and structures players discover on entry, so the map does not spoil them. */
+  hideUndiscoveredPois?: boolean
+}
+
+/** Region footprint from a Region Forge / WorldGuard export. */
+export interface RegionGeometry {
+  type: 'cuboid' | 'poly2d'
+  /** Cuboid corners; for poly2d the bounding box of `points` with the region's y-range. */
+  min: { x: number; y: number; z: number }
+  max: { x: number; y: number; z: number }
+  /** poly2d outline in order; absent for cuboids. */
+  points?: Array<{ x: number; z: number }>
+  /** WorldGuard priority; absent when the export leaves it at the default. */
+  priority?: number
+  /** Canonical id of the WorldGuard parent region. */
+  parent?: string
 }
 
 export interface DiscordSrvSettings {
@@ -146,6 +192,152 @@ export interface RegionRecord {
   loreBookAnchors?: string[]
   /** Lore book description override: editable text for lore books. When set, used instead of description for export. Cleared on re-import. */
   loreBookDescription?: string
+  /** Bespoke discovery rewards layered over the kind's defaults in AA and CE output. Survives re-import. */
+  rewards?: RegionRewardOverrides
+  /** Footprint from the Region Forge export; kept across regions-meta imports (which carry no geometry). */
+  geometry?: RegionGeometry
+}
+
+/** Per-region reward overrides (see electron/shared/regionRewards.ts). */
+export interface RegionRewardOverrides {
+  /** CrazyCrates library entry id; its output stem replaces the recipe crate (`{CRATE}`). */
+  crateLibraryId?: string
+  /** Virtual crate keys given per discovery (`{CRATE_KEYS}`); default 1. */
+  crateKeyCount?: number
+  /** Console commands run after the recipe actions (no `console_command:` prefix); recipe placeholders allowed. */
+  extraCommands?: string[]
+  /** AA `Message` shown when the discovery achievement is awarded. */
+  aaMessage?: string
+  /** AA `Reward.Experience`. */
+  aaExperience?: number
+}
+
+/** Region fields editable in the Regions screen. Absent = not overridden; `''` clears an optional text field. */
+export interface RegionOverrideFields {
+  kind?: RegionKind
+  structureType?: string
+  method?: DiscoverMethod
+  recipeId?: RewardRecipeId
+  commandIdOverride?: string
+  displayNameOverride?: string
+  /** LevelledMobs band stored in `regionsMeta.levelledMobs.regionBands`; `''` = default band. */
+  levelledMobsBand?: string
+}
+
+export interface RegionOverride {
+  world: RegionRecord['world']
+  id: string
+  /** Manual values, layered over imported data. */
+  fields: RegionOverrideFields
+  /** What the last import set for each overridden field (absent = unset); used to revert. */
+  imported: RegionOverrideFields
+  updatedAtIso: string
+  /** The last import of this world no longer contains the region. */
+  missingFromSource?: boolean
+}
+
+export interface RegionEditLogEntry {
+  atIso: string
+  action: 'edit' | 'revert'
+  /** `world:id` keys of the regions touched. */
+  regionKeys: string[]
+  /** Values set (edit) or manual values dropped (revert). */
+  fields: RegionOverrideFields
+}
+
+export interface RegionEditRequest {
+  /** `world:id` keys; bulk edits apply the same fields to every region. */
+  regionKeys: string[]
+  fields: RegionOverrideFields
+}
+
+export interface RegionEditResult {
+  success: boolean
+  error?: string
+  profile?: ServerProfile
+}
+
+/** Inputs of the LevelledMobs band planner (see electron/shared/lmBandPlanner.ts). */
+export interface LevelledMobsBandPlan {
+  /** Distance from spawn (blocks) where easy, normal, hard and severe end, ascending; beyond the last is deadly. */
+  ringDistances: number[]
+  /** `world:id` keys that keep their current band and anchor their neighbours. */
+  lockedKeys: string[]
+}
+
+/**
+ * AA tier goal: a fixed count, or a milestone of the category total
+ * (`quarter`, `half`, `three_quarter`, `percent:N`, `all`).
+ */
+export type RewardTierMarker = number | 'quarter' | 'half' | 'three_quarter' | 'all' | `percent:${number}`
+
+export type RewardTierCategory =
+  | 'villages_discovered'
+  | 'regions_discovered'
+  | 'hearts_discovered'
+  | 'nerves_discovered'
+  | 'nether_regions_discovered'
+  | 'nether_hearts_discovered'
+  | 'end_regions_discovered'
+  | 'end_hearts_discovered'
+
+export interface StructureRewardValues {
+  /** AA Experience for discovering one site. */
+  xp: number
+  /** Claimblocks for discovering one site. */
+  claimBlocks: number
+  /** Multiplier for the "all found" set reward (base × difficulty × √count). */
+  setDifficulty: number
+}
+
+export interface TotalDiscoveredTier {
+  /** Share of every discoverable region, 1–100. */
+  percent: number
+  /** DisplayName and LuckPerms explorer title. */
+  title: string
+}
+
+/** Per-server reward pacing used by the AA generator (see electron/shared/rewardEconomy.ts). */
+export interface RewardEconomy {
+  tierTemplates: Record<RewardTierCategory, RewardTierMarker[]>
+  /**
+   * Fixed tiers within `milestoneThreshold` of a quarter / half / three-quarter / percent milestone,
+   * or (the highest one) within `allThreshold` of the total, are dropped.
+   */
+  tierCollision: { milestoneThreshold: number; allThreshold: number }
+  /** Custom.total_discovered milestones, ascending by percent. */
+  totalDiscoveredTiers: TotalDiscoveredTier[]
+  /** Keyed by structureType. */
+  structures: Record<string, StructureRewardValues>
+  structureSetXpBase: number
+  structureSetClaimBlocksBase: number
+  /** structures_found claimblocks: every-ten tiers, quarter/half/three-quarter milestones, and all. */
+  structuresFoundClaimBlocks: { ten: number; milestone: number; all: number }
+}
+
+export interface RewardEconomyResult {
+  success: boolean
+  error?: string
+  profile?: ServerProfile
+}
+
+/** Discovery recipes per reward kind, plus structure finds and the first-join welcome. */
+export type CeRecipeKey = Exclude<RewardRecipeId, 'none'> | 'structure' | 'first_join'
+
+/** Ordered CE action templates; `{CRATE}` / `{COUNTER}` expand to the values below. */
+export interface CeActionRecipe {
+  actions: string[]
+  crate?: string
+  /** AA custom counter name without the `Custom.` prefix (structures use their family counter). */
+  counter?: string
+}
+
+export type CeRecipes = Record<CeRecipeKey, CeActionRecipe>
+
+export interface CeRecipesResult {
+  success: boolean
+  error?: string
+  profile?: ServerProfile
 }
 
 export interface OnboardingConfig {
@@ -176,36 +368,124 @@ export interface ServerSummaryWithStats {
   netherHeartCount: number
   structureCount: number
   lastImportIso: string | null
+  /** Set when profile.json exists but cannot be loaded (counts are then 0). */
+  loadProblem?: ServerProfileLoadProblem
+}
+
+/** Why a stored JSON document (profile or library) exists but cannot be loaded. */
+export interface StoredDocumentLoadProblem {
+  error: string
+  /** A backup that parses exists and can replace the broken file. */
+  recoverable: boolean
+  backupSavedAtIso?: string
 }
 
+export interface StoredDocumentRecoveryResult {
+  success: boolean
+  error?: string
+  restoredFromIso?: string
+}
+
+export type ServerProfileLoadProblem = StoredDocumentLoadProblem
+export type ServerProfileRecoveryResult = StoredDocumentRecoveryResult
+
+/** Global library files that can be restored from their `backups/` folder. */
+export type StoredLibraryKind = 'dropTableLibrary' | 'crateLibrary' | 'templateLibrary'
+
 export interface ImportResult {
   success: boolean
   regionCount?: number
   error?: string
+  /** Manual region overrides whose region is absent from the imported file. */
+  missingOverrideCount?: number
+  /** What the import changed for this world (same shape as the preview). */
+  diff?: RegionImportDiff
+}
+
+export interface RegionImportReclassification {
+  id: string
+  fromKind: RegionKind
+  toKind: RegionKind
+}
+
+/** A removed id that looks like it was renamed to an added id. */
+export interface RegionImportRenameCandidate {
+  fromId: string
+  toId: string
+  /** 0..1, higher is more alike. */
+  similarity: number
+}
+
+/** Generated output that disappears on the next build because the region is gone. */
+export interface RegionImportLostDiscovery {
+  id: string
+  aaCommandId: string
+  /** Set for on_enter regions (`<id>_discover_once`). */
+  ceEventKey?: string
+}
+
+export interface RegionImportDiff {
+  world: RegionRecord['world']
+  added: string[]
+  removed: string[]
+  reclassified: RegionImportReclassification[]
+  renameCandidates: RegionImportRenameCandidate[]
+  descriptionChanged: string[]
+  /** Kept lore-book anchors that no longer occur in the region's description. */
+  loreBookAnchorsInvalidated: Array<{ id: string; anchors: string[] }>
+  bandChanged: Array<{ id: string; from?: string; to?: string }>
+  lostDiscoveries: RegionImportLostDiscovery[]
+  unchangedCount: number
+}
+
+export interface RegionImportPreviewResult {
+  success: boolean
+  error?: string
+  diff?: RegionImportDiff
+  /** Pass back when applying so a file edited after the preview is refused. */
+  fileHash?: string
+}
+
+/** One change outside a plugin's owned keys, found by the diff gate. */
+export interface DiffGateViolation {
+  /** YAML path from the document root; numbers are list indexes. */
+  path: Array<string | number>
+  kind: 'added' | 'removed' | 'changed'
+  /** Template value (absent when added). */
+  before?: unknown
+  /** Generated value (absent when removed). */
+  after?: unknown
+  /** Ownership manifest path that would have to own this key for the gate to pass. */
+  coveringRule: string
+}
+
+/** Diff-gate failure for one plugin; also recorded in the report when accepted for one build. */
+export interface DiffGateReport {
+  plugin: GeneratorVersionKey
+  /** Template the generated file was compared with. */
+  templatePath: string
+  violations: DiffGateViolation[]
+  /** Hash of the violations: an acceptance only applies while they are unchanged. */
+  fingerprint: string
+}
+
+/** Where a generator's base config came from. */
+export interface ConfigSource {
+  path: string
+  isDefault: boolean
+  /** SHA-256 of the template file the build merged into (template plugins only). */
+  sha256?: string
+  /** Set when the template came from a pinned template library version. */
+  template?: { id: string; name: string; version: number }
 }
 
 export interface BuildResult {
   success: boolean
   buildId?: string
   error?: string
-  configSources?: {
-    aa?: { path: string; isDefault: boolean }
-    bookgui?: { path: string; isDefault: boolean }
-    ce?: { path: string; isDefault: boolean }
-    tab?: { path: string; isDefault: boolean }
-    lm?: { path: string; isDefault: boolean }
-    lmcd?: { path: string; isDefault: boolean }
-    mc?: { path: string; isDefault: boolean }
-    cw?: { path: string; isDefault: boolean }
-    essentials?: { path: string; isDefault: boolean }
-    discordsrv?: { path: string; isDefault: boolean }
-    griefprevention?: { path: string; isDefault: boolean }
-    crazycrates?: { path: string; isDefault: boolean }
-    luckperms?: { path: string; isDefault: boolean }
-    placeholderapi?: { path: string; isDefault: boolean }
-    worldguardregions?: { path: string; isDefault: boolean }
-    worldguardregionsnether?: { path: string; isDefault: boolean }
-  }
+  configSources?: Partial<Record<GeneratorVersionKey, ConfigSource>>
+  /** Set when the build stopped at a diff gate. */
+  diffGate?: DiffGateReport
 }
 
 export interface BuildReport {
@@ -215,6 +495,8 @@ export interface BuildReport {
   regionCounts: {
     overworld: number
     nether: number
+    /** Absent on reports from builds before End support. */
+    end?: number
     hearts: number
     villages: number
     regions: number
@@ -228,51 +510,14 @@ export interface BuildReport {
     overworldNerves: number
     netherRegions: number
     netherHearts: number
+    endRegions?: number
+    endHearts?: number
     villages: number
     total: number
   }
-  generated: {
-    aa: boolean
-    bookgui: boolean
-    ce: boolean
-    tab: boolean
-    lm: boolean
-    lmcd?: boolean
-    mc: boolean
-    cw: boolean
-    essentials?: boolean
-    /** Present from builds that include DiscordSRV support; treat absent as false. */
-    discordsrv?: boolean
-    /** Bundled GriefPreventionData/config.yml copy; treat absent as false. */
-    griefprevention?: boolean
-    /** Bundled CrazyCrates config + crate YAML copies; treat absent as false. */
-    crazycrates?: boolean
-    /** Bundled LuckPerms .gz export (binary copy); treat absent as false. */
-    luckperms?: boolean
-    /** Bundled PlaceholderAPI tree (YAML + binaries); treat absent as false. */
-    placeholderapi?: boolean
-    /** WorldGuard regions.yml from user-provided source (e.g. Region Forge). */
-    worldguardregions?: boolean
-    worldguardregionsnether?: boolean
-  }
-  configSources?: {
-    aa?: { path: string; isDefault: boolean }
-    bookgui?: { path: string; isDefault: boolean }
-    ce?: { path: string; isDefault: boolean }
-    tab?: { path: string; isDefault: boolean }
-    lm?: { path: string; isDefault: boolean }
-    lmcd?: { path: string; isDefault: boolean }
-    mc?: { path: string; isDefault: boolean }
-    cw?: { path: string; isDefault: boolean }
-    essentials?: { path: string; isDefault: boolean }
-    discordsrv?: { path: string; isDefault: boolean }
-    griefprevention?: { path: string; isDefault: boolean }
-    crazycrates?: { path: string; isDefault: boolean }
-    luckperms?: { path: string; isDefault: boolean }
-    placeholderapi?: { path: string; isDefault: boolean }
-    worldguardregions?: { path: string; isDefault: boolean }
-    worldguardregionsnether?: { path: string; isDefault: boolean }
-  }
+  /** Per generator; absent keys (reports from builds before the plugin existed) mean false. */
+  generated: Partial<Record<GeneratorVersionKey, boolean>>
+  configSources?: Partial<Record<GeneratorVersionKey, ConfigSource>>
   warnings: string[]
   errors: string[]
   /** Counter values persisted on the profile after this build (plugins that were emitted). */
@@ -281,6 +526,10 @@ export interface BuildReport {
   buildNote?: string
   /** When true, generator versions were not bumped (test / iterative emit). */
   testBuild?: boolean
+  /** Set on restore builds: the build whose saved files were copied back into the output folder. */
+  rollbackOf?: string
+  /** Diff-gate drift the user accepted for this build only. */
+  acceptedDrift?: DiffGateReport[]
 }
 
 export interface DropTableItemOverride {
@@ -418,6 +667,58 @@ export interface CrateLibraryDeleteResult {
   removedFromServers?: { id: string; name: string }[]
 }
 
+/** One imported revision of a library template; the file lives at `templates/<id>/v<version>.yml`. */
+export interface TemplateVersion {
+  /** 1-based, increasing per template. */
+  version: number
+  sha256: string
+  note?: string
+  /** File the version was imported from. */
+  importedFrom?: string
+  createdAt: string
+}
+
+/** Named base config for one template plugin in the global template library. */
+export interface TemplateLibraryEntry {
+  id: string
+  plugin: PluginType
+  name: string
+  description?: string
+  /** Oldest first. */
+  versions: TemplateVersion[]
+  createdAt: string
+  updatedAt: string
+}
+
+/** A server / build target's choice of template library version for one plugin. */
+export interface TemplatePin {
+  templateId: string
+  version: number
+}
+
+export interface TemplateImportResult {
+  ok: boolean
+  error?: string
+  entry?: TemplateLibraryEntry
+  /** Version holding the imported content (an existing one when the content was unchanged). */
+  version?: number
+  /** False when the file matched an existing version and nothing was added. */
+  created?: boolean
+}
+
+export interface TemplateLibraryDeleteResult {
+  ok: boolean
+  error?: string
+  /** Servers whose pins on the template were removed. */
+  removedFromServers?: { id: string; name: string }[]
+}
+
+export interface TemplateVersionDiffResult {
+  ok: boolean
+  error?: string
+  unifiedDiff?: string
+}
+
 /** Resolved crate row for build emit (main process). */
 export interface ResolvedCrazyCratesCrate {
   /** Present when emit came from a library assignment. */
@@ -429,11 +730,123 @@ export interface ResolvedCrazyCratesCrate {
   legacyStem?: CrazyCratesBundledCrateStem
 }
 
+/**
+ * Portable server profile: the profile plus the drop-table and crate library entries it references,
+ * so it can be imported into another installation.
+ */
+export interface ServerProfileBundle {
+  format: 'mcpm-server-profile'
+  version: 1
+  exportedAt: string
+  /** When true, DiscordSRV bot tokens were removed on export. */
+  discordSrvTokensRedacted: boolean
+  profile: ServerProfile
+  dropTables: DropTableLibraryEntry[]
+  crates: CrateLibraryEntry[]
+}
+
+export interface ServerProfileExportOptions {
+  redactDiscordSrvTokens: boolean
+}
+
+/** Merge = use the existing library entry; rename = add the bundled entry under a free name / outputStem. */
+export type BundleCollisionResolution = 'merge' | 'rename'
+
+/** A bundled library entry whose name (or crate outputStem) is already used in this installation. */
+export interface BundleLibraryCollision {
+  kind: 'dropTable' | 'crate'
+  bundleEntryId: string
+  existingEntryId: string
+  name: string
+  /** Crates only. */
+  outputStem?: string
+}
+
+export interface ServerProfileBundlePreview {
+  filePath: string
+  profileName: string
+  regionCount: number
+  dropTableCount: number
+  crateCount: number
+  discordSrvTokensRedacted: boolean
+  collisions: BundleLibraryCollision[]
+}
+
+export interface ServerProfileImportOptions {
+  /** Display name for the imported profile (defaults to the bundled name). */
+  name?: string
+  /** Per colliding bundle entry id; absent = merge. */
+  resolutions?: Record<string, BundleCollisionResolution>
+}
+
+export type ServerProfileBundlePreviewResponse =
+  | { ok: true; preview: ServerProfileBundlePreview }
+  | { ok: false; error: string }
+
+export type ServerProfileImportResponse =
+  | { ok: true; server: ServerProfile; addedDropTables: number; addedCrates: number; mergedEntries: number }
+  | { ok: false; error: string }
+
+export type ServerProfileExportResponse = { ok: true; filePath: string } | { ok: false; error: string }
+
 /** Row for build history list (from saved report.json). */
 export interface BuildListItem {
   buildId: string
   testBuild?: boolean
   buildNote?: string
+  rollbackOf?: string
+}
+
+/** Restore a saved build into the output folder (defaults from the profile's build settings). */
+export interface BuildRestoreOptions {
+  outDir?: string
+  propagateToPluginFolders?: boolean
+  note?: string
+}
+
+export interface BuildRestoreResult {
+  success: boolean
+  error?: string
+  /** New build id recording the rollback. */
+  buildId?: string
+  /** Output-relative paths written. */
+  restored: string[]
+  /** Output-relative paths whose previous content was saved under builds/<buildId>/overwritten/. */
+  backedUp: string[]
+  /** Saved files that could not be mapped to an output path. */
+  skipped: string[]
+}
+
+/** Preview row status: file absent from the output folder, would change, or matches (ignoring the header line). */
+export type BuildPreviewFileStatus = 'added' | 'changed' | 'unchanged'
+
+/** One file a build would write, compared against what is currently in the output folder. */
+export interface BuildPreviewFile {
+  plugin: GeneratorVersionKey
+  /** Absolute destination path. */
+  outputPath: string
+  /** Destination relative to the output directory (display). */
+  relativePath: string
+  status: BuildPreviewFileStatus
+  /** Byte copy (e.g. LuckPerms .gz); no text diff. */
+  binary?: boolean
+  /** Unified diff (current → generated) for text files that are added or changed. */
+  unifiedDiff?: string
+}
+
+/** Dry-run build: every selected generator runs in memory; nothing is written. */
+export interface BuildPreviewResult {
+  success: boolean
+  error?: string
+  /** Set when the preview stopped at a diff gate. */
+  diffGate?: DiffGateReport
+  files: BuildPreviewFile[]
+  warnings: string[]
+  summary: {
+    added: number
+    changed: number
+    unchanged: number
+  }
 }
 
 /** Single PM-generated path when comparing two plugin folder trees. */
@@ -458,10 +871,8 @@ export interface PluginFolderCompareFileResult {
 export interface PluginFolderCompareResult {
   leftRoot: string
   rightRoot: string
-  /** Set when bundled guide books could not be listed — BookGUI rows are omitted. */
-  bookGuiWarning?: string
-  /** Set when bundled PlaceholderAPI templates could not be listed — those rows are omitted. */
-  placeholderApiWarning?: string
+  /** One per plugin whose files could not be listed (e.g. bundled templates missing); its rows are omitted. */
+  warnings?: Array<{ title: string; message: string }>
   files: PluginFolderCompareFileResult[]
   summary: {
     identical: number
@@ -477,6 +888,132 @@ export type PluginFolderCompareResponse =
   | { ok: true; result: PluginFolderCompareResult }
   | { ok: false; error: string }
 
+/** Drift check of one PM-generated file under a live plugins root against the build that wrote it. */
+export type DriftFileStatus =
+  /** Matches the saved build copy (generator header and line endings ignored). */
+  | 'clean'
+  | 'edited'
+  | 'missing'
+  /** No `# mc-plugin-manager:` header, so the originating build is unknown. */
+  | 'no_header'
+  /** The header names a server or build whose saved copy is not in this data directory. */
+  | 'build_missing'
+  | 'read_error'
+
+export interface DriftFileResult {
+  id: string
+  label: string
+  relativePath: string
+  status: DriftFileStatus
+  /** From the file's generator header. */
+  provenance?: { profileId: string; buildId: string; generatorVersion?: string; generatedAt?: string }
+  /** Edits inside keys Plugin Manager owns; the next build overwrites them. */
+  ownedEdits?: DiffGateViolation[]
+  /** Edits outside owned keys; pull them back into the template or the next build drops them. */
+  templateEdits?: DiffGateViolation[]
+  /** Edited, but the YAML parses the same (comments or formatting only). */
+  formattingOnly?: boolean
+  /** Saved build copy → live file. */
+  unifiedDiff?: string
+  error?: string
+}
+
+export interface DriftCheckResult {
+  pluginsRoot: string
+  warnings?: Array<{ title: string; message: string }>
+  files: DriftFileResult[]
+  summary: Record<DriftFileStatus, number>
+}
+
+export type DriftCheckResponse = { ok: true; result: DriftCheckResult } | { ok: false; error: string }
+
+
+export interface BuildCompareMetricRow {
+  key: string
+  left?: number
+  right?: number
+}
+
+/** Two saved builds of one server: emitted files (folder-compare shape) plus report count changes. */
+export interface BuildCompareResult {
+  leftBuildId: string
+  rightBuildId: string
+  /** `leftRoot` / `rightRoot` are the two builds/<buildId>/ folders. */
+  files: PluginFolderCompareResult
+  regionCounts: BuildCompareMetricRow[]
+  computedCounts: BuildCompareMetricRow[]
+  generatorVersions: BuildCompareMetricRow[]
+}
+
+export type BuildCompareResponse = { ok: true; result: BuildCompareResult } | { ok: false; error: string }
+
+/** Regions a simulated player enters, in order (WorldGuard ids), or a seeded random walk over neighbours. */
+export type DiscoveryWalk =
+  | { mode: 'sequence'; regionIds: string[] }
+  | { mode: 'random'; steps: number; seed: number }
+
+/** One region entry of a simulated walk and the CE events it fired (first join is step 0, region `''`). */
+export interface DiscoverySimulationStep {
+  regionId: string
+  events: string[]
+  /** AA command ids awarded during this step. */
+  achievements: string[]
+  /** `Custom.<category>` tiers reached during this step, as `category:tier`. */
+  tiers: string[]
+  /** Seconds of CE `wait` actions in the fired events. */
+  waitSeconds: number
+}
+
+export interface DiscoverySimulationTier {
+  category: string
+  tier: number
+  /** AA `Name` of the tier entry. */
+  name?: string
+  /** Index into `steps`. */
+  step: number
+}
+
+/** A TAB line reading AA counters, evaluated with the simulated counter values. */
+export interface DiscoverySimulationTabLine {
+  label: string
+  kind: 'percent' | 'count'
+  value: number
+  /** Denominator written in the line. */
+  of: number
+}
+
+export interface DiscoverySimulationIssue {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface DiscoverySimulationReport {
+  buildId?: string
+  steps: DiscoverySimulationStep[]
+  /** AA command ids in award order. */
+  achievements: string[]
+  tiers: DiscoverySimulationTier[]
+  /** Final `Custom.<category>` counter values. */
+  counters: Record<string, number>
+  /** Virtual crate keys by crate name. */
+  crateKeys: Record<string, number>
+  /** LuckPerms nodes set to true. */
+  permissions: string[]
+  /** LuckPerms tracks promoted on (AA tier rewards), in order. */
+  promotions: string[]
+  tab: DiscoverySimulationTabLine[]
+  /** Console commands the simulator does not interpret, deduplicated. */
+  unhandledCommands: string[]
+  /** CE events never fired because their type or conditions are not simulated. */
+  skippedEvents: string[]
+  /** Problems in this walk plus tiers and TAB totals a player who discovers everything cannot reach. */
+  issues: DiscoverySimulationIssue[]
+}
+
+export type DiscoverySimulationResponse =
+  | { ok: true; report: DiscoverySimulationReport }
+  | { ok: false; error: string }
+
 /** Saved left/right plugins roots for the folder compare tool. */
 export interface ComparePreset {
   id: string
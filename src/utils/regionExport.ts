@@ -49,7 +49,10 @@ export function buildRegionExportDocument(server: ServerProfile): RegionExportDo
 
 export function downloadJsonDocument(filename: string, doc: unknown): void {
   const json = JSON.stringify(doc, null, 2)
-  const blob = new Blob([json], { type: 'application/json;charset=utf-8' })
+  downloadBlob(filename, new Blob([json], { type: 'application/json;charset=utf-8' }))
+}
+
+export function downloadBlob(filename: string, blob: Blob): void {
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
@@ -61,7 +64,7 @@ export function downloadJsonDocument(filename: string, doc: unknown): void {
   URL.revokeObjectURL(url)
 }
 
-function safeFilenamePart(s: string): string {
+export function safeFilenamePart(s: string): string {
   const t = s.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '')
   return t || 'server'
 }
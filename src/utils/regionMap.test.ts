@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { buildRegionMapModel, mapWorldForFolder, mapWorldsWithGeometry } from './regionMap'
+import type { RegionGeometry, RegionRecord, ServerProfile } from '../types'
+
+const square = (x: number, z: number, size: number): RegionGeometry => ({
+  type: 'cuboid',
+  min: { x, y: 0, z },
+  max: { x: x + size - 1, y: 255, z: z + size - 1 },
+})
+
+function region(id: string, kind: RegionRecord['kind'], geometry?: RegionGeometry): RegionRecord {
+  return {
+    world: 'overworld',
+    id,
+    kind,
+    discover: { method: 'on_enter', recipeId: 'region' },
+    ...(geometry ? { geometry } : {}),
+  }
+}
+
+function profileOf(regions: RegionRecord[]): ServerProfile {
+  return {
+    id: 's1',
+    regions,
+    spawnCenter: { world: 'world', x: 0, z: 0 },
+    sources: {},
+    onboarding: { teleport: { world: 'world', x: 300, z: -200 } },
+    regionsMeta: { levelledMobs: { regionBands: { wilds: 'hard' } } },
+  } as unknown as ServerProfile
+}
+
+const profile = profileOf([
+  region('heart_of_wilds', 'heart', square(40, 40, 10)),
+  region('wilds', 'region', square(0, 0, 200)),
+  region('unmapped', 'region'),
+])
+
+describe('buildRegionMapModel', () => {
+  it('draws larger regions first and colours them by kind or band', () => {
+    const byKind = buildRegionMapModel(profile, 'overworld', 'kind')!
+    expect(byKind.shapes.map((s) => [s.id, s.color])).toEqual([
+      ['wilds', 'blue'],
+      ['heart_of_wilds', 'red'],
+    ])
+    expect(byKind.shapes[0].points).toBe('0,0 200,0 200,200 0,200')
+
+    const byBand = buildRegionMapModel(profile, 'overworld', 'band')!
+    expect(byBand.shapes.map((s) => s.color)).toEqual(['yellow', 'gray'])
+  })
+
+  it('adds spawn and teleport markers and pads the bounds around them', () => {
+    const model = buildRegionMapModel(profile, 'overworld', 'kind')!
+    expect(model.markers).toEqual([
+      { type: 'spawn', label: 'Spawn', x: 0, z: 0 },
+      { type: 'teleport', label: 'First-join teleport', x: 300, z: -200 },
+    ])
+    expect(model.bounds).toEqual({ minX: -16, minZ: -216, width: 332, height: 432 })
+  })
+
+  it('returns null for worlds without geometry', () => {
+    expect(buildRegionMapModel(profile, 'nether', 'kind')).toBeNull()
+    expect(mapWorldsWithGeometry(profile)).toEqual(['overworld'])
+  })
+})
+
+describe('mapWorldForFolder', () => {
+  it('maps Bukkit world folders to map worlds', () => {
+    expect(mapWorldForFolder('world')).toBe('overworld')
+    expect(mapWorldForFolder('world_nether')).toBe('nether')
+    expect(mapWorldForFolder('world_the_end')).toBe('end')
+  })
+})
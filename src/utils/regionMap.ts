@@ -0,0 +1,137 @@
+import type { RegionKind, RegionRecord, ServerProfile } from '../types'
+import { formatRegionLabel } from '@shared/stringFormatters'
+import { regionKey } from '@shared/regionOverrides'
+import { regionArea, regionCentroid, regionOutline, worldSpawnPoints } from '@shared/regionGeometry'
+import type { LevelledMobsBand } from '@shared/lmBandPlanner'
+
+export type RegionMapWorld = RegionRecord['world']
+
+export type RegionMapColourBy = 'kind' | 'band'
+
+/** Mantine colour names, shared with the region list badges. */
+export const REGION_KIND_COLORS: Record<RegionKind, string> = {
+  system: 'gray',
+  region: 'blue',
+  village: 'teal',
+  heart: 'red',
+  nerve: 'violet',
+  structure: 'orange',
+  water: 'cyan',
+}
+
+export const BAND_COLORS: Record<LevelledMobsBand, string> = {
+  easy: 'green',
+  normal: 'teal',
+  hard: 'yellow',
+  severe: 'orange',
+  deadly: 'red',
+}
+
+/** Regions without a band are drawn like LevelledMobs treats them (normal), but greyed. */
+const UNSET_BAND_COLOR = 'gray'
+
+export interface RegionMapShape {
+  key: string
+  id: string
+  label: string
+  kind: RegionKind
+  /** Outline in map units (x right, z down), as an SVG `points` list. */
+  points: string
+  color: string
+  centroid: { x: number; z: number }
+}
+
+export interface RegionMapMarker {
+  type: 'spawn' | 'teleport'
+  label: string
+  x: number
+  z: number
+}
+
+export interface RegionMapModel {
+  world: RegionMapWorld
+  /** Bounding box of every shape and marker, padded. */
+  bounds: { minX: number; minZ: number; width: number; height: number }
+  /** Largest first, so hearts and structures draw over the regions around them. */
+  shapes: RegionMapShape[]
+  markers: RegionMapMarker[]
+}
+
+/** Fraction of the larger side added around the map. */
+const MAP_PADDING = 0.04
+
+/** Worlds that have at least one region with stored geometry. */
+export function mapWorldsWithGeometry(profile: ServerProfile): RegionMapWorld[] {
+  const worlds: RegionMapWorld[] = ['overworld', 'nether', 'end']
+  return worlds.filter((w) => profile.regions.some((r) => r.world === w && r.geometry))
+}
+
+/** Which map world a WorldGuard / Bukkit world folder name belongs to. */
+export function mapWorldForFolder(folder: string): RegionMapWorld {
+  if (/_nether$/i.test(folder)) return 'nether'
+  if (/_the_end$/i.test(folder)) return 'end'
+  return 'overworld'
+}
+
+export function regionMapColor(region: RegionRecord, colourBy: RegionMapColourBy, profile: ServerProfile): string {
+  if (colourBy === 'kind') return REGION_KIND_COLORS[region.kind]
+  const band = profile.regionsMeta?.levelledMobs?.regionBands?.[region.id]?.toLowerCase()
+  return band && band in BAND_COLORS ? BAND_COLORS[band as LevelledMobsBand] : UNSET_BAND_COLOR
+}
+
+/** Shapes and markers for one world; null when none of its regions have geometry. */
+export function buildRegionMapModel(
+  profile: ServerProfile,
+  world: RegionMapWorld,
+  colourBy: RegionMapColourBy
+): RegionMapModel | null {
+  const placed = profile.regions.filter((r) => r.world === world && r.geometry)
+  if (placed.length === 0) return null
+
+  const shapes = placed
+    .map((region) => ({ region, area: regionArea(region.geometry!) }))
+    .sort((a, b) => b.area - a.area || a.region.id.localeCompare(b.region.id))
+    .map(({ region }) => ({
+      key: regionKey(region),
+      id: region.id,
+      label: formatRegionLabel(region),
+      kind: region.kind,
+      points: regionOutline(region.geometry!)
+        .map((p) => `${p.x},${p.z}`)
+        .join(' '),
+      color: regionMapColor(region, colourBy, profile),
+      centroid: regionCentroid(region.geometry!),
+    }))
+
+  const markers: RegionMapMarker[] = []
+  const spawn = worldSpawnPoints(profile)[world]
+  markers.push({ type: 'spawn', label: 'Spawn', ...spawn })
+  const teleport = profile.onboarding?.teleport
+  if (teleport?.world && mapWorldForFolder(teleport.world) === world) {
+    markers.push({ type: 'teleport', label: 'First-join teleport', x: teleport.x, z: teleport.z })
+  }
+
+  let minX = Infinity
+  let minZ = Infinity
+  let maxX = -Infinity
+  let maxZ = -Infinity
+  for (const region of placed) {
+    minX = Math.min(minX, region.geometry!.min.x)
+    minZ = Math.min(minZ, region.geometry!.min.z)
+    maxX = Math.max(maxX, region.geometry!.max.x + 1)
+    maxZ = Math.max(maxZ, region.geometry!.max.z + 1)
+  }
+  for (const m of markers) {
+    minX = Math.min(minX, m.x)
+    minZ = Math.min(minZ, m.z)
+    maxX = Math.max(maxX, m.x)
+    maxZ = Math.max(maxZ, m.z)
+  }
+  const pad = Math.max(16, Math.round(Math.max(maxX - minX, maxZ - minZ) * MAP_PADDING))
+  return {
+    world,
+    bounds: { minX: minX - pad, minZ: minZ - pad, width: maxX - minX + 2 * pad, height: maxZ - minZ + 2 * pad },
+    shapes,
+    markers,
+  }
+}
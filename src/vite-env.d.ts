@@ -1,5 +1,23 @@
 /// <reference types="vite/client" />
 
+/** build-configs / preview-build inputs: one toggle (and optional source path) per generator. */
+type BuildConfigsInputs = Partial<Record<import('@shared/generatorCatalog').GeneratorToggleKey, boolean>> &
+  Partial<Record<import('@shared/generatorCatalog').GeneratorPathKey, string>> & {
+    worldGuardRegionsWorldFolder?: string
+    worldGuardRegionsNetherWorldFolder?: string
+    worldGuardRegionsEndWorldFolder?: string
+    buildTarget?: import('./types').BuildTarget
+    discordSrv?: import('./types').DiscordSrvSettings
+    mcTebexSubdomain?: string
+    webMap?: import('./types').WebMapSettings
+    outDir: string
+    propagateToPluginFolders?: boolean
+    testBuild?: boolean
+    buildNote?: string
+    /** Diff-gate fingerprints to accept for this build only. */
+    acceptDrift?: Partial<Record<import('./types').GeneratorVersionKey, string>>
+  }
+
 // Extend Window interface for electronAPI
 interface ElectronAPI {
   listServers: () => Promise<ServerSummaryWithStats[]>
@@ -10,6 +28,16 @@ interface ElectronAPI {
   ) => Promise<ServerProfile | null>
   getServer: (serverId: string) => Promise<ServerProfile | null>
   deleteServer: (serverId: string) => Promise<{ success: boolean; error?: string }>
+  recoverServerProfile: (serverId: string) => Promise<import('./types').ServerProfileRecoveryResult>
+  exportServerBundle: (
+    serverId: string,
+    options: import('./types').ServerProfileExportOptions
+  ) => Promise<import('./types').ServerProfileExportResponse | null>
+  previewServerBundle: () => Promise<import('./types').ServerProfileBundlePreviewResponse | null>
+  importServerBundle: (
+    filePath: string,
+    options: import('./types').ServerProfileImportOptions
+  ) => Promise<import('./types').ServerProfileImportResponse>
   setDiscordSrvSettings: (
     serverId: string,
     target: import('./types').BuildTarget,
@@ -17,14 +45,26 @@ interface ElectronAPI {
   ) => Promise<void>
   importRegions: (
     serverId: string,
-    world: 'overworld' | 'nether',
-    filePath: string
+    world: 'overworld' | 'nether' | 'end',
+    filePath: string,
+    expectedFileHash?: string
   ) => Promise<ImportResult>
   importRegionsMeta: (
     serverId: string,
     world: 'overworld' | 'nether' | 'end',
-    filePath: string
+    filePath: string,
+    expectedFileHash?: string
   ) => Promise<ImportResult>
+  previewImportRegions: (
+    serverId: string,
+    world: 'overworld' | 'nether' | 'end',
+    filePath: string
+  ) => Promise<import('./types').RegionImportPreviewResult>
+  previewImportRegionsMeta: (
+    serverId: string,
+    world: 'overworld' | 'nether' | 'end',
+    filePath: string
+  ) => Promise<import('./types').RegionImportPreviewResult>
   showImportDialog: () => Promise<string | null>
   updateOnboarding: (
     serverId: string,
@@ -35,6 +75,33 @@ interface ElectronAPI {
     regionId: string,
     updates: { anchors?: string[]; description?: string }
   ) => Promise<ServerProfile | null>
+  editRegions: (
+    serverId: string,
+    request: import('./types').RegionEditRequest
+  ) => Promise<import('./types').RegionEditResult>
+  revertRegionOverrides: (
+    serverId: string,
+    regionKeys: string[],
+    fieldNames?: (keyof import('./types').RegionOverrideFields)[]
+  ) => Promise<import('./types').RegionEditResult>
+  updateRegionRewards: (
+    serverId: string,
+    regionKey: string,
+    rewards: import('./types').RegionRewardOverrides | null
+  ) => Promise<import('./types').RegionEditResult>
+  applyBandPlan: (
+    serverId: string,
+    plan: import('./types').LevelledMobsBandPlan,
+    bands: Record<string, string>
+  ) => Promise<import('./types').RegionEditResult>
+  updateRewardEconomy: (
+    serverId: string,
+    economy: import('./types').RewardEconomy | null
+  ) => Promise<import('./types').RewardEconomyResult>
+  updateCeRecipes: (
+    serverId: string,
+    recipes: import('./types').CeRecipes | null
+  ) => Promise<import('./types').CeRecipesResult>
   scanItemIndex: () => Promise<{
     items: import('./types').ItemIndexEntry[]
     warnings: string[]
@@ -96,44 +163,44 @@ interface ElectronAPI {
     serverId: string,
     payload: { libraryCrateIds: string[] }
   ) => Promise<ServerProfile | null>
+  listTemplateLibrary: () => Promise<import('./types').TemplateLibraryEntry[]>
+  importTemplateVersion: (input: {
+    plugin: import('./types').PluginType
+    sourcePath: string
+    templateId?: string
+    name?: string
+    note?: string
+  }) => Promise<import('./types').TemplateImportResult>
+  updateTemplateLibraryEntry: (input: {
+    id: string
+    name?: string
+    description?: string
+    versionNotes?: Record<number, string>
+  }) => Promise<import('./types').TemplateLibraryEntry>
+  deleteTemplateLibraryEntry: (id: string) => Promise<import('./types').TemplateLibraryDeleteResult>
+  diffTemplateVersions: (
+    templateId: string,
+    from: number,
+    to: number
+  ) => Promise<import('./types').TemplateVersionDiffResult>
+  setTemplatePin: (
+    serverId: string,
+    target: import('./types').BuildTarget,
+    plugin: import('./types').PluginType,
+    pin: import('./types').TemplatePin | null
+  ) => Promise<ServerProfile | null>
+  diagnoseLibrary: (
+    kind: import('./types').StoredLibraryKind
+  ) => Promise<import('./types').StoredDocumentLoadProblem | null>
+  recoverLibrary: (kind: import('./types').StoredLibraryKind) => Promise<import('./types').StoredDocumentRecoveryResult>
   buildConfigs: (
     serverId: string,
-    inputs: {
-      generateAA?: boolean
-      generateBookGUI?: boolean
-      generateCE?: boolean
-      generateTAB?: boolean
-      generateLM?: boolean
-      generateLMCustomDrops?: boolean
-      generateMC?: boolean
-      generateCW?: boolean
-      generateDiscordSRV?: boolean
-      generateGriefPrevention?: boolean
-      generateCrazyCrates?: boolean
-      generateLuckPerms?: boolean
-      generatePlaceholderAPI?: boolean
-      generateWorldGuardRegions?: boolean
-      worldGuardRegionsPath?: string
-      worldGuardRegionsWorldFolder?: string
-      generateWorldGuardRegionsNether?: boolean
-      worldGuardRegionsNetherPath?: string
-      worldGuardRegionsNetherWorldFolder?: string
-      buildTarget?: import('./types').BuildTarget
-      discordSrv?: import('./types').DiscordSrvSettings
-      aaPath?: string
-      cePath?: string
-      tabPath?: string
-      lmPath?: string
-      lmCustomDropsPath?: string
-      mcPath?: string
-      mcTebexSubdomain?: string
-      cwPath?: string
-      outDir: string
-      propagateToPluginFolders?: boolean
-      testBuild?: boolean
-      buildNote?: string
-    }
+    inputs: BuildConfigsInputs
   ) => Promise<BuildResult>
+  previewBuild: (
+    serverId: string,
+    inputs: BuildConfigsInputs
+  ) => Promise<import('./types').BuildPreviewResult>
   showConfigFileDialog: (title: string, defaultPath?: string) => Promise<string | null>
   showOutputDialog: () => Promise<string | null>
   showFolderDialog: (title: string, defaultPath?: string) => Promise<string | null>
@@ -142,6 +209,7 @@ interface ElectronAPI {
     leftRoot: string,
     rightRoot: string
   ) => Promise<import('./types').PluginFolderCompareResponse>
+  checkPluginDrift: (pluginsRoot: string) => Promise<import('./types').DriftCheckResponse>
   listComparePresets: () => Promise<import('./types').ComparePreset[]>
   saveComparePreset: (input: {
     name: string
@@ -161,6 +229,21 @@ interface ElectronAPI {
   ) => Promise<{ success: boolean; count?: number; error?: string }>
   readBuildReport: (serverId: string, buildId: string) => Promise<BuildReport | null>
   listBuilds: (serverId: string) => Promise<import('./types').BuildListItem[]>
+  restoreBuild: (
+    serverId: string,
+    buildId: string,
+    options?: import('./types').BuildRestoreOptions
+  ) => Promise<import('./types').BuildRestoreResult>
+  compareBuilds: (
+    serverId: string,
+    leftBuildId: string,
+    rightBuildId: string
+  ) => Promise<import('./types').BuildCompareResponse>
+  simulateDiscovery: (
+    serverId: string,
+    buildId: string,
+    walk: import('./types').DiscoveryWalk
+  ) => Promise<import('./types').DiscoverySimulationResponse>
 }
 
 declare global {